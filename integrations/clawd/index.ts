@@ -1,9 +1,23 @@
 import { Type } from "@sinclair/typebox";
-import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
+import type { OpenClawPluginApi, OpenClawPluginToolContext } from "openclaw/plugin-sdk";
 import { emptyPluginConfigSchema } from "openclaw/plugin-sdk";
+import { WorkerClient, type ChatNamespace } from "../shared/worker-client.js";
+import { MEMORY_SOURCE } from "./hooks.js";
 
 console.log("[moltbrain] Module loading - top level");
 
+/**
+ * Channel and user of the conversation a tool runs in. They come from the
+ * runtime, never from parameters the model fills in, so a prompt cannot
+ * reach another channel's or user's memories.
+ */
+function namespaceFor(ctx: OpenClawPluginToolContext): ChatNamespace {
+  if (!ctx.messageChannel) {
+    throw new Error("MoltBrain memories are only available inside a channel conversation");
+  }
+  return { channel: ctx.messageChannel, userId: ctx.requesterSenderId };
+}
+
 const moltbrainPlugin = {
   id: "moltbrain",
   name: "MoltBrain Memory",
@@ -12,10 +26,11 @@ const moltbrainPlugin = {
   configSchema: emptyPluginConfigSchema(),
   register(api: OpenClawPluginApi) {
     console.log("[moltbrain] Extension register() called");
+    const client = new WorkerClient();
     // Register memory tools
     console.log("[moltbrain] Registering recall_context tool");
     api.registerTool(
-      {
+      (ctx: OpenClawPluginToolContext) => ({
         name: "recall_context",
         label: "Recall Context",
         description: "Retrieve relevant memories based on current context",
@@ -24,65 +39,79 @@ const moltbrainPlugin = {
           maxResults: Type.Optional(Type.Number({ description: "Maximum number of memories to return", default: 10 })),
         }),
         async execute(_toolCallId, params) {
-          // TODO: Connect to moltbrain API at http://localhost:37777
+          const memories = await client.searchMemories({
+            query: params.context,
+            project: MEMORY_SOURCE,
+            limit: params.maxResults ?? 10,
+            namespace: namespaceFor(ctx),
+          });
+          const result = { memories, count: memories.length };
           return {
-            content: [{ type: "text", text: JSON.stringify({ memories: [], count: 0 }, null, 2) }],
-            details: { memories: [], count: 0 },
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            details: result,
           };
         },
-      },
+      }),
       { name: "recall_context" },
     );
     console.log("[moltbrain] recall_context registered");
 
     console.log("[moltbrain] Registering search_memories tool");
     api.registerTool(
-      {
+      (ctx: OpenClawPluginToolContext) => ({
         name: "search_memories",
         label: "Search Memories",
         description: "Search through stored memories",
         parameters: Type.Object({
           query: Type.String({ description: "Search query" }),
           limit: Type.Optional(Type.Number({ description: "Maximum results to return", default: 20 })),
-          types: Type.Optional(Type.Array(Type.String(), { description: "Filter by memory types (preference, decision, learning, context)" })),
+          types: Type.Optional(Type.Array(Type.String(), { description: "Filter by memory types (preference, decision, learning, context, or an observation type of the mode)" })),
         }),
         async execute(_toolCallId, params) {
-          // TODO: Connect to moltbrain API at http://localhost:37777
+          const results = await client.searchMemories({
+            query: params.query,
+            project: MEMORY_SOURCE,
+            limit: params.limit ?? 20,
+            types: params.types,
+            namespace: namespaceFor(ctx),
+          });
+          const result = { results, count: results.length, query: params.query };
           return {
-            content: [{ type: "text", text: JSON.stringify({ results: [], count: 0, query: params.query }, null, 2) }],
-            details: { results: [], count: 0, query: params.query },
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+            details: result,
           };
         },
-      },
+      }),
       { name: "search_memories" },
     );
     console.log("[moltbrain] search_memories registered");
 
     console.log("[moltbrain] Registering save_memory tool");
     api.registerTool(
-      {
+      (ctx: OpenClawPluginToolContext) => ({
         name: "save_memory",
         label: "Save Memory",
         description: "Manually save an important piece of information",
         parameters: Type.Object({
           content: Type.String({ description: "The information to remember" }),
-          type: Type.Union([
-            Type.Literal("preference"),
-            Type.Literal("decision"),
-            Type.Literal("learning"),
-            Type.Literal("context"),
-          ], { description: "Type of memory" }),
-          metadata: Type.Optional(Type.Record(Type.String(), Type.Unknown(), { description: "Additional metadata to store" })),
+          type: Type.String({ description: "Type of memory: preference, decision, learning or context (or an observation type of the mode)" }),
+          title: Type.Optional(Type.String({ description: "Short title; defaults to the first line of the content" })),
+          concepts: Type.Optional(Type.Array(Type.String(), { description: "Concepts to tag the memory with (personal, communication, work, schedule, people, team-norm)" })),
         }),
         async execute(_toolCallId, params) {
-          // TODO: Connect to moltbrain API at http://localhost:37777
-          const result = { id: `mem_${Date.now()}`, timestamp: new Date().toISOString(), message: "Memory saved successfully" };
+          // Rejects unknown types and concepts with the ones the worker accepts
+          const saved = await client.saveMemory(
+            MEMORY_SOURCE,
+            namespaceFor(ctx),
+            { type: params.type, content: params.content, title: params.title, concepts: params.concepts },
+          );
+          const result = { ...saved, message: "Memory saved successfully" };
           return {
             content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
             details: result,
           };
         },
-      },
+      }),
       { name: "save_memory" },
     );
     console.log("[moltbrain] save_memory registered");
@@ -4,6 +4,8 @@
  */
 
 import type { OpenClawExtensionContext } from './index.js';
+import { WorkerClient, type ChatNamespace, type WorkerClientConfig, type WorkerObservation } from '../shared/worker-client.js';
+import { MEMORY_SOURCE } from './hooks.js';
 
 interface ToolResult {
   success: boolean;
@@ -11,6 +13,12 @@ interface ToolResult {
   error?: string;
 }
 
+/**
+ * Channel and user of the message being answered (see OpenClawHooks.currentNamespace).
+ * Tools never take them as parameters: the model could name another user's namespace.
+ */
+export type NamespaceProvider = () => ChatNamespace | null;
+
 interface SearchParams {
   query: string;
   limit?: number;
@@ -24,15 +32,20 @@ interface RecallParams {
 
 interface SaveParams {
   content: string;
-  type: 'preference' | 'decision' | 'learning' | 'context';
-  metadata?: Record<string, unknown>;
+  type: string;
+  title?: string;
+  concepts?: string[];
 }
 
 export class MemorySkill {
   private context: OpenClawExtensionContext;
+  private client: WorkerClient;
+  private namespace: NamespaceProvider;
 
-  constructor(context: OpenClawExtensionContext) {
+  constructor(context: OpenClawExtensionContext, namespace: NamespaceProvider, config: WorkerClientConfig = {}) {
     this.context = context;
+    this.namespace = namespace;
+    this.client = new WorkerClient(config);
   }
 
   /**
@@ -81,7 +94,7 @@ export class MemorySkill {
               types: {
                 type: 'array',
                 items: { type: 'string' },
-                description: 'Filter by memory types (preference, decision, learning, context)',
+                description: 'Filter by memory types (preference, decision, learning, context, or an observation type of the mode)',
               },
             },
             required: ['query'],
@@ -99,12 +112,16 @@ export class MemorySkill {
               },
               type: {
                 type: 'string',
-                enum: ['preference', 'decision', 'learning', 'context'],
-                description: 'Type of memory',
+                description: 'Type of memory: preference, decision, learning or context (or an observation type of the mode)',
               },
-              metadata: {
-                type: 'object',
-                description: 'Additional metadata to store',
+              title: {
+                type: 'string',
+                description: 'Short title; defaults to the first line of the content',
+              },
+              concepts: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Concepts to tag the memory with (personal, communication, work, schedule, people, team-norm)',
               },
             },
             required: ['content', 'type'],
@@ -160,12 +177,7 @@ export class MemorySkill {
     try {
       const { query, limit = 20, types } = params;
 
-      let memories = await this.performSearch(query, limit);
-
-      // Filter by types if specified
-      if (types && types.length > 0) {
-        memories = memories.filter((m: any) => types.includes(m.type));
-      }
+      const memories = await this.performSearch(query, limit, types);
 
       return {
         success: true,
@@ -182,31 +194,24 @@ export class MemorySkill {
   }
 
   /**
-   * Save a new memory
+   * Save a new memory as an observation of the conversation's namespace.
+   * Unknown types and concepts are rejected with the ones the worker accepts.
    */
   private async saveMemory(params: SaveParams): Promise<ToolResult> {
     try {
-      const { content, type, metadata } = params;
-
-      const id = `mem_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const timestamp = new Date().toISOString();
-
-      // Save to storage
-      const entry = {
-        id,
-        content,
-        type,
-        timestamp,
-        metadata,
-      };
+      const { content, type, title, concepts } = params;
+      const saved = await this.client.saveMemory(MEMORY_SOURCE, this.requireNamespace(), { type, content, title, concepts });
 
-      this.context.logger.info(`Saved memory: ${type} - ${content.substring(0, 50)}...`);
+      this.context.logger.info(`Saved memory: ${saved.type} - ${content.substring(0, 50)}...`);
 
       return {
         success: true,
         data: {
-          id,
-          timestamp,
+          id: saved.id,
+          type: saved.type,
+          concepts: saved.concepts,
+          scope: saved.scope,
+          timestamp: new Date(saved.createdAtEpoch).toISOString(),
           message: 'Memory saved successfully',
         },
       };
@@ -217,10 +222,24 @@ export class MemorySkill {
   }
 
   /**
-   * Internal search implementation
+   * Search the worker for memories visible from the conversation's namespace
    */
-  private async performSearch(query: string, limit: number): Promise<unknown[]> {
-    // This will integrate with the main moltbrain search functionality
-    return [];
+  private async performSearch(query: string, limit: number, types?: string[]): Promise<WorkerObservation[]> {
+    const { channel, userId } = this.requireNamespace();
+    return this.client.searchMemories({
+      query,
+      project: MEMORY_SOURCE,
+      limit,
+      types,
+      namespace: { channel, userId }
+    });
+  }
+
+  private requireNamespace(): ChatNamespace {
+    const namespace = this.namespace();
+    if (!namespace) {
+      throw new Error('Memory tools are only available while answering a message');
+    }
+    return namespace;
   }
 }
@@ -4,12 +4,12 @@
  */
 
 import { MoltBookClient } from './moltbook-client.js';
+import { MemoryPublisher, type PublishParams } from './publisher.js';
+import { MoltBookOutbox, type OutboxEntry, type OutboxOperation, type OutboxParams } from './outbox.js';
+import type { PublishSelection } from '../shared/worker-client.js';
 import type {
-  CreatePostParams,
   GetPostsParams,
-  AddCommentParams,
   SearchParams,
-  RegisterAgentParams,
 } from './types.js';
 
 export interface MCPRequest {
@@ -18,6 +18,9 @@ export interface MCPRequest {
   params?: unknown;
 }
 
+/** Write parameters may name the idempotency key to queue them under */
+type WriteParams<K extends OutboxOperation> = OutboxParams[K] & { idempotencyKey?: string };
+
 export interface MCPResponse {
   jsonrpc: '2.0';
   id: string | number;
@@ -30,10 +33,18 @@ export interface MCPResponse {
 
 export class MoltBookHandlers {
   private client: MoltBookClient;
+  private publisher: MemoryPublisher;
+  private outbox: MoltBookOutbox;
   private initialized = false;
 
-  constructor(client: MoltBookClient) {
+  constructor(
+    client: MoltBookClient,
+    outbox: MoltBookOutbox = new MoltBookOutbox(client),
+    publisher: MemoryPublisher = new MemoryPublisher(client, outbox)
+  ) {
     this.client = client;
+    this.publisher = publisher;
+    this.outbox = outbox;
   }
 
   async handleRequest(request: MCPRequest): Promise<MCPResponse> {
@@ -49,13 +60,13 @@ export class MoltBookHandlers {
         case 'initialize':
           return this.handleInitialize(id, params);
         case 'moltbook/create_post':
-          return this.handleCreatePost(id, params as CreatePostParams);
+          return this.handleCreatePost(id, params as WriteParams<'create_post'>);
         case 'moltbook/get_posts':
           return this.handleGetPosts(id, params as GetPostsParams);
         case 'moltbook/get_post':
           return this.handleGetPost(id, params as { postId: string });
         case 'moltbook/add_comment':
-          return this.handleAddComment(id, params as AddCommentParams);
+          return this.handleAddComment(id, params as WriteParams<'add_comment'>);
         case 'moltbook/list_submolts':
           return this.handleListSubmolts(id);
         case 'moltbook/get_submolt':
@@ -63,9 +74,17 @@ export class MoltBookHandlers {
         case 'moltbook/search':
           return this.handleSearch(id, params as SearchParams);
         case 'moltbook/register_agent':
-          return this.handleRegisterAgent(id, params as RegisterAgentParams);
+          return this.handleRegisterAgent(id, params as WriteParams<'register_agent'>);
         case 'moltbook/get_agent':
           return this.handleGetAgent(id, params as { agentId: string });
+        case 'moltbook/preview_publish':
+          return this.handlePreviewPublish(id, params as PublishSelection);
+        case 'moltbook/publish_memories':
+          return this.handlePublishMemories(id, params as PublishParams);
+        case 'moltbook/sync_replies':
+          return this.handleSyncReplies(id, params as { project?: string } | undefined);
+        case 'moltbook/outbox_status':
+          return this.handleOutboxStatus(id);
         case 'shutdown':
           return this.handleShutdown(id);
         default:
@@ -96,6 +115,10 @@ export class MoltBookHandlers {
           'moltbook/search': true,
           'moltbook/register_agent': true,
           'moltbook/get_agent': true,
+          'moltbook/preview_publish': true,
+          'moltbook/publish_memories': true,
+          'moltbook/sync_replies': true,
+          'moltbook/outbox_status': true,
         },
       },
     };
@@ -103,13 +126,13 @@ export class MoltBookHandlers {
     return { jsonrpc: '2.0', id, result };
   }
 
-  private async handleCreatePost(id: string | number, params: CreatePostParams): Promise<MCPResponse> {
+  private async handleCreatePost(id: string | number, params: WriteParams<'create_post'>): Promise<MCPResponse> {
     if (!params?.title || !params?.content || !params?.submolt) {
       return this.errorResponse(id, -32602, 'Missing required parameters: title, content, submolt');
     }
 
-    const post = await this.client.createPost(params);
-    return { jsonrpc: '2.0', id, result: { post } };
+    const { idempotencyKey, ...post } = params;
+    return this.writeResponse(id, 'post', await this.outbox.submit('create_post', post, idempotencyKey));
   }
 
   private async handleGetPosts(id: string | number, params?: GetPostsParams): Promise<MCPResponse> {
@@ -126,13 +149,13 @@ export class MoltBookHandlers {
     return { jsonrpc: '2.0', id, result: { post } };
   }
 
-  private async handleAddComment(id: string | number, params: AddCommentParams): Promise<MCPResponse> {
+  private async handleAddComment(id: string | number, params: WriteParams<'add_comment'>): Promise<MCPResponse> {
     if (!params?.postId || !params?.content) {
       return this.errorResponse(id, -32602, 'Missing required parameters: postId, content');
     }
 
-    const comment = await this.client.addComment(params);
-    return { jsonrpc: '2.0', id, result: { comment } };
+    const { idempotencyKey, ...comment } = params;
+    return this.writeResponse(id, 'comment', await this.outbox.submit('add_comment', comment, idempotencyKey));
   }
 
   private async handleListSubmolts(id: string | number): Promise<MCPResponse> {
@@ -158,13 +181,13 @@ export class MoltBookHandlers {
     return { jsonrpc: '2.0', id, result: results };
   }
 
-  private async handleRegisterAgent(id: string | number, params: RegisterAgentParams): Promise<MCPResponse> {
+  private async handleRegisterAgent(id: string | number, params: WriteParams<'register_agent'>): Promise<MCPResponse> {
     if (!params?.name || !params?.description) {
       return this.errorResponse(id, -32602, 'Missing required parameters: name, description');
     }
 
-    const agent = await this.client.registerAgent(params);
-    return { jsonrpc: '2.0', id, result: { agent } };
+    const { idempotencyKey, ...agent } = params;
+    return this.writeResponse(id, 'agent', await this.outbox.submit('register_agent', agent, idempotencyKey));
   }
 
   private async handleGetAgent(id: string | number, params: { agentId: string }): Promise<MCPResponse> {
@@ -176,6 +199,57 @@ export class MoltBookHandlers {
     return { jsonrpc: '2.0', id, result: { agent } };
   }
 
+  private async handlePreviewPublish(id: string | number, params: PublishSelection): Promise<MCPResponse> {
+    if (!params?.observationIds?.length && !params?.summaryId) {
+      return this.errorResponse(id, -32602, 'Missing required parameters: observationIds or summaryId');
+    }
+
+    const result = await this.publisher.preview(params);
+    return { jsonrpc: '2.0', id, result };
+  }
+
+  private async handlePublishMemories(id: string | number, params: PublishParams): Promise<MCPResponse> {
+    if (!params?.submolt || (!params.observationIds?.length && !params.summaryId)) {
+      return this.errorResponse(id, -32602, 'Missing required parameters: submolt, and observationIds or summaryId');
+    }
+
+    const result = await this.publisher.publish(params);
+    return { jsonrpc: '2.0', id, result };
+  }
+
+  private async handleSyncReplies(id: string | number, params?: { project?: string }): Promise<MCPResponse> {
+    const result = await this.publisher.syncReplies(params?.project);
+    return { jsonrpc: '2.0', id, result };
+  }
+
+  private handleOutboxStatus(id: string | number): MCPResponse {
+    return { jsonrpc: '2.0', id, result: this.outbox.getSummary() };
+  }
+
+  /**
+   * Result of a queued write: what MoltBook returned once sent, or where the
+   * operation stands while it waits to be retried
+   */
+  private writeResponse(id: string | number, resultKey: string, entry: OutboxEntry): MCPResponse {
+    if (entry.status === 'failed') {
+      return this.errorResponse(id, -32603, entry.lastError ?? 'MoltBook rejected the operation');
+    }
+    if (entry.status === 'sent') {
+      return { jsonrpc: '2.0', id, result: { [resultKey]: entry.result, idempotencyKey: entry.idempotencyKey } };
+    }
+    return {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        queued: true,
+        idempotencyKey: entry.idempotencyKey,
+        attempts: entry.attempts,
+        lastError: entry.lastError,
+        nextAttemptAt: entry.nextAttemptAt,
+      },
+    };
+  }
+
   private handleShutdown(id: string | number): MCPResponse {
     this.initialized = false;
     return { jsonrpc: '2.0', id, result: { success: true } };
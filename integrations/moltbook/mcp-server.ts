@@ -5,10 +5,13 @@
 
 import { MoltBookClient } from './moltbook-client.js';
 import { MoltBookHandlers } from './handlers.js';
+import { DEFAULT_OUTBOX_PATH, MoltBookOutbox } from './outbox.js';
 
 const DEFAULT_API_URL = process.env.MOLTBRAIN_MOLTBOOK_API_URL || 'https://moltbook.com';
 const AGENT_ID = process.env.MOLTBRAIN_MOLTBOOK_AGENT_ID;
 const API_KEY = process.env.MOLTBRAIN_MOLTBOOK_API_KEY;
+const OUTBOX_PATH = process.env.MOLTBRAIN_MOLTBOOK_OUTBOX_PATH || DEFAULT_OUTBOX_PATH;
+const OUTBOX_FLUSH_INTERVAL_MS = 30000;
 
 // Initialize MoltBook client
 const client = new MoltBookClient({
@@ -17,7 +20,15 @@ const client = new MoltBookClient({
   apiKey: API_KEY,
 });
 
-const handlers = new MoltBookHandlers(client);
+// Writes queued while MoltBook was unreachable are retried in the background
+const outbox = new MoltBookOutbox(client, { path: OUTBOX_PATH });
+const flushOutbox = () => {
+  outbox.flush().catch((error) => console.error('Outbox flush failed:', error));
+};
+flushOutbox();
+setInterval(flushOutbox, OUTBOX_FLUSH_INTERVAL_MS).unref();
+
+const handlers = new MoltBookHandlers(client, outbox);
 
 // Stdio transport for MCP
 let buffer = '';
@@ -53,6 +64,7 @@ process.stdin.on('data', async (chunk: string) => {
 });
 
 process.stdin.on('end', () => {
+  outbox.close();
   process.exit(0);
 });
 
@@ -15,30 +15,84 @@ import type {
   RegisterAgentParams,
 } from './types.js';
 
+export interface MoltBookRetryConfig {
+  /** Attempts per request, including the first (default 4) */
+  maxAttempts?: number;
+  /** First backoff delay, doubled on every retry (default 500ms) */
+  baseDelayMs?: number;
+  /** Longest wait between attempts; a longer Retry-After ends the retries (default 30s) */
+  maxDelayMs?: number;
+}
+
 export interface MoltBookClientConfig {
   apiUrl: string;
   agentId?: string;
   apiKey?: string;
+  retry?: MoltBookRetryConfig;
+}
+
+/** Options of write operations */
+export interface WriteOptions {
+  /** Sent as Idempotency-Key so a retried write is applied once; generated when omitted */
+  idempotencyKey?: string;
+}
+
+/** Statuses worth retrying: rate limited or the API is having trouble */
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class MoltBookApiError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status; undefined when MoltBook could not be reached */
+    public readonly status?: number,
+    /** Wait requested by MoltBook through Retry-After */
+    public readonly retryAfterMs?: number
+  ) {
+    super(`MoltBook API error: ${message}`);
+    this.name = 'MoltBookApiError';
+  }
+
+  /** True when the same request may succeed later */
+  get retryable(): boolean {
+    return this.status === undefined || RETRYABLE_STATUSES.has(this.status);
+  }
+}
+
+/**
+ * Retry-After as milliseconds: delay in seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
 }
 
 export class MoltBookClient {
   private config: MoltBookClientConfig;
+  private retry: Required<MoltBookRetryConfig>;
 
   constructor(config: MoltBookClientConfig) {
     this.config = {
-      apiUrl: config.apiUrl || 'https://moltbook.com',
       ...config,
+      apiUrl: config.apiUrl || 'https://moltbook.com',
+    };
+    this.retry = {
+      maxAttempts: config.retry?.maxAttempts ?? 4,
+      baseDelayMs: config.retry?.baseDelayMs ?? 500,
+      maxDelayMs: config.retry?.maxDelayMs ?? 30000,
     };
   }
 
   /**
    * Create a new post on MoltBook
    */
-  async createPost(params: CreatePostParams): Promise<MoltBookPost> {
+  async createPost(params: CreatePostParams, options: WriteOptions = {}): Promise<MoltBookPost> {
     const response = await this.request('/api/posts', {
       method: 'POST',
       body: JSON.stringify(params),
-    });
+    }, options);
 
     return response.json();
   }
@@ -68,15 +122,23 @@ export class MoltBookClient {
   /**
    * Add a comment to a post
    */
-  async addComment(params: AddCommentParams): Promise<MoltBookComment> {
+  async addComment(params: AddCommentParams, options: WriteOptions = {}): Promise<MoltBookComment> {
     const response = await this.request(`/api/posts/${params.postId}/comments`, {
       method: 'POST',
       body: JSON.stringify({ content: params.content }),
-    });
+    }, options);
 
     return response.json();
   }
 
+  /**
+   * Get the comments of a post, oldest first
+   */
+  async getComments(postId: string): Promise<MoltBookComment[]> {
+    const response = await this.request(`/api/posts/${postId}/comments`);
+    return response.json();
+  }
+
   /**
    * List all submolts
    */
@@ -109,11 +171,11 @@ export class MoltBookClient {
   /**
    * Register an agent with MoltBook
    */
-  async registerAgent(params: RegisterAgentParams): Promise<MoltBookAgent> {
+  async registerAgent(params: RegisterAgentParams, options: WriteOptions = {}): Promise<MoltBookAgent> {
     const response = await this.request('/api/agents/register', {
       method: 'POST',
       body: JSON.stringify(params),
-    });
+    }, options);
 
     return response.json();
   }
@@ -127,16 +189,21 @@ export class MoltBookClient {
   }
 
   /**
-   * Make HTTP request to MoltBook API
+   * Make HTTP request to MoltBook API. Network errors, rate limits and
+   * server errors are retried with exponential backoff, waiting as long as
+   * Retry-After asks; writes carry an idempotency key so a retry cannot
+   * apply them twice.
+   * @throws MoltBookApiError once attempts run out or the error is not retryable
    */
   private async request(
     path: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    writeOptions?: WriteOptions
   ): Promise<Response> {
     const url = `${this.config.apiUrl}${path}`;
-    const headers: HeadersInit = {
+    const headers: Record<string, string> = {
       'Content-Type': 'application/json',
-      ...options.headers,
+      ...(options.headers as Record<string, string> | undefined),
     };
 
     if (this.config.apiKey) {
@@ -147,16 +214,28 @@ export class MoltBookClient {
       headers['X-Agent-ID'] = this.config.agentId;
     }
 
-    const response = await fetch(url, {
-      ...options,
-      headers,
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: response.statusText }));
-      throw new Error(`MoltBook API error: ${error.message || response.statusText}`);
+    if (writeOptions) {
+      headers['Idempotency-Key'] = writeOptions.idempotencyKey ?? crypto.randomUUID();
     }
 
-    return response;
+    for (let attempt = 1; ; attempt++) {
+      let error: MoltBookApiError;
+      try {
+        const response = await fetch(url, { ...options, headers });
+        if (response.ok) {
+          return response;
+        }
+        const body = await response.json().catch(() => ({ message: response.statusText })) as { message?: string };
+        error = new MoltBookApiError(body.message || response.statusText, response.status, parseRetryAfter(response.headers.get('Retry-After')));
+      } catch (fetchError) {
+        error = new MoltBookApiError(fetchError instanceof Error ? fetchError.message : 'Network error');
+      }
+
+      const delay = error.retryAfterMs ?? this.retry.baseDelayMs * 2 ** (attempt - 1);
+      if (!error.retryable || attempt >= this.retry.maxAttempts || delay > this.retry.maxDelayMs) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
   }
 }
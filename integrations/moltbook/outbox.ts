@@ -0,0 +1,313 @@
+/**
+ * MoltBook Outbox
+ * Write operations go through a SQLite-backed queue so they survive MoltBook
+ * being down or rate limiting us: each is tried right away, and one that
+ * fails for a retryable reason stays queued and is sent again later with the
+ * same idempotency key.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { logger } from '../../src/utils/logger.js';
+import { MoltBookApiError, type MoltBookClient } from './moltbook-client.js';
+import type { AddCommentParams, CreatePostParams, RegisterAgentParams } from './types.js';
+
+export const DEFAULT_OUTBOX_PATH = join(SettingsDefaultsManager.get('MOLTBRAIN_DATA_DIR'), 'moltbook-outbox.db');
+
+/** Longest wait between two deliveries of a queued operation */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+/** Result fields never written to the queue, e.g. the API key register_agent returns */
+const SECRET_FIELD_PATTERN = /api_?key|token|secret|password/i;
+
+export interface OutboxParams {
+  create_post: CreatePostParams;
+  add_comment: AddCommentParams;
+  register_agent: RegisterAgentParams;
+}
+
+export type OutboxOperation = keyof OutboxParams;
+
+export type OutboxStatus = 'pending' | 'sent' | 'failed';
+
+export interface OutboxEntry {
+  id: number;
+  idempotencyKey: string;
+  operation: OutboxOperation;
+  params: unknown;
+  /** What the caller needs once the operation is sent, kept with it across restarts */
+  context: unknown;
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  result: unknown;
+  createdAt: number;
+  sentAt: number | null;
+}
+
+export type OutboxListener = (entry: OutboxEntry) => void | Promise<void>;
+
+export interface OutboxSummary {
+  pending: number;
+  sent: number;
+  failed: number;
+  /** When the next queued delivery is due */
+  nextAttemptAt: number | null;
+  /** Operations not sent yet, oldest first */
+  entries: OutboxEntry[];
+}
+
+export interface OutboxOptions {
+  /** SQLite file; ':memory:' keeps the queue in memory */
+  path?: string;
+  /** First delay before a queued operation is retried, doubled each time (default 30s) */
+  retryDelayMs?: number;
+  /** Deliveries before an operation is given up (default 10) */
+  maxAttempts?: number;
+  now?: () => number;
+}
+
+interface OutboxRow {
+  id: number;
+  idempotency_key: string;
+  operation: OutboxOperation;
+  params_json: string;
+  context_json: string | null;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at_epoch: number | null;
+  result_json: string | null;
+  created_at_epoch: number;
+  sent_at_epoch: number | null;
+}
+
+/**
+ * A copy of a MoltBook result without its secret fields, at any depth
+ */
+function withoutSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([key]) => !SECRET_FIELD_PATTERN.test(key))
+      .map(([key, field]) => [key, withoutSecrets(field)]));
+  }
+  return value;
+}
+
+function toEntry(row: OutboxRow): OutboxEntry {
+  return {
+    id: row.id,
+    idempotencyKey: row.idempotency_key,
+    operation: row.operation,
+    params: JSON.parse(row.params_json),
+    context: row.context_json ? JSON.parse(row.context_json) : null,
+    status: row.status,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    nextAttemptAt: row.next_attempt_at_epoch,
+    result: row.result_json ? JSON.parse(row.result_json) : null,
+    createdAt: row.created_at_epoch,
+    sentAt: row.sent_at_epoch,
+  };
+}
+
+export class MoltBookOutbox {
+  private db: Database;
+  private retryDelayMs: number;
+  private maxAttempts: number;
+  private now: () => number;
+  private flushing: Promise<number> | null = null;
+  private sentListeners: OutboxListener[] = [];
+
+  constructor(private client: MoltBookClient, options: OutboxOptions = {}) {
+    const path = options.path ?? DEFAULT_OUTBOX_PATH;
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path);
+    this.db.run('PRAGMA journal_mode = WAL');
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        idempotency_key TEXT UNIQUE NOT NULL,
+        operation TEXT NOT NULL CHECK(operation IN ('create_post', 'add_comment', 'register_agent')),
+        params_json TEXT NOT NULL,
+        context_json TEXT,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sent', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at_epoch INTEGER,
+        result_json TEXT,
+        created_at_epoch INTEGER NOT NULL,
+        sent_at_epoch INTEGER
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_outbox_due ON outbox(status, next_attempt_at_epoch)');
+    const columns = this.db.prepare('PRAGMA table_info(outbox)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'context_json')) {
+      this.db.run('ALTER TABLE outbox ADD COLUMN context_json TEXT');
+    }
+
+    this.retryDelayMs = options.retryDelayMs ?? 30000;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Queue a write and try to deliver it right away. Submitting a key again
+   * returns the operation queued or sent under it instead of a duplicate;
+   * one MoltBook rejected is tried again as a new attempt.
+   * @param context - Stored with the operation and handed to onSent listeners
+   * @returns The entry: `sent` with its result, `pending` when it will be
+   * retried, or `failed` when MoltBook rejected it
+   */
+  async submit<K extends OutboxOperation>(
+    operation: K,
+    params: OutboxParams[K],
+    idempotencyKey: string = crypto.randomUUID(),
+    context: unknown = null
+  ): Promise<OutboxEntry> {
+    const existing = this.get(idempotencyKey);
+    if (existing && existing.status !== 'failed') {
+      return existing;
+    }
+
+    // Not due for flush() while this first delivery is in flight
+    if (existing) {
+      this.db.prepare(`
+        UPDATE outbox SET operation = ?, params_json = ?, context_json = ?, status = 'pending', attempts = 0, last_error = NULL, next_attempt_at_epoch = ?
+        WHERE id = ?
+      `).run(operation, JSON.stringify(params), JSON.stringify(context), this.now() + this.retryDelayMs, existing.id);
+    } else {
+      this.db.prepare(`
+        INSERT INTO outbox (idempotency_key, operation, params_json, context_json, next_attempt_at_epoch, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(idempotencyKey, operation, JSON.stringify(params), JSON.stringify(context), this.now() + this.retryDelayMs, this.now());
+    }
+
+    return this.deliver(this.get(idempotencyKey)!, false);
+  }
+
+  /**
+   * Deliver every queued operation that is due, oldest first. Concurrent
+   * calls share one pass.
+   * @returns Number of operations sent
+   */
+  flush(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.flushDue().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * Call a listener with each queued operation once a later flush (possibly
+   * by another process after a restart) sends it. Operations sent right away
+   * are returned by submit instead.
+   */
+  onSent(listener: OutboxListener): void {
+    this.sentListeners.push(listener);
+  }
+
+  get(idempotencyKey: string): OutboxEntry | null {
+    const row = this.db.prepare('SELECT * FROM outbox WHERE idempotency_key = ?').get(idempotencyKey) as OutboxRow | null;
+    return row ? toEntry(row) : null;
+  }
+
+  /**
+   * Counts per status, and the operations not sent yet
+   */
+  getSummary(): OutboxSummary {
+    const counts = Object.fromEntries(
+      (this.db.prepare('SELECT status, COUNT(*) AS count FROM outbox GROUP BY status').all() as Array<{ status: OutboxStatus; count: number }>)
+        .map(({ status, count }) => [status, count])
+    ) as Partial<Record<OutboxStatus, number>>;
+    const entries = (this.db.prepare(`
+      SELECT * FROM outbox WHERE status != 'sent' ORDER BY created_at_epoch ASC, id ASC LIMIT 100
+    `).all() as OutboxRow[]).map(toEntry);
+
+    return {
+      pending: counts.pending ?? 0,
+      sent: counts.sent ?? 0,
+      failed: counts.failed ?? 0,
+      nextAttemptAt: entries.filter(entry => entry.status === 'pending')
+        .reduce<number | null>((next, entry) => (next === null || entry.nextAttemptAt! < next ? entry.nextAttemptAt : next), null),
+      entries,
+    };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private async flushDue(): Promise<number> {
+    const due = (this.db.prepare(`
+      SELECT * FROM outbox WHERE status = 'pending' AND next_attempt_at_epoch <= ?
+      ORDER BY created_at_epoch ASC, id ASC
+    `).all(this.now()) as OutboxRow[]).map(toEntry);
+
+    let sent = 0;
+    for (const entry of due) {
+      if ((await this.deliver(entry, true)).status === 'sent') sent++;
+    }
+    return sent;
+  }
+
+  private async deliver(entry: OutboxEntry, notify: boolean): Promise<OutboxEntry> {
+    const attempts = entry.attempts + 1;
+    // Push the next attempt back first so no other pass sends it meanwhile
+    this.db.prepare('UPDATE outbox SET next_attempt_at_epoch = ? WHERE id = ?').run(this.now() + this.retryDelayMs, entry.id);
+
+    try {
+      const result = await this.send(entry);
+      this.db.prepare(`
+        UPDATE outbox SET status = 'sent', attempts = ?, last_error = NULL, next_attempt_at_epoch = NULL, result_json = ?, sent_at_epoch = ?
+        WHERE id = ?
+      `).run(attempts, JSON.stringify(withoutSecrets(result)), this.now(), entry.id);
+
+      const sent = { ...this.get(entry.idempotencyKey)!, result };
+      for (const listener of notify ? this.sentListeners : []) {
+        try {
+          await listener(sent);
+        } catch (error) {
+          logger.error('MOLTBOOK', 'Outbox listener failed', { idempotencyKey: sent.idempotencyKey }, error as Error);
+        }
+      }
+      return sent;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const retryable = !(error instanceof MoltBookApiError) || error.retryable;
+
+      if (retryable && attempts < this.maxAttempts) {
+        const backoff = Math.min(this.retryDelayMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+        const retryAfter = error instanceof MoltBookApiError ? error.retryAfterMs ?? 0 : 0;
+        this.db.prepare('UPDATE outbox SET attempts = ?, last_error = ?, next_attempt_at_epoch = ? WHERE id = ?')
+          .run(attempts, message, this.now() + Math.max(backoff, retryAfter), entry.id);
+      } else {
+        this.db.prepare(`UPDATE outbox SET status = 'failed', attempts = ?, last_error = ?, next_attempt_at_epoch = NULL WHERE id = ?`)
+          .run(attempts, message, entry.id);
+      }
+    }
+    return this.get(entry.idempotencyKey)!;
+  }
+
+  private send(entry: OutboxEntry): Promise<unknown> {
+    const options = { idempotencyKey: entry.idempotencyKey };
+    switch (entry.operation) {
+      case 'create_post':
+        return this.client.createPost(entry.params as CreatePostParams, options);
+      case 'add_comment':
+        return this.client.addComment(entry.params as AddCommentParams, options);
+      case 'register_agent':
+        return this.client.registerAgent(entry.params as RegisterAgentParams, options);
+    }
+  }
+}
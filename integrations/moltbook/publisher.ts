@@ -0,0 +1,163 @@
+/**
+ * Memory Publisher
+ * Shares curated MoltBrain memories as MoltBook posts and brings the replies
+ * back as observations. The worker renders and redacts posts and owns the
+ * records; this side only talks to MoltBook.
+ */
+
+import { createHash } from 'crypto';
+import type { MoltBookClient } from './moltbook-client.js';
+import { MoltBookOutbox, type OutboxEntry } from './outbox.js';
+import type { CreatePostParams, MoltBookPost, MoltBookSubmolt } from './types.js';
+import {
+  WorkerClient,
+  type PublishPreview,
+  type PublishSelection,
+  type PublishedPost,
+} from '../shared/worker-client.js';
+
+export interface PublishParams extends PublishSelection {
+  submolt: string;
+}
+
+/** A publication MoltBook could not take yet; it is recorded once the outbox sends it */
+export interface QueuedPublication {
+  queued: true;
+  idempotencyKey: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number | null;
+  preview: PublishPreview;
+}
+
+export interface ReplySyncResult {
+  posts: number;
+  stored: number;
+  skipped: number;
+  failed: Array<{ postId: string; error: string }>;
+}
+
+/**
+ * Idempotency key of a publication: the same memories rendered to the same
+ * post in the same submolt always map to one MoltBook post
+ */
+export function publicationKey(preview: PublishPreview, submolt: string): string {
+  const observationIds = [...preview.observationIds].sort((a, b) => a - b).join(',');
+  const post = createHash('sha256').update(JSON.stringify([preview.title, preview.content])).digest('hex').slice(0, 16);
+  return `publish:${preview.project}:submolt=${submolt}:observations=${observationIds}:summary=${preview.summaryId ?? ''}:post=${post}`;
+}
+
+/** Stored with a queued post so it can be recorded once sent */
+interface PublicationContext {
+  project: string;
+  submolt: string;
+  observationIds: number[];
+  summaryId: number | null;
+}
+
+export class MemoryPublisher {
+  constructor(
+    private moltbook: MoltBookClient,
+    private outbox: MoltBookOutbox = new MoltBookOutbox(moltbook),
+    private worker: WorkerClient = new WorkerClient()
+  ) {
+    outbox.onSent(entry => this.recordQueued(entry));
+  }
+
+  /**
+   * The post a selection would publish, and the submolts it can go to
+   */
+  async preview(selection: PublishSelection): Promise<{ preview: PublishPreview; submolts: MoltBookSubmolt[] }> {
+    const [preview, submolts] = await Promise.all([
+      this.worker.previewPublish(selection),
+      this.moltbook.listSubmolts(),
+    ]);
+    return { preview, submolts };
+  }
+
+  /**
+   * Publish a selection exactly as previewed through the outbox and record
+   * the post on its memories once MoltBook has it. Memories that were
+   * already shared are refused rather than posted twice.
+   */
+  async publish(params: PublishParams): Promise<{ post: MoltBookPost; preview: PublishPreview; record: PublishedPost } | QueuedPublication> {
+    const { submolt, ...selection } = params;
+    if (!submolt) {
+      throw new Error('submolt is required to publish memories');
+    }
+
+    const preview = await this.worker.previewPublish(selection);
+    if (preview.alreadyPublished.length > 0) {
+      const shared = preview.alreadyPublished
+        .map(entry => `${entry.summaryId ? `summary #${entry.summaryId}` : `observation #${entry.observationId}`} (post ${entry.postId})`);
+      throw new Error(`Already published: ${shared.join(', ')}`);
+    }
+
+    const context: PublicationContext = { project: preview.project, submolt, observationIds: preview.observationIds, summaryId: preview.summaryId };
+    const entry = await this.outbox.submit(
+      'create_post',
+      { title: preview.title, content: preview.content, submolt },
+      publicationKey(preview, submolt),
+      context
+    );
+    if (entry.status === 'failed') {
+      throw new Error(entry.lastError ?? 'MoltBook rejected the post');
+    }
+    if (entry.status === 'pending') {
+      return {
+        queued: true,
+        idempotencyKey: entry.idempotencyKey,
+        attempts: entry.attempts,
+        lastError: entry.lastError,
+        nextAttemptAt: entry.nextAttemptAt,
+        preview,
+      };
+    }
+
+    // Sent now, or earlier without being recorded
+    const post = entry.result as MoltBookPost;
+    const record = await this.worker.recordPublishedPost(post.id, submolt, preview);
+    return { post, preview, record };
+  }
+
+  /**
+   * Record a queued publication the outbox has just sent, from what was
+   * stored with it (the outbox may be flushed after a restart)
+   */
+  private async recordQueued(entry: OutboxEntry): Promise<void> {
+    if (entry.operation !== 'create_post' || !entry.context) {
+      return;
+    }
+    const { project, submolt, observationIds, summaryId } = entry.context as PublicationContext;
+    const { title } = entry.params as CreatePostParams;
+    await this.worker.recordPublishedPost((entry.result as MoltBookPost).id, submolt, { project, title, observationIds, summaryId });
+  }
+
+  /**
+   * Store new replies to every post published from a project (or all
+   * projects) as discovery observations. A post that fails is reported and
+   * the others are still synced.
+   */
+  async syncReplies(project?: string): Promise<ReplySyncResult> {
+    const posts = await this.worker.getPublishedPosts(project);
+    const result: ReplySyncResult = { posts: posts.length, stored: 0, skipped: 0, failed: [] };
+
+    for (const post of posts) {
+      try {
+        const comments = await this.moltbook.getComments(post.post_id);
+        const synced = await this.worker.storePostReplies(post.post_id, comments.map(comment => ({
+          id: comment.id,
+          author: comment.author ?? null,
+          content: comment.content,
+          createdAt: comment.createdAt,
+        })));
+        result.stored += synced.stored.length;
+        result.skipped += synced.skipped;
+      } catch (error) {
+        result.failed.push({ postId: post.post_id, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    return result;
+  }
+}
@@ -3,7 +3,7 @@
  * Integrates moltbrain with OpenClaw's agent loop
  */
 
-import type { OpenClawPluginApi } from 'openclaw/plugin-sdk';
+import { WorkerClient, type ChatNamespace, type WorkerClientConfig, type WorkerObservation } from '../shared/worker-client.js';
 
 // Define the types locally since they're not exported from the plugin SDK
 interface OpenClawExtensionContext {
@@ -39,22 +39,28 @@ interface OpenClawSession {
   userName?: string;
 }
 
-interface MemoryEntry {
-  id: string;
-  content: string;
-  type: string;
-  timestamp: string;
-  channel: string;
-  relevance?: number;
+export interface OpenClawHooksConfig extends WorkerClientConfig {
+  maxMemories?: number;
+  autoCapture?: boolean;
 }
 
+/** Memory project, and prefix for worker session ids */
+export const MEMORY_SOURCE = 'openclaw';
+
 export class OpenClawHooks {
   private context: OpenClawExtensionContext;
+  private client: WorkerClient;
+  private maxMemories: number;
+  private autoCapture: boolean;
   private currentSession: OpenClawSession | null = null;
-  private sessionMemories: Map<string, MemoryEntry[]> = new Map();
+  private lastResponse: string | null = null;
+  private lastNamespace: ChatNamespace | null = null;
 
-  constructor(context: OpenClawExtensionContext) {
+  constructor(context: OpenClawExtensionContext, config: OpenClawHooksConfig = {}) {
     this.context = context;
+    this.client = new WorkerClient(config);
+    this.maxMemories = config.maxMemories ?? 10;
+    this.autoCapture = config.autoCapture ?? true;
   }
 
   /**
@@ -62,22 +68,36 @@ export class OpenClawHooks {
    */
   async onSessionStart(session: OpenClawSession): Promise<void> {
     this.currentSession = session;
+    this.lastResponse = null;
+    this.lastNamespace = null;
     this.context.logger.info(`Session started: ${session.id} on ${session.channel}`);
 
-    // Load relevant memories for this session
-    const memories = await this.loadSessionMemories(session);
-    this.sessionMemories.set(session.id, memories);
+    if (!(await this.client.isReady())) {
+      this.context.logger.warn('MoltBrain worker is not reachable; memories will not be saved or recalled');
+    }
   }
 
   /**
-   * Called when a message is received (before processing)
+   * Called when a message is received (before processing).
+   * Records the message as a prompt of the worker session, then injects
+   * memories visible from its channel and user.
    */
   async onMessage(message: OpenClawMessage): Promise<{ context?: string }> {
-    const sessionId = this.currentSession?.id;
-    if (!sessionId) return {};
+    const session = this.currentSession;
+    if (!session) return {};
+
+    const namespace = this.namespaceFor(message);
+    this.lastNamespace = namespace;
 
-    // Search for relevant memories based on message content
-    const relevantMemories = await this.searchMemories(message.content);
+    if (this.autoCapture) {
+      try {
+        await this.client.initSession(this.contentSessionId(session), MEMORY_SOURCE, message.content, namespace);
+      } catch (error) {
+        this.context.logger.warn(`Failed to record message: ${(error as Error).message}`);
+      }
+    }
+
+    const relevantMemories = await this.searchMemories(message.content, namespace);
 
     if (relevantMemories.length > 0) {
       const contextBlock = this.formatMemoriesAsContext(relevantMemories);
@@ -89,18 +109,25 @@ export class OpenClawHooks {
   }
 
   /**
-   * Called after a response is generated
+   * Called after a response is generated.
+   * The exchange goes through the worker's queue, whose agent decides
+   * which observations it holds.
    */
   async onResponse(message: OpenClawMessage, response: OpenClawResponse): Promise<void> {
-    // Extract and save observations from the conversation
-    const observations = this.extractObservations(message, response);
-
-    for (const obs of observations) {
-      await this.saveMemory(obs);
-    }
-
-    if (observations.length > 0) {
-      this.context.logger.info(`Saved ${observations.length} observations`);
+    const session = this.currentSession;
+    if (!session || !this.autoCapture) return;
+
+    try {
+      await this.client.queueExchange(this.contentSessionId(session), {
+        channel: message.channel,
+        userId: message.userId,
+        userName: message.userName,
+        message: message.content,
+        response: response.content
+      });
+      this.lastResponse = response.content;
+    } catch (error) {
+      this.context.logger.warn(`Failed to queue exchange: ${(error as Error).message}`);
     }
   }
 
@@ -108,103 +135,56 @@ export class OpenClawHooks {
    * Called when a session ends
    */
   async onSessionEnd(session: OpenClawSession): Promise<void> {
-    // Generate session summary if there were significant interactions
-    const memories = this.sessionMemories.get(session.id) || [];
-    
-    if (memories.length > 5) {
-      await this.generateSessionSummary(session, memories);
+    // Only sessions that reached the worker have something to summarize
+    if (this.lastResponse !== null) {
+      try {
+        await this.client.summarize(this.contentSessionId(session), this.lastResponse);
+      } catch (error) {
+        this.context.logger.warn(`Failed to request session summary: ${(error as Error).message}`);
+      }
     }
 
-    this.sessionMemories.delete(session.id);
     this.currentSession = null;
+    this.lastResponse = null;
+    this.lastNamespace = null;
     this.context.logger.info(`Session ended: ${session.id}`);
   }
 
+  /**
+   * Channel and user of the message being answered, or null outside a
+   * session. Memory tools scope themselves to it.
+   */
+  currentNamespace(): ChatNamespace | null {
+    return this.lastNamespace;
+  }
+
   // Private helper methods
-  private async loadSessionMemories(session: OpenClawSession): Promise<MemoryEntry[]> {
-    // Load memories relevant to this channel/user
-    return [];
+  private contentSessionId(session: OpenClawSession): string {
+    return `${MEMORY_SOURCE}-${session.id}`;
   }
 
-  private async searchMemories(query: string): Promise<MemoryEntry[]> {
-    // Search memories using semantic similarity
-    return [];
+  private namespaceFor(message: OpenClawMessage): ChatNamespace {
+    return { channel: message.channel, userId: message.userId, userName: message.userName };
   }
 
-  private formatMemoriesAsContext(memories: MemoryEntry[]): string {
+  private async searchMemories(query: string, namespace: ChatNamespace): Promise<WorkerObservation[]> {
+    try {
+      return await this.client.searchMemories({ query, project: MEMORY_SOURCE, namespace, limit: this.maxMemories });
+    } catch (error) {
+      this.context.logger.warn(`Memory search failed: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  private formatMemoriesAsContext(memories: WorkerObservation[]): string {
     if (memories.length === 0) return '';
 
     const lines = ['<recalled_context>'];
-    for (const mem of memories.slice(0, 10)) {
-      lines.push(`- [${mem.type}] ${mem.content}`);
+    for (const mem of memories.slice(0, this.maxMemories)) {
+      lines.push(`- [${mem.type}] ${mem.title ?? mem.narrative ?? ''}`);
     }
     lines.push('</recalled_context>');
 
     return lines.join('\n');
   }
-
-  private extractObservations(message: OpenClawMessage, response: OpenClawResponse): MemoryEntry[] {
-    const observations: MemoryEntry[] = [];
-    const timestamp = new Date().toISOString();
-
-    // Extract preferences (user explicitly states preferences)
-    const preferencePatterns = [
-      /i prefer\s+(.+)/gi,
-      /i like\s+(.+)/gi,
-      /i always\s+(.+)/gi,
-      /i never\s+(.+)/gi,
-    ];
-
-    for (const pattern of preferencePatterns) {
-      const matches = message.content.matchAll(pattern);
-      for (const match of matches) {
-        observations.push({
-          id: `obs_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-          content: match[0],
-          type: 'preference',
-          timestamp,
-          channel: message.channel,
-        });
-      }
-    }
-
-    // Extract decisions from response
-    const decisionPatterns = [
-      /i'll\s+(.+)/gi,
-      /let's\s+(.+)/gi,
-      /we should\s+(.+)/gi,
-    ];
-
-    for (const pattern of decisionPatterns) {
-      const matches = response.content.matchAll(pattern);
-      for (const match of matches) {
-        if (match[1].length > 20 && match[1].length < 200) {
-          observations.push({
-            id: `obs_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            content: match[0],
-            type: 'decision',
-            timestamp,
-            channel: message.channel,
-          });
-        }
-      }
-    }
-
-    return observations;
-  }
-
-  private async saveMemory(entry: MemoryEntry): Promise<void> {
-    // Save to moltbrain storage
-    const sessionId = this.currentSession?.id;
-    if (sessionId) {
-      const memories = this.sessionMemories.get(sessionId) || [];
-      memories.push(entry);
-      this.sessionMemories.set(sessionId, memories);
-    }
-  }
-
-  private async generateSessionSummary(session: OpenClawSession, memories: MemoryEntry[]): Promise<void> {
-    // Generate a summary of the session for long-term storage
-    this.context.logger.info(`Generating summary for session ${session.id} with ${memories.length} memories`);
-  }
 }
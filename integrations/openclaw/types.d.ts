@@ -7,6 +7,15 @@ declare module "openclaw/plugin-sdk" {
     // Add other API methods as needed
   }
 
+  /** Runtime context a tool factory is called with for each conversation */
+  export interface OpenClawPluginToolContext {
+    sessionKey?: string;
+    /** Channel the message came from (discord, slack, ...) */
+    messageChannel?: string;
+    /** Sender of the message the agent is answering */
+    requesterSenderId?: string;
+  }
+
   export interface PluginConfigSchema {
     // Define the schema structure
   }
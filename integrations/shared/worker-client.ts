@@ -0,0 +1,328 @@
+/**
+ * MoltBrain Worker Client
+ * Talks to the local worker HTTP API on behalf of chat integrations, using
+ * the same session, observation and summary endpoints as the Claude Code hooks,
+ * and on behalf of the MoltBook integration for publishing memories
+ */
+
+export const DEFAULT_WORKER_URL = 'http://127.0.0.1:37777';
+
+/** Tool name chat exchanges are queued under, so the agent sees them as one event */
+export const CHAT_TOOL_NAME = 'ChatMessage';
+
+export interface WorkerClientConfig {
+  workerUrl?: string;
+  timeoutMs?: number;
+}
+
+export interface SessionInitResult {
+  sessionDbId: number;
+  promptNumber: number;
+  skipped?: boolean;
+  reason?: string;
+}
+
+/** Channel and user a chat session's memories belong to */
+export interface ChatNamespace {
+  channel: string;
+  userId?: string;
+  userName?: string;
+}
+
+export interface ChatExchange {
+  channel: string;
+  userId?: string;
+  userName?: string;
+  message: string;
+  response: string;
+}
+
+export interface MemorySearchParams {
+  query?: string;
+  project?: string;
+  limit?: number;
+  /** Memory types, mapped onto the project's observation types by the worker */
+  types?: string[];
+  /** Restrict to memories visible from this channel (and user) */
+  namespace?: Pick<ChatNamespace, 'channel' | 'userId'>;
+}
+
+/** Memory saved explicitly through a chat tool */
+export interface SavedMemory {
+  type: string;
+  content: string;
+  title?: string;
+  concepts?: string[];
+}
+
+export interface SavedMemoryResult {
+  id: number;
+  /** Observation type the memory was stored as */
+  type: string;
+  concepts: string[];
+  scope: string;
+  createdAtEpoch: number;
+}
+
+export interface WorkerObservation {
+  id: number;
+  type: string;
+  title: string | null;
+  subtitle: string | null;
+  narrative: string | null;
+  facts: string | null;
+  project: string;
+  created_at_epoch: number;
+}
+
+/** Observations and/or a summary to share as one MoltBook post */
+export interface PublishSelection {
+  observationIds?: number[];
+  summaryId?: number;
+  title?: string;
+}
+
+/** The post a selection renders to, already redacted */
+export interface PublishPreview {
+  project: string;
+  title: string;
+  content: string;
+  observationIds: number[];
+  summaryId: number | null;
+  redactions: Record<string, number>;
+  alreadyPublished: Array<{ observationId?: number; summaryId?: number; postId: string }>;
+}
+
+export interface PublishedPost {
+  post_id: string;
+  project: string;
+  submolt: string;
+  title: string;
+  published_at_epoch: number;
+  comments_synced_at_epoch: number | null;
+  observation_ids: number[];
+  summary_id: number | null;
+  replies: number;
+}
+
+export interface PostReply {
+  id: string;
+  author: string | null;
+  content: string;
+  createdAt: string;
+}
+
+export class WorkerRequestError extends Error {
+  constructor(public readonly endpoint: string, public readonly status: number, body: string) {
+    super(`Worker API error (${status}) on ${endpoint}: ${errorDetail(body)}`);
+    this.name = 'WorkerRequestError';
+  }
+}
+
+/**
+ * The `error` message of a JSON error body, or the body itself
+ */
+function errorDetail(body: string): string {
+  try {
+    const parsed = JSON.parse(body) as { error?: unknown };
+    return typeof parsed.error === 'string' ? parsed.error : body;
+  } catch {
+    return body;
+  }
+}
+
+export class WorkerClient {
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: WorkerClientConfig = {}) {
+    const port = process.env.MOLTBRAIN_WORKER_PORT;
+    const host = process.env.MOLTBRAIN_WORKER_HOST ?? '127.0.0.1';
+    this.baseUrl = (config.workerUrl ?? (port ? `http://${host}:${port}` : DEFAULT_WORKER_URL)).replace(/\/+$/, '');
+    this.timeoutMs = config.timeoutMs ?? 10000;
+  }
+
+  /**
+   * True when the worker is up and finished initializing
+   */
+  async isReady(): Promise<boolean> {
+    try {
+      const response = await this.fetchWithTimeout('/api/readiness');
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Record a user prompt and start the memory agent for the session.
+   * The session is bound to its namespace before the agent starts, so
+   * every observation it stores is scoped to the channel and user.
+   * Fully private prompts are stored as skipped and start no agent.
+   * The worker redacts secrets before the prompt is stored or reaches the agent.
+   */
+  async initSession(contentSessionId: string, project: string, prompt: string, namespace?: ChatNamespace): Promise<SessionInitResult> {
+    const result = await this.post<SessionInitResult>('/api/sessions/init', { contentSessionId, project, prompt });
+    if (result.skipped || !result.sessionDbId) {
+      return result;
+    }
+
+    if (namespace) {
+      await this.post('/api/sessions/namespace', {
+        contentSessionId,
+        project,
+        channel: namespace.channel,
+        userId: namespace.userId ?? null,
+        userName: namespace.userName ?? null
+      });
+    }
+
+    await this.post(`/sessions/${result.sessionDbId}/init`, { userPrompt: prompt, promptNumber: result.promptNumber });
+    return result;
+  }
+
+  /**
+   * Queue a message and its response for the memory agent. The worker
+   * applies the privacy policy (chat exchanges are the ChatMessage tool)
+   * and redacts secrets before queueing it.
+   */
+  async queueExchange(contentSessionId: string, exchange: ChatExchange): Promise<void> {
+    await this.post('/api/sessions/observations', {
+      contentSessionId,
+      tool_name: CHAT_TOOL_NAME,
+      tool_input: {
+        channel: exchange.channel,
+        user: exchange.userName ?? exchange.userId ?? null,
+        message: exchange.message
+      },
+      tool_response: exchange.response
+    });
+  }
+
+  /**
+   * Ask the worker to summarize the session from its last response
+   */
+  async summarize(contentSessionId: string, lastAssistantMessage: string): Promise<void> {
+    await this.post('/api/sessions/summarize', {
+      contentSessionId,
+      last_assistant_message: lastAssistantMessage
+    });
+  }
+
+  /**
+   * Save a memory for a channel (and user) as an observation. The worker
+   * maps its type onto the project's mode and rejects unknown types and
+   * concepts with the values it accepts.
+   */
+  async saveMemory(project: string, namespace: ChatNamespace, memory: SavedMemory): Promise<SavedMemoryResult> {
+    return this.post<SavedMemoryResult>('/api/memories', {
+      project,
+      channel: namespace.channel,
+      userId: namespace.userId ?? null,
+      userName: namespace.userName ?? null,
+      type: memory.type,
+      content: memory.content,
+      title: memory.title ?? null,
+      concepts: memory.concepts ?? []
+    });
+  }
+
+  /**
+   * Search stored observations; without a query, returns the most recent ones
+   */
+  async searchMemories(params: MemorySearchParams): Promise<WorkerObservation[]> {
+    const query = new URLSearchParams({ type: 'observations', format: 'json' });
+    if (params.query) query.set('query', params.query);
+    if (params.project) query.set('project', params.project);
+    if (params.limit) query.set('limit', String(params.limit));
+    if (params.types && params.types.length > 0) {
+      query.set('obs_type', (await this.resolveMemoryTypes(params.project ?? '', params.types)).join(','));
+    }
+    if (params.namespace) {
+      query.set('channel', params.namespace.channel);
+      if (params.namespace.userId) query.set('userId', params.namespace.userId);
+    }
+
+    const response = await this.fetchWithTimeout(`/api/search?${query}`);
+    if (!response.ok) {
+      throw new WorkerRequestError('/api/search', response.status, await response.text());
+    }
+    const data = await response.json() as { observations?: WorkerObservation[] };
+    return data.observations ?? [];
+  }
+
+  /**
+   * Render and redact the MoltBook post a selection would publish
+   */
+  async previewPublish(selection: PublishSelection): Promise<PublishPreview> {
+    return this.post<PublishPreview>('/api/moltbook/preview', { ...selection });
+  }
+
+  /**
+   * Record the post MoltBook created for a preview on its observations and summary
+   */
+  async recordPublishedPost(
+    postId: string,
+    submolt: string,
+    preview: Pick<PublishPreview, 'project' | 'title' | 'observationIds' | 'summaryId'>
+  ): Promise<PublishedPost> {
+    const { post } = await this.post<{ post: PublishedPost }>('/api/moltbook/posts', {
+      postId,
+      project: preview.project,
+      submolt,
+      title: preview.title,
+      observationIds: preview.observationIds,
+      summaryId: preview.summaryId
+    });
+    return post;
+  }
+
+  /**
+   * MoltBook posts published from a project (or all projects)
+   */
+  async getPublishedPosts(project?: string): Promise<PublishedPost[]> {
+    const endpoint = `/api/moltbook/posts${project ? `?${new URLSearchParams({ project })}` : ''}`;
+    const response = await this.fetchWithTimeout(endpoint);
+    if (!response.ok) {
+      throw new WorkerRequestError('/api/moltbook/posts', response.status, await response.text());
+    }
+    const data = await response.json() as { posts: PublishedPost[] };
+    return data.posts;
+  }
+
+  /**
+   * Store replies to a published post as observations; ones stored before are skipped
+   */
+  async storePostReplies(postId: string, comments: PostReply[]): Promise<{ stored: Array<{ commentId: string; observationId: number }>; skipped: number }> {
+    return this.post(`/api/moltbook/posts/${encodeURIComponent(postId)}/replies`, { comments });
+  }
+
+  /**
+   * Observation types the given memory types are stored as in the project
+   */
+  private async resolveMemoryTypes(project: string, types: string[]): Promise<string[]> {
+    const endpoint = `/api/memories/types?${new URLSearchParams({ project, types: types.join(',') })}`;
+    const response = await this.fetchWithTimeout(endpoint);
+    if (!response.ok) {
+      throw new WorkerRequestError('/api/memories/types', response.status, await response.text());
+    }
+    const data = await response.json() as { resolved: Record<string, string> };
+    return [...new Set(types.map(type => data.resolved[type]))];
+  }
+
+  private async post<T = unknown>(endpoint: string, body: Record<string, unknown>): Promise<T> {
+    const response = await this.fetchWithTimeout(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    if (!response.ok) {
+      throw new WorkerRequestError(endpoint, response.status, await response.text());
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private async fetchWithTimeout(endpoint: string, init: RequestInit = {}): Promise<Response> {
+    return fetch(`${this.baseUrl}${endpoint}`, { ...init, signal: AbortSignal.timeout(this.timeoutMs) });
+  }
+}
@@ -67,6 +67,11 @@ async function buildHooks() {
     fs.writeFileSync('plugin/package.json', JSON.stringify(pluginPackageJson, null, 2) + '\n');
     console.log('✓ plugin/package.json generated');
 
+    // Ship the mode schema so the worker can validate modes (see ModeValidator)
+    fs.mkdirSync('plugin/schemas', { recursive: true });
+    fs.copyFileSync('schemas/mode.schema.json', 'plugin/schemas/mode.schema.json');
+    console.log('✓ plugin/schemas/mode.schema.json copied');
+
     // Build React viewer
     console.log('\n📋 Building React viewer...');
     const { spawn } = await import('child_process');
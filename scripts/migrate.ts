@@ -1,97 +1,126 @@
-#!/usr/bin/env npx tsx
+#!/usr/bin/env bun
 /**
  * Migration Runner
- * 
- * Run database migrations.
- * 
+ *
+ * Inspect and apply database schema migrations.
+ *
  * Usage:
- *   npm run migrate
- *   npx tsx scripts/migrate.ts
- *   npx tsx scripts/migrate.ts --dry-run
+ *   bun scripts/migrate.ts status             # List migrations and their state
+ *   bun scripts/migrate.ts up [version]       # Apply pending migrations (up to version)
+ *   bun scripts/migrate.ts down <version>     # Revert migrations newer than version
+ *   bun scripts/migrate.ts verify             # Exit 1 if the schema has drifted
+ *   bun scripts/migrate.ts status --db <path> # Use another database file
  */
 
-import { homedir } from 'os';
-import { join } from 'path';
-import { existsSync, readdirSync, readFileSync } from 'fs';
+import { Database } from 'bun:sqlite';
+import { existsSync } from 'fs';
+import { DB_PATH } from '../src/common/paths.js';
+import { MigrationRunner, MigrationDriftError } from '../src/core/storage/migrations/runner.js';
 
-interface MigrationOptions {
-  dryRun?: boolean;
-  verbose?: boolean;
+type Command = 'status' | 'up' | 'down' | 'verify';
+
+const COMMANDS: Command[] = ['status', 'up', 'down', 'verify'];
+
+interface MigrateOptions {
+  command: Command;
+  version?: number;
+  dbPath: string;
 }
 
-interface Migration {
-  version: number;
-  filename: string;
-  sql: string;
+function usage(): never {
+  console.error('Usage: bun scripts/migrate.ts <status|up|down|verify> [version] [--db <path>]');
+  process.exit(2);
 }
 
-function parseArgs(): MigrationOptions {
+function parseArgs(): MigrateOptions {
   const args = process.argv.slice(2);
-  const options: MigrationOptions = {};
-
-  for (const arg of args) {
-    if (arg === '--dry-run') {
-      options.dryRun = true;
-    } else if (arg === '--verbose' || arg === '-v') {
-      options.verbose = true;
+  const options: MigrateOptions = { command: 'status', dbPath: DB_PATH };
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--db') {
+      options.dbPath = args[++i] ?? usage();
+    } else {
+      positional.push(args[i]);
     }
   }
 
-  return options;
-}
+  const [command = 'status', version] = positional;
+  if (!COMMANDS.includes(command as Command)) usage();
+  options.command = command as Command;
 
-function loadMigrations(): Migration[] {
-  const migrationsDir = join(process.cwd(), 'migrations');
-  
-  if (!existsSync(migrationsDir)) {
-    console.error('Migrations directory not found');
-    return [];
+  if (version !== undefined) {
+    options.version = parseInt(version, 10);
+    if (isNaN(options.version)) usage();
   }
+  if (options.command === 'down' && options.version === undefined) usage();
 
-  const files = readdirSync(migrationsDir)
-    .filter(f => f.endsWith('.sql'))
-    .sort();
+  return options;
+}
 
-  return files.map(filename => {
-    const match = filename.match(/^(\d+)_/);
-    const version = match ? parseInt(match[1], 10) : 0;
-    const sql = readFileSync(join(migrationsDir, filename), 'utf-8');
-    return { version, filename, sql };
-  });
+function printStatus(runner: MigrationRunner): void {
+  for (const entry of runner.status()) {
+    const version = String(entry.version).padStart(3, '0');
+    const applied = entry.appliedAt ? `  ${entry.appliedAt}` : '';
+    const reversible = entry.reversible ? '' : '  (irreversible)';
+    console.log(`  ${entry.state.padEnd(8)} ${version} ${entry.name ?? '?'}${applied}${reversible}`);
+  }
 }
 
-async function main() {
+function main(): void {
   const options = parseArgs();
-  const migrations = loadMigrations();
-
-  console.log('\n🔄 claude-recall Migration Runner\n');
-  console.log('═'.repeat(50));
 
-  if (migrations.length === 0) {
-    console.log('No migrations found.');
-    return;
+  if (options.command !== 'up' && !existsSync(options.dbPath)) {
+    console.error(`Database not found: ${options.dbPath}`);
+    process.exit(1);
   }
 
-  console.log(`Found ${migrations.length} migrations:\n`);
-
-  for (const migration of migrations) {
-    const status = options.dryRun ? '[DRY RUN]' : '[PENDING]';
-    console.log(`  ${status} ${migration.filename}`);
-    
-    if (options.verbose) {
-      console.log(`    Version: ${migration.version}`);
-      console.log(`    Lines: ${migration.sql.split('\n').length}`);
+  const db = new Database(options.dbPath, { create: options.command === 'up', readwrite: true });
+  db.run('PRAGMA foreign_keys = ON');
+  const runner = new MigrationRunner(db);
+
+  try {
+    switch (options.command) {
+      case 'status':
+        console.log(`Migrations for ${options.dbPath}:\n`);
+        printStatus(runner);
+        break;
+
+      case 'verify': {
+        const problems = runner.verify();
+        if (problems.length > 0) {
+          console.error('Schema drift detected:');
+          problems.forEach(problem => console.error(`  - ${problem}`));
+          process.exitCode = 1;
+        } else {
+          console.log('Schema matches known migrations.');
+        }
+        break;
+      }
+
+      case 'up': {
+        const applied = runner.up(options.version);
+        console.log(applied.length > 0 ? `Applied migrations: ${applied.join(', ')}` : 'Database is up to date.');
+        break;
+      }
+
+      case 'down': {
+        const reverted = runner.down(options.version!);
+        console.log(reverted.length > 0 ? `Reverted migrations: ${reverted.join(', ')}` : 'Nothing to revert.');
+        break;
+      }
     }
+  } catch (error) {
+    if (error instanceof MigrationDriftError) {
+      console.error(error.message);
+      console.error('\nRun `bun scripts/migrate.ts verify` for details.');
+    } else {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 1;
+  } finally {
+    db.close();
   }
-
-  if (options.dryRun) {
-    console.log('\n⚠️  Dry run mode - no changes made');
-  } else {
-    console.log('\n✅ Migrations would be applied here');
-    console.log('   (Database connection not implemented in this script)');
-  }
-
-  console.log('\n' + '═'.repeat(50));
 }
 
-main().catch(console.error);
+main();
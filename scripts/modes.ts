@@ -0,0 +1,102 @@
+#!/usr/bin/env bun
+/**
+ * Modes
+ *
+ * Check mode definitions against schemas/mode.schema.json. Overlays
+ * (code--xx) are checked on their own and after merging onto their parent;
+ * legacy community modes are checked and converted the way the worker would.
+ *
+ * Usage:
+ *   bun scripts/modes.ts lint                     # Installed modes and contrib/modes
+ *   bun scripts/modes.ts lint <file|dir>...       # Specific files or directories
+ *   bun scripts/modes.ts lint --strict            # Treat warnings as failures
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { ModeManager } from '../src/core/domain/ModeManager.js';
+import { formatModeIssues, type ModeValidationReport } from '../src/core/domain/ModeValidator.js';
+import { getPackageRoot } from '../src/common/paths.js';
+
+interface LintOptions {
+  paths: string[];
+  strict: boolean;
+}
+
+function usage(): never {
+  console.error('Usage: bun scripts/modes.ts lint [--strict] [<file|dir>...]');
+  process.exit(2);
+}
+
+function parseArgs(): LintOptions {
+  const [command, ...args] = process.argv.slice(2);
+  if (command !== 'lint') usage();
+
+  const options: LintOptions = { paths: [], strict: false };
+  for (const arg of args) {
+    if (arg === '--strict') {
+      options.strict = true;
+    } else if (arg.startsWith('-')) {
+      usage();
+    } else {
+      options.paths.push(arg);
+    }
+  }
+
+  if (options.paths.length === 0) {
+    const repoRoot = join(getPackageRoot(), '..');
+    options.paths = [join(repoRoot, 'plugin', 'modes'), join(repoRoot, 'contrib', 'modes')].filter(p => existsSync(p));
+  }
+  return options;
+}
+
+function collectFiles(paths: string[]): string[] {
+  return paths.flatMap(path => {
+    const absolute = resolve(path);
+    if (!existsSync(absolute)) {
+      console.error(`Not found: ${path}`);
+      process.exit(2);
+    }
+    if (statSync(absolute).isDirectory()) {
+      return readdirSync(absolute).filter(file => file.endsWith('.json')).sort().map(file => join(absolute, file));
+    }
+    return [absolute];
+  });
+}
+
+function lintFile(file: string): ModeValidationReport {
+  const modeId = basename(file, '.json');
+  let definition: unknown;
+  try {
+    definition = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    return { mode: modeId, format: null, valid: false, errors: [{ path: '', message: `not valid JSON: ${(error as Error).message}` }], warnings: [] };
+  }
+  return ModeManager.getInstance().validateMode(modeId, definition);
+}
+
+function main(): void {
+  const options = parseArgs();
+  const files = collectFiles(options.paths);
+  let failed = 0;
+
+  for (const file of files) {
+    const report = lintFile(file);
+    const ok = report.valid && (!options.strict || report.warnings.length === 0);
+    if (!ok) failed++;
+
+    const format = report.format && report.format !== 'mode' ? ` (${report.format})` : '';
+    console.log(`${ok ? '✓' : '✗'} ${file}${format}`);
+    for (const line of formatModeIssues(report.errors)) {
+      console.log(`    error    ${line}`);
+    }
+    for (const line of formatModeIssues(report.warnings)) {
+      console.log(`    warning  ${line}`);
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} mode file(s) passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main();
@@ -3,72 +3,38 @@
  * Regenerate CLAUDE.md files for folders in the current project
  *
  * Usage:
- *   bun scripts/regenerate-claude-md.ts [--dry-run] [--clean]
+ *   bun scripts/regenerate-claude-md.ts [--dry-run] [--clean] [--context-dir] [--max-tokens=N]
  *
  * Options:
- *   --dry-run  Show what would be done without writing files
- *   --clean    Remove auto-generated CLAUDE.md files instead of regenerating
+ *   --dry-run        Show the diff of every file that would change without writing
+ *   --clean          Remove auto-generated CLAUDE.md files instead of regenerating
+ *   --context-dir    Write to .moltbrain/context/<folder>/CLAUDE.md instead of each folder
+ *   --max-tokens=N   Token cap per generated section (0 = no cap)
  *
  * Behavior:
  *   - Scopes to current working directory (not entire database history)
  *   - Uses git ls-files to respect .gitignore (skips node_modules, .git, etc.)
  *   - Only processes folders that exist within the current project
+ *   - Skips folders matching MOLTBRAIN_FOLDER_CONTEXT_IGNORE
  *   - Filters database to current project observations only
  */
 
 import { Database } from 'bun:sqlite';
 import path from 'path';
-import os from 'os';
-import { existsSync, mkdirSync, writeFileSync, readFileSync, renameSync, unlinkSync, readdirSync } from 'fs';
+import { existsSync, writeFileSync, readFileSync, unlinkSync, readdirSync } from 'fs';
 import { execSync } from 'child_process';
 import { SettingsDefaultsManager } from '../src/common/SettingsDefaultsManager.js';
-
-const DB_PATH = path.join(os.homedir(), '.claude-recall', 'claude-recall.db');
-const SETTINGS_PATH = path.join(os.homedir(), '.claude-recall', 'settings.json');
-const settings = SettingsDefaultsManager.loadFromFile(SETTINGS_PATH);
-const OBSERVATION_LIMIT = parseInt(settings.CLAUDE_RECALL_CONTEXT_OBSERVATIONS, 10) || 50;
-
-interface ObservationRow {
-  id: number;
-  title: string | null;
-  subtitle: string | null;
-  narrative: string | null;
-  facts: string | null;
-  type: string;
-  created_at: string;
-  created_at_epoch: number;
-  files_modified: string | null;
-  files_read: string | null;
-  project: string;
-  discovery_tokens: number | null;
-}
-
-// Import shared formatting utilities
-import { formatTime, groupByDate } from '../src/common/timeline-formatting.js';
-
-// Type icon map (matches ModeManager)
-const TYPE_ICONS: Record<string, string> = {
-  'bugfix': '🔴',
-  'feature': '🟣',
-  'refactor': '🔄',
-  'change': '✅',
-  'discovery': '🔵',
-  'decision': '⚖️',
-  'session': '🎯',
-  'prompt': '💬'
-};
-
-function getTypeIcon(type: string): string {
-  return TYPE_ICONS[type] || '📝';
-}
-
-function estimateTokens(obs: ObservationRow): number {
-  const size = (obs.title?.length || 0) +
-    (obs.subtitle?.length || 0) +
-    (obs.narrative?.length || 0) +
-    (obs.facts?.length || 0);
-  return Math.ceil(size / 4);
-}
+import { DB_PATH, USER_SETTINGS_PATH } from '../src/common/paths.js';
+import type { Observation } from '../src/core/builder/types.js';
+import {
+  generateFolderContext,
+  getFolderContextOptions,
+  isIgnoredFolder,
+  type FolderContextChange,
+  type FolderContextOptions
+} from '../src/utils/claude-md-utils.js';
+
+const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
 
 /**
  * Get tracked folders using git ls-files
@@ -136,47 +102,12 @@ function walkDirectoriesWithIgnore(dir: string, folders: Set<string>, depth: num
 }
 
 /**
- * Check if a file is a direct child of a folder (not in a subfolder)
- * @param filePath - File path like "src/core/foo.ts"
- * @param folderPath - Folder path like "src/services"
- * @returns true if file is directly in folder, false if in a subfolder
- */
-function isDirectChild(filePath: string, folderPath: string): boolean {
-  if (!filePath.startsWith(folderPath + '/')) return false;
-  const remainder = filePath.slice(folderPath.length + 1);
-  // If remainder contains a slash, it's in a subfolder
-  return !remainder.includes('/');
-}
-
-/**
- * Check if an observation has any files that are direct children of the folder
+ * Candidate observations for a folder: any that mention a path under it.
+ * The generator keeps those with a file directly in the folder and ranks them.
  */
-function hasDirectChildFile(obs: ObservationRow, folderPath: string): boolean {
-  const checkFiles = (filesJson: string | null): boolean => {
-    if (!filesJson) return false;
-    try {
-      const files = JSON.parse(filesJson);
-      if (Array.isArray(files)) {
-        return files.some(f => isDirectChild(f, folderPath));
-      }
-    } catch {}
-    return false;
-  };
-
-  return checkFiles(obs.files_modified) || checkFiles(obs.files_read);
-}
-
-/**
- * Query observations for a specific folder
- * folderPath is a relative path from the project root (e.g., "src/services")
- * Only returns observations with files directly in the folder (not in subfolders)
- */
-function findObservationsByFolder(db: Database, relativeFolderPath: string, project: string, limit: number): ObservationRow[] {
-  // Query more results than needed since we'll filter some out
-  const queryLimit = limit * 3;
-
+function findObservationsByFolder(db: Database, relativeFolderPath: string, project: string, limit: number): Observation[] {
   const sql = `
-    SELECT o.*, o.discovery_tokens
+    SELECT o.*
     FROM observations o
     WHERE o.project = ?
       AND (o.files_modified LIKE ? OR o.files_read LIKE ?)
@@ -184,143 +115,10 @@ function findObservationsByFolder(db: Database, relativeFolderPath: string, proj
     LIMIT ?
   `;
 
-  // Files in DB are stored as relative paths like "src/core/foo.ts"
-  // Match any file that starts with this folder path (we'll filter to direct children below)
-  const likePattern = `%"${relativeFolderPath}/%`;
-  const allMatches = db.prepare(sql).all(project, likePattern, likePattern, queryLimit) as ObservationRow[];
-
-  // Filter to only observations with direct child files (not in subfolders)
-  return allMatches.filter(obs => hasDirectChildFile(obs, relativeFolderPath)).slice(0, limit);
-}
-
-/**
- * Extract relevant file from an observation for display
- * Only returns files that are direct children of the folder (not in subfolders)
- * @param obs - The observation row
- * @param relativeFolder - Relative folder path (e.g., "src/services")
- */
-function extractRelevantFile(obs: ObservationRow, relativeFolder: string): string {
-  // Try files_modified first - only direct children
-  if (obs.files_modified) {
-    try {
-      const modified = JSON.parse(obs.files_modified);
-      if (Array.isArray(modified) && modified.length > 0) {
-        for (const file of modified) {
-          if (isDirectChild(file, relativeFolder)) {
-            // Get just the filename (no path since it's a direct child)
-            return path.basename(file);
-          }
-        }
-      }
-    } catch {}
-  }
-
-  // Fall back to files_read - only direct children
-  if (obs.files_read) {
-    try {
-      const read = JSON.parse(obs.files_read);
-      if (Array.isArray(read) && read.length > 0) {
-        for (const file of read) {
-          if (isDirectChild(file, relativeFolder)) {
-            return path.basename(file);
-          }
-        }
-      }
-    } catch {}
-  }
-
-  return 'General';
-}
-
-/**
- * Format observations for CLAUDE.md content
- */
-function formatObservationsForClaudeMd(observations: ObservationRow[], folderPath: string): string {
-  const lines: string[] = [];
-  lines.push('# Recent Activity');
-  lines.push('');
-  lines.push('<!-- This section is auto-generated by claude-recall. Edit content outside the tags. -->');
-  lines.push('');
-
-  if (observations.length === 0) {
-    lines.push('*No recent activity*');
-    return lines.join('\n');
-  }
-
-  const byDate = groupByDate(observations, obs => obs.created_at);
-
-  for (const [day, dayObs] of byDate) {
-    lines.push(`### ${day}`);
-    lines.push('');
-
-    const byFile = new Map<string, ObservationRow[]>();
-    for (const obs of dayObs) {
-      const file = extractRelevantFile(obs, folderPath);
-      if (!byFile.has(file)) byFile.set(file, []);
-      byFile.get(file)!.push(obs);
-    }
-
-    for (const [file, fileObs] of byFile) {
-      lines.push(`**${file}**`);
-      lines.push('| ID | Time | T | Title | Read |');
-      lines.push('|----|------|---|-------|------|');
-
-      let lastTime = '';
-      for (const obs of fileObs) {
-        const time = formatTime(obs.created_at_epoch);
-        const timeDisplay = time === lastTime ? '"' : time;
-        lastTime = time;
-
-        const icon = getTypeIcon(obs.type);
-        const title = obs.title || 'Untitled';
-        const tokens = estimateTokens(obs);
-
-        lines.push(`| #${obs.id} | ${timeDisplay} | ${icon} | ${title} | ~${tokens} |`);
-      }
-
-      lines.push('');
-    }
-  }
-
-  return lines.join('\n').trim();
-}
-
-
-/**
- * Write CLAUDE.md file with tagged content preservation
- */
-function writeClaudeMdToFolder(folderPath: string, newContent: string): void {
-  const claudeMdPath = path.join(folderPath, 'CLAUDE.md');
-  const tempFile = `${claudeMdPath}.tmp`;
-
-  mkdirSync(folderPath, { recursive: true });
-
-  let existingContent = '';
-  if (existsSync(claudeMdPath)) {
-    existingContent = readFileSync(claudeMdPath, 'utf-8');
-  }
-
-  const startTag = '<claude-recall-context>';
-  const endTag = '</claude-recall-context>';
-
-  let finalContent: string;
-  if (!existingContent) {
-    finalContent = `${startTag}\n${newContent}\n${endTag}`;
-  } else {
-    const startIdx = existingContent.indexOf(startTag);
-    const endIdx = existingContent.indexOf(endTag);
-
-    if (startIdx !== -1 && endIdx !== -1) {
-      finalContent = existingContent.substring(0, startIdx) +
-        `${startTag}\n${newContent}\n${endTag}` +
-        existingContent.substring(endIdx + endTag.length);
-    } else {
-      finalContent = existingContent + `\n\n${startTag}\n${newContent}\n${endTag}`;
-    }
-  }
-
-  writeFileSync(tempFile, finalContent);
-  renameSync(tempFile, claudeMdPath);
+  // Files are stored relative ("src/core/foo.ts") or absolute; both contain "<folder>/"
+  const likePattern = `%${relativeFolderPath}/%`;
+  // Query more results than needed since subfolder matches are filtered out
+  return db.prepare(sql).all(project, likePattern, likePattern, limit * 3) as Observation[];
 }
 
 /**
@@ -431,30 +229,19 @@ function cleanupAutoGeneratedFiles(workingDir: string, dryRun: boolean): void {
  */
 function regenerateFolder(
   db: Database,
+  workingDir: string,
   absoluteFolder: string,
   relativeFolder: string,
   project: string,
+  options: FolderContextOptions,
   dryRun: boolean
-): { success: boolean; observationCount: number; error?: string } {
+): { change: FolderContextChange | null; error?: string } {
   try {
-    // Query using relative path (matches DB storage format)
-    const observations = findObservationsByFolder(db, relativeFolder, project, OBSERVATION_LIMIT);
-
-    if (observations.length === 0) {
-      return { success: false, observationCount: 0, error: 'No observations for folder' };
-    }
-
-    if (dryRun) {
-      return { success: true, observationCount: observations.length };
-    }
-
-    // Format using relative path for display, write to absolute path
-    const formatted = formatObservationsForClaudeMd(observations, relativeFolder);
-    writeClaudeMdToFolder(absoluteFolder, formatted);
-
-    return { success: true, observationCount: observations.length };
+    const observations = findObservationsByFolder(db, relativeFolder, project, options.limit);
+    const change = generateFolderContext(absoluteFolder, observations, options, { projectRoot: workingDir, dryRun });
+    return { change };
   } catch (error) {
-    return { success: false, observationCount: 0, error: String(error) };
+    return { change: null, error: String(error) };
   }
 }
 
@@ -465,6 +252,7 @@ async function main() {
   const args = process.argv.slice(2);
   const dryRun = args.includes('--dry-run');
   const cleanMode = args.includes('--clean');
+  const maxTokensArg = args.find(arg => arg.startsWith('--max-tokens='));
 
   const workingDir = process.cwd();
 
@@ -474,8 +262,16 @@ async function main() {
     return;
   }
 
+  const options = getFolderContextOptions({
+    ...settings,
+    ...(args.includes('--context-dir') && { MOLTBRAIN_FOLDER_CONTEXT_OUTPUT: 'context-dir' }),
+    ...(maxTokensArg && { MOLTBRAIN_FOLDER_CONTEXT_MAX_TOKENS: maxTokensArg.split('=')[1] })
+  });
+
   console.log('=== CLAUDE.md Regeneration Script ===\n');
   console.log(`Working directory: ${workingDir}`);
+  console.log(`Output: ${options.output === 'context-dir' ? '.moltbrain/context/' : 'CLAUDE.md in each folder'}`);
+  console.log(`Token cap per file: ${options.maxTokens === Infinity ? 'none' : options.maxTokens}`);
 
   // Determine project identifier (matches how hooks determine project - uses folder name)
   const project = path.basename(workingDir);
@@ -502,12 +298,14 @@ async function main() {
   const db = new Database(DB_PATH, { readonly: true, create: false });
 
   if (dryRun) {
-    console.log('[DRY RUN] Would regenerate the following folders:\n');
+    console.log('[DRY RUN] Changes that would be written:\n');
   }
 
   // Process each folder
-  let successCount = 0;
+  let changedCount = 0;
+  let unchangedCount = 0;
   let skipCount = 0;
+  let ignoredCount = 0;
   let errorCount = 0;
 
   const foldersArray = Array.from(trackedFolders).sort();
@@ -517,28 +315,28 @@ async function main() {
     const progress = `[${i + 1}/${foldersArray.length}]`;
     const relativeFolder = path.relative(workingDir, absoluteFolder);
 
-    if (dryRun) {
-      // Query using relative path (matches DB storage format)
-      const observations = findObservationsByFolder(db, relativeFolder, project, OBSERVATION_LIMIT);
-      if (observations.length > 0) {
-        console.log(`${progress} ${relativeFolder} (${observations.length} obs)`);
-        successCount++;
-      } else {
-        skipCount++;
-      }
+    if (isIgnoredFolder(absoluteFolder, workingDir, options.ignore)) {
+      ignoredCount++;
       continue;
     }
 
-    const result = regenerateFolder(db, absoluteFolder, relativeFolder, project, dryRun);
+    const { change, error } = regenerateFolder(db, workingDir, absoluteFolder, relativeFolder, project, options, dryRun);
 
-    if (result.success) {
-      console.log(`${progress} ${relativeFolder} - ${result.observationCount} obs`);
-      successCount++;
-    } else if (result.error?.includes('No observations')) {
+    if (error) {
+      console.log(`${progress} ${relativeFolder} - ERROR: ${error}`);
+      errorCount++;
+    } else if (!change) {
       skipCount++;
+    } else if (!change.changed) {
+      unchangedCount++;
     } else {
-      console.log(`${progress} ${relativeFolder} - ERROR: ${result.error}`);
-      errorCount++;
+      const omitted = change.omittedCount > 0 ? `, ${change.omittedCount} over the token cap` : '';
+      console.log(`${progress} ${path.relative(workingDir, change.targetPath)} - ${change.observationCount} obs, ~${change.tokens} tokens${omitted}`);
+      if (dryRun) {
+        console.log(change.diff);
+        console.log('');
+      }
+      changedCount++;
     }
   }
 
@@ -547,8 +345,10 @@ async function main() {
   // Summary
   console.log('\n=== Summary ===');
   console.log(`Total folders scanned: ${foldersArray.length}`);
-  console.log(`With observations:     ${successCount}`);
+  console.log(`${dryRun ? 'Would change:          ' : 'Changed:               '}${changedCount}`);
+  console.log(`Unchanged:             ${unchangedCount}`);
   console.log(`No observations:       ${skipCount}`);
+  console.log(`Ignored:               ${ignoredCount}`);
   console.log(`Errors:                ${errorCount}`);
 
   if (dryRun) {
@@ -0,0 +1,122 @@
+#!/usr/bin/env bun
+/**
+ * Rekey
+ *
+ * Re-encrypt the sensitive columns of the database offline. Stop the worker
+ * first: it caches the key and would keep writing with the old one.
+ *
+ * Usage:
+ *   bun scripts/rekey.ts                     # Rotate to a newly generated key
+ *   bun scripts/rekey.ts --new-key <file>    # Rotate to the key stored in <file>
+ *   bun scripts/rekey.ts --decrypt           # Decrypt everything (before disabling encryption)
+ *   bun scripts/rekey.ts --db <path>         # Use another database file
+ *   bun scripts/rekey.ts --force             # Skip the running-worker check
+ */
+
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { DB_PATH, USER_SETTINGS_PATH } from '../src/common/paths.js';
+import { SettingsDefaultsManager } from '../src/common/SettingsDefaultsManager.js';
+import { getWorkerPort } from '../src/common/engine-utils.js';
+import { isPortInUse } from '../src/core/infra/HealthMonitor.js';
+import { ENCRYPTION_KEY_ENV, FieldCipher, loadEncryptionKey } from '../src/core/storage/FieldEncryption.js';
+import { rekeyDatabase } from '../src/core/storage/Rekey.js';
+
+interface RekeyOptions {
+  decrypt: boolean;
+  newKeyFile?: string;
+  dbPath: string;
+  force: boolean;
+}
+
+function usage(): never {
+  console.error('Usage: bun scripts/rekey.ts [--new-key <file> | --decrypt] [--db <path>] [--force]');
+  process.exit(2);
+}
+
+function parseArgs(): RekeyOptions {
+  const args = process.argv.slice(2);
+  const options: RekeyOptions = { decrypt: false, dbPath: DB_PATH, force: false };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--decrypt': options.decrypt = true; break;
+      case '--new-key': options.newKeyFile = args[++i] ?? usage(); break;
+      case '--db': options.dbPath = args[++i] ?? usage(); break;
+      case '--force': options.force = true; break;
+      default: usage();
+    }
+  }
+
+  if (options.decrypt && options.newKeyFile) usage();
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  if (!existsSync(options.dbPath)) {
+    console.error(`Database not found: ${options.dbPath}`);
+    process.exit(1);
+  }
+
+  if (!options.force && await isPortInUse(getWorkerPort())) {
+    console.error('The worker is running. Stop it before rekeying (or pass --force).');
+    process.exit(1);
+  }
+
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  const keyfile = settings.MOLTBRAIN_ENCRYPTION_KEYFILE;
+  const currentKey = loadEncryptionKey(keyfile);
+  const from = currentKey ? new FieldCipher(currentKey) : null;
+
+  let to: FieldCipher | null = null;
+  const pendingKeyfile = `${keyfile}.new`;
+  if (!options.decrypt) {
+    const key = options.newKeyFile ? FieldCipher.parseKey(readFileSync(options.newKeyFile, 'utf-8')) : FieldCipher.generateKey();
+    to = new FieldCipher(key, {
+      projection: settings.MOLTBRAIN_ENCRYPTION_SEARCH_PROJECTION === 'none' ? 'none' : 'terms'
+    });
+    // Written before the database changes so the new key can never be lost
+    mkdirSync(dirname(keyfile), { recursive: true });
+    writeFileSync(pendingKeyfile, key.toString('hex') + '\n', { mode: 0o600 });
+  }
+
+  const db = new Database(options.dbPath, { create: false, readwrite: true });
+  try {
+    const counts = rekeyDatabase(db, from, to);
+    for (const [table, count] of Object.entries(counts)) {
+      console.log(`  ${table.padEnd(22)} ${count} rows rewritten`);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    console.error('\nNo changes were made.');
+    process.exitCode = 1;
+    return;
+  } finally {
+    db.close();
+  }
+
+  if (!to) {
+    console.log('\nDatabase decrypted. Set MOLTBRAIN_ENCRYPTION_ENABLED to false before restarting the worker.');
+    return;
+  }
+
+  if (process.env[ENCRYPTION_KEY_ENV]) {
+    console.log(`\nDatabase re-encrypted with key ${to.keyId}. Set ${ENCRYPTION_KEY_ENV} to the contents of ${pendingKeyfile}.`);
+    return;
+  }
+
+  const hadKeyfile = existsSync(keyfile);
+  if (hadKeyfile) {
+    renameSync(keyfile, `${keyfile}.old`);
+  }
+  renameSync(pendingKeyfile, keyfile);
+  console.log(`\nDatabase encrypted with key ${to.keyId}, saved to ${keyfile}.`);
+  if (hadKeyfile) {
+    console.log(`The previous key was kept at ${keyfile}.old.`);
+  }
+}
+
+main();
@@ -19,7 +19,7 @@ export interface SettingsDefaults {
   MOLTBRAIN_WORKER_HOST: string;
   MOLTBRAIN_SKIP_TOOLS: string;
   // AI Provider Configuration
-  MOLTBRAIN_PROVIDER: string;  // 'claude' | 'gemini' | 'openrouter'
+  MOLTBRAIN_PROVIDER: string;  // 'claude' | 'gemini' | 'openrouter' | 'openai-compatible'
   MOLTBRAIN_GEMINI_API_KEY: string;
   MOLTBRAIN_GEMINI_MODEL: string;  // 'gemini-2.5-flash-lite' | 'gemini-2.5-flash' | 'gemini-3-flash'
   MOLTBRAIN_GEMINI_RATE_LIMITING_ENABLED: string;  // 'true' | 'false' - enable rate limiting for free tier
@@ -29,12 +29,42 @@ export interface SettingsDefaults {
   MOLTBRAIN_OPENROUTER_APP_NAME: string;
   MOLTBRAIN_OPENROUTER_MAX_CONTEXT_MESSAGES: string;
   MOLTBRAIN_OPENROUTER_MAX_TOKENS: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: string;  // e.g. http://127.0.0.1:11434/v1 (Ollama), http://127.0.0.1:8080/v1 (llama.cpp)
+  MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_API_KEY: string;  // Optional: only for servers started with an API key
+  MOLTBRAIN_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_MAX_TOKENS: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_TIMEOUT_MS: string;
+  // Provider Routing
+  MOLTBRAIN_PROVIDER_CHAIN: string;  // Ordered, comma-separated (e.g. 'openrouter,gemini,claude'); empty = MOLTBRAIN_PROVIDER alone
+  MOLTBRAIN_PROVIDER_BREAKER_THRESHOLD: string;  // Consecutive failures that open a provider's circuit
+  MOLTBRAIN_PROVIDER_BREAKER_COOLDOWN_SECONDS: string;
   // System Configuration
   MOLTBRAIN_DATA_DIR: string;
   MOLTBRAIN_LOG_LEVEL: string;
   MOLTBRAIN_PYTHON_VERSION: string;
+  MOLTBRAIN_VECTOR_BACKEND: string;  // 'chroma' | 'sqlite'
+  // Encryption at Rest
+  MOLTBRAIN_ENCRYPTION_ENABLED: string;  // 'true' | 'false'
+  MOLTBRAIN_ENCRYPTION_KEYFILE: string;  // Ignored when MOLTBRAIN_ENCRYPTION_KEY is set in the environment
+  MOLTBRAIN_ENCRYPTION_SEARCH_PROJECTION: string;  // 'terms' | 'none'
+  // Redaction Configuration
+  MOLTBRAIN_REDACTION_ENABLED: string;  // 'true' | 'false'
+  MOLTBRAIN_REDACTION_DETECTORS: string;  // Comma-separated built-in detector names
+  MOLTBRAIN_REDACTION_RULES: string;  // JSON array of { name, pattern, flags? }
+  // Hybrid Search (reciprocal-rank fusion)
+  MOLTBRAIN_SEARCH_RRF_K: string;
+  MOLTBRAIN_SEARCH_FTS_WEIGHT: string;
+  MOLTBRAIN_SEARCH_VECTOR_WEIGHT: string;
+  // Memory Consolidation
+  MOLTBRAIN_CONSOLIDATION_ENABLED: string;  // 'true' | 'false' - periodic background pass
+  MOLTBRAIN_CONSOLIDATION_INTERVAL_HOURS: string;
+  MOLTBRAIN_CONSOLIDATION_MIN_CLUSTER_SIZE: string;
+  MOLTBRAIN_CONSOLIDATION_SIMILARITY: string;  // 0-1 cosine threshold
   CLAUDE_CODE_PATH: string;
   MOLTBRAIN_MODE: string;
+  MOLTBRAIN_MODE_BINDINGS: string;  // JSON array of { project?, cwd?, mode }
+  MOLTBRAIN_NAMESPACE_SHARING: string;  // JSON array of { project?, channel?, type?, concept?, scope }
   // Token Economics
   MOLTBRAIN_CONTEXT_SHOW_READ_TOKENS: string;
   MOLTBRAIN_CONTEXT_SHOW_WORK_TOKENS: string;
@@ -47,6 +77,15 @@ export interface SettingsDefaults {
   MOLTBRAIN_CONTEXT_FULL_COUNT: string;
   MOLTBRAIN_CONTEXT_FULL_FIELD: string;
   MOLTBRAIN_CONTEXT_SESSION_COUNT: string;
+  MOLTBRAIN_CONTEXT_TOKEN_BUDGET: string;  // 0 = count-based; >0 = pack context up to this many tokens
+  // Prompt-Aware Context (UserPromptSubmit)
+  MOLTBRAIN_PROMPT_CONTEXT_ENABLED: string;  // 'true' | 'false'
+  MOLTBRAIN_PROMPT_CONTEXT_TOP_K: string;
+  MOLTBRAIN_PROMPT_CONTEXT_SESSION_TOKEN_CAP: string;  // Total tokens injected per session
+  // Folder Context Files
+  MOLTBRAIN_FOLDER_CONTEXT_MAX_TOKENS: string;  // Token cap for each folder's generated section
+  MOLTBRAIN_FOLDER_CONTEXT_IGNORE: string;  // Comma-separated folder globs to skip
+  MOLTBRAIN_FOLDER_CONTEXT_OUTPUT: string;  // 'claude-md' | 'context-dir'
   // Feature Toggles
   MOLTBRAIN_CONTEXT_SHOW_LAST_SUMMARY: string;
   MOLTBRAIN_CONTEXT_SHOW_LAST_MESSAGE: string;
@@ -73,12 +112,42 @@ export class SettingsDefaultsManager {
     MOLTBRAIN_OPENROUTER_APP_NAME: 'moltbrain',  // App name for OpenRouter analytics
     MOLTBRAIN_OPENROUTER_MAX_CONTEXT_MESSAGES: '20',  // Max messages in context window
     MOLTBRAIN_OPENROUTER_MAX_TOKENS: '100000',  // Max estimated tokens (~100k safety limit)
+    MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: 'http://127.0.0.1:11434/v1',  // Ollama's default endpoint
+    MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: '',  // Must be set to a model the local server has loaded
+    MOLTBRAIN_OPENAI_COMPATIBLE_API_KEY: '',
+    MOLTBRAIN_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES: '20',
+    MOLTBRAIN_OPENAI_COMPATIBLE_MAX_TOKENS: '32000',  // Local models usually have smaller context windows
+    MOLTBRAIN_OPENAI_COMPATIBLE_TIMEOUT_MS: '300000',  // Per request; local models on CPU can be slow
+    // Provider Routing
+    MOLTBRAIN_PROVIDER_CHAIN: '',
+    MOLTBRAIN_PROVIDER_BREAKER_THRESHOLD: '3',
+    MOLTBRAIN_PROVIDER_BREAKER_COOLDOWN_SECONDS: '60',
     // System Configuration
     MOLTBRAIN_DATA_DIR: join(homedir(), '.moltbrain'),
     MOLTBRAIN_LOG_LEVEL: 'INFO',
     MOLTBRAIN_PYTHON_VERSION: '3.13',
+    MOLTBRAIN_VECTOR_BACKEND: 'chroma',  // 'sqlite' runs in-process without uvx/Python
+    // Encryption at Rest
+    MOLTBRAIN_ENCRYPTION_ENABLED: 'false',
+    MOLTBRAIN_ENCRYPTION_KEYFILE: join(homedir(), '.moltbrain', 'encryption.key'),
+    MOLTBRAIN_ENCRYPTION_SEARCH_PROJECTION: 'terms',  // Index sorted unique terms so keyword search still works
+    // Redaction Configuration
+    MOLTBRAIN_REDACTION_ENABLED: 'true',
+    MOLTBRAIN_REDACTION_DETECTORS: 'private_key,jwt,github,aws,gcp,bearer,env,email,high_entropy',
+    MOLTBRAIN_REDACTION_RULES: '',
+    // Hybrid Search (reciprocal-rank fusion)
+    MOLTBRAIN_SEARCH_RRF_K: '60',  // Higher values flatten the advantage of top-ranked hits
+    MOLTBRAIN_SEARCH_FTS_WEIGHT: '1.0',
+    MOLTBRAIN_SEARCH_VECTOR_WEIGHT: '1.0',
+    // Memory Consolidation
+    MOLTBRAIN_CONSOLIDATION_ENABLED: 'false',  // Off by default - each merge costs one agent call
+    MOLTBRAIN_CONSOLIDATION_INTERVAL_HOURS: '24',
+    MOLTBRAIN_CONSOLIDATION_MIN_CLUSTER_SIZE: '3',
+    MOLTBRAIN_CONSOLIDATION_SIMILARITY: '0.6',
     CLAUDE_CODE_PATH: '', // Empty means auto-detect via 'which claude'
     MOLTBRAIN_MODE: 'code', // Default mode profile
+    MOLTBRAIN_MODE_BINDINGS: '', // Per-project modes; unbound projects use MOLTBRAIN_MODE
+    MOLTBRAIN_NAMESPACE_SHARING: '', // Chat observations stay user-scoped unless a rule shares them
     // Token Economics
     MOLTBRAIN_CONTEXT_SHOW_READ_TOKENS: 'true',
     MOLTBRAIN_CONTEXT_SHOW_WORK_TOKENS: 'true',
@@ -91,6 +160,15 @@ export class SettingsDefaultsManager {
     MOLTBRAIN_CONTEXT_FULL_COUNT: '5',
     MOLTBRAIN_CONTEXT_FULL_FIELD: 'narrative',
     MOLTBRAIN_CONTEXT_SESSION_COUNT: '10',
+    MOLTBRAIN_CONTEXT_TOKEN_BUDGET: '0',  // Count-based by default
+    // Prompt-Aware Context (UserPromptSubmit)
+    MOLTBRAIN_PROMPT_CONTEXT_ENABLED: 'false',
+    MOLTBRAIN_PROMPT_CONTEXT_TOP_K: '5',
+    MOLTBRAIN_PROMPT_CONTEXT_SESSION_TOKEN_CAP: '2000',
+    // Folder Context Files
+    MOLTBRAIN_FOLDER_CONTEXT_MAX_TOKENS: '1000',
+    MOLTBRAIN_FOLDER_CONTEXT_IGNORE: 'node_modules,dist,build,coverage',
+    MOLTBRAIN_FOLDER_CONTEXT_OUTPUT: 'claude-md',  // Write inside each folder's CLAUDE.md
     // Feature Toggles
     MOLTBRAIN_CONTEXT_SHOW_LAST_SUMMARY: 'true',
     MOLTBRAIN_CONTEXT_SHOW_LAST_MESSAGE: 'false',
@@ -17,7 +17,7 @@ let cachedHost: string | null = null;
 
 /**
  * Get the worker port number from settings
- * Uses CLAUDE_RECALL_WORKER_PORT from settings file or default (37777)
+ * Uses MOLTBRAIN_WORKER_PORT from settings file or default (37777)
  * Caches the port value to avoid repeated file reads
  */
 export function getWorkerPort(): number {
@@ -25,15 +25,15 @@ export function getWorkerPort(): number {
     return cachedPort;
   }
 
-  const settingsPath = path.join(SettingsDefaultsManager.get('CLAUDE_RECALL_DATA_DIR'), 'settings.json');
+  const settingsPath = path.join(SettingsDefaultsManager.get('MOLTBRAIN_DATA_DIR'), 'settings.json');
   const settings = SettingsDefaultsManager.loadFromFile(settingsPath);
-  cachedPort = parseInt(settings.CLAUDE_RECALL_WORKER_PORT, 10);
+  cachedPort = parseInt(settings.MOLTBRAIN_WORKER_PORT, 10);
   return cachedPort;
 }
 
 /**
  * Get the worker host address
- * Uses CLAUDE_RECALL_WORKER_HOST from settings file or default (127.0.0.1)
+ * Uses MOLTBRAIN_WORKER_HOST from settings file or default (127.0.0.1)
  * Caches the host value to avoid repeated file reads
  */
 export function getWorkerHost(): string {
@@ -41,9 +41,9 @@ export function getWorkerHost(): string {
     return cachedHost;
   }
 
-  const settingsPath = path.join(SettingsDefaultsManager.get('CLAUDE_RECALL_DATA_DIR'), 'settings.json');
+  const settingsPath = path.join(SettingsDefaultsManager.get('MOLTBRAIN_DATA_DIR'), 'settings.json');
   const settings = SettingsDefaultsManager.loadFromFile(settingsPath);
-  cachedHost = settings.CLAUDE_RECALL_WORKER_HOST;
+  cachedHost = settings.MOLTBRAIN_WORKER_HOST;
   return cachedHost;
 }
 
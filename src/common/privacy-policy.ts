@@ -0,0 +1,252 @@
+/**
+ * Privacy Policies
+ *
+ * Per-path and per-tool rules for what may be recorded as observations,
+ * read from the user-level `<data dir>/policy.json` and the project-level
+ * `.moltbrain/policy.json` (found by walking up from the working directory):
+ *
+ *   {
+ *     "ignoreTools": ["WebFetch"],
+ *     "ignorePaths": ["secrets/**", "*.pem"],
+ *     "maxToolResponseChars": 20000,
+ *     "summariesOnly": false
+ *   }
+ *
+ * Both files apply: lists are combined, the smaller response limit wins and
+ * either file can make a project summaries-only. MOLTBRAIN_SKIP_TOOLS is
+ * folded in as ignoreTools. Every rule remembers the file it came from so
+ * suppressions can be attributed in the viewer.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, sep } from 'path';
+import { SettingsDefaultsManager, type SettingsDefaults } from './SettingsDefaultsManager.js';
+import { DATA_DIR, USER_SETTINGS_PATH } from './paths.js';
+import { logger } from '../utils/logger.js';
+
+export const PROJECT_POLICY_FILE = join('.moltbrain', 'policy.json');
+export const USER_POLICY_PATH = join(DATA_DIR, 'policy.json');
+
+/** Source recorded for tools skipped through settings rather than a policy file */
+export const SKIP_TOOLS_SOURCE = 'MOLTBRAIN_SKIP_TOOLS';
+
+export interface PrivacyPolicyFile {
+  ignoreTools?: string[];
+  ignorePaths?: string[];
+  maxToolResponseChars?: number;
+  summariesOnly?: boolean;
+}
+
+export type PolicyAction = 'ignore_tool' | 'ignore_path' | 'summaries_only' | 'truncate';
+
+interface PolicyRule<T> {
+  value: T;
+  source: string;
+}
+
+export interface PrivacyPolicy {
+  /** Directory project-relative path patterns are matched against */
+  root: string;
+  ignoreTools: PolicyRule<string>[];
+  ignorePaths: Array<PolicyRule<string> & { regex: RegExp }>;
+  maxToolResponseChars: PolicyRule<number> | null;
+  summariesOnly: PolicyRule<true> | null;
+}
+
+/**
+ * Why a tool use was suppressed or altered
+ */
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** The matching rule (tool name, glob, limit) */
+  rule: string;
+  /** Policy file path, or SKIP_TOOLS_SOURCE */
+  source: string;
+  /** What the rule matched (tool name or file path) */
+  target: string;
+}
+
+/**
+ * Convert a glob to a regex: `**` spans directories, `*` and `?` stay within one
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches zero directories
+      if (glob[i + 2] === '/') {
+        pattern += '(?:.*/)?';
+        i += 2;
+      } else {
+        pattern += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Closest directory at or above cwd holding a project policy or a .git
+ * directory; cwd itself when there is neither
+ */
+export function findProjectRoot(cwd: string): string {
+  let dir = cwd;
+  while (true) {
+    if (existsSync(join(dir, PROJECT_POLICY_FILE)) || existsSync(join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return cwd;
+    }
+    dir = parent;
+  }
+}
+
+function readPolicyFile(path: string): PrivacyPolicyFile | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('policy must be a JSON object');
+    }
+    return parsed as PrivacyPolicyFile;
+  } catch (error) {
+    logger.warn('SYSTEM', 'Ignoring invalid privacy policy file', { path }, error as Error);
+    return null;
+  }
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+}
+
+/**
+ * Load the policy that applies to a working directory
+ */
+export function loadPrivacyPolicy(
+  cwd: string,
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH),
+  userPolicyPath: string = USER_POLICY_PATH
+): PrivacyPolicy {
+  const root = findProjectRoot(cwd);
+  const policy: PrivacyPolicy = { root, ignoreTools: [], ignorePaths: [], maxToolResponseChars: null, summariesOnly: null };
+
+  for (const tool of settings.MOLTBRAIN_SKIP_TOOLS.split(',').map(name => name.trim()).filter(Boolean)) {
+    policy.ignoreTools.push({ value: tool, source: SKIP_TOOLS_SOURCE });
+  }
+
+  const projectPolicyPath = join(root, PROJECT_POLICY_FILE);
+  const paths = projectPolicyPath === userPolicyPath ? [userPolicyPath] : [userPolicyPath, projectPolicyPath];
+  for (const source of paths) {
+    const file = readPolicyFile(source);
+    if (!file) continue;
+
+    for (const tool of stringList(file.ignoreTools)) {
+      policy.ignoreTools.push({ value: tool, source });
+    }
+    for (const glob of stringList(file.ignorePaths)) {
+      policy.ignorePaths.push({ value: glob, source, regex: globToRegExp(glob) });
+    }
+    const limit = file.maxToolResponseChars;
+    if (typeof limit === 'number' && limit > 0 && (!policy.maxToolResponseChars || limit < policy.maxToolResponseChars.value)) {
+      policy.maxToolResponseChars = { value: Math.floor(limit), source };
+    }
+    if (file.summariesOnly === true && !policy.summariesOnly) {
+      policy.summariesOnly = { value: true, source };
+    }
+  }
+
+  return policy;
+}
+
+const PATH_KEYS = ['file_path', 'path', 'notebook_path'];
+
+/**
+ * File paths a tool call touches, from its input
+ */
+export function extractToolPaths(toolInput: unknown): string[] {
+  if (!toolInput || typeof toolInput !== 'object') {
+    return [];
+  }
+  const input = toolInput as Record<string, unknown>;
+  const paths = PATH_KEYS.map(key => input[key]).filter((value): value is string => typeof value === 'string' && value !== '');
+  return [...paths, ...stringList(input.paths)];
+}
+
+/**
+ * Whether a path matches a glob: patterns without a slash match the file
+ * name anywhere (like .gitignore), others match the project-relative path
+ */
+function matchesPath(policy: PrivacyPolicy, regex: RegExp, glob: string, filePath: string): boolean {
+  const absolute = isAbsolute(filePath) ? filePath : join(policy.root, filePath);
+  if (!glob.includes('/')) {
+    return regex.test(basename(absolute));
+  }
+  if (isAbsolute(glob)) {
+    return regex.test(absolute.split(sep).join('/'));
+  }
+  const projectRelative = relative(policy.root, absolute).split(sep).join('/');
+  return !projectRelative.startsWith('..') && regex.test(projectRelative.replace(/^\.\//, ''));
+}
+
+/**
+ * First rule that keeps a tool use from becoming an observation, if any
+ */
+export function evaluateToolUse(policy: PrivacyPolicy, toolName: string, toolInput: unknown): PolicyDecision | null {
+  if (policy.summariesOnly) {
+    return { action: 'summaries_only', rule: 'summariesOnly', source: policy.summariesOnly.source, target: toolName };
+  }
+
+  const tool = policy.ignoreTools.find(rule => rule.value === toolName);
+  if (tool) {
+    return { action: 'ignore_tool', rule: tool.value, source: tool.source, target: toolName };
+  }
+
+  for (const filePath of extractToolPaths(toolInput)) {
+    const pathRule = policy.ignorePaths.find(rule => matchesPath(policy, rule.regex, rule.value, filePath));
+    if (pathRule) {
+      return { action: 'ignore_path', rule: pathRule.value, source: pathRule.source, target: filePath };
+    }
+  }
+
+  return null;
+}
+
+const TRUNCATION_MARKER = /\n\[truncated \d+ chars by privacy policy\]$/;
+
+/**
+ * Cut a tool response down to the policy's limit. Structured responses are
+ * serialized first, so a truncated response is always a string. Responses
+ * already truncated (by the hook) are left alone.
+ */
+export function limitToolResponse<T>(
+  policy: PrivacyPolicy,
+  toolName: string,
+  toolResponse: T
+): { response: T | string; decision: PolicyDecision | null } {
+  const limit = policy.maxToolResponseChars;
+  if (!limit || toolResponse === undefined || toolResponse === null) {
+    return { response: toolResponse, decision: null };
+  }
+
+  const text = typeof toolResponse === 'string' ? toolResponse : JSON.stringify(toolResponse);
+  if (text.length <= limit.value || TRUNCATION_MARKER.test(text)) {
+    return { response: toolResponse, decision: null };
+  }
+
+  return {
+    response: `${text.slice(0, limit.value)}\n[truncated ${text.length - limit.value} chars by privacy policy]`,
+    decision: { action: 'truncate', rule: `maxToolResponseChars=${limit.value}`, source: limit.source, target: toolName }
+  };
+}
@@ -38,6 +38,8 @@ export interface ServerOptions {
   getInitializationComplete: () => boolean;
   /** Whether MCP is ready (for health/readiness info) */
   getMcpReady: () => boolean;
+  /** Per-provider routing health (for health info) */
+  getProviderHealth?: () => unknown[];
   /** Shutdown function for admin endpoints */
   onShutdown: () => Promise<void>;
   /** Restart function for admin endpoints */
@@ -154,6 +156,7 @@ export class Server {
         pid: process.pid,
         initialized: this.options.getInitializationComplete(),
         mcpReady: this.options.getMcpReady(),
+        providers: this.options.getProviderHealth?.() ?? [],
       });
     });
 
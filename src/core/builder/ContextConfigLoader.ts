@@ -13,33 +13,36 @@ import type { ContextConfig } from './types.js';
 /**
  * Load all context configuration settings
  * Priority: ~/.claude-recall/settings.json > env var > defaults
+ *
+ * @param modeIds - Modes of the project's sessions (default: MOLTBRAIN_MODE).
+ *   A project that switched modes shows observations of every mode it used.
  */
-export function loadContextConfig(): ContextConfig {
+export function loadContextConfig(modeIds: string[] = []): ContextConfig {
   const settingsPath = path.join(homedir(), '.claude-recall', 'settings.json');
   const settings = SettingsDefaultsManager.loadFromFile(settingsPath);
 
-  // For non-code modes, use all types/concepts from active mode instead of settings
-  const modeId = settings.CLAUDE_RECALL_MODE;
-  const isCodeMode = modeId === 'code' || modeId.startsWith('code--');
+  const observationTypes = new Set<string>();
+  const observationConcepts = new Set<string>();
 
-  let observationTypes: Set<string>;
-  let observationConcepts: Set<string>;
+  for (const modeId of modeIds.length > 0 ? modeIds : [settings.MOLTBRAIN_MODE]) {
+    const isCodeMode = modeId === 'code' || modeId.startsWith('code--');
 
-  if (isCodeMode) {
-    // Code mode: use settings-based filtering
-    observationTypes = new Set(
-      settings.CLAUDE_RECALL_CONTEXT_OBSERVATION_TYPES.split(',').map((t: string) => t.trim()).filter(Boolean)
-    );
-    observationConcepts = new Set(
-      settings.CLAUDE_RECALL_CONTEXT_OBSERVATION_CONCEPTS.split(',').map((c: string) => c.trim()).filter(Boolean)
-    );
-  } else {
-    // Non-code modes: use all types/concepts from active mode
-    const mode = ModeManager.getInstance().getActiveMode();
-    observationTypes = new Set(mode.observation_types.map(t => t.id));
-    observationConcepts = new Set(mode.observation_concepts.map(c => c.id));
+    if (isCodeMode) {
+      // Code mode: use settings-based filtering
+      settings.MOLTBRAIN_CONTEXT_OBSERVATION_TYPES.split(',').map((t: string) => t.trim()).filter(Boolean)
+        .forEach(type => observationTypes.add(type));
+      settings.MOLTBRAIN_CONTEXT_OBSERVATION_CONCEPTS.split(',').map((c: string) => c.trim()).filter(Boolean)
+        .forEach(concept => observationConcepts.add(concept));
+    } else {
+      // Non-code modes: use all of the mode's types/concepts
+      const mode = ModeManager.getInstance().getMode(modeId);
+      mode.observation_types.forEach(t => observationTypes.add(t.id));
+      mode.observation_concepts.forEach(c => observationConcepts.add(c.id));
+    }
   }
 
+  const tokenBudget = parseInt(settings.MOLTBRAIN_CONTEXT_TOKEN_BUDGET, 10);
+
   return {
     totalObservationCount: parseInt(settings.CLAUDE_RECALL_CONTEXT_OBSERVATIONS, 10),
     fullObservationCount: parseInt(settings.CLAUDE_RECALL_CONTEXT_FULL_COUNT, 10),
@@ -50,8 +53,10 @@ export function loadContextConfig(): ContextConfig {
     showSavingsPercent: settings.CLAUDE_RECALL_CONTEXT_SHOW_SAVINGS_PERCENT === 'true',
     observationTypes,
     observationConcepts,
+    modeIds,
     fullObservationField: settings.CLAUDE_RECALL_CONTEXT_FULL_FIELD as 'narrative' | 'facts',
     showLastSummary: settings.CLAUDE_RECALL_CONTEXT_SHOW_LAST_SUMMARY === 'true',
     showLastMessage: settings.CLAUDE_RECALL_CONTEXT_SHOW_LAST_MESSAGE === 'true',
+    tokenBudget: Number.isFinite(tokenBudget) && tokenBudget > 0 ? tokenBudget : 0,
   };
 }
@@ -11,6 +11,7 @@ import { unlinkSync } from 'fs';
 import { SessionStore } from '../storage/DataStore.js';
 import { logger } from '../../utils/logger.js';
 import { getProjectName } from '../../utils/project-name.js';
+import { resolveModeBinding } from '../domain/ModeBindings.js';
 
 import type { ContextInput, ContextConfig, Observation, SessionSummary } from './types.js';
 import { loadContextConfig } from './ContextConfigLoader.js';
@@ -18,17 +19,22 @@ import { calculateTokenEconomics } from './TokenCalculator.js';
 import {
   queryObservations,
   queryObservationsMulti,
+  queryPinnedObservations,
+  includePinnedObservations,
   querySummaries,
   querySummariesMulti,
   getPriorSessionMessages,
   prepareSummariesForTimeline,
   buildTimeline,
   getFullObservationIds,
+  applyStaleness,
+  packContextByTokenBudget,
+  queryProjectModeIds,
 } from './ObservationCompiler.js';
 import { renderHeader } from './sections/HeaderRenderer.js';
 import { renderTimeline } from './sections/TimelineRenderer.js';
 import { shouldShowSummary, renderSummaryFields } from './sections/SummaryRenderer.js';
-import { renderPreviouslySection, renderFooter } from './sections/FooterRenderer.js';
+import { renderPreviouslySection, renderBudgetReport, renderFooter } from './sections/FooterRenderer.js';
 import { renderMarkdownEmptyState } from './formatters/MarkdownFormatter.js';
 import { renderColorEmptyState } from './formatters/ColorFormatter.js';
 
@@ -71,7 +77,7 @@ function renderEmptyState(project: string, useColors: boolean): string {
 }
 
 /**
- * Build context output from loaded data
+ * Build context output from loaded data, with the IDs of the observations it shows
  */
 function buildContextOutput(
   project: string,
@@ -81,20 +87,28 @@ function buildContextOutput(
   cwd: string,
   sessionId: string | undefined,
   useColors: boolean
-): string {
+): { text: string; observationIds: number[] } {
   const output: string[] = [];
 
+  // Select what to show: greedy token-budget packing, or the configured counts
+  const packed = config.tokenBudget > 0
+    ? packContextByTokenBudget(observations, summaries, config)
+    : null;
+  const shownObservations = packed ? packed.observations : observations;
+  const displaySummaries = packed ? packed.summaries : summaries.slice(0, config.sessionCount);
+  const fullObservationIds = packed
+    ? packed.fullObservationIds
+    : getFullObservationIds(observations, config.fullObservationCount);
+
   // Calculate token economics
-  const economics = calculateTokenEconomics(observations);
+  const economics = calculateTokenEconomics(shownObservations);
 
   // Render header section
   output.push(...renderHeader(project, economics, config, useColors));
 
   // Prepare timeline data
-  const displaySummaries = summaries.slice(0, config.sessionCount);
   const summariesForTimeline = prepareSummariesForTimeline(displaySummaries, summaries);
-  const timeline = buildTimeline(observations, summariesForTimeline);
-  const fullObservationIds = getFullObservationIds(observations, config.fullObservationCount);
+  const timeline = buildTimeline(shownObservations, summariesForTimeline);
 
   // Render timeline
   output.push(...renderTimeline(timeline, fullObservationIds, config, cwd, useColors));
@@ -112,22 +126,23 @@ function buildContextOutput(
   output.push(...renderPreviouslySection(priorMessages, useColors));
 
   // Render footer
+  output.push(...renderBudgetReport(packed?.report ?? null, useColors));
   output.push(...renderFooter(economics, config, useColors));
 
-  return output.join('\n').trimEnd();
+  return { text: output.join('\n').trimEnd(), observationIds: shownObservations.map(obs => obs.id) };
 }
 
 /**
  * Generate context for a project
  *
  * Main entry point for context generation. Orchestrates loading config,
- * querying data, and rendering the final context string.
+ * querying data, and rendering the final context string. With a session_id
+ * (SessionStart), the observations shown are recorded for that session.
  */
 export async function generateContext(
   input?: ContextInput,
   useColors: boolean = false
 ): Promise<string> {
-  const config = loadContextConfig();
   const cwd = input?.cwd ?? process.cwd();
   const project = getProjectName(cwd);
 
@@ -141,10 +156,25 @@ export async function generateContext(
   }
 
   try {
+    // Show the types of the mode new sessions get and of every mode the project used before
+    const modeIds = [...new Set([
+      resolveModeBinding({ project, cwd }).modeId,
+      ...queryProjectModeIds(db, projects),
+    ])];
+    const config = loadContextConfig(modeIds);
+
     // Query data for all projects (supports worktree: parent + worktree combined)
-    const observations = projects.length > 1
-      ? queryObservationsMulti(db, projects, config)
-      : queryObservations(db, project, config);
+    const observations = applyStaleness(
+      db,
+      includePinnedObservations(
+        projects.length > 1
+          ? queryObservationsMulti(db, projects, config)
+          : queryObservations(db, project, config),
+        queryPinnedObservations(db, projects),
+        config
+      ),
+      cwd
+    );
     const summaries = projects.length > 1
       ? querySummariesMulti(db, projects, config)
       : querySummaries(db, project, config);
@@ -155,7 +185,7 @@ export async function generateContext(
     }
 
     // Build and return context
-    return buildContextOutput(
+    const { text, observationIds } = buildContextOutput(
       project,
       observations,
       summaries,
@@ -164,6 +194,12 @@ export async function generateContext(
       input?.session_id,
       useColors
     );
+
+    // Prompt context leaves out what the session was already shown
+    if (input?.session_id) {
+      db.recordContextInjections(input.session_id, observationIds);
+    }
+    return text;
   } finally {
     db.close();
   }
@@ -8,6 +8,7 @@ import path from 'path';
 import { homedir } from 'os';
 import { existsSync, readFileSync } from 'fs';
 import { SessionStore } from '../storage/DataStore.js';
+import { decryptRows } from '../storage/FieldEncryption.js';
 import { logger } from '../../utils/logger.js';
 import type {
   ContextConfig,
@@ -16,8 +17,45 @@ import type {
   SummaryTimelineItem,
   TimelineItem,
   PriorMessages,
+  PackedContext,
 } from './types.js';
 import { SUMMARY_LOOKAHEAD } from './types.js';
+import {
+  calculateIndexLineTokens,
+  calculateFullObservationTokens,
+  calculateSummaryTokens,
+} from './TokenCalculator.js';
+import type { ObservationStaleness } from '../../types/database.js';
+import { checkStaleness } from './StalenessChecker.js';
+
+// Token-budget mode considers a wider pool than the count limits; the budget decides what fits
+const BUDGET_CANDIDATE_OBSERVATIONS = 200;
+const BUDGET_CANDIDATE_SUMMARIES = 50;
+
+// Budget scoring: a memory loses half its recency score every week
+const RECENCY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+// Full details compete with index rows at a discount so breadth comes before depth
+const FULL_DETAIL_WEIGHT = 0.5;
+// Session summaries anchor the timeline, so they outrank an observation of the same age
+const SUMMARY_WEIGHT = 1.5;
+
+/**
+ * Max observations to query (count limit, or the wider budget candidate pool)
+ */
+function getObservationLimit(config: ContextConfig): number {
+  return config.tokenBudget > 0
+    ? Math.max(config.totalObservationCount, BUDGET_CANDIDATE_OBSERVATIONS)
+    : config.totalObservationCount;
+}
+
+/**
+ * Max summaries to display (count limit, or the wider budget candidate pool)
+ */
+function getSummaryLimit(config: ContextConfig): number {
+  return config.tokenBudget > 0
+    ? Math.max(config.sessionCount, BUDGET_CANDIDATE_SUMMARIES)
+    : config.sessionCount;
+}
 
 /**
  * Query observations from database with type and concept filtering
@@ -32,13 +70,15 @@ export function queryObservations(
   const conceptArray = Array.from(config.observationConcepts);
   const conceptPlaceholders = conceptArray.map(() => '?').join(',');
 
-  return db.db.prepare(`
+  return decryptRows(db.db.prepare(`
     SELECT
       id, memory_session_id, type, title, subtitle, narrative,
       facts, concepts, files_read, files_modified, discovery_tokens,
-      created_at, created_at_epoch
+      file_hashes, staleness, created_at, created_at_epoch,
+      (SELECT s.mode_id FROM sdk_sessions s WHERE s.memory_session_id = observations.memory_session_id) AS mode_id
     FROM observations
     WHERE project = ?
+      AND superseded_by IS NULL
       AND type IN (${typePlaceholders})
       AND EXISTS (
         SELECT 1 FROM json_each(concepts)
@@ -46,7 +86,20 @@ export function queryObservations(
       )
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(project, ...typeArray, ...conceptArray, config.totalObservationCount) as Observation[];
+  `).all(project, ...typeArray, ...conceptArray, getObservationLimit(config)) as Observation[]);
+}
+
+/**
+ * Modes the projects' sessions were recorded in (sessions from before modes
+ * were bound to sessions have none)
+ */
+export function queryProjectModeIds(db: SessionStore, projects: string[]): string[] {
+  const projectPlaceholders = projects.map(() => '?').join(',');
+  const rows = db.db.prepare(`
+    SELECT DISTINCT mode_id FROM sdk_sessions
+    WHERE project IN (${projectPlaceholders}) AND mode_id IS NOT NULL
+  `).all(...projects) as { mode_id: string }[];
+  return rows.map(row => row.mode_id);
 }
 
 /**
@@ -57,13 +110,13 @@ export function querySummaries(
   project: string,
   config: ContextConfig
 ): SessionSummary[] {
-  return db.db.prepare(`
+  return decryptRows(db.db.prepare(`
     SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch
     FROM session_summaries
     WHERE project = ?
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(project, config.sessionCount + SUMMARY_LOOKAHEAD) as SessionSummary[];
+  `).all(project, getSummaryLimit(config) + SUMMARY_LOOKAHEAD) as SessionSummary[]);
 }
 
 /**
@@ -85,13 +138,15 @@ export function queryObservationsMulti(
   // Build IN clause for projects
   const projectPlaceholders = projects.map(() => '?').join(',');
 
-  return db.db.prepare(`
+  return decryptRows(db.db.prepare(`
     SELECT
       id, memory_session_id, type, title, subtitle, narrative,
       facts, concepts, files_read, files_modified, discovery_tokens,
-      created_at, created_at_epoch, project
+      file_hashes, staleness, created_at, created_at_epoch, project,
+      (SELECT s.mode_id FROM sdk_sessions s WHERE s.memory_session_id = observations.memory_session_id) AS mode_id
     FROM observations
     WHERE project IN (${projectPlaceholders})
+      AND superseded_by IS NULL
       AND type IN (${typePlaceholders})
       AND EXISTS (
         SELECT 1 FROM json_each(concepts)
@@ -99,7 +154,67 @@ export function queryObservationsMulti(
       )
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(...projects, ...typeArray, ...conceptArray, config.totalObservationCount) as Observation[];
+  `).all(...projects, ...typeArray, ...conceptArray, getObservationLimit(config)) as Observation[]);
+}
+
+/**
+ * Query pinned favorites for the given projects
+ *
+ * Type and concept filters are not applied: pinning is an explicit request
+ * to keep an observation in context.
+ */
+export function queryPinnedObservations(
+  db: SessionStore,
+  projects: string[]
+): Observation[] {
+  const projectPlaceholders = projects.map(() => '?').join(',');
+
+  const rows = decryptRows(db.db.prepare(`
+    SELECT
+      o.id, o.memory_session_id, o.type, o.title, o.subtitle, o.narrative,
+      o.facts, o.concepts, o.files_read, o.files_modified, o.discovery_tokens,
+      o.file_hashes, o.staleness, o.created_at, o.created_at_epoch, o.project, s.mode_id
+    FROM favorites f
+    JOIN observations o ON o.id = f.observation_id
+    LEFT JOIN sdk_sessions s ON s.memory_session_id = o.memory_session_id
+    WHERE f.pinned = 1
+      AND o.project IN (${projectPlaceholders})
+      AND o.superseded_by IS NULL
+    ORDER BY o.created_at_epoch DESC
+  `).all(...projects) as Observation[]);
+
+  return rows.map(obs => ({ ...obs, pinned: true }));
+}
+
+/**
+ * Merge pinned favorites into the queried observations
+ *
+ * Pinned observations are flagged (or added if the query missed them); when
+ * that pushes the list over the observation limit, the oldest unpinned
+ * observations give up their slots. Result stays most-recent-first.
+ */
+export function includePinnedObservations(
+  observations: Observation[],
+  pinned: Observation[],
+  config: ContextConfig
+): Observation[] {
+  if (pinned.length === 0) return observations;
+
+  const pinnedIds = new Set(pinned.map(obs => obs.id));
+  const queriedIds = new Set(observations.map(obs => obs.id));
+  const merged = [
+    ...observations.map(obs => (pinnedIds.has(obs.id) ? { ...obs, pinned: true } : obs)),
+    ...pinned.filter(obs => !queriedIds.has(obs.id))
+  ].sort((a, b) => b.created_at_epoch - a.created_at_epoch);
+
+  let excess = merged.length - Math.max(getObservationLimit(config), pinned.length);
+  for (let i = merged.length - 1; i >= 0 && excess > 0; i--) {
+    if (!merged[i].pinned) {
+      merged.splice(i, 1);
+      excess--;
+    }
+  }
+  return merged;
 }
 
 /**
@@ -116,13 +231,13 @@ export function querySummariesMulti(
   // Build IN clause for projects
   const projectPlaceholders = projects.map(() => '?').join(',');
 
-  return db.db.prepare(`
+  return decryptRows(db.db.prepare(`
     SELECT id, memory_session_id, request, investigated, learned, completed, next_steps, created_at, created_at_epoch, project
     FROM session_summaries
     WHERE project IN (${projectPlaceholders})
     ORDER BY created_at_epoch DESC
     LIMIT ?
-  `).all(...projects, config.sessionCount + SUMMARY_LOOKAHEAD) as SessionSummary[];
+  `).all(...projects, getSummaryLimit(config) + SUMMARY_LOOKAHEAD) as SessionSummary[]);
 }
 
 /**
@@ -249,13 +364,178 @@ export function buildTimeline(
   return timeline;
 }
 
+/**
+ * Re-check staleness of observations against the working tree
+ *
+ * Updates each observation's staleness in place and persists changes so the
+ * viewer shows the same badge. Observations without recorded hashes are left alone.
+ */
+export function applyStaleness(
+  db: SessionStore,
+  observations: Observation[],
+  cwd: string
+): Observation[] {
+  const updates: Array<{ id: number; staleness: ObservationStaleness }> = [];
+
+  for (const obs of observations) {
+    const staleness = checkStaleness(obs.file_hashes, cwd);
+    if (staleness === null) continue;
+    if (staleness !== obs.staleness) {
+      updates.push({ id: obs.id, staleness });
+    }
+    obs.staleness = staleness;
+  }
+
+  try {
+    db.updateObservationStaleness(updates);
+  } catch (error) {
+    logger.debug('DB', 'Failed to persist observation staleness', { count: updates.length }, error as Error);
+  }
+
+  return observations;
+}
+
+/**
+ * Order observations with stale and orphaned ones after fresh ones,
+ * preserving recency order within each group
+ */
+export function demoteStaleObservations(observations: Observation[]): Observation[] {
+  const rank = (obs: Observation): number =>
+    obs.staleness === 'orphaned' ? 2 : obs.staleness === 'stale' ? 1 : 0;
+
+  return observations
+    .map((obs, index) => ({ obs, index }))
+    .sort((a, b) => rank(a.obs) - rank(b.obs) || a.index - b.index)
+    .map(({ obs }) => obs);
+}
+
 /**
  * Get set of observation IDs that should show full details
+ * Stale observations are demoted so full details go to current memories first.
  */
 export function getFullObservationIds(observations: Observation[], count: number): Set<number> {
   return new Set(
-    observations
+    demoteStaleObservations(observations)
       .slice(0, count)
       .map(obs => obs.id)
   );
 }
+
+/**
+ * Recency score in (0, 1]: halves every RECENCY_HALF_LIFE_MS
+ */
+function recencyScore(createdAtEpoch: number, now: number): number {
+  const age = Math.max(0, now - createdAtEpoch);
+  return Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+}
+
+/**
+ * Relevance score for an observation: more work invested raises it,
+ * stale or orphaned referenced files lower it
+ */
+function relevanceScore(obs: Observation): number {
+  const work = 1 + Math.log10(1 + (obs.discovery_tokens || 0)) / 4;
+  const freshness = obs.staleness === 'orphaned' ? 0.25 : obs.staleness === 'stale' ? 0.5 : 1;
+  return work * freshness;
+}
+
+/**
+ * Relevance x recency score used to rank observations for budget packing
+ */
+export function scoreObservation(obs: Observation, now: number = Date.now()): number {
+  return relevanceScore(obs) * recencyScore(obs.created_at_epoch, now);
+}
+
+/**
+ * Greedily pack summaries, observation index rows and full details into a token budget
+ *
+ * Pinned favorites are packed first. Every other candidate is ranked by
+ * relevance x recency; the highest-scoring candidates are added while they fit. Full details are an upgrade of an
+ * already-included index row. Summaries stay a most-recent-first prefix so
+ * the timeline keeps its display anchors.
+ */
+export function packContextByTokenBudget(
+  observations: Observation[],
+  summaries: SessionSummary[],
+  config: ContextConfig,
+  now: number = Date.now()
+): PackedContext {
+  type Candidate =
+    | { kind: 'index' | 'full'; obs: Observation; score: number; cost: number }
+    | { kind: 'summary'; summary: SessionSummary; score: number; cost: number };
+
+  const candidates: Candidate[] = [];
+  for (const obs of observations) {
+    const score = scoreObservation(obs, now);
+    const indexCost = calculateIndexLineTokens(obs);
+    candidates.push({ kind: 'index', obs, score, cost: indexCost });
+    candidates.push({
+      kind: 'full',
+      obs,
+      score: score * FULL_DETAIL_WEIGHT,
+      cost: Math.max(0, calculateFullObservationTokens(obs, config) - indexCost)
+    });
+  }
+
+  const summaryCandidates = summaries.slice(0, getSummaryLimit(config));
+  for (const summary of summaryCandidates) {
+    candidates.push({
+      kind: 'summary',
+      summary,
+      score: SUMMARY_WEIGHT * recencyScore(summary.created_at_epoch, now),
+      cost: calculateSummaryTokens(summary)
+    });
+  }
+
+  // Pinned index rows are packed first; stable order for ties: index rows before their full details
+  const isPinnedRow = (c: Candidate): number => (c.kind === 'index' && c.obs.pinned ? 1 : 0);
+  candidates.sort((a, b) =>
+    isPinnedRow(b) - isPinnedRow(a) ||
+    b.score - a.score ||
+    (a.kind === 'full' ? 1 : 0) - (b.kind === 'full' ? 1 : 0)
+  );
+
+  const includedIds = new Set<number>();
+  const fullObservationIds = new Set<number>();
+  const includedSummaryIds = new Set<number>();
+  let summariesBlocked = false;
+  let usedTokens = 0;
+
+  for (const candidate of candidates) {
+    if (candidate.kind === 'summary' && summariesBlocked) continue;
+    if (candidate.kind === 'full' && !includedIds.has(candidate.obs.id)) continue;
+
+    if (usedTokens + candidate.cost > config.tokenBudget) {
+      if (candidate.kind === 'summary') summariesBlocked = true;
+      continue;
+    }
+
+    usedTokens += candidate.cost;
+    if (candidate.kind === 'summary') {
+      includedSummaryIds.add(candidate.summary.id);
+    } else if (candidate.kind === 'index') {
+      includedIds.add(candidate.obs.id);
+    } else {
+      fullObservationIds.add(candidate.obs.id);
+    }
+  }
+
+  const droppedObservations = observations.filter(obs => !includedIds.has(obs.id));
+  const droppedSummaries = summaryCandidates.filter(summary => !includedSummaryIds.has(summary.id));
+
+  return {
+    observations: observations.filter(obs => includedIds.has(obs.id)),
+    summaries: summaryCandidates.filter(summary => includedSummaryIds.has(summary.id)),
+    fullObservationIds,
+    report: {
+      budget: config.tokenBudget,
+      usedTokens,
+      fullObservations: fullObservationIds.size,
+      droppedObservations: droppedObservations.length,
+      droppedSummaries: droppedSummaries.length,
+      droppedTokens:
+        droppedObservations.reduce((sum, obs) => sum + calculateIndexLineTokens(obs), 0) +
+        droppedSummaries.reduce((sum, summary) => sum + calculateSummaryTokens(summary), 0)
+    }
+  };
+}
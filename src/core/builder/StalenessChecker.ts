@@ -0,0 +1,58 @@
+/**
+ * StalenessChecker - Detects observations whose referenced files changed
+ *
+ * Compares the file content hashes recorded when an observation was stored
+ * against the working tree at context-injection time:
+ * - fresh:    every recorded file still has the same content
+ * - stale:    at least one recorded file was rewritten or removed
+ * - orphaned: every recorded file has been removed
+ */
+
+import type { ObservationStaleness } from '../../types/database.js';
+import { hashFile, fileExists, resolveReferencedPath } from '../../utils/file-hashes.js';
+import type { FileHashes } from '../../utils/file-hashes.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Parse the file_hashes column, tolerating null and malformed values
+ */
+function parseFileHashes(json: string | null | undefined): FileHashes {
+  if (!json) return {};
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch (error) {
+    logger.debug('PARSER', 'Failed to parse file hashes', { preview: json.substring(0, 50) }, error as Error);
+    return {};
+  }
+}
+
+/**
+ * Determine staleness for one observation
+ *
+ * @returns Staleness, or null if no file hashes were recorded (nothing to compare)
+ */
+export function checkStaleness(fileHashesJson: string | null | undefined, cwd: string): ObservationStaleness | null {
+  const recorded = Object.entries(parseFileHashes(fileHashesJson))
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+
+  if (recorded.length === 0) {
+    return null;
+  }
+
+  let missing = 0;
+  let changed = 0;
+
+  for (const [file, hash] of recorded) {
+    const resolved = resolveReferencedPath(file, cwd);
+    if (!fileExists(resolved)) {
+      missing++;
+    } else if (hashFile(resolved) !== hash) {
+      changed++;
+    }
+  }
+
+  if (missing === recorded.length) return 'orphaned';
+  if (missing > 0 || changed > 0) return 'stale';
+  return 'fresh';
+}
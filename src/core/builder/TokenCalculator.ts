@@ -4,7 +4,7 @@
  * Handles estimation of token counts for observations and context economics.
  */
 
-import type { Observation, TokenEconomics, ContextConfig } from './types.js';
+import type { Observation, SessionSummary, TokenEconomics, ContextConfig } from './types.js';
 import { CHARS_PER_TOKEN_ESTIMATE } from './types.js';
 import { ModeManager } from '../domain/ModeManager.js';
 
@@ -19,6 +19,35 @@ export function calculateObservationTokens(obs: Observation): number {
   return Math.ceil(obsSize / CHARS_PER_TOKEN_ESTIMATE);
 }
 
+// Characters a rendered row adds around its text (id, time, icon, token columns)
+const RENDERED_ROW_OVERHEAD_CHARS = 40;
+
+/**
+ * Estimate tokens for an observation's compact index row
+ */
+export function calculateIndexLineTokens(obs: Observation): number {
+  const size = (obs.title?.length || 'Untitled'.length) + RENDERED_ROW_OVERHEAD_CHARS;
+  return Math.ceil(size / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Estimate tokens for an observation rendered with full details
+ */
+export function calculateFullObservationTokens(obs: Observation, config: ContextConfig): number {
+  const detail = config.fullObservationField === 'narrative'
+    ? (obs.narrative?.length || 0)
+    : (obs.facts?.length || 0);
+  return calculateIndexLineTokens(obs) + Math.ceil(detail / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Estimate tokens for a session summary timeline entry
+ */
+export function calculateSummaryTokens(summary: SessionSummary): number {
+  const size = (summary.request?.length || 'Session started'.length) + RENDERED_ROW_OVERHEAD_CHARS;
+  return Math.ceil(size / CHARS_PER_TOKEN_ESTIMATE);
+}
+
 /**
  * Calculate context economics for a set of observations
  */
@@ -50,8 +79,8 @@ export function calculateTokenEconomics(observations: Observation[]): TokenEcono
 /**
  * Get work emoji for an observation type
  */
-export function getWorkEmoji(obsType: string): string {
-  return ModeManager.getInstance().getWorkEmoji(obsType);
+export function getWorkEmoji(obsType: string, modeId?: string | null): string {
+  return ModeManager.getInstance().getWorkEmoji(obsType, modeId);
 }
 
 /**
@@ -63,7 +92,7 @@ export function formatObservationTokenDisplay(
 ): { readTokens: number; discoveryTokens: number; discoveryDisplay: string; workEmoji: string } {
   const readTokens = calculateObservationTokens(obs);
   const discoveryTokens = obs.discovery_tokens || 0;
-  const workEmoji = getWorkEmoji(obs.type);
+  const workEmoji = getWorkEmoji(obs.type, obs.mode_id);
   const discoveryDisplay = discoveryTokens > 0 ? `${workEmoji} ${discoveryTokens.toLocaleString()}` : '-';
 
   return { readTokens, discoveryTokens, discoveryDisplay, workEmoji };
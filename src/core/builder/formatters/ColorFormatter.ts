@@ -9,6 +9,7 @@ import type {
   Observation,
   TokenEconomics,
   PriorMessages,
+  ContextBudgetReport,
 } from '../types.js';
 import { colors } from '../types.js';
 import { ModeManager } from '../../domain/ModeManager.js';
@@ -44,9 +45,11 @@ export function renderColorHeader(project: string): string[] {
 /**
  * Render colored legend
  */
-export function renderColorLegend(): string[] {
-  const mode = ModeManager.getInstance().getActiveMode();
-  const typeLegendItems = mode.observation_types.map(t => `${t.emoji} ${t.id}`).join(' | ');
+export function renderColorLegend(modeIds: string[] = []): string[] {
+  const modeManager = ModeManager.getInstance();
+  const modes = modeIds.length > 0 ? modeIds.map(modeId => modeManager.getMode(modeId)) : [modeManager.getActiveMode()];
+  const types = modes.flatMap(mode => mode.observation_types).filter((t, i, all) => all.findIndex(other => other.id === t.id) === i);
+  const typeLegendItems = types.map(t => `${t.emoji} ${t.id}`).join(' | ');
 
   return [
     `${colors.dim}Legend: session-request | ${typeLegendItems}${colors.reset}`,
@@ -62,6 +65,7 @@ export function renderColorColumnKey(): string[] {
     `${colors.bright}Column Key${colors.reset}`,
     `${colors.dim}  Read: Tokens to read this observation (cost to learn it now)${colors.reset}`,
     `${colors.dim}  Work: Tokens spent on work that produced this record ( research, building, deciding)${colors.reset}`,
+    `${colors.dim}  [stale]/[orphaned]: Referenced files changed or were deleted since this was recorded${colors.reset}`,
     ''
   ];
 }
@@ -129,6 +133,15 @@ export function renderColorFileHeader(file: string): string[] {
   ];
 }
 
+/**
+ * Staleness badge appended to observation titles
+ */
+function renderColorStalenessBadge(obs: Observation): string {
+  if (obs.staleness === 'stale') return ` ${colors.yellow}[stale]${colors.reset}`;
+  if (obs.staleness === 'orphaned') return ` ${colors.red}[orphaned]${colors.reset}`;
+  return '';
+}
+
 /**
  * Render colored table row for observation
  */
@@ -139,14 +152,14 @@ export function renderColorTableRow(
   config: ContextConfig
 ): string {
   const title = obs.title || 'Untitled';
-  const icon = ModeManager.getInstance().getTypeIcon(obs.type);
+  const icon = ModeManager.getInstance().getTypeIcon(obs.type, obs.mode_id);
   const { readTokens, discoveryTokens, workEmoji } = formatObservationTokenDisplay(obs, config);
 
   const timePart = showTime ? `${colors.dim}${time}${colors.reset}` : ' '.repeat(time.length);
   const readPart = (config.showReadTokens && readTokens > 0) ? `${colors.dim}(~${readTokens}t)${colors.reset}` : '';
   const discoveryPart = (config.showWorkTokens && discoveryTokens > 0) ? `${colors.dim}(${workEmoji} ${discoveryTokens.toLocaleString()}t)${colors.reset}` : '';
 
-  return `  ${colors.dim}#${obs.id}${colors.reset}  ${timePart}  ${icon}  ${title} ${readPart} ${discoveryPart}`;
+  return `  ${colors.dim}#${obs.id}${colors.reset}  ${timePart}  ${icon}  ${title}${renderColorStalenessBadge(obs)} ${readPart} ${discoveryPart}`;
 }
 
 /**
@@ -161,14 +174,14 @@ export function renderColorFullObservation(
 ): string[] {
   const output: string[] = [];
   const title = obs.title || 'Untitled';
-  const icon = ModeManager.getInstance().getTypeIcon(obs.type);
+  const icon = ModeManager.getInstance().getTypeIcon(obs.type, obs.mode_id);
   const { readTokens, discoveryTokens, workEmoji } = formatObservationTokenDisplay(obs, config);
 
   const timePart = showTime ? `${colors.dim}${time}${colors.reset}` : ' '.repeat(time.length);
   const readPart = (config.showReadTokens && readTokens > 0) ? `${colors.dim}(~${readTokens}t)${colors.reset}` : '';
   const discoveryPart = (config.showWorkTokens && discoveryTokens > 0) ? `${colors.dim}(${workEmoji} ${discoveryTokens.toLocaleString()}t)${colors.reset}` : '';
 
-  output.push(`  ${colors.dim}#${obs.id}${colors.reset}  ${timePart}  ${icon}  ${colors.bright}${title}${colors.reset}`);
+  output.push(`  ${colors.dim}#${obs.id}${colors.reset}  ${timePart}  ${icon}  ${colors.bright}${title}${colors.reset}${renderColorStalenessBadge(obs)}`);
   if (detailField) {
     output.push(`    ${colors.dim}${detailField}${colors.reset}`);
   }
@@ -230,6 +243,20 @@ export function renderColorFooter(totalDiscoveryTokens: number, totalReadTokens:
   ];
 }
 
+/**
+ * Render colored token budget report
+ */
+export function renderColorBudgetReport(report: ContextBudgetReport): string[] {
+  const usage = `~${report.usedTokens.toLocaleString()}/${report.budget.toLocaleString()} tokens`;
+  if (report.droppedObservations === 0 && report.droppedSummaries === 0) {
+    return ['', `${colors.dim}Token budget: ${usage}, nothing dropped.${colors.reset}`];
+  }
+  return [
+    '',
+    `${colors.dim}Token budget: ${usage}. Dropped ${report.droppedObservations} observations and ${report.droppedSummaries} sessions (~${report.droppedTokens.toLocaleString()} tokens); use MCP search tools to reach them.${colors.reset}`
+  ];
+}
+
 /**
  * Render colored empty state
  */
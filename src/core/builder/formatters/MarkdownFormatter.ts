@@ -10,6 +10,7 @@ import type {
   SessionSummary,
   TokenEconomics,
   PriorMessages,
+  ContextBudgetReport,
 } from '../types.js';
 import { ModeManager } from '../../domain/ModeManager.js';
 import { formatObservationTokenDisplay } from '../TokenCalculator.js';
@@ -42,9 +43,11 @@ export function renderMarkdownHeader(project: string): string[] {
 /**
  * Render markdown legend
  */
-export function renderMarkdownLegend(): string[] {
-  const mode = ModeManager.getInstance().getActiveMode();
-  const typeLegendItems = mode.observation_types.map(t => `${t.emoji} ${t.id}`).join(' | ');
+export function renderMarkdownLegend(modeIds: string[] = []): string[] {
+  const modeManager = ModeManager.getInstance();
+  const modes = modeIds.length > 0 ? modeIds.map(modeId => modeManager.getMode(modeId)) : [modeManager.getActiveMode()];
+  const types = modes.flatMap(mode => mode.observation_types).filter((t, i, all) => all.findIndex(other => other.id === t.id) === i);
+  const typeLegendItems = types.map(t => `${t.emoji} ${t.id}`).join(' | ');
 
   return [
     `**Legend:** session-request | ${typeLegendItems}`,
@@ -60,6 +63,7 @@ export function renderMarkdownColumnKey(): string[] {
     `**Column Key**:`,
     `- **Read**: Tokens to read this observation (cost to learn it now)`,
     `- **Work**: Tokens spent on work that produced this record ( research, building, deciding)`,
+    `- **stale** / **orphaned**: Referenced files changed or were deleted since this was recorded; verify before relying on it`,
     ''
   ];
 }
@@ -129,6 +133,15 @@ export function renderMarkdownFileHeader(file: string): string[] {
   ];
 }
 
+/**
+ * Staleness badge appended to observation titles
+ */
+function renderMarkdownStalenessBadge(obs: Observation): string {
+  if (obs.staleness === 'stale') return ' ⚠️ *stale*';
+  if (obs.staleness === 'orphaned') return ' ⚠️ *orphaned*';
+  return '';
+}
+
 /**
  * Render markdown table row for observation
  */
@@ -138,13 +151,13 @@ export function renderMarkdownTableRow(
   config: ContextConfig
 ): string {
   const title = obs.title || 'Untitled';
-  const icon = ModeManager.getInstance().getTypeIcon(obs.type);
+  const icon = ModeManager.getInstance().getTypeIcon(obs.type, obs.mode_id);
   const { readTokens, discoveryDisplay } = formatObservationTokenDisplay(obs, config);
 
   const readCol = config.showReadTokens ? `~${readTokens}` : '';
   const workCol = config.showWorkTokens ? discoveryDisplay : '';
 
-  return `| #${obs.id} | ${timeDisplay || '"'} | ${icon} | ${title} | ${readCol} | ${workCol} |`;
+  return `| #${obs.id} | ${timeDisplay || '"'} | ${icon} | ${title}${renderMarkdownStalenessBadge(obs)} | ${readCol} | ${workCol} |`;
 }
 
 /**
@@ -158,10 +171,10 @@ export function renderMarkdownFullObservation(
 ): string[] {
   const output: string[] = [];
   const title = obs.title || 'Untitled';
-  const icon = ModeManager.getInstance().getTypeIcon(obs.type);
+  const icon = ModeManager.getInstance().getTypeIcon(obs.type, obs.mode_id);
   const { readTokens, discoveryDisplay } = formatObservationTokenDisplay(obs, config);
 
-  output.push(`**#${obs.id}** ${timeDisplay || '"'} ${icon} **${title}**`);
+  output.push(`**#${obs.id}** ${timeDisplay || '"'} ${icon} **${title}**${renderMarkdownStalenessBadge(obs)}`);
   if (detailField) {
     output.push('');
     output.push(detailField);
@@ -233,6 +246,20 @@ export function renderMarkdownFooter(totalDiscoveryTokens: number, totalReadToke
   ];
 }
 
+/**
+ * Render markdown token budget report
+ */
+export function renderMarkdownBudgetReport(report: ContextBudgetReport): string[] {
+  const usage = `~${report.usedTokens.toLocaleString()}/${report.budget.toLocaleString()} tokens`;
+  if (report.droppedObservations === 0 && report.droppedSummaries === 0) {
+    return ['', `**Token budget**: ${usage}, nothing dropped.`];
+  }
+  return [
+    '',
+    `**Token budget**: ${usage}. Dropped ${report.droppedObservations} observations and ${report.droppedSummaries} sessions (~${report.droppedTokens.toLocaleString()} tokens); use MCP search tools to reach them.`
+  ];
+}
+
 /**
  * Render markdown empty state
  */
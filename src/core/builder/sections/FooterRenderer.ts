@@ -1,10 +1,10 @@
 /**
  * FooterRenderer - Renders the context footer sections
  *
- * Handles rendering of previously section and token savings footer.
+ * Handles rendering of previously section, token budget report and token savings footer.
  */
 
-import type { ContextConfig, TokenEconomics, PriorMessages } from '../types.js';
+import type { ContextConfig, TokenEconomics, PriorMessages, ContextBudgetReport } from '../types.js';
 import { shouldShowContextEconomics } from '../TokenCalculator.js';
 import * as Markdown from '../formatters/MarkdownFormatter.js';
 import * as Color from '../formatters/ColorFormatter.js';
@@ -22,6 +22,23 @@ export function renderPreviouslySection(
   return Markdown.renderMarkdownPreviouslySection(priorMessages);
 }
 
+/**
+ * Render what token-budgeted packing used and dropped
+ */
+export function renderBudgetReport(
+  report: ContextBudgetReport | null,
+  useColors: boolean
+): string[] {
+  if (!report) {
+    return [];
+  }
+
+  if (useColors) {
+    return Color.renderColorBudgetReport(report);
+  }
+  return Markdown.renderMarkdownBudgetReport(report);
+}
+
 /**
  * Render the footer with token savings info
  */
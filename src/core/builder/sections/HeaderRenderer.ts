@@ -29,9 +29,9 @@ export function renderHeader(
 
   // Legend
   if (useColors) {
-    output.push(...Color.renderColorLegend());
+    output.push(...Color.renderColorLegend(config.modeIds));
   } else {
-    output.push(...Markdown.renderMarkdownLegend());
+    output.push(...Markdown.renderMarkdownLegend(config.modeIds));
   }
 
   // Column key
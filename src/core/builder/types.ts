@@ -2,6 +2,8 @@
  * Context Types - Shared types for context generation module
  */
 
+import type { ObservationStaleness } from '../../types/database.js';
+
 /**
  * Input parameters for context generation
  */
@@ -39,6 +41,12 @@ export interface ContextConfig {
   fullObservationField: 'narrative' | 'facts';
   showLastSummary: boolean;
   showLastMessage: boolean;
+
+  // Token budget (0 = count-based mode)
+  tokenBudget: number;
+
+  // Modes the rendered observations come from (empty: active mode)
+  modeIds?: string[];
 }
 
 /**
@@ -60,6 +68,14 @@ export interface Observation {
   created_at_epoch: number;
   /** Project this observation belongs to (for multi-project queries) */
   project?: string;
+  /** Referenced file path -> content hash at capture time (JSON) */
+  file_hashes?: string | null;
+  /** Result of the last staleness check */
+  staleness?: ObservationStaleness | null;
+  /** Pinned favorite: always included in context */
+  pinned?: boolean;
+  /** Mode of the session that recorded it (null: active mode) */
+  mode_id?: string | null;
 }
 
 /**
@@ -106,6 +122,32 @@ export interface TokenEconomics {
   savingsPercent: number;
 }
 
+/**
+ * Result of packing context into a token budget
+ */
+export interface PackedContext {
+  /** Observations that made it in, most recent first */
+  observations: Observation[];
+  /** Summaries that made it in (a most-recent-first prefix) */
+  summaries: SessionSummary[];
+  /** Observations rendered with full details */
+  fullObservationIds: Set<number>;
+  report: ContextBudgetReport;
+}
+
+/**
+ * What token-budgeted packing kept and dropped
+ */
+export interface ContextBudgetReport {
+  budget: number;
+  usedTokens: number;
+  fullObservations: number;
+  droppedObservations: number;
+  droppedSummaries: number;
+  /** Estimated tokens the dropped observations and summaries would have cost */
+  droppedTokens: number;
+}
+
 /**
  * Prior messages from transcript
  */
@@ -0,0 +1,142 @@
+/**
+ * LegacyModeAdapter - Load community modes written in the legacy format
+ *
+ * Early community modes (contrib/modes/research.json) describe types as
+ * { type, description, icon, color, priority }, concepts as plain strings and
+ * only carry observation/summary prompts. The adapter maps them onto a base
+ * mode (their `extends`, default 'code'): the base supplies every prompt the
+ * legacy file has no equivalent for, and the type/concept guidance is
+ * regenerated so the observer is never told about the base mode's types.
+ */
+
+import type { ModeConfig, ObservationConcept, ObservationType } from './types.js';
+
+export interface LegacyObservationType {
+  type: string;
+  description: string;
+  icon?: string;
+  color?: string;
+  priority?: number;
+}
+
+export interface LegacyModeConfig {
+  id: string;
+  name: string;
+  description?: string;
+  version?: string;
+  author?: string;
+  observation_types: LegacyObservationType[];
+  concepts?: string[];
+  prompts?: {
+    observation?: string;
+    summary?: string;
+    context?: string;
+  };
+  settings?: Record<string, unknown>;
+  extends?: string;
+}
+
+export interface AdaptedMode {
+  mode: ModeConfig;
+  /** Parts of the legacy file that have no equivalent and were dropped */
+  warnings: Array<{ path: string; message: string }>;
+}
+
+const DEFAULT_EMOJI = '📝';
+const DEFAULT_WORK_EMOJI = '🛠️';
+
+/**
+ * Whether a definition uses the legacy shape. Canonical modes never carry
+ * `id`, `concepts` or `extends`, and their types are keyed by `id`.
+ */
+export function isLegacyMode(raw: unknown): raw is LegacyModeConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return false;
+  }
+  const mode = raw as Record<string, unknown>;
+  if ('id' in mode || 'concepts' in mode || 'extends' in mode) {
+    return true;
+  }
+  return Array.isArray(mode.observation_types) &&
+    mode.observation_types.some(type => type && typeof type === 'object' && 'type' in type && !('id' in type));
+}
+
+/**
+ * Base mode a legacy mode builds on
+ */
+export function legacyBaseModeId(legacy: LegacyModeConfig): string {
+  return legacy.extends || 'code';
+}
+
+function toLabel(id: string): string {
+  return id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+function typeGuidance(types: ObservationType[]): string {
+  const lines = types.map(type => `      - ${type.id}: ${type.description}`);
+  return `**type**: MUST be EXACTLY one of these ${types.length} options (no other values allowed):\n${lines.join('\n')}`;
+}
+
+function conceptGuidance(concepts: ObservationConcept[]): string {
+  const lines = concepts.map(concept => `      - ${concept.id}`);
+  return `**concepts**: 2-5 knowledge-type categories. MUST use ONLY these exact keywords:\n${lines.join('\n')}\n\n` +
+    '    IMPORTANT: Do NOT include the observation type as a concept.\n' +
+    '    Types and concepts are separate dimensions.';
+}
+
+/**
+ * Convert a legacy mode to a ModeConfig built on `base`
+ */
+export function adaptLegacyMode(legacy: LegacyModeConfig, base: ModeConfig): AdaptedMode {
+  const warnings: AdaptedMode['warnings'] = [];
+
+  // Types are listed by priority (stable for equal or missing priorities)
+  const observationTypes: ObservationType[] = legacy.observation_types
+    .map((type, index) => ({ type, index }))
+    .sort((a, b) => (a.type.priority ?? 5) - (b.type.priority ?? 5) || a.index - b.index)
+    .map(({ type }) => ({
+      id: type.type,
+      label: toLabel(type.type),
+      description: type.description,
+      emoji: type.icon || DEFAULT_EMOJI,
+      work_emoji: type.icon || DEFAULT_WORK_EMOJI
+    }));
+
+  if (legacy.observation_types.some(type => type.color !== undefined)) {
+    warnings.push({ path: '/observation_types', message: 'type colors are not supported and are ignored' });
+  }
+
+  const observationConcepts: ObservationConcept[] = legacy.concepts && legacy.concepts.length > 0
+    ? legacy.concepts.map(id => ({ id, label: toLabel(id), description: toLabel(id) }))
+    : base.observation_concepts;
+
+  const prompts = {
+    ...base.prompts,
+    type_guidance: typeGuidance(observationTypes),
+    concept_guidance: legacy.concepts && legacy.concepts.length > 0 ? conceptGuidance(observationConcepts) : base.prompts.concept_guidance
+  };
+  if (legacy.prompts?.observation) {
+    prompts.recording_focus = legacy.prompts.observation;
+  }
+  if (legacy.prompts?.summary) {
+    prompts.summary_instruction = legacy.prompts.summary;
+  }
+  if (legacy.prompts?.context !== undefined) {
+    warnings.push({ path: '/prompts/context', message: 'context prompts are not supported and are ignored' });
+  }
+  if (legacy.settings !== undefined) {
+    warnings.push({ path: '/settings', message: 'mode settings are not supported and are ignored' });
+  }
+
+  return {
+    mode: {
+      name: legacy.name,
+      description: legacy.description ?? base.description,
+      version: legacy.version ?? base.version,
+      observation_types: observationTypes,
+      observation_concepts: observationConcepts,
+      prompts
+    },
+    warnings
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * MemoryTypes - Map memory types from chat tools onto a mode's observation types
+ *
+ * The save_memory and search_memories tools speak in chat memory types
+ * (preference, decision, learning, context). The `chat` mode defines them as
+ * observation types; sessions bound to another mode map each one onto the
+ * first of its fallbacks that the mode defines:
+ *
+ *   preference -> preference, decision
+ *   decision   -> decision, conclusion
+ *   learning   -> learning, discovery
+ *   context    -> context, discovery
+ *
+ * A mode's own observation types are accepted as they are. Anything else is
+ * rejected with the types the mode accepts, rather than stored as an
+ * arbitrary string.
+ */
+
+import type { ObservationConcept, ObservationType } from './types.js';
+import { resolveModeBinding } from './ModeBindings.js';
+
+/** Mode chat integrations observe in unless a mode binding says otherwise */
+export const CHAT_MODE_ID = 'chat';
+
+/**
+ * Mode for chat sessions of a project: its mode binding, or the chat mode
+ */
+export function chatModeForProject(project: string): string {
+  const { modeId, binding } = resolveModeBinding({ project });
+  return binding ? modeId : CHAT_MODE_ID;
+}
+
+export const CHAT_MEMORY_TYPES = ['preference', 'decision', 'learning', 'context'] as const;
+
+const MEMORY_TYPE_FALLBACKS: Record<(typeof CHAT_MEMORY_TYPES)[number], string[]> = {
+  preference: ['preference', 'decision'],
+  decision: ['decision', 'conclusion'],
+  learning: ['learning', 'discovery'],
+  context: ['context', 'discovery']
+};
+
+/**
+ * Thrown for a memory type or concept the session's mode does not accept
+ */
+export class MemoryTypeError extends Error {
+  constructor(message: string, public readonly accepted: string[]) {
+    super(`${message}. Accepted: ${accepted.join(', ')}`);
+    this.name = 'MemoryTypeError';
+  }
+}
+
+/**
+ * Types a mode accepts from the tools: its own observation types and the
+ * chat memory types that map onto them
+ */
+export function acceptedMemoryTypes(observationTypes: ObservationType[]): string[] {
+  const ids = observationTypes.map(type => type.id);
+  const mapped = CHAT_MEMORY_TYPES.filter(type => MEMORY_TYPE_FALLBACKS[type].some(fallback => ids.includes(fallback)));
+  return [...new Set([...mapped, ...ids])];
+}
+
+/**
+ * Observation type a memory type is stored as
+ * @throws MemoryTypeError when the mode has no matching type
+ */
+export function resolveMemoryType(type: string, observationTypes: ObservationType[], modeId: string): string {
+  const ids = observationTypes.map(observationType => observationType.id);
+  const normalized = type.trim().toLowerCase();
+  if (ids.includes(normalized)) {
+    return normalized;
+  }
+
+  const fallback = (MEMORY_TYPE_FALLBACKS as Record<string, string[] | undefined>)[normalized]?.find(candidate => ids.includes(candidate));
+  if (fallback) {
+    return fallback;
+  }
+  throw new MemoryTypeError(`Unknown memory type '${type}' for mode '${modeId}'`, acceptedMemoryTypes(observationTypes));
+}
+
+/**
+ * Concepts of a memory, checked against the mode
+ * @throws MemoryTypeError on a concept the mode does not define
+ */
+export function resolveMemoryConcepts(concepts: string[], observationConcepts: ObservationConcept[], modeId: string): string[] {
+  const ids = observationConcepts.map(concept => concept.id);
+  const normalized = [...new Set(concepts.map(concept => concept.trim().toLowerCase()).filter(Boolean))];
+  const unknown = normalized.filter(concept => !ids.includes(concept));
+  if (unknown.length > 0) {
+    throw new MemoryTypeError(`Unknown concept${unknown.length > 1 ? 's' : ''} ${unknown.map(c => `'${c}'`).join(', ')} for mode '${modeId}'`, ids);
+  }
+  return normalized;
+}
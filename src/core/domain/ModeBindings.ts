@@ -0,0 +1,102 @@
+/**
+ * ModeBindings - Choose the mode for a session from its project
+ *
+ * MOLTBRAIN_MODE_BINDINGS is a JSON array checked in order, first match wins:
+ *
+ *   [
+ *     { "project": "foia-archive", "mode": "email-investigation" },
+ *     { "cwd": "~/work/legal/**", "mode": "email-investigation" },
+ *     { "project": "docs-*", "mode": "code--chill" }
+ *   ]
+ *
+ * `project` matches the project name, `cwd` the session's working directory
+ * (a directory matches `dir/**` too); both accept globs. Sessions that match
+ * no binding use MOLTBRAIN_MODE. The result is stored on the session when it
+ * is created, so changing bindings only affects new sessions.
+ */
+
+import { homedir } from 'os';
+import { sep } from 'path';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { globToRegExp } from '../../common/privacy-policy.js';
+import { logger } from '../../utils/logger.js';
+
+export interface ModeBinding {
+  project?: string;
+  cwd?: string;
+  mode: string;
+}
+
+export interface ModeResolution {
+  modeId: string;
+  /** The binding that chose the mode, or null for MOLTBRAIN_MODE */
+  binding: ModeBinding | null;
+}
+
+/**
+ * Parse MOLTBRAIN_MODE_BINDINGS, skipping malformed entries
+ */
+export function parseModeBindings(json: string): ModeBinding[] {
+  if (!json.trim()) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_MODE_BINDINGS is not valid JSON, ignoring it', {}, error as Error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_MODE_BINDINGS must be a JSON array, ignoring it');
+    return [];
+  }
+
+  const bindings: ModeBinding[] = [];
+  for (const entry of entries) {
+    const { project, cwd, mode } = (entry ?? {}) as Record<string, unknown>;
+    const validPattern = (value: unknown) => value === undefined || (typeof value === 'string' && value.trim() !== '');
+    if (typeof mode !== 'string' || !mode.trim() || (project === undefined && cwd === undefined) || !validPattern(project) || !validPattern(cwd)) {
+      logger.warn('SYSTEM', 'Skipping mode binding without a mode and a project or cwd', { binding: entry });
+      continue;
+    }
+    bindings.push({
+      ...(project !== undefined && { project: (project as string).trim() }),
+      ...(cwd !== undefined && { cwd: (cwd as string).trim() }),
+      mode: mode.trim()
+    });
+  }
+  return bindings;
+}
+
+function toSlashes(path: string): string {
+  return path.split(sep).join('/');
+}
+
+function matchesCwd(pattern: string, cwd: string): boolean {
+  const expanded = pattern === '~' || pattern.startsWith('~/') ? homedir() + pattern.slice(1) : pattern;
+  const regex = globToRegExp(toSlashes(expanded).replace(/\/$/, ''));
+  const dir = toSlashes(cwd).replace(/\/$/, '');
+  return regex.test(dir) || regex.test(`${dir}/`);
+}
+
+function matches(binding: ModeBinding, target: { project: string; cwd?: string }): boolean {
+  if (binding.project !== undefined && !globToRegExp(binding.project).test(target.project)) {
+    return false;
+  }
+  if (binding.cwd !== undefined && (!target.cwd || !matchesCwd(binding.cwd, target.cwd))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Mode for a session in `project`, started from `cwd` when known
+ */
+export function resolveModeBinding(
+  target: { project: string; cwd?: string },
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+): ModeResolution {
+  const binding = parseModeBindings(settings.MOLTBRAIN_MODE_BINDINGS).find(candidate => matches(candidate, target)) ?? null;
+  return { modeId: binding ? binding.mode : settings.MOLTBRAIN_MODE, binding };
+}
@@ -4,18 +4,37 @@
  * Mode profiles define observation types, concepts, and prompts for different use cases.
  * Default mode is 'code' (software development). Other modes like 'email-investigation'
  * can be selected via CLAUDE_RECALL_MODE setting.
+ *
+ * Definitions are validated by ModeValidator before use; see schemas/mode.schema.json.
+ *
+ * Modes are read from the installed modes directory and from the user modes
+ * directory (~/.moltbrain/modes), where the viewer's mode editor saves. An
+ * installed mode always wins over a user file with the same ID.
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, readdirSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import type { ModeConfig, ObservationType, ObservationConcept } from './types.js';
+import {
+  formatModeIssues,
+  inspectModeDefinition,
+  isValidModeId,
+  ModeValidationError,
+  type ModeInspection,
+  type ModeValidationReport
+} from './ModeValidator.js';
 import { logger } from '../../utils/logger.js';
-import { getPackageRoot } from '../../common/paths.js';
+import { getPackageRoot, MODES_DIR, ensureModesDir } from '../../common/paths.js';
+
+export type ModeSource = 'builtin' | 'user';
 
 export class ModeManager {
   private static instance: ModeManager | null = null;
   private activeMode: ModeConfig | null = null;
+  private activeModeId: string | null = null;
+  private modeCache: Map<string, ModeConfig> = new Map();
   private modesDir: string;
+  private userModesDir: string = MODES_DIR;
 
   private constructor() {
     // Modes are in extension/profiles/
@@ -72,84 +91,242 @@ export class ModeManager {
   }
 
   /**
-   * Check if value is a plain object (not array, not null)
+   * Mode ids become file names: anything else could point outside the modes directories
    */
-  private isPlainObject(value: unknown): boolean {
-    return (
-      value !== null &&
-      typeof value === 'object' &&
-      !Array.isArray(value)
-    );
+  private assertValidModeId(modeId: string): void {
+    if (!isValidModeId(modeId)) {
+      throw new Error(`Invalid mode id: ${modeId}`);
+    }
   }
 
   /**
-   * Deep merge two objects
-   * - Recursively merge nested objects
-   * - Replace arrays completely (no merging)
-   * - Override primitives
+   * Where a mode's file lives: installed modes first, then user modes
    */
-  private deepMerge<T>(base: T, override: Partial<T>): T {
-    const result = { ...base } as T;
+  private findModeFile(modeId: string): { path: string; source: ModeSource } | null {
+    this.assertValidModeId(modeId);
 
-    for (const key in override) {
-      const overrideValue = override[key];
-      const baseValue = base[key];
+    const builtinPath = join(this.modesDir, `${modeId}.json`);
+    if (existsSync(builtinPath)) {
+      return { path: builtinPath, source: 'builtin' };
+    }
+    const userPath = join(this.userModesDir, `${modeId}.json`);
+    if (existsSync(userPath)) {
+      return { path: userPath, source: 'user' };
+    }
+    return null;
+  }
 
-      if (this.isPlainObject(overrideValue) && this.isPlainObject(baseValue)) {
-        // Recursively merge nested objects
-        result[key] = this.deepMerge(baseValue, overrideValue as any);
-      } else {
-        // Replace arrays and primitives completely
-        result[key] = overrideValue as T[Extract<keyof T, string>];
-      }
+  /**
+   * Read a mode file from disk without validation or inheritance processing
+   */
+  private readModeFile(modeId: string): unknown {
+    const file = this.findModeFile(modeId);
+    if (!file) {
+      throw new Error(`Mode file not found: ${modeId}.json (searched ${this.modesDir} and ${this.userModesDir})`);
+    }
+
+    try {
+      return JSON.parse(readFileSync(file.path, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Mode file is not valid JSON: ${file.path}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Load, validate and normalize a mode without falling back to another one.
+   * Throws ModeValidationError when the definition (or its base) is invalid.
+   */
+  private resolveMode(modeId: string, visiting: Set<string> = new Set()): ModeConfig {
+    if (visiting.has(modeId)) {
+      throw new Error(`Mode inheritance cycle: ${[...visiting, modeId].join(' -> ')}`);
+    }
+    visiting.add(modeId);
+
+    const { hasParent, parentId } = this.parseInheritance(modeId);
+    const { report, mode } = inspectModeDefinition(modeId, this.readModeFile(modeId), {
+      parentId: hasParent ? parentId : null,
+      resolveBase: baseId => this.resolveMode(baseId, visiting)
+    });
+    if (!mode) {
+      throw new ModeValidationError(report);
+    }
+    for (const warning of report.warnings) {
+      logger.debug('SYSTEM', `Mode ${modeId}: ${formatModeIssues([warning])[0]}`);
+    }
+    return mode;
+  }
+
+  /**
+   * Validate an installed mode, or a definition submitted under a mode id,
+   * and resolve it (overlays merged, legacy modes converted) when valid.
+   * Never throws: problems reading the file are reported as errors.
+   */
+  inspectMode(modeId: string, definition?: unknown): ModeInspection {
+    try {
+      this.assertValidModeId(modeId);
+      const { hasParent, parentId } = this.parseInheritance(modeId);
+      return inspectModeDefinition(modeId, definition === undefined ? this.readModeFile(modeId) : definition, {
+        parentId: hasParent ? parentId : null,
+        resolveBase: baseId => this.resolveMode(baseId, new Set([modeId]))
+      });
+    } catch (error) {
+      return {
+        report: { mode: modeId, format: null, valid: false, errors: [{ path: '', message: (error as Error).message }], warnings: [] },
+        mode: null
+      };
+    }
+  }
+
+  /**
+   * Validate an installed mode, or a definition submitted under a mode id
+   */
+  validateMode(modeId: string, definition?: unknown): ModeValidationReport {
+    return this.inspectMode(modeId, definition).report;
+  }
+
+  /**
+   * IDs of the installed and user modes
+   */
+  listModeIds(): string[] {
+    const ids = new Set<string>();
+    for (const dir of [this.modesDir, this.userModesDir]) {
+      if (!existsSync(dir)) continue;
+      readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .forEach(file => ids.add(file.slice(0, -'.json'.length)));
     }
+    return [...ids].filter(isValidModeId).sort();
+  }
 
-    return result;
+  /**
+   * Whether a mode is installed or a user mode, or null if it doesn't exist
+   */
+  getModeSource(modeId: string): ModeSource | null {
+    try {
+      return this.findModeFile(modeId)?.source ?? null;
+    } catch {
+      return null;
+    }
   }
 
   /**
-   * Load a mode file from disk without inheritance processing
+   * A mode's definition as written in its file (overlays unmerged)
    */
-  private loadModeFile(modeId: string): ModeConfig {
-    const modePath = join(this.modesDir, `${modeId}.json`);
+  getModeDefinition(modeId: string): unknown {
+    return this.readModeFile(modeId);
+  }
 
-    if (!existsSync(modePath)) {
-      throw new Error(`Mode file not found: ${modePath}`);
+  /**
+   * Validate and write a mode to the user modes directory. Nothing is written
+   * when the report has errors. Installed modes are read-only: clone them.
+   */
+  saveUserMode(modeId: string, definition: unknown): ModeValidationReport {
+    this.assertValidModeId(modeId);
+    if (this.getModeSource(modeId) === 'builtin') {
+      throw new Error(`Mode '${modeId}' is installed and cannot be changed; save it under a new ID`);
     }
 
-    const jsonContent = readFileSync(modePath, 'utf-8');
-    return JSON.parse(jsonContent) as ModeConfig;
+    const report = this.validateMode(modeId, definition);
+    if (!report.valid) {
+      return report;
+    }
+
+    ensureModesDir();
+    writeFileSync(join(this.userModesDir, `${modeId}.json`), JSON.stringify(definition, null, 2) + '\n', 'utf-8');
+    logger.info('SYSTEM', `Saved user mode: ${modeId}`);
+    this.reloadModes();
+    return report;
+  }
+
+  /**
+   * Delete a user mode. Returns false if there is no user mode with this ID.
+   */
+  deleteUserMode(modeId: string): boolean {
+    this.assertValidModeId(modeId);
+    if (this.getModeSource(modeId) !== 'user') {
+      return false;
+    }
+
+    unlinkSync(join(this.userModesDir, `${modeId}.json`));
+    logger.info('SYSTEM', `Deleted user mode: ${modeId}`);
+    this.reloadModes();
+    return true;
+  }
+
+  /**
+   * Drop cached modes after a user mode changed; overlays and legacy modes
+   * may build on it, so nothing cached can be trusted
+   */
+  private reloadModes(): void {
+    this.modeCache.clear();
+    if (this.activeModeId) {
+      this.loadMode(this.activeModeId);
+    }
   }
 
   /**
    * Load a mode profile by ID with inheritance support
-   * Caches the result for subsequent calls
+   *
+   * Every definition is validated against schemas/mode.schema.json; legacy
+   * community modes are converted by LegacyModeAdapter.
    *
    * Supports inheritance via parent--override pattern (e.g., code--ko)
    * - Loads parent mode recursively
    * - Loads override file from modes directory
-   * - Deep merges override onto parent
+   * - Deep merges override onto parent and validates the result
    */
   loadMode(modeId: string): ModeConfig {
+    const mode = this.buildMode(modeId);
+    this.activeMode = mode;
+    this.activeModeId = modeId;
+    this.modeCache.set(modeId, mode);
+    return mode;
+  }
+
+  /**
+   * Get a mode by ID without changing the active mode (for sessions bound
+   * to another mode). Loaded modes are cached; without an ID, or for the
+   * active mode's ID, this is the active mode.
+   */
+  getMode(modeId?: string | null): ModeConfig {
+    if (!modeId) {
+      return this.getActiveMode();
+    }
+    let mode = this.modeCache.get(modeId);
+    if (!mode) {
+      try {
+        mode = this.buildMode(modeId);
+      } catch (error) {
+        logger.warn('SYSTEM', `Mode '${modeId}' could not be loaded, using the active mode`, { reason: (error as Error).message });
+        mode = this.getActiveMode();
+      }
+      this.modeCache.set(modeId, mode);
+    }
+    return mode;
+  }
+
+  /**
+   * Resolve a mode with loadMode's fallbacks
+   */
+  private buildMode(modeId: string): ModeConfig {
     const inheritance = this.parseInheritance(modeId);
 
-    // No inheritance - load file directly (existing behavior)
+    // No inheritance - load file directly
     if (!inheritance.hasParent) {
       try {
-        const mode = this.loadModeFile(modeId);
-        this.activeMode = mode;
+        const mode = this.resolveMode(modeId);
         logger.debug('SYSTEM', `Loaded mode: ${mode.name} (${modeId})`, undefined, {
           types: mode.observation_types.map(t => t.id),
           concepts: mode.observation_concepts.map(c => c.id)
         });
         return mode;
       } catch (error) {
-        logger.warn('SYSTEM', `Mode file not found: ${modeId}, falling back to 'code'`);
+        logger.warn('SYSTEM', `Mode '${modeId}' could not be loaded, falling back to 'code'`, { reason: (error as Error).message });
         // If we're already trying to load 'code', throw to prevent infinite recursion
         if (modeId === 'code') {
-          throw new Error('Critical: code.json mode file missing');
+          throw new Error(`Critical: code mode could not be loaded: ${(error as Error).message}`);
         }
-        return this.loadMode('code');
+        return this.buildMode('code');
       }
     }
 
@@ -159,34 +336,34 @@ export class ModeManager {
     // Load parent mode recursively
     let parentMode: ModeConfig;
     try {
-      parentMode = this.loadMode(parentId);
+      parentMode = this.buildMode(parentId);
     } catch (error) {
       logger.warn('SYSTEM', `Parent mode '${parentId}' not found for ${modeId}, falling back to 'code'`);
-      parentMode = this.loadMode('code');
+      parentMode = this.buildMode('code');
     }
 
     // Load override file
-    let overrideConfig: Partial<ModeConfig>;
+    let overrideConfig: unknown;
     try {
-      overrideConfig = this.loadModeFile(overrideId);
+      overrideConfig = this.readModeFile(overrideId);
       logger.debug('SYSTEM', `Loaded override file: ${overrideId} for parent ${parentId}`);
     } catch (error) {
       logger.warn('SYSTEM', `Override file '${overrideId}' not found, using parent mode '${parentId}' only`);
-      this.activeMode = parentMode;
       return parentMode;
     }
 
-    // Validate override file loaded successfully
-    if (!overrideConfig) {
-      logger.warn('SYSTEM', `Invalid override file: ${overrideId}, using parent mode '${parentId}' only`);
-      this.activeMode = parentMode;
+    // Validate the override and merge it onto the parent
+    const { report, mode: mergedMode } = inspectModeDefinition(overrideId, overrideConfig, {
+      parentId,
+      resolveBase: () => parentMode
+    });
+    if (!mergedMode) {
+      logger.warn('SYSTEM', `Invalid override file: ${overrideId}, using parent mode '${parentId}' only`, {
+        errors: formatModeIssues(report.errors)
+      });
       return parentMode;
     }
 
-    // Deep merge override onto parent
-    const mergedMode = this.deepMerge(parentMode, overrideConfig);
-    this.activeMode = mergedMode;
-
     logger.debug('SYSTEM', `Loaded mode with inheritance: ${mergedMode.name} (${modeId} = ${parentId} + ${overrideId})`, undefined, {
       parent: parentId,
       override: overrideId,
@@ -208,47 +385,47 @@ export class ModeManager {
   }
 
   /**
-   * Get all observation types from active mode
+   * Get all observation types from a mode (default: active mode)
    */
-  getObservationTypes(): ObservationType[] {
-    return this.getActiveMode().observation_types;
+  getObservationTypes(modeId?: string | null): ObservationType[] {
+    return this.getMode(modeId).observation_types;
   }
 
   /**
-   * Get all observation concepts from active mode
+   * Get all observation concepts from a mode (default: active mode)
    */
-  getObservationConcepts(): ObservationConcept[] {
-    return this.getActiveMode().observation_concepts;
+  getObservationConcepts(modeId?: string | null): ObservationConcept[] {
+    return this.getMode(modeId).observation_concepts;
   }
 
   /**
    * Get icon for a specific observation type
    */
-  getTypeIcon(typeId: string): string {
-    const type = this.getObservationTypes().find(t => t.id === typeId);
+  getTypeIcon(typeId: string, modeId?: string | null): string {
+    const type = this.getObservationTypes(modeId).find(t => t.id === typeId);
     return type?.emoji || '📝';
   }
 
   /**
    * Get work emoji for a specific observation type
    */
-  getWorkEmoji(typeId: string): string {
-    const type = this.getObservationTypes().find(t => t.id === typeId);
+  getWorkEmoji(typeId: string, modeId?: string | null): string {
+    const type = this.getObservationTypes(modeId).find(t => t.id === typeId);
     return type?.work_emoji || '📝';
   }
 
   /**
-   * Validate that a type ID exists in the active mode
+   * Validate that a type ID exists in a mode (default: active mode)
    */
-  validateType(typeId: string): boolean {
-    return this.getObservationTypes().some(t => t.id === typeId);
+  validateType(typeId: string, modeId?: string | null): boolean {
+    return this.getObservationTypes(modeId).some(t => t.id === typeId);
   }
 
   /**
    * Get label for a specific observation type
    */
-  getTypeLabel(typeId: string): string {
-    const type = this.getObservationTypes().find(t => t.id === typeId);
+  getTypeLabel(typeId: string, modeId?: string | null): string {
+    const type = this.getObservationTypes(modeId).find(t => t.id === typeId);
     return type?.label || typeId;
   }
 }
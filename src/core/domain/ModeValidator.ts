@@ -0,0 +1,358 @@
+/**
+ * ModeValidator - Check mode definitions against schemas/mode.schema.json
+ *
+ * Implements the subset of JSON Schema (draft-07) the mode schema uses, so
+ * errors can point at the exact property: `/observation_types/2/emoji: is
+ * required`. Definitions come in three formats:
+ * - mode:    a complete ModeConfig (code.json, email-investigation.json)
+ * - overlay: a partial ModeConfig deep-merged onto its parent (code--ko.json);
+ *            objects may omit properties, array items must still be complete
+ * - legacy:  the community format, converted by LegacyModeAdapter
+ * Overlays and legacy modes are validated once more after being applied to
+ * their base, since the result is what the observer actually uses.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ModeConfig } from './types.js';
+import { adaptLegacyMode, isLegacyMode, legacyBaseModeId, type LegacyModeConfig } from './LegacyModeAdapter.js';
+import { getPackageRoot } from '../../common/paths.js';
+import { logger } from '../../utils/logger.js';
+
+export type ModeFormat = 'mode' | 'overlay' | 'legacy';
+
+export interface ModeValidationIssue {
+  /** JSON pointer into the definition ('' for the whole document) */
+  path: string;
+  message: string;
+}
+
+export interface ModeValidationReport {
+  mode: string;
+  /** null when the definition could not be read at all */
+  format: ModeFormat | null;
+  valid: boolean;
+  errors: ModeValidationIssue[];
+  warnings: ModeValidationIssue[];
+}
+
+export interface ModeInspection {
+  report: ModeValidationReport;
+  /** The normalized mode, when valid */
+  mode: ModeConfig | null;
+}
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  enum?: unknown[];
+  definitions?: Record<string, JsonSchema>;
+}
+
+/** Mode ids are file names in the modes directory: code, code--pt-br */
+const MODE_ID_PATTERN = /^[a-z0-9]+(?:-{1,2}[a-z0-9]+)*$/;
+
+/**
+ * Whether a mode id is safe to use as a file name in the modes directory
+ */
+export function isValidModeId(modeId: string): boolean {
+  return MODE_ID_PATTERN.test(modeId);
+}
+
+/**
+ * Thrown when a mode cannot be loaded because its definition is invalid
+ */
+export class ModeValidationError extends Error {
+  constructor(public readonly report: ModeValidationReport) {
+    super(`Mode '${report.mode}' is invalid:\n  ${formatModeIssues(report.errors).join('\n  ')}`);
+    this.name = 'ModeValidationError';
+  }
+}
+
+/**
+ * One line per issue: `/observation_types/0/emoji: is required`
+ */
+export function formatModeIssues(issues: ModeValidationIssue[]): string[] {
+  return issues.map(issue => `${issue.path || '/'}: ${issue.message}`);
+}
+
+let cachedSchema: JsonSchema | null | undefined;
+
+/**
+ * Load schemas/mode.schema.json (copied to plugin/schemas/ by the build).
+ * Returns null when it cannot be found, in which case only the structural
+ * checks in this file run.
+ */
+export function loadModeSchema(): JsonSchema | null {
+  if (cachedSchema !== undefined) {
+    return cachedSchema;
+  }
+
+  const packageRoot = getPackageRoot();
+  const possiblePaths = [
+    join(packageRoot, 'schemas', 'mode.schema.json'),       // Production (plugin/schemas)
+    join(packageRoot, '..', 'schemas', 'mode.schema.json')  // Development (src/../schemas)
+  ];
+  const schemaPath = possiblePaths.find(p => existsSync(p));
+
+  if (!schemaPath) {
+    logger.warn('SYSTEM', 'Mode schema not found, mode definitions will not be validated', { searched: possiblePaths });
+    cachedSchema = null;
+    return null;
+  }
+
+  cachedSchema = JSON.parse(readFileSync(schemaPath, 'utf-8')) as JsonSchema;
+  return cachedSchema;
+}
+
+function pointer(path: string, key: string | number): string {
+  return `${path}/${String(key).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === 'integer') return Number.isInteger(value);
+  return jsonType(value) === type;
+}
+
+function resolveRef(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  if (!schema.$ref) {
+    return schema;
+  }
+  const name = schema.$ref.replace(/^#\/definitions\//, '');
+  const target = root.definitions?.[name];
+  if (!target) {
+    throw new Error(`Unresolvable $ref in mode schema: ${schema.$ref}`);
+  }
+  return resolveRef(target, root);
+}
+
+/**
+ * Validate a value against a schema node, collecting every issue.
+ * With `partial`, `required` is not enforced on objects outside arrays
+ * (mirrors the overlay deep merge, which replaces arrays wholesale).
+ */
+function check(
+  value: unknown,
+  node: JsonSchema,
+  root: JsonSchema,
+  path: string,
+  partial: boolean,
+  issues: ModeValidationIssue[]
+): void {
+  const schema = resolveRef(node, root);
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ path, message: `expected ${types.join(' or ')}, got ${jsonType(value)}` });
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    // Lengths count code points, as JSON Schema does (emoji are often two UTF-16 units)
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item${schema.minItems === 1 ? '' : 's'}` });
+    }
+    if (schema.items) {
+      // Array items are always complete: overlays replace arrays, they do not merge them
+      value.forEach((item, index) => check(item, schema.items!, root, pointer(path, index), false, issues));
+    }
+  }
+
+  if (jsonType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    if (!partial) {
+      for (const key of schema.required ?? []) {
+        if (!(key in object)) {
+          issues.push({ path: pointer(path, key), message: 'is required' });
+        }
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        check(propertyValue, propertySchema, root, pointer(path, key), partial, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: pointer(path, key), message: 'is not a known property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        check(propertyValue, schema.additionalProperties, root, pointer(path, key), partial, issues);
+      }
+    }
+  }
+}
+
+/**
+ * Report ids that appear more than once in a list of types or concepts
+ */
+function checkUniqueIds(items: unknown, path: string, key: string, issues: ModeValidationIssue[]): void {
+  if (!Array.isArray(items)) {
+    return;
+  }
+  const seen = new Map<string, number>();
+  items.forEach((item, index) => {
+    const id = typeof item === 'string' ? item : (item as Record<string, unknown> | null)?.[key];
+    if (typeof id !== 'string') return;
+    const first = seen.get(id);
+    if (first === undefined) {
+      seen.set(id, index);
+    } else {
+      issues.push({ path: typeof item === 'string' ? pointer(path, index) : pointer(pointer(path, index), key), message: `duplicates '${id}' at ${pointer(path, first)}` });
+    }
+  });
+}
+
+/**
+ * Validate a single definition on its own (no base mode involved)
+ */
+export function validateModeDefinition(
+  raw: unknown,
+  options: { overlay?: boolean } = {}
+): { format: ModeFormat; errors: ModeValidationIssue[]; warnings: ModeValidationIssue[] } {
+  const legacy = isLegacyMode(raw);
+  const format: ModeFormat = legacy ? 'legacy' : options.overlay ? 'overlay' : 'mode';
+  const errors: ModeValidationIssue[] = [];
+  const warnings: ModeValidationIssue[] = [];
+
+  if (jsonType(raw) !== 'object') {
+    errors.push({ path: '', message: `expected object, got ${jsonType(raw)}` });
+    return { format, errors, warnings };
+  }
+
+  const root = loadModeSchema();
+  if (root) {
+    const schema = legacy ? { $ref: '#/definitions/legacyMode' } : root;
+    check(raw, schema, root, '', format === 'overlay', errors);
+  }
+
+  const mode = raw as Record<string, unknown>;
+  if (legacy) {
+    checkUniqueIds(mode.observation_types, '/observation_types', 'type', errors);
+    checkUniqueIds(mode.concepts, '/concepts', '', errors);
+    warnings.push({ path: '', message: 'legacy mode format; it is converted on load, see contrib/README.md for the current format' });
+  } else {
+    checkUniqueIds(mode.observation_types, '/observation_types', 'id', errors);
+    checkUniqueIds(mode.observation_concepts, '/observation_concepts', 'id', errors);
+  }
+
+  return { format, errors, warnings };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep merge an overlay onto its parent
+ * - Recursively merge nested objects
+ * - Replace arrays completely (no merging)
+ * - Override primitives
+ */
+export function mergeModeOverlay<T>(base: T, override: Partial<T>): T {
+  const result = { ...base } as T;
+
+  for (const key in override) {
+    const overrideValue = override[key];
+    const baseValue = base[key];
+
+    if (isPlainObject(overrideValue) && isPlainObject(baseValue)) {
+      result[key] = mergeModeOverlay(baseValue, overrideValue as any) as T[Extract<keyof T, string>];
+    } else {
+      result[key] = overrideValue as T[Extract<keyof T, string>];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate a definition and normalize it to a ModeConfig
+ *
+ * @param parentId - Parent mode for inherited ids (code--ko), else null
+ * @param resolveBase - Loads the mode an overlay or legacy mode builds on
+ */
+export function inspectModeDefinition(
+  modeId: string,
+  raw: unknown,
+  context: { parentId: string | null; resolveBase: (baseId: string) => ModeConfig }
+): ModeInspection {
+  const { format, errors, warnings } = validateModeDefinition(raw, { overlay: context.parentId !== null });
+  const report: ModeValidationReport = { mode: modeId, format, valid: errors.length === 0, errors, warnings };
+
+  if (!report.valid) {
+    return { report, mode: null };
+  }
+  if (format === 'mode') {
+    return { report, mode: raw as ModeConfig };
+  }
+
+  const baseId = context.parentId ?? legacyBaseModeId(raw as LegacyModeConfig);
+  let base: ModeConfig;
+  try {
+    base = context.resolveBase(baseId);
+  } catch (error) {
+    errors.push({
+      path: context.parentId === null ? '/extends' : '',
+      message: `base mode '${baseId}' could not be loaded: ${(error as Error).message}`
+    });
+    report.valid = false;
+    return { report, mode: null };
+  }
+
+  let mode: ModeConfig;
+  if (format === 'legacy') {
+    const adapted = adaptLegacyMode(raw as LegacyModeConfig, base);
+    mode = adapted.mode;
+    warnings.push(...adapted.warnings);
+  } else {
+    mode = mergeModeOverlay(base, raw as Partial<ModeConfig>);
+  }
+
+  for (const issue of validateModeDefinition(mode).errors) {
+    errors.push({ path: issue.path, message: `${issue.message} (after applying to '${baseId}')` });
+  }
+  report.valid = errors.length === 0;
+  return { report, mode: report.valid ? mode : null };
+}
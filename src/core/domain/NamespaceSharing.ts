@@ -0,0 +1,100 @@
+/**
+ * NamespaceSharing - Choose who sees an observation from a chat session
+ *
+ * Observations from chat integrations are private to their channel and user
+ * by default. MOLTBRAIN_NAMESPACE_SHARING is a JSON array checked in order,
+ * first match wins:
+ *
+ *   [
+ *     { "project": "openclaw", "type": "decision", "scope": "channel" },
+ *     { "channel": "announcements", "scope": "global" },
+ *     { "concept": "team-norm", "scope": "channel" }
+ *   ]
+ *
+ * `project` and `channel` accept globs; `type` and `concept` match the
+ * observation exactly. `scope` is `user` (that user in that channel),
+ * `channel` (everyone in the channel) or `global` (every namespace of the
+ * project). Sessions without a user never store user-scoped observations.
+ */
+
+import type { NamespaceScope } from '../../types/database.js';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { globToRegExp } from '../../common/privacy-policy.js';
+import { logger } from '../../utils/logger.js';
+
+export const NAMESPACE_SCOPES: readonly NamespaceScope[] = ['user', 'channel', 'global'];
+
+export interface NamespaceSharingRule {
+  project?: string;
+  channel?: string;
+  type?: string;
+  concept?: string;
+  scope: NamespaceScope;
+}
+
+export interface ScopeTarget {
+  project: string;
+  channel: string;
+  type: string;
+  concepts: string[];
+}
+
+/**
+ * Parse MOLTBRAIN_NAMESPACE_SHARING, skipping malformed entries
+ */
+export function parseNamespaceSharing(json: string): NamespaceSharingRule[] {
+  if (!json.trim()) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_NAMESPACE_SHARING is not valid JSON, ignoring it', {}, error as Error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_NAMESPACE_SHARING must be a JSON array, ignoring it');
+    return [];
+  }
+
+  const rules: NamespaceSharingRule[] = [];
+  for (const entry of entries) {
+    const { scope, ...matchers } = (entry ?? {}) as Record<string, unknown>;
+    const fields = ['project', 'channel', 'type', 'concept'] as const;
+    const validMatchers = Object.keys(matchers).every(key => (fields as readonly string[]).includes(key))
+      && fields.every(field => matchers[field] === undefined || (typeof matchers[field] === 'string' && (matchers[field] as string).trim() !== ''));
+    if (!NAMESPACE_SCOPES.includes(scope as NamespaceScope) || !validMatchers) {
+      logger.warn('SYSTEM', 'Skipping namespace sharing rule without a valid scope and matchers', { rule: entry });
+      continue;
+    }
+
+    const rule: NamespaceSharingRule = { scope: scope as NamespaceScope };
+    for (const field of fields) {
+      if (matchers[field] !== undefined) {
+        rule[field] = (matchers[field] as string).trim();
+      }
+    }
+    rules.push(rule);
+  }
+  return rules;
+}
+
+function matches(rule: NamespaceSharingRule, target: ScopeTarget): boolean {
+  if (rule.project !== undefined && !globToRegExp(rule.project).test(target.project)) return false;
+  if (rule.channel !== undefined && !globToRegExp(rule.channel).test(target.channel)) return false;
+  if (rule.type !== undefined && rule.type !== target.type) return false;
+  if (rule.concept !== undefined && !target.concepts.includes(rule.concept)) return false;
+  return true;
+}
+
+/**
+ * Scope for an observation of a chat session; `user` when no rule matches
+ */
+export function resolveObservationScope(
+  target: ScopeTarget,
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+): NamespaceScope {
+  const rule = parseNamespaceSharing(settings.MOLTBRAIN_NAMESPACE_SHARING).find(candidate => matches(candidate, target));
+  return rule ? rule.scope : 'user';
+}
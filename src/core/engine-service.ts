@@ -47,12 +47,19 @@ import { SSEBroadcaster } from './engine/SSEBroadcaster.js';
 import { SDKAgent } from './engine/SDKAgent.js';
 import { GeminiAgent } from './engine/GeminiAgent.js';
 import { OpenRouterAgent } from './engine/OpenRouterAgent.js';
+import { OpenAICompatibleAgent } from './engine/OpenAICompatibleAgent.js';
+import { ProviderRouter } from './engine/ProviderRouter.js';
 import { PaginationHelper } from './engine/PaginationHelper.js';
 import { SettingsManager } from './engine/SettingsManager.js';
 import { SearchManager } from './engine/SearchManager.js';
 import { FormattingService } from './engine/FormattingService.js';
 import { TimelineService } from './engine/TimelineService.js';
 import { SessionEventBroadcaster } from './engine/events/SessionEventBroadcaster.js';
+import { ConsolidationService, formatConsolidationReport } from './engine/ConsolidationService.js';
+import type { ConsolidationReport } from './engine/ConsolidationService.js';
+import { ReprocessService } from './engine/ReprocessService.js';
+import { PublishService } from './engine/PublishService.js';
+import { PromptContextService } from './engine/PromptContextService.js';
 
 // HTTP route handlers
 import { ViewerRoutes } from './engine/http/routes/ViewerRoutes.js';
@@ -61,6 +68,19 @@ import { DataRoutes } from './engine/http/routes/DataRoutes.js';
 import { SearchRoutes } from './engine/http/routes/SearchRoutes.js';
 import { SettingsRoutes } from './engine/http/routes/SettingsRoutes.js';
 import { LogsRoutes } from './engine/http/routes/LogsRoutes.js';
+import { ConsolidationRoutes } from './engine/http/routes/ConsolidationRoutes.js';
+import { RelatedRoutes } from './engine/http/routes/RelatedRoutes.js';
+import { CommitRoutes } from './engine/http/routes/CommitRoutes.js';
+import { PromptContextRoutes } from './engine/http/routes/PromptContextRoutes.js';
+import { FavoritesRoutes } from './engine/http/routes/FavoritesRoutes.js';
+import { TagRoutes } from './engine/http/routes/TagRoutes.js';
+import { RedactionRoutes } from './engine/http/routes/RedactionRoutes.js';
+import { PolicyRoutes } from './engine/http/routes/PolicyRoutes.js';
+import { ModeRoutes } from './engine/http/routes/ModeRoutes.js';
+import { NamespaceRoutes } from './engine/http/routes/NamespaceRoutes.js';
+import { MemoryRoutes } from './engine/http/routes/MemoryRoutes.js';
+import { ReprocessRoutes } from './engine/http/routes/ReprocessRoutes.js';
+import { MoltBookRoutes } from './engine/http/routes/MoltBookRoutes.js';
 
 // Process management for zombie cleanup (Issue #737)
 import { startOrphanReaper, reapOrphanedProcesses } from './engine/ProcessRegistry.js';
@@ -106,9 +126,14 @@ export class WorkerService {
   private sdkAgent: SDKAgent;
   private geminiAgent: GeminiAgent;
   private openRouterAgent: OpenRouterAgent;
+  private openAICompatibleAgent: OpenAICompatibleAgent;
+  private providerRouter: ProviderRouter;
   private paginationHelper: PaginationHelper;
   private settingsManager: SettingsManager;
   private sessionEventBroadcaster: SessionEventBroadcaster;
+  private consolidationService: ConsolidationService;
+  private reprocessService: ReprocessService;
+  private publishService: PublishService;
 
   // Route handlers
   private searchRoutes: SearchRoutes | null = null;
@@ -133,10 +158,31 @@ export class WorkerService {
     this.sdkAgent = new SDKAgent(this.dbManager, this.sessionManager);
     this.geminiAgent = new GeminiAgent(this.dbManager, this.sessionManager);
     this.openRouterAgent = new OpenRouterAgent(this.dbManager, this.sessionManager);
+    this.openAICompatibleAgent = new OpenAICompatibleAgent(this.dbManager, this.sessionManager);
+
+    // Route sessions across providers; agents report latency and handoff points back
+    this.providerRouter = new ProviderRouter({
+      claude: this.sdkAgent,
+      gemini: this.geminiAgent,
+      openrouter: this.openRouterAgent,
+      'openai-compatible': this.openAICompatibleAgent
+    });
+    this.sdkAgent.setHealthReporter(this.providerRouter);
+    this.geminiAgent.setHealthReporter(this.providerRouter);
+    this.openRouterAgent.setHealthReporter(this.providerRouter);
+    this.openAICompatibleAgent.setHealthReporter(this.providerRouter);
 
     this.paginationHelper = new PaginationHelper(this.dbManager);
     this.settingsManager = new SettingsManager(this.dbManager);
     this.sessionEventBroadcaster = new SessionEventBroadcaster(this.sseBroadcaster, this);
+    this.consolidationService = new ConsolidationService(this.dbManager, {
+      sdk: this.sdkAgent,
+      gemini: this.geminiAgent,
+      openRouter: this.openRouterAgent,
+      openAICompatible: this.openAICompatibleAgent
+    });
+    this.reprocessService = new ReprocessService(this.dbManager, this.sessionManager, this.providerRouter, this);
+    this.publishService = new PublishService(this.dbManager);
 
     // Set callback for when sessions are deleted
     this.sessionManager.setOnSessionDeleted(() => {
@@ -154,6 +200,7 @@ export class WorkerService {
     this.server = new Server({
       getInitializationComplete: () => this.initializationCompleteFlag,
       getMcpReady: () => this.mcpReady,
+      getProviderHealth: () => this.providerRouter.getHealth(),
       onShutdown: () => this.shutdown(),
       onRestart: () => this.shutdown()
     });
@@ -220,9 +267,19 @@ export class WorkerService {
     // Standard routes
     this.server.registerRoutes(new ViewerRoutes(this.sseBroadcaster, this.dbManager, this.sessionManager));
     this.server.registerRoutes(new SessionRoutes(this.sessionManager, this.dbManager, this.sdkAgent, this.geminiAgent, this.openRouterAgent, this.sessionEventBroadcaster, this));
+    this.server.registerRoutes(new RedactionRoutes(this.dbManager));
     this.server.registerRoutes(new DataRoutes(this.paginationHelper, this.dbManager, this.sessionManager, this.sseBroadcaster, this, this.startTime));
     this.server.registerRoutes(new SettingsRoutes(this.settingsManager));
     this.server.registerRoutes(new LogsRoutes());
+    this.server.registerRoutes(new ConsolidationRoutes(this.consolidationService, this.dbManager));
+    this.server.registerRoutes(new FavoritesRoutes(this.dbManager));
+    this.server.registerRoutes(new TagRoutes(this.dbManager));
+    this.server.registerRoutes(new PolicyRoutes(this.dbManager));
+    this.server.registerRoutes(new ModeRoutes(this.dbManager));
+    this.server.registerRoutes(new NamespaceRoutes(this.dbManager));
+    this.server.registerRoutes(new MemoryRoutes(this.dbManager));
+    this.server.registerRoutes(new ReprocessRoutes(this.reprocessService, this.dbManager));
+    this.server.registerRoutes(new MoltBookRoutes(this.publishService, this.dbManager));
 
     // Early handler for /api/context/inject to avoid 404 during startup
     this.server.app.get('/api/context/inject', async (req, res, next) => {
@@ -297,18 +354,24 @@ export class WorkerService {
         logger.info('SYSTEM', `Recovered ${resetCount} stuck messages from previous session`, { thresholdMinutes: 5 });
       }
 
+      // Replay sessions of an interrupted reprocess run must not be recovered as live sessions
+      this.reprocessService.recoverInterruptedRuns();
+
       // Initialize search services
       const formattingService = new FormattingService();
       const timelineService = new TimelineService();
       const searchManager = new SearchManager(
         this.dbManager.getSessionSearch(),
         this.dbManager.getSessionStore(),
-        this.dbManager.getChromaSync(),
+        this.dbManager.getVectorBackend(),
         formattingService,
         timelineService
       );
       this.searchRoutes = new SearchRoutes(searchManager);
       this.server.registerRoutes(this.searchRoutes);
+      this.server.registerRoutes(new RelatedRoutes(searchManager));
+      this.server.registerRoutes(new CommitRoutes(searchManager, this.dbManager));
+      this.server.registerRoutes(new PromptContextRoutes(new PromptContextService(this.dbManager)));
       logger.info('WORKER', 'SearchManager initialized and search routes registered');
 
       // Connect to MCP server
@@ -343,6 +406,9 @@ export class WorkerService {
       });
       logger.info('SYSTEM', 'Started orphan reaper (runs every 5 minutes)');
 
+      // Periodic memory consolidation (no-op unless MOLTBRAIN_CONSOLIDATION_ENABLED=true)
+      this.consolidationService.start();
+
       // Auto-recover orphaned queues (fire-and-forget with error logging)
       this.processPendingQueues(50).then(result => {
         if (result.sessionsStarted > 0) {
@@ -373,7 +439,7 @@ export class WorkerService {
     const sid = session.sessionDbId;
     logger.info('SYSTEM', `Starting generator (${source})`, { sessionId: sid });
 
-    session.generatorPromise = this.sdkAgent.startSession(session, this)
+    session.generatorPromise = this.providerRouter.startSession(session, this)
       .catch(error => {
         logger.error('SDK', 'Session generator failed', {
           sessionId: session.sessionDbId,
@@ -450,6 +516,8 @@ export class WorkerService {
       this.stopOrphanReaper = null;
     }
 
+    this.consolidationService.stop();
+
     await performGracefulShutdown({
       server: this.server.getHttpServer(),
       sessionManager: this.sessionManager,
@@ -613,6 +681,36 @@ async function main() {
       process.exit(0);
     }
 
+    case 'consolidate': {
+      const args = process.argv.slice(3);
+      const dryRun = args.includes('--dry-run');
+      const project = args.find((_, i) => args[i - 1] === '--project');
+      const limitArg = args.find((_, i) => args[i - 1] === '--limit');
+
+      const response = await fetch(`http://127.0.0.1:${port}/api/consolidation/run`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          dryRun,
+          ...(project && { project }),
+          ...(limitArg && { maxClusters: parseInt(limitArg, 10) })
+        })
+      }).catch(() => null);
+
+      if (!response) {
+        console.error('Worker is not running. Start it with: npm run worker:start');
+        process.exit(1);
+      }
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({})) as { error?: string };
+        console.error(`Consolidation failed: ${body.error ?? response.status}`);
+        process.exit(1);
+      }
+
+      console.log(formatConsolidationReport(await response.json() as ConsolidationReport));
+      process.exit(0);
+    }
+
     case 'hook': {
       const platform = process.argv[3];
       const event = process.argv[4];
@@ -3,6 +3,7 @@
  */
 
 import type { Response } from 'express';
+import type { ObservationGitState } from '../types/database.js';
 
 // ============================================================================
 // Active Session Types
@@ -22,6 +23,8 @@ export interface ActiveSession {
   contentSessionId: string;      // User's Claude Code session being observed
   memorySessionId: string | null; // Memory agent's session ID for resume
   project: string;
+  modeId: string | null;          // Mode the session is observed in (null: active mode)
+  namespace: SessionNamespace | null;  // Chat channel and user the session is bound to (null: not a chat session)
   userPrompt: string;
   pendingMessages: PendingMessage[];  // Deprecated: now using persistent store, kept for compatibility
   abortController: AbortController;
@@ -31,8 +34,28 @@ export interface ActiveSession {
   cumulativeInputTokens: number;   // Track input tokens for discovery cost
   cumulativeOutputTokens: number;  // Track output tokens for discovery cost
   earliestPendingTimestamp: number | null;  // Original timestamp of earliest pending message (for accurate observation timestamps)
+  pendingGitState: ObservationGitState | null;  // Git state of earliest pending message (stored on resulting observations)
   conversationHistory: ConversationMessage[];  // Shared conversation history for provider switching
-  currentProvider: 'claude' | 'gemini' | 'openrouter' | null;  // Track which provider is currently running
+  currentProvider: 'claude' | 'gemini' | 'openrouter' | 'openai-compatible' | null;  // Track which provider is currently running
+  staging: StagingTarget | null;  // Set on replay sessions: observations go to a reprocess run, not live memory
+}
+
+/**
+ * Channel and user a chat session's observations belong to
+ */
+export interface SessionNamespace {
+  channel: string;
+  userId: string | null;
+}
+
+/**
+ * Where a replay session's observations are staged: the reprocess run and the
+ * memory session of the source session being replayed
+ */
+export interface StagingTarget {
+  runId: number;
+  memorySessionId: string;
+  provider: ActiveSession['currentProvider'];  // Provider the run is pinned to (null: provider chain)
 }
 
 export interface PendingMessage {
@@ -43,6 +66,8 @@ export interface PendingMessage {
   prompt_number?: number;
   cwd?: string;
   last_assistant_message?: string;
+  git_head_sha?: string;
+  git_dirty?: boolean;
 }
 
 /**
@@ -61,6 +86,9 @@ export interface ObservationData {
   tool_response: any;
   prompt_number: number;
   cwd?: string;
+  git_head_sha?: string;
+  git_dirty?: boolean;
+  created_at_epoch?: number;  // When the tool use happened, for replayed events (default: now)
 }
 
 // ============================================================================
@@ -122,6 +150,8 @@ export interface Observation {
   prompt_number: number;
   created_at: string;
   created_at_epoch: number;
+  tags?: string[];
+  favorite?: { note: string | null; pinned: boolean } | null;
 }
 
 export interface Summary {
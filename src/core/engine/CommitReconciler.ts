@@ -0,0 +1,99 @@
+/**
+ * CommitReconciler: Map observations to the commits that contained their changes
+ *
+ * Responsibility:
+ * - Find observations with captured git state whose files_modified are not yet linked to a commit
+ * - Walk commits made since each observation's HEAD and pick the first one touching each file
+ * - Record the mappings in observation_commits
+ *
+ * Runs after a session summary is stored. Observations whose changes are still
+ * uncommitted stay unreconciled and are retried on later runs, up to
+ * MAX_RECONCILE_ATTEMPTS times.
+ */
+
+import path from 'path';
+import type { SessionStore } from '../storage/DataStore.js';
+import type { ObservationRecord } from '../../types/database.js';
+import { getGitHeadState, findFirstCommitsTouchingFiles } from '../../utils/worktree.js';
+import { logger } from '../../utils/logger.js';
+
+// Each observation costs two git calls: only the most recent few are checked per run
+const MAX_OBSERVATIONS_PER_RUN = 25;
+
+// Changes still uncommitted after this many summaries are unlikely to be committed as-is
+export const MAX_RECONCILE_ATTEMPTS = 10;
+
+export interface ReconcileResult {
+  checked: number;
+  reconciled: number;
+  links: number;
+}
+
+/**
+ * Convert an observation's files_modified into repo-relative paths,
+ * dropping anything outside the repository
+ */
+function toRepoRelativePaths(row: ObservationRecord, repoRoot: string): string[] {
+  let files: unknown;
+  try {
+    files = JSON.parse(row.files_modified ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(files)) return [];
+
+  const relative = files
+    .map(String)
+    .map(file => path.isAbsolute(file) ? path.relative(repoRoot, file) : path.normalize(file))
+    .filter(file => file && !file.startsWith('..') && !path.isAbsolute(file))
+    .map(file => file.split(path.sep).join('/'));
+
+  return Array.from(new Set(relative));
+}
+
+/**
+ * Link a project's unreconciled observations to the commits containing their file changes.
+ *
+ * @param store - Session store
+ * @param project - Project whose observations to reconcile
+ * @param cwd - Any directory inside the project's repository
+ */
+export async function reconcileObservationCommits(store: SessionStore, project: string, cwd: string): Promise<ReconcileResult> {
+  const result: ReconcileResult = { checked: 0, reconciled: 0, links: 0 };
+
+  const head = await getGitHeadState(cwd);
+  if (!head) {
+    return result;
+  }
+
+  for (const row of store.getUnreconciledObservations(project, MAX_OBSERVATIONS_PER_RUN, MAX_RECONCILE_ATTEMPTS)) {
+    result.checked++;
+
+    const files = toRepoRelativePaths(row, head.repoRoot);
+    if (files.length === 0 || !row.git_head_sha) {
+      // Nothing in this repository to look for
+      store.recordReconcileAttempt(row.id, MAX_RECONCILE_ATTEMPTS);
+      continue;
+    }
+
+    const firstCommits = await findFirstCommitsTouchingFiles(head.repoRoot, row.git_head_sha, files);
+    // Not committed yet, base rebased away, or git failed: retried on later runs
+    if (!firstCommits || firstCommits.size === 0) {
+      store.recordReconcileAttempt(row.id);
+      continue;
+    }
+
+    result.reconciled++;
+    for (const sha of new Set(firstCommits.values())) {
+      if (store.addObservationCommit(row.id, sha)) {
+        result.links++;
+      }
+    }
+  }
+
+  if (result.links > 0) {
+    logger.info('DB', 'Reconciled observations with commits', { project, ...result });
+  }
+
+  return result;
+}
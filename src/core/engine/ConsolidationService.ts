@@ -0,0 +1,387 @@
+/**
+ * ConsolidationService: Memory decay and consolidation
+ *
+ * Responsibility:
+ * - Cluster redundant observations per project (shared files/concepts + vector similarity)
+ * - Ask the configured agent to write one consolidated observation per cluster
+ * - Mark the originals as superseded_by the new observation (kept for auditing,
+ *   excluded from context injection)
+ * - Optionally run as a periodic background pass in the worker
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { LocalEmbedder } from '../vector/LocalEmbedder.js';
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { ModeManager } from '../domain/ModeManager.js';
+import { buildConsolidationPrompt } from '../../parser/prompts.js';
+import { parseObservations } from '../../parser/parser.js';
+import type { ParsedObservation } from '../../parser/parser.js';
+import type { ObservationRecord } from '../../types/database.js';
+import type { CompletionAgent } from './agents/index.js';
+import { isGeminiAvailable, isGeminiSelected } from './GeminiAgent.js';
+import { isOpenRouterAvailable, isOpenRouterSelected } from './OpenRouterAgent.js';
+import { isOpenAICompatibleAvailable, isOpenAICompatibleSelected } from './OpenAICompatibleAgent.js';
+import { logger } from '../../utils/logger.js';
+
+// Bounds that keep a pass cheap: pairwise comparison is O(n^2) per project,
+// and every cluster costs one agent call
+const MAX_CANDIDATES_PER_PROJECT = 500;
+const MAX_CLUSTER_SIZE = 12;
+const DEFAULT_MAX_CLUSTERS = 10;
+
+export interface ClusterOptions {
+  minClusterSize: number;
+  similarityThreshold: number;
+}
+
+export interface ConsolidationOptions {
+  project?: string;
+  dryRun?: boolean;
+  maxClusters?: number;
+}
+
+export interface ConsolidationCluster {
+  project: string;
+  observationIds: number[];
+  titles: Array<string | null>;
+  consolidatedId?: number;
+  consolidatedTitle?: string | null;
+  error?: string;
+}
+
+export interface ConsolidationReport {
+  dryRun: boolean;
+  projectsScanned: number;
+  observationsScanned: number;
+  clusters: ConsolidationCluster[];
+  consolidated: number;
+  superseded: number;
+}
+
+export interface ConsolidationAgents {
+  sdk: CompletionAgent;
+  gemini: CompletionAgent;
+  openRouter: CompletionAgent;
+  openAICompatible: CompletionAgent;
+}
+
+/**
+ * Parse a JSON array column, tolerating null and malformed values
+ */
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert a stored observation row back into parsed form
+ */
+function toParsedObservation(row: ObservationRecord): ParsedObservation {
+  return {
+    type: row.type,
+    title: row.title ?? null,
+    subtitle: row.subtitle ?? null,
+    facts: parseJsonArray(row.facts),
+    narrative: row.narrative ?? null,
+    concepts: parseJsonArray(row.concepts),
+    files_read: parseJsonArray(row.files_read),
+    files_modified: parseJsonArray(row.files_modified)
+  };
+}
+
+function overlaps(a: Set<string>, b: Set<string>): boolean {
+  for (const value of a) {
+    if (b.has(value)) return true;
+  }
+  return false;
+}
+
+/**
+ * Group observations into clusters of redundant memories.
+ *
+ * Two observations are linked when they touch a common file or share a concept
+ * AND their text embeddings are at least `similarityThreshold` cosine-similar.
+ * Clusters are the connected components of that graph with at least
+ * `minClusterSize` members, newest observations first.
+ */
+export function clusterObservations(
+  observations: ObservationRecord[],
+  options: ClusterOptions,
+  embedder: LocalEmbedder = new LocalEmbedder()
+): ObservationRecord[][] {
+  const features = observations.map(row => {
+    const parsed = toParsedObservation(row);
+    return {
+      files: new Set([...parsed.files_modified, ...parsed.files_read]),
+      concepts: new Set(parsed.concepts),
+      vector: embedder.embed([parsed.title, parsed.subtitle, parsed.narrative, ...parsed.facts].filter(Boolean).join('\n'))
+    };
+  });
+
+  // Union-find over linked pairs
+  const parent = observations.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < observations.length; i++) {
+    for (let j = i + 1; j < observations.length; j++) {
+      const a = features[i];
+      const b = features[j];
+      if (!overlaps(a.files, b.files) && !overlaps(a.concepts, b.concepts)) continue;
+      if (LocalEmbedder.cosine(a.vector, b.vector) < options.similarityThreshold) continue;
+      parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, ObservationRecord[]>();
+  observations.forEach((row, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? [];
+    group.push(row);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length >= options.minClusterSize)
+    .map(group => group
+      .sort((a, b) => b.created_at_epoch - a.created_at_epoch)
+      .slice(0, MAX_CLUSTER_SIZE));
+}
+
+export class ConsolidationService {
+  private dbManager: DatabaseManager;
+  private agents: ConsolidationAgents;
+  private running: boolean = false;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(dbManager: DatabaseManager, agents: ConsolidationAgents) {
+    this.dbManager = dbManager;
+    this.agents = agents;
+  }
+
+  /**
+   * Whether a consolidation pass is currently in progress
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start the periodic background pass if enabled in settings
+   */
+  start(): void {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    if (settings.MOLTBRAIN_CONSOLIDATION_ENABLED !== 'true') {
+      return;
+    }
+
+    const hours = parseFloat(settings.MOLTBRAIN_CONSOLIDATION_INTERVAL_HOURS);
+    const intervalMs = (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+
+    this.timer = setInterval(() => {
+      if (this.running) return;
+      this.run().catch(error => {
+        logger.error('WORKER', 'Background consolidation failed', {}, error as Error);
+      });
+    }, intervalMs);
+    this.timer.unref?.();
+
+    logger.info('WORKER', 'Memory consolidation scheduled', { intervalHours: intervalMs / 3600000 });
+  }
+
+  /**
+   * Stop the periodic background pass
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one consolidation pass.
+   * In dry-run mode clusters are reported but no agent is called and nothing is written.
+   */
+  async run(options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
+    if (this.running) {
+      throw new Error('Consolidation already in progress');
+    }
+
+    this.running = true;
+    try {
+      return await this.runPass(options);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async runPass(options: ConsolidationOptions): Promise<ConsolidationReport> {
+    const dryRun = options.dryRun ?? false;
+    const maxClusters = options.maxClusters ?? DEFAULT_MAX_CLUSTERS;
+    const clusterOptions = this.getClusterOptions();
+    const store = this.dbManager.getSessionStore();
+
+    const projects = options.project ? [options.project] : store.getAllProjects();
+    const report: ConsolidationReport = {
+      dryRun,
+      projectsScanned: projects.length,
+      observationsScanned: 0,
+      clusters: [],
+      consolidated: 0,
+      superseded: 0
+    };
+
+    for (const project of projects) {
+      const candidates = store.getActiveObservations(project, MAX_CANDIDATES_PER_PROJECT);
+      report.observationsScanned += candidates.length;
+
+      for (const group of clusterObservations(candidates, clusterOptions)) {
+        if (report.clusters.length >= maxClusters) break;
+
+        const cluster: ConsolidationCluster = {
+          project,
+          observationIds: group.map(row => row.id),
+          titles: group.map(row => row.title ?? null)
+        };
+        report.clusters.push(cluster);
+
+        if (dryRun) continue;
+
+        try {
+          const consolidated = await this.consolidateCluster(project, group);
+          cluster.consolidatedId = consolidated.id;
+          cluster.consolidatedTitle = consolidated.title;
+          report.consolidated++;
+          report.superseded += group.length;
+        } catch (error) {
+          cluster.error = error instanceof Error ? error.message : String(error);
+          logger.warn('WORKER', 'Failed to consolidate cluster', {
+            project,
+            observationIds: cluster.observationIds
+          }, error as Error);
+        }
+      }
+    }
+
+    logger.info('WORKER', 'Consolidation pass complete', {
+      dryRun,
+      projects: report.projectsScanned,
+      observations: report.observationsScanned,
+      clusters: report.clusters.length,
+      consolidated: report.consolidated,
+      superseded: report.superseded
+    });
+
+    return report;
+  }
+
+  /**
+   * Ask the agent for a merged observation, store it and supersede the originals
+   */
+  private async consolidateCluster(
+    project: string,
+    group: ObservationRecord[]
+  ): Promise<{ id: number; title: string | null }> {
+    const mode = ModeManager.getInstance().getActiveMode();
+    const prompt = buildConsolidationPrompt(
+      project,
+      group.map(row => ({ ...toParsedObservation(row), id: row.id, created_at: row.created_at })),
+      mode
+    );
+
+    const response = await this.selectAgent().complete(prompt);
+    const [merged] = parseObservations(response, `consolidation:${project}`);
+    if (!merged) {
+      throw new Error('Agent response did not contain an observation');
+    }
+
+    // Attribute the merged observation to the most recent original's session
+    const memorySessionId = group[0].memory_session_id;
+    const { id, createdAtEpoch } = this.dbManager.getSessionStore().storeConsolidatedObservation(
+      memorySessionId,
+      project,
+      merged,
+      group.map(row => row.id)
+    );
+
+    this.dbManager.getVectorBackend().syncObservation(
+      id, memorySessionId, project, merged, 0, createdAtEpoch
+    ).catch(error => {
+      logger.error('VECTOR', 'Failed to sync consolidated observation', { observationId: id }, error as Error);
+    });
+
+    return { id, title: merged.title };
+  }
+
+  /**
+   * Use the same provider that processes sessions, falling back to Claude
+   */
+  private selectAgent(): CompletionAgent {
+    if (isOpenAICompatibleSelected() && isOpenAICompatibleAvailable()) {
+      return this.agents.openAICompatible;
+    }
+    if (isOpenRouterSelected() && isOpenRouterAvailable()) {
+      return this.agents.openRouter;
+    }
+    if (isGeminiSelected() && isGeminiAvailable()) {
+      return this.agents.gemini;
+    }
+    return this.agents.sdk;
+  }
+
+  private getClusterOptions(): ClusterOptions {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    const minClusterSize = parseInt(settings.MOLTBRAIN_CONSOLIDATION_MIN_CLUSTER_SIZE, 10);
+    const similarityThreshold = parseFloat(settings.MOLTBRAIN_CONSOLIDATION_SIMILARITY);
+
+    return {
+      minClusterSize: Number.isFinite(minClusterSize) && minClusterSize >= 2 ? minClusterSize : 3,
+      similarityThreshold: Number.isFinite(similarityThreshold) ? similarityThreshold : 0.6
+    };
+  }
+}
+
+/**
+ * Render a consolidation report for the CLI
+ */
+export function formatConsolidationReport(report: ConsolidationReport): string {
+  const lines: string[] = [
+    report.dryRun ? 'Consolidation dry run (nothing written)' : 'Consolidation complete',
+    `  Projects scanned:     ${report.projectsScanned}`,
+    `  Observations scanned: ${report.observationsScanned}`,
+    `  Clusters found:       ${report.clusters.length}`
+  ];
+
+  if (!report.dryRun) {
+    lines.push(`  Consolidated:         ${report.consolidated}`);
+    lines.push(`  Superseded:           ${report.superseded}`);
+  }
+
+  for (const cluster of report.clusters) {
+    const outcome = cluster.error
+      ? `failed: ${cluster.error}`
+      : cluster.consolidatedId !== undefined
+        ? `-> #${cluster.consolidatedId} ${cluster.consolidatedTitle ?? ''}`.trimEnd()
+        : 'would merge';
+
+    lines.push('');
+    lines.push(`[${cluster.project}] ${cluster.observationIds.length} observations ${outcome}`);
+    cluster.observationIds.forEach((id, i) => {
+      lines.push(`  #${id} ${cluster.titles[i] ?? '(untitled)'}`);
+    });
+  }
+
+  return lines.join('\n');
+}
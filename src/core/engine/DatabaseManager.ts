@@ -5,19 +5,22 @@
  * - Manage single database connection for worker lifetime
  * - Provide centralized access to SessionStore and SessionSearch
  * - High-level database operations
- * - ChromaSync integration
+ * - Vector backend integration (Chroma or in-process SQLite)
  */
 
 import { SessionStore } from '../storage/DataStore.js';
 import { SessionSearch } from '../storage/SessionSearch.js';
-import { ChromaSync } from '../vector/VectorSync.js';
+import { createVectorBackend, resolveVectorBackendName } from '../vector/VectorBackend.js';
+import type { VectorBackend } from '../vector/VectorBackend.js';
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
 import { logger } from '../../utils/logger.js';
 import type { DBSession } from '../engine-types.js';
 
 export class DatabaseManager {
   private sessionStore: SessionStore | null = null;
   private sessionSearch: SessionSearch | null = null;
-  private chromaSync: ChromaSync | null = null;
+  private vectorBackend: VectorBackend | null = null;
 
   /**
    * Initialize database connection (once, stays open)
@@ -27,20 +30,29 @@ export class DatabaseManager {
     this.sessionStore = new SessionStore();
     this.sessionSearch = new SessionSearch();
 
-    // Initialize ChromaSync (lazy - connects on first search, not at startup)
-    this.chromaSync = new ChromaSync('claude-recall');
+    // Initialize vector backend (Chroma connects lazily on first search, not at startup)
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    const backendName = resolveVectorBackendName(settings);
+    this.vectorBackend = createVectorBackend(backendName, 'claude-recall', this.sessionStore.db);
 
-    logger.info('DB', 'Database initialized');
+    // The in-process backend needs no subprocess, so index rows written before it was enabled
+    if (backendName === 'sqlite') {
+      this.vectorBackend.ensureBackfilled().catch(error => {
+        logger.error('VECTOR', 'SQLite vector backfill failed', {}, error as Error);
+      });
+    }
+
+    logger.info('DB', 'Database initialized', { vectorBackend: backendName });
   }
 
   /**
    * Close database connection and cleanup all resources
    */
   async close(): Promise<void> {
-    // Close ChromaSync first (terminates uvx/python processes)
-    if (this.chromaSync) {
-      await this.chromaSync.close();
-      this.chromaSync = null;
+    // Close vector backend first (terminates uvx/python processes for Chroma)
+    if (this.vectorBackend) {
+      await this.vectorBackend.close();
+      this.vectorBackend = null;
     }
 
     if (this.sessionStore) {
@@ -82,13 +94,20 @@ export class DatabaseManager {
   }
 
   /**
-   * Get ChromaSync instance (throws if not initialized)
+   * Get the configured vector backend (throws if not initialized)
    */
-  getChromaSync(): ChromaSync {
-    if (!this.chromaSync) {
-      throw new Error('ChromaSync not initialized');
+  getVectorBackend(): VectorBackend {
+    if (!this.vectorBackend) {
+      throw new Error('Vector backend not initialized');
     }
-    return this.chromaSync;
+    return this.vectorBackend;
+  }
+
+  /**
+   * @deprecated Use getVectorBackend() - kept for existing callers
+   */
+  getChromaSync(): VectorBackend {
+    return this.getVectorBackend();
   }
 
   // REMOVED: cleanupOrphanedSessions - violates "EVERYTHING SHOULD SAVE ALWAYS"
@@ -104,6 +123,9 @@ export class DatabaseManager {
     memory_session_id: string | null;
     project: string;
     user_prompt: string;
+    mode_id: string | null;
+    namespace_channel: string | null;
+    namespace_user: string | null;
   } {
     const session = this.getSessionStore().getSessionById(sessionDbId);
     if (!session) {
@@ -24,7 +24,8 @@ import {
   shouldFallbackToClaude,
   isAbortError,
   type WorkerRef,
-  type FallbackAgent
+  type FallbackAgent,
+  type ProviderHealthReporter
 } from './agents/index.js';
 
 // Gemini API endpoint
@@ -106,6 +107,7 @@ export class GeminiAgent {
   private dbManager: DatabaseManager;
   private sessionManager: SessionManager;
   private fallbackAgent: FallbackAgent | null = null;
+  private healthReporter: ProviderHealthReporter | null = null;
 
   constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
     this.dbManager = dbManager;
@@ -120,6 +122,14 @@ export class GeminiAgent {
     this.fallbackAgent = agent;
   }
 
+  /**
+   * Set the provider router that receives latency samples and decides
+   * when this session should move to a healthier provider
+   */
+  setHealthReporter(reporter: ProviderHealthReporter): void {
+    this.healthReporter = reporter;
+  }
+
   /**
    * Start Gemini agent for a session
    * Uses multi-turn conversation to maintain context across messages
@@ -133,8 +143,8 @@ export class GeminiAgent {
         throw new Error('Gemini API key not configured. Set CLAUDE_RECALL_GEMINI_API_KEY in settings or GEMINI_API_KEY environment variable.');
       }
 
-      // Load active mode
-      const mode = ModeManager.getInstance().getActiveMode();
+      // Load the mode the session is bound to
+      const mode = ModeManager.getInstance().getMode(session.modeId);
 
       // Build initial prompt
       const initPrompt = session.lastPromptNumber === 1
@@ -265,6 +275,11 @@ export class GeminiAgent {
             lastCwd
           );
         }
+
+        // Between messages: let the router move the session to a healthier provider
+        if (this.healthReporter?.shouldHandOff(session, 'gemini')) {
+          break;
+        }
       }
 
       // Mark session complete
@@ -299,6 +314,20 @@ export class GeminiAgent {
     }
   }
 
+  /**
+   * Answer a single prompt without session state (used by the consolidation job)
+   */
+  async complete(prompt: string): Promise<string> {
+    const { apiKey, model, rateLimitingEnabled } = this.getGeminiConfig();
+
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured. Set CLAUDE_RECALL_GEMINI_API_KEY in settings or GEMINI_API_KEY environment variable.');
+    }
+
+    const response = await this.queryGeminiMultiTurn([{ role: 'user', content: prompt }], apiKey, model, rateLimitingEnabled);
+    return response.content;
+  }
+
   /**
    * Convert shared ConversationMessage array to Gemini's contents format
    * Maps 'assistant' role to 'model' for Gemini API compatibility
@@ -333,6 +362,7 @@ export class GeminiAgent {
     // Enforce RPM rate limit for free tier (skipped if rate limiting disabled)
     await enforceRateLimitForModel(model, rateLimitingEnabled);
 
+    const startedAt = Date.now();
     const response = await fetch(url, {
       method: 'POST',
       headers: {
@@ -353,6 +383,7 @@ export class GeminiAgent {
     }
 
     const data = await response.json() as GeminiResponse;
+    this.healthReporter?.recordSuccess('gemini', Date.now() - startedAt);
 
     if (!data.candidates?.[0]?.content?.parts?.[0]?.text) {
       logger.error('SDK', 'Empty response from Gemini');
@@ -0,0 +1,339 @@
+/**
+ * OpenAICompatibleAgent: Local OpenAI-compatible observation extraction
+ *
+ * Alternative to SDKAgent that targets any OpenAI-compatible
+ * /v1/chat/completions endpoint (Ollama, llama.cpp server, LM Studio, vLLM)
+ * so observations can be generated fully offline.
+ *
+ * Responsibility:
+ * - Call the local chat completions endpoint for observation extraction
+ * - Parse XML responses (same format as Claude/Gemini/OpenRouter)
+ * - Keep conversation history within the configured window
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SessionManager } from './SessionManager.js';
+import { logger } from '../../utils/logger.js';
+import { buildInitPrompt, buildObservationPrompt, buildSummaryPrompt, buildContinuationPrompt } from '../../parser/prompts.js';
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import type { ActiveSession, ConversationMessage } from '../engine-types.js';
+import { ModeManager } from '../domain/ModeManager.js';
+import {
+  processAgentResponse,
+  isAbortError,
+  truncateHistory,
+  estimateTokens,
+  type WorkerRef,
+  type ProviderHealthReporter
+} from './agents/index.js';
+
+// Context window defaults (local models usually have far smaller windows than hosted ones)
+const DEFAULT_MAX_CONTEXT_MESSAGES = 20;
+const DEFAULT_MAX_ESTIMATED_TOKENS = 32000;
+// Local models on CPU can take minutes per answer; a hung server must not block the session forever
+const DEFAULT_REQUEST_TIMEOUT_MS = 300000;
+
+interface OpenAIMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      role?: string;
+      content?: string;
+    };
+    finish_reason?: string;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+  error?: {
+    message?: string;
+    code?: string;
+  } | string;
+}
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  maxContextMessages: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+/**
+ * Build the chat completions URL from a base URL.
+ * Accepts both `http://host:port` and `http://host:port/v1`.
+ */
+export function buildChatCompletionsUrl(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, '');
+  if (trimmed.endsWith('/chat/completions')) {
+    return trimmed;
+  }
+  return trimmed.endsWith('/v1') ? `${trimmed}/chat/completions` : `${trimmed}/v1/chat/completions`;
+}
+
+export class OpenAICompatibleAgent {
+  private dbManager: DatabaseManager;
+  private sessionManager: SessionManager;
+  private healthReporter: ProviderHealthReporter | null = null;
+
+  constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
+    this.dbManager = dbManager;
+    this.sessionManager = sessionManager;
+  }
+
+  /**
+   * Set the provider router that receives latency samples and decides
+   * when this session should move to a healthier provider
+   */
+  setHealthReporter(reporter: ProviderHealthReporter): void {
+    this.healthReporter = reporter;
+  }
+
+  /**
+   * Start the local agent for a session
+   * Uses multi-turn conversation to maintain context across messages
+   */
+  async startSession(session: ActiveSession, worker?: WorkerRef): Promise<void> {
+    const config = this.getConfig();
+
+    try {
+      if (!config.baseUrl || !config.model) {
+        throw new Error('OpenAI-compatible provider not configured. Set MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL and MOLTBRAIN_OPENAI_COMPATIBLE_MODEL in settings.');
+      }
+
+      // Load the mode the session is bound to
+      const mode = ModeManager.getInstance().getMode(session.modeId);
+
+      // Build initial prompt
+      const initPrompt = session.lastPromptNumber === 1
+        ? buildInitPrompt(session.project, session.contentSessionId, session.userPrompt, mode)
+        : buildContinuationPrompt(session.userPrompt, session.lastPromptNumber, session.contentSessionId, mode);
+
+      await this.queryAndProcess(initPrompt, session, config, worker, { originalTimestamp: null, isInit: true });
+
+      // Track lastCwd from messages for CLAUDE.md generation
+      let lastCwd: string | undefined;
+
+      // Process pending messages
+      for await (const message of this.sessionManager.getMessageIterator(session.sessionDbId)) {
+        // Capture cwd from messages for proper worktree support
+        if (message.cwd) {
+          lastCwd = message.cwd;
+        }
+        // Capture earliest timestamp BEFORE processing (will be cleared after)
+        const originalTimestamp = session.earliestPendingTimestamp;
+
+        if (message.type === 'observation') {
+          // Update last prompt number
+          if (message.prompt_number !== undefined) {
+            session.lastPromptNumber = message.prompt_number;
+          }
+
+          const obsPrompt = buildObservationPrompt({
+            id: 0,
+            tool_name: message.tool_name!,
+            tool_input: JSON.stringify(message.tool_input),
+            tool_output: JSON.stringify(message.tool_response),
+            created_at_epoch: originalTimestamp ?? Date.now(),
+            cwd: message.cwd
+          });
+
+          await this.queryAndProcess(obsPrompt, session, config, worker, { originalTimestamp, lastCwd });
+
+        } else if (message.type === 'summarize') {
+          const summaryPrompt = buildSummaryPrompt({
+            id: session.sessionDbId,
+            memory_session_id: session.memorySessionId,
+            project: session.project,
+            user_prompt: session.userPrompt,
+            last_assistant_message: message.last_assistant_message || ''
+          }, mode);
+
+          await this.queryAndProcess(summaryPrompt, session, config, worker, { originalTimestamp, lastCwd });
+        }
+
+        // Between messages: let the router move the session to a healthier provider
+        if (this.healthReporter?.shouldHandOff(session, 'openai-compatible')) {
+          break;
+        }
+      }
+
+      // Mark session complete
+      const sessionDuration = Date.now() - session.startTime;
+      logger.success('SDK', 'OpenAI-compatible agent completed', {
+        sessionId: session.sessionDbId,
+        duration: `${(sessionDuration / 1000).toFixed(1)}s`,
+        historyLength: session.conversationHistory.length,
+        model: config.model
+      });
+
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        logger.warn('SDK', 'OpenAI-compatible agent aborted', { sessionId: session.sessionDbId });
+        throw error;
+      }
+
+      logger.failure('SDK', 'OpenAI-compatible agent error', { sessionDbId: session.sessionDbId, baseUrl: config.baseUrl }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a single prompt without session state (used by the consolidation job)
+   */
+  async complete(prompt: string): Promise<string> {
+    const config = this.getConfig();
+    const response = await this.queryMultiTurn([{ role: 'user', content: prompt }], config);
+    return response.content;
+  }
+
+  /**
+   * Append a prompt to the shared history, query the endpoint and hand the
+   * response to the shared ResponseProcessor. An empty init response is
+   * skipped (nothing was queued yet); empty message responses are still processed.
+   */
+  private async queryAndProcess(
+    prompt: string,
+    session: ActiveSession,
+    config: OpenAICompatibleConfig,
+    worker: WorkerRef | undefined,
+    turn: { originalTimestamp: number | null; lastCwd?: string; isInit?: boolean }
+  ): Promise<void> {
+    session.conversationHistory.push({ role: 'user', content: prompt });
+    const response = await this.queryMultiTurn(session.conversationHistory, config);
+
+    let tokensUsed = 0;
+    if (response.content) {
+      session.conversationHistory.push({ role: 'assistant', content: response.content });
+
+      tokensUsed = response.tokensUsed || 0;
+      session.cumulativeInputTokens += Math.floor(tokensUsed * 0.7);  // Rough estimate
+      session.cumulativeOutputTokens += Math.floor(tokensUsed * 0.3);
+    } else if (turn.isInit) {
+      logger.error('SDK', 'Empty OpenAI-compatible init response - session may lack context', {
+        sessionId: session.sessionDbId,
+        model: config.model
+      });
+      return;
+    }
+
+    await processAgentResponse(
+      response.content || '',
+      session,
+      this.dbManager,
+      this.sessionManager,
+      worker,
+      tokensUsed,
+      turn.originalTimestamp,
+      'OpenAI-compatible',
+      turn.lastCwd
+    );
+  }
+
+  /**
+   * Query the chat completions endpoint with the (truncated) conversation history
+   */
+  private async queryMultiTurn(
+    history: ConversationMessage[],
+    config: OpenAICompatibleConfig
+  ): Promise<{ content: string; tokensUsed?: number }> {
+    const truncatedHistory = truncateHistory(history, {
+      maxMessages: config.maxContextMessages,
+      maxTokens: config.maxTokens
+    });
+    const messages: OpenAIMessage[] = truncatedHistory.map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content
+    }));
+
+    logger.debug('SDK', `Querying OpenAI-compatible endpoint (${config.model})`, {
+      turns: truncatedHistory.length,
+      estimatedTokens: estimateTokens(truncatedHistory.map(m => m.content).join(''))
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(buildChatCompletionsUrl(config.baseUrl), {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          messages,
+          temperature: 0.3,  // Lower temperature for structured extraction
+          max_tokens: 4096,
+          stream: false
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`OpenAI-compatible endpoint did not answer within ${config.timeoutMs}ms`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorText}`);
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+
+    if (data.error) {
+      const detail = typeof data.error === 'string' ? data.error : `${data.error.code ?? ''} ${data.error.message ?? ''}`.trim();
+      throw new Error(`OpenAI-compatible API error: ${detail}`);
+    }
+    this.healthReporter?.recordSuccess('openai-compatible', Date.now() - startedAt);
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      logger.error('SDK', 'Empty response from OpenAI-compatible endpoint');
+      return { content: '' };
+    }
+
+    return { content, tokensUsed: data.usage?.total_tokens };
+  }
+
+  private getConfig(): OpenAICompatibleConfig {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+
+    return {
+      baseUrl: settings.MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL,
+      model: settings.MOLTBRAIN_OPENAI_COMPATIBLE_MODEL,
+      apiKey: settings.MOLTBRAIN_OPENAI_COMPATIBLE_API_KEY,
+      maxContextMessages: parseInt(settings.MOLTBRAIN_OPENAI_COMPATIBLE_MAX_CONTEXT_MESSAGES) || DEFAULT_MAX_CONTEXT_MESSAGES,
+      maxTokens: parseInt(settings.MOLTBRAIN_OPENAI_COMPATIBLE_MAX_TOKENS) || DEFAULT_MAX_ESTIMATED_TOKENS,
+      timeoutMs: parseInt(settings.MOLTBRAIN_OPENAI_COMPATIBLE_TIMEOUT_MS) || DEFAULT_REQUEST_TIMEOUT_MS
+    };
+  }
+}
+
+/**
+ * Check if the OpenAI-compatible provider is configured (base URL and model set)
+ */
+export function isOpenAICompatibleAvailable(): boolean {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  return !!(settings.MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL && settings.MOLTBRAIN_OPENAI_COMPATIBLE_MODEL);
+}
+
+/**
+ * Check if the OpenAI-compatible provider is the selected provider
+ */
+export function isOpenAICompatibleSelected(): boolean {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  return settings.MOLTBRAIN_PROVIDER === 'openai-compatible';
+}
@@ -23,8 +23,11 @@ import {
   processAgentResponse,
   shouldFallbackToClaude,
   isAbortError,
+  truncateHistory,
+  estimateTokens,
   type WorkerRef,
-  type FallbackAgent
+  type FallbackAgent,
+  type ProviderHealthReporter
 } from './agents/index.js';
 
 // OpenRouter API endpoint
@@ -33,7 +36,6 @@ const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
 // Context window management constants (defaults, overridable via settings)
 const DEFAULT_MAX_CONTEXT_MESSAGES = 20;  // Maximum messages to keep in conversation history
 const DEFAULT_MAX_ESTIMATED_TOKENS = 100000;  // ~100k tokens max context (safety limit)
-const CHARS_PER_TOKEN_ESTIMATE = 4;  // Conservative estimate: 1 token = 4 chars
 
 // OpenAI-compatible message format
 interface OpenAIMessage {
@@ -64,6 +66,7 @@ export class OpenRouterAgent {
   private dbManager: DatabaseManager;
   private sessionManager: SessionManager;
   private fallbackAgent: FallbackAgent | null = null;
+  private healthReporter: ProviderHealthReporter | null = null;
 
   constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
     this.dbManager = dbManager;
@@ -78,6 +81,14 @@ export class OpenRouterAgent {
     this.fallbackAgent = agent;
   }
 
+  /**
+   * Set the provider router that receives latency samples and decides
+   * when this session should move to a healthier provider
+   */
+  setHealthReporter(reporter: ProviderHealthReporter): void {
+    this.healthReporter = reporter;
+  }
+
   /**
    * Start OpenRouter agent for a session
    * Uses multi-turn conversation to maintain context across messages
@@ -91,8 +102,8 @@ export class OpenRouterAgent {
         throw new Error('OpenRouter API key not configured. Set CLAUDE_RECALL_OPENROUTER_API_KEY in settings or OPENROUTER_API_KEY environment variable.');
       }
 
-      // Load active mode
-      const mode = ModeManager.getInstance().getActiveMode();
+      // Load the mode the session is bound to
+      const mode = ModeManager.getInstance().getMode(session.modeId);
 
       // Build initial prompt
       const initPrompt = session.lastPromptNumber === 1
@@ -223,6 +234,11 @@ export class OpenRouterAgent {
             lastCwd
           );
         }
+
+        // Between messages: let the router move the session to a healthier provider
+        if (this.healthReporter?.shouldHandOff(session, 'openrouter')) {
+          break;
+        }
       }
 
       // Mark session complete
@@ -259,10 +275,17 @@ export class OpenRouterAgent {
   }
 
   /**
-   * Estimate token count from text (conservative estimate)
+   * Answer a single prompt without session state (used by the consolidation job)
    */
-  private estimateTokens(text: string): number {
-    return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+  async complete(prompt: string): Promise<string> {
+    const { apiKey, model, siteUrl, appName } = this.getOpenRouterConfig();
+
+    if (!apiKey) {
+      throw new Error('OpenRouter API key not configured. Set CLAUDE_RECALL_OPENROUTER_API_KEY in settings or OPENROUTER_API_KEY environment variable.');
+    }
+
+    const response = await this.queryOpenRouterMultiTurn([{ role: 'user', content: prompt }], apiKey, model, siteUrl, appName);
+    return response.content;
   }
 
   /**
@@ -272,42 +295,10 @@ export class OpenRouterAgent {
   private truncateHistory(history: ConversationMessage[]): ConversationMessage[] {
     const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
 
-    const MAX_CONTEXT_MESSAGES = parseInt(settings.CLAUDE_RECALL_OPENROUTER_MAX_CONTEXT_MESSAGES) || DEFAULT_MAX_CONTEXT_MESSAGES;
-    const MAX_ESTIMATED_TOKENS = parseInt(settings.CLAUDE_RECALL_OPENROUTER_MAX_TOKENS) || DEFAULT_MAX_ESTIMATED_TOKENS;
-
-    if (history.length <= MAX_CONTEXT_MESSAGES) {
-      // Check token count even if message count is ok
-      const totalTokens = history.reduce((sum, m) => sum + this.estimateTokens(m.content), 0);
-      if (totalTokens <= MAX_ESTIMATED_TOKENS) {
-        return history;
-      }
-    }
-
-    // Sliding window: keep most recent messages within limits
-    const truncated: ConversationMessage[] = [];
-    let tokenCount = 0;
-
-    // Process messages in reverse (most recent first)
-    for (let i = history.length - 1; i >= 0; i--) {
-      const msg = history[i];
-      const msgTokens = this.estimateTokens(msg.content);
-
-      if (truncated.length >= MAX_CONTEXT_MESSAGES || tokenCount + msgTokens > MAX_ESTIMATED_TOKENS) {
-        logger.warn('SDK', 'Context window truncated to prevent runaway costs', {
-          originalMessages: history.length,
-          keptMessages: truncated.length,
-          droppedMessages: i + 1,
-          estimatedTokens: tokenCount,
-          tokenLimit: MAX_ESTIMATED_TOKENS
-        });
-        break;
-      }
-
-      truncated.unshift(msg);  // Add to beginning
-      tokenCount += msgTokens;
-    }
-
-    return truncated;
+    return truncateHistory(history, {
+      maxMessages: parseInt(settings.CLAUDE_RECALL_OPENROUTER_MAX_CONTEXT_MESSAGES) || DEFAULT_MAX_CONTEXT_MESSAGES,
+      maxTokens: parseInt(settings.CLAUDE_RECALL_OPENROUTER_MAX_TOKENS) || DEFAULT_MAX_ESTIMATED_TOKENS
+    });
   }
 
   /**
@@ -335,7 +326,7 @@ export class OpenRouterAgent {
     const truncatedHistory = this.truncateHistory(history);
     const messages = this.conversationToOpenAIMessages(truncatedHistory);
     const totalChars = truncatedHistory.reduce((sum, m) => sum + m.content.length, 0);
-    const estimatedTokens = this.estimateTokens(truncatedHistory.map(m => m.content).join(''));
+    const estimatedTokens = estimateTokens(truncatedHistory.map(m => m.content).join(''));
 
     logger.debug('SDK', `Querying OpenRouter multi-turn (${model})`, {
       turns: truncatedHistory.length,
@@ -343,6 +334,7 @@ export class OpenRouterAgent {
       estimatedTokens
     });
 
+    const startedAt = Date.now();
     const response = await fetch(OPENROUTER_API_URL, {
       method: 'POST',
       headers: {
@@ -370,6 +362,7 @@ export class OpenRouterAgent {
     if (data.error) {
       throw new Error(`OpenRouter API error: ${data.error.code} - ${data.error.message}`);
     }
+    this.healthReporter?.recordSuccess('openrouter', Date.now() - startedAt);
 
     if (!data.choices?.[0]?.message?.content) {
       logger.error('SDK', 'Empty response from OpenRouter');
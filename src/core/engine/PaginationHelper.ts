@@ -9,6 +9,7 @@
 
 import { DatabaseManager } from './DatabaseManager.js';
 import { logger } from '../../utils/logger.js';
+import { decryptRows } from '../storage/FieldEncryption.js';
 import type { PaginatedResult, Observation, Summary, UserPrompt } from '../engine-types.js';
 
 export class PaginationHelper {
@@ -80,10 +81,23 @@ export class PaginationHelper {
       project
     );
 
+    // Attach tags and favorite state for the viewer
+    const store = this.dbManager.getSessionStore();
+    const ids = result.items.map(obs => obs.id);
+    const tagsById = store.getTagsForObservations(ids);
+    const favoritesById = store.getFavoritesForObservations(ids);
+
     // Strip project paths from file paths before returning
     return {
       ...result,
-      items: result.items.map(obs => this.sanitizeObservation(obs))
+      items: result.items.map(obs => {
+        const favorite = favoritesById.get(obs.id);
+        return {
+          ...this.sanitizeObservation(obs),
+          tags: tagsById.get(obs.id) ?? [],
+          favorite: favorite ? { note: favorite.note, pinned: favorite.pinned === 1 } : null
+        };
+      })
     };
   }
 
@@ -119,7 +133,7 @@ export class PaginationHelper {
     params.push(limit + 1, offset);
 
     const stmt = db.prepare(query);
-    const results = stmt.all(...params) as Summary[];
+    const results = decryptRows(stmt.all(...params) as Summary[]);
 
     return {
       items: results.slice(0, limit),
@@ -151,7 +165,7 @@ export class PaginationHelper {
     params.push(limit + 1, offset);
 
     const stmt = db.prepare(query);
-    const results = stmt.all(...params) as UserPrompt[];
+    const results = decryptRows(stmt.all(...params) as UserPrompt[]);
 
     return {
       items: results.slice(0, limit),
@@ -185,7 +199,7 @@ export class PaginationHelper {
     params.push(limit + 1, offset); // Fetch one extra to check hasMore
 
     const stmt = db.prepare(query);
-    const results = stmt.all(...params) as T[];
+    const results = decryptRows(stmt.all(...params) as T[]);
 
     return {
       items: results.slice(0, limit),
@@ -0,0 +1,180 @@
+/**
+ * PromptContextService: Prompt-aware context injection for UserPromptSubmit
+ *
+ * Responsibility:
+ * - Run a fast keyword search against the submitted prompt
+ * - Return the top-K matching observations as additionalContext
+ * - Never inject the same observation twice in one session, nor one the
+ *   session was shown in its SessionStart context
+ * - Stop injecting once the session's token cap is used up
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { CHARS_PER_TOKEN_ESTIMATE } from '../builder/types.js';
+import type { ObservationSearchResult } from '../storage/types.js';
+import type { ObservationRecord } from '../../types/database.js';
+import { logger } from '../../utils/logger.js';
+
+// Extra candidates fetched so de-duplication and filtering still leave K results
+const CANDIDATE_MULTIPLIER = 4;
+// Sessions remembered for de-duplication; the oldest is forgotten first
+const MAX_TRACKED_SESSIONS = 500;
+const MAX_SUBTITLE_CHARS = 160;
+
+export interface PromptContextOptions {
+  enabled: boolean;
+  topK: number;
+  sessionTokenCap: number;
+}
+
+export interface PromptContextRequest {
+  contentSessionId: string;
+  project: string;
+  prompt: string;
+}
+
+export interface PromptContextResult {
+  context: string;
+  observationIds: number[];
+  tokens: number;
+  sessionTokensUsed: number;
+}
+
+interface SessionInjectionState {
+  injectedIds: Set<number>;
+  tokensUsed: number;
+}
+
+type CandidateRow = ObservationSearchResult & Pick<ObservationRecord, 'superseded_by' | 'staleness'>;
+
+/**
+ * Render one observation as a single context line
+ */
+function renderObservationLine(row: ObservationSearchResult): string {
+  const title = row.title || 'Untitled';
+  let subtitle = row.subtitle?.trim() ?? '';
+  if (subtitle.length > MAX_SUBTITLE_CHARS) {
+    subtitle = `${subtitle.slice(0, MAX_SUBTITLE_CHARS - 1)}…`;
+  }
+  return subtitle
+    ? `- #${row.id} [${row.type}] ${title} — ${subtitle}`
+    : `- #${row.id} [${row.type}] ${title}`;
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+export class PromptContextService {
+  private dbManager: DatabaseManager;
+  private sessions: Map<string, SessionInjectionState> = new Map();
+
+  constructor(dbManager: DatabaseManager) {
+    this.dbManager = dbManager;
+  }
+
+  /**
+   * Build additionalContext for a prompt. Returns an empty context when the
+   * feature is disabled, nothing matches, or the session cap is exhausted.
+   */
+  buildContext(
+    request: PromptContextRequest,
+    options: PromptContextOptions = this.getOptions()
+  ): PromptContextResult {
+    const state = this.getSessionState(request.contentSessionId);
+    const empty: PromptContextResult = {
+      context: '',
+      observationIds: [],
+      tokens: 0,
+      sessionTokensUsed: state.tokensUsed
+    };
+
+    if (!options.enabled || options.topK <= 0) {
+      return empty;
+    }
+
+    const header = [
+      '## Relevant observations',
+      'Matched against this prompt. Use get_observations with these IDs for full details.',
+      ''
+    ].join('\n');
+
+    const available = options.sessionTokenCap - state.tokensUsed;
+    let remaining = available - estimateTokens(header);
+    if (remaining <= 0) {
+      return empty;
+    }
+
+    const candidates = this.dbManager.getSessionSearch().searchObservations(request.prompt, {
+      project: request.project,
+      limit: options.topK * CANDIDATE_MULTIPLIER
+    }) as CandidateRow[];
+
+    const shownAtStart = new Set(this.dbManager.getSessionStore().getContextInjectedIds(request.contentSessionId));
+    const lines: string[] = [];
+    const observationIds: number[] = [];
+
+    for (const row of candidates) {
+      if (observationIds.length >= options.topK) break;
+      if (state.injectedIds.has(row.id) || shownAtStart.has(row.id)) continue;
+      if (row.superseded_by != null || row.staleness === 'orphaned') continue;
+
+      const line = renderObservationLine(row);
+      const lineTokens = estimateTokens(line);
+      if (lineTokens > remaining) break;
+
+      lines.push(line);
+      observationIds.push(row.id);
+      remaining -= lineTokens;
+    }
+
+    if (lines.length === 0) {
+      return empty;
+    }
+
+    const context = `${header}${lines.join('\n')}`;
+    const tokens = available - remaining;
+
+    observationIds.forEach(id => state.injectedIds.add(id));
+    state.tokensUsed += tokens;
+
+    logger.debug('WORKER', 'Prompt context built', {
+      contentSessionId: request.contentSessionId,
+      observations: observationIds.length,
+      tokens,
+      sessionTokensUsed: state.tokensUsed
+    });
+
+    return { context, observationIds, tokens, sessionTokensUsed: state.tokensUsed };
+  }
+
+  private getSessionState(contentSessionId: string): SessionInjectionState {
+    let state = this.sessions.get(contentSessionId);
+    if (state) {
+      return state;
+    }
+
+    if (this.sessions.size >= MAX_TRACKED_SESSIONS) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest !== undefined) this.sessions.delete(oldest);
+    }
+
+    state = { injectedIds: new Set(), tokensUsed: 0 };
+    this.sessions.set(contentSessionId, state);
+    return state;
+  }
+
+  private getOptions(): PromptContextOptions {
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+    const topK = parseInt(settings.MOLTBRAIN_PROMPT_CONTEXT_TOP_K, 10);
+    const cap = parseInt(settings.MOLTBRAIN_PROMPT_CONTEXT_SESSION_TOKEN_CAP, 10);
+
+    return {
+      enabled: settings.MOLTBRAIN_PROMPT_CONTEXT_ENABLED === 'true',
+      topK: Number.isFinite(topK) && topK > 0 ? topK : 5,
+      sessionTokenCap: Number.isFinite(cap) && cap > 0 ? cap : 2000
+    };
+  }
+}
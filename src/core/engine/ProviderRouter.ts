@@ -0,0 +1,387 @@
+/**
+ * ProviderRouter: Health-scored failover across observation providers
+ *
+ * Responsibility:
+ * - Read an ordered provider chain from settings (e.g. openrouter,gemini,claude)
+ * - Track per-provider error rates and latencies
+ * - Open a circuit breaker on repeated failures, probe again after a cooldown
+ * - Start each session on the healthiest provider, fail over on provider errors,
+ *   and hand a session over between queued messages when a healthier
+ *   provider becomes routable
+ */
+
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import type { ActiveSession } from '../engine-types.js';
+import {
+  shouldFailover,
+  isAbortError,
+  getErrorMessage,
+  type FallbackAgent,
+  type ProviderName,
+  type ProviderHealthReporter,
+  type WorkerRef
+} from './agents/index.js';
+import { isGeminiAvailable } from './GeminiAgent.js';
+import { isOpenRouterAvailable } from './OpenRouterAgent.js';
+import { isOpenAICompatibleAvailable } from './OpenAICompatibleAgent.js';
+import { logger } from '../../utils/logger.js';
+
+export const PROVIDER_NAMES: readonly ProviderName[] = ['claude', 'gemini', 'openrouter', 'openai-compatible'];
+
+// Outcomes kept per provider for the error rate
+const HEALTH_WINDOW_SIZE = 20;
+// Latency at which a provider's score is halved
+const LATENCY_REFERENCE_MS = 30_000;
+// Earlier providers in the chain win unless a later one scores this much higher
+const SCORE_TOLERANCE = 0.1;
+// Weight of the newest sample in the latency moving average
+const LATENCY_EWMA_ALPHA = 0.3;
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface ProviderHealthSnapshot {
+  provider: ProviderName;
+  available: boolean;
+  circuit: CircuitState;
+  score: number;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  openedAt: number | null;
+}
+
+interface ProviderStats {
+  outcomes: boolean[];
+  requests: number;
+  failures: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  openedAt: number | null;
+  probing: boolean;
+}
+
+/**
+ * Parse an ordered provider chain, dropping unknown names and duplicates
+ */
+export function parseProviderChain(value: string): ProviderName[] {
+  const chain: ProviderName[] = [];
+  for (const raw of value.split(',')) {
+    const name = raw.trim().toLowerCase() as ProviderName;
+    if (PROVIDER_NAMES.includes(name) && !chain.includes(name)) {
+      chain.push(name);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Per-provider health with a consecutive-failure circuit breaker.
+ *
+ * closed    -> routable; opens after `failureThreshold` consecutive failures
+ * open      -> skipped until `cooldownMs` has passed
+ * half-open -> routable for one probe; success closes, failure re-opens
+ */
+export class ProviderHealthTracker {
+  private stats: Map<ProviderName, ProviderStats> = new Map();
+
+  constructor(
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  recordSuccess(provider: ProviderName, latencyMs: number): void {
+    const stats = this.getStats(provider);
+    if (this.getCircuitState(provider) === 'half-open') {
+      logger.info('SDK', 'Provider circuit closed', { provider });
+      stats.outcomes = [];
+      stats.openedAt = null;
+    }
+
+    this.pushOutcome(stats, true);
+    stats.consecutiveFailures = 0;
+    stats.probing = false;
+    stats.avgLatencyMs = stats.avgLatencyMs === null
+      ? latencyMs
+      : LATENCY_EWMA_ALPHA * latencyMs + (1 - LATENCY_EWMA_ALPHA) * stats.avgLatencyMs;
+  }
+
+  recordFailure(provider: ProviderName, error: unknown): void {
+    const stats = this.getStats(provider);
+    const wasHalfOpen = this.getCircuitState(provider) === 'half-open';
+
+    this.pushOutcome(stats, false);
+    stats.failures++;
+    stats.consecutiveFailures++;
+    stats.lastError = getErrorMessage(error);
+    stats.probing = false;
+
+    if (wasHalfOpen || (stats.openedAt === null && stats.consecutiveFailures >= this.options.failureThreshold)) {
+      stats.openedAt = this.now();
+      logger.warn('SDK', 'Provider circuit opened', {
+        provider,
+        consecutiveFailures: stats.consecutiveFailures,
+        cooldownMs: this.options.cooldownMs
+      });
+    }
+  }
+
+  getCircuitState(provider: ProviderName): CircuitState {
+    const stats = this.stats.get(provider);
+    if (!stats || stats.openedAt === null) {
+      return 'closed';
+    }
+    return this.now() - stats.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Whether the provider may take traffic. A half-open provider takes a
+   * single probe at a time.
+   */
+  canRoute(provider: ProviderName): boolean {
+    const state = this.getCircuitState(provider);
+    if (state === 'open') return false;
+    if (state === 'half-open') return !this.getStats(provider).probing;
+    return true;
+  }
+
+  /**
+   * Mark the start of a half-open probe so concurrent sessions don't pile on
+   */
+  beginProbe(provider: ProviderName): void {
+    if (this.getCircuitState(provider) === 'half-open') {
+      this.getStats(provider).probing = true;
+    }
+  }
+
+  /**
+   * Health score in [0, 1]: success rate over the recent window, halved at
+   * LATENCY_REFERENCE_MS average latency. Half-open providers score as new.
+   */
+  score(provider: ProviderName): number {
+    const stats = this.stats.get(provider);
+    if (!stats || this.getCircuitState(provider) === 'half-open') {
+      return 1;
+    }
+
+    const successRate = stats.outcomes.length > 0
+      ? stats.outcomes.filter(Boolean).length / stats.outcomes.length
+      : 1;
+    const latencyFactor = stats.avgLatencyMs === null
+      ? 1
+      : 1 / (1 + stats.avgLatencyMs / LATENCY_REFERENCE_MS);
+
+    return successRate * latencyFactor;
+  }
+
+  snapshot(provider: ProviderName, available: boolean): ProviderHealthSnapshot {
+    const stats = this.getStats(provider);
+    const windowFailures = stats.outcomes.filter(ok => !ok).length;
+
+    return {
+      provider,
+      available,
+      circuit: this.getCircuitState(provider),
+      score: Math.round(this.score(provider) * 100) / 100,
+      requests: stats.requests,
+      failures: stats.failures,
+      errorRate: stats.outcomes.length > 0 ? windowFailures / stats.outcomes.length : 0,
+      avgLatencyMs: stats.avgLatencyMs === null ? null : Math.round(stats.avgLatencyMs),
+      consecutiveFailures: stats.consecutiveFailures,
+      lastError: stats.lastError,
+      openedAt: stats.openedAt
+    };
+  }
+
+  private pushOutcome(stats: ProviderStats, ok: boolean): void {
+    stats.requests++;
+    stats.outcomes.push(ok);
+    if (stats.outcomes.length > HEALTH_WINDOW_SIZE) {
+      stats.outcomes.shift();
+    }
+  }
+
+  private getStats(provider: ProviderName): ProviderStats {
+    let stats = this.stats.get(provider);
+    if (!stats) {
+      stats = {
+        outcomes: [],
+        requests: 0,
+        failures: 0,
+        avgLatencyMs: null,
+        consecutiveFailures: 0,
+        lastError: null,
+        openedAt: null,
+        probing: false
+      };
+      this.stats.set(provider, stats);
+    }
+    return stats;
+  }
+}
+
+export interface ProviderRouterOptions {
+  getChain?: () => ProviderName[];
+  isAvailable?: (provider: ProviderName) => boolean;
+  tracker?: ProviderHealthTracker;
+}
+
+export class ProviderRouter implements FallbackAgent, ProviderHealthReporter {
+  private agents: Record<ProviderName, FallbackAgent>;
+  private tracker: ProviderHealthTracker;
+  private getChain: () => ProviderName[];
+  private isAvailable: (provider: ProviderName) => boolean;
+  private pendingHandoffs: Set<number> = new Set();
+
+  constructor(agents: Record<ProviderName, FallbackAgent>, options: ProviderRouterOptions = {}) {
+    this.agents = agents;
+    this.tracker = options.tracker ?? new ProviderHealthTracker(getBreakerOptions());
+    this.getChain = options.getChain ?? getConfiguredChain;
+    this.isAvailable = options.isAvailable ?? isProviderAvailable;
+  }
+
+  /**
+   * Run a session on the healthiest provider, moving to the next one when a
+   * provider fails with a retryable error or asks to hand off. Replay sessions
+   * pinned to a provider run on it alone.
+   */
+  async startSession(session: ActiveSession, worker?: WorkerRef): Promise<void> {
+    const failed = new Set<ProviderName>();
+    const pinned = session.staging?.provider ?? null;
+
+    while (true) {
+      const provider = pinned ? (failed.has(pinned) ? null : pinned) : this.selectProvider(failed);
+      if (!provider) {
+        throw new Error(pinned
+          ? `Provider ${pinned} failed`
+          : `No healthy provider available (chain: ${this.getChain().join(', ')})`);
+      }
+
+      this.tracker.beginProbe(provider);
+      session.currentProvider = provider;
+      logger.info('SDK', 'Routing session to provider', {
+        sessionDbId: session.sessionDbId,
+        provider,
+        score: this.tracker.score(provider)
+      });
+
+      try {
+        await this.agents[provider].startSession(session, worker);
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+
+        this.tracker.recordFailure(provider, error);
+        if (!shouldFailover(error)) {
+          throw error;
+        }
+
+        failed.add(provider);
+        logger.warn('SDK', 'Provider failed, failing over', {
+          sessionDbId: session.sessionDbId,
+          provider,
+          error: getErrorMessage(error)
+        });
+        continue;
+      }
+
+      if (!this.pendingHandoffs.delete(session.sessionDbId)) {
+        return;
+      }
+      failed.clear();
+    }
+  }
+
+  recordSuccess(provider: ProviderName, latencyMs: number): void {
+    this.tracker.recordSuccess(provider, latencyMs);
+  }
+
+  /**
+   * Called by agents between queued messages. Returns true (and remembers the
+   * request) when a different provider should take over the session.
+   */
+  shouldHandOff(session: ActiveSession, provider: ProviderName): boolean {
+    if (session.abortController.signal.aborted || session.staging?.provider) {
+      return false;
+    }
+
+    const best = this.selectProvider(new Set());
+    if (!best || best === provider) {
+      return false;
+    }
+
+    logger.info('SDK', 'Handing session off to healthier provider', {
+      sessionDbId: session.sessionDbId,
+      from: provider,
+      to: best
+    });
+    this.pendingHandoffs.add(session.sessionDbId);
+    return true;
+  }
+
+  /**
+   * Health of every provider in the chain, in chain order
+   */
+  getHealth(): ProviderHealthSnapshot[] {
+    return this.getChain().map(provider => this.tracker.snapshot(provider, this.isAvailable(provider)));
+  }
+
+  /**
+   * Pick the first provider in chain order whose score is within
+   * SCORE_TOLERANCE of the best routable score
+   */
+  private selectProvider(exclude: Set<ProviderName>): ProviderName | null {
+    const candidates = this.getChain().filter(provider =>
+      !exclude.has(provider) && this.isAvailable(provider) && this.tracker.canRoute(provider)
+    );
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const bestScore = Math.max(...candidates.map(provider => this.tracker.score(provider)));
+    return candidates.find(provider => this.tracker.score(provider) >= bestScore - SCORE_TOLERANCE) ?? null;
+  }
+}
+
+/**
+ * The chain from MOLTBRAIN_PROVIDER_CHAIN, or MOLTBRAIN_PROVIDER alone when it
+ * is empty. Falling back to Claude is opt-in: list `claude` in the chain.
+ */
+function getConfiguredChain(): ProviderName[] {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  const chain = parseProviderChain(settings.MOLTBRAIN_PROVIDER_CHAIN);
+  if (chain.length > 0) {
+    return chain;
+  }
+  return parseProviderChain(settings.MOLTBRAIN_PROVIDER);
+}
+
+function getBreakerOptions(): CircuitBreakerOptions {
+  const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
+  const threshold = parseInt(settings.MOLTBRAIN_PROVIDER_BREAKER_THRESHOLD, 10);
+  const cooldownSeconds = parseFloat(settings.MOLTBRAIN_PROVIDER_BREAKER_COOLDOWN_SECONDS);
+
+  return {
+    failureThreshold: Number.isFinite(threshold) && threshold > 0 ? threshold : 3,
+    cooldownMs: (Number.isFinite(cooldownSeconds) && cooldownSeconds > 0 ? cooldownSeconds : 60) * 1000
+  };
+}
+
+function isProviderAvailable(provider: ProviderName): boolean {
+  switch (provider) {
+    case 'gemini': return isGeminiAvailable();
+    case 'openrouter': return isOpenRouterAvailable();
+    case 'openai-compatible': return isOpenAICompatibleAvailable();
+    default: return true;
+  }
+}
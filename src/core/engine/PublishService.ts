@@ -0,0 +1,238 @@
+/**
+ * PublishService: Share curated memories on MoltBook
+ *
+ * Responsibility:
+ * - Render a selection of observations, or a session summary, as a MoltBook
+ *   post with backlinks to what it was written from
+ * - Redact the post with every detector before anyone sees the preview, so
+ *   what is previewed is exactly what gets posted
+ * - Turn replies to published posts into discovery observations
+ *
+ * Posting itself is done by the MoltBook integration, which records the post
+ * ID through the worker once MoltBook accepts it.
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { createPublishRedactor, loadRedactor, type RedactionCounts } from '../../utils/redaction.js';
+import { resolveObservationScope } from '../domain/NamespaceSharing.js';
+import type { MoltBookPostRecord, ObservationRecord, SessionSummaryRecord } from '../../types/database.js';
+import { logger } from '../../utils/logger.js';
+
+/** Most observations one post can share */
+export const MAX_PUBLISHED_OBSERVATIONS = 20;
+
+const MAX_TITLE_LENGTH = 120;
+
+export interface PublishSelection {
+  observationIds?: number[];
+  summaryId?: number;
+  /** Post title; derived from the selection when omitted */
+  title?: string;
+}
+
+export interface PublishPreview {
+  project: string;
+  title: string;
+  /** Post body, redacted, ending with the backlinks */
+  content: string;
+  observationIds: number[];
+  summaryId: number | null;
+  /** Redactions applied to the title and body, per detector */
+  redactions: RedactionCounts;
+  /** Parts of the selection already shared, with their post */
+  alreadyPublished: Array<{ observationId?: number; summaryId?: number; postId: string }>;
+}
+
+export interface MoltBookReply {
+  id: string;
+  author: string | null;
+  content: string;
+  createdAt: string;
+}
+
+/**
+ * A selection that cannot be published; `status` is the HTTP status to answer with
+ */
+export class PublishError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'PublishError';
+  }
+}
+
+function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function renderObservation(observation: ObservationRecord, heading: boolean): string {
+  const lines: string[] = [];
+  if (heading) lines.push(`## ${observation.title ?? `Observation #${observation.id}`}`, '');
+  if (observation.subtitle) lines.push(`_${observation.subtitle}_`, '');
+  if (observation.narrative) lines.push(observation.narrative, '');
+  const facts = parseJsonArray(observation.facts);
+  if (facts.length > 0) lines.push(...facts.map(fact => `- ${fact}`), '');
+  return lines.join('\n').trim();
+}
+
+function renderSummary(summary: SessionSummaryRecord): string {
+  const sections: Array<[string, string | null]> = [
+    ['Request', summary.request],
+    ['Investigated', summary.investigated],
+    ['Learned', summary.learned],
+    ['Completed', summary.completed],
+    ['Next steps', summary.next_steps]
+  ];
+  return sections
+    .filter(([, text]) => text?.trim())
+    .map(([label, text]) => `**${label}:** ${text!.trim()}`)
+    .join('\n\n');
+}
+
+function renderBacklinks(observationIds: number[], summaryId: number | null): string {
+  const sources = [
+    ...(summaryId ? [`summary #${summaryId}`] : []),
+    ...observationIds.map(id => `observation #${id}`)
+  ];
+  return `---\nShared from MoltBrain memory: ${sources.join(', ')}`;
+}
+
+export class PublishService {
+  constructor(private dbManager: DatabaseManager) {}
+
+  /**
+   * Render the post a selection would publish. Memories of chat namespaces
+   * can only be shared once they are global; summaries of chat sessions when
+   * a sharing rule makes type `summary` global.
+   * @throws PublishError on an empty, unknown, mixed-project or private selection
+   */
+  preview(
+    selection: PublishSelection,
+    settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+  ): PublishPreview {
+    const store = this.dbManager.getSessionStore();
+    const observationIds = [...new Set(selection.observationIds ?? [])];
+    const summaryId = selection.summaryId ?? null;
+
+    if (observationIds.length === 0 && !summaryId) {
+      throw new PublishError('Select observations or a summary to publish');
+    }
+    if (observationIds.length > MAX_PUBLISHED_OBSERVATIONS) {
+      throw new PublishError(`A post can share at most ${MAX_PUBLISHED_OBSERVATIONS} observations`);
+    }
+
+    const observations = store.getObservationsByIds(observationIds, { orderBy: 'date_asc' });
+    const missing = observationIds.filter(id => !observations.some(observation => observation.id === id));
+    if (missing.length > 0) {
+      throw new PublishError(`Observations not found: ${missing.join(', ')}`, 404);
+    }
+    const summary = summaryId ? store.getSessionSummariesByIds([summaryId])[0] : null;
+    if (summaryId && !summary) {
+      throw new PublishError(`Summary not found: ${summaryId}`, 404);
+    }
+
+    const projects = new Set([...observations.map(observation => observation.project), ...(summary ? [summary.project] : [])]);
+    if (projects.size > 1) {
+      throw new PublishError(`A post can only share memories of one project, got ${[...projects].join(', ')}`);
+    }
+    const scoped = observations.filter(observation => observation.namespace_scope && observation.namespace_scope !== 'global');
+    if (scoped.length > 0) {
+      throw new PublishError(`Observations ${scoped.map(observation => observation.id).join(', ')} are private to their channel or user`);
+    }
+    const summaryNamespace = summary ? store.getSessionNamespace(summary.memory_session_id) : null;
+    if (summary && summaryNamespace && resolveObservationScope(
+      { project: summary.project, channel: summaryNamespace.channel, type: 'summary', concepts: [] },
+      settings
+    ) !== 'global') {
+      throw new PublishError(`Summary ${summary.id} is private to its channel or user`);
+    }
+
+    const single = observations.length === 1 && !summary;
+    const title = selection.title?.trim()
+      || (summary?.request?.trim() ? summary.request.trim() : null)
+      || (single ? observations[0].title : null)
+      || `Notes from ${[...projects][0]}`;
+    const body = [
+      ...(summary ? [renderSummary(summary)] : []),
+      ...observations.map(observation => renderObservation(observation, !single))
+    ].filter(Boolean).join('\n\n');
+
+    const redactor = createPublishRedactor(settings);
+    const redactedTitle = truncate(redactor.redactText(title), MAX_TITLE_LENGTH);
+    const redactedBody = redactor.redactText(body);
+
+    return {
+      project: [...projects][0],
+      title: redactedTitle,
+      content: `${redactedBody}\n\n${renderBacklinks(observationIds, summaryId)}`,
+      observationIds,
+      summaryId,
+      redactions: redactor.counts,
+      alreadyPublished: [
+        ...(summary?.moltbook_post_id ? [{ summaryId: summary.id, postId: summary.moltbook_post_id }] : []),
+        ...observations
+          .filter(observation => observation.moltbook_post_id)
+          .map(observation => ({ observationId: observation.id, postId: observation.moltbook_post_id! }))
+      ]
+    };
+  }
+
+  /**
+   * Store replies to a published post as discovery observations; replies
+   * seen before are skipped. Capture redaction applies as it does to prompts.
+   * @throws PublishError when the post was not published from here
+   */
+  storeReplies(postId: string, replies: MoltBookReply[]): { stored: Array<{ commentId: string; observationId: number }>; skipped: number } {
+    const store = this.dbManager.getSessionStore();
+    const post = store.getMoltBookPost(postId);
+    if (!post) {
+      throw new PublishError(`MoltBook post not recorded: ${postId}`, 404);
+    }
+
+    const redactor = loadRedactor();
+    const observations = new Map(replies.map(reply => [reply.id, {
+      type: 'discovery',
+      title: truncate(`Reply from ${reply.author ?? 'someone'} on "${post.title}"`, MAX_TITLE_LENGTH),
+      subtitle: `MoltBook ${post.submolt}`,
+      facts: [],
+      narrative: redactor ? redactor.redactText(reply.content) : reply.content,
+      concepts: [],
+      files_read: [],
+      files_modified: []
+    }]));
+    const createdAt = (reply: MoltBookReply) => (Number.isNaN(Date.parse(reply.createdAt)) ? Date.now() : Date.parse(reply.createdAt));
+
+    const { memorySessionId, stored, skipped } = store.storeMoltBookReplies(postId, replies.map(reply => ({
+      commentId: reply.id,
+      author: reply.author,
+      createdAtEpoch: createdAt(reply),
+      observation: observations.get(reply.id)!
+    })));
+
+    for (const { commentId, observationId } of stored) {
+      const reply = replies.find(candidate => candidate.id === commentId)!;
+      this.dbManager.getVectorBackend()
+        .syncObservation(observationId, memorySessionId, post.project, observations.get(commentId)!, 0, createdAt(reply))
+        .catch(error => {
+          logger.error('VECTOR', 'MoltBook reply sync failed, continuing without vector search', { obsId: observationId }, error);
+        });
+    }
+
+    return { stored, skipped };
+  }
+
+  getPosts(project?: string): MoltBookPostRecord[] {
+    return this.dbManager.getSessionStore().getMoltBookPosts(project);
+  }
+}
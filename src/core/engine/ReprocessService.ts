@@ -0,0 +1,330 @@
+/**
+ * ReprocessService: Replay historical sessions with a different mode or provider
+ *
+ * Responsibility:
+ * - Rebuild each source session's tool events from its stored prompts and transcript
+ * - Replay them through a throwaway session on the normal pending-message queue,
+ *   so the agents and processAgentResponse handle them exactly like live events
+ * - Stage the resulting observations in the run instead of live memory
+ * - Apply (atomically swap generations), roll back, or discard a run
+ *
+ * Runs are sequential, one source session at a time. A run interrupted by a
+ * worker restart is marked failed on startup; its staged rows stay reviewable.
+ */
+
+import { DatabaseManager } from './DatabaseManager.js';
+import { SessionManager } from './SessionManager.js';
+import { TranscriptParser } from '../../utils/transcript-parser.js';
+import { extractToolEvents, findTranscriptPath, promptNumberAt } from '../../utils/transcript-events.js';
+import { evaluateToolUse, limitToolResponse, loadPrivacyPolicy, type PrivacyPolicy } from '../../common/privacy-policy.js';
+import { loadRedactor } from '../../utils/redaction.js';
+import type { SessionStore } from '../storage/DataStore.js';
+import type { ReprocessRunRecord } from '../../types/database.js';
+import type { ObservationData } from '../engine-types.js';
+import type { FallbackAgent, ProviderName, WorkerRef } from './agents/index.js';
+import { logger } from '../../utils/logger.js';
+
+// How often a replay session is checked for a drained queue
+const IDLE_POLL_MS = 1000;
+// A replay that makes no progress for this long is abandoned
+const STALL_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 20;
+
+export interface ReprocessOptions {
+  project: string;
+  /** Specific sessions (sdk_sessions ids); otherwise every session in the range */
+  sessionIds?: number[];
+  fromEpoch?: number;
+  toEpoch?: number;
+  /** Mode to replay in (default: each session's own mode) */
+  modeId?: string;
+  /** Provider to pin the replay to (default: the provider chain) */
+  provider?: ProviderName;
+  maxSessions?: number;
+}
+
+type SourceSession = ReturnType<SessionStore['getReprocessableSessions']>[number];
+
+export class ReprocessService {
+  private activeRunId: number | null = null;
+  private activeReplaySessionId: number | null = null;
+  private cancelled: Set<number> = new Set();
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private sessionManager: SessionManager,
+    private agent: FallbackAgent,
+    private worker?: WorkerRef
+  ) {}
+
+  isRunning(): boolean {
+    return this.activeRunId !== null;
+  }
+
+  /**
+   * Clean up after a restart: replay sessions are deleted before queue
+   * recovery can pick them up, and their runs are marked failed
+   */
+  recoverInterruptedRuns(): void {
+    const store = this.dbManager.getSessionStore();
+    const replaySessionIds = store.getReplaySessionIds();
+    for (const sessionDbId of replaySessionIds) {
+      store.deleteReplaySession(sessionDbId);
+    }
+
+    const interrupted = store.getReprocessRuns({ limit: 1000 }).filter(run => run.status === 'replaying');
+    for (const run of interrupted) {
+      store.setReprocessRunStatus(run.id, 'failed', 'Worker restarted during replay');
+    }
+
+    if (replaySessionIds.length > 0 || interrupted.length > 0) {
+      logger.info('WORKER', 'Cleaned up interrupted reprocess runs', {
+        runs: interrupted.length,
+        replaySessions: replaySessionIds.length
+      });
+    }
+  }
+
+  /**
+   * Create a run and start replaying it in the background
+   */
+  start(options: ReprocessOptions): ReprocessRunRecord {
+    if (this.activeRunId !== null) {
+      throw new Error(`Reprocess run ${this.activeRunId} is still replaying`);
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const sources = store.getReprocessableSessions(options.project, {
+      sessionIds: options.sessionIds,
+      fromEpoch: options.fromEpoch,
+      toEpoch: options.toEpoch,
+      limit: options.maxSessions ?? DEFAULT_MAX_SESSIONS
+    });
+    if (sources.length === 0) {
+      throw new Error(`No sessions to reprocess in project '${options.project}'`);
+    }
+
+    const runId = store.createReprocessRun(options.project, sources, {
+      modeId: options.modeId ?? null,
+      provider: options.provider ?? null
+    });
+    this.activeRunId = runId;
+    logger.info('WORKER', 'Reprocess run started', { runId, project: options.project, sessions: sources.length });
+
+    this.replayRun(runId, sources, options)
+      .catch(error => {
+        logger.error('WORKER', 'Reprocess run failed', { runId }, error as Error);
+        store.setReprocessRunStatus(runId, 'failed', (error as Error).message);
+      })
+      .finally(() => {
+        this.activeRunId = null;
+        this.cancelled.delete(runId);
+      });
+
+    return store.getReprocessRun(runId)!;
+  }
+
+  /**
+   * Swap a staged run into live memory and re-index the swapped observations
+   */
+  apply(runId: number): { applied: number; replaced: number } {
+    const store = this.dbManager.getSessionStore();
+    const result = store.applyReprocessRun(runId);
+    this.syncVectors(store.getReprocessObservations(runId, 'previous').map(obs => obs.id));
+    logger.info('WORKER', 'Reprocess run applied', { runId, ...result });
+    return result;
+  }
+
+  rollback(runId: number): { removed: number; restored: number } {
+    const store = this.dbManager.getSessionStore();
+    // Staged rows of sessions the run did not replace were never inserted
+    const removedIds = store.getReprocessObservations(runId, 'staged').map(obs => obs.id).filter(id => id !== null);
+    const result = store.rollbackReprocessRun(runId);
+    this.syncVectors(removedIds);
+    logger.info('WORKER', 'Reprocess run rolled back', { runId, ...result });
+    return result;
+  }
+
+  /**
+   * Drop a run's staged observations; a run still replaying is stopped first
+   */
+  async discard(runId: number): Promise<void> {
+    if (this.activeRunId === runId) {
+      this.cancelled.add(runId);
+      if (this.activeReplaySessionId !== null) {
+        await this.sessionManager.deleteSession(this.activeReplaySessionId);
+      }
+    }
+    this.dbManager.getSessionStore().discardReprocessRun(runId);
+    logger.info('WORKER', 'Reprocess run discarded', { runId });
+  }
+
+  private async replayRun(runId: number, sources: SourceSession[], options: ReprocessOptions): Promise<void> {
+    const store = this.dbManager.getSessionStore();
+    let staged = 0;
+
+    for (const source of sources) {
+      if (this.cancelled.has(runId)) return;
+
+      store.setReprocessSessionStatus(runId, source.id, 'replaying');
+      try {
+        const events = await this.replaySession(runId, source, options);
+        if (this.cancelled.has(runId)) return;
+        store.setReprocessSessionStatus(runId, source.id, 'staged', { events });
+        staged++;
+      } catch (error) {
+        logger.warn('WORKER', 'Could not replay session', { runId, sessionId: source.id }, error as Error);
+        store.setReprocessSessionStatus(runId, source.id, 'failed', { error: (error as Error).message });
+      }
+    }
+
+    if (this.cancelled.has(runId)) return;
+    if (staged === 0) {
+      store.setReprocessRunStatus(runId, 'failed', 'No session could be replayed');
+      return;
+    }
+    store.setReprocessRunStatus(runId, 'staged');
+    logger.info('WORKER', 'Reprocess run staged', { runId, sessions: staged });
+  }
+
+  /**
+   * Replay one source session through a throwaway session and wait for the
+   * agent to drain its queue
+   * @returns Number of tool events replayed
+   */
+  private async replaySession(runId: number, source: SourceSession, options: ReprocessOptions): Promise<number> {
+    const store = this.dbManager.getSessionStore();
+    const prompts = store.getUserPromptsForSession(source.content_session_id);
+    const events = this.buildEvents(source, prompts);
+    if (events.length === 0) {
+      throw new Error('No tool events to replay');
+    }
+
+    const userPrompt = prompts.length > 1
+      ? prompts.map(prompt => `[${prompt.prompt_number}] ${prompt.prompt_text}`).join('\n\n')
+      : prompts[0]?.prompt_text ?? source.user_prompt ?? '';
+    const replaySessionId = store.createReplaySession(runId, source, userPrompt, options.modeId ?? source.mode_id);
+
+    try {
+      const session = this.sessionManager.initializeSession(replaySessionId, userPrompt, 1);
+      session.staging = {
+        runId,
+        memorySessionId: source.memory_session_id,
+        provider: options.provider ?? null
+      };
+      this.activeReplaySessionId = replaySessionId;
+
+      for (const event of events) {
+        await this.sessionManager.queueObservation(replaySessionId, event);
+      }
+
+      let failure: Error | null = null;
+      session.generatorPromise = this.agent.startSession(session, this.worker)
+        .catch(error => {
+          if (!session.abortController.signal.aborted) {
+            failure = error as Error;
+          }
+        })
+        .finally(() => {
+          session.generatorPromise = null;
+        });
+
+      await this.waitUntilIdle(replaySessionId, () => failure);
+      if (failure) {
+        throw failure;
+      }
+      return events.length;
+    } finally {
+      this.activeReplaySessionId = null;
+      await this.sessionManager.deleteSession(replaySessionId);
+      store.deleteReplaySession(replaySessionId);
+    }
+  }
+
+  /**
+   * Tool events of a session as the hook would have sent them: private
+   * prompts, the privacy policy and redaction apply as they do live
+   */
+  private buildEvents(
+    source: SourceSession,
+    prompts: Array<{ prompt_number: number; prompt_text: string; created_at_epoch: number }>
+  ): ObservationData[] {
+    const transcriptPath = findTranscriptPath(source.content_session_id);
+    if (!transcriptPath) {
+      throw new Error('Transcript not found');
+    }
+
+    const redactor = loadRedactor();
+    const policies = new Map<string, PrivacyPolicy>();
+    const events: ObservationData[] = [];
+
+    for (const event of extractToolEvents(new TranscriptParser(transcriptPath).getAllEntries())) {
+      const promptNumber = promptNumberAt(event.timestamp_epoch, prompts);
+      const prompt = prompts.find(candidate => candidate.prompt_number === promptNumber);
+      if (prompt && !prompt.prompt_text.trim()) continue;
+
+      let toolResponse = event.tool_response;
+      if (event.cwd) {
+        const policy = policies.get(event.cwd) ?? loadPrivacyPolicy(event.cwd);
+        policies.set(event.cwd, policy);
+        if (evaluateToolUse(policy, event.tool_name, event.tool_input)) continue;
+        toolResponse = limitToolResponse(policy, event.tool_name, toolResponse).response;
+      }
+
+      events.push({
+        tool_name: event.tool_name,
+        tool_input: redactor ? redactor.redactValue(event.tool_input) : event.tool_input,
+        tool_response: redactor ? redactor.redactValue(toolResponse) : toolResponse,
+        prompt_number: promptNumber,
+        cwd: event.cwd,
+        created_at_epoch: event.timestamp_epoch || undefined
+      });
+    }
+
+    return events;
+  }
+
+  /**
+   * Resolve once the queue is empty and no claimed message is still being
+   * processed (processAgentResponse clears earliestPendingTimestamp)
+   */
+  private async waitUntilIdle(sessionDbId: number, getFailure: () => Error | null): Promise<void> {
+    const pendingStore = this.sessionManager.getPendingMessageStore();
+    let lastPending = -1;
+    let lastProgressAt = Date.now();
+
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+
+      const session = this.sessionManager.getSession(sessionDbId);
+      if (!session || getFailure()) return;
+
+      const pending = pendingStore.getPendingCount(sessionDbId);
+      if (pending === 0 && session.earliestPendingTimestamp === null) return;
+      if (!session.generatorPromise) {
+        throw new Error('Agent stopped before the replay finished');
+      }
+
+      if (pending !== lastPending) {
+        lastPending = pending;
+        lastProgressAt = Date.now();
+      } else if (Date.now() - lastProgressAt > STALL_TIMEOUT_MS) {
+        throw new Error(`Replay stalled with ${pending} events queued`);
+      }
+    }
+  }
+
+  /**
+   * Drop the documents of the observations a swap removed, then index the
+   * ones it inserted (fire-and-forget, like live syncs). Deleting first
+   * matters: a reused row ID would otherwise keep its old document.
+   */
+  private syncVectors(removedIds: number[]): void {
+    const vectorBackend = this.dbManager.getVectorBackend();
+    vectorBackend.deleteObservations(removedIds)
+      .then(() => vectorBackend.ensureBackfilled())
+      .catch(error => {
+        logger.warn('WORKER', 'Vector sync after reprocessing failed', { removed: removedIds.length }, error as Error);
+      });
+  }
+}
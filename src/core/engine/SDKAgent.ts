@@ -19,22 +19,47 @@ import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js
 import { USER_SETTINGS_PATH } from '../../common/paths.js';
 import type { ActiveSession, SDKUserMessage } from '../engine-types.js';
 import { ModeManager } from '../domain/ModeManager.js';
-import { processAgentResponse, type WorkerRef } from './agents/index.js';
+import { processAgentResponse, type WorkerRef, type ProviderHealthReporter } from './agents/index.js';
 import { createPidCapturingSpawn, getProcessBySession, ensureProcessExit } from './ProcessRegistry.js';
 
 // Import Agent SDK (assumes it's installed)
 // @ts-ignore - Agent SDK types may not be available
 import { query } from '@anthropic-ai/claude-agent-sdk';
 
+// Memory agent is OBSERVER ONLY - no tools allowed
+const OBSERVER_DISALLOWED_TOOLS = [
+  'Bash',           // Prevent infinite loops
+  'Read',           // No file reading
+  'Write',          // No file writing
+  'Edit',           // No file editing
+  'Grep',           // No code searching
+  'Glob',           // No file pattern matching
+  'WebFetch',       // No web fetching
+  'WebSearch',      // No web searching
+  'Task',           // No spawning sub-agents
+  'NotebookEdit',   // No notebook editing
+  'AskUserQuestion',// No asking questions
+  'TodoWrite'       // No todo management
+];
+
 export class SDKAgent {
   private dbManager: DatabaseManager;
   private sessionManager: SessionManager;
+  private healthReporter: ProviderHealthReporter | null = null;
 
   constructor(dbManager: DatabaseManager, sessionManager: SessionManager) {
     this.dbManager = dbManager;
     this.sessionManager = sessionManager;
   }
 
+  /**
+   * Set the provider router that receives latency samples and decides
+   * when this session should move to a healthier provider
+   */
+  setHealthReporter(reporter: ProviderHealthReporter): void {
+    this.healthReporter = reporter;
+  }
+
   /**
    * Start SDK agent for a session (event-driven, no polling)
    * @param worker WorkerService reference for spinner control (optional)
@@ -43,30 +68,18 @@ export class SDKAgent {
     // Track cwd from messages for CLAUDE.md generation (worktree support)
     // Uses mutable object so generator updates are visible in response processing
     const cwdTracker = { lastCwd: undefined as string | undefined };
+    // Time each prompt is handed to the SDK, for provider latency tracking
+    const turnTimer = { sentAt: null as number | null };
 
     // Find Claude executable
     const claudePath = this.findClaudeExecutable();
 
     // Get model ID and disallowed tools
     const modelId = this.getModelId();
-    // Memory agent is OBSERVER ONLY - no tools allowed
-    const disallowedTools = [
-      'Bash',           // Prevent infinite loops
-      'Read',           // No file reading
-      'Write',          // No file writing
-      'Edit',           // No file editing
-      'Grep',           // No code searching
-      'Glob',           // No file pattern matching
-      'WebFetch',       // No web fetching
-      'WebSearch',      // No web searching
-      'Task',           // No spawning sub-agents
-      'NotebookEdit',   // No notebook editing
-      'AskUserQuestion',// No asking questions
-      'TodoWrite'       // No todo management
-    ];
+    const disallowedTools = OBSERVER_DISALLOWED_TOOLS;
 
     // Create message generator (event-driven)
-    const messageGenerator = this.createMessageGenerator(session, cwdTracker);
+    const messageGenerator = this.createMessageGenerator(session, cwdTracker, turnTimer);
 
     // CRITICAL: Only resume if:
     // 1. memorySessionId exists (was captured from a previous SDK response)
@@ -153,6 +166,11 @@ export class SDKAgent {
 
         const responseSize = textContent.length;
 
+        if (turnTimer.sentAt !== null) {
+          this.healthReporter?.recordSuccess('claude', Date.now() - turnTimer.sentAt);
+          turnTimer.sentAt = null;
+        }
+
         // Capture token state BEFORE updating (for delta calculation)
         const tokensBeforeResponse = session.cumulativeInputTokens + session.cumulativeOutputTokens;
 
@@ -223,6 +241,32 @@ export class SDKAgent {
     });
   }
 
+  /**
+   * Answer a single prompt in a fresh, tool-less SDK query (used by the consolidation job)
+   */
+  async complete(prompt: string): Promise<string> {
+    const queryResult = query({
+      prompt,
+      options: {
+        model: this.getModelId(),
+        disallowedTools: OBSERVER_DISALLOWED_TOOLS,
+        pathToClaudeCodeExecutable: this.findClaudeExecutable()
+      }
+    });
+
+    const parts: string[] = [];
+    for await (const message of queryResult) {
+      if (message.type === 'assistant') {
+        const content = message.message.content;
+        parts.push(Array.isArray(content)
+          ? content.filter((c: any) => c.type === 'text').map((c: any) => c.text).join('\n')
+          : typeof content === 'string' ? content : '');
+      }
+    }
+
+    return parts.join('\n');
+  }
+
   /**
    * Create event-driven message generator (yields messages from SessionManager)
    *
@@ -257,13 +301,19 @@ export class SDKAgent {
    * - cwdTracker is a mutable object shared with startSession
    * - As messages with cwd are processed, cwdTracker.lastCwd is updated
    * - This enables processAgentResponse to use the correct cwd for CLAUDE.md
+   *
+   * PROVIDER ROUTING:
+   * - turnTimer.sentAt is set as each prompt is yielded so responses can be timed
+   * - After each queued message the router may ask for a handoff, which ends
+   *   the generator so the SDK finishes its last turn and the session moves on
    */
   private async *createMessageGenerator(
     session: ActiveSession,
-    cwdTracker: { lastCwd: string | undefined }
+    cwdTracker: { lastCwd: string | undefined },
+    turnTimer: { sentAt: number | null }
   ): AsyncIterableIterator<SDKUserMessage> {
-    // Load active mode
-    const mode = ModeManager.getInstance().getActiveMode();
+    // Load the mode the session is bound to
+    const mode = ModeManager.getInstance().getMode(session.modeId);
 
     // Build initial prompt
     const isInitPrompt = session.lastPromptNumber === 1;
@@ -284,6 +334,7 @@ export class SDKAgent {
 
     // Yield initial user prompt with context (or continuation if prompt #2+)
     // CRITICAL: Both paths use session.contentSessionId from the hook
+    turnTimer.sentAt = Date.now();
     yield {
       type: 'user',
       message: {
@@ -320,6 +371,7 @@ export class SDKAgent {
         // Add to shared conversation history for provider interop
         session.conversationHistory.push({ role: 'user', content: obsPrompt });
 
+        turnTimer.sentAt = Date.now();
         yield {
           type: 'user',
           message: {
@@ -342,6 +394,7 @@ export class SDKAgent {
         // Add to shared conversation history for provider interop
         session.conversationHistory.push({ role: 'user', content: summaryPrompt });
 
+        turnTimer.sentAt = Date.now();
         yield {
           type: 'user',
           message: {
@@ -353,6 +406,11 @@ export class SDKAgent {
           isSynthetic: true
         };
       }
+
+      // Between messages: let the router move the session to a healthier provider
+      if (this.healthReporter?.shouldHandOff(session, 'claude')) {
+        return;
+      }
     }
   }
 
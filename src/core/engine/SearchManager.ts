@@ -16,11 +16,12 @@
 import { basename } from 'path';
 import { SessionSearch } from '../storage/SessionSearch.js';
 import { SessionStore } from '../storage/DataStore.js';
-import { ChromaSync } from '../vector/VectorSync.js';
+import type { VectorBackend } from '../vector/VectorBackend.js';
 import { FormattingService } from './FormattingService.js';
 import { TimelineService } from './TimelineService.js';
 import type { TimelineItem } from './TimelineService.js';
 import type { ObservationSearchResult, SessionSummarySearchResult, UserPromptSearchResult } from '../storage/types.js';
+import { normalizeTagName, parseSearchQualifiers } from '../storage/SearchQualifiers.js';
 import { logger } from '../../utils/logger.js';
 import { formatDate, formatTime, formatDateTime, extractFirstFile, groupByDate, estimateTokens } from '../../common/timeline-formatting.js';
 import { ModeManager } from '../domain/ModeManager.js';
@@ -28,9 +29,18 @@ import { ModeManager } from '../domain/ModeManager.js';
 import {
   SearchOrchestrator,
   TimelineBuilder,
-  SEARCH_CONSTANTS
+  SEARCH_CONSTANTS,
+  parseFusionConfig
 } from './search/index.js';
-import type { TimelineData } from './search/index.js';
+import type { TimelineData, RankedHit } from './search/index.js';
+import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { OBSERVATION_LINK_KINDS } from '../../parser/parser.js';
+import type { ObservationLinkKind } from '../../types/database.js';
+
+// Graph walks from the related tool stay small enough to read in one response
+const DEFAULT_RELATED_HOPS = 2;
+const MAX_RELATED_HOPS = 5;
 
 export class SearchManager {
   private orchestrator: SearchOrchestrator;
@@ -39,21 +49,27 @@ export class SearchManager {
   constructor(
     private sessionSearch: SessionSearch,
     private sessionStore: SessionStore,
-    private chromaSync: ChromaSync,
+    private chromaSync: VectorBackend,
     private formatter: FormattingService,
     private timelineService: TimelineService
   ) {
     // Initialize the new modular search infrastructure
+    const settings = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH);
     this.orchestrator = new SearchOrchestrator(
       sessionSearch,
       sessionStore,
-      chromaSync
+      chromaSync,
+      parseFusionConfig({
+        k: settings.MOLTBRAIN_SEARCH_RRF_K,
+        ftsWeight: settings.MOLTBRAIN_SEARCH_FTS_WEIGHT,
+        vectorWeight: settings.MOLTBRAIN_SEARCH_VECTOR_WEIGHT
+      })
     );
     this.timelineBuilder = new TimelineBuilder();
   }
 
   /**
-   * Query Chroma vector database via ChromaSync
+   * Query the configured vector backend (Chroma or SQLite)
    * @deprecated Use orchestrator.search() instead
    */
   private async queryChroma(
@@ -107,6 +123,41 @@ export class SearchManager {
       delete normalized.dateEnd;
     }
 
+    // Parse comma-separated tags into normalized tag names
+    if (normalized.tags && typeof normalized.tags === 'string') {
+      normalized.tags = normalized.tags.split(',');
+    }
+    if (Array.isArray(normalized.tags)) {
+      normalized.tags = normalized.tags.map((tag: string) => normalizeTagName(String(tag))).filter(Boolean);
+    }
+
+    // Parse favorite boolean from string
+    if (normalized.favorite === 'true') {
+      normalized.favorite = true;
+    } else if (normalized.favorite === 'false') {
+      normalized.favorite = false;
+    }
+
+    // Move tag: and is:favorite qualifiers out of the query text into filters
+    if (typeof normalized.query === 'string') {
+      const qualifiers = parseSearchQualifiers(normalized.query);
+      if (qualifiers.tags.length > 0 || qualifiers.favorite) {
+        normalized.query = qualifiers.text || undefined;
+        normalized.tags = [...new Set([...(normalized.tags ?? []), ...qualifiers.tags])];
+        normalized.favorite = normalized.favorite === true || qualifiers.favorite;
+      }
+    }
+
+    // Gather channel/userId into a chat namespace filter
+    if (typeof normalized.channel === 'string' && normalized.channel) {
+      normalized.namespace = {
+        channel: normalized.channel,
+        ...(typeof normalized.userId === 'string' && normalized.userId && { userId: normalized.userId })
+      };
+    }
+    delete normalized.channel;
+    delete normalized.userId;
+
     // Parse isFolder boolean from string
     if (normalized.isFolder === 'true') {
       normalized.isFolder = true;
@@ -127,12 +178,15 @@ export class SearchManager {
     let observations: ObservationSearchResult[] = [];
     let sessions: SessionSummarySearchResult[] = [];
     let prompts: UserPromptSearchResult[] = [];
+    let ranked: RankedHit[] | undefined;
     let chromaFailed = false;
 
     // Determine which types to query based on type filter
+    // Tags, favorites and namespaces exist only on observations, so those filters exclude sessions and prompts
+    const observationsOnly = options.tags?.length > 0 || options.favorite === true || !!options.namespace;
     const searchObservations = !type || type === 'observations';
-    const searchSessions = !type || type === 'sessions';
-    const searchPrompts = !type || type === 'prompts';
+    const searchSessions = !observationsOnly && (!type || type === 'sessions');
+    const searchPrompts = !observationsOnly && (!type || type === 'prompts');
 
     // PATH 1: FILTER-ONLY (no query text) - Skip Chroma/FTS5, use direct SQLite filtering
     // This path enables date filtering which Chroma cannot do (requires direct SQLite access)
@@ -149,7 +203,24 @@ export class SearchManager {
         prompts = this.sessionSearch.searchUserPrompts(undefined, options);
       }
     }
-    // PATH 2: CHROMA SEMANTIC SEARCH (query text + Chroma available)
+    // PATH 2: HYBRID FUSION (query text + FTS5 and vector backend both healthy)
+    else if (this.orchestrator.isHybridHealthy()) {
+      logger.debug('SEARCH', 'Using hybrid FTS5 + vector search', { typeFilter: type || 'all' });
+      const hybrid = await this.orchestrator.search({
+        ...options,
+        query,
+        searchType: observationsOnly ? 'observations' : type || 'all',
+        obsType: obs_type,
+        concepts,
+        files
+      });
+      ({ observations, sessions, prompts } = hybrid.results);
+      if (!searchObservations) {
+        observations = [];
+      }
+      ranked = hybrid.ranked;
+    }
+    // PATH 3: CHROMA SEMANTIC SEARCH (query text + Chroma available)
     else if (this.chromaSync) {
       let chromaSucceeded = false;
       logger.debug('SEARCH', 'Using ChromaDB semantic search', { typeFilter: type || 'all' });
@@ -236,7 +307,8 @@ export class SearchManager {
         sessions,
         prompts,
         totalResults,
-        query: query || ''
+        query: query || '',
+        ...(ranked && { ranked })
       };
     }
 
@@ -1092,7 +1164,7 @@ export class SearchManager {
    */
   async findByFile(args: any): Promise<any> {
     const normalized = this.normalizeParams(args);
-    const { files: rawFilePath, ...filters } = normalized;
+    const { files: rawFilePath, format, ...filters } = normalized;
     // Handle both string and array (normalizeParams may split on comma)
     const filePath = Array.isArray(rawFilePath) ? rawFilePath[0] : rawFilePath;
     let observations: ObservationSearchResult[] = [];
@@ -1144,6 +1216,11 @@ export class SearchManager {
 
     const totalResults = observations.length + sessions.length;
 
+    // JSON format: raw rows for the folder CLAUDE.md generator
+    if (format === 'json') {
+      return { observations, sessions, totalResults };
+    }
+
     if (totalResults === 0) {
       return {
         content: [{
@@ -1278,6 +1355,139 @@ export class SearchManager {
   }
 
 
+  /**
+   * Tool handler: related
+   * Walk the observation relationship graph N hops out from an anchor observation
+   */
+  async related(args: any): Promise<any> {
+    const anchor = Number(args.anchor);
+    const hops = Math.min(Math.max(Number(args.hops) || DEFAULT_RELATED_HOPS, 1), MAX_RELATED_HOPS);
+
+    if (!Number.isInteger(anchor) || anchor <= 0) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: 'Error: "anchor" must be an observation ID'
+        }],
+        isError: true
+      };
+    }
+
+    const kinds: ObservationLinkKind[] = [];
+    if (args.kinds) {
+      const requested = Array.isArray(args.kinds) ? args.kinds : String(args.kinds).split(',');
+      for (const raw of requested) {
+        const kind = String(raw).trim().replace(/_/g, '-');
+        if (!kind) continue;
+        if (!(OBSERVATION_LINK_KINDS as readonly string[]).includes(kind)) {
+          return {
+            content: [{
+              type: 'text' as const,
+              text: `Error: Unknown link kind "${kind}". Expected one of: ${OBSERVATION_LINK_KINDS.join(', ')}`
+            }],
+            isError: true
+          };
+        }
+        kinds.push(kind as ObservationLinkKind);
+      }
+    }
+
+    if (!this.sessionStore.getObservationById(anchor)) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `Observation #${anchor} not found`
+        }],
+        isError: true
+      };
+    }
+
+    const { observations, links } = this.sessionStore.getRelatedObservations(anchor, hops, kinds);
+
+    if (links.length === 0) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `No related observations found for #${anchor} within ${hops} hop${hops === 1 ? '' : 's'}`
+        }]
+      };
+    }
+
+    const lines: string[] = [
+      `Related to #${anchor} (${hops} hop${hops === 1 ? '' : 's'}): ${observations.length - 1} observation(s), ${links.length} link(s)`,
+      '',
+      '## Links',
+      ...links.map(link => `- #${link.from_id} ${link.kind} #${link.to_id}`),
+      '',
+      '## Observations',
+      '| Hops | ID | Time | T | Title | Read | Work |',
+      '|------|-----|------|---|-------|------|------|'
+    ];
+
+    for (const [i, obs] of observations.entries()) {
+      lines.push(`| ${obs.hops} ${this.formatter.formatObservationIndex(obs as unknown as ObservationSearchResult, i)}`);
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: lines.join('\n')
+      }]
+    };
+  }
+
+  /**
+   * Tool handler: find_by_commit
+   * Observations whose file changes ended up in a commit (abbreviated shas allowed)
+   */
+  async findByCommit(args: any): Promise<any> {
+    const sha = typeof args.sha === 'string' ? args.sha.trim().toLowerCase() : '';
+    const project = args.project || undefined;
+
+    if (!/^[0-9a-f]{4,40}$/.test(sha)) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: 'Error: "sha" must be a commit sha (at least 4 hex characters)'
+        }],
+        isError: true
+      };
+    }
+
+    const rows = this.sessionStore.getObservationsByCommit(sha, project);
+
+    if (rows.length === 0) {
+      return {
+        content: [{
+          type: 'text' as const,
+          text: `No observations found for commit ${sha}${project ? ` in project "${project}"` : ''}`
+        }]
+      };
+    }
+
+    const byCommit = new Map<string, typeof rows>();
+    for (const row of rows) {
+      const group = byCommit.get(row.commit_sha) ?? [];
+      group.push(row);
+      byCommit.set(row.commit_sha, group);
+    }
+
+    const lines: string[] = [`Found ${rows.length} observation(s) for commit ${sha}`];
+    for (const [commitSha, group] of byCommit) {
+      lines.push('', `## ${commitSha}`, this.formatter.formatTableHeader());
+      group.forEach((row, i) => {
+        lines.push(this.formatter.formatObservationIndex(row as unknown as ObservationSearchResult, i));
+      });
+    }
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: lines.join('\n')
+      }]
+    };
+  }
+
   /**
    * Tool handler: get_recent_context
    */
@@ -15,6 +15,10 @@ import type { ActiveSession, PendingMessage, PendingMessageWithId, ObservationDa
 import { PendingMessageStore } from '../storage/PendingMessageStore.js';
 import { SessionQueueProcessor } from '../queue/SessionQueueProcessor.js';
 import { getProcessBySession, ensureProcessExit } from './ProcessRegistry.js';
+import { getGitHeadState } from '../../utils/worktree.js';
+import { redactIncoming } from '../../utils/redaction.js';
+import { PrivacyCheckValidator } from './validation/PrivacyCheckValidator.js';
+import { resolveModeBinding } from '../domain/ModeBindings.js';
 
 export class SessionManager {
   private dbManager: DatabaseManager;
@@ -49,6 +53,11 @@ export class SessionManager {
    * Initialize a new session or return existing one
    */
   initializeSession(sessionDbId: number, currentUserPrompt?: string, promptNumber?: number): ActiveSession {
+    // The agent must not see what the stored prompt had redacted (counted when the prompt was saved)
+    if (currentUserPrompt) {
+      currentUserPrompt = redactIncoming(currentUserPrompt, () => {});
+    }
+
     logger.debug('SESSION', 'initializeSession called', {
       sessionDbId,
       promptNumber,
@@ -77,6 +86,16 @@ export class SessionManager {
         session.project = dbSession.project;
       }
 
+      // Pick up a mode bound after the session was cached
+      if (dbSession.mode_id && dbSession.mode_id !== session.modeId) {
+        session.modeId = dbSession.mode_id;
+      }
+
+      // Likewise a namespace bound by a chat integration
+      if (dbSession.namespace_channel && !session.namespace) {
+        session.namespace = { channel: dbSession.namespace_channel, userId: dbSession.namespace_user };
+      }
+
       // Update userPrompt for continuation prompts
       if (currentUserPrompt) {
         logger.debug('SESSION', 'Updating userPrompt for continuation', {
@@ -130,6 +149,8 @@ export class SessionManager {
       contentSessionId: dbSession.content_session_id,
       memorySessionId: dbSession.memory_session_id || null,
       project: dbSession.project,
+      modeId: dbSession.mode_id ?? this.bindMode(dbSession.content_session_id, dbSession.project),
+      namespace: dbSession.namespace_channel ? { channel: dbSession.namespace_channel, userId: dbSession.namespace_user } : null,
       userPrompt,
       pendingMessages: [],
       abortController: new AbortController(),
@@ -139,8 +160,10 @@ export class SessionManager {
       cumulativeInputTokens: 0,
       cumulativeOutputTokens: 0,
       earliestPendingTimestamp: null,
+      pendingGitState: null,
       conversationHistory: [],  // Initialize empty - will be populated by agents
-      currentProvider: null  // Will be set when generator starts
+      currentProvider: null,  // Will be set when generator starts
+      staging: null
     };
 
     logger.debug('SESSION', 'Creating new session object', {
@@ -167,6 +190,23 @@ export class SessionManager {
     return session;
   }
 
+  /**
+   * Bind a session that has no mode yet (the init hook normally binds it
+   * with the working directory; without one only project bindings apply)
+   */
+  private bindMode(contentSessionId: string, project: string): string | null {
+    if (!project) {
+      return null;
+    }
+    try {
+      const { modeId } = resolveModeBinding({ project });
+      return this.dbManager.getSessionStore().setSessionMode(contentSessionId, modeId);
+    } catch (error) {
+      logger.warn('SESSION', 'Could not bind session mode, using the active mode', { contentSessionId }, error as Error);
+      return null;
+    }
+  }
+
   /**
    * Get active session by ID
    */
@@ -180,26 +220,63 @@ export class SessionManager {
    *
    * CRITICAL: Persists to database FIRST before adding to in-memory queue.
    * This ensures observations survive worker crashes.
+   *
+   * New tool uses pass the privacy policy and the redactor here, whichever
+   * client posted them: the hooks apply both before sending, chat
+   * integrations and scripts do not. Replayed events were checked when first
+   * captured.
+   *
+   * @returns false if the privacy policy suppressed the tool use
    */
-  queueObservation(sessionDbId: number, data: ObservationData): void {
+  async queueObservation(sessionDbId: number, data: ObservationData): Promise<boolean> {
     // Auto-initialize from database if needed (handles worker restarts)
     let session = this.sessions.get(sessionDbId);
     if (!session) {
       session = this.initializeSession(sessionDbId);
     }
 
+    let toolInput = data.tool_input;
+    let toolResponse = data.tool_response;
+    if (data.created_at_epoch === undefined) {
+      const store = this.dbManager.getSessionStore();
+      const allowed = PrivacyCheckValidator.checkToolPolicy(store, {
+        contentSessionId: session.contentSessionId,
+        project: session.project,
+        cwd: data.cwd,
+        toolName: data.tool_name,
+        toolInput,
+        toolResponse
+      }, sessionDbId);
+      if (!allowed) {
+        return false;
+      }
+      const contentSessionId = session.contentSessionId;
+      ({ toolInput, toolResponse } = redactIncoming(
+        { toolInput, toolResponse: allowed.toolResponse },
+        counts => store.recordRedactions(contentSessionId, counts)
+      ));
+    }
+
+    // Capture HEAD at tool-use time so observations can later be mapped to commits
+    // (today's HEAD says nothing about a replayed event)
+    const gitState = data.git_head_sha === undefined && data.cwd && data.created_at_epoch === undefined
+      ? await getGitHeadState(data.cwd)
+      : null;
+
     // CRITICAL: Persist to database FIRST
     const message: PendingMessage = {
       type: 'observation',
       tool_name: data.tool_name,
-      tool_input: data.tool_input,
-      tool_response: data.tool_response,
+      tool_input: toolInput,
+      tool_response: toolResponse,
       prompt_number: data.prompt_number,
-      cwd: data.cwd
+      cwd: data.cwd,
+      git_head_sha: data.git_head_sha ?? gitState?.headSha,
+      git_dirty: data.git_dirty ?? gitState?.dirty
     };
 
     try {
-      const messageId = this.getPendingStore().enqueue(sessionDbId, session.contentSessionId, message);
+      const messageId = this.getPendingStore().enqueue(sessionDbId, session.contentSessionId, message, data.created_at_epoch);
       const queueDepth = this.getPendingStore().getPendingCount(sessionDbId);
       const toolSummary = logger.formatTool(data.tool_name, data.tool_input);
       logger.info('QUEUE', `ENQUEUED | sessionDbId=${sessionDbId} | messageId=${messageId} | type=observation | tool=${toolSummary} | depth=${queueDepth}`, {
@@ -216,6 +293,7 @@ export class SessionManager {
     // Notify generator immediately (zero latency)
     const emitter = this.sessionQueues.get(sessionDbId);
     emitter?.emit('message');
+    return true;
   }
 
   /**
@@ -387,6 +465,11 @@ export class SessionManager {
         session.earliestPendingTimestamp = Math.min(session.earliestPendingTimestamp, message._originalTimestamp);
       }
 
+      // Earliest git state wins too: its HEAD is the base for commit reconciliation
+      if (session.pendingGitState === null && message.git_head_sha) {
+        session.pendingGitState = { headSha: message.git_head_sha, dirty: message.git_dirty ?? false };
+      }
+
       yield message;
     }
   }
@@ -2,17 +2,17 @@
  * FallbackErrorHandler: Error detection for provider fallback
  *
  * Responsibility:
- * - Determine if an error should trigger fallback to Claude SDK
- * - Provide consistent error classification across Gemini and OpenRouter
+ * - Determine if a provider error should fail over to the next provider
+ * - Provide consistent error classification across all providers
  */
 
 import { FALLBACK_ERROR_PATTERNS } from './types.js';
 import { logger } from '../../../utils/logger.js';
 
 /**
- * Check if an error should trigger fallback to Claude SDK
+ * Check if a provider error should fail over to the next provider in the chain
  *
- * Errors that trigger fallback:
+ * Errors that trigger failover:
  * - 429: Rate limit exceeded
  * - 500/502/503: Server errors
  * - ECONNREFUSED: Connection refused (server down)
@@ -20,18 +20,26 @@ import { logger } from '../../../utils/logger.js';
  * - fetch failed: Network failure
  *
  * @param error - Error object to check
- * @returns true if the error should trigger fallback to Claude
+ * @returns true if the error should trigger failover
  */
-export function shouldFallbackToClaude(error: unknown): boolean {
+export function shouldFailover(error: unknown): boolean {
   const message = getErrorMessage(error);
 
   return FALLBACK_ERROR_PATTERNS.some(pattern => message.includes(pattern));
 }
 
+/**
+ * Check if an error should trigger fallback to Claude SDK
+ * @deprecated Use shouldFailover() - kept for agents with a direct Claude fallback
+ */
+export function shouldFallbackToClaude(error: unknown): boolean {
+  return shouldFailover(error);
+}
+
 /**
  * Extract error message from various error types
  */
-function getErrorMessage(error: unknown): string {
+export function getErrorMessage(error: unknown): string {
   if (error === null || error === undefined) {
     return '';
   }
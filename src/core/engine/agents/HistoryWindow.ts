@@ -0,0 +1,67 @@
+/**
+ * HistoryWindow: Conversation history truncation for REST-based agents
+ *
+ * Responsibility:
+ * - Keep the most recent messages within a message count and token budget
+ * - Shared by agents that resend the full history on every request
+ *   (OpenRouter, OpenAI-compatible)
+ */
+
+import type { ConversationMessage } from '../../engine-types.js';
+import { logger } from '../../../utils/logger.js';
+
+const CHARS_PER_TOKEN_ESTIMATE = 4;  // Conservative estimate: 1 token = 4 chars
+
+export interface HistoryWindowLimits {
+  maxMessages: number;
+  maxTokens: number;
+}
+
+/**
+ * Estimate token count from text (conservative estimate)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Truncate conversation history to prevent runaway context costs
+ * Keeps most recent messages within the limits (sliding window)
+ */
+export function truncateHistory(
+  history: ConversationMessage[],
+  limits: HistoryWindowLimits
+): ConversationMessage[] {
+  if (history.length <= limits.maxMessages) {
+    // Check token count even if message count is ok
+    const totalTokens = history.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    if (totalTokens <= limits.maxTokens) {
+      return history;
+    }
+  }
+
+  const truncated: ConversationMessage[] = [];
+  let tokenCount = 0;
+
+  // Process messages in reverse (most recent first)
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    const msgTokens = estimateTokens(msg.content);
+
+    if (truncated.length >= limits.maxMessages || tokenCount + msgTokens > limits.maxTokens) {
+      logger.warn('SDK', 'Context window truncated to prevent runaway costs', {
+        originalMessages: history.length,
+        keptMessages: truncated.length,
+        droppedMessages: i + 1,
+        estimatedTokens: tokenCount,
+        tokenLimit: limits.maxTokens
+      });
+      break;
+    }
+
+    truncated.unshift(msg);  // Add to beginning
+    tokenCount += msgTokens;
+  }
+
+  return truncated;
+}
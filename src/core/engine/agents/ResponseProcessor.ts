@@ -16,11 +16,36 @@ import { parseObservations, parseSummary, type ParsedObservation, type ParsedSum
 import { updateFolderClaudeMdFiles } from '../../../utils/claude-md-utils.js';
 import { getWorkerPort } from '../../../common/engine-utils.js';
 import type { ActiveSession } from '../../worker-types.js';
+import type { NamespaceScope } from '../../../types/database.js';
 import type { DatabaseManager } from '../DatabaseManager.js';
+import type { SessionStore } from '../../storage/DataStore.js';
 import type { SessionManager } from '../SessionManager.js';
 import type { WorkerRef, StorageResult } from './types.js';
 import { broadcastObservation, broadcastSummary } from './ObservationBroadcaster.js';
 import { cleanupProcessedMessages } from './SessionCleanupHelper.js';
+import { reconcileObservationCommits } from '../CommitReconciler.js';
+import { hashReferencedFiles } from '../../../utils/file-hashes.js';
+import { resolveObservationScope } from '../../domain/NamespaceSharing.js';
+
+/**
+ * Attach a sharing scope to each observation of a chat session, from
+ * MOLTBRAIN_NAMESPACE_SHARING. Other sessions' observations have no namespace.
+ */
+function scopeObservations(observations: ParsedObservation[], session: ActiveSession): Array<ParsedObservation & { scope?: NamespaceScope }> {
+  const namespace = session.namespace;
+  if (!namespace || observations.length === 0) {
+    return observations;
+  }
+  return observations.map(observation => ({
+    ...observation,
+    scope: resolveObservationScope({
+      project: session.project,
+      channel: namespace.channel,
+      type: observation.type,
+      concepts: observation.concepts
+    })
+  }));
+}
 
 /**
  * Process agent response text (parse XML, save to database, sync to Chroma, broadcast SSE)
@@ -31,7 +56,10 @@ import { cleanupProcessedMessages } from './SessionCleanupHelper.js';
  * 3. Atomic database transaction to store observations + summary
  * 4. Async Chroma sync (fire-and-forget, failures are non-critical)
  * 5. SSE broadcast to web UI clients
- * 6. Session cleanup
+ * 6. Commit reconciliation after a summary
+ * 7. Session cleanup
+ *
+ * Replay sessions (session.staging) only parse and stage observations.
  *
  * @param text - Response text from the agent
  * @param session - Active session being processed
@@ -59,7 +87,7 @@ export async function processAgentResponse(
   }
 
   // Parse observations and summary
-  const observations = parseObservations(text, session.contentSessionId);
+  const observations = scopeObservations(parseObservations(text, session.contentSessionId, session.modeId), session);
   const summary = parseSummary(text, session.sessionDbId);
 
   // Convert nullable fields to empty strings for storeSummary (if summary exists)
@@ -68,6 +96,24 @@ export async function processAgentResponse(
   // Get session store for atomic transaction
   const sessionStore = dbManager.getSessionStore();
 
+  // Replay sessions write to their reprocess run's staging generation; nothing
+  // reaches live memory, vector search, the viewer or CLAUDE.md until it is applied
+  if (session.staging) {
+    const stagedIds = sessionStore.stageObservations(
+      session.staging,
+      session.project,
+      observations,
+      session.lastPromptNumber,
+      discoveryTokens,
+      originalTimestamp ?? undefined
+    );
+    logger.info('DB', `STAGED | sessionDbId=${session.sessionDbId} | runId=${session.staging.runId} | memorySessionId=${session.staging.memorySessionId} | obsCount=${stagedIds.length}`, {
+      sessionId: session.sessionDbId
+    });
+    cleanupProcessedMessages(session, worker);
+    return;
+  }
+
   // CRITICAL: Must use memorySessionId (not contentSessionId) for FK constraint
   if (!session.memorySessionId) {
     throw new Error('Cannot store observations: memorySessionId not yet captured');
@@ -88,7 +134,8 @@ export async function processAgentResponse(
     summaryForStore,
     session.lastPromptNumber,
     discoveryTokens,
-    originalTimestamp ?? undefined
+    originalTimestamp ?? undefined,
+    session.pendingGitState
   );
 
   // Log storage result with IDs for end-to-end traceability
@@ -97,6 +144,11 @@ export async function processAgentResponse(
     memorySessionId: session.memorySessionId
   });
 
+  // Record referenced file contents so stale memories can be detected later
+  if (projectRoot) {
+    recordFileHashes(observations, result.observationIds, sessionStore, projectRoot);
+  }
+
   // AFTER transaction commits - async operations (can fail safely without data loss)
   await syncAndBroadcastObservations(
     observations,
@@ -121,10 +173,41 @@ export async function processAgentResponse(
     agentName
   );
 
+  // Summary marks the end of a session turn: map earlier observations to the
+  // commits that picked up their changes (non-critical, never blocks storage)
+  if (summaryForStore && projectRoot) {
+    try {
+      await reconcileObservationCommits(sessionStore, session.project, projectRoot);
+    } catch (error) {
+      logger.warn('DB', 'Commit reconciliation failed', { sessionId: session.sessionDbId }, error as Error);
+    }
+  }
+
   // Clean up session state
   cleanupProcessedMessages(session, worker);
 }
 
+/**
+ * Hash the files each stored observation references (non-critical)
+ */
+function recordFileHashes(
+  observations: ParsedObservation[],
+  observationIds: number[],
+  sessionStore: SessionStore,
+  projectRoot: string
+): void {
+  observations.forEach((obs, i) => {
+    const files = [...obs.files_read, ...obs.files_modified];
+    if (files.length === 0 || observationIds[i] === undefined) return;
+
+    try {
+      sessionStore.setObservationFileHashes(observationIds[i], hashReferencedFiles(files, projectRoot));
+    } catch (error) {
+      logger.debug('DB', 'Failed to record file hashes', { observationId: observationIds[i] }, error as Error);
+    }
+  });
+}
+
 /**
  * Normalize summary for storage (convert null fields to empty strings)
  */
@@ -2,7 +2,7 @@
  * SessionCleanupHelper: Session state cleanup after response processing
  *
  * Responsibility:
- * - Reset earliest pending timestamp
+ * - Reset earliest pending timestamp and git state
  * - Broadcast processing status updates
  *
  * NOTE: With claim-and-delete queue pattern, messages are deleted on claim,
@@ -17,7 +17,7 @@ import type { WorkerRef } from './types.js';
  * Clean up session state after response processing
  *
  * With claim-and-delete queue pattern, this function simply:
- * 1. Resets the earliest pending timestamp
+ * 1. Resets the earliest pending timestamp and git state
  * 2. Broadcasts updated processing status to SSE clients
  *
  * @param session - Active session to clean up
@@ -29,6 +29,7 @@ export function cleanupProcessedMessages(
 ): void {
   // Reset earliest pending timestamp for next batch
   session.earliestPendingTimestamp = null;
+  session.pendingGitState = null;
 
   // Broadcast activity status after processing (queue may have changed)
   if (worker && typeof worker.broadcastProcessingStatus === 'function') {
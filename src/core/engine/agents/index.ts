@@ -20,6 +20,9 @@ export type {
   ResponseProcessingContext,
   ParsedResponse,
   FallbackAgent,
+  CompletionAgent,
+  ProviderName,
+  ProviderHealthReporter,
   BaseAgentConfig,
 } from './types.js';
 
@@ -31,8 +34,12 @@ export { processAgentResponse } from './ResponseProcessor.js';
 // SSE Broadcasting
 export { broadcastObservation, broadcastSummary } from './ObservationBroadcaster.js';
 
+// Conversation History Window
+export { truncateHistory, estimateTokens } from './HistoryWindow.js';
+export type { HistoryWindowLimits } from './HistoryWindow.js';
+
 // Session Cleanup
 export { cleanupProcessedMessages } from './SessionCleanupHelper.js';
 
 // Error Handling
-export { shouldFallbackToClaude, isAbortError } from './FallbackErrorHandler.js';
+export { shouldFailover, shouldFallbackToClaude, isAbortError, getErrorMessage } from './FallbackErrorHandler.js';
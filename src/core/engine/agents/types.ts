@@ -107,6 +107,33 @@ export interface FallbackAgent {
   startSession(session: ActiveSession, worker?: WorkerRef): Promise<void>;
 }
 
+// ============================================================================
+// Provider Routing Interface
+// ============================================================================
+
+export type ProviderName = 'claude' | 'gemini' | 'openrouter' | 'openai-compatible';
+
+/**
+ * Hooks an agent uses to report provider health to the router and to learn
+ * when it should hand its session over to a healthier provider
+ */
+export interface ProviderHealthReporter {
+  recordSuccess(provider: ProviderName, latencyMs: number): void;
+  shouldHandOff(session: ActiveSession, provider: ProviderName): boolean;
+}
+
+// ============================================================================
+// One-shot Completion Interface
+// ============================================================================
+
+/**
+ * Interface for agents that can answer a single prompt outside a session
+ * (used by background jobs such as memory consolidation)
+ */
+export interface CompletionAgent {
+  complete(prompt: string): Promise<string>;
+}
+
 // ============================================================================
 // Agent Configuration Types
 // ============================================================================
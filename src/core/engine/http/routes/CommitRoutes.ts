@@ -0,0 +1,63 @@
+/**
+ * Commit Routes
+ *
+ * Endpoints linking observations and git commits:
+ * - GET /api/observations/by-commit/:sha  Observations whose changes landed in a commit (MCP format)
+ * - GET /api/observations/:id/commits     Commits that contained an observation's changes
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { SearchManager } from '../../SearchManager.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+
+export class CommitRoutes implements RouteHandler {
+  constructor(
+    private searchManager: SearchManager,
+    private dbManager: DatabaseManager
+  ) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/observations/by-commit/:sha', asyncHandler(this.handleByCommit.bind(this)));
+    app.get('/api/observations/:id/commits', asyncHandler(this.handleGetCommits.bind(this)));
+  }
+
+  /**
+   * Observations explaining a commit, formatted for MCP
+   * Query: project (optional)
+   */
+  private async handleByCommit(req: Request, res: Response): Promise<void> {
+    const result = await this.searchManager.findByCommit({
+      sha: req.params.sha,
+      project: req.query.project
+    });
+    res.json(result);
+  }
+
+  /**
+   * Commits that picked up an observation's file changes
+   */
+  private async handleGetCommits(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const observation = store.getObservationById(id);
+    if (!observation) {
+      res.status(404).json({ error: `Observation ${id} not found` });
+      return;
+    }
+
+    res.json({
+      observationId: id,
+      capturedAt: observation.git_head_sha
+        ? { headSha: observation.git_head_sha, dirty: observation.git_dirty === 1 }
+        : null,
+      commits: store.getCommitsForObservation(id).map(row => row.commit_sha)
+    });
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Consolidation Routes
+ *
+ * Endpoints for the memory consolidation job:
+ * - POST /api/consolidation/run            Run a pass (supports dryRun)
+ * - GET  /api/consolidation/:id/originals  Observations superseded by a consolidated one
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { requireLocalhost } from '../../../api/Middleware.js';
+import { ConsolidationService } from '../../ConsolidationService.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+
+export class ConsolidationRoutes implements RouteHandler {
+  constructor(
+    private consolidationService: ConsolidationService,
+    private dbManager: DatabaseManager
+  ) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/consolidation/run', requireLocalhost, asyncHandler(this.handleRun.bind(this)));
+    app.get('/api/consolidation/:id/originals', asyncHandler(this.handleGetOriginals.bind(this)));
+  }
+
+  /**
+   * Run a consolidation pass
+   * Body: { project?: string, dryRun?: boolean, maxClusters?: number }
+   */
+  private async handleRun(req: Request, res: Response): Promise<void> {
+    const { project, dryRun, maxClusters } = req.body ?? {};
+
+    if (project !== undefined && typeof project !== 'string') {
+      res.status(400).json({ error: 'project must be a string' });
+      return;
+    }
+    if (maxClusters !== undefined && (!Number.isInteger(maxClusters) || maxClusters < 1)) {
+      res.status(400).json({ error: 'maxClusters must be a positive integer' });
+      return;
+    }
+    if (this.consolidationService.isRunning()) {
+      res.status(409).json({ error: 'Consolidation already in progress' });
+      return;
+    }
+
+    const report = await this.consolidationService.run({
+      project: project || undefined,
+      dryRun: dryRun === true,
+      maxClusters
+    });
+
+    res.json(report);
+  }
+
+  /**
+   * List the original observations merged into a consolidated observation
+   */
+  private async handleGetOriginals(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const consolidated = store.getObservationById(id);
+    if (!consolidated) {
+      res.status(404).json({ error: `Observation ${id} not found` });
+      return;
+    }
+
+    res.json({
+      observation: consolidated,
+      originals: store.getSupersededObservations(id)
+    });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Favorites Routes
+ *
+ * Endpoints for favorited observations:
+ * - GET    /api/favorites       List favorites (query: project, pinned=true)
+ * - PUT    /api/favorites/:id   Favorite an observation or update its note/pin
+ * - DELETE /api/favorites/:id   Remove an observation from favorites
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+
+export class FavoritesRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/favorites', asyncHandler(this.handleList.bind(this)));
+    app.put('/api/favorites/:id', asyncHandler(this.handleSet.bind(this)));
+    app.delete('/api/favorites/:id', asyncHandler(this.handleRemove.bind(this)));
+  }
+
+  private async handleList(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' ? req.query.project : undefined;
+    const favorites = this.dbManager.getSessionStore().getFavorites({
+      project,
+      pinnedOnly: req.query.pinned === 'true'
+    });
+    res.json({ favorites });
+  }
+
+  /**
+   * Body: { note?: string | null, pinned?: boolean }
+   */
+  private async handleSet(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const { note, pinned } = req.body ?? {};
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      res.status(400).json({ error: 'note must be a string' });
+      return;
+    }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      res.status(400).json({ error: 'pinned must be a boolean' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    if (!store.getObservationById(id)) {
+      res.status(404).json({ error: `Observation ${id} not found` });
+      return;
+    }
+
+    res.json({ favorite: store.setFavorite(id, { note, pinned }) });
+  }
+
+  private async handleRemove(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    res.json({ removed: this.dbManager.getSessionStore().removeFavorite(id) });
+  }
+}
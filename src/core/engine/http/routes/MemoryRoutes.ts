@@ -0,0 +1,148 @@
+/**
+ * Memory Routes
+ *
+ * Endpoints for memories saved explicitly through chat tools:
+ * - GET  /api/memories/types   Memory types and concepts a project's chat sessions accept
+ *                               (query: project, types to resolve)
+ * - POST /api/memories         Save a memory for a channel (and user) as an observation
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { ModeManager } from '../../../domain/ModeManager.js';
+import {
+  MemoryTypeError,
+  acceptedMemoryTypes,
+  chatModeForProject,
+  resolveMemoryConcepts,
+  resolveMemoryType
+} from '../../../domain/MemoryTypes.js';
+import { resolveObservationScope } from '../../../domain/NamespaceSharing.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { logger } from '../../../../utils/logger.js';
+import { redactIncoming } from '../../../../utils/redaction.js';
+
+/** Longest title derived from a memory's content */
+const MAX_DERIVED_TITLE_LENGTH = 80;
+
+/**
+ * Optional string field: undefined/null/'' become null, other non-strings are invalid
+ */
+function optionalString(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' ? value : undefined;
+}
+
+function deriveTitle(content: string): string {
+  const firstLine = content.trim().split('\n')[0].trim();
+  return firstLine.length > MAX_DERIVED_TITLE_LENGTH ? `${firstLine.slice(0, MAX_DERIVED_TITLE_LENGTH - 1)}…` : firstLine;
+}
+
+export class MemoryRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/memories/types', asyncHandler(this.handleListTypes.bind(this)));
+    app.post('/api/memories', asyncHandler(this.handleSave.bind(this)));
+  }
+
+  /**
+   * With `types` (comma-separated), also resolves each to the observation
+   * type it is stored and searched as; unknown types are rejected with 400.
+   */
+  private async handleListTypes(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' ? req.query.project : '';
+    const modeId = chatModeForProject(project);
+    const mode = ModeManager.getInstance().getMode(modeId);
+
+    const requested = typeof req.query.types === 'string' ? req.query.types.split(',').map(type => type.trim()).filter(Boolean) : [];
+    const resolved: Record<string, string> = {};
+    try {
+      for (const type of requested) {
+        resolved[type] = resolveMemoryType(type, mode.observation_types, modeId);
+      }
+    } catch (error) {
+      if (error instanceof MemoryTypeError) {
+        res.status(400).json({ error: error.message, accepted: error.accepted });
+        return;
+      }
+      throw error;
+    }
+
+    res.json({
+      mode: modeId,
+      types: acceptedMemoryTypes(mode.observation_types),
+      concepts: mode.observation_concepts.map(concept => concept.id),
+      resolved
+    });
+  }
+
+  /**
+   * Body: { project, channel, userId?, userName?, type, content, title?, concepts? }.
+   * The type and concepts are checked against the mode of the project's chat
+   * sessions; unknown ones are rejected with 400 and the values it accepts.
+   * Content and title are redacted like captured tool uses; the hits count
+   * toward the memory session's redaction stats.
+   */
+  private async handleSave(req: Request, res: Response): Promise<void> {
+    const { project, channel, type, content, title, concepts = [] } = req.body ?? {};
+    const userId = optionalString(req.body?.userId);
+    const userName = optionalString(req.body?.userName);
+    const missing = Object.entries({ project, channel, type, content })
+      .filter(([, value]) => typeof value !== 'string' || !value.trim())
+      .map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (userId === undefined || userName === undefined || optionalString(title) === undefined
+      || !Array.isArray(concepts) || concepts.some(concept => typeof concept !== 'string')) {
+      res.status(400).json({ error: 'userId, userName and title must be strings and concepts an array of strings' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const session = store.getToolMemorySession(project, channel, userId, userName, chatModeForProject(project));
+    const mode = ModeManager.getInstance().getMode(session.modeId);
+    let observationType: string;
+    let observationConcepts: string[];
+    try {
+      observationType = resolveMemoryType(type, mode.observation_types, session.modeId);
+      observationConcepts = resolveMemoryConcepts(concepts, mode.observation_concepts, session.modeId);
+    } catch (error) {
+      if (error instanceof MemoryTypeError) {
+        res.status(400).json({ error: error.message, accepted: error.accepted });
+        return;
+      }
+      throw error;
+    }
+
+    // Tool sessions use the same ID as content and memory session
+    const redacted = redactIncoming(
+      { content: content.trim(), title: title?.trim() || deriveTitle(content) },
+      counts => store.recordRedactions(session.memorySessionId, counts)
+    );
+
+    const observation = {
+      type: observationType,
+      title: redacted.title,
+      subtitle: null,
+      facts: [],
+      narrative: redacted.content,
+      concepts: observationConcepts,
+      files_read: [],
+      files_modified: [],
+      scope: resolveObservationScope({ project, channel, type: observationType, concepts: observationConcepts })
+    };
+    const { id, createdAtEpoch } = store.storeObservation(session.memorySessionId, project, observation);
+
+    this.dbManager.getVectorBackend()
+      .syncObservation(id, session.memorySessionId, project, observation, 0, createdAtEpoch)
+      .catch(error => {
+        logger.error('VECTOR', 'Saved memory sync failed, continuing without vector search', { obsId: id }, error);
+      });
+
+    res.json({ id, type: observationType, concepts: observationConcepts, scope: observation.scope, createdAtEpoch });
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Mode Routes
+ *
+ * Endpoints for modes:
+ * - GET    /api/modes            List installed and user modes
+ * - GET    /api/modes/validate   Validate installed modes (query: mode, default all)
+ * - POST   /api/modes/validate   Validate a submitted definition without installing it
+ * - POST   /api/modes/preview    Validate a definition and render its prompts for a sample tool event
+ * - GET    /api/modes/:id        A mode's file and its resolved configuration
+ * - PUT    /api/modes/:id        Save a user mode (installed modes are read-only)
+ * - DELETE /api/modes/:id        Delete a user mode
+ * - POST   /api/sessions/mode    Bind a new session to its project's mode
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { requireLocalhost } from '../../../api/Middleware.js';
+import { ModeManager } from '../../../domain/ModeManager.js';
+import { isValidModeId } from '../../../domain/ModeValidator.js';
+import { resolveModeBinding } from '../../../domain/ModeBindings.js';
+import { buildPromptPreview, DEFAULT_PREVIEW_SAMPLE } from '../../../../parser/prompts.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { logger } from '../../../../utils/logger.js';
+
+export class ModeRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/modes', asyncHandler(this.handleListModes.bind(this)));
+    app.get('/api/modes/validate', asyncHandler(this.handleValidateInstalled.bind(this)));
+    app.post('/api/modes/validate', asyncHandler(this.handleValidateDefinition.bind(this)));
+    app.post('/api/modes/preview', asyncHandler(this.handlePreview.bind(this)));
+    app.get('/api/modes/:id', asyncHandler(this.handleGetMode.bind(this)));
+    app.put('/api/modes/:id', requireLocalhost, asyncHandler(this.handleSaveMode.bind(this)));
+    app.delete('/api/modes/:id', requireLocalhost, asyncHandler(this.handleDeleteMode.bind(this)));
+    app.post('/api/sessions/mode', asyncHandler(this.handleBindSession.bind(this)));
+  }
+
+  private async handleListModes(_req: Request, res: Response): Promise<void> {
+    const modeManager = ModeManager.getInstance();
+    const modes = modeManager.listModeIds().map(modeId => {
+      const { report, mode } = modeManager.inspectMode(modeId);
+      return {
+        id: modeId,
+        name: mode?.name ?? modeId,
+        description: mode?.description ?? '',
+        source: modeManager.getModeSource(modeId),
+        parent: modeId.includes('--') ? modeId.split('--')[0] : null,
+        format: report.format,
+        valid: report.valid
+      };
+    });
+    res.json({ modes });
+  }
+
+  private async handleGetMode(req: Request, res: Response): Promise<void> {
+    const modeManager = ModeManager.getInstance();
+    const modeId = req.params.id;
+    const source = modeManager.getModeSource(modeId);
+    if (!source) {
+      res.status(404).json({ error: `Mode not found: ${modeId}` });
+      return;
+    }
+
+    const { report, mode } = modeManager.inspectMode(modeId);
+    res.json({
+      id: modeId,
+      source,
+      parent: modeId.includes('--') ? modeId.split('--')[0] : null,
+      definition: modeManager.getModeDefinition(modeId),
+      mode,
+      report
+    });
+  }
+
+  /**
+   * Body: { id, definition, sample? }. `sample` overrides fields of the
+   * default tool event (tool_name, tool_input, tool_output, user_prompt, ...).
+   * Prompts are null while the definition has errors.
+   */
+  private async handlePreview(req: Request, res: Response): Promise<void> {
+    const { id, definition, sample } = req.body ?? {};
+    if (typeof id !== 'string' || !id) {
+      res.status(400).json({ error: 'Missing fields: id' });
+      return;
+    }
+    if (!this.checkModeId(id, res)) {
+      return;
+    }
+    if (definition === undefined) {
+      res.status(400).json({ error: 'Missing fields: definition' });
+      return;
+    }
+
+    const { report, mode } = ModeManager.getInstance().inspectMode(id, definition);
+    const previewSample = sample && typeof sample === 'object' && !Array.isArray(sample)
+      ? { ...DEFAULT_PREVIEW_SAMPLE, ...sample }
+      : DEFAULT_PREVIEW_SAMPLE;
+    res.json({ report, mode, prompts: mode ? buildPromptPreview(mode, previewSample) : null });
+  }
+
+  /**
+   * Body: { definition }. Responds 400 with the report when it has errors.
+   */
+  private async handleSaveMode(req: Request, res: Response): Promise<void> {
+    const modeManager = ModeManager.getInstance();
+    const modeId = req.params.id;
+    if (!this.checkModeId(modeId, res)) {
+      return;
+    }
+    const { definition } = req.body ?? {};
+    if (definition === undefined) {
+      res.status(400).json({ error: 'Missing fields: definition' });
+      return;
+    }
+    if (modeManager.getModeSource(modeId) === 'builtin') {
+      res.status(409).json({ error: `Mode '${modeId}' is installed and cannot be changed; save it under a new ID` });
+      return;
+    }
+
+    const report = modeManager.saveUserMode(modeId, definition);
+    res.status(report.valid ? 200 : 400).json({ saved: report.valid, report });
+  }
+
+  private async handleDeleteMode(req: Request, res: Response): Promise<void> {
+    const modeManager = ModeManager.getInstance();
+    const modeId = req.params.id;
+    if (!this.checkModeId(modeId, res)) {
+      return;
+    }
+    if (modeManager.getModeSource(modeId) === 'builtin') {
+      res.status(409).json({ error: `Mode '${modeId}' is installed and cannot be deleted` });
+      return;
+    }
+    if (!modeManager.deleteUserMode(modeId)) {
+      res.status(404).json({ error: `Mode not found: ${modeId}` });
+      return;
+    }
+    res.json({ deleted: modeId });
+  }
+
+  private async handleValidateInstalled(req: Request, res: Response): Promise<void> {
+    const modeManager = ModeManager.getInstance();
+    const modeIds = typeof req.query.mode === 'string' && req.query.mode ? [req.query.mode] : modeManager.listModeIds();
+    const reports = modeIds.map(modeId => modeManager.validateMode(modeId));
+    res.json({ valid: reports.every(report => report.valid), reports });
+  }
+
+  /**
+   * Body: { id, definition }. The id decides how the definition is checked:
+   * `code--xx` is validated as an overlay on `code`.
+   */
+  private async handleValidateDefinition(req: Request, res: Response): Promise<void> {
+    const { id, definition } = req.body ?? {};
+    if (typeof id !== 'string' || !id) {
+      res.status(400).json({ error: 'Missing fields: id' });
+      return;
+    }
+    if (!this.checkModeId(id, res)) {
+      return;
+    }
+    if (definition === undefined) {
+      res.status(400).json({ error: 'Missing fields: definition' });
+      return;
+    }
+
+    res.json(ModeManager.getInstance().validateMode(id, definition));
+  }
+
+  /**
+   * Body: { contentSessionId, project, cwd? }. Sessions keep the first mode
+   * they are bound to, so later prompts get the same answer.
+   */
+  private async handleBindSession(req: Request, res: Response): Promise<void> {
+    const { contentSessionId, project, cwd } = req.body ?? {};
+    const missing = Object.entries({ contentSessionId, project }).filter(([, value]) => typeof value !== 'string' || !value).map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+
+    const resolution = resolveModeBinding({ project, cwd: typeof cwd === 'string' && cwd ? cwd : undefined });
+    if (!ModeManager.getInstance().listModeIds().includes(resolution.modeId)) {
+      logger.warn('SYSTEM', `Mode '${resolution.modeId}' is not installed, sessions bound to it fall back to 'code'`, { project });
+    }
+
+    const modeId = this.dbManager.getSessionStore().setSessionMode(contentSessionId, resolution.modeId);
+    if (!modeId) {
+      res.status(404).json({ error: `Session not found: ${contentSessionId}` });
+      return;
+    }
+    res.json({ modeId, binding: modeId === resolution.modeId ? resolution.binding : null });
+  }
+
+  /**
+   * Mode ids are file names; params arrive URL-decoded, so `..%2F` must not
+   * reach the modes directory. Responds 400 and returns false when invalid.
+   */
+  private checkModeId(modeId: string, res: Response): boolean {
+    if (isValidModeId(modeId)) {
+      return true;
+    }
+    res.status(400).json({ error: `Invalid mode id: ${modeId} (use lowercase letters, digits and dashes, e.g. code--pt-br)` });
+    return false;
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * MoltBook Routes
+ *
+ * Endpoints the MoltBook integration publishes memories through:
+ * - POST /api/moltbook/preview                 Render and redact the post for a selection
+ * - POST /api/moltbook/posts                   Record a post MoltBook accepted
+ * - GET  /api/moltbook/posts                   Published posts (query: project)
+ * - POST /api/moltbook/posts/:postId/replies   Store replies as discovery observations
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { requireLocalhost } from '../../../api/Middleware.js';
+import { PublishError, PublishService, type MoltBookReply } from '../../PublishService.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(id => Number.isInteger(id) && id > 0);
+}
+
+function isReply(value: unknown): value is MoltBookReply {
+  const reply = value as MoltBookReply | null;
+  return !!reply && typeof reply.id === 'string' && !!reply.id && typeof reply.content === 'string'
+    && (reply.author === null || typeof reply.author === 'string') && typeof reply.createdAt === 'string';
+}
+
+export class MoltBookRoutes implements RouteHandler {
+  constructor(
+    private publishService: PublishService,
+    private dbManager: DatabaseManager
+  ) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/moltbook/preview', asyncHandler(this.handlePreview.bind(this)));
+    app.post('/api/moltbook/posts', requireLocalhost, asyncHandler(this.handleRecordPost.bind(this)));
+    app.get('/api/moltbook/posts', asyncHandler(this.handleListPosts.bind(this)));
+    app.post('/api/moltbook/posts/:postId/replies', requireLocalhost, asyncHandler(this.handleStoreReplies.bind(this)));
+  }
+
+  /**
+   * Body: { observationIds?: number[], summaryId?: number, title?: string }
+   */
+  private async handlePreview(req: Request, res: Response): Promise<void> {
+    const { observationIds = [], summaryId, title } = req.body ?? {};
+    if (!isIdList(observationIds) || (summaryId !== undefined && !isIdList([summaryId]))
+      || (title !== undefined && typeof title !== 'string')) {
+      res.status(400).json({ error: 'observationIds must be an array of IDs, summaryId an ID and title a string' });
+      return;
+    }
+
+    this.respond(res, () => this.publishService.preview({ observationIds, summaryId, title }));
+  }
+
+  /**
+   * Body: { postId, project, submolt, title, observationIds, summaryId? }.
+   * Each observation and summary keeps the first post it was published in.
+   */
+  private async handleRecordPost(req: Request, res: Response): Promise<void> {
+    const { postId, project, submolt, title, observationIds = [], summaryId } = req.body ?? {};
+    const missing = Object.entries({ postId, project, submolt, title })
+      .filter(([, value]) => typeof value !== 'string' || !value)
+      .map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (!isIdList(observationIds) || (summaryId !== undefined && summaryId !== null && !isIdList([summaryId]))) {
+      res.status(400).json({ error: 'observationIds must be an array of IDs and summaryId an ID' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    if (store.getMoltBookPost(postId)) {
+      res.status(409).json({ error: `MoltBook post already recorded: ${postId}` });
+      return;
+    }
+    res.json({ post: store.recordMoltBookPost({ postId, project, submolt, title, observationIds, summaryId }) });
+  }
+
+  private async handleListPosts(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' && req.query.project ? req.query.project : undefined;
+    res.json({ posts: this.publishService.getPosts(project) });
+  }
+
+  /**
+   * Body: { comments: Array<{ id, author, content, createdAt }> }
+   */
+  private async handleStoreReplies(req: Request, res: Response): Promise<void> {
+    const { comments } = req.body ?? {};
+    if (!Array.isArray(comments) || !comments.every(isReply)) {
+      res.status(400).json({ error: 'comments must be an array of { id, author, content, createdAt }' });
+      return;
+    }
+
+    this.respond(res, () => this.publishService.storeReplies(req.params.postId, comments));
+  }
+
+  private respond(res: Response, action: () => unknown): void {
+    try {
+      res.json(action());
+    } catch (error) {
+      if (error instanceof PublishError) {
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Namespace Routes
+ *
+ * Endpoints for chat memory namespaces (a channel, and optionally a user,
+ * within a project):
+ * - POST /api/sessions/namespace   Bind a chat session to its channel and user (and the chat mode)
+ * - GET  /api/namespaces           Namespaces with their counts (query: project)
+ * - POST /api/namespaces/purge     Delete a namespace's sessions and memories
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { requireLocalhost } from '../../../api/Middleware.js';
+import { chatModeForProject } from '../../../domain/MemoryTypes.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { logger } from '../../../../utils/logger.js';
+
+/**
+ * Optional string field: undefined/null/'' become null, other non-strings are invalid
+ */
+function optionalString(value: unknown): string | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  return typeof value === 'string' ? value : undefined;
+}
+
+export class NamespaceRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/sessions/namespace', asyncHandler(this.handleBindSession.bind(this)));
+    app.get('/api/namespaces', asyncHandler(this.handleListNamespaces.bind(this)));
+    app.post('/api/namespaces/purge', requireLocalhost, asyncHandler(this.handlePurge.bind(this)));
+  }
+
+  /**
+   * Body: { contentSessionId, channel, userId?, userName?, project? }. The
+   * first binding of a session wins; the response carries the bound namespace.
+   * Chat sessions observe in the chat mode unless a mode binding matches
+   * `project`.
+   */
+  private async handleBindSession(req: Request, res: Response): Promise<void> {
+    const { contentSessionId, channel, project } = req.body ?? {};
+    const userId = optionalString(req.body?.userId);
+    const userName = optionalString(req.body?.userName);
+    const missing = Object.entries({ contentSessionId, channel }).filter(([, value]) => typeof value !== 'string' || !value).map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (userId === undefined || userName === undefined) {
+      res.status(400).json({ error: 'userId and userName must be strings' });
+      return;
+    }
+
+    const namespace = this.dbManager.getSessionStore().setSessionNamespace(contentSessionId, channel, userId, userName);
+    if (!namespace) {
+      res.status(404).json({ error: `Session not found: ${contentSessionId}` });
+      return;
+    }
+    const modeId = this.dbManager.getSessionStore().setSessionMode(contentSessionId, chatModeForProject(typeof project === 'string' ? project : ''));
+    res.json({ namespace, modeId });
+  }
+
+  private async handleListNamespaces(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' && req.query.project ? req.query.project : undefined;
+    res.json({ namespaces: this.dbManager.getSessionStore().getNamespaces(project) });
+  }
+
+  /**
+   * Body: { project, channel, userId? }. Without a user, purges the
+   * channel's sessions that have no user; each user is purged separately.
+   */
+  private async handlePurge(req: Request, res: Response): Promise<void> {
+    const { project, channel } = req.body ?? {};
+    const userId = optionalString(req.body?.userId);
+    const missing = Object.entries({ project, channel }).filter(([, value]) => typeof value !== 'string' || !value).map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (userId === undefined) {
+      res.status(400).json({ error: 'userId must be a string' });
+      return;
+    }
+
+    const result = this.dbManager.getSessionStore().purgeNamespace(project, channel, userId);
+    logger.info('SYSTEM', 'Purged memory namespace', { project, channel, userId, ...result });
+    res.json({ success: true, ...result });
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Policy Routes
+ *
+ * Endpoints for privacy policy suppressions:
+ * - GET  /api/policy/suppressions   Recent suppressions (query: project, limit)
+ * - POST /api/policy/suppressions   Record a suppression reported by a hook
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import type { PolicyAction } from '../../../../common/privacy-policy.js';
+
+const ACTIONS: PolicyAction[] = ['ignore_tool', 'ignore_path', 'summaries_only', 'truncate'];
+
+export class PolicyRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/policy/suppressions', asyncHandler(this.handleList.bind(this)));
+    app.post('/api/policy/suppressions', asyncHandler(this.handleRecord.bind(this)));
+  }
+
+  private async handleList(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' && req.query.project ? req.query.project : undefined;
+    const limit = Math.min(parseInt(String(req.query.limit ?? '50'), 10) || 50, 500);
+    res.json({ suppressions: this.dbManager.getSessionStore().getPolicySuppressions({ project, limit }) });
+  }
+
+  /**
+   * Body: { contentSessionId, project, toolName, action, rule, source, target }
+   */
+  private async handleRecord(req: Request, res: Response): Promise<void> {
+    const { contentSessionId, project, toolName, action, rule, source, target } = req.body ?? {};
+    const fields = { contentSessionId, project, toolName, rule, source, target };
+    const missing = Object.entries(fields).filter(([, value]) => typeof value !== 'string' || !value).map(([name]) => name);
+    if (missing.length > 0) {
+      res.status(400).json({ error: `Missing fields: ${missing.join(', ')}` });
+      return;
+    }
+    if (!ACTIONS.includes(action)) {
+      res.status(400).json({ error: `action must be one of ${ACTIONS.join(', ')}` });
+      return;
+    }
+
+    const id = this.dbManager.getSessionStore().recordPolicySuppression({
+      content_session_id: contentSessionId,
+      project,
+      tool_name: toolName,
+      action,
+      rule,
+      source,
+      target
+    });
+    res.json({ id });
+  }
+}
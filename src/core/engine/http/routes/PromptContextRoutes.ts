@@ -0,0 +1,42 @@
+/**
+ * Prompt Context Routes
+ *
+ * Endpoint for prompt-aware context injection:
+ * - POST /api/context/prompt  Top-K observations matching a submitted prompt
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { PromptContextService } from '../../PromptContextService.js';
+
+export class PromptContextRoutes implements RouteHandler {
+  constructor(private promptContextService: PromptContextService) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/context/prompt', asyncHandler(this.handlePromptContext.bind(this)));
+  }
+
+  /**
+   * Build additionalContext for a prompt
+   * Body: { contentSessionId: string, project: string, prompt: string }
+   */
+  private async handlePromptContext(req: Request, res: Response): Promise<void> {
+    const { contentSessionId, project, prompt } = req.body ?? {};
+
+    if (typeof contentSessionId !== 'string' || !contentSessionId) {
+      res.status(400).json({ error: 'contentSessionId is required' });
+      return;
+    }
+    if (typeof project !== 'string' || !project) {
+      res.status(400).json({ error: 'project is required' });
+      return;
+    }
+    if (typeof prompt !== 'string') {
+      res.status(400).json({ error: 'prompt must be a string' });
+      return;
+    }
+
+    res.json(this.promptContextService.buildContext({ contentSessionId, project, prompt }));
+  }
+}
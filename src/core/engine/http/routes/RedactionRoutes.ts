@@ -0,0 +1,48 @@
+/**
+ * Redaction Routes
+ *
+ * Endpoints for the per-session redaction counts reported by the hooks:
+ * - POST /api/sessions/redactions   Add to a session's counts
+ * - GET  /api/stats/redactions      Totals and the most recent sessions' counts
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+
+export class RedactionRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/sessions/redactions', asyncHandler(this.handleRecord.bind(this)));
+    app.get('/api/stats/redactions', asyncHandler(this.handleStats.bind(this)));
+  }
+
+  /**
+   * Body: { contentSessionId: string, counts: Record<string, number> }
+   */
+  private async handleRecord(req: Request, res: Response): Promise<void> {
+    const { contentSessionId, counts } = req.body ?? {};
+    if (typeof contentSessionId !== 'string' || !contentSessionId) {
+      res.status(400).json({ error: 'contentSessionId is required' });
+      return;
+    }
+    if (!counts || typeof counts !== 'object' || Array.isArray(counts)
+      || !Object.values(counts).every(count => Number.isInteger(count) && (count as number) >= 0)) {
+      res.status(400).json({ error: 'counts must map names to non-negative integers' });
+      return;
+    }
+
+    this.dbManager.getSessionStore().recordRedactions(contentSessionId, counts);
+    res.json({ success: true });
+  }
+
+  /**
+   * Query: limit (sessions, default 20, max 500)
+   */
+  private async handleStats(req: Request, res: Response): Promise<void> {
+    const limit = Math.min(parseInt(String(req.query.limit ?? '20'), 10) || 20, 500);
+    res.json(this.dbManager.getSessionStore().getRedactionStats(limit));
+  }
+}
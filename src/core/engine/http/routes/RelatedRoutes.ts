@@ -0,0 +1,33 @@
+/**
+ * Related Routes
+ *
+ * Endpoint for walking the observation relationship graph:
+ * - GET /api/related?anchor=<id>&hops=<n>&kinds=<comma-separated>
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { SearchManager } from '../../SearchManager.js';
+
+export class RelatedRoutes implements RouteHandler {
+  constructor(
+    private searchManager: SearchManager
+  ) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/related', asyncHandler(this.handleRelated.bind(this)));
+  }
+
+  /**
+   * Observations linked to an anchor, formatted for MCP
+   */
+  private async handleRelated(req: Request, res: Response): Promise<void> {
+    const result = await this.searchManager.related({
+      anchor: req.query.anchor,
+      hops: req.query.hops,
+      kinds: req.query.kinds
+    });
+    res.json(result);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Reprocess Routes
+ *
+ * Endpoints for replaying historical sessions into a staging generation:
+ * - POST /api/reprocess               Start a run (replays in the background)
+ * - GET  /api/reprocess               Recent runs (query: project, limit)
+ * - GET  /api/reprocess/:id           A run with its per-session before/after observations
+ * - POST /api/reprocess/:id/apply     Swap the staged observations in
+ * - POST /api/reprocess/:id/rollback  Restore the observations an applied run replaced
+ * - POST /api/reprocess/:id/discard   Drop the staged observations (stops a running replay)
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { requireLocalhost } from '../../../api/Middleware.js';
+import { ModeManager } from '../../../domain/ModeManager.js';
+import { PROVIDER_NAMES } from '../../ProviderRouter.js';
+import { ReprocessService } from '../../ReprocessService.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import type { ProviderName } from '../../agents/index.js';
+
+/**
+ * Parse an epoch (ms) or ISO date; undefined when absent, NaN when invalid
+ */
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' ? Date.parse(value) : NaN;
+}
+
+export class ReprocessRoutes implements RouteHandler {
+  constructor(
+    private reprocessService: ReprocessService,
+    private dbManager: DatabaseManager
+  ) {}
+
+  setupRoutes(app: express.Application): void {
+    app.post('/api/reprocess', requireLocalhost, asyncHandler(this.handleStart.bind(this)));
+    app.get('/api/reprocess', asyncHandler(this.handleListRuns.bind(this)));
+    app.get('/api/reprocess/:id', asyncHandler(this.handleGetRun.bind(this)));
+    app.post('/api/reprocess/:id/apply', requireLocalhost, asyncHandler(this.handleApply.bind(this)));
+    app.post('/api/reprocess/:id/rollback', requireLocalhost, asyncHandler(this.handleRollback.bind(this)));
+    app.post('/api/reprocess/:id/discard', requireLocalhost, asyncHandler(this.handleDiscard.bind(this)));
+  }
+
+  /**
+   * Body: { project, sessionIds?, from?, to?, mode?, provider?, maxSessions? }
+   * from/to bound session start times (epoch ms or ISO date). Responds 202
+   * with the run; poll GET /api/reprocess/:id until it is staged.
+   */
+  private async handleStart(req: Request, res: Response): Promise<void> {
+    const { project, sessionIds, from, to, mode, provider, maxSessions } = req.body ?? {};
+
+    if (typeof project !== 'string' || !project) {
+      res.status(400).json({ error: 'Missing fields: project' });
+      return;
+    }
+    if (sessionIds !== undefined && (!Array.isArray(sessionIds) || !sessionIds.every(id => Number.isInteger(id)))) {
+      res.status(400).json({ error: 'sessionIds must be an array of session ids' });
+      return;
+    }
+    const fromEpoch = parseTime(from);
+    const toEpoch = parseTime(to);
+    if (Number.isNaN(fromEpoch) || Number.isNaN(toEpoch)) {
+      res.status(400).json({ error: 'from and to must be epoch milliseconds or ISO dates' });
+      return;
+    }
+    if (mode !== undefined && (typeof mode !== 'string' || !ModeManager.getInstance().listModeIds().includes(mode))) {
+      res.status(400).json({ error: `Mode not found: ${mode}` });
+      return;
+    }
+    if (provider !== undefined && !PROVIDER_NAMES.includes(provider)) {
+      res.status(400).json({ error: `provider must be one of: ${PROVIDER_NAMES.join(', ')}` });
+      return;
+    }
+    if (maxSessions !== undefined && (!Number.isInteger(maxSessions) || maxSessions < 1)) {
+      res.status(400).json({ error: 'maxSessions must be a positive integer' });
+      return;
+    }
+    if (this.reprocessService.isRunning()) {
+      res.status(409).json({ error: 'A reprocess run is already replaying' });
+      return;
+    }
+
+    try {
+      const run = this.reprocessService.start({
+        project,
+        sessionIds,
+        fromEpoch,
+        toEpoch,
+        modeId: mode,
+        provider: provider as ProviderName | undefined,
+        maxSessions
+      });
+      res.status(202).json({ run });
+    } catch (error) {
+      res.status(404).json({ error: (error as Error).message });
+    }
+  }
+
+  private async handleListRuns(req: Request, res: Response): Promise<void> {
+    const project = typeof req.query.project === 'string' && req.query.project ? req.query.project : undefined;
+    const limit = parseInt(String(req.query.limit ?? ''), 10);
+    res.json({
+      runs: this.dbManager.getSessionStore().getReprocessRuns({ project, limit: limit > 0 ? limit : undefined })
+    });
+  }
+
+  private async handleGetRun(req: Request, res: Response): Promise<void> {
+    const runId = this.parseRunId(req, res);
+    if (runId === null) return;
+
+    const store = this.dbManager.getSessionStore();
+    const run = store.getReprocessRun(runId);
+    if (!run) {
+      res.status(404).json({ error: `Reprocess run ${runId} not found` });
+      return;
+    }
+    res.json({ run, sessions: store.getReprocessDiff(runId) });
+  }
+
+  private async handleApply(req: Request, res: Response): Promise<void> {
+    await this.runTransition(req, res, runId => this.reprocessService.apply(runId));
+  }
+
+  private async handleRollback(req: Request, res: Response): Promise<void> {
+    await this.runTransition(req, res, runId => this.reprocessService.rollback(runId));
+  }
+
+  private async handleDiscard(req: Request, res: Response): Promise<void> {
+    await this.runTransition(req, res, async runId => {
+      await this.reprocessService.discard(runId);
+      return {};
+    });
+  }
+
+  /**
+   * Move a run to its next state; a run in the wrong state is a 409
+   */
+  private async runTransition(req: Request, res: Response, transition: (runId: number) => object | Promise<object>): Promise<void> {
+    const runId = this.parseRunId(req, res);
+    if (runId === null) return;
+
+    const store = this.dbManager.getSessionStore();
+    if (!store.getReprocessRun(runId)) {
+      res.status(404).json({ error: `Reprocess run ${runId} not found` });
+      return;
+    }
+
+    try {
+      const result = await transition(runId);
+      res.json({ run: store.getReprocessRun(runId), ...result });
+    } catch (error) {
+      res.status(409).json({ error: (error as Error).message });
+    }
+  }
+
+  private parseRunId(req: Request, res: Response): number | null {
+    const runId = parseInt(req.params.id, 10);
+    if (isNaN(runId)) {
+      res.status(400).json({ error: 'Invalid reprocess run id' });
+      return null;
+    }
+    return runId;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Tag Routes
+ *
+ * Endpoints for user-defined tags:
+ * - GET    /api/tags                          List tags with usage counts
+ * - POST   /api/tags                          Create a tag
+ * - PATCH  /api/tags/:name                    Update a tag's color or description
+ * - DELETE /api/tags/:name                    Delete a tag (detaches it everywhere)
+ * - GET    /api/observations/:id/tags         Tags on an observation
+ * - POST   /api/observations/:id/tags         Attach tags to an observation
+ * - DELETE /api/observations/:id/tags/:name   Detach a tag from an observation
+ */
+
+import express, { Request, Response } from 'express';
+import type { RouteHandler } from '../../../api/Server.js';
+import { asyncHandler } from '../../../api/ErrorHandler.js';
+import { DatabaseManager } from '../../DatabaseManager.js';
+import { normalizeTagName } from '../../../storage/SearchQualifiers.js';
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export class TagRoutes implements RouteHandler {
+  constructor(private dbManager: DatabaseManager) {}
+
+  setupRoutes(app: express.Application): void {
+    app.get('/api/tags', asyncHandler(this.handleList.bind(this)));
+    app.post('/api/tags', asyncHandler(this.handleCreate.bind(this)));
+    app.patch('/api/tags/:name', asyncHandler(this.handleUpdate.bind(this)));
+    app.delete('/api/tags/:name', asyncHandler(this.handleDelete.bind(this)));
+    app.get('/api/observations/:id/tags', asyncHandler(this.handleGetObservationTags.bind(this)));
+    app.post('/api/observations/:id/tags', asyncHandler(this.handleTagObservation.bind(this)));
+    app.delete('/api/observations/:id/tags/:name', asyncHandler(this.handleUntagObservation.bind(this)));
+  }
+
+  private async handleList(_req: Request, res: Response): Promise<void> {
+    res.json({ tags: this.dbManager.getSessionStore().getTags() });
+  }
+
+  /**
+   * Body: { name: string, color?: string, description?: string }
+   */
+  private async handleCreate(req: Request, res: Response): Promise<void> {
+    const { name, color, description } = req.body ?? {};
+    const tagName = typeof name === 'string' ? normalizeTagName(name) : null;
+    if (!tagName) {
+      res.status(400).json({ error: 'name must be 1-64 characters: letters, digits, _ . / -' });
+      return;
+    }
+    if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+      res.status(400).json({ error: 'color must be a hex color like #3b82f6' });
+      return;
+    }
+    if (description !== undefined && typeof description !== 'string') {
+      res.status(400).json({ error: 'description must be a string' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    if (store.getTag(tagName)) {
+      res.status(409).json({ error: `Tag ${tagName} already exists` });
+      return;
+    }
+
+    res.status(201).json({ tag: store.createTag(tagName, { color, description }) });
+  }
+
+  /**
+   * Body: { color?: string, description?: string | null }
+   */
+  private async handleUpdate(req: Request, res: Response): Promise<void> {
+    const { color, description } = req.body ?? {};
+    if (color !== undefined && (typeof color !== 'string' || !COLOR_PATTERN.test(color))) {
+      res.status(400).json({ error: 'color must be a hex color like #3b82f6' });
+      return;
+    }
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      res.status(400).json({ error: 'description must be a string' });
+      return;
+    }
+
+    const tag = this.dbManager.getSessionStore().updateTag(req.params.name.toLowerCase(), { color, description });
+    if (!tag) {
+      res.status(404).json({ error: `Tag ${req.params.name} not found` });
+      return;
+    }
+
+    res.json({ tag });
+  }
+
+  private async handleDelete(req: Request, res: Response): Promise<void> {
+    res.json({ removed: this.dbManager.getSessionStore().deleteTag(req.params.name.toLowerCase()) });
+  }
+
+  private async handleGetObservationTags(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const tags = this.dbManager.getSessionStore().getTagsForObservations([id]).get(id) ?? [];
+    res.json({ observationId: id, tags });
+  }
+
+  /**
+   * Body: { tags: string[] }
+   */
+  private async handleTagObservation(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const { tags } = req.body ?? {};
+    if (!Array.isArray(tags) || tags.length === 0) {
+      res.status(400).json({ error: 'tags must be a non-empty array' });
+      return;
+    }
+
+    const names = tags.map(tag => (typeof tag === 'string' ? normalizeTagName(tag) : null));
+    const invalid = tags.filter((_, idx) => names[idx] === null);
+    if (invalid.length > 0) {
+      res.status(400).json({ error: `Invalid tag names: ${invalid.join(', ')}` });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    if (!store.getObservationById(id)) {
+      res.status(404).json({ error: `Observation ${id} not found` });
+      return;
+    }
+
+    res.json({ observationId: id, tags: store.tagObservation(id, names as string[]) });
+  }
+
+  private async handleUntagObservation(req: Request, res: Response): Promise<void> {
+    const id = parseInt(req.params.id, 10);
+    if (isNaN(id)) {
+      res.status(400).json({ error: 'Invalid observation id' });
+      return;
+    }
+
+    const store = this.dbManager.getSessionStore();
+    const removed = store.untagObservation(id, req.params.name.toLowerCase());
+    res.json({ removed, observationId: id, tags: store.getTagsForObservations([id]).get(id) ?? [] });
+  }
+}
@@ -3,7 +3,7 @@
  *
  * This is the main entry point for search operations. It:
  * 1. Normalizes input parameters
- * 2. Selects the appropriate strategy
+ * 2. Selects the appropriate strategy (hybrid preferred when FTS and vectors are healthy)
  * 3. Executes the search
  * 4. Handles fallbacks on failure
  * 5. Delegates to formatters for output
@@ -11,7 +11,7 @@
 
 import { SessionSearch } from '../../storage/SessionSearch.js';
 import { SessionStore } from '../../storage/DataStore.js';
-import { ChromaSync } from '../vector/VectorSync.js';
+import type { VectorBackend } from '../../vector/VectorBackend.js';
 
 import { ChromaSearchStrategy } from './strategies/ChromaSearchStrategy.js';
 import { SQLiteSearchStrategy } from './strategies/SQLiteSearchStrategy.js';
@@ -28,8 +28,10 @@ import type {
   StrategySearchOptions,
   StrategySearchResult,
   SearchResults,
-  ObservationSearchResult
+  ObservationSearchResult,
+  FusionConfig
 } from './types.js';
+import { DEFAULT_FUSION_CONFIG } from './fusion.js';
 import { logger } from '../../../utils/logger.js';
 
 /**
@@ -41,24 +43,31 @@ interface NormalizedParams extends StrategySearchOptions {
   obsType?: string[];
 }
 
+/**
+ * How long to skip hybrid search after the vector backend fails
+ */
+const VECTOR_RETRY_COOLDOWN_MS = 60 * 1000;
+
 export class SearchOrchestrator {
   private chromaStrategy: ChromaSearchStrategy | null = null;
   private sqliteStrategy: SQLiteSearchStrategy;
   private hybridStrategy: HybridSearchStrategy | null = null;
   private resultFormatter: ResultFormatter;
   private timelineBuilder: TimelineBuilder;
+  private vectorRetryAt: number = 0;
 
   constructor(
     private sessionSearch: SessionSearch,
     private sessionStore: SessionStore,
-    private chromaSync: ChromaSync | null
+    private chromaSync: VectorBackend | null,
+    fusionConfig: FusionConfig = DEFAULT_FUSION_CONFIG
   ) {
     // Initialize strategies
     this.sqliteStrategy = new SQLiteSearchStrategy(sessionSearch);
 
     if (chromaSync) {
       this.chromaStrategy = new ChromaSearchStrategy(chromaSync, sessionStore);
-      this.hybridStrategy = new HybridSearchStrategy(chromaSync, sessionStore, sessionSearch);
+      this.hybridStrategy = new HybridSearchStrategy(chromaSync, sessionStore, sessionSearch, fusionConfig);
     }
 
     this.resultFormatter = new ResultFormatter();
@@ -87,7 +96,21 @@ export class SearchOrchestrator {
       return await this.sqliteStrategy.search(options);
     }
 
-    // PATH 2: CHROMA SEMANTIC SEARCH (query text + Chroma available)
+    // PATH 2: HYBRID FUSION (query text + FTS and vector backends both healthy)
+    if (this.hybridStrategy && options.strategyHint !== 'chroma' && this.isHybridHealthy()) {
+      logger.debug('SEARCH', 'Orchestrator: Using hybrid FTS + vector search', {});
+      const result = await this.hybridStrategy.search(options);
+
+      if (!result.usedChroma) {
+        // Vector half failed - result is FTS-only; skip hybrid until the backend recovers
+        this.vectorRetryAt = Date.now() + VECTOR_RETRY_COOLDOWN_MS;
+        logger.debug('SEARCH', 'Orchestrator: Vector backend unhealthy, pausing hybrid search', {});
+      }
+
+      return result;
+    }
+
+    // PATH 3: CHROMA SEMANTIC SEARCH (query text + Chroma available)
     if (this.chromaStrategy) {
       logger.debug('SEARCH', 'Orchestrator: Using Chroma semantic search', {});
       const result = await this.chromaStrategy.search(options);
@@ -110,7 +133,7 @@ export class SearchOrchestrator {
       };
     }
 
-    // PATH 3: No Chroma available
+    // PATH 4: No Chroma available
     logger.debug('SEARCH', 'Orchestrator: Chroma not available', {});
     return {
       results: { observations: [], sessions: [], prompts: [] },
@@ -287,4 +310,15 @@ export class SearchOrchestrator {
   isChromaAvailable(): boolean {
     return !!this.chromaSync;
   }
+
+  /**
+   * Hybrid search needs the FTS5 index plus a vector backend that is enabled
+   * and not in its post-failure cooldown
+   */
+  isHybridHealthy(): boolean {
+    return !!this.chromaSync &&
+      !this.chromaSync.isDisabled() &&
+      Date.now() >= this.vectorRetryAt &&
+      this.sessionSearch.hasFullTextIndex();
+  }
 }
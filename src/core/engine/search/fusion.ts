@@ -0,0 +1,70 @@
+/**
+ * Reciprocal-rank fusion (RRF)
+ *
+ * Combines independently ranked result lists into one ranking without needing
+ * comparable scores: each source contributes weight / (k + rank) for every hit.
+ * Hits found by several sources accumulate, so agreement between keyword and
+ * semantic search rises to the top.
+ */
+
+import { SEARCH_CONSTANTS } from './types.js';
+import type { FusionConfig, FusionSource, RankedHit } from './types.js';
+
+export const DEFAULT_FUSION_CONFIG: FusionConfig = {
+  k: SEARCH_CONSTANTS.RRF_K,
+  weights: { fts: 1, vector: 1 }
+};
+
+/**
+ * Build a fusion config from raw setting strings, ignoring invalid values
+ */
+export function parseFusionConfig(raw: {
+  k?: string;
+  ftsWeight?: string;
+  vectorWeight?: string;
+}): FusionConfig {
+  const parse = (value: string | undefined, fallback: number, min: number): number => {
+    const parsed = value === undefined ? NaN : parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+  };
+
+  return {
+    k: parse(raw.k, DEFAULT_FUSION_CONFIG.k, 0),
+    weights: {
+      fts: parse(raw.ftsWeight, DEFAULT_FUSION_CONFIG.weights.fts, 0),
+      vector: parse(raw.vectorWeight, DEFAULT_FUSION_CONFIG.weights.vector, 0)
+    }
+  };
+}
+
+/**
+ * Fuse ranked lists of hits (best first) into a single list sorted by RRF score.
+ * Duplicate keys within one source keep their first (best) rank.
+ */
+export function reciprocalRankFusion(
+  lists: Partial<Record<FusionSource, Array<Pick<RankedHit, 'docType' | 'id'>>>>,
+  config: FusionConfig = DEFAULT_FUSION_CONFIG
+): RankedHit[] {
+  const fused = new Map<string, RankedHit>();
+
+  for (const source of Object.keys(lists) as FusionSource[]) {
+    const weight = config.weights[source] ?? 1;
+    const seen = new Set<string>();
+    let rank = 0;
+
+    for (const hit of lists[source] || []) {
+      const key = `${hit.docType}:${hit.id}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      rank++;
+
+      const score = weight / (config.k + rank);
+      const entry = fused.get(key) ?? { docType: hit.docType, id: hit.id, score: 0, breakdown: {} };
+      entry.score += score;
+      entry.breakdown[source] = { rank, score };
+      fused.set(key, entry);
+    }
+  }
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -19,6 +19,9 @@ export { ChromaSearchStrategy } from './strategies/ChromaSearchStrategy.js';
 export { SQLiteSearchStrategy } from './strategies/SQLiteSearchStrategy.js';
 export { HybridSearchStrategy } from './strategies/HybridSearchStrategy.js';
 
+// Fusion
+export { reciprocalRankFusion, parseFusionConfig, DEFAULT_FUSION_CONFIG } from './fusion.js';
+
 // Filters
 export * from './filters/DateFilter.js';
 export * from './filters/ProjectFilter.js';
@@ -1,7 +1,8 @@
 /**
- * ChromaSearchStrategy - Vector-based semantic search via Chroma
+ * ChromaSearchStrategy - Vector-based semantic search via the configured VectorBackend
  *
- * This strategy handles semantic search queries using ChromaDB:
+ * This strategy handles semantic search queries using ChromaDB or the in-process
+ * SQLite vector store (MOLTBRAIN_VECTOR_BACKEND):
  * 1. Query Chroma for semantically similar documents
  * 2. Filter by recency (90-day window)
  * 3. Categorize by document type
@@ -20,7 +21,7 @@ import {
   SessionSummarySearchResult,
   UserPromptSearchResult
 } from '../types.js';
-import { ChromaSync } from '../vector/VectorSync.js';
+import type { VectorBackend } from '../../../vector/VectorBackend.js';
 import { SessionStore } from '../storage/DataStore.js';
 import { logger } from '../../../../utils/logger.js';
 
@@ -28,7 +29,7 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
   readonly name = 'chroma';
 
   constructor(
-    private chromaSync: ChromaSync,
+    private chromaSync: VectorBackend,
     private sessionStore: SessionStore
   ) {
     super();
@@ -48,7 +49,8 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
       files,
       limit = SEARCH_CONSTANTS.DEFAULT_LIMIT,
       project,
-      orderBy = 'date_desc'
+      orderBy = 'date_desc',
+      namespace
     } = options;
 
     if (!query) {
@@ -56,8 +58,9 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
     }
 
     const searchObservations = searchType === 'all' || searchType === 'observations';
-    const searchSessions = searchType === 'all' || searchType === 'sessions';
-    const searchPrompts = searchType === 'all' || searchType === 'prompts';
+    // Namespaces exist only on observations
+    const searchSessions = !namespace && (searchType === 'all' || searchType === 'sessions');
+    const searchPrompts = !namespace && (searchType === 'all' || searchType === 'prompts');
 
     let observations: ObservationSearchResult[] = [];
     let sessions: SessionSummarySearchResult[] = [];
@@ -104,7 +107,7 @@ export class ChromaSearchStrategy extends BaseSearchStrategy implements SearchSt
 
       // Step 4: Hydrate from SQLite with additional filters
       if (categorized.obsIds.length > 0) {
-        const obsOptions = { type: obsType, concepts, files, orderBy, limit, project };
+        const obsOptions = { type: obsType, concepts, files, orderBy, limit, project, namespace };
         observations = this.sessionStore.getObservationsByIds(categorized.obsIds, obsOptions);
       }
 
@@ -8,6 +8,9 @@
  * 4. Hydrate from SQLite in semantic rank order
  *
  * Used for: findByConcept, findByFile, findByType with Chroma available
+ *
+ * The generic search() path instead runs FTS5 keyword search and vector search
+ * in parallel and merges them with reciprocal-rank fusion (see fusion.ts).
  */
 
 import { BaseSearchStrategy, SearchStrategy } from './SearchStrategy.js';
@@ -16,9 +19,14 @@ import {
   StrategySearchResult,
   SEARCH_CONSTANTS,
   ObservationSearchResult,
-  SessionSummarySearchResult
+  SessionSummarySearchResult,
+  UserPromptSearchResult,
+  ChromaMetadata,
+  FusionConfig,
+  RankedHit
 } from '../types.js';
-import { ChromaSync } from '../vector/VectorSync.js';
+import { reciprocalRankFusion, DEFAULT_FUSION_CONFIG } from '../fusion.js';
+import type { VectorBackend } from '../../../vector/VectorBackend.js';
 import { SessionStore } from '../storage/DataStore.js';
 import { SessionSearch } from '../storage/SessionSearch.js';
 import { logger } from '../../../../utils/logger.js';
@@ -27,9 +35,10 @@ export class HybridSearchStrategy extends BaseSearchStrategy implements SearchSt
   readonly name = 'hybrid';
 
   constructor(
-    private chromaSync: ChromaSync,
+    private chromaSync: VectorBackend,
     private sessionStore: SessionStore,
-    private sessionSearch: SessionSearch
+    private sessionSearch: SessionSearch,
+    private fusionConfig: FusionConfig = DEFAULT_FUSION_CONFIG
   ) {
     super();
   }
@@ -44,17 +53,230 @@ export class HybridSearchStrategy extends BaseSearchStrategy implements SearchSt
     );
   }
 
+  /**
+   * Generic hybrid search: FTS5 + vector in parallel, fused with reciprocal-rank fusion
+   * Pattern: Parallel rank -> RRF fuse -> Hydrate with filters -> Restore fused order
+   */
   async search(options: StrategySearchOptions): Promise<StrategySearchResult> {
-    // This is the generic hybrid search - specific operations use dedicated methods
-    const { query, limit = SEARCH_CONSTANTS.DEFAULT_LIMIT, project } = options;
+    const {
+      query,
+      searchType = 'all',
+      obsType,
+      concepts,
+      files,
+      limit = SEARCH_CONSTANTS.DEFAULT_LIMIT,
+      project,
+      dateRange,
+      tags,
+      favorite,
+      namespace
+    } = options;
 
     if (!query) {
       return this.emptyResult('hybrid');
     }
 
-    // For generic hybrid search, use the standard Chroma path
-    // More specific operations (findByConcept, etc.) have dedicated methods
-    return this.emptyResult('hybrid');
+    const scope = {
+      observations: searchType === 'all' || searchType === 'observations',
+      sessions: searchType === 'all' || searchType === 'sessions',
+      prompts: searchType === 'all' || searchType === 'prompts'
+    };
+
+    logger.debug('SEARCH', 'HybridSearchStrategy: Running FTS and vector search', { query, searchType });
+
+    const [ftsOutcome, vectorOutcome] = await Promise.allSettled([
+      Promise.resolve().then(() => this.rankByKeywords(query, scope, { project, dateRange, obsType, concepts, files, tags, favorite, namespace })),
+      this.rankByVector(query, searchType, scope)
+    ]);
+
+    const lists: Partial<Record<'fts' | 'vector', Array<Pick<RankedHit, 'docType' | 'id'>>>> = {};
+    if (ftsOutcome.status === 'fulfilled') {
+      lists.fts = ftsOutcome.value;
+    } else {
+      logger.error('SEARCH', 'HybridSearchStrategy: FTS search failed', {}, ftsOutcome.reason as Error);
+    }
+    if (vectorOutcome.status === 'fulfilled') {
+      lists.vector = vectorOutcome.value;
+    } else {
+      logger.error('SEARCH', 'HybridSearchStrategy: Vector search failed', {}, vectorOutcome.reason as Error);
+    }
+
+    const vectorOk = vectorOutcome.status === 'fulfilled';
+    const ftsOk = ftsOutcome.status === 'fulfilled';
+
+    if (!vectorOk && !ftsOk) {
+      return {
+        results: { observations: [], sessions: [], prompts: [] },
+        usedChroma: false,
+        fellBack: false,
+        strategy: 'hybrid'
+      };
+    }
+
+    const fused = reciprocalRankFusion(lists, this.fusionConfig);
+    const { results, ranked } = this.hydrateFused(fused, { project, dateRange, obsType, concepts, files, tags, favorite, namespace, limit });
+
+    logger.debug('SEARCH', 'HybridSearchStrategy: Fused results', {
+      fts: lists.fts?.length ?? 0,
+      vector: lists.vector?.length ?? 0,
+      fused: ranked.length
+    });
+
+    return {
+      results,
+      usedChroma: vectorOk,
+      fellBack: !vectorOk || !ftsOk,
+      strategy: 'hybrid',
+      ranked
+    };
+  }
+
+  /**
+   * Keyword ranking from the FTS5 index (bm25 order)
+   */
+  private rankByKeywords(
+    query: string,
+    scope: { observations: boolean; sessions: boolean; prompts: boolean },
+    filters: Pick<StrategySearchOptions, 'project' | 'dateRange' | 'obsType' | 'concepts' | 'files' | 'tags' | 'favorite' | 'namespace'>
+  ): Array<Pick<RankedHit, 'docType' | 'id'>> {
+    const base = {
+      limit: SEARCH_CONSTANTS.FTS_CANDIDATE_LIMIT,
+      orderBy: 'relevance' as const,
+      project: filters.project,
+      dateRange: filters.dateRange
+    };
+    const hits: Array<Pick<RankedHit, 'docType' | 'id'>> = [];
+
+    if (scope.observations) {
+      const rows = this.sessionSearch.searchObservations(query, {
+        ...base,
+        type: filters.obsType,
+        concepts: filters.concepts,
+        files: filters.files,
+        tags: filters.tags,
+        favorite: filters.favorite,
+        namespace: filters.namespace
+      });
+      hits.push(...rows.map((row: ObservationSearchResult) => ({ docType: 'observation' as const, id: row.id })));
+    }
+    if (scope.sessions) {
+      const rows = this.sessionSearch.searchSessions(query, base);
+      hits.push(...rows.map((row: SessionSummarySearchResult) => ({ docType: 'session' as const, id: row.id })));
+    }
+    if (scope.prompts) {
+      const rows = this.sessionSearch.searchUserPrompts(query, base);
+      hits.push(...rows.map((row: UserPromptSearchResult) => ({ docType: 'prompt' as const, id: row.id })));
+    }
+
+    // Each table is bm25-ranked on its own scale; interleave so no type dominates by position
+    return this.interleaveByType(hits);
+  }
+
+  /**
+   * Semantic ranking from the vector backend (distance order)
+   */
+  private async rankByVector(
+    query: string,
+    searchType: string,
+    scope: { observations: boolean; sessions: boolean; prompts: boolean }
+  ): Promise<Array<Pick<RankedHit, 'docType' | 'id'>>> {
+    const whereFilter = searchType === 'observations'
+      ? { doc_type: 'observation' }
+      : searchType === 'sessions'
+        ? { doc_type: 'session_summary' }
+        : searchType === 'prompts'
+          ? { doc_type: 'user_prompt' }
+          : undefined;
+
+    const vectorResults = await this.chromaSync.queryChroma(query, SEARCH_CONSTANTS.CHROMA_BATCH_SIZE, whereFilter);
+    const hits: Array<Pick<RankedHit, 'docType' | 'id'>> = [];
+
+    vectorResults.ids.forEach((id, idx) => {
+      const meta = vectorResults.metadatas[idx] as ChromaMetadata | undefined;
+      const docType = meta?.doc_type;
+      if (docType === 'observation' && scope.observations) {
+        hits.push({ docType: 'observation', id });
+      } else if (docType === 'session_summary' && scope.sessions) {
+        hits.push({ docType: 'session', id });
+      } else if (docType === 'user_prompt' && scope.prompts) {
+        hits.push({ docType: 'prompt', id });
+      }
+    });
+
+    return hits;
+  }
+
+  /**
+   * Round-robin merge of per-type lists, preserving each type's internal order
+   */
+  private interleaveByType(hits: Array<Pick<RankedHit, 'docType' | 'id'>>): Array<Pick<RankedHit, 'docType' | 'id'>> {
+    const byType = new Map<string, Array<Pick<RankedHit, 'docType' | 'id'>>>();
+    for (const hit of hits) {
+      const list = byType.get(hit.docType) ?? [];
+      list.push(hit);
+      byType.set(hit.docType, list);
+    }
+
+    const queues = Array.from(byType.values());
+    const merged: Array<Pick<RankedHit, 'docType' | 'id'>> = [];
+    for (let i = 0; merged.length < hits.length; i++) {
+      for (const queue of queues) {
+        if (i < queue.length) merged.push(queue[i]);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Hydrate fused hits from SQLite, applying metadata filters to vector-only hits,
+   * and keep the top `limit` in fused order
+   */
+  private hydrateFused(
+    fused: RankedHit[],
+    filters: Pick<StrategySearchOptions, 'project' | 'dateRange' | 'obsType' | 'concepts' | 'files' | 'tags' | 'favorite' | 'namespace'> & { limit: number }
+  ): { results: StrategySearchResult['results']; ranked: RankedHit[] } {
+    const idsOf = (docType: RankedHit['docType']) => fused.filter(hit => hit.docType === docType).map(hit => hit.id);
+
+    const observations = this.sessionStore.getObservationsByIds(idsOf('observation'), {
+      project: filters.project,
+      dateRange: filters.dateRange,
+      type: filters.obsType,
+      concepts: filters.concepts,
+      files: filters.files,
+      tags: filters.tags,
+      favorite: filters.favorite,
+      namespace: filters.namespace
+    }) as ObservationSearchResult[];
+    const sessions = this.sessionStore.getSessionSummariesByIds(idsOf('session'), {
+      project: filters.project,
+      dateRange: filters.dateRange
+    }) as SessionSummarySearchResult[];
+    const prompts = this.sessionStore.getUserPromptsByIds(idsOf('prompt'), {
+      project: filters.project,
+      dateRange: filters.dateRange
+    }) as UserPromptSearchResult[];
+
+    const available = new Set<string>([
+      ...observations.map(row => `observation:${row.id}`),
+      ...sessions.map(row => `session:${row.id}`),
+      ...prompts.map(row => `prompt:${row.id}`)
+    ]);
+
+    const ranked = fused.filter(hit => available.has(`${hit.docType}:${hit.id}`)).slice(0, filters.limit);
+    const position = new Map(ranked.map((hit, idx) => [`${hit.docType}:${hit.id}`, idx]));
+    const inRankOrder = <T extends { id: number }>(rows: T[], docType: RankedHit['docType']): T[] =>
+      rows
+        .filter(row => position.has(`${docType}:${row.id}`))
+        .sort((a, b) => position.get(`${docType}:${a.id}`)! - position.get(`${docType}:${b.id}`)!);
+
+    return {
+      results: {
+        observations: inRankOrder(observations, 'observation'),
+        sessions: inRankOrder(sessions, 'session'),
+        prompts: inRankOrder(prompts, 'prompt')
+      },
+      ranked
+    };
   }
 
   /**
@@ -45,12 +45,17 @@ export class SQLiteSearchStrategy extends BaseSearchStrategy implements SearchSt
       offset = 0,
       project,
       dateRange,
-      orderBy = 'date_desc'
+      orderBy = 'date_desc',
+      tags,
+      favorite,
+      namespace
     } = options;
 
+    // Tags, favorites and namespaces exist only on observations
+    const observationsOnly = (tags?.length ?? 0) > 0 || favorite === true || !!namespace;
     const searchObservations = searchType === 'all' || searchType === 'observations';
-    const searchSessions = searchType === 'all' || searchType === 'sessions';
-    const searchPrompts = searchType === 'all' || searchType === 'prompts';
+    const searchSessions = !observationsOnly && (searchType === 'all' || searchType === 'sessions');
+    const searchPrompts = !observationsOnly && (searchType === 'all' || searchType === 'prompts');
 
     let observations: ObservationSearchResult[] = [];
     let sessions: SessionSummarySearchResult[] = [];
@@ -70,7 +75,10 @@ export class SQLiteSearchStrategy extends BaseSearchStrategy implements SearchSt
           ...baseOptions,
           type: obsType,
           concepts,
-          files
+          files,
+          tags,
+          favorite,
+          namespace
         };
         observations = this.sessionSearch.searchObservations(undefined, obsOptions);
       }
@@ -15,7 +15,9 @@ export const SEARCH_CONSTANTS = {
   RECENCY_WINDOW_DAYS: 90,
   RECENCY_WINDOW_MS: 90 * 24 * 60 * 60 * 1000,
   DEFAULT_LIMIT: 20,
-  CHROMA_BATCH_SIZE: 100
+  CHROMA_BATCH_SIZE: 100,
+  RRF_K: 60,
+  FTS_CANDIDATE_LIMIT: 100
 } as const;
 
 /**
@@ -107,6 +109,43 @@ export interface StrategySearchResult {
   fellBack: boolean;
   /** Strategy that produced the results */
   strategy: SearchStrategyHint;
+  /** Fused ranking across all document types (hybrid strategy only) */
+  ranked?: RankedHit[];
+}
+
+/**
+ * Sources that contribute rankings to hybrid search
+ */
+export type FusionSource = 'fts' | 'vector';
+
+/**
+ * Reciprocal-rank fusion settings
+ */
+export interface FusionConfig {
+  /** RRF smoothing constant - higher values flatten the contribution of top ranks */
+  k: number;
+  /** Per-source multipliers applied to each 1 / (k + rank) term */
+  weights: Record<FusionSource, number>;
+}
+
+/**
+ * A single source's contribution to a fused hit
+ */
+export interface SourceContribution {
+  /** 1-based rank within the source's result list */
+  rank: number;
+  /** Weighted RRF term: weight / (k + rank) */
+  score: number;
+}
+
+/**
+ * A fused hit with its per-source score breakdown
+ */
+export interface RankedHit {
+  docType: 'observation' | 'session' | 'prompt';
+  id: number;
+  score: number;
+  breakdown: Partial<Record<FusionSource, SourceContribution>>;
 }
 
 /**
@@ -1,11 +1,14 @@
 import { SessionStore } from '../../storage/DataStore.js';
 import { logger } from '../../../utils/logger.js';
+import { DATA_DIR } from '../../../common/paths.js';
+import { SKIP_TOOLS_SOURCE, evaluateToolUse, limitToolResponse, loadPrivacyPolicy, type PolicyDecision } from '../../../common/privacy-policy.js';
 
 /**
  * Validates user prompt privacy for session operations
  *
  * Centralizes privacy checks to avoid duplicate validation logic across route handlers.
  * If user prompt was entirely private (stripped to empty string), we skip processing.
+ * Tool uses are also checked against the project's privacy policy (see common/privacy-policy.ts).
  */
 export class PrivacyCheckValidator {
   /**
@@ -38,4 +41,52 @@ export class PrivacyCheckValidator {
 
     return userPrompt;
   }
+
+  /**
+   * Check a tool use against the privacy policy for its working directory
+   *
+   * Suppressed and truncated tool uses are recorded so the viewer can show
+   * which policy rule applied (routine MOLTBRAIN_SKIP_TOOLS skips are not). The hook runs the same check before sending;
+   * SessionManager.queueObservation runs it again so clients that post observations
+   * directly are held to the same policy. Without a cwd only the user policy applies.
+   *
+   * @returns The tool response to store (possibly truncated), or null if the tool use is suppressed
+   */
+  static checkToolPolicy<T>(
+    store: SessionStore,
+    params: {
+      contentSessionId: string;
+      project: string;
+      cwd?: string;
+      toolName: string;
+      toolInput: unknown;
+      toolResponse: T;
+    },
+    sessionDbId: number
+  ): { toolResponse: T | string } | null {
+    const { contentSessionId, project, cwd, toolName, toolInput } = params;
+    const policy = loadPrivacyPolicy(cwd || DATA_DIR);
+
+    const record = (decision: PolicyDecision) => {
+      if (decision.source === SKIP_TOOLS_SOURCE) return;
+      store.recordPolicySuppression({ content_session_id: contentSessionId, project, tool_name: toolName, ...decision });
+      logger.debug('HOOK', `Privacy policy ${decision.action}: ${decision.target}`, {
+        sessionId: sessionDbId,
+        rule: decision.rule,
+        source: decision.source
+      });
+    };
+
+    const decision = evaluateToolUse(policy, toolName, toolInput);
+    if (decision) {
+      record(decision);
+      return null;
+    }
+
+    const limited = limitToolResponse(policy, toolName, params.toolResponse);
+    if (limited.decision) {
+      record(limited.decision);
+    }
+    return { toolResponse: limited.response };
+  }
 }
@@ -1,18 +1,99 @@
 import { Database } from 'bun:sqlite';
 import { DATA_DIR, DB_PATH, ensureDir } from '../../common/paths.js';
 import { logger } from '../../utils/logger.js';
+import { redactIncoming } from '../../utils/redaction.js';
 import {
-  TableColumnInfo,
-  IndexInfo,
-  TableNameRow,
-  SchemaVersion,
   SdkSessionRecord,
   ObservationRecord,
   SessionSummaryRecord,
   UserPromptRecord,
-  LatestPromptResult
+  LatestPromptResult,
+  ObservationLinkKind,
+  ObservationLinkRecord,
+  ObservationGitState,
+  ObservationCommitRecord,
+  ObservationStaleness,
+  FavoriteRecord,
+  TagRecord,
+  SessionRedactionStats,
+  PolicySuppressionRecord,
+  ReprocessRunRecord,
+  ReprocessRunStatus,
+  ReprocessSessionRecord,
+  ReprocessObservationRecord,
+  NamespaceScope,
+  NamespaceRecord,
+  MoltBookPostRecord,
+  TableColumnInfo
 } from '../../types/database.js';
 import type { PendingMessageStore } from './PendingMessageStore.js';
+import type { DateRange, NamespaceFilter } from './types.js';
+import { MigrationRunner } from './migrations/runner.js';
+import { sealFields, decryptValue, decryptRow, decryptRows } from './FieldEncryption.js';
+import { namespaceVisibilityClause } from './Namespaces.js';
+
+/** Content session ID prefix of the throwaway sessions reprocess runs replay through */
+const REPLAY_SESSION_PREFIX = 'reprocess-';
+
+/** Content (and memory) session ID prefix of the per-namespace sessions holding memories saved through chat tools */
+const TOOL_MEMORY_SESSION_PREFIX = 'saved-';
+
+/** Content (and memory) session ID prefix of the per-post sessions holding MoltBook replies */
+const MOLTBOOK_SESSION_PREFIX = 'moltbook-';
+
+/** MoltBook posts with what they published and how many replies were synced */
+const MOLTBOOK_POST_SELECT = `
+  SELECT
+    p.*,
+    (SELECT json_group_array(id) FROM observations WHERE moltbook_post_id = p.post_id) AS observation_ids,
+    (SELECT id FROM session_summaries WHERE moltbook_post_id = p.post_id) AS summary_id,
+    (SELECT COUNT(*) FROM moltbook_comments c WHERE c.post_id = p.post_id) AS replies
+  FROM moltbook_posts p
+`;
+
+/**
+ * Conditions bounding `column` (an epoch) by a date range, pushing their params
+ */
+function dateRangeConditions(dateRange: DateRange | undefined, column: string, params: any[]): string[] {
+  const conditions: string[] = [];
+  if (dateRange?.start) {
+    conditions.push(`${column} >= ?`);
+    params.push(typeof dateRange.start === 'number' ? dateRange.start : new Date(dateRange.start).getTime());
+  }
+  if (dateRange?.end) {
+    conditions.push(`${column} <= ?`);
+    params.push(typeof dateRange.end === 'number' ? dateRange.end : new Date(dateRange.end).getTime());
+  }
+  return conditions;
+}
+
+/**
+ * Rows that reference an observation and would cascade away with it,
+ * kept with replaced observations so a reprocess rollback can restore them
+ */
+const OBSERVATION_DEPENDENTS: Array<{ table: string; column: string }> = [
+  { table: 'favorites', column: 'observation_id' },
+  { table: 'observation_tags', column: 'observation_id' },
+  { table: 'observation_commits', column: 'observation_id' },
+  { table: 'observation_links', column: 'from_id' },
+  { table: 'observation_links', column: 'to_id' }
+];
+
+/**
+ * Namespace columns of an observation from a chat session: the session's
+ * channel and user plus its scope, user-scoped by default (channel-scoped
+ * when the session has no user). All NULL outside chat sessions.
+ */
+function namespaceColumns(
+  namespace: { channel: string; userId: string | null } | null,
+  scope?: NamespaceScope
+): [string | null, string | null, NamespaceScope | null] {
+  if (!namespace) {
+    return [null, null, null];
+  }
+  const resolved = scope ?? 'user';
+  return [namespace.channel, namespace.userId, resolved === 'user' && !namespace.userId ? 'channel' : resolved];
+}
 
 /**
  * Session data store for SDK sessions, observations, and summaries
@@ -32,617 +113,8 @@ export class SessionStore {
     this.db.run('PRAGMA synchronous = NORMAL');
     this.db.run('PRAGMA foreign_keys = ON');
 
-    // Initialize schema if needed (fresh database)
-    this.initializeSchema();
-
-    // Run migrations
-    this.ensureWorkerPortColumn();
-    this.ensurePromptTrackingColumns();
-    this.removeSessionSummariesUniqueConstraint();
-    this.addObservationHierarchicalFields();
-    this.makeObservationsTextNullable();
-    this.createUserPromptsTable();
-    this.ensureDiscoveryTokensColumn();
-    this.createPendingMessagesTable();
-    this.renameSessionIdColumns();
-    this.repairSessionIdColumnRename();
-    this.addFailedAtEpochColumn();
-  }
-
-  /**
-   * Initialize database schema using migrations (migration004)
-   * This runs the core SDK tables migration if no tables exist
-   */
-  private initializeSchema(): void {
-    // Create schema_versions table if it doesn't exist
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS schema_versions (
-        id INTEGER PRIMARY KEY,
-        version INTEGER UNIQUE NOT NULL,
-        applied_at TEXT NOT NULL
-      )
-    `);
-
-    // Get applied migrations
-    const appliedVersions = this.db.prepare('SELECT version FROM schema_versions ORDER BY version').all() as SchemaVersion[];
-    const maxApplied = appliedVersions.length > 0 ? Math.max(...appliedVersions.map(v => v.version)) : 0;
-
-    // Only run migration004 if no migrations have been applied
-    // This creates the sdk_sessions, observations, and session_summaries tables
-    if (maxApplied === 0) {
-      logger.info('DB', 'Initializing fresh database with migration004');
-
-      // Migration004: SDK agent architecture tables
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS sdk_sessions (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          content_session_id TEXT UNIQUE NOT NULL,
-          memory_session_id TEXT UNIQUE,
-          project TEXT NOT NULL,
-          user_prompt TEXT,
-          started_at TEXT NOT NULL,
-          started_at_epoch INTEGER NOT NULL,
-          completed_at TEXT,
-          completed_at_epoch INTEGER,
-          status TEXT CHECK(status IN ('active', 'completed', 'failed')) NOT NULL DEFAULT 'active'
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_claude_id ON sdk_sessions(content_session_id);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_sdk_id ON sdk_sessions(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_project ON sdk_sessions(project);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_status ON sdk_sessions(status);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_started ON sdk_sessions(started_at_epoch DESC);
-
-        CREATE TABLE IF NOT EXISTS observations (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          memory_session_id TEXT NOT NULL,
-          project TEXT NOT NULL,
-          text TEXT NOT NULL,
-          type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery')),
-          created_at TEXT NOT NULL,
-          created_at_epoch INTEGER NOT NULL,
-          FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_observations_sdk_session ON observations(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_observations_project ON observations(project);
-        CREATE INDEX IF NOT EXISTS idx_observations_type ON observations(type);
-        CREATE INDEX IF NOT EXISTS idx_observations_created ON observations(created_at_epoch DESC);
-
-        CREATE TABLE IF NOT EXISTS session_summaries (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          memory_session_id TEXT UNIQUE NOT NULL,
-          project TEXT NOT NULL,
-          request TEXT,
-          investigated TEXT,
-          learned TEXT,
-          completed TEXT,
-          next_steps TEXT,
-          files_read TEXT,
-          files_edited TEXT,
-          notes TEXT,
-          created_at TEXT NOT NULL,
-          created_at_epoch INTEGER NOT NULL,
-          FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_project ON session_summaries(project);
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
-      `);
-
-      // Record migration004 as applied
-      this.db.prepare('INSERT INTO schema_versions (version, applied_at) VALUES (?, ?)').run(4, new Date().toISOString());
-
-      logger.info('DB', 'Migration004 applied successfully');
-    }
-  }
-
-  /**
-   * Ensure worker_port column exists (migration 5)
-   */
-  private ensureWorkerPortColumn(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(5) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if column exists
-    const tableInfo = this.db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
-    const hasWorkerPort = tableInfo.some(col => col.name === 'worker_port');
-
-    if (!hasWorkerPort) {
-      this.db.run('ALTER TABLE sdk_sessions ADD COLUMN worker_port INTEGER');
-      logger.debug('DB', 'Added worker_port column to sdk_sessions table');
-    }
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(5, new Date().toISOString());
-  }
-
-  /**
-   * Ensure prompt tracking columns exist (migration 6)
-   */
-  private ensurePromptTrackingColumns(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(6) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check sdk_sessions for prompt_counter
-    const sessionsInfo = this.db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
-    const hasPromptCounter = sessionsInfo.some(col => col.name === 'prompt_counter');
-
-    if (!hasPromptCounter) {
-      this.db.run('ALTER TABLE sdk_sessions ADD COLUMN prompt_counter INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added prompt_counter column to sdk_sessions table');
-    }
-
-    // Check observations for prompt_number
-    const observationsInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const obsHasPromptNumber = observationsInfo.some(col => col.name === 'prompt_number');
-
-    if (!obsHasPromptNumber) {
-      this.db.run('ALTER TABLE observations ADD COLUMN prompt_number INTEGER');
-      logger.debug('DB', 'Added prompt_number column to observations table');
-    }
-
-    // Check session_summaries for prompt_number
-    const summariesInfo = this.db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
-    const sumHasPromptNumber = summariesInfo.some(col => col.name === 'prompt_number');
-
-    if (!sumHasPromptNumber) {
-      this.db.run('ALTER TABLE session_summaries ADD COLUMN prompt_number INTEGER');
-      logger.debug('DB', 'Added prompt_number column to session_summaries table');
-    }
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(6, new Date().toISOString());
-  }
-
-  /**
-   * Remove UNIQUE constraint from session_summaries.memory_session_id (migration 7)
-   */
-  private removeSessionSummariesUniqueConstraint(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(7) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if UNIQUE constraint exists
-    const summariesIndexes = this.db.query('PRAGMA index_list(session_summaries)').all() as IndexInfo[];
-    const hasUniqueConstraint = summariesIndexes.some(idx => idx.unique === 1);
-
-    if (!hasUniqueConstraint) {
-      // Already migrated (no constraint exists)
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(7, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Removing UNIQUE constraint from session_summaries.memory_session_id');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create new table without UNIQUE constraint
-    this.db.run(`
-      CREATE TABLE session_summaries_new (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        project TEXT NOT NULL,
-        request TEXT,
-        investigated TEXT,
-        learned TEXT,
-        completed TEXT,
-        next_steps TEXT,
-        files_read TEXT,
-        files_edited TEXT,
-        notes TEXT,
-        prompt_number INTEGER,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      )
-    `);
-
-    // Copy data from old table
-    this.db.run(`
-      INSERT INTO session_summaries_new
-      SELECT id, memory_session_id, project, request, investigated, learned,
-             completed, next_steps, files_read, files_edited, notes,
-             prompt_number, created_at, created_at_epoch
-      FROM session_summaries
-    `);
-
-    // Drop old table
-    this.db.run('DROP TABLE session_summaries');
-
-    // Rename new table
-    this.db.run('ALTER TABLE session_summaries_new RENAME TO session_summaries');
-
-    // Recreate indexes
-    this.db.run(`
-      CREATE INDEX idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
-      CREATE INDEX idx_session_summaries_project ON session_summaries(project);
-      CREATE INDEX idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(7, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully removed UNIQUE constraint from session_summaries.memory_session_id');
-  }
-
-  /**
-   * Add hierarchical fields to observations table (migration 8)
-   */
-  private addObservationHierarchicalFields(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(8) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if new fields already exist
-    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const hasTitle = tableInfo.some(col => col.name === 'title');
-
-    if (hasTitle) {
-      // Already migrated
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(8, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Adding hierarchical fields to observations table');
-
-    // Add new columns
-    this.db.run(`
-      ALTER TABLE observations ADD COLUMN title TEXT;
-      ALTER TABLE observations ADD COLUMN subtitle TEXT;
-      ALTER TABLE observations ADD COLUMN facts TEXT;
-      ALTER TABLE observations ADD COLUMN narrative TEXT;
-      ALTER TABLE observations ADD COLUMN concepts TEXT;
-      ALTER TABLE observations ADD COLUMN files_read TEXT;
-      ALTER TABLE observations ADD COLUMN files_modified TEXT;
-    `);
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(8, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully added hierarchical fields to observations table');
-  }
-
-  /**
-   * Make observations.text nullable (migration 9)
-   * The text field is deprecated in favor of structured fields (title, subtitle, narrative, etc.)
-   */
-  private makeObservationsTextNullable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(9) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if text column is already nullable
-    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const textColumn = tableInfo.find(col => col.name === 'text');
-
-    if (!textColumn || textColumn.notnull === 0) {
-      // Already migrated or text column doesn't exist
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(9, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Making observations.text nullable');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create new table with text as nullable
-    this.db.run(`
-      CREATE TABLE observations_new (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        project TEXT NOT NULL,
-        text TEXT,
-        type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery', 'change')),
-        title TEXT,
-        subtitle TEXT,
-        facts TEXT,
-        narrative TEXT,
-        concepts TEXT,
-        files_read TEXT,
-        files_modified TEXT,
-        prompt_number INTEGER,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      )
-    `);
-
-    // Copy data from old table (all existing columns)
-    this.db.run(`
-      INSERT INTO observations_new
-      SELECT id, memory_session_id, project, text, type, title, subtitle, facts,
-             narrative, concepts, files_read, files_modified, prompt_number,
-             created_at, created_at_epoch
-      FROM observations
-    `);
-
-    // Drop old table
-    this.db.run('DROP TABLE observations');
-
-    // Rename new table
-    this.db.run('ALTER TABLE observations_new RENAME TO observations');
-
-    // Recreate indexes
-    this.db.run(`
-      CREATE INDEX idx_observations_sdk_session ON observations(memory_session_id);
-      CREATE INDEX idx_observations_project ON observations(project);
-      CREATE INDEX idx_observations_type ON observations(type);
-      CREATE INDEX idx_observations_created ON observations(created_at_epoch DESC);
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(9, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully made observations.text nullable');
-  }
-
-  /**
-   * Create user_prompts table with FTS5 support (migration 10)
-   */
-  private createUserPromptsTable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(10) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if table already exists
-    const tableInfo = this.db.query('PRAGMA table_info(user_prompts)').all() as TableColumnInfo[];
-    if (tableInfo.length > 0) {
-      // Already migrated
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(10, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Creating user_prompts table with FTS5 support');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create main table (using content_session_id since memory_session_id is set asynchronously by worker)
-    this.db.run(`
-      CREATE TABLE user_prompts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_session_id TEXT NOT NULL,
-        prompt_number INTEGER NOT NULL,
-        prompt_text TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(content_session_id) REFERENCES sdk_sessions(content_session_id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX idx_user_prompts_claude_session ON user_prompts(content_session_id);
-      CREATE INDEX idx_user_prompts_created ON user_prompts(created_at_epoch DESC);
-      CREATE INDEX idx_user_prompts_prompt_number ON user_prompts(prompt_number);
-      CREATE INDEX idx_user_prompts_lookup ON user_prompts(content_session_id, prompt_number);
-    `);
-
-    // Create FTS5 virtual table
-    this.db.run(`
-      CREATE VIRTUAL TABLE user_prompts_fts USING fts5(
-        prompt_text,
-        content='user_prompts',
-        content_rowid='id'
-      );
-    `);
-
-    // Create triggers to sync FTS5
-    this.db.run(`
-      CREATE TRIGGER user_prompts_ai AFTER INSERT ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(rowid, prompt_text)
-        VALUES (new.id, new.prompt_text);
-      END;
-
-      CREATE TRIGGER user_prompts_ad AFTER DELETE ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
-        VALUES('delete', old.id, old.prompt_text);
-      END;
-
-      CREATE TRIGGER user_prompts_au AFTER UPDATE ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
-        VALUES('delete', old.id, old.prompt_text);
-        INSERT INTO user_prompts_fts(rowid, prompt_text)
-        VALUES (new.id, new.prompt_text);
-      END;
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(10, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully created user_prompts table with FTS5 support');
-  }
-
-  /**
-   * Ensure discovery_tokens column exists (migration 11)
-   * CRITICAL: This migration was incorrectly using version 7 (which was already taken by removeSessionSummariesUniqueConstraint)
-   * The duplicate version number may have caused migration tracking issues in some databases
-   */
-  private ensureDiscoveryTokensColumn(): void {
-    // Check if migration already applied to avoid unnecessary re-runs
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(11) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if discovery_tokens column exists in observations table
-    const observationsInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const obsHasDiscoveryTokens = observationsInfo.some(col => col.name === 'discovery_tokens');
-
-    if (!obsHasDiscoveryTokens) {
-      this.db.run('ALTER TABLE observations ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added discovery_tokens column to observations table');
-    }
-
-    // Check if discovery_tokens column exists in session_summaries table
-    const summariesInfo = this.db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
-    const sumHasDiscoveryTokens = summariesInfo.some(col => col.name === 'discovery_tokens');
-
-    if (!sumHasDiscoveryTokens) {
-      this.db.run('ALTER TABLE session_summaries ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added discovery_tokens column to session_summaries table');
-    }
-
-    // Record migration only after successful column verification/addition
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(11, new Date().toISOString());
-  }
-
-  /**
-   * Create pending_messages table for persistent work queue (migration 16)
-   * Messages are persisted before processing and deleted after success.
-   * Enables recovery from SDK hangs and worker crashes.
-   */
-  private createPendingMessagesTable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(16) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if table already exists
-    const tables = this.db.query("SELECT name FROM sqlite_master WHERE type='table' AND name='pending_messages'").all() as TableNameRow[];
-    if (tables.length > 0) {
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(16, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Creating pending_messages table');
-
-    this.db.run(`
-      CREATE TABLE pending_messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_db_id INTEGER NOT NULL,
-        content_session_id TEXT NOT NULL,
-        message_type TEXT NOT NULL CHECK(message_type IN ('observation', 'summarize')),
-        tool_name TEXT,
-        tool_input TEXT,
-        tool_response TEXT,
-        cwd TEXT,
-        last_user_message TEXT,
-        last_assistant_message TEXT,
-        prompt_number INTEGER,
-        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'processed', 'failed')),
-        retry_count INTEGER NOT NULL DEFAULT 0,
-        created_at_epoch INTEGER NOT NULL,
-        started_processing_at_epoch INTEGER,
-        completed_at_epoch INTEGER,
-        FOREIGN KEY (session_db_id) REFERENCES sdk_sessions(id) ON DELETE CASCADE
-      )
-    `);
-
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_session ON pending_messages(session_db_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_status ON pending_messages(status)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_claude_session ON pending_messages(content_session_id)');
-
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(16, new Date().toISOString());
-
-    logger.debug('DB', 'pending_messages table created successfully');
-  }
-
-  /**
-   * Rename session ID columns for semantic clarity (migration 17)
-   * - claude_session_id → content_session_id (user's observed session)
-   * - sdk_session_id → memory_session_id (memory agent's session for resume)
-   *
-   * IDEMPOTENT: Checks each table individually before renaming.
-   * This handles databases in any intermediate state (partial migration, fresh install, etc.)
-   */
-  private renameSessionIdColumns(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(17) as SchemaVersion | undefined;
-    if (applied) return;
-
-    logger.debug('DB', 'Checking session ID columns for semantic clarity rename');
-
-    let renamesPerformed = 0;
-
-    // Helper to safely rename a column if it exists
-    const safeRenameColumn = (table: string, oldCol: string, newCol: string): boolean => {
-      const tableInfo = this.db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
-      const hasOldCol = tableInfo.some(col => col.name === oldCol);
-      const hasNewCol = tableInfo.some(col => col.name === newCol);
-
-      if (hasNewCol) {
-        // Already renamed, nothing to do
-        return false;
-      }
-
-      if (hasOldCol) {
-        // SQLite 3.25+ supports ALTER TABLE RENAME COLUMN
-        this.db.run(`ALTER TABLE ${table} RENAME COLUMN ${oldCol} TO ${newCol}`);
-        logger.debug('DB', `Renamed ${table}.${oldCol} to ${newCol}`);
-        return true;
-      }
-
-      // Neither column exists - table might not exist or has different schema
-      logger.warn('DB', `Column ${oldCol} not found in ${table}, skipping rename`);
-      return false;
-    };
-
-    // Rename in sdk_sessions table
-    if (safeRenameColumn('sdk_sessions', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-    if (safeRenameColumn('sdk_sessions', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in pending_messages table
-    if (safeRenameColumn('pending_messages', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-
-    // Rename in observations table
-    if (safeRenameColumn('observations', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in session_summaries table
-    if (safeRenameColumn('session_summaries', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in user_prompts table
-    if (safeRenameColumn('user_prompts', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(17, new Date().toISOString());
-
-    if (renamesPerformed > 0) {
-      logger.debug('DB', `Successfully renamed ${renamesPerformed} session ID columns`);
-    } else {
-      logger.debug('DB', 'No session ID column renames needed (already up to date)');
-    }
-  }
-
-  /**
-   * Repair session ID column renames (migration 19)
-   * DEPRECATED: Migration 17 is now fully idempotent and handles all cases.
-   * This migration is kept for backwards compatibility but does nothing.
-   */
-  private repairSessionIdColumnRename(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(19) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Migration 17 now handles all column rename cases idempotently.
-    // Just record this migration as applied.
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(19, new Date().toISOString());
-  }
-
-  /**
-   * Add failed_at_epoch column to pending_messages (migration 20)
-   * Used by markSessionMessagesFailed() for error recovery tracking
-   */
-  private addFailedAtEpochColumn(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(20) as SchemaVersion | undefined;
-    if (applied) return;
-
-    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
-    const hasColumn = tableInfo.some(col => col.name === 'failed_at_epoch');
-
-    if (!hasColumn) {
-      this.db.run('ALTER TABLE pending_messages ADD COLUMN failed_at_epoch INTEGER');
-      logger.debug('DB', 'Added failed_at_epoch column to pending_messages table');
-    }
-
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(20, new Date().toISOString());
+    // Apply pending schema migrations (throws MigrationDriftError on drift)
+    new MigrationRunner(this.db).runAllMigrations();
   }
 
   /**
@@ -682,7 +154,7 @@ export class SessionStore {
       LIMIT ?
     `);
 
-    return stmt.all(project, limit);
+    return decryptRows(stmt.all(project, limit));
   }
 
   /**
@@ -707,7 +179,7 @@ export class SessionStore {
       LIMIT ?
     `);
 
-    return stmt.all(project, limit);
+    return decryptRows(stmt.all(project, limit));
   }
 
   /**
@@ -722,12 +194,12 @@ export class SessionStore {
     const stmt = this.db.prepare(`
       SELECT type, text, prompt_number, created_at
       FROM observations
-      WHERE project = ?
+      WHERE project = ? AND superseded_by IS NULL
       ORDER BY created_at_epoch DESC
       LIMIT ?
     `);
 
-    return stmt.all(project, limit);
+    return decryptRows(stmt.all(project, limit));
   }
 
   /**
@@ -751,7 +223,7 @@ export class SessionStore {
       LIMIT ?
     `);
 
-    return stmt.all(limit);
+    return decryptRows(stmt.all(limit));
   }
 
   /**
@@ -781,7 +253,7 @@ export class SessionStore {
       LIMIT ?
     `);
 
-    return stmt.all(limit);
+    return decryptRows(stmt.all(limit));
   }
 
   /**
@@ -811,7 +283,7 @@ export class SessionStore {
       LIMIT ?
     `);
 
-    return stmt.all(limit);
+    return decryptRows(stmt.all(limit));
   }
 
   /**
@@ -825,173 +297,1165 @@ export class SessionStore {
       ORDER BY project ASC
     `);
 
-    const rows = stmt.all() as Array<{ project: string }>;
-    return rows.map(row => row.project);
+    const rows = stmt.all() as Array<{ project: string }>;
+    return rows.map(row => row.project);
+  }
+
+  /**
+   * Get latest user prompt with session info for a Claude session
+   * Used for syncing prompts to Chroma during session initialization
+   */
+  getLatestUserPrompt(contentSessionId: string): {
+    id: number;
+    content_session_id: string;
+    memory_session_id: string;
+    project: string;
+    prompt_number: number;
+    prompt_text: string;
+    created_at_epoch: number;
+  } | undefined {
+    const stmt = this.db.prepare(`
+      SELECT
+        up.*,
+        s.memory_session_id,
+        s.project
+      FROM user_prompts up
+      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
+      WHERE up.content_session_id = ?
+      ORDER BY up.created_at_epoch DESC
+      LIMIT 1
+    `);
+
+    return decryptRow(stmt.get(contentSessionId) as LatestPromptResult | undefined);
+  }
+
+  /**
+   * Get recent sessions with their status and summary info
+   */
+  getRecentSessionsWithStatus(project: string, limit: number = 3): Array<{
+    memory_session_id: string | null;
+    status: string;
+    started_at: string;
+    user_prompt: string | null;
+    has_summary: boolean;
+  }> {
+    const stmt = this.db.prepare(`
+      SELECT * FROM (
+        SELECT
+          s.memory_session_id,
+          s.status,
+          s.started_at,
+          s.started_at_epoch,
+          s.user_prompt,
+          CASE WHEN sum.memory_session_id IS NOT NULL THEN 1 ELSE 0 END as has_summary
+        FROM sdk_sessions s
+        LEFT JOIN session_summaries sum ON s.memory_session_id = sum.memory_session_id
+        WHERE s.project = ? AND s.memory_session_id IS NOT NULL
+        GROUP BY s.memory_session_id
+        ORDER BY s.started_at_epoch DESC
+        LIMIT ?
+      )
+      ORDER BY started_at_epoch ASC
+    `);
+
+    return decryptRows(stmt.all(project, limit));
+  }
+
+  /**
+   * Get observations for a specific session
+   */
+  getObservationsForSession(memorySessionId: string): Array<{
+    title: string;
+    subtitle: string;
+    type: string;
+    prompt_number: number | null;
+  }> {
+    const stmt = this.db.prepare(`
+      SELECT title, subtitle, type, prompt_number
+      FROM observations
+      WHERE memory_session_id = ?
+      ORDER BY created_at_epoch ASC
+    `);
+
+    return stmt.all(memorySessionId);
+  }
+
+  /**
+   * Get a single observation by ID
+   */
+  getObservationById(id: number): ObservationRecord | null {
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM observations
+      WHERE id = ?
+    `);
+
+    return decryptRow(stmt.get(id) as ObservationRecord | undefined) || null;
+  }
+
+  /**
+   * Get observations by array of IDs with ordering and limit
+   */
+  getObservationsByIds(
+    ids: number[],
+    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string; dateRange?: DateRange; type?: string | string[]; concepts?: string | string[]; files?: string | string[]; tags?: string[]; favorite?: boolean; namespace?: NamespaceFilter } = {}
+  ): ObservationRecord[] {
+    if (ids.length === 0) return [];
+
+    const { orderBy = 'date_desc', limit, project, dateRange, type, concepts, files, tags, favorite, namespace } = options;
+    const orderClause = orderBy === 'date_asc' ? 'ASC' : 'DESC';
+    const limitClause = limit ? `LIMIT ${limit}` : '';
+
+    // Build placeholders for IN clause
+    const placeholders = ids.map(() => '?').join(',');
+    const params: any[] = [...ids];
+    const additionalConditions: string[] = [];
+
+    // Apply project filter
+    if (project) {
+      additionalConditions.push('project = ?');
+      params.push(project);
+    }
+
+    // Apply date range filter
+    additionalConditions.push(...dateRangeConditions(dateRange, 'created_at_epoch', params));
+
+    // Apply type filter
+    if (type) {
+      if (Array.isArray(type)) {
+        const typePlaceholders = type.map(() => '?').join(',');
+        additionalConditions.push(`type IN (${typePlaceholders})`);
+        params.push(...type);
+      } else {
+        additionalConditions.push('type = ?');
+        params.push(type);
+      }
+    }
+
+    // Apply concepts filter
+    if (concepts) {
+      const conceptsList = Array.isArray(concepts) ? concepts : [concepts];
+      const conceptConditions = conceptsList.map(() =>
+        'EXISTS (SELECT 1 FROM json_each(concepts) WHERE value = ?)'
+      );
+      params.push(...conceptsList);
+      additionalConditions.push(`(${conceptConditions.join(' OR ')})`);
+    }
+
+    // Apply files filter
+    if (files) {
+      const filesList = Array.isArray(files) ? files : [files];
+      const fileConditions = filesList.map(() => {
+        return '(EXISTS (SELECT 1 FROM json_each(files_read) WHERE value LIKE ?) OR EXISTS (SELECT 1 FROM json_each(files_modified) WHERE value LIKE ?))';
+      });
+      filesList.forEach(file => {
+        params.push(`%${file}%`, `%${file}%`);
+      });
+      additionalConditions.push(`(${fileConditions.join(' OR ')})`);
+    }
+
+    // Apply tag filter (every tag must be present)
+    for (const tag of tags ?? []) {
+      additionalConditions.push('EXISTS (SELECT 1 FROM observation_tags ot JOIN tags t ON t.id = ot.tag_id WHERE ot.observation_id = observations.id AND t.name = ?)');
+      params.push(tag);
+    }
+
+    // Apply favorites filter
+    if (favorite) {
+      additionalConditions.push('EXISTS (SELECT 1 FROM favorites f WHERE f.observation_id = observations.id)');
+    }
+
+    // Apply chat namespace filter
+    if (namespace) {
+      additionalConditions.push(namespaceVisibilityClause(namespace, params, ''));
+    }
+
+    const whereClause = additionalConditions.length > 0
+      ? `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`
+      : `WHERE id IN (${placeholders})`;
+
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM observations
+      ${whereClause}
+      ORDER BY created_at_epoch ${orderClause}
+      ${limitClause}
+    `);
+
+    return decryptRows(stmt.all(...params) as ObservationRecord[]);
+  }
+
+  /**
+   * Get observations for a project that have not been superseded by consolidation
+   */
+  getActiveObservations(project: string, limit?: number): ObservationRecord[] {
+    const limitClause = limit ? `LIMIT ${limit}` : '';
+
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM observations
+      WHERE project = ? AND superseded_by IS NULL
+      ORDER BY created_at_epoch DESC
+      ${limitClause}
+    `);
+
+    return decryptRows(stmt.all(project) as ObservationRecord[]);
+  }
+
+  /**
+   * Get the original observations that were merged into a consolidated observation
+   */
+  getSupersededObservations(consolidatedId: number): ObservationRecord[] {
+    const stmt = this.db.prepare(`
+      SELECT *
+      FROM observations
+      WHERE superseded_by = ?
+      ORDER BY created_at_epoch ASC
+    `);
+
+    return decryptRows(stmt.all(consolidatedId) as ObservationRecord[]);
+  }
+
+  /**
+   * Store a consolidated observation and mark the originals as superseded by it.
+   * Both writes happen in one transaction so originals never point at a missing row.
+   */
+  storeConsolidatedObservation(
+    memorySessionId: string,
+    project: string,
+    observation: {
+      type: string;
+      title: string | null;
+      subtitle: string | null;
+      facts: string[];
+      narrative: string | null;
+      concepts: string[];
+      files_read: string[];
+      files_modified: string[];
+    },
+    supersededIds: number[],
+    discoveryTokens: number = 0
+  ): { id: number; createdAtEpoch: number } {
+    const markStmt = this.db.prepare(`
+      UPDATE observations
+      SET superseded_by = ?
+      WHERE id = ? AND superseded_by IS NULL
+    `);
+
+    const storeTx = this.db.transaction(() => {
+      const stored = this.storeObservation(memorySessionId, project, observation, undefined, discoveryTokens);
+      for (const id of supersededIds) {
+        markStmt.run(stored.id, id);
+        this.addObservationLink(stored.id, id, 'supersedes');
+      }
+      return stored;
+    });
+
+    return storeTx();
+  }
+
+  /**
+   * Link two observations (from_id <kind> to_id).
+   * Returns false when the link already exists or either observation is missing.
+   */
+  addObservationLink(fromId: number, toId: number, kind: ObservationLinkKind): boolean {
+    if (fromId === toId) return false;
+
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO observation_links (from_id, to_id, kind, created_at_epoch)
+      SELECT ?, ?, ?, ?
+      WHERE EXISTS (SELECT 1 FROM observations WHERE id = ?)
+        AND EXISTS (SELECT 1 FROM observations WHERE id = ?)
+    `).run(fromId, toId, kind, Date.now(), fromId, toId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Get all links touching an observation, in either direction
+   */
+  getObservationLinks(observationId: number): ObservationLinkRecord[] {
+    return this.db.prepare(`
+      SELECT *
+      FROM observation_links
+      WHERE from_id = ? OR to_id = ?
+      ORDER BY created_at_epoch ASC, id ASC
+    `).all(observationId, observationId) as ObservationLinkRecord[];
+  }
+
+  /**
+   * Walk the link graph breadth-first from an anchor, following links in both directions.
+   * Returns every observation within `hops` links (anchor at hop 0) and the links traversed.
+   */
+  getRelatedObservations(
+    anchorId: number,
+    hops: number,
+    kinds?: ObservationLinkKind[]
+  ): { observations: Array<ObservationRecord & { hops: number }>; links: ObservationLinkRecord[] } {
+    const depthById = new Map<number, number>([[anchorId, 0]]);
+    const links = new Map<number, ObservationLinkRecord>();
+    let frontier = [anchorId];
+
+    for (let depth = 1; depth <= hops && frontier.length > 0; depth++) {
+      const next: number[] = [];
+      for (const id of frontier) {
+        for (const link of this.getObservationLinks(id)) {
+          if (kinds && kinds.length > 0 && !kinds.includes(link.kind)) continue;
+          links.set(link.id, link);
+
+          const neighbor = link.from_id === id ? link.to_id : link.from_id;
+          if (!depthById.has(neighbor)) {
+            depthById.set(neighbor, depth);
+            next.push(neighbor);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    const observations = this.getObservationsByIds(Array.from(depthById.keys()))
+      .map(obs => ({ ...obs, hops: depthById.get(obs.id)! }))
+      .sort((a, b) => a.hops - b.hops || a.created_at_epoch - b.created_at_epoch);
+
+    return { observations, links: Array.from(links.values()) };
+  }
+
+  /**
+   * Store parsed relates_to links for a newly stored observation
+   */
+  private storeObservationLinks(
+    observationId: number,
+    relations?: Array<{ id: number; kind: ObservationLinkKind }>
+  ): void {
+    for (const relation of relations ?? []) {
+      if (!this.addObservationLink(observationId, relation.id, relation.kind)) {
+        logger.debug('DB', 'Skipped observation link', { observationId, targetId: relation.id, kind: relation.kind });
+      }
+    }
+  }
+
+  /**
+   * Observations with captured git state whose file changes have not yet been
+   * mapped to a commit, newest first, skipping those already tried maxAttempts times
+   */
+  getUnreconciledObservations(project: string, limit: number = 200, maxAttempts: number = Number.MAX_SAFE_INTEGER): ObservationRecord[] {
+    return decryptRows(this.db.prepare(`
+      SELECT o.*
+      FROM observations o
+      WHERE o.project = ?
+        AND o.git_head_sha IS NOT NULL
+        AND o.files_modified IS NOT NULL AND o.files_modified != '[]'
+        AND o.commit_reconcile_attempts < ?
+        AND NOT EXISTS (SELECT 1 FROM observation_commits c WHERE c.observation_id = o.id)
+      ORDER BY o.created_at_epoch DESC
+      LIMIT ?
+    `).all(project, maxAttempts, limit) as ObservationRecord[]);
+  }
+
+  /**
+   * Count a reconciliation pass that found no commit for an observation.
+   * `attempts` sets the count outright (e.g. to give up on a rebased-away base).
+   */
+  recordReconcileAttempt(observationId: number, attempts?: number): void {
+    if (attempts === undefined) {
+      this.db.prepare('UPDATE observations SET commit_reconcile_attempts = commit_reconcile_attempts + 1 WHERE id = ?').run(observationId);
+    } else {
+      this.db.prepare('UPDATE observations SET commit_reconcile_attempts = ? WHERE id = ?').run(attempts, observationId);
+    }
+  }
+
+  /**
+   * Record that a commit contained an observation's file changes
+   * @returns true if a new mapping was stored
+   */
+  addObservationCommit(observationId: number, commitSha: string): boolean {
+    const result = this.db.prepare(`
+      INSERT OR IGNORE INTO observation_commits (observation_id, commit_sha, created_at_epoch)
+      VALUES (?, ?, ?)
+    `).run(observationId, commitSha.toLowerCase(), Date.now());
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Observations whose file changes were contained in a commit.
+   * Accepts an abbreviated sha (min 4 chars), which may match several commits.
+   */
+  getObservationsByCommit(
+    sha: string,
+    project?: string
+  ): Array<ObservationRecord & { commit_sha: string }> {
+    const projectClause = project ? 'AND o.project = ?' : '';
+    const params = [`${sha.toLowerCase()}%`, ...(project ? [project] : [])];
+
+    return decryptRows(this.db.prepare(`
+      SELECT o.*, c.commit_sha
+      FROM observation_commits c
+      JOIN observations o ON o.id = c.observation_id
+      WHERE c.commit_sha LIKE ? ${projectClause}
+      ORDER BY o.created_at_epoch ASC, o.id ASC
+    `).all(...params) as Array<ObservationRecord & { commit_sha: string }>);
+  }
+
+  /**
+   * Commits that contained an observation's file changes
+   */
+  getCommitsForObservation(observationId: number): ObservationCommitRecord[] {
+    return this.db.prepare(`
+      SELECT * FROM observation_commits
+      WHERE observation_id = ?
+      ORDER BY created_at_epoch ASC
+    `).all(observationId) as ObservationCommitRecord[];
+  }
+
+  /**
+   * Record content hashes of the files an observation references
+   */
+  setObservationFileHashes(observationId: number, fileHashes: Record<string, string | null>): void {
+    this.db.prepare('UPDATE observations SET file_hashes = ? WHERE id = ?')
+      .run(JSON.stringify(fileHashes), observationId);
+  }
+
+  /**
+   * Persist staleness check results
+   */
+  updateObservationStaleness(updates: Array<{ id: number; staleness: ObservationStaleness }>): void {
+    if (updates.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      UPDATE observations SET staleness = ?, staleness_checked_at_epoch = ? WHERE id = ?
+    `);
+    const checkedAt = Date.now();
+    this.db.transaction(() => {
+      for (const { id, staleness } of updates) {
+        stmt.run(staleness, checkedAt, id);
+      }
+    })();
+  }
+
+  /**
+   * Favorite an observation, or update an existing favorite.
+   * Fields left undefined keep their current value.
+   */
+  setFavorite(observationId: number, options: { note?: string | null; pinned?: boolean } = {}): FavoriteRecord {
+    this.db.prepare(`
+      INSERT INTO favorites (observation_id, note, pinned, created_at_epoch)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(observation_id) DO UPDATE SET
+        note = CASE WHEN ? THEN excluded.note ELSE favorites.note END,
+        pinned = CASE WHEN ? THEN excluded.pinned ELSE favorites.pinned END
+    `).run(
+      observationId,
+      options.note ?? null,
+      options.pinned ? 1 : 0,
+      Date.now(),
+      options.note !== undefined ? 1 : 0,
+      options.pinned !== undefined ? 1 : 0
+    );
+
+    return this.getFavorite(observationId)!;
+  }
+
+  /**
+   * Remove an observation from favorites
+   * @returns true if it was a favorite
+   */
+  removeFavorite(observationId: number): boolean {
+    return this.db.prepare('DELETE FROM favorites WHERE observation_id = ?').run(observationId).changes > 0;
+  }
+
+  getFavorite(observationId: number): FavoriteRecord | null {
+    return this.db.prepare(`
+      SELECT observation_id, note, pinned, created_at_epoch FROM favorites WHERE observation_id = ?
+    `).get(observationId) as FavoriteRecord | null;
+  }
+
+  /**
+   * List favorites, newest first
+   */
+  getFavorites(options: { project?: string; pinnedOnly?: boolean; limit?: number } = {}): FavoriteRecord[] {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.project) {
+      conditions.push('o.project = ?');
+      params.push(options.project);
+    }
+    if (options.pinnedOnly) {
+      conditions.push('f.pinned = 1');
+    }
+    params.push(options.limit ?? -1);
+
+    return this.db.prepare(`
+      SELECT f.observation_id, f.note, f.pinned, f.created_at_epoch
+      FROM favorites f
+      JOIN observations o ON o.id = f.observation_id
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+      ORDER BY f.created_at_epoch DESC, f.observation_id DESC
+      LIMIT ?
+    `).all(...params) as FavoriteRecord[];
+  }
+
+  /**
+   * Favorites among the given observations, keyed by observation id
+   */
+  getFavoritesForObservations(observationIds: number[]): Map<number, FavoriteRecord> {
+    if (observationIds.length === 0) return new Map();
+
+    const rows = this.db.prepare(`
+      SELECT observation_id, note, pinned, created_at_epoch
+      FROM favorites
+      WHERE observation_id IN (${observationIds.map(() => '?').join(',')})
+    `).all(...observationIds) as FavoriteRecord[];
+
+    return new Map(rows.map(row => [row.observation_id, row]));
+  }
+
+  clearFavorites(): void {
+    this.db.run('DELETE FROM favorites');
+  }
+
+  /**
+   * Create a tag if it doesn't exist yet; color and description only apply on creation
+   * @param name - Already normalized tag name (see normalizeTagName)
+   */
+  createTag(name: string, options: { color?: string; description?: string } = {}): TagRecord {
+    this.db.prepare(`
+      INSERT OR IGNORE INTO tags (name, color, description, created_at_epoch)
+      VALUES (?, COALESCE(?, '#6b7280'), ?, ?)
+    `).run(name, options.color ?? null, options.description ?? null, Date.now());
+
+    return this.getTag(name)!;
+  }
+
+  getTag(name: string): TagRecord | null {
+    return this.db.prepare(`
+      SELECT id, name, color, description, created_at_epoch FROM tags WHERE name = ?
+    `).get(name) as TagRecord | null;
+  }
+
+  /**
+   * All tags with the number of observations carrying each
+   */
+  getTags(): Array<TagRecord & { observation_count: number }> {
+    return this.db.prepare(`
+      SELECT t.id, t.name, t.color, t.description, t.created_at_epoch,
+        (SELECT COUNT(*) FROM observation_tags ot WHERE ot.tag_id = t.id) AS observation_count
+      FROM tags t
+      ORDER BY t.name ASC
+    `).all() as Array<TagRecord & { observation_count: number }>;
+  }
+
+  /**
+   * Update a tag's color or description
+   * @returns the updated tag, or null if it doesn't exist
+   */
+  updateTag(name: string, updates: { color?: string; description?: string | null }): TagRecord | null {
+    this.db.prepare(`
+      UPDATE tags SET
+        color = COALESCE(?, color),
+        description = CASE WHEN ? THEN ? ELSE description END
+      WHERE name = ?
+    `).run(updates.color ?? null, updates.description !== undefined ? 1 : 0, updates.description ?? null, name);
+
+    return this.getTag(name);
+  }
+
+  /**
+   * Delete a tag and remove it from every observation
+   */
+  deleteTag(name: string): boolean {
+    return this.db.prepare('DELETE FROM tags WHERE name = ?').run(name).changes > 0;
+  }
+
+  /**
+   * Attach tags to an observation, creating tags that don't exist yet
+   * @param names - Already normalized tag names
+   * @returns the observation's full tag list afterwards
+   */
+  tagObservation(observationId: number, names: string[]): string[] {
+    const attach = this.db.prepare(`
+      INSERT OR IGNORE INTO observation_tags (observation_id, tag_id, created_at_epoch) VALUES (?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      for (const name of names) {
+        attach.run(observationId, this.createTag(name).id, Date.now());
+      }
+    })();
+
+    return this.getTagsForObservations([observationId]).get(observationId) ?? [];
+  }
+
+  /**
+   * Detach a tag from an observation (the tag itself is kept)
+   */
+  untagObservation(observationId: number, name: string): boolean {
+    return this.db.prepare(`
+      DELETE FROM observation_tags
+      WHERE observation_id = ? AND tag_id = (SELECT id FROM tags WHERE name = ?)
+    `).run(observationId, name).changes > 0;
+  }
+
+  /**
+   * Tag names per observation, sorted alphabetically
+   */
+  getTagsForObservations(observationIds: number[]): Map<number, string[]> {
+    const tagsById = new Map<number, string[]>();
+    if (observationIds.length === 0) return tagsById;
+
+    const rows = this.db.prepare(`
+      SELECT ot.observation_id, t.name
+      FROM observation_tags ot
+      JOIN tags t ON t.id = ot.tag_id
+      WHERE ot.observation_id IN (${observationIds.map(() => '?').join(',')})
+      ORDER BY t.name ASC
+    `).all(...observationIds) as Array<{ observation_id: number; name: string }>;
+
+    for (const row of rows) {
+      const names = tagsById.get(row.observation_id) ?? [];
+      names.push(row.name);
+      tagsById.set(row.observation_id, names);
+    }
+    return tagsById;
+  }
+
+  /**
+   * Remember the observations shown in a session's SessionStart context
+   */
+  recordContextInjections(contentSessionId: string, observationIds: number[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO context_injections (content_session_id, observation_id, injected_at_epoch)
+      VALUES (?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      for (const id of observationIds) {
+        insert.run(contentSessionId, id, Date.now());
+      }
+    })();
+  }
+
+  /**
+   * IDs of the observations shown in a session's SessionStart context
+   */
+  getContextInjectedIds(contentSessionId: string): number[] {
+    const rows = this.db.prepare('SELECT observation_id FROM context_injections WHERE content_session_id = ?')
+      .all(contentSessionId) as Array<{ observation_id: number }>;
+    return rows.map(row => row.observation_id);
+  }
+
+  /**
+   * Add to a session's redaction counts
+   * @param counts - Redactions per detector or rule name
+   */
+  recordRedactions(contentSessionId: string, counts: Record<string, number>): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO session_redactions (content_session_id, kind, count, updated_at_epoch)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(content_session_id, kind) DO UPDATE SET
+        count = count + excluded.count,
+        updated_at_epoch = excluded.updated_at_epoch
+    `);
+    this.db.transaction(() => {
+      for (const [kind, count] of Object.entries(counts)) {
+        if (count > 0) {
+          upsert.run(contentSessionId, kind, count, Date.now());
+        }
+      }
+    })();
+  }
+
+  /**
+   * Total redactions, with per-session counts for the most recently active sessions (newest first)
+   */
+  getRedactionStats(limit: number = 20): { total: number; sessions: SessionRedactionStats[] } {
+    const { total } = this.db.prepare('SELECT COALESCE(SUM(count), 0) AS total FROM session_redactions').get() as { total: number };
+
+    const rows = this.db.prepare(`
+      SELECT r.content_session_id, r.kind, r.count, r.updated_at_epoch
+      FROM session_redactions r
+      JOIN (
+        SELECT content_session_id, MAX(updated_at_epoch) AS last_epoch
+        FROM session_redactions
+        GROUP BY content_session_id
+        ORDER BY last_epoch DESC
+        LIMIT ?
+      ) recent ON recent.content_session_id = r.content_session_id
+      ORDER BY recent.last_epoch DESC, r.kind ASC
+    `).all(limit) as Array<{ content_session_id: string; kind: string; count: number; updated_at_epoch: number }>;
+
+    const sessions = new Map<string, SessionRedactionStats>();
+    for (const row of rows) {
+      const session = sessions.get(row.content_session_id) ?? {
+        content_session_id: row.content_session_id,
+        total: 0,
+        by_kind: {},
+        updated_at_epoch: 0
+      };
+      session.total += row.count;
+      session.by_kind[row.kind] = row.count;
+      session.updated_at_epoch = Math.max(session.updated_at_epoch, row.updated_at_epoch);
+      sessions.set(row.content_session_id, session);
+    }
+    return { total, sessions: [...sessions.values()] };
+  }
+
+  /**
+   * Record a tool use suppressed or truncated by a privacy policy
+   */
+  recordPolicySuppression(suppression: Omit<PolicySuppressionRecord, 'id' | 'created_at_epoch'>): number {
+    const result = this.db.prepare(`
+      INSERT INTO policy_suppressions (content_session_id, project, tool_name, action, rule, source, target, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      suppression.content_session_id,
+      suppression.project,
+      suppression.tool_name,
+      suppression.action,
+      suppression.rule,
+      suppression.source,
+      suppression.target,
+      Date.now()
+    );
+    return Number(result.lastInsertRowid);
+  }
+
+  /**
+   * Most recent policy suppressions, newest first
+   */
+  getPolicySuppressions(options: { project?: string; limit?: number } = {}): PolicySuppressionRecord[] {
+    const { project, limit = 50 } = options;
+    return this.db.prepare(`
+      SELECT id, content_session_id, project, tool_name, action, rule, source, target, created_at_epoch
+      FROM policy_suppressions
+      ${project ? 'WHERE project = ?' : ''}
+      ORDER BY created_at_epoch DESC, id DESC
+      LIMIT ?
+    `).all(...(project ? [project, limit] : [limit])) as PolicySuppressionRecord[];
+  }
+
+  /**
+   * Sessions of a project that can be reprocessed, oldest first. Only sessions
+   * whose memory session was captured have observations to replace; replay,
+   * saved-memory and MoltBook reply sessions have no transcript and are never
+   * candidates.
+   */
+  getReprocessableSessions(
+    project: string,
+    options: { sessionIds?: number[]; fromEpoch?: number; toEpoch?: number; limit?: number } = {}
+  ): Array<{ id: number; content_session_id: string; memory_session_id: string; project: string; user_prompt: string | null; mode_id: string | null; started_at_epoch: number }> {
+    const { sessionIds, fromEpoch, toEpoch, limit = 50 } = options;
+    const conditions = ['project = ?', 'memory_session_id IS NOT NULL', 'content_session_id NOT LIKE ?', 'content_session_id NOT LIKE ?', 'content_session_id NOT LIKE ?'];
+    const params: Array<string | number> = [project, `${REPLAY_SESSION_PREFIX}%`, `${TOOL_MEMORY_SESSION_PREFIX}%`, `${MOLTBOOK_SESSION_PREFIX}%`];
+
+    if (sessionIds && sessionIds.length > 0) {
+      conditions.push(`id IN (${sessionIds.map(() => '?').join(',')})`);
+      params.push(...sessionIds);
+    }
+    if (fromEpoch !== undefined) {
+      conditions.push('started_at_epoch >= ?');
+      params.push(fromEpoch);
+    }
+    if (toEpoch !== undefined) {
+      conditions.push('started_at_epoch <= ?');
+      params.push(toEpoch);
+    }
+
+    return this.db.prepare(`
+      SELECT id, content_session_id, memory_session_id, project, user_prompt, mode_id, started_at_epoch
+      FROM sdk_sessions
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY started_at_epoch ASC
+      LIMIT ?
+    `).all(...params, limit) as any[];
+  }
+
+  /**
+   * All stored prompts of a session, in order
+   */
+  getUserPromptsForSession(contentSessionId: string): Array<{ prompt_number: number; prompt_text: string; created_at_epoch: number }> {
+    return decryptRows(this.db.prepare(`
+      SELECT prompt_number, prompt_text, created_at_epoch
+      FROM user_prompts
+      WHERE content_session_id = ?
+      ORDER BY prompt_number ASC
+    `).all(contentSessionId) as Array<{ prompt_number: number; prompt_text: string; created_at_epoch: number }>);
+  }
+
+  /**
+   * Create a reprocess run over the given source sessions
+   */
+  createReprocessRun(
+    project: string,
+    sessions: Array<{ id: number; memory_session_id: string }>,
+    options: { modeId?: string | null; provider?: string | null } = {}
+  ): number {
+    const runStmt = this.db.prepare(`
+      INSERT INTO reprocess_runs (project, mode_id, provider, status, created_at_epoch)
+      VALUES (?, ?, ?, 'replaying', ?)
+    `);
+    const sessionStmt = this.db.prepare(`
+      INSERT INTO reprocess_sessions (run_id, source_session_id, memory_session_id)
+      VALUES (?, ?, ?)
+    `);
+
+    return this.db.transaction(() => {
+      const runId = Number(runStmt.run(project, options.modeId ?? null, options.provider ?? null, Date.now()).lastInsertRowid);
+      for (const session of sessions) {
+        sessionStmt.run(runId, session.id, session.memory_session_id);
+      }
+      return runId;
+    })();
+  }
+
+  getReprocessRun(runId: number): ReprocessRunRecord | null {
+    return this.db.prepare('SELECT * FROM reprocess_runs WHERE id = ?').get(runId) as ReprocessRunRecord | null;
+  }
+
+  /**
+   * Most recent reprocess runs, newest first
+   */
+  getReprocessRuns(options: { project?: string; limit?: number } = {}): ReprocessRunRecord[] {
+    const { project, limit = 20 } = options;
+    return this.db.prepare(`
+      SELECT * FROM reprocess_runs
+      ${project ? 'WHERE project = ?' : ''}
+      ORDER BY created_at_epoch DESC, id DESC
+      LIMIT ?
+    `).all(...(project ? [project, limit] : [limit])) as ReprocessRunRecord[];
+  }
+
+  getReprocessSessions(runId: number): ReprocessSessionRecord[] {
+    return this.db.prepare(`
+      SELECT * FROM reprocess_sessions
+      WHERE run_id = ?
+      ORDER BY source_session_id ASC
+    `).all(runId) as ReprocessSessionRecord[];
+  }
+
+  /**
+   * Move a run to a new status. Replaying ends in staged, failed or discarded.
+   */
+  setReprocessRunStatus(runId: number, status: ReprocessRunStatus, error: string | null = null): void {
+    const ended = status === 'staged' || status === 'failed' || status === 'discarded';
+    this.db.prepare(`
+      UPDATE reprocess_runs
+      SET status = ?, error = ?, completed_at_epoch = CASE WHEN ? THEN ? ELSE completed_at_epoch END
+      WHERE id = ?
+    `).run(status, error, ended ? 1 : 0, Date.now(), runId);
+  }
+
+  setReprocessSessionStatus(
+    runId: number,
+    sourceSessionId: number,
+    status: ReprocessSessionRecord['status'],
+    updates: { events?: number; error?: string | null } = {}
+  ): void {
+    this.db.prepare(`
+      UPDATE reprocess_sessions
+      SET status = ?, events = COALESCE(?, events), error = ?
+      WHERE run_id = ? AND source_session_id = ?
+    `).run(status, updates.events ?? null, updates.error ?? null, runId, sourceSessionId);
+  }
+
+  /**
+   * Create the throwaway session a source session is replayed through.
+   * It carries the source's project and namespace and the mode to replay in;
+   * its memory session is captured by the agent like any other session.
+   */
+  createReplaySession(runId: number, source: { content_session_id: string; project: string }, userPrompt: string, modeId: string | null): number {
+    const contentSessionId = `${REPLAY_SESSION_PREFIX}${runId}-${source.content_session_id}`;
+    const sessionDbId = this.createSDKSession(contentSessionId, source.project, userPrompt);
+    if (modeId) {
+      this.setSessionMode(contentSessionId, modeId);
+    }
+    this.db.prepare(`
+      UPDATE sdk_sessions
+      SET (namespace_channel, namespace_user, namespace_user_name) = (
+        SELECT namespace_channel, namespace_user, namespace_user_name FROM sdk_sessions WHERE content_session_id = ?
+      )
+      WHERE id = ?
+    `).run(source.content_session_id, sessionDbId);
+    return sessionDbId;
+  }
+
+  /**
+   * Delete a replay session; its remaining queued messages cascade with it
+   */
+  deleteReplaySession(sessionDbId: number): void {
+    this.db.prepare('DELETE FROM sdk_sessions WHERE id = ? AND content_session_id LIKE ?')
+      .run(sessionDbId, `${REPLAY_SESSION_PREFIX}%`);
+  }
+
+  /**
+   * Replay sessions left behind by an interrupted run
+   */
+  getReplaySessionIds(): number[] {
+    return (this.db.prepare('SELECT id FROM sdk_sessions WHERE content_session_id LIKE ?')
+      .all(`${REPLAY_SESSION_PREFIX}%`) as Array<{ id: number }>).map(row => row.id);
   }
 
   /**
-   * Get latest user prompt with session info for a Claude session
-   * Used for syncing prompts to Chroma during session initialization
+   * Store observations in a run's staging generation instead of the live table.
+   * Rows are shaped (and sealed) exactly as storeObservations would write them,
+   * under the source session's memory session ID.
+   * @returns IDs of the staged rows
    */
-  getLatestUserPrompt(contentSessionId: string): {
-    id: number;
-    content_session_id: string;
-    memory_session_id: string;
-    project: string;
-    prompt_number: number;
-    prompt_text: string;
-    created_at_epoch: number;
-  } | undefined {
+  stageObservations(
+    target: { runId: number; memorySessionId: string },
+    project: string,
+    observations: Array<{
+      type: string;
+      title: string | null;
+      subtitle: string | null;
+      facts: string[];
+      narrative: string | null;
+      concepts: string[];
+      files_read: string[];
+      files_modified: string[];
+      scope?: NamespaceScope;
+    }>,
+    promptNumber?: number,
+    discoveryTokens: number = 0,
+    overrideTimestampEpoch?: number
+  ): number[] {
+    const timestampEpoch = overrideTimestampEpoch ?? Date.now();
     const stmt = this.db.prepare(`
-      SELECT
-        up.*,
-        s.memory_session_id,
-        s.project
-      FROM user_prompts up
-      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
-      WHERE up.content_session_id = ?
-      ORDER BY up.created_at_epoch DESC
-      LIMIT 1
+      INSERT INTO reprocess_observations (run_id, generation, memory_session_id, row_json, created_at_epoch)
+      VALUES (?, 'staged', ?, ?, ?)
     `);
 
-    return stmt.get(contentSessionId) as LatestPromptResult | undefined;
+    const namespace = this.getSessionNamespace(target.memorySessionId);
+
+    return this.db.transaction(() => observations.map(observation => {
+      const sealed = sealFields('observations', { facts: JSON.stringify(observation.facts), narrative: observation.narrative });
+      const [namespaceChannel, namespaceUser, namespaceScope] = namespaceColumns(namespace, observation.scope);
+      const row = {
+        memory_session_id: target.memorySessionId,
+        project,
+        type: observation.type,
+        title: observation.title,
+        subtitle: observation.subtitle,
+        facts: sealed.values.facts,
+        narrative: sealed.values.narrative,
+        concepts: JSON.stringify(observation.concepts),
+        files_read: JSON.stringify(observation.files_read),
+        files_modified: JSON.stringify(observation.files_modified),
+        prompt_number: promptNumber || null,
+        discovery_tokens: discoveryTokens,
+        search_projection: sealed.searchProjection,
+        namespace_channel: namespaceChannel,
+        namespace_user: namespaceUser,
+        namespace_scope: namespaceScope,
+        created_at: new Date(timestampEpoch).toISOString(),
+        created_at_epoch: timestampEpoch
+      };
+      return Number(stmt.run(target.runId, target.memorySessionId, JSON.stringify(row), Date.now()).lastInsertRowid);
+    }))();
   }
 
   /**
-   * Get recent sessions with their status and summary info
+   * Observations held by a run, decrypted. Staged rows carry their live ID
+   * once applied (null before); previous rows carry their original ID.
    */
-  getRecentSessionsWithStatus(project: string, limit: number = 3): Array<{
-    memory_session_id: string | null;
-    status: string;
-    started_at: string;
-    user_prompt: string | null;
-    has_summary: boolean;
-  }> {
-    const stmt = this.db.prepare(`
-      SELECT * FROM (
-        SELECT
-          s.memory_session_id,
-          s.status,
-          s.started_at,
-          s.started_at_epoch,
-          s.user_prompt,
-          CASE WHEN sum.memory_session_id IS NOT NULL THEN 1 ELSE 0 END as has_summary
-        FROM sdk_sessions s
-        LEFT JOIN session_summaries sum ON s.memory_session_id = sum.memory_session_id
-        WHERE s.project = ? AND s.memory_session_id IS NOT NULL
-        GROUP BY s.memory_session_id
-        ORDER BY s.started_at_epoch DESC
-        LIMIT ?
-      )
-      ORDER BY started_at_epoch ASC
-    `);
-
-    return stmt.all(project, limit);
+  getReprocessObservations(runId: number, generation: ReprocessObservationRecord['generation']): ObservationRecord[] {
+    const records = this.db.prepare(`
+      SELECT * FROM reprocess_observations
+      WHERE run_id = ? AND generation = ?
+      ORDER BY id ASC
+    `).all(runId, generation) as ReprocessObservationRecord[];
+
+    return records.map(record => decryptRow({ ...JSON.parse(record.row_json), id: record.observation_id }) as ObservationRecord);
   }
 
   /**
-   * Get observations for a specific session
+   * Side-by-side view of a run per source session: the observations it
+   * replaces (the live ones until it is applied) and the ones it staged
    */
-  getObservationsForSession(memorySessionId: string): Array<{
-    title: string;
-    subtitle: string;
-    type: string;
-    prompt_number: number | null;
-  }> {
-    const stmt = this.db.prepare(`
-      SELECT title, subtitle, type, prompt_number
-      FROM observations
+  getReprocessDiff(runId: number): Array<{ session: ReprocessSessionRecord; before: ObservationRecord[]; after: ObservationRecord[] }> {
+    const run = this.getReprocessRun(runId);
+    if (!run) return [];
+
+    const replaced = run.status === 'applied' || run.status === 'rolled_back';
+    const previous = replaced ? this.getReprocessObservations(runId, 'previous') : [];
+    const staged = this.getReprocessObservations(runId, 'staged');
+    const liveStmt = this.db.prepare(`
+      SELECT * FROM observations
       WHERE memory_session_id = ?
-      ORDER BY created_at_epoch ASC
+      ORDER BY created_at_epoch ASC, id ASC
     `);
 
-    return stmt.all(memorySessionId);
+    return this.getReprocessSessions(runId).map(session => ({
+      session,
+      before: replaced
+        ? previous.filter(row => row.memory_session_id === session.memory_session_id)
+        : decryptRows(liveStmt.all(session.memory_session_id) as ObservationRecord[]),
+      after: staged.filter(row => row.memory_session_id === session.memory_session_id)
+    }));
   }
 
   /**
-   * Get a single observation by ID
+   * Swap a staged run in: the live observations of every staged session are
+   * moved to the run's 'previous' generation (with the rows that reference
+   * them) and the staged observations take their place, in one transaction.
    */
-  getObservationById(id: number): ObservationRecord | null {
-    const stmt = this.db.prepare(`
-      SELECT *
-      FROM observations
-      WHERE id = ?
+  applyReprocessRun(runId: number): { applied: number; replaced: number } {
+    const insertPrevious = this.db.prepare(`
+      INSERT INTO reprocess_observations (run_id, generation, memory_session_id, observation_id, row_json, dependents_json, created_at_epoch)
+      VALUES (?, 'previous', ?, ?, ?, ?, ?)
     `);
+    const markApplied = this.db.prepare('UPDATE reprocess_observations SET observation_id = ? WHERE id = ?');
+
+    return this.db.transaction(() => {
+      const run = this.getReprocessRun(runId);
+      if (!run || run.status !== 'staged') {
+        throw new Error(`Reprocess run ${runId} is not staged`);
+      }
 
-    return stmt.get(id) as ObservationRecord | undefined || null;
+      const memorySessionIds = this.getReprocessSessions(runId)
+        .filter(session => session.status === 'staged')
+        .map(session => session.memory_session_id);
+
+      let replaced = 0;
+      for (const memorySessionId of memorySessionIds) {
+        const rows = this.db.prepare('SELECT * FROM observations WHERE memory_session_id = ?').all(memorySessionId) as Array<Record<string, unknown> & { id: number }>;
+        for (const row of rows) {
+          const dependents = this.snapshotObservationDependents(row.id);
+          insertPrevious.run(runId, memorySessionId, row.id, JSON.stringify(row), JSON.stringify(dependents), Date.now());
+          // Observations consolidated into this one would otherwise point at a missing row
+          this.db.prepare('UPDATE observations SET superseded_by = NULL WHERE superseded_by = ?').run(row.id);
+        }
+        this.db.prepare('DELETE FROM observations WHERE memory_session_id = ?').run(memorySessionId);
+        replaced += rows.length;
+      }
+
+      const staged = this.db.prepare(`
+        SELECT id, memory_session_id, row_json FROM reprocess_observations
+        WHERE run_id = ? AND generation = 'staged'
+        ORDER BY id ASC
+      `).all(runId) as Array<{ id: number; memory_session_id: string; row_json: string }>;
+
+      let applied = 0;
+      for (const record of staged) {
+        if (!memorySessionIds.includes(record.memory_session_id)) continue;
+        markApplied.run(this.insertRow('observations', JSON.parse(record.row_json)), record.id);
+        applied++;
+      }
+
+      this.db.prepare(`UPDATE reprocess_runs SET status = 'applied', applied_at_epoch = ? WHERE id = ?`).run(Date.now(), runId);
+      return { applied, replaced };
+    })();
   }
 
   /**
-   * Get observations by array of IDs with ordering and limit
+   * Undo an applied run: remove the observations it applied and restore the
+   * ones it replaced, with their original IDs and referencing rows. Only the
+   * latest applied run over a session can be rolled back.
    */
-  getObservationsByIds(
-    ids: number[],
-    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string; type?: string | string[]; concepts?: string | string[]; files?: string | string[] } = {}
-  ): ObservationRecord[] {
-    if (ids.length === 0) return [];
+  rollbackReprocessRun(runId: number): { removed: number; restored: number } {
+    return this.db.transaction(() => {
+      const run = this.getReprocessRun(runId);
+      if (!run || run.status !== 'applied') {
+        throw new Error(`Reprocess run ${runId} is not applied`);
+      }
 
-    const { orderBy = 'date_desc', limit, project, type, concepts, files } = options;
-    const orderClause = orderBy === 'date_asc' ? 'ASC' : 'DESC';
-    const limitClause = limit ? `LIMIT ${limit}` : '';
+      const later = this.db.prepare(`
+        SELECT r.id FROM reprocess_runs r
+        JOIN reprocess_sessions later ON later.run_id = r.id
+        JOIN reprocess_sessions mine ON mine.source_session_id = later.source_session_id AND mine.run_id = ?
+        WHERE r.id > ? AND r.status = 'applied' AND later.status = 'staged' AND mine.status = 'staged'
+        LIMIT 1
+      `).get(runId, runId) as { id: number } | null;
+      if (later) {
+        throw new Error(`Reprocess run ${later.id} replaced the same sessions later; roll it back first`);
+      }
 
-    // Build placeholders for IN clause
-    const placeholders = ids.map(() => '?').join(',');
-    const params: any[] = [...ids];
-    const additionalConditions: string[] = [];
+      const applied = this.db.prepare(`
+        SELECT observation_id FROM reprocess_observations
+        WHERE run_id = ? AND generation = 'staged' AND observation_id IS NOT NULL
+      `).all(runId) as Array<{ observation_id: number }>;
+      const deleteStmt = this.db.prepare('DELETE FROM observations WHERE id = ?');
+      for (const { observation_id } of applied) {
+        deleteStmt.run(observation_id);
+      }
 
-    // Apply project filter
-    if (project) {
-      additionalConditions.push('project = ?');
-      params.push(project);
-    }
+      const previous = this.db.prepare(`
+        SELECT row_json, dependents_json FROM reprocess_observations
+        WHERE run_id = ? AND generation = 'previous'
+        ORDER BY id ASC
+      `).all(runId) as Array<{ row_json: string; dependents_json: string | null }>;
 
-    // Apply type filter
-    if (type) {
-      if (Array.isArray(type)) {
-        const typePlaceholders = type.map(() => '?').join(',');
-        additionalConditions.push(`type IN (${typePlaceholders})`);
-        params.push(...type);
-      } else {
-        additionalConditions.push('type = ?');
-        params.push(type);
+      // Observations first, so links between two restored rows find both ends
+      for (const record of previous) {
+        this.insertRow('observations', JSON.parse(record.row_json));
+      }
+      for (const record of previous) {
+        this.restoreObservationDependents(JSON.parse(record.row_json).id, record.dependents_json ? JSON.parse(record.dependents_json) : {});
       }
-    }
 
-    // Apply concepts filter
-    if (concepts) {
-      const conceptsList = Array.isArray(concepts) ? concepts : [concepts];
-      const conceptConditions = conceptsList.map(() =>
-        'EXISTS (SELECT 1 FROM json_each(concepts) WHERE value = ?)'
-      );
-      params.push(...conceptsList);
-      additionalConditions.push(`(${conceptConditions.join(' OR ')})`);
-    }
+      this.db.prepare(`UPDATE reprocess_observations SET observation_id = NULL WHERE run_id = ? AND generation = 'staged'`).run(runId);
+      this.db.prepare(`UPDATE reprocess_runs SET status = 'rolled_back', rolled_back_at_epoch = ? WHERE id = ?`).run(Date.now(), runId);
+      return { removed: applied.length, restored: previous.length };
+    })();
+  }
 
-    // Apply files filter
-    if (files) {
-      const filesList = Array.isArray(files) ? files : [files];
-      const fileConditions = filesList.map(() => {
-        return '(EXISTS (SELECT 1 FROM json_each(files_read) WHERE value LIKE ?) OR EXISTS (SELECT 1 FROM json_each(files_modified) WHERE value LIKE ?))';
-      });
-      filesList.forEach(file => {
-        params.push(`%${file}%`, `%${file}%`);
-      });
-      additionalConditions.push(`(${fileConditions.join(' OR ')})`);
+  /**
+   * Drop a run's staged observations without applying them
+   */
+  discardReprocessRun(runId: number): void {
+    this.db.transaction(() => {
+      const run = this.getReprocessRun(runId);
+      if (!run || (run.status !== 'staged' && run.status !== 'failed' && run.status !== 'replaying')) {
+        throw new Error(`Reprocess run ${runId} cannot be discarded`);
+      }
+      this.db.prepare(`DELETE FROM reprocess_observations WHERE run_id = ? AND generation = 'staged'`).run(runId);
+      this.setReprocessRunStatus(runId, 'discarded', run.error);
+    })();
+  }
+
+  /**
+   * Rows that reference an observation, by table, plus the observations
+   * consolidated into it (superseded_by has no foreign key to cascade)
+   */
+  private snapshotObservationDependents(observationId: number): Record<string, unknown[]> {
+    const snapshot: Record<string, unknown[]> = {};
+    for (const { table, column } of OBSERVATION_DEPENDENTS) {
+      const rows = this.db.prepare(`SELECT * FROM ${table} WHERE ${column} = ?`).all(observationId);
+      snapshot[table] = [...(snapshot[table] ?? []), ...rows];
     }
+    snapshot.superseded = (this.db.prepare('SELECT id FROM observations WHERE superseded_by = ?').all(observationId) as Array<{ id: number }>)
+      .map(row => row.id);
+    return snapshot;
+  }
 
-    const whereClause = additionalConditions.length > 0
-      ? `WHERE id IN (${placeholders}) AND ${additionalConditions.join(' AND ')}`
-      : `WHERE id IN (${placeholders})`;
+  private restoreObservationDependents(observationId: number, snapshot: Record<string, unknown[]>): void {
+    for (const table of new Set(OBSERVATION_DEPENDENTS.map(dependent => dependent.table))) {
+      for (const row of (snapshot[table] ?? []) as Array<Record<string, unknown>>) {
+        try {
+          this.insertRow(table, row, true);
+        } catch (error) {
+          // The other end of a link may be gone for good
+          logger.debug('DB', `Skipped restoring ${table} row`, { observationId }, error as Error);
+        }
+      }
+    }
 
-    const stmt = this.db.prepare(`
-      SELECT *
-      FROM observations
-      ${whereClause}
-      ORDER BY created_at_epoch ${orderClause}
-      ${limitClause}
-    `);
+    const markStmt = this.db.prepare('UPDATE observations SET superseded_by = ? WHERE id = ? AND superseded_by IS NULL');
+    for (const id of (snapshot.superseded ?? []) as number[]) {
+      markStmt.run(observationId, id);
+    }
+  }
 
-    return stmt.all(...params) as ObservationRecord[];
+  /**
+   * Insert a row captured as JSON, keeping only columns the table still has
+   */
+  private insertRow(table: string, row: Record<string, unknown>, ignoreConflicts: boolean = false): number {
+    const existing = new Set((this.db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[]).map(col => col.name));
+    const columns = Object.keys(row).filter(column => existing.has(column));
+    const result = this.db.prepare(`
+      INSERT ${ignoreConflicts ? 'OR IGNORE ' : ''}INTO ${table} (${columns.join(', ')})
+      VALUES (${columns.map(() => '?').join(', ')})
+    `).run(...columns.map(column => row[column] as string | number | null));
+    return Number(result.lastInsertRowid);
   }
 
   /**
@@ -1021,7 +1485,7 @@ export class SessionStore {
       LIMIT 1
     `);
 
-    return stmt.get(memorySessionId) || null;
+    return decryptRow(stmt.get(memorySessionId)) || null;
   }
 
   /**
@@ -1078,9 +1542,12 @@ export class SessionStore {
     memory_session_id: string | null;
     project: string;
     user_prompt: string;
+    mode_id: string | null;
+    namespace_channel: string | null;
+    namespace_user: string | null;
   } | null {
     const stmt = this.db.prepare(`
-      SELECT id, content_session_id, memory_session_id, project, user_prompt
+      SELECT id, content_session_id, memory_session_id, project, user_prompt, mode_id, namespace_channel, namespace_user
       FROM sdk_sessions
       WHERE id = ?
       LIMIT 1
@@ -1173,7 +1640,7 @@ export class SessionStore {
       INSERT OR IGNORE INTO sdk_sessions
       (content_session_id, memory_session_id, project, user_prompt, started_at, started_at_epoch, status)
       VALUES (?, NULL, ?, ?, ?, ?, 'active')
-    `).run(contentSessionId, project, userPrompt, now.toISOString(), nowEpoch);
+    `).run(contentSessionId, project, this.redactPrompt(contentSessionId, userPrompt, false), now.toISOString(), nowEpoch);
 
     // Return existing or new ID
     const row = this.db.prepare('SELECT id FROM sdk_sessions WHERE content_session_id = ?')
@@ -1184,6 +1651,231 @@ export class SessionStore {
 
 
 
+  /**
+   * Bind a session to a mode. The first binding wins, so a session keeps the
+   * mode its observations were recorded in; returns the session's mode.
+   */
+  setSessionMode(contentSessionId: string, modeId: string): string | null {
+    this.db.prepare(`
+      UPDATE sdk_sessions SET mode_id = ?
+      WHERE content_session_id = ? AND mode_id IS NULL
+    `).run(modeId, contentSessionId);
+
+    const row = this.db.prepare('SELECT mode_id FROM sdk_sessions WHERE content_session_id = ?')
+      .get(contentSessionId) as { mode_id: string | null } | undefined;
+    return row?.mode_id ?? null;
+  }
+
+  /**
+   * Bind a chat session to its channel and user (null: the whole channel).
+   * The first binding wins, so a session's observations stay in one
+   * namespace; returns the session's namespace, or null without a session.
+   */
+  setSessionNamespace(
+    contentSessionId: string,
+    channel: string,
+    userId: string | null,
+    userName: string | null = null
+  ): { channel: string; userId: string | null } | null {
+    this.db.prepare(`
+      UPDATE sdk_sessions SET namespace_channel = ?, namespace_user = ?, namespace_user_name = ?
+      WHERE content_session_id = ? AND namespace_channel IS NULL
+    `).run(channel, userId, userName, contentSessionId);
+
+    const row = this.db.prepare('SELECT namespace_channel, namespace_user FROM sdk_sessions WHERE content_session_id = ?')
+      .get(contentSessionId) as { namespace_channel: string | null; namespace_user: string | null } | undefined;
+    return row?.namespace_channel ? { channel: row.namespace_channel, userId: row.namespace_user } : null;
+  }
+
+  /**
+   * Memory session that memories saved through chat tools for a namespace
+   * are stored under, created on first use. It is bound to the namespace and
+   * `modeId` like a chat session but never runs an agent.
+   * @returns The memory session ID and the mode it is bound to
+   */
+  getToolMemorySession(
+    project: string,
+    channel: string,
+    userId: string | null,
+    userName: string | null,
+    modeId: string
+  ): { memorySessionId: string; modeId: string } {
+    const toolSessionId = `${TOOL_MEMORY_SESSION_PREFIX}${project}:${channel}:${userId ?? ''}`;
+    return this.db.transaction(() => {
+      this.createStorageSession(toolSessionId, project);
+      this.setSessionNamespace(toolSessionId, channel, userId, userName);
+      return { memorySessionId: toolSessionId, modeId: this.setSessionMode(toolSessionId, modeId) ?? modeId };
+    })();
+  }
+
+  /**
+   * Completed session whose content and memory session IDs are both
+   * `sessionId`, for observations that come from outside an agent run.
+   * Created on first use.
+   */
+  private createStorageSession(sessionId: string, project: string): void {
+    const sessionDbId = this.createSDKSession(sessionId, project, '');
+    this.db.prepare(`
+      UPDATE sdk_sessions SET memory_session_id = ?, status = 'completed'
+      WHERE id = ? AND memory_session_id IS NULL
+    `).run(sessionId, sessionDbId);
+  }
+
+  /**
+   * Channel and user a memory session is bound to, or null for Claude Code sessions
+   */
+  getSessionNamespace(memorySessionId: string): { channel: string; userId: string | null } | null {
+    const row = this.db.prepare('SELECT namespace_channel, namespace_user FROM sdk_sessions WHERE memory_session_id = ?')
+      .get(memorySessionId) as { namespace_channel: string | null; namespace_user: string | null } | undefined;
+    return row?.namespace_channel ? { channel: row.namespace_channel, userId: row.namespace_user } : null;
+  }
+
+  /**
+   * Chat namespaces with their session and observation counts, most recently
+   * active first
+   */
+  getNamespaces(project?: string): NamespaceRecord[] {
+    return this.db.prepare(`
+      SELECT
+        s.project,
+        s.namespace_channel AS channel,
+        s.namespace_user AS user_id,
+        MAX(s.namespace_user_name) AS user_name,
+        COUNT(*) AS sessions,
+        (SELECT COUNT(*) FROM observations o
+         WHERE o.project = s.project AND o.namespace_channel = s.namespace_channel AND o.namespace_user IS s.namespace_user) AS observations,
+        MAX(s.started_at_epoch) AS last_activity_epoch
+      FROM sdk_sessions s
+      WHERE s.namespace_channel IS NOT NULL ${project ? 'AND s.project = ?' : ''}
+      GROUP BY s.project, s.namespace_channel, s.namespace_user
+      ORDER BY last_activity_epoch DESC
+    `).all(...(project ? [project] : [])) as NamespaceRecord[];
+  }
+
+  /**
+   * Delete every session of a namespace; their observations (whatever their
+   * scope), summaries, prompts and queued messages cascade with them.
+   * A null user purges the channel's sessions without a user.
+   * @returns Number of sessions and observations deleted
+   */
+  purgeNamespace(project: string, channel: string, userId: string | null): { sessions: number; observations: number } {
+    return this.db.transaction(() => {
+      const count = (table: string) => (this.db.prepare(`
+        SELECT COUNT(*) AS count FROM ${table}
+        WHERE project = ? AND namespace_channel = ? AND namespace_user IS ?
+      `).get(project, channel, userId) as { count: number }).count;
+      const result = { sessions: count('sdk_sessions'), observations: count('observations') };
+
+      // Observations are removed by the session cascade; this catches any
+      // whose session has no memory session to cascade through
+      this.db.prepare('DELETE FROM observations WHERE project = ? AND namespace_channel = ? AND namespace_user IS ?')
+        .run(project, channel, userId);
+      this.db.prepare('DELETE FROM sdk_sessions WHERE project = ? AND namespace_channel = ? AND namespace_user IS ?')
+        .run(project, channel, userId);
+
+      return result;
+    })();
+  }
+
+  /**
+   * Record observations and a summary as published in a MoltBook post.
+   * Each keeps the first post it was published in.
+   */
+  recordMoltBookPost(
+    post: { postId: string; project: string; submolt: string; title: string; observationIds: number[]; summaryId?: number | null },
+    publishedAtEpoch: number = Date.now()
+  ): MoltBookPostRecord {
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO moltbook_posts (post_id, project, submolt, title, published_at_epoch)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(post.postId, post.project, post.submolt, post.title, publishedAtEpoch);
+
+      if (post.observationIds.length > 0) {
+        this.db.prepare(`
+          UPDATE observations SET moltbook_post_id = ?
+          WHERE id IN (${post.observationIds.map(() => '?').join(',')}) AND moltbook_post_id IS NULL
+        `).run(post.postId, ...post.observationIds);
+      }
+      if (post.summaryId) {
+        this.db.prepare('UPDATE session_summaries SET moltbook_post_id = ? WHERE id = ? AND moltbook_post_id IS NULL')
+          .run(post.postId, post.summaryId);
+      }
+    })();
+    return this.getMoltBookPost(post.postId)!;
+  }
+
+  /**
+   * MoltBook posts published from a project (or all projects), newest first
+   */
+  getMoltBookPosts(project?: string): MoltBookPostRecord[] {
+    const rows = this.db.prepare(`
+      ${MOLTBOOK_POST_SELECT}
+      ${project ? 'WHERE p.project = ?' : ''}
+      ORDER BY p.published_at_epoch DESC
+    `).all(...(project ? [project] : [])) as Array<MoltBookPostRecord & { observation_ids: string }>;
+    return rows.map(row => ({ ...row, observation_ids: JSON.parse(row.observation_ids) }));
+  }
+
+  getMoltBookPost(postId: string): MoltBookPostRecord | null {
+    const row = this.db.prepare(`${MOLTBOOK_POST_SELECT} WHERE p.post_id = ?`)
+      .get(postId) as (MoltBookPostRecord & { observation_ids: string }) | undefined;
+    return row ? { ...row, observation_ids: JSON.parse(row.observation_ids) } : null;
+  }
+
+  /**
+   * Store replies to a MoltBook post as observations of the post's session,
+   * each following up on the observations the post published. Replies that
+   * were synced before are skipped.
+   * @returns The post's memory session, observation IDs of the stored replies
+   * and how many were skipped
+   */
+  storeMoltBookReplies(
+    postId: string,
+    replies: Array<{
+      commentId: string;
+      author: string | null;
+      createdAtEpoch: number;
+      observation: { type: string; title: string | null; subtitle: string | null; facts: string[]; narrative: string | null; concepts: string[] };
+    }>
+  ): { memorySessionId: string; stored: Array<{ commentId: string; observationId: number }>; skipped: number } {
+    const post = this.getMoltBookPost(postId);
+    if (!post) {
+      throw new Error(`MoltBook post not recorded: ${postId}`);
+    }
+
+    return this.db.transaction(() => {
+      const sessionId = `${MOLTBOOK_SESSION_PREFIX}${postId}`;
+      this.createStorageSession(sessionId, post.project);
+
+      const synced = this.db.prepare('SELECT 1 FROM moltbook_comments WHERE comment_id = ?');
+      const insertComment = this.db.prepare(`
+        INSERT INTO moltbook_comments (comment_id, post_id, observation_id, author, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const stored: Array<{ commentId: string; observationId: number }> = [];
+      let skipped = 0;
+
+      for (const reply of replies) {
+        if (synced.get(reply.commentId)) {
+          skipped++;
+          continue;
+        }
+        const { id } = this.storeObservation(sessionId, post.project, {
+          ...reply.observation,
+          files_read: [],
+          files_modified: [],
+          relates_to: post.observation_ids.map(id => ({ id, kind: 'follows-up' as const }))
+        }, undefined, 0, reply.createdAtEpoch);
+        insertComment.run(reply.commentId, postId, id, reply.author, reply.createdAtEpoch);
+        stored.push({ commentId: reply.commentId, observationId: id });
+      }
+
+      this.db.prepare('UPDATE moltbook_posts SET comments_synced_at_epoch = ? WHERE post_id = ?').run(Date.now(), postId);
+      return { memorySessionId: sessionId, stored, skipped };
+    })();
+  }
+
   /**
    * Save a user prompt
    */
@@ -1193,14 +1885,29 @@ export class SessionStore {
 
     const stmt = this.db.prepare(`
       INSERT INTO user_prompts
-      (content_session_id, prompt_number, prompt_text, created_at, created_at_epoch)
-      VALUES (?, ?, ?, ?, ?)
+      (content_session_id, prompt_number, prompt_text, search_projection, created_at, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?)
     `);
 
-    const result = stmt.run(contentSessionId, promptNumber, promptText, now.toISOString(), nowEpoch);
+    const sealed = sealFields('user_prompts', { prompt_text: this.redactPrompt(contentSessionId, promptText) });
+    const result = stmt.run(contentSessionId, promptNumber, sealed.values.prompt_text, sealed.searchProjection, now.toISOString(), nowEpoch);
     return result.lastInsertRowid as number;
   }
 
+  /**
+   * Redact a prompt before it is stored, whichever client sent it, and add
+   * the hits to the session's redaction counts (once: the session's first
+   * prompt is also saved as a user prompt)
+   */
+  private redactPrompt(contentSessionId: string, promptText: string, count: boolean = true): string {
+    if (!promptText) {
+      return promptText;
+    }
+    return redactIncoming(promptText, counts => {
+      if (count) this.recordRedactions(contentSessionId, counts);
+    });
+  }
+
   /**
    * Get user prompt by session ID and prompt number
    * Returns the prompt text, or null if not found
@@ -1214,7 +1921,7 @@ export class SessionStore {
     `);
 
     const result = stmt.get(contentSessionId, promptNumber) as { prompt_text: string } | undefined;
-    return result?.prompt_text ?? null;
+    return result ? decryptValue(result.prompt_text) : null;
   }
 
   /**
@@ -1233,6 +1940,8 @@ export class SessionStore {
       concepts: string[];
       files_read: string[];
       files_modified: string[];
+      relates_to?: Array<{ id: number; kind: ObservationLinkKind }>;
+      scope?: NamespaceScope;
     },
     promptNumber?: number,
     discoveryTokens: number = 0,
@@ -1245,29 +1954,36 @@ export class SessionStore {
     const stmt = this.db.prepare(`
       INSERT INTO observations
       (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-       files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       files_read, files_modified, prompt_number, discovery_tokens, search_projection,
+       namespace_channel, namespace_user, namespace_scope, created_at, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const sealed = sealFields('observations', { facts: JSON.stringify(observation.facts), narrative: observation.narrative });
     const result = stmt.run(
       memorySessionId,
       project,
       observation.type,
       observation.title,
       observation.subtitle,
-      JSON.stringify(observation.facts),
-      observation.narrative,
+      sealed.values.facts,
+      sealed.values.narrative,
       JSON.stringify(observation.concepts),
       JSON.stringify(observation.files_read),
       JSON.stringify(observation.files_modified),
       promptNumber || null,
       discoveryTokens,
+      sealed.searchProjection,
+      ...namespaceColumns(this.getSessionNamespace(memorySessionId), observation.scope),
       timestampIso,
       timestampEpoch
     );
 
+    const id = Number(result.lastInsertRowid);
+    this.storeObservationLinks(id, observation.relates_to);
+
     return {
-      id: Number(result.lastInsertRowid),
+      id,
       createdAtEpoch: timestampEpoch
     };
   }
@@ -1298,21 +2014,23 @@ export class SessionStore {
     const stmt = this.db.prepare(`
       INSERT INTO session_summaries
       (memory_session_id, project, request, investigated, learned, completed,
-       next_steps, notes, prompt_number, discovery_tokens, created_at, created_at_epoch)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       next_steps, notes, prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const { values, searchProjection } = sealFields('session_summaries', summary);
     const result = stmt.run(
       memorySessionId,
       project,
-      summary.request,
-      summary.investigated,
-      summary.learned,
-      summary.completed,
-      summary.next_steps,
-      summary.notes,
+      values.request,
+      values.investigated,
+      values.learned,
+      values.completed,
+      values.next_steps,
+      values.notes,
       promptNumber || null,
       discoveryTokens,
+      searchProjection,
       timestampIso,
       timestampEpoch
     );
@@ -1337,6 +2055,7 @@ export class SessionStore {
    * @param promptNumber - Optional prompt number
    * @param discoveryTokens - Discovery tokens count
    * @param overrideTimestampEpoch - Optional override timestamp
+   * @param gitState - Optional HEAD/dirty state captured with the tool use
    * @returns Object with observation IDs, optional summary ID, and timestamp
    */
   storeObservations(
@@ -1351,6 +2070,8 @@ export class SessionStore {
       concepts: string[];
       files_read: string[];
       files_modified: string[];
+      relates_to?: Array<{ id: number; kind: ObservationLinkKind }>;
+      scope?: NamespaceScope;
     }>,
     summary: {
       request: string;
@@ -1362,7 +2083,8 @@ export class SessionStore {
     } | null,
     promptNumber?: number,
     discoveryTokens: number = 0,
-    overrideTimestampEpoch?: number
+    overrideTimestampEpoch?: number,
+    gitState?: ObservationGitState | null
   ): { observationIds: number[]; summaryId: number | null; createdAtEpoch: number } {
     // Use override timestamp if provided
     const timestampEpoch = overrideTimestampEpoch ?? Date.now();
@@ -1376,28 +2098,37 @@ export class SessionStore {
       const obsStmt = this.db.prepare(`
         INSERT INTO observations
         (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-         files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         files_read, files_modified, prompt_number, discovery_tokens, git_head_sha, git_dirty,
+         search_projection, namespace_channel, namespace_user, namespace_scope, created_at, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
+      const namespace = observations.length > 0 ? this.getSessionNamespace(memorySessionId) : null;
 
       for (const observation of observations) {
+        const sealed = sealFields('observations', { facts: JSON.stringify(observation.facts), narrative: observation.narrative });
         const result = obsStmt.run(
           memorySessionId,
           project,
           observation.type,
           observation.title,
           observation.subtitle,
-          JSON.stringify(observation.facts),
-          observation.narrative,
+          sealed.values.facts,
+          sealed.values.narrative,
           JSON.stringify(observation.concepts),
           JSON.stringify(observation.files_read),
           JSON.stringify(observation.files_modified),
           promptNumber || null,
           discoveryTokens,
+          gitState?.headSha ?? null,
+          gitState ? (gitState.dirty ? 1 : 0) : null,
+          sealed.searchProjection,
+          ...namespaceColumns(namespace, observation.scope),
           timestampIso,
           timestampEpoch
         );
-        observationIds.push(Number(result.lastInsertRowid));
+        const observationId = Number(result.lastInsertRowid);
+        observationIds.push(observationId);
+        this.storeObservationLinks(observationId, observation.relates_to);
       }
 
       // 2. Store summary if provided
@@ -1406,21 +2137,23 @@ export class SessionStore {
         const summaryStmt = this.db.prepare(`
           INSERT INTO session_summaries
           (memory_session_id, project, request, investigated, learned, completed,
-           next_steps, notes, prompt_number, discovery_tokens, created_at, created_at_epoch)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           next_steps, notes, prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
+        const { values, searchProjection } = sealFields('session_summaries', summary);
         const result = summaryStmt.run(
           memorySessionId,
           project,
-          summary.request,
-          summary.investigated,
-          summary.learned,
-          summary.completed,
-          summary.next_steps,
-          summary.notes,
+          values.request,
+          values.investigated,
+          values.learned,
+          values.completed,
+          values.next_steps,
+          values.notes,
           promptNumber || null,
           discoveryTokens,
+          searchProjection,
           timestampIso,
           timestampEpoch
         );
@@ -1496,24 +2229,26 @@ export class SessionStore {
       const obsStmt = this.db.prepare(`
         INSERT INTO observations
         (memory_session_id, project, type, title, subtitle, facts, narrative, concepts,
-         files_read, files_modified, prompt_number, discovery_tokens, created_at, created_at_epoch)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         files_read, files_modified, prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       for (const observation of observations) {
+        const sealed = sealFields('observations', { facts: JSON.stringify(observation.facts), narrative: observation.narrative });
         const result = obsStmt.run(
           memorySessionId,
           project,
           observation.type,
           observation.title,
           observation.subtitle,
-          JSON.stringify(observation.facts),
-          observation.narrative,
+          sealed.values.facts,
+          sealed.values.narrative,
           JSON.stringify(observation.concepts),
           JSON.stringify(observation.files_read),
           JSON.stringify(observation.files_modified),
           promptNumber || null,
           discoveryTokens,
+          sealed.searchProjection,
           timestampIso,
           timestampEpoch
         );
@@ -1526,21 +2261,23 @@ export class SessionStore {
         const summaryStmt = this.db.prepare(`
           INSERT INTO session_summaries
           (memory_session_id, project, request, investigated, learned, completed,
-           next_steps, notes, prompt_number, discovery_tokens, created_at, created_at_epoch)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           next_steps, notes, prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `);
 
+        const { values, searchProjection } = sealFields('session_summaries', summary);
         const result = summaryStmt.run(
           memorySessionId,
           project,
-          summary.request,
-          summary.investigated,
-          summary.learned,
-          summary.completed,
-          summary.next_steps,
-          summary.notes,
+          values.request,
+          values.investigated,
+          values.learned,
+          values.completed,
+          values.next_steps,
+          values.notes,
           promptNumber || null,
           discoveryTokens,
+          searchProjection,
           timestampIso,
           timestampEpoch
         );
@@ -1581,30 +2318,34 @@ export class SessionStore {
    */
   getSessionSummariesByIds(
     ids: number[],
-    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string } = {}
+    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string; dateRange?: DateRange } = {}
   ): SessionSummaryRecord[] {
     if (ids.length === 0) return [];
 
-    const { orderBy = 'date_desc', limit, project } = options;
+    const { orderBy = 'date_desc', limit, project, dateRange } = options;
     const orderClause = orderBy === 'date_asc' ? 'ASC' : 'DESC';
     const limitClause = limit ? `LIMIT ${limit}` : '';
     const placeholders = ids.map(() => '?').join(',');
     const params: any[] = [...ids];
+    const conditions = [`id IN (${placeholders})`];
 
     // Apply project filter
-    const whereClause = project
-      ? `WHERE id IN (${placeholders}) AND project = ?`
-      : `WHERE id IN (${placeholders})`;
-    if (project) params.push(project);
+    if (project) {
+      conditions.push('project = ?');
+      params.push(project);
+    }
+
+    // Apply date range filter
+    conditions.push(...dateRangeConditions(dateRange, 'created_at_epoch', params));
 
     const stmt = this.db.prepare(`
       SELECT * FROM session_summaries
-      ${whereClause}
+      WHERE ${conditions.join(' AND ')}
       ORDER BY created_at_epoch ${orderClause}
       ${limitClause}
     `);
 
-    return stmt.all(...params) as SessionSummaryRecord[];
+    return decryptRows(stmt.all(...params) as SessionSummaryRecord[]);
   }
 
   /**
@@ -1613,11 +2354,11 @@ export class SessionStore {
    */
   getUserPromptsByIds(
     ids: number[],
-    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string } = {}
+    options: { orderBy?: 'date_desc' | 'date_asc'; limit?: number; project?: string; dateRange?: DateRange } = {}
   ): UserPromptRecord[] {
     if (ids.length === 0) return [];
 
-    const { orderBy = 'date_desc', limit, project } = options;
+    const { orderBy = 'date_desc', limit, project, dateRange } = options;
     const orderClause = orderBy === 'date_asc' ? 'ASC' : 'DESC';
     const limitClause = limit ? `LIMIT ${limit}` : '';
     const placeholders = ids.map(() => '?').join(',');
@@ -1627,6 +2368,9 @@ export class SessionStore {
     const projectFilter = project ? 'AND s.project = ?' : '';
     if (project) params.push(project);
 
+    // Apply date range filter
+    const dateFilter = dateRangeConditions(dateRange, 'up.created_at_epoch', params).map(condition => `AND ${condition}`).join(' ');
+
     const stmt = this.db.prepare(`
       SELECT
         up.*,
@@ -1634,12 +2378,12 @@ export class SessionStore {
         s.memory_session_id
       FROM user_prompts up
       JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
-      WHERE up.id IN (${placeholders}) ${projectFilter}
+      WHERE up.id IN (${placeholders}) ${projectFilter} ${dateFilter}
       ORDER BY up.created_at_epoch ${orderClause}
       ${limitClause}
     `);
 
-    return stmt.all(...params) as UserPromptRecord[];
+    return decryptRows(stmt.all(...params) as UserPromptRecord[]);
   }
 
   /**
@@ -1773,9 +2517,9 @@ export class SessionStore {
       ORDER BY up.created_at_epoch ASC
     `;
 
-    const observations = this.db.prepare(obsQuery).all(startEpoch, endEpoch, ...projectParams) as ObservationRecord[];
-    const sessions = this.db.prepare(sessQuery).all(startEpoch, endEpoch, ...projectParams) as SessionSummaryRecord[];
-    const prompts = this.db.prepare(promptQuery).all(startEpoch, endEpoch, ...projectParams) as UserPromptRecord[];
+    const observations = decryptRows(this.db.prepare(obsQuery).all(startEpoch, endEpoch, ...projectParams) as ObservationRecord[]);
+    const sessions = decryptRows(this.db.prepare(sessQuery).all(startEpoch, endEpoch, ...projectParams) as SessionSummaryRecord[]);
+    const prompts = decryptRows(this.db.prepare(promptQuery).all(startEpoch, endEpoch, ...projectParams) as UserPromptRecord[]);
 
     return {
       observations,
@@ -1828,7 +2572,7 @@ export class SessionStore {
       LIMIT 1
     `);
 
-    return stmt.get(id) || null;
+    return decryptRow(stmt.get(id)) || null;
   }
 
   /**
@@ -1861,7 +2605,7 @@ export class SessionStore {
       ORDER BY p.created_at_epoch DESC
     `);
 
-    return stmt.all(...ids) as Array<{
+    return decryptRows(stmt.all(...ids) as Array<{
       id: number;
       content_session_id: string;
       prompt_number: number;
@@ -1869,7 +2613,7 @@ export class SessionStore {
       project: string;
       created_at: string;
       created_at_epoch: number;
-    }>;
+    }>);
   }
 
   /**
@@ -1904,7 +2648,7 @@ export class SessionStore {
       LIMIT 1
     `);
 
-    return stmt.get(id) || null;
+    return decryptRow(stmt.get(id)) || null;
   }
 
   /**
@@ -1997,23 +2741,32 @@ export class SessionStore {
       INSERT INTO session_summaries (
         memory_session_id, project, request, investigated, learned,
         completed, next_steps, files_read, files_edited, notes,
-        prompt_number, discovery_tokens, created_at, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const { values, searchProjection } = sealFields('session_summaries', {
+      request: summary.request,
+      investigated: summary.investigated,
+      learned: summary.learned,
+      completed: summary.completed,
+      next_steps: summary.next_steps,
+      notes: summary.notes
+    });
     const result = stmt.run(
       summary.memory_session_id,
       summary.project,
-      summary.request,
-      summary.investigated,
-      summary.learned,
-      summary.completed,
-      summary.next_steps,
+      values.request,
+      values.investigated,
+      values.learned,
+      values.completed,
+      values.next_steps,
       summary.files_read,
       summary.files_edited,
-      summary.notes,
+      values.notes,
       summary.prompt_number,
       summary.discovery_tokens || 0,
+      searchProjection,
       summary.created_at,
       summary.created_at_epoch
     );
@@ -2057,24 +2810,26 @@ export class SessionStore {
       INSERT INTO observations (
         memory_session_id, project, text, type, title, subtitle,
         facts, narrative, concepts, files_read, files_modified,
-        prompt_number, discovery_tokens, created_at, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        prompt_number, discovery_tokens, search_projection, created_at, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const { values, searchProjection } = sealFields('observations', { text: obs.text, facts: obs.facts, narrative: obs.narrative });
     const result = stmt.run(
       obs.memory_session_id,
       obs.project,
-      obs.text,
+      values.text,
       obs.type,
       obs.title,
       obs.subtitle,
-      obs.facts,
-      obs.narrative,
+      values.facts,
+      values.narrative,
       obs.concepts,
       obs.files_read,
       obs.files_modified,
       obs.prompt_number,
       obs.discovery_tokens || 0,
+      searchProjection,
       obs.created_at,
       obs.created_at_epoch
     );
@@ -2106,15 +2861,17 @@ export class SessionStore {
 
     const stmt = this.db.prepare(`
       INSERT INTO user_prompts (
-        content_session_id, prompt_number, prompt_text,
+        content_session_id, prompt_number, prompt_text, search_projection,
         created_at, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?)
+      ) VALUES (?, ?, ?, ?, ?, ?)
     `);
 
+    const sealed = sealFields('user_prompts', { prompt_text: prompt.prompt_text });
     const result = stmt.run(
       prompt.content_session_id,
       prompt.prompt_number,
-      prompt.prompt_text,
+      sealed.values.prompt_text,
+      sealed.searchProjection,
       prompt.created_at,
       prompt.created_at_epoch
     );
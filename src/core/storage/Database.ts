@@ -1,17 +1,13 @@
 import { Database } from 'bun:sqlite';
 import { DATA_DIR, DB_PATH, ensureDir } from '../../common/paths.js';
-import { logger } from '../../utils/logger.js';
 import { MigrationRunner } from './migrations/runner.js';
+import type { Migration } from './migrations/types.js';
 
 // SQLite configuration constants
 const SQLITE_MMAP_SIZE_BYTES = 256 * 1024 * 1024; // 256MB
 const SQLITE_CACHE_SIZE_PAGES = 10_000;
 
-export interface Migration {
-  version: number;
-  up: (db: Database) => void;
-  down?: (db: Database) => void;
-}
+export type { Migration };
 
 let dbInstance: Database | null = null;
 
@@ -77,6 +73,7 @@ export class DatabaseManager {
 
   /**
    * Register a migration to be run during initialization
+   * (replaces the default migration list when any are registered)
    */
   registerMigration(migration: Migration): void {
     this.migrations.push(migration);
@@ -105,11 +102,9 @@ export class DatabaseManager {
     this.db.run(`PRAGMA mmap_size = ${SQLITE_MMAP_SIZE_BYTES}`);
     this.db.run(`PRAGMA cache_size = ${SQLITE_CACHE_SIZE_PAGES}`);
 
-    // Initialize schema_versions table
-    this.initializeSchemaVersions();
-
     // Run migrations
-    await this.runMigrations();
+    const runner = new MigrationRunner(this.db, this.migrations.length > 0 ? { migrations: this.migrations } : {});
+    runner.runAllMigrations();
 
     dbInstance = this.db;
     return this.db;
@@ -145,49 +140,6 @@ export class DatabaseManager {
     }
   }
 
-  /**
-   * Initialize the schema_versions table
-   */
-  private initializeSchemaVersions(): void {
-    if (!this.db) return;
-
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS schema_versions (
-        id INTEGER PRIMARY KEY,
-        version INTEGER UNIQUE NOT NULL,
-        applied_at TEXT NOT NULL
-      )
-    `);
-  }
-
-  /**
-   * Run all pending migrations
-   */
-  private async runMigrations(): Promise<void> {
-    if (!this.db) return;
-
-    const query = this.db.query('SELECT version FROM schema_versions ORDER BY version');
-    const appliedVersions = query.all().map((row: any) => row.version);
-
-    const maxApplied = appliedVersions.length > 0 ? Math.max(...appliedVersions) : 0;
-
-    for (const migration of this.migrations) {
-      if (migration.version > maxApplied) {
-        logger.info('DB', `Applying migration ${migration.version}`);
-
-        const transaction = this.db.transaction(() => {
-          migration.up(this.db!);
-
-          const insertQuery = this.db!.query('INSERT INTO schema_versions (version, applied_at) VALUES (?, ?)');
-          insertQuery.run(migration.version, new Date().toISOString());
-        });
-
-        transaction();
-        logger.info('DB', `Migration ${migration.version} applied successfully`);
-      }
-    }
-  }
-
   /**
    * Get current schema version
    */
@@ -223,7 +175,8 @@ export async function initializeDatabase(): Promise<Database> {
 export { Database };
 
 // Re-export MigrationRunner for external use
-export { MigrationRunner } from './migrations/runner.js';
+export { MigrationRunner, MigrationDriftError } from './migrations/runner.js';
+export type { MigrationState, MigrationStatus } from './migrations/runner.js';
 
 // Re-export all module functions for convenient imports
 export * from './Sessions.js';
@@ -0,0 +1,297 @@
+/**
+ * Field-level encryption at rest
+ *
+ * When MOLTBRAIN_ENCRYPTION_ENABLED is on, SessionStore and PendingMessageStore
+ * encrypt the sensitive columns listed in SENSITIVE_COLUMNS with AES-256-GCM
+ * before writing, and getters decrypt them transparently. Encrypted values are
+ * self-describing (`enc:v1:<keyId>:<payload>`), so plaintext rows written before
+ * encryption was enabled keep working and `scripts/rekey.ts` can convert a
+ * database between keys offline.
+ *
+ * FTS5 cannot index ciphertext, so encrypted rows carry a search_projection
+ * that the FTS triggers index instead (see FtsTriggers.ts).
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../../common/paths.js';
+import { logger } from '../../utils/logger.js';
+
+export const ENCRYPTED_PREFIX = 'enc:v1:';
+
+/** Environment variable holding the key; takes precedence over the keyfile */
+export const ENCRYPTION_KEY_ENV = 'MOLTBRAIN_ENCRYPTION_KEY';
+
+/**
+ * Columns encrypted at rest, per table
+ */
+export const SENSITIVE_COLUMNS = {
+  observations: ['text', 'narrative', 'facts'],
+  session_summaries: ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes'],
+  user_prompts: ['prompt_text'],
+  pending_messages: ['tool_input', 'tool_response']
+} as const;
+
+export type SensitiveTable = keyof typeof SENSITIVE_COLUMNS;
+
+const SENSITIVE_FIELD_NAMES: ReadonlySet<string> = new Set(Object.values(SENSITIVE_COLUMNS).flat());
+
+/**
+ * What FTS indexes for an encrypted field: 'terms' keeps its sorted unique
+ * words minus secret-looking tokens, 'none' makes it unsearchable
+ */
+export type SearchProjectionMode = 'terms' | 'none';
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface FieldCipherOptions {
+  /** Encrypt new writes (false = decrypt-only, e.g. after encryption was turned off) */
+  encryptWrites?: boolean;
+  /** What FTS indexes for encrypted rows */
+  projection?: SearchProjectionMode;
+}
+
+export class FieldCipher {
+  readonly keyId: string;
+  readonly encryptWrites: boolean;
+  readonly projection: SearchProjectionMode;
+
+  constructor(private key: Buffer, options: FieldCipherOptions = {}) {
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Encryption key must be ${KEY_BYTES} bytes, got ${key.length}`);
+    }
+    this.keyId = createHash('sha256').update(key).digest('hex').slice(0, 8);
+    this.encryptWrites = options.encryptWrites ?? true;
+    this.projection = options.projection ?? 'terms';
+  }
+
+  /**
+   * Generate a random key
+   */
+  static generateKey(): Buffer {
+    return randomBytes(KEY_BYTES);
+  }
+
+  /**
+   * Decode a key stored as 64 hex characters or base64
+   */
+  static parseKey(encoded: string): Buffer {
+    const trimmed = encoded.trim();
+    const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+    if (key.length !== KEY_BYTES) {
+      throw new Error(`Encryption key must be ${KEY_BYTES} bytes encoded as hex or base64`);
+    }
+    return key;
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const payload = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+    return `${ENCRYPTED_PREFIX}${this.keyId}:${payload}`;
+  }
+
+  /**
+   * Decrypt a value produced by encrypt(); throws if it was written with another key
+   */
+  decrypt(value: string): string {
+    const { keyId, payload } = parseEncrypted(value);
+    if (keyId !== this.keyId) {
+      throw new Error(`Value was encrypted with key ${keyId}, current key is ${this.keyId}`);
+    }
+    const data = Buffer.from(payload, 'base64');
+    const decipher = createDecipheriv('aes-256-gcm', this.key, data.subarray(0, IV_BYTES));
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8');
+  }
+
+  canDecrypt(value: string): boolean {
+    return parseEncrypted(value).keyId === this.keyId;
+  }
+}
+
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENCRYPTED_PREFIX);
+}
+
+function parseEncrypted(value: string): { keyId: string; payload: string } {
+  const rest = value.slice(ENCRYPTED_PREFIX.length);
+  const separator = rest.indexOf(':');
+  return { keyId: rest.slice(0, separator), payload: rest.slice(separator + 1) };
+}
+
+/**
+ * Read the key from the environment or keyfile. With `create`, a missing
+ * keyfile is generated (readable by the owner only).
+ */
+export function loadEncryptionKey(keyfile: string, create: boolean = false): Buffer | null {
+  const fromEnv = process.env[ENCRYPTION_KEY_ENV];
+  if (fromEnv) {
+    return FieldCipher.parseKey(fromEnv);
+  }
+
+  if (existsSync(keyfile)) {
+    return FieldCipher.parseKey(readFileSync(keyfile, 'utf-8'));
+  }
+
+  if (!create) {
+    return null;
+  }
+
+  const key = FieldCipher.generateKey();
+  mkdirSync(dirname(keyfile), { recursive: true });
+  writeFileSync(keyfile, key.toString('hex') + '\n', { mode: 0o600 });
+  logger.warn('DB', 'Generated a new encryption keyfile - back it up, encrypted memories cannot be read without it', { keyfile });
+  return key;
+}
+
+/**
+ * Build the cipher described by settings. A key that is present is always
+ * loaded so existing ciphertext stays readable after encryption is turned off.
+ */
+export function createFieldCipher(settings: SettingsDefaults): FieldCipher | null {
+  const enabled = settings.MOLTBRAIN_ENCRYPTION_ENABLED === 'true';
+  const key = loadEncryptionKey(settings.MOLTBRAIN_ENCRYPTION_KEYFILE, enabled);
+  if (!key) {
+    return null;
+  }
+
+  return new FieldCipher(key, {
+    encryptWrites: enabled,
+    projection: settings.MOLTBRAIN_ENCRYPTION_SEARCH_PROJECTION === 'none' ? 'none' : 'terms'
+  });
+}
+
+let activeCipher: FieldCipher | null | undefined;
+
+/**
+ * Cipher for the current process, loaded from user settings on first use
+ */
+export function getFieldCipher(): FieldCipher | null {
+  if (activeCipher === undefined) {
+    activeCipher = createFieldCipher(SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH));
+  }
+  return activeCipher;
+}
+
+/**
+ * Override the process cipher (tests, rekey); undefined reloads from settings
+ */
+export function setFieldCipher(cipher: FieldCipher | null | undefined): void {
+  activeCipher = cipher;
+}
+
+/**
+ * Prepare a table's sensitive fields for writing
+ *
+ * Returns the values to store (encrypted when writes are encrypted) and the
+ * search_projection FTS should index in their place (null for plaintext rows).
+ */
+export function sealFields<T extends Record<string, string | null | undefined>>(
+  table: SensitiveTable,
+  fields: T,
+  cipher: FieldCipher | null = getFieldCipher()
+): { values: T; searchProjection: string | null } {
+  if (!cipher?.encryptWrites) {
+    return { values: fields, searchProjection: null };
+  }
+
+  const values = { ...fields };
+  const columns: readonly string[] = SENSITIVE_COLUMNS[table];
+  for (const column of columns) {
+    const value = fields[column];
+    if (typeof value === 'string' && !isEncrypted(value)) {
+      (values as Record<string, string>)[column] = cipher.encrypt(value);
+    }
+  }
+
+  return { values, searchProjection: buildSearchProjection(fields, columns, cipher.projection) };
+}
+
+/**
+ * Long tokens mixing letters and digits, and long hex runs, are treated as
+ * secrets (API keys, hashes) and left out of the projection
+ */
+function looksSecret(token: string): boolean {
+  return token.length > 40
+    || (token.length >= 20 && /\d/.test(token) && /\p{L}/u.test(token))
+    || /^[0-9a-f]{16,}$/.test(token);
+}
+
+/**
+ * Sorted unique lowercase words of a text - enough for keyword search without
+ * keeping the original prose
+ */
+export function projectTerms(text: string): string {
+  const tokens = (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || []).filter(token => !looksSecret(token));
+  return [...new Set(tokens)].sort().join(' ');
+}
+
+/**
+ * JSON object of per-column search text for an encrypted row
+ */
+export function buildSearchProjection(
+  fields: Record<string, string | null | undefined>,
+  columns: readonly string[],
+  mode: SearchProjectionMode
+): string {
+  const projection: Record<string, string | null> = {};
+  for (const column of columns) {
+    const value = fields[column];
+    projection[column] = mode === 'terms' && typeof value === 'string' && !isEncrypted(value) ? projectTerms(value) : null;
+  }
+  return JSON.stringify(projection);
+}
+
+const warnedKeyIds = new Set<string>();
+
+/**
+ * Decrypt a value if it is encrypted. Values written with a key that is not
+ * configured are returned unchanged (and logged once per key).
+ */
+export function decryptValue<T>(value: T, cipher: FieldCipher | null = getFieldCipher()): T {
+  if (!isEncrypted(value)) {
+    return value;
+  }
+
+  if (!cipher || !cipher.canDecrypt(value)) {
+    const { keyId } = parseEncrypted(value);
+    if (!warnedKeyIds.has(keyId)) {
+      warnedKeyIds.add(keyId);
+      logger.warn('DB', 'Found data encrypted with a key that is not configured', { keyId });
+    }
+    return value;
+  }
+
+  return cipher.decrypt(value) as T;
+}
+
+/**
+ * Decrypt every sensitive field on a row and drop its search_projection
+ */
+export function decryptRow<T>(row: T, cipher: FieldCipher | null = getFieldCipher()): T {
+  if (!row || typeof row !== 'object') {
+    return row;
+  }
+
+  const record = row as Record<string, unknown>;
+  for (const field of Object.keys(record)) {
+    if (SENSITIVE_FIELD_NAMES.has(field)) {
+      record[field] = decryptValue(record[field], cipher);
+    }
+  }
+  delete record.search_projection;
+  return row;
+}
+
+export function decryptRows<T>(rows: T[], cipher: FieldCipher | null = getFieldCipher()): T[] {
+  for (const row of rows) {
+    decryptRow(row, cipher);
+  }
+  return rows;
+}
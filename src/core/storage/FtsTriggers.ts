@@ -0,0 +1,83 @@
+/**
+ * FTS5 sync triggers for observations, session_summaries and user_prompts
+ *
+ * The FTS tables are external-content tables kept in sync by triggers. For
+ * rows with a search_projection (written while encryption was enabled), the
+ * sensitive columns are indexed from the projection instead of the stored
+ * ciphertext; plaintext rows are indexed as-is. Insert and delete compute the
+ * same expressions from the stored row, so the index stays consistent.
+ */
+
+import { Database } from 'bun:sqlite';
+import { SENSITIVE_COLUMNS } from './FieldEncryption.js';
+
+export const FTS_INDEXES = {
+  observations: { fts: 'observations_fts', columns: ['title', 'subtitle', 'narrative', 'text', 'facts', 'concepts'] },
+  session_summaries: { fts: 'session_summaries_fts', columns: ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes'] },
+  user_prompts: { fts: 'user_prompts_fts', columns: ['prompt_text'] }
+} as const;
+
+export type FtsTable = keyof typeof FTS_INDEXES;
+
+/**
+ * Indexed values for a row alias (`new`, `old` or a table alias)
+ */
+function indexedValues(table: FtsTable, alias: string, useProjection: boolean = true): string {
+  const sensitive: readonly string[] = useProjection ? SENSITIVE_COLUMNS[table] : [];
+  return FTS_INDEXES[table].columns
+    .map(column => sensitive.includes(column)
+      ? `CASE WHEN ${alias}.search_projection IS NULL THEN ${alias}.${column} ELSE json_extract(${alias}.search_projection, '$.${column}') END`
+      : `${alias}.${column}`)
+    .join(', ');
+}
+
+/**
+ * (Re)create the insert/delete/update triggers that keep a table's FTS index in sync
+ * (useProjection = false restores the triggers from before search_projection existed)
+ */
+export function createFtsTriggers(db: Database, table: FtsTable, useProjection: boolean = true): void {
+  const { fts, columns } = FTS_INDEXES[table];
+  const columnList = columns.join(', ');
+  const values = (alias: string) => indexedValues(table, alias, useProjection);
+
+  db.run(`
+    DROP TRIGGER IF EXISTS ${table}_ai;
+    DROP TRIGGER IF EXISTS ${table}_ad;
+    DROP TRIGGER IF EXISTS ${table}_au;
+
+    CREATE TRIGGER ${table}_ai AFTER INSERT ON ${table} BEGIN
+      INSERT INTO ${fts}(rowid, ${columnList})
+      VALUES (new.id, ${values('new')});
+    END;
+
+    CREATE TRIGGER ${table}_ad AFTER DELETE ON ${table} BEGIN
+      INSERT INTO ${fts}(${fts}, rowid, ${columnList})
+      VALUES('delete', old.id, ${values('old')});
+    END;
+
+    CREATE TRIGGER ${table}_au AFTER UPDATE ON ${table} BEGIN
+      INSERT INTO ${fts}(${fts}, rowid, ${columnList})
+      VALUES('delete', old.id, ${values('old')});
+      INSERT INTO ${fts}(rowid, ${columnList})
+      VALUES (new.id, ${values('new')});
+    END;
+  `);
+}
+
+/**
+ * Index every existing row of a table (used when its FTS table is first created)
+ */
+export function populateFtsIndex(db: Database, table: FtsTable): void {
+  const { fts, columns } = FTS_INDEXES[table];
+  db.run(`
+    INSERT INTO ${fts}(rowid, ${columns.join(', ')})
+    SELECT t.id, ${indexedValues(table, 't')} FROM ${table} t
+  `);
+}
+
+/**
+ * Whether a table's FTS index exists
+ */
+export function hasFtsIndex(db: Database, table: FtsTable): boolean {
+  return !!db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(FTS_INDEXES[table].fts);
+}
@@ -0,0 +1,32 @@
+/**
+ * Chat namespace visibility
+ *
+ * Observations from chat integrations carry the channel and user of their
+ * session and a scope. From a channel and user, a search sees:
+ * - user-scoped observations of that user in that channel
+ * - channel-scoped observations of that channel
+ * - global observations
+ * Observations without a scope (Claude Code) are never part of a namespace.
+ */
+
+import type { NamespaceFilter } from './types.js';
+
+/**
+ * SQL condition restricting observations to those visible from `filter`.
+ * Pass an empty alias for unaliased queries.
+ */
+export function namespaceVisibilityClause(filter: NamespaceFilter, params: unknown[], tableAlias: string = 'o'): string {
+  const column = (name: string) => (tableAlias ? `${tableAlias}.${name}` : name);
+  const conditions = [
+    `${column('namespace_scope')} = 'global'`,
+    `(${column('namespace_scope')} = 'channel' AND ${column('namespace_channel')} = ?)`
+  ];
+  params.push(filter.channel);
+
+  if (filter.userId) {
+    conditions.push(`(${column('namespace_scope')} = 'user' AND ${column('namespace_channel')} = ? AND ${column('namespace_user')} = ?)`);
+    params.push(filter.channel, filter.userId);
+  }
+
+  return `(${conditions.join(' OR ')})`;
+}
@@ -1,6 +1,7 @@
 import { Database } from './sqlite-compat.js';
 import type { PendingMessage } from '../engine-types.js';
 import { logger } from '../../utils/logger.js';
+import { sealFields, decryptRow, decryptRows } from './FieldEncryption.js';
 
 /**
  * Persistent pending message record from database
@@ -15,6 +16,8 @@ export interface PersistentPendingMessage {
   tool_response: string | null;
   cwd: string | null;
   last_assistant_message: string | null;
+  git_head_sha: string | null;
+  git_dirty: number | null;
   prompt_number: number | null;
   status: 'pending' | 'processing' | 'processed' | 'failed';
   retry_count: number;
@@ -47,30 +50,37 @@ export class PendingMessageStore {
 
   /**
    * Enqueue a new message (persist before processing)
+   * @param createdAtEpoch - When the event happened (replayed events keep their original time)
    * @returns The database ID of the persisted message
    */
-  enqueue(sessionDbId: number, contentSessionId: string, message: PendingMessage): number {
-    const now = Date.now();
+  enqueue(sessionDbId: number, contentSessionId: string, message: PendingMessage, createdAtEpoch: number = Date.now()): number {
     const stmt = this.db.prepare(`
       INSERT INTO pending_messages (
         session_db_id, content_session_id, message_type,
         tool_name, tool_input, tool_response, cwd,
         last_assistant_message,
-        prompt_number, status, retry_count, created_at_epoch
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?)
+        prompt_number, git_head_sha, git_dirty,
+        status, retry_count, created_at_epoch
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?)
     `);
 
+    const { values } = sealFields('pending_messages', {
+      tool_input: message.tool_input ? JSON.stringify(message.tool_input) : null,
+      tool_response: message.tool_response ? JSON.stringify(message.tool_response) : null
+    });
     const result = stmt.run(
       sessionDbId,
       contentSessionId,
       message.type,
       message.tool_name || null,
-      message.tool_input ? JSON.stringify(message.tool_input) : null,
-      message.tool_response ? JSON.stringify(message.tool_response) : null,
+      values.tool_input,
+      values.tool_response,
       message.cwd || null,
       message.last_assistant_message || null,
       message.prompt_number || null,
-      now
+      message.git_head_sha || null,
+      message.git_dirty === undefined ? null : (message.git_dirty ? 1 : 0),
+      createdAtEpoch
     );
 
     return result.lastInsertRowid as number;
@@ -105,7 +115,7 @@ export class PendingMessageStore {
       return msg;
     });
 
-    return claimTx(sessionDbId) as PersistentPendingMessage | null;
+    return decryptRow(claimTx(sessionDbId) as PersistentPendingMessage | null);
   }
 
   /**
@@ -117,7 +127,7 @@ export class PendingMessageStore {
       WHERE session_db_id = ? AND status = 'pending'
       ORDER BY id ASC
     `);
-    return stmt.all(sessionDbId) as PersistentPendingMessage[];
+    return decryptRows(stmt.all(sessionDbId) as PersistentPendingMessage[]);
   }
 
   /**
@@ -139,7 +149,7 @@ export class PendingMessageStore {
         END,
         pm.created_at_epoch ASC
     `);
-    return stmt.all() as (PersistentPendingMessage & { project: string | null })[];
+    return decryptRows(stmt.all() as (PersistentPendingMessage & { project: string | null })[]);
   }
 
   /**
@@ -241,7 +251,7 @@ export class PendingMessageStore {
       ORDER BY pm.completed_at_epoch DESC
       LIMIT ?
     `);
-    return stmt.all(cutoff, limit) as (PersistentPendingMessage & { project: string | null })[];
+    return decryptRows(stmt.all(cutoff, limit) as (PersistentPendingMessage & { project: string | null })[]);
   }
 
   /**
@@ -379,7 +389,9 @@ export class PendingMessageStore {
       tool_response: persistent.tool_response ? JSON.parse(persistent.tool_response) : undefined,
       prompt_number: persistent.prompt_number || undefined,
       cwd: persistent.cwd || undefined,
-      last_assistant_message: persistent.last_assistant_message || undefined
+      last_assistant_message: persistent.last_assistant_message || undefined,
+      git_head_sha: persistent.git_head_sha || undefined,
+      git_dirty: persistent.git_dirty === null || persistent.git_dirty === undefined ? undefined : persistent.git_dirty === 1
     };
   }
 }
@@ -0,0 +1,116 @@
+/**
+ * Offline re-encryption of the sensitive columns
+ *
+ * Used by scripts/rekey.ts to move a database to a new key, or back to
+ * plaintext before encryption is turned off. Runs in a single transaction,
+ * so an interrupted rekey leaves the database on the old key.
+ */
+
+import { Database } from 'bun:sqlite';
+import { type FieldCipher, SENSITIVE_COLUMNS, isEncrypted, sealFields, type SensitiveTable } from './FieldEncryption.js';
+
+/** Rows rewritten per table; reprocess_observations counts snapshots of observations */
+export type RekeyResult = Record<SensitiveTable | 'reprocess_observations', number>;
+
+function hasTable(db: Database, table: string): boolean {
+  return !!db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(table);
+}
+
+function hasColumn(db: Database, table: string, column: string): boolean {
+  return (db.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).some(c => c.name === column);
+}
+
+/**
+ * Decrypt a row's sensitive fields with `from` and seal them under `to`
+ * @param label - Names the row in the error thrown for an unknown key
+ */
+function resealFields(
+  table: SensitiveTable,
+  row: Record<string, any>,
+  from: FieldCipher | null,
+  to: FieldCipher | null,
+  label: string
+): { values: Record<string, string | null>; searchProjection: string | null; changed: boolean } {
+  const columns: readonly string[] = SENSITIVE_COLUMNS[table];
+  const plain: Record<string, string | null> = {};
+  for (const column of columns) {
+    const value = row[column];
+    if (isEncrypted(value)) {
+      if (!from || !from.canDecrypt(value)) {
+        throw new Error(`${label} was encrypted with a key other than the current one`);
+      }
+      plain[column] = from.decrypt(value);
+    } else {
+      plain[column] = value ?? null;
+    }
+  }
+
+  const { values, searchProjection } = sealFields(table, plain, to);
+  const changed = columns.some(column => values[column] !== (row[column] ?? null))
+    || searchProjection !== (row.search_projection ?? null);
+  return { values, searchProjection, changed };
+}
+
+/**
+ * Rewrite every sensitive value readable with `from` (plaintext is always
+ * readable) under `to`, or as plaintext when `to` is null or does not
+ * encrypt writes. Observation snapshots kept by reprocess runs are
+ * rewritten too, so a rollback restores rows readable with the new key.
+ * Returns the number of rows rewritten per table.
+ *
+ * Throws before changing anything if a value was encrypted with a key other
+ * than `from`.
+ */
+export function rekeyDatabase(db: Database, from: FieldCipher | null, to: FieldCipher | null): RekeyResult {
+  const result = {} as RekeyResult;
+
+  const run = db.transaction(() => {
+    for (const table of Object.keys(SENSITIVE_COLUMNS) as SensitiveTable[]) {
+      result[table] = 0;
+      if (!hasTable(db, table)) continue;
+
+      const columns: readonly string[] = SENSITIVE_COLUMNS[table];
+      const withProjection = hasColumn(db, table, 'search_projection');
+      const assignments = columns.map(column => `${column} = ?`);
+      if (withProjection) assignments.push('search_projection = ?');
+      const update = db.prepare(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`);
+
+      const selected = withProjection ? [...columns, 'search_projection'] : columns;
+      const rows = db.prepare(`SELECT id, ${selected.join(', ')} FROM ${table}`).all() as Record<string, any>[];
+      for (const row of rows) {
+        const { values, searchProjection, changed } = resealFields(
+          table,
+          withProjection ? row : { ...row, search_projection: null },
+          from,
+          to,
+          `${table} row ${row.id}`
+        );
+        if (!changed) continue;
+
+        const params = columns.map(column => values[column] ?? null);
+        if (withProjection) params.push(searchProjection);
+        update.run(...params, row.id);
+        result[table]++;
+      }
+    }
+
+    result.reprocess_observations = 0;
+    if (!hasTable(db, 'reprocess_observations')) return;
+
+    const updateSnapshot = db.prepare('UPDATE reprocess_observations SET row_json = ? WHERE id = ?');
+    const snapshots = db.prepare('SELECT id, row_json FROM reprocess_observations').all() as Array<{ id: number; row_json: string }>;
+    for (const snapshot of snapshots) {
+      const row = JSON.parse(snapshot.row_json) as Record<string, any>;
+      const { values, searchProjection, changed } = resealFields('observations', row, from, to, `reprocess_observations row ${snapshot.id}`);
+      if (!changed) continue;
+
+      const resealed: Record<string, any> = { ...row, ...values };
+      if ('search_projection' in row) resealed.search_projection = searchProjection;
+      updateSnapshot.run(JSON.stringify(resealed), snapshot.id);
+      result.reprocess_observations++;
+    }
+  });
+
+  run();
+  return result;
+}
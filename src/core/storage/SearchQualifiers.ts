@@ -0,0 +1,51 @@
+/**
+ * Search qualifiers embedded in query text
+ *
+ * `tag:<name>` narrows results to observations carrying that tag (repeat for
+ * several tags; all must match) and `is:favorite` to favorited observations.
+ * Qualifiers are stripped so only the free text reaches FTS5 and the vector backend.
+ */
+
+const TAG_NAME_PATTERN = /^[a-z0-9][a-z0-9_./-]{0,63}$/;
+const QUALIFIER_PATTERN = /(^|\s)(tag|is):("[^"]*"|\S+)/gi;
+
+export interface ParsedSearchQuery {
+  /** Query text with qualifiers removed (empty when only qualifiers were given) */
+  text: string;
+  tags: string[];
+  favorite: boolean;
+}
+
+/**
+ * Normalize a tag name (trimmed, lowercase)
+ * @returns null if the name is empty or contains unsupported characters
+ */
+export function normalizeTagName(name: string): string | null {
+  const normalized = name.trim().toLowerCase();
+  return TAG_NAME_PATTERN.test(normalized) ? normalized : null;
+}
+
+/**
+ * Split `tag:` and `is:favorite` qualifiers out of a search query.
+ * Unknown `is:` values and invalid tag names are left in the text.
+ */
+export function parseSearchQualifiers(query: string | undefined): ParsedSearchQuery {
+  const tags: string[] = [];
+  let favorite = false;
+
+  const text = (query ?? '').replace(QUALIFIER_PATTERN, (match, lead: string, key: string, rawValue: string) => {
+    const value = rawValue.replace(/^"|"$/g, '');
+    if (key.toLowerCase() === 'is') {
+      if (value.toLowerCase() !== 'favorite') return match;
+      favorite = true;
+      return lead;
+    }
+
+    const tag = normalizeTagName(value);
+    if (!tag) return match;
+    if (!tags.includes(tag)) tags.push(tag);
+    return lead;
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), tags, favorite };
+}
@@ -12,11 +12,16 @@ import {
   ObservationRow,
   UserPromptRow
 } from './types.js';
+import { parseSearchQualifiers } from './SearchQualifiers.js';
+import { decryptRows } from './FieldEncryption.js';
+import { namespaceVisibilityClause } from './Namespaces.js';
+import { createFtsTriggers, populateFtsIndex } from './FtsTriggers.js';
 
 /**
  * Search interface for session-based memory
- * Provides filter-only structured queries for sessions, observations, and user prompts
- * Vector search is handled by ChromaDB - this class only supports filtering without query text
+ * Provides structured filter queries and FTS5 keyword queries for sessions, observations,
+ * and user prompts. Semantic search is handled by the vector backend; HybridSearchStrategy
+ * fuses both rankings.
  */
 export class SessionSearch {
   private db: Database;
@@ -34,18 +39,10 @@ export class SessionSearch {
   }
 
   /**
-   * Ensure FTS5 tables exist (backward compatibility only - no longer used for search)
+   * Ensure FTS5 tables exist
    *
-   * FTS5 tables are maintained for backward compatibility but not used for search.
-   * Vector search (Chroma) is now the primary search mechanism.
-   *
-   * Retention Rationale:
-   * - Prevents breaking existing installations with FTS5 tables
-   * - Allows graceful migration path for users
-   * - Tables maintained but search paths removed
-   * - Triggers still fire to keep tables synchronized
-   *
-   * TODO: Remove FTS5 infrastructure in future major version (v7.0.0)
+   * FTS5 provides the keyword half of hybrid search (see HybridSearchStrategy).
+   * Triggers keep the tables synchronized with observations and session_summaries.
    */
   private ensureFTSTables(): void {
     // Check if FTS tables already exist
@@ -73,32 +70,9 @@ export class SessionSearch {
       );
     `);
 
-    // Populate with existing data
-    this.db.run(`
-      INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-      SELECT id, title, subtitle, narrative, text, facts, concepts
-      FROM observations;
-    `);
-
-    // Create triggers for observations
-    this.db.run(`
-      CREATE TRIGGER IF NOT EXISTS observations_ai AFTER INSERT ON observations BEGIN
-        INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES (new.id, new.title, new.subtitle, new.narrative, new.text, new.facts, new.concepts);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS observations_ad AFTER DELETE ON observations BEGIN
-        INSERT INTO observations_fts(observations_fts, rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES('delete', old.id, old.title, old.subtitle, old.narrative, old.text, old.facts, old.concepts);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS observations_au AFTER UPDATE ON observations BEGIN
-        INSERT INTO observations_fts(observations_fts, rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES('delete', old.id, old.title, old.subtitle, old.narrative, old.text, old.facts, old.concepts);
-        INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES (new.id, new.title, new.subtitle, new.narrative, new.text, new.facts, new.concepts);
-      END;
-    `);
+    // Populate with existing data and keep in sync
+    populateFtsIndex(this.db, 'observations');
+    createFtsTriggers(this.db, 'observations');
 
     // Create session_summaries_fts virtual table
     this.db.run(`
@@ -114,37 +88,37 @@ export class SessionSearch {
       );
     `);
 
-    // Populate with existing data
-    this.db.run(`
-      INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-      SELECT id, request, investigated, learned, completed, next_steps, notes
-      FROM session_summaries;
-    `);
-
-    // Create triggers for session_summaries
-    this.db.run(`
-      CREATE TRIGGER IF NOT EXISTS session_summaries_ai AFTER INSERT ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps, new.notes);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS session_summaries_ad AFTER DELETE ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(session_summaries_fts, rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps, old.notes);
-      END;
-
-      CREATE TRIGGER IF NOT EXISTS session_summaries_au AFTER UPDATE ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(session_summaries_fts, rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps, old.notes);
-        INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps, new.notes);
-      END;
-    `);
+    // Populate with existing data and keep in sync
+    populateFtsIndex(this.db, 'session_summaries');
+    createFtsTriggers(this.db, 'session_summaries');
 
     logger.info('DB', 'FTS5 tables created successfully');
   }
 
 
+  /**
+   * Check whether the FTS5 index is present (required for keyword search)
+   */
+  hasFullTextIndex(): boolean {
+    const row = this.db.prepare(
+      "SELECT name FROM sqlite_master WHERE type='table' AND name = 'observations_fts'"
+    ).get() as TableNameRow | undefined;
+    return !!row;
+  }
+
+  /**
+   * Convert free text into an FTS5 MATCH expression.
+   * Each token is quoted so user input can't inject FTS syntax; tokens are OR-ed
+   * and bm25 ranking rewards rows that match more of them.
+   */
+  private buildMatchQuery(query: string): string | null {
+    const tokens = query.match(/[\p{L}\p{N}_]+/gu) || [];
+    if (tokens.length === 0) {
+      return null;
+    }
+    return tokens.map(token => `"${token}"`).join(' OR ');
+  }
+
   /**
    * Build WHERE clause for structured filters
    */
@@ -217,6 +191,25 @@ export class SessionSearch {
       }
     }
 
+    // Tags filter (observations only; every tag must be present)
+    for (const tag of filters.tags ?? []) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM observation_tags ot JOIN tags t ON t.id = ot.tag_id
+        WHERE ot.observation_id = ${tableAlias}.id AND t.name = ?
+      )`);
+      params.push(tag);
+    }
+
+    // Favorites filter (observations only)
+    if (filters.favorite) {
+      conditions.push(`EXISTS (SELECT 1 FROM favorites f WHERE f.observation_id = ${tableAlias}.id)`);
+    }
+
+    // Chat namespace filter (observations only)
+    if (filters.namespace) {
+      conditions.push(namespaceVisibilityClause(filters.namespace, params, tableAlias));
+    }
+
     return conditions.length > 0 ? conditions.join(' AND ') : '';
   }
 
@@ -237,13 +230,20 @@ export class SessionSearch {
   }
 
   /**
-   * Search observations using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search observations by filters only (query undefined) or by FTS5 keyword match.
+   * `tag:` and `is:favorite` qualifiers in the query are applied as filters.
    */
   searchObservations(query: string | undefined, options: SearchOptions = {}): ObservationSearchResult[] {
     const params: any[] = [];
     const { limit = 50, offset = 0, orderBy = 'relevance', ...filters } = options;
 
+    const qualifiers = parseSearchQualifiers(query);
+    if (qualifiers.tags.length > 0 || qualifiers.favorite) {
+      query = qualifiers.text || undefined;
+      filters.tags = [...(filters.tags ?? []), ...qualifiers.tags];
+      filters.favorite = filters.favorite || qualifiers.favorite;
+    }
+
     // FILTER-ONLY PATH: When no query text, query table directly
     // This enables date filtering which Chroma cannot do (requires direct SQLite access)
     if (!query) {
@@ -263,18 +263,35 @@ export class SessionSearch {
       `;
 
       params.push(limit, offset);
-      return this.db.prepare(sql).all(...params) as ObservationSearchResult[];
+      return decryptRows(this.db.prepare(sql).all(...params) as ObservationSearchResult[]);
+    }
+
+    // KEYWORD PATH: FTS5 match, ranked by bm25 unless a date order is requested
+    const matchQuery = this.buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    params.push(matchQuery);
+    const filterClause = this.buildFilterClause(filters, params, 'o');
+    const orderClause = this.buildOrderClause(orderBy, true);
+
+    const sql = `
+      SELECT o.*, o.discovery_tokens
+      FROM observations o
+      JOIN observations_fts ON observations_fts.rowid = o.id
+      WHERE observations_fts MATCH ?
+      ${filterClause ? `AND ${filterClause}` : ''}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    params.push(limit, offset);
+    return decryptRows(this.db.prepare(sql).all(...params) as ObservationSearchResult[]);
   }
 
   /**
-   * Search session summaries using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search session summaries by filters only (query undefined) or by FTS5 keyword match.
    */
   searchSessions(query: string | undefined, options: SearchOptions = {}): SessionSummarySearchResult[] {
     const params: any[] = [];
@@ -284,6 +301,9 @@ export class SessionSearch {
     if (!query) {
       const filterOptions = { ...filters };
       delete filterOptions.type;
+      delete filterOptions.tags;
+      delete filterOptions.favorite;
+      delete filterOptions.namespace;
       const filterClause = this.buildFilterClause(filterOptions, params, 's');
       if (!filterClause) {
         throw new Error('Either query or filters required for search');
@@ -302,13 +322,41 @@ export class SessionSearch {
       `;
 
       params.push(limit, offset);
-      return this.db.prepare(sql).all(...params) as SessionSummarySearchResult[];
+      return decryptRows(this.db.prepare(sql).all(...params) as SessionSummarySearchResult[]);
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    // KEYWORD PATH: FTS5 match over summary fields
+    const matchQuery = this.buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
+    }
+
+    params.push(matchQuery);
+    const filterOptions = { ...filters };
+    delete filterOptions.type;
+    delete filterOptions.tags;
+    delete filterOptions.favorite;
+    delete filterOptions.namespace;
+    const filterClause = this.buildFilterClause(filterOptions, params, 's');
+
+    const orderClause = orderBy === 'relevance'
+      ? 'ORDER BY session_summaries_fts.rank ASC'
+      : orderBy === 'date_asc'
+        ? 'ORDER BY s.created_at_epoch ASC'
+        : 'ORDER BY s.created_at_epoch DESC';
+
+    const sql = `
+      SELECT s.*, s.discovery_tokens
+      FROM session_summaries s
+      JOIN session_summaries_fts ON session_summaries_fts.rowid = s.id
+      WHERE session_summaries_fts MATCH ?
+      ${filterClause ? `AND ${filterClause}` : ''}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    params.push(limit, offset);
+    return decryptRows(this.db.prepare(sql).all(...params) as SessionSummarySearchResult[]);
   }
 
   /**
@@ -333,7 +381,7 @@ export class SessionSearch {
 
     params.push(limit, offset);
 
-    return this.db.prepare(sql).all(...params) as ObservationSearchResult[];
+    return decryptRows(this.db.prepare(sql).all(...params) as ObservationSearchResult[]);
   }
 
   /**
@@ -410,7 +458,7 @@ export class SessionSearch {
 
     params.push(queryLimit, offset);
 
-    let observations = this.db.prepare(observationsSql).all(...params) as ObservationSearchResult[];
+    let observations = decryptRows(this.db.prepare(observationsSql).all(...params) as ObservationSearchResult[]);
 
     // Post-filter to direct children if isFolder mode
     if (isFolder) {
@@ -459,7 +507,7 @@ export class SessionSearch {
 
     sessionParams.push(queryLimit, offset);
 
-    let sessions = this.db.prepare(sessionsSql).all(...sessionParams) as SessionSummarySearchResult[];
+    let sessions = decryptRows(this.db.prepare(sessionsSql).all(...sessionParams) as SessionSummarySearchResult[]);
 
     // Post-filter to direct children if isFolder mode
     if (isFolder) {
@@ -494,12 +542,11 @@ export class SessionSearch {
 
     params.push(limit, offset);
 
-    return this.db.prepare(sql).all(...params) as ObservationSearchResult[];
+    return decryptRows(this.db.prepare(sql).all(...params) as ObservationSearchResult[]);
   }
 
   /**
-   * Search user prompts using filter-only direct SQLite query.
-   * Vector search is handled by ChromaDB - this only supports filtering without query text.
+   * Search user prompts by filters only (query undefined) or by FTS5 keyword match.
    */
   searchUserPrompts(query: string | undefined, options: SearchOptions = {}): UserPromptSearchResult[] {
     const params: any[] = [];
@@ -547,13 +594,33 @@ export class SessionSearch {
       `;
 
       params.push(limit, offset);
-      return this.db.prepare(sql).all(...params) as UserPromptSearchResult[];
+      return decryptRows(this.db.prepare(sql).all(...params) as UserPromptSearchResult[]);
+    }
+
+    // KEYWORD PATH: FTS5 match over prompt text
+    const matchQuery = this.buildMatchQuery(query);
+    if (!matchQuery) {
+      return [];
     }
 
-    // Vector search with query text should be handled by ChromaDB
-    // This method only supports filter-only queries (query=undefined)
-    logger.warn('DB', 'Text search not supported - use ChromaDB for vector search');
-    return [];
+    const orderClause = orderBy === 'relevance'
+      ? 'ORDER BY user_prompts_fts.rank ASC'
+      : orderBy === 'date_asc'
+        ? 'ORDER BY up.created_at_epoch ASC'
+        : 'ORDER BY up.created_at_epoch DESC';
+
+    const sql = `
+      SELECT up.*
+      FROM user_prompts up
+      JOIN user_prompts_fts ON user_prompts_fts.rowid = up.id
+      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
+      WHERE user_prompts_fts MATCH ?
+      ${baseConditions.length > 0 ? `AND ${baseConditions.join(' AND ')}` : ''}
+      ${orderClause}
+      LIMIT ? OFFSET ?
+    `;
+
+    return decryptRows(this.db.prepare(sql).all(matchQuery, ...params, limit, offset) as UserPromptSearchResult[]);
   }
 
   /**
@@ -573,7 +640,7 @@ export class SessionSearch {
       ORDER BY prompt_number ASC
     `);
 
-    return stmt.all(contentSessionId) as UserPromptRow[];
+    return decryptRows(stmt.all(contentSessionId) as UserPromptRow[]);
   }
 
   /**
@@ -4,8 +4,10 @@ export {
   DatabaseManager,
   getDatabase,
   initializeDatabase,
-  MigrationRunner
+  MigrationRunner,
+  MigrationDriftError
 } from './Database.js';
+export type { Migration, MigrationState, MigrationStatus } from './Database.js';
 
 // Export session store (CRUD operations for sessions, observations, summaries)
 // @deprecated Use modular functions from Database.ts instead
@@ -17,6 +19,9 @@ export { SessionSearch } from './SessionSearch.js';
 // Export types
 export * from './types.js';
 
+// Export search qualifier parsing (tag:, is:favorite)
+export * from './SearchQualifiers.js';
+
 // Export migrations
 export { migrations } from './migrations.js';
 
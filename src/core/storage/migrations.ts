@@ -1,513 +1,1166 @@
 import { Database } from 'bun:sqlite';
-import { Migration } from './Database.js';
+import { logger } from '../../utils/logger.js';
+import { TableColumnInfo, IndexInfo, TableNameRow } from '../../types/database.js';
+import type { Migration } from './migrations/types.js';
+import { createFtsTriggers, hasFtsIndex, type FtsTable } from './FtsTriggers.js';
 
-// Re-export MigrationRunner for SessionStore migration extraction
-export { MigrationRunner } from './migrations/runner.js';
+/**
+ * Schema migrations for the main database, applied in version order by
+ * MigrationRunner. Each migration runs inside a transaction and is recorded in
+ * schema_versions with a checksum, so never edit an applied migration - add a
+ * new version instead. Gaps in the numbering are retired versions and must
+ * not be reused.
+ *
+ * `checksum` is the hash of the migration's source below without that line
+ * (bundling rewrites `up.toString()`, so it cannot be hashed at runtime).
+ * The migration runner tests check it and print the value a new migration
+ * needs.
+ *
+ * Migrations up to 19 predate reversible migrations and have no `down`.
+ */
 
 /**
- * Initial schema migration - creates all core tables
+ * Drop columns that exist on a table (SQLite 3.35+ ALTER TABLE DROP COLUMN)
  */
-export const migration001: Migration = {
-  version: 1,
+function dropColumns(db: Database, table: string, columns: string[]): void {
+  const existing = new Set((db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[]).map(col => col.name));
+  for (const column of columns) {
+    if (existing.has(column)) {
+      db.run(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+}
+
+/**
+ * Core SDK agent tables: sdk_sessions, observations and session_summaries
+ */
+export const migration004: Migration = {
+  version: 4,
+  name: 'core_sdk_tables',
+  checksum: '384cda30e0e86c3381ddb21d9f8684ba176c66564c8d06e53901574df69e6870',
   up: (db: Database) => {
-    // Sessions table - core session tracking
     db.run(`
-      CREATE TABLE IF NOT EXISTS sessions (
+      CREATE TABLE IF NOT EXISTS sdk_sessions (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT UNIQUE NOT NULL,
+        content_session_id TEXT UNIQUE NOT NULL,
+        memory_session_id TEXT UNIQUE,
         project TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        source TEXT NOT NULL DEFAULT 'compress',
-        archive_path TEXT,
-        archive_bytes INTEGER,
-        archive_checksum TEXT,
-        archived_at TEXT,
-        metadata_json TEXT
+        user_prompt TEXT,
+        started_at TEXT NOT NULL,
+        started_at_epoch INTEGER NOT NULL,
+        completed_at TEXT,
+        completed_at_epoch INTEGER,
+        status TEXT CHECK(status IN ('active', 'completed', 'failed')) NOT NULL DEFAULT 'active'
       );
 
-      CREATE INDEX IF NOT EXISTS idx_sessions_project ON sessions(project);
-      CREATE INDEX IF NOT EXISTS idx_sessions_created_at ON sessions(created_at_epoch DESC);
-      CREATE INDEX IF NOT EXISTS idx_sessions_project_created ON sessions(project, created_at_epoch DESC);
-    `);
+      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_claude_id ON sdk_sessions(content_session_id);
+      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_sdk_id ON sdk_sessions(memory_session_id);
+      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_project ON sdk_sessions(project);
+      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_status ON sdk_sessions(status);
+      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_started ON sdk_sessions(started_at_epoch DESC);
 
-    // Memories table - compressed memory chunks
-    db.run(`
-      CREATE TABLE IF NOT EXISTS memories (
+      CREATE TABLE IF NOT EXISTS observations (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
+        memory_session_id TEXT NOT NULL,
+        project TEXT NOT NULL,
         text TEXT NOT NULL,
-        document_id TEXT UNIQUE,
-        keywords TEXT,
+        type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery')),
         created_at TEXT NOT NULL,
         created_at_epoch INTEGER NOT NULL,
-        project TEXT NOT NULL,
-        archive_basename TEXT,
-        origin TEXT NOT NULL DEFAULT 'transcript',
-        FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE CASCADE
+        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
       );
 
-      CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(session_id);
-      CREATE INDEX IF NOT EXISTS idx_memories_project ON memories(project);
-      CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at_epoch DESC);
-      CREATE INDEX IF NOT EXISTS idx_memories_project_created ON memories(project, created_at_epoch DESC);
-      CREATE INDEX IF NOT EXISTS idx_memories_document_id ON memories(document_id);
-      CREATE INDEX IF NOT EXISTS idx_memories_origin ON memories(origin);
-    `);
+      CREATE INDEX IF NOT EXISTS idx_observations_sdk_session ON observations(memory_session_id);
+      CREATE INDEX IF NOT EXISTS idx_observations_project ON observations(project);
+      CREATE INDEX IF NOT EXISTS idx_observations_type ON observations(type);
+      CREATE INDEX IF NOT EXISTS idx_observations_created ON observations(created_at_epoch DESC);
 
-    // Overviews table - session summaries (one per project)
-    db.run(`
-      CREATE TABLE IF NOT EXISTS overviews (
+      CREATE TABLE IF NOT EXISTS session_summaries (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        content TEXT NOT NULL,
+        memory_session_id TEXT UNIQUE NOT NULL,
+        project TEXT NOT NULL,
+        request TEXT,
+        investigated TEXT,
+        learned TEXT,
+        completed TEXT,
+        next_steps TEXT,
+        files_read TEXT,
+        files_edited TEXT,
+        notes TEXT,
         created_at TEXT NOT NULL,
         created_at_epoch INTEGER NOT NULL,
-        project TEXT NOT NULL,
-        origin TEXT NOT NULL DEFAULT 'claude',
-        FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE CASCADE
+        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
       );
 
-      CREATE INDEX IF NOT EXISTS idx_overviews_session ON overviews(session_id);
-      CREATE INDEX IF NOT EXISTS idx_overviews_project ON overviews(project);
-      CREATE INDEX IF NOT EXISTS idx_overviews_created_at ON overviews(created_at_epoch DESC);
-      CREATE INDEX IF NOT EXISTS idx_overviews_project_created ON overviews(project, created_at_epoch DESC);
-      CREATE UNIQUE INDEX IF NOT EXISTS idx_overviews_project_latest ON overviews(project, created_at_epoch DESC);
+      CREATE INDEX IF NOT EXISTS idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
+      CREATE INDEX IF NOT EXISTS idx_session_summaries_project ON session_summaries(project);
+      CREATE INDEX IF NOT EXISTS idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
     `);
+  }
+};
+
+/**
+ * Ensure worker_port column exists
+ */
+export const migration005: Migration = {
+  version: 5,
+  name: 'sdk_sessions_worker_port',
+  checksum: 'c53ff225386ed9e66814ab7a50d8335c325e17c8338ad2b543e5f9e41cdaca7c',
+  up: (db: Database) => {
+    // Check if column exists
+    const tableInfo = db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
+    const hasWorkerPort = tableInfo.some(col => col.name === 'worker_port');
 
-    // Diagnostics table - system health and debug info
+    if (!hasWorkerPort) {
+      db.run('ALTER TABLE sdk_sessions ADD COLUMN worker_port INTEGER');
+      logger.debug('DB', 'Added worker_port column to sdk_sessions table');
+    }
+  }
+};
+
+/**
+ * Ensure prompt tracking columns exist
+ */
+export const migration006: Migration = {
+  version: 6,
+  name: 'prompt_tracking_columns',
+  checksum: '1ecc28faba6246be117acc15cec1826165ae7e606be712e1f69560d1d0308c69',
+  up: (db: Database) => {
+    // Check sdk_sessions for prompt_counter
+    const sessionsInfo = db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
+    const hasPromptCounter = sessionsInfo.some(col => col.name === 'prompt_counter');
+
+    if (!hasPromptCounter) {
+      db.run('ALTER TABLE sdk_sessions ADD COLUMN prompt_counter INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added prompt_counter column to sdk_sessions table');
+    }
+
+    // Check observations for prompt_number
+    const observationsInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const obsHasPromptNumber = observationsInfo.some(col => col.name === 'prompt_number');
+
+    if (!obsHasPromptNumber) {
+      db.run('ALTER TABLE observations ADD COLUMN prompt_number INTEGER');
+      logger.debug('DB', 'Added prompt_number column to observations table');
+    }
+
+    // Check session_summaries for prompt_number
+    const summariesInfo = db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
+    const sumHasPromptNumber = summariesInfo.some(col => col.name === 'prompt_number');
+
+    if (!sumHasPromptNumber) {
+      db.run('ALTER TABLE session_summaries ADD COLUMN prompt_number INTEGER');
+      logger.debug('DB', 'Added prompt_number column to session_summaries table');
+    }
+  }
+};
+
+/**
+ * Remove UNIQUE constraint from session_summaries.memory_session_id
+ */
+export const migration007: Migration = {
+  version: 7,
+  name: 'session_summaries_drop_unique',
+  checksum: '1e5b86a6a510d656a48033f8c7f74a94cebbdcc533675d32bb239566f2d182b1',
+  up: (db: Database) => {
+    // Check if UNIQUE constraint exists
+    const summariesIndexes = db.query('PRAGMA index_list(session_summaries)').all() as IndexInfo[];
+    const hasUniqueConstraint = summariesIndexes.some(idx => idx.unique === 1);
+
+    if (!hasUniqueConstraint) {
+      // Already migrated (no constraint exists)
+      return;
+    }
+
+    logger.debug('DB', 'Removing UNIQUE constraint from session_summaries.memory_session_id');
+
+    // Create new table without UNIQUE constraint
     db.run(`
-      CREATE TABLE IF NOT EXISTS diagnostics (
+      CREATE TABLE session_summaries_new (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT,
-        message TEXT NOT NULL,
-        severity TEXT NOT NULL DEFAULT 'info',
+        memory_session_id TEXT NOT NULL,
+        project TEXT NOT NULL,
+        request TEXT,
+        investigated TEXT,
+        learned TEXT,
+        completed TEXT,
+        next_steps TEXT,
+        files_read TEXT,
+        files_edited TEXT,
+        notes TEXT,
+        prompt_number INTEGER,
         created_at TEXT NOT NULL,
         created_at_epoch INTEGER NOT NULL,
-        project TEXT NOT NULL,
-        origin TEXT NOT NULL DEFAULT 'system',
-        FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE SET NULL
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_diagnostics_session ON diagnostics(session_id);
-      CREATE INDEX IF NOT EXISTS idx_diagnostics_project ON diagnostics(project);
-      CREATE INDEX IF NOT EXISTS idx_diagnostics_severity ON diagnostics(severity);
-      CREATE INDEX IF NOT EXISTS idx_diagnostics_created ON diagnostics(created_at_epoch DESC);
+        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
+      )
     `);
 
-    // Transcript events table - raw conversation events
+    // Copy data from old table
     db.run(`
-      CREATE TABLE IF NOT EXISTS transcript_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_id TEXT NOT NULL,
-        project TEXT,
-        event_index INTEGER NOT NULL,
-        event_type TEXT,
-        raw_json TEXT NOT NULL,
-        captured_at TEXT NOT NULL,
-        captured_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY (session_id) REFERENCES sessions(session_id) ON DELETE CASCADE,
-        UNIQUE(session_id, event_index)
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_transcript_events_session ON transcript_events(session_id, event_index);
-      CREATE INDEX IF NOT EXISTS idx_transcript_events_project ON transcript_events(project);
-      CREATE INDEX IF NOT EXISTS idx_transcript_events_type ON transcript_events(event_type);
-      CREATE INDEX IF NOT EXISTS idx_transcript_events_captured ON transcript_events(captured_at_epoch DESC);
+      INSERT INTO session_summaries_new
+      SELECT id, memory_session_id, project, request, investigated, learned,
+             completed, next_steps, files_read, files_edited, notes,
+             prompt_number, created_at, created_at_epoch
+      FROM session_summaries
     `);
 
-    console.log('✅ Created all database tables successfully');
-  },
+    // Drop old table
+    db.run('DROP TABLE session_summaries');
 
-  down: (db: Database) => {
+    // Rename new table
+    db.run('ALTER TABLE session_summaries_new RENAME TO session_summaries');
+
+    // Recreate indexes
     db.run(`
-      DROP TABLE IF EXISTS transcript_events;
-      DROP TABLE IF EXISTS diagnostics;
-      DROP TABLE IF EXISTS overviews;
-      DROP TABLE IF EXISTS memories;
-      DROP TABLE IF EXISTS sessions;
+      CREATE INDEX idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
+      CREATE INDEX idx_session_summaries_project ON session_summaries(project);
+      CREATE INDEX idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
     `);
+
+    logger.debug('DB', 'Successfully removed UNIQUE constraint from session_summaries.memory_session_id');
   }
 };
 
 /**
- * Migration 002 - Add hierarchical memory fields (v2 format)
+ * Add hierarchical fields to observations table
  */
-export const migration002: Migration = {
-  version: 2,
+export const migration008: Migration = {
+  version: 8,
+  name: 'observation_hierarchical_fields',
+  checksum: 'db2a114d7abdfc555dd62cb174719118f284eb05316734e7ad7ff0253c9aad97',
   up: (db: Database) => {
-    // Add new columns for hierarchical memory structure
-    db.run(`
-      ALTER TABLE memories ADD COLUMN title TEXT;
-      ALTER TABLE memories ADD COLUMN subtitle TEXT;
-      ALTER TABLE memories ADD COLUMN facts TEXT;
-      ALTER TABLE memories ADD COLUMN concepts TEXT;
-      ALTER TABLE memories ADD COLUMN files_touched TEXT;
-    `);
+    // Check if new fields already exist
+    const tableInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasTitle = tableInfo.some(col => col.name === 'title');
 
-    // Create indexes for the new fields to improve search performance
+    if (hasTitle) {
+      // Already migrated
+      return;
+    }
+
+    logger.debug('DB', 'Adding hierarchical fields to observations table');
+
+    // Add new columns
     db.run(`
-      CREATE INDEX IF NOT EXISTS idx_memories_title ON memories(title);
-      CREATE INDEX IF NOT EXISTS idx_memories_concepts ON memories(concepts);
+      ALTER TABLE observations ADD COLUMN title TEXT;
+      ALTER TABLE observations ADD COLUMN subtitle TEXT;
+      ALTER TABLE observations ADD COLUMN facts TEXT;
+      ALTER TABLE observations ADD COLUMN narrative TEXT;
+      ALTER TABLE observations ADD COLUMN concepts TEXT;
+      ALTER TABLE observations ADD COLUMN files_read TEXT;
+      ALTER TABLE observations ADD COLUMN files_modified TEXT;
     `);
 
-    console.log('✅ Added hierarchical memory fields to memories table');
-  },
-
-  down: (_db: Database) => {
-    // Note: SQLite doesn't support DROP COLUMN in all versions
-    // In production, we'd need to recreate the table without these columns
-    // For now, we'll just log a warning
-    console.log('⚠️  Warning: SQLite ALTER TABLE DROP COLUMN not fully supported');
-    console.log('⚠️  To rollback, manually recreate the memories table');
+    logger.debug('DB', 'Successfully added hierarchical fields to observations table');
   }
 };
 
 /**
- * Migration 003 - Add streaming_sessions table for real-time session tracking
+ * Make observations.text nullable
+ * The text field is deprecated in favor of structured fields (title, subtitle, narrative, etc.)
  */
-export const migration003: Migration = {
-  version: 3,
+export const migration009: Migration = {
+  version: 9,
+  name: 'observations_text_nullable',
+  checksum: '1825b9d9fbc119f34d124ded537291ebd5e393df30227adf944cb374d064962f',
   up: (db: Database) => {
-    // Streaming sessions table - tracks active SDK compression sessions
+    // Check if text column is already nullable
+    const tableInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const textColumn = tableInfo.find(col => col.name === 'text');
+
+    if (!textColumn || textColumn.notnull === 0) {
+      // Already migrated or text column doesn't exist
+      return;
+    }
+
+    logger.debug('DB', 'Making observations.text nullable');
+
+    // Create new table with text as nullable
     db.run(`
-      CREATE TABLE IF NOT EXISTS streaming_sessions (
+      CREATE TABLE observations_new (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_session_id TEXT UNIQUE NOT NULL,
-        memory_session_id TEXT,
+        memory_session_id TEXT NOT NULL,
         project TEXT NOT NULL,
+        text TEXT,
+        type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery', 'change')),
         title TEXT,
         subtitle TEXT,
-        user_prompt TEXT,
-        started_at TEXT NOT NULL,
-        started_at_epoch INTEGER NOT NULL,
-        updated_at TEXT,
-        updated_at_epoch INTEGER,
-        completed_at TEXT,
-        completed_at_epoch INTEGER,
-        status TEXT NOT NULL DEFAULT 'active'
-      );
+        facts TEXT,
+        narrative TEXT,
+        concepts TEXT,
+        files_read TEXT,
+        files_modified TEXT,
+        prompt_number INTEGER,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
+      )
+    `);
 
-      CREATE INDEX IF NOT EXISTS idx_streaming_sessions_claude_id ON streaming_sessions(content_session_id);
-      CREATE INDEX IF NOT EXISTS idx_streaming_sessions_sdk_id ON streaming_sessions(memory_session_id);
-      CREATE INDEX IF NOT EXISTS idx_streaming_sessions_project ON streaming_sessions(project);
-      CREATE INDEX IF NOT EXISTS idx_streaming_sessions_status ON streaming_sessions(status);
-      CREATE INDEX IF NOT EXISTS idx_streaming_sessions_started ON streaming_sessions(started_at_epoch DESC);
+    // Copy data from old table (all existing columns)
+    db.run(`
+      INSERT INTO observations_new
+      SELECT id, memory_session_id, project, text, type, title, subtitle, facts,
+             narrative, concepts, files_read, files_modified, prompt_number,
+             created_at, created_at_epoch
+      FROM observations
     `);
 
-    console.log('✅ Created streaming_sessions table for real-time session tracking');
-  },
+    // Drop old table
+    db.run('DROP TABLE observations');
 
-  down: (db: Database) => {
+    // Rename new table
+    db.run('ALTER TABLE observations_new RENAME TO observations');
+
+    // Recreate indexes
     db.run(`
-      DROP TABLE IF EXISTS streaming_sessions;
+      CREATE INDEX idx_observations_sdk_session ON observations(memory_session_id);
+      CREATE INDEX idx_observations_project ON observations(project);
+      CREATE INDEX idx_observations_type ON observations(type);
+      CREATE INDEX idx_observations_created ON observations(created_at_epoch DESC);
     `);
+
+    logger.debug('DB', 'Successfully made observations.text nullable');
   }
 };
 
 /**
- * Migration 004 - Add SDK agent architecture tables
- * Implements the refactor plan for hook-driven memory with SDK agent synthesis
+ * Create user_prompts table with FTS5 support
  */
-export const migration004: Migration = {
-  version: 4,
+export const migration010: Migration = {
+  version: 10,
+  name: 'user_prompts',
+  checksum: 'd7b9a24c4c4ea6cb70518d9128074ffc80c409b96d077046f5728f390d8b1eb7',
   up: (db: Database) => {
-    // SDK sessions table - tracks SDK streaming sessions
+    // Check if table already exists
+    const tableInfo = db.query('PRAGMA table_info(user_prompts)').all() as TableColumnInfo[];
+    if (tableInfo.length > 0) {
+      // Already migrated
+      return;
+    }
+
+    logger.debug('DB', 'Creating user_prompts table with FTS5 support');
+
+    // Create main table (using content_session_id since memory_session_id is set asynchronously by worker)
     db.run(`
-      CREATE TABLE IF NOT EXISTS sdk_sessions (
+      CREATE TABLE user_prompts (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_session_id TEXT UNIQUE NOT NULL,
-        memory_session_id TEXT UNIQUE,
-        project TEXT NOT NULL,
-        user_prompt TEXT,
-        started_at TEXT NOT NULL,
-        started_at_epoch INTEGER NOT NULL,
-        completed_at TEXT,
-        completed_at_epoch INTEGER,
-        status TEXT CHECK(status IN ('active', 'completed', 'failed')) NOT NULL DEFAULT 'active'
+        content_session_id TEXT NOT NULL,
+        prompt_number INTEGER NOT NULL,
+        prompt_text TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(content_session_id) REFERENCES sdk_sessions(content_session_id) ON DELETE CASCADE
       );
 
-      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_claude_id ON sdk_sessions(content_session_id);
-      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_sdk_id ON sdk_sessions(memory_session_id);
-      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_project ON sdk_sessions(project);
-      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_status ON sdk_sessions(status);
-      CREATE INDEX IF NOT EXISTS idx_sdk_sessions_started ON sdk_sessions(started_at_epoch DESC);
+      CREATE INDEX idx_user_prompts_claude_session ON user_prompts(content_session_id);
+      CREATE INDEX idx_user_prompts_created ON user_prompts(created_at_epoch DESC);
+      CREATE INDEX idx_user_prompts_prompt_number ON user_prompts(prompt_number);
+      CREATE INDEX idx_user_prompts_lookup ON user_prompts(content_session_id, prompt_number);
     `);
 
-    // Observation queue table - tracks pending observations for SDK processing
+    // Create FTS5 virtual table
     db.run(`
-      CREATE TABLE IF NOT EXISTS observation_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        tool_name TEXT NOT NULL,
-        tool_input TEXT NOT NULL,
-        tool_output TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        processed_at_epoch INTEGER,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
+      CREATE VIRTUAL TABLE user_prompts_fts USING fts5(
+        prompt_text,
+        content='user_prompts',
+        content_rowid='id'
       );
+    `);
+
+    // Create triggers to sync FTS5
+    db.run(`
+      CREATE TRIGGER user_prompts_ai AFTER INSERT ON user_prompts BEGIN
+        INSERT INTO user_prompts_fts(rowid, prompt_text)
+        VALUES (new.id, new.prompt_text);
+      END;
+
+      CREATE TRIGGER user_prompts_ad AFTER DELETE ON user_prompts BEGIN
+        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
+        VALUES('delete', old.id, old.prompt_text);
+      END;
 
-      CREATE INDEX IF NOT EXISTS idx_observation_queue_sdk_session ON observation_queue(memory_session_id);
-      CREATE INDEX IF NOT EXISTS idx_observation_queue_processed ON observation_queue(processed_at_epoch);
-      CREATE INDEX IF NOT EXISTS idx_observation_queue_pending ON observation_queue(memory_session_id, processed_at_epoch);
+      CREATE TRIGGER user_prompts_au AFTER UPDATE ON user_prompts BEGIN
+        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
+        VALUES('delete', old.id, old.prompt_text);
+        INSERT INTO user_prompts_fts(rowid, prompt_text)
+        VALUES (new.id, new.prompt_text);
+      END;
     `);
 
-    // Observations table - stores extracted observations (what SDK decides is important)
+    logger.debug('DB', 'Successfully created user_prompts table with FTS5 support');
+  }
+};
+
+/**
+ * Ensure discovery_tokens column exists
+ * CRITICAL: This migration was incorrectly using version 7 (which was already taken by removeSessionSummariesUniqueConstraint)
+ * The duplicate version number may have caused migration tracking issues in some databases
+ */
+export const migration011: Migration = {
+  version: 11,
+  name: 'discovery_tokens',
+  checksum: '399ce678fba7f7d178ebe4e817f8e713d25fd2533e882e32627d61d0877cb7a0',
+  up: (db: Database) => {
+    // Check if discovery_tokens column exists in observations table
+    const observationsInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const obsHasDiscoveryTokens = observationsInfo.some(col => col.name === 'discovery_tokens');
+
+    if (!obsHasDiscoveryTokens) {
+      db.run('ALTER TABLE observations ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added discovery_tokens column to observations table');
+    }
+
+    // Check if discovery_tokens column exists in session_summaries table
+    const summariesInfo = db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
+    const sumHasDiscoveryTokens = summariesInfo.some(col => col.name === 'discovery_tokens');
+
+    if (!sumHasDiscoveryTokens) {
+      db.run('ALTER TABLE session_summaries ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
+      logger.debug('DB', 'Added discovery_tokens column to session_summaries table');
+    }
+  }
+};
+
+/**
+ * Create pending_messages table for persistent work queue
+ * Messages are persisted before processing and deleted after success.
+ * Enables recovery from SDK hangs and worker crashes.
+ */
+export const migration016: Migration = {
+  version: 16,
+  name: 'pending_messages',
+  checksum: '5b04f67c8f35041f07e083d5e97c7f058564ea8f74ceef911184eaed2f7acb6b',
+  up: (db: Database) => {
+    // Check if table already exists
+    const tables = db.query("SELECT name FROM sqlite_master WHERE type='table' AND name='pending_messages'").all() as TableNameRow[];
+    if (tables.length > 0) {
+      return;
+    }
+
+    logger.debug('DB', 'Creating pending_messages table');
+
     db.run(`
-      CREATE TABLE IF NOT EXISTS observations (
+      CREATE TABLE pending_messages (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        project TEXT NOT NULL,
-        text TEXT NOT NULL,
-        type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery')),
-        created_at TEXT NOT NULL,
+        session_db_id INTEGER NOT NULL,
+        content_session_id TEXT NOT NULL,
+        message_type TEXT NOT NULL CHECK(message_type IN ('observation', 'summarize')),
+        tool_name TEXT,
+        tool_input TEXT,
+        tool_response TEXT,
+        cwd TEXT,
+        last_user_message TEXT,
+        last_assistant_message TEXT,
+        prompt_number INTEGER,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'processed', 'failed')),
+        retry_count INTEGER NOT NULL DEFAULT 0,
         created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_observations_sdk_session ON observations(memory_session_id);
-      CREATE INDEX IF NOT EXISTS idx_observations_project ON observations(project);
-      CREATE INDEX IF NOT EXISTS idx_observations_type ON observations(type);
-      CREATE INDEX IF NOT EXISTS idx_observations_created ON observations(created_at_epoch DESC);
+        started_processing_at_epoch INTEGER,
+        completed_at_epoch INTEGER,
+        FOREIGN KEY (session_db_id) REFERENCES sdk_sessions(id) ON DELETE CASCADE
+      )
     `);
 
-    // Session summaries table - stores structured session summaries
+    db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_session ON pending_messages(session_db_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_status ON pending_messages(status)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_claude_session ON pending_messages(content_session_id)');
+
+    logger.debug('DB', 'pending_messages table created successfully');
+  }
+};
+
+/**
+ * Rename session ID columns for semantic clarity
+ * - claude_session_id -> content_session_id (user's observed session)
+ * - sdk_session_id -> memory_session_id (memory agent's session for resume)
+ * IDEMPOTENT: Checks each table individually before renaming.
+ * This handles databases in any intermediate state (partial migration, fresh install, etc.)
+ */
+export const migration017: Migration = {
+  version: 17,
+  name: 'rename_session_id_columns',
+  checksum: '97ac6fdfd05719777cf144b6780fd821c96ed7e2490fbe9747d6c173a2a4d7b6',
+  up: (db: Database) => {
+    logger.debug('DB', 'Checking session ID columns for semantic clarity rename');
+
+    let renamesPerformed = 0;
+
+    // Helper to safely rename a column if it exists
+    const safeRenameColumn = (table: string, oldCol: string, newCol: string): boolean => {
+      const tableInfo = db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+      const hasOldCol = tableInfo.some(col => col.name === oldCol);
+      const hasNewCol = tableInfo.some(col => col.name === newCol);
+
+      if (hasNewCol) {
+        // Already renamed, nothing to do
+        return false;
+      }
+
+      if (hasOldCol) {
+        // SQLite 3.25+ supports ALTER TABLE RENAME COLUMN
+        db.run(`ALTER TABLE ${table} RENAME COLUMN ${oldCol} TO ${newCol}`);
+        logger.debug('DB', `Renamed ${table}.${oldCol} to ${newCol}`);
+        return true;
+      }
+
+      // Neither column exists - table might not exist or has different schema
+      logger.warn('DB', `Column ${oldCol} not found in ${table}, skipping rename`);
+      return false;
+    };
+
+    // Rename in sdk_sessions table
+    if (safeRenameColumn('sdk_sessions', 'claude_session_id', 'content_session_id')) renamesPerformed++;
+    if (safeRenameColumn('sdk_sessions', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
+
+    // Rename in pending_messages table
+    if (safeRenameColumn('pending_messages', 'claude_session_id', 'content_session_id')) renamesPerformed++;
+
+    // Rename in observations table
+    if (safeRenameColumn('observations', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
+
+    // Rename in session_summaries table
+    if (safeRenameColumn('session_summaries', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
+
+    // Rename in user_prompts table
+    if (safeRenameColumn('user_prompts', 'claude_session_id', 'content_session_id')) renamesPerformed++;
+
+    if (renamesPerformed > 0) {
+      logger.debug('DB', `Successfully renamed ${renamesPerformed} session ID columns`);
+    } else {
+      logger.debug('DB', 'No session ID column renames needed (already up to date)');
+    }
+  }
+};
+
+/**
+ * Repair session ID column renames
+ * DEPRECATED: Migration 17 is now fully idempotent and handles all cases.
+ * This migration is kept for backwards compatibility but does nothing.
+ */
+export const migration019: Migration = {
+  version: 19,
+  name: 'repair_session_id_rename',
+  checksum: '95f2c38f1c5302e8f86d6b610a9e0d2833209db7c4e8861916f0bf2dbb42e9a1',
+  up: () => {
+    // Migration 17 now handles all column rename cases idempotently.
+    // Just record this migration as applied.
+  }
+};
+
+/**
+ * Add failed_at_epoch column to pending_messages
+ * Used by markSessionMessagesFailed() for error recovery tracking
+ */
+export const migration020: Migration = {
+  version: 20,
+  name: 'pending_messages_failed_at',
+  checksum: 'db96b69c57cc9a9d31fbfd8bff7d898fa4862171807da29c07dfd4f2b5fcce82',
+  up: (db: Database) => {
+    const tableInfo = db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
+    const hasColumn = tableInfo.some(col => col.name === 'failed_at_epoch');
+
+    if (!hasColumn) {
+      db.run('ALTER TABLE pending_messages ADD COLUMN failed_at_epoch INTEGER');
+      logger.debug('DB', 'Added failed_at_epoch column to pending_messages table');
+    }
+  },
+  down: (db: Database) => {
+    dropColumns(db, 'pending_messages', ['failed_at_epoch']);
+  }
+};
+
+/**
+ * Create observation_vectors table for the in-process vector backend
+ * Stores one embedding per granular document (narrative, fact, summary field, prompt)
+ * so semantic search works without the Chroma MCP subprocess.
+ */
+export const migration021: Migration = {
+  version: 21,
+  name: 'observation_vectors',
+  checksum: '65c497ce7d409f0df6ded5c4de9989abec19fbab90e23f5d39d06675727f3ac4',
+  up: (db: Database) => {
+    logger.debug('DB', 'Creating observation_vectors table');
+
     db.run(`
-      CREATE TABLE IF NOT EXISTS session_summaries (
+      CREATE TABLE IF NOT EXISTS observation_vectors (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT UNIQUE NOT NULL,
+        doc_id TEXT NOT NULL,
+        collection TEXT NOT NULL,
+        sqlite_id INTEGER NOT NULL,
+        doc_type TEXT NOT NULL CHECK(doc_type IN ('observation', 'session_summary', 'user_prompt')),
         project TEXT NOT NULL,
-        request TEXT,
-        investigated TEXT,
-        learned TEXT,
-        completed TEXT,
-        next_steps TEXT,
-        files_read TEXT,
-        files_edited TEXT,
-        notes TEXT,
-        created_at TEXT NOT NULL,
         created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX IF NOT EXISTS idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
-      CREATE INDEX IF NOT EXISTS idx_session_summaries_project ON session_summaries(project);
-      CREATE INDEX IF NOT EXISTS idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
+        metadata TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        embedder TEXT NOT NULL,
+        dimensions INTEGER NOT NULL,
+        UNIQUE(collection, doc_id)
+      )
     `);
 
-    console.log('✅ Created SDK agent architecture tables');
-  },
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_vectors_collection ON observation_vectors(collection, doc_type)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_vectors_source ON observation_vectors(doc_type, sqlite_id)');
 
+    logger.debug('DB', 'observation_vectors table created successfully');
+  },
   down: (db: Database) => {
-    db.run(`
-      DROP TABLE IF EXISTS session_summaries;
-      DROP TABLE IF EXISTS observations;
-      DROP TABLE IF EXISTS observation_queue;
-      DROP TABLE IF EXISTS sdk_sessions;
-    `);
+    db.run('DROP TABLE IF EXISTS observation_vectors');
   }
 };
 
 /**
- * Migration 005 - Remove orphaned tables
- * Drops streaming_sessions (superseded by sdk_sessions)
- * Drops observation_queue (superseded by Unix socket communication)
+ * Add superseded_by column to observations
+ * Set by the consolidation job on originals that were merged into a newer
+ * observation, so they drop out of context injection but stay auditable.
  */
-export const migration005: Migration = {
-  version: 5,
+export const migration022: Migration = {
+  version: 22,
+  name: 'observations_superseded_by',
+  checksum: 'ec45c78b9e39e8a4230697d4fce93b94716fade2f20b5a054acc50d177423f02',
   up: (db: Database) => {
-    // Drop streaming_sessions - superseded by sdk_sessions in migration004
-    // This table was from v2 architecture and is no longer used
-    db.run(`DROP TABLE IF EXISTS streaming_sessions`);
+    const tableInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const hasColumn = tableInfo.some(col => col.name === 'superseded_by');
 
-    // Drop observation_queue - superseded by Unix socket communication
-    // Worker now uses sockets instead of database polling for observations
-    db.run(`DROP TABLE IF EXISTS observation_queue`);
+    if (!hasColumn) {
+      db.run('ALTER TABLE observations ADD COLUMN superseded_by INTEGER');
+      logger.debug('DB', 'Added superseded_by column to observations table');
+    }
 
-    console.log('✅ Dropped orphaned tables: streaming_sessions, observation_queue');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observations_superseded_by ON observations(superseded_by)');
   },
-
   down: (db: Database) => {
-    // Recreate tables if needed (though they should never be used)
+    db.run('DROP INDEX IF EXISTS idx_observations_superseded_by');
+    dropColumns(db, 'observations', ['superseded_by']);
+  }
+};
+
+/**
+ * Create observation_links table
+ * Directed relationships between observations (supersedes, contradicts,
+ * depends-on, follows-up) so history can be walked as a graph.
+ */
+export const migration023: Migration = {
+  version: 23,
+  name: 'observation_links',
+  checksum: '4f5c56dc6981b468974eff6fc02b2796051c2ca6110a4d3bf2704ee5854b652e',
+  up: (db: Database) => {
+    logger.debug('DB', 'Creating observation_links table');
+
     db.run(`
-      CREATE TABLE IF NOT EXISTS streaming_sessions (
+      CREATE TABLE IF NOT EXISTS observation_links (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_session_id TEXT UNIQUE NOT NULL,
-        memory_session_id TEXT,
-        project TEXT NOT NULL,
-        title TEXT,
-        subtitle TEXT,
-        user_prompt TEXT,
-        started_at TEXT NOT NULL,
-        started_at_epoch INTEGER NOT NULL,
-        updated_at TEXT,
-        updated_at_epoch INTEGER,
-        completed_at TEXT,
-        completed_at_epoch INTEGER,
-        status TEXT NOT NULL DEFAULT 'active'
+        from_id INTEGER NOT NULL,
+        to_id INTEGER NOT NULL,
+        kind TEXT NOT NULL CHECK(kind IN ('supersedes', 'contradicts', 'depends-on', 'follows-up')),
+        created_at_epoch INTEGER NOT NULL,
+        UNIQUE(from_id, to_id, kind),
+        FOREIGN KEY(from_id) REFERENCES observations(id) ON DELETE CASCADE,
+        FOREIGN KEY(to_id) REFERENCES observations(id) ON DELETE CASCADE
       )
     `);
 
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_links_from ON observation_links(from_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_links_to ON observation_links(to_id)');
+
+    logger.debug('DB', 'observation_links table created successfully');
+  },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS observation_links');
+  }
+};
+
+/**
+ * Add git capture columns and observation_commits table
+ * Observations record the HEAD sha and dirty state at capture time; the
+ * commit reconciler later maps them to the commits that contained their changes.
+ */
+export const migration024: Migration = {
+  version: 24,
+  name: 'observation_git_columns',
+  checksum: '190ca09440c8154d52195243eef72052e8a16d89d93c6feb82bc41b2fd83ea91',
+  up: (db: Database) => {
+    for (const table of ['observations', 'pending_messages']) {
+      const tableInfo = db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+      if (!tableInfo.some(col => col.name === 'git_head_sha')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN git_head_sha TEXT`);
+      }
+      if (!tableInfo.some(col => col.name === 'git_dirty')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN git_dirty INTEGER`);
+      }
+      logger.debug('DB', `Added git capture columns to ${table} table`);
+    }
+
     db.run(`
-      CREATE TABLE IF NOT EXISTS observation_queue (
+      CREATE TABLE IF NOT EXISTS observation_commits (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        tool_name TEXT NOT NULL,
-        tool_input TEXT NOT NULL,
-        tool_output TEXT NOT NULL,
+        observation_id INTEGER NOT NULL,
+        commit_sha TEXT NOT NULL,
         created_at_epoch INTEGER NOT NULL,
-        processed_at_epoch INTEGER,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
+        UNIQUE(observation_id, commit_sha),
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE CASCADE
       )
     `);
 
-    console.log('⚠️  Recreated streaming_sessions and observation_queue (for rollback only)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_commits_sha ON observation_commits(commit_sha)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observations_git_head_sha ON observations(git_head_sha)');
+  },
+  down: (db: Database) => {
+    db.run('DROP INDEX IF EXISTS idx_observations_git_head_sha');
+    db.run('DROP TABLE IF EXISTS observation_commits');
+    dropColumns(db, 'observations', ['git_head_sha', 'git_dirty']);
+    dropColumns(db, 'pending_messages', ['git_head_sha', 'git_dirty']);
   }
 };
 
 /**
- * Migration 006 - Add FTS5 full-text search tables
- * Creates virtual tables for fast text search on observations and session_summaries
+ * Add file hash and staleness columns to observations
+ * file_hashes records referenced file contents at capture time; staleness is
+ * refreshed at context injection when those files change or disappear.
  */
-export const migration006: Migration = {
-  version: 6,
+export const migration025: Migration = {
+  version: 25,
+  name: 'observation_staleness',
+  checksum: '922b1a3ae6f7e9bc89f44ecefe071d54679b6d52b1eb5f43dc33fa1988a8d5be',
+  up: (db: Database) => {
+    const tableInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    const columns = new Set(tableInfo.map(col => col.name));
+
+    if (!columns.has('file_hashes')) {
+      db.run('ALTER TABLE observations ADD COLUMN file_hashes TEXT');
+    }
+    if (!columns.has('staleness')) {
+      db.run('ALTER TABLE observations ADD COLUMN staleness TEXT');
+    }
+    if (!columns.has('staleness_checked_at_epoch')) {
+      db.run('ALTER TABLE observations ADD COLUMN staleness_checked_at_epoch INTEGER');
+    }
+    logger.debug('DB', 'Added file_hashes and staleness columns to observations table');
+  },
+  down: (db: Database) => {
+    dropColumns(db, 'observations', ['file_hashes', 'staleness', 'staleness_checked_at_epoch']);
+  }
+};
+
+/**
+ * Create favorites, tags and observation_tags tables
+ * Tables may already exist from the retired /migrations SQL files, so
+ * missing columns are added rather than recreating them.
+ */
+export const migration026: Migration = {
+  version: 26,
+  name: 'favorites_and_tags',
+  checksum: '817c922ba69879338669f156ef89c68d000273627d4820bcc1323a47569b4f04',
   up: (db: Database) => {
-    // FTS5 virtual table for observations
-    // Note: This assumes the hierarchical fields (title, subtitle, etc.) already exist
-    // from the inline migrations in SessionStore constructor
     db.run(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS observations_fts USING fts5(
-        title,
-        subtitle,
-        narrative,
-        text,
-        facts,
-        concepts,
-        content='observations',
-        content_rowid='id'
-      );
+      CREATE TABLE IF NOT EXISTS favorites (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        observation_id INTEGER NOT NULL UNIQUE,
+        note TEXT,
+        pinned INTEGER NOT NULL DEFAULT 0,
+        created_at_epoch INTEGER NOT NULL DEFAULT 0,
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE CASCADE
+      )
     `);
 
-    // Populate FTS table with existing data
     db.run(`
-      INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-      SELECT id, title, subtitle, narrative, text, facts, concepts
-      FROM observations;
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        color TEXT NOT NULL DEFAULT '#6b7280',
+        description TEXT,
+        created_at_epoch INTEGER NOT NULL DEFAULT 0
+      )
     `);
 
-    // Triggers to keep observations_fts in sync
     db.run(`
-      CREATE TRIGGER IF NOT EXISTS observations_ai AFTER INSERT ON observations BEGIN
-        INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES (new.id, new.title, new.subtitle, new.narrative, new.text, new.facts, new.concepts);
-      END;
+      CREATE TABLE IF NOT EXISTS observation_tags (
+        observation_id INTEGER NOT NULL,
+        tag_id INTEGER NOT NULL,
+        created_at_epoch INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY(observation_id, tag_id),
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE CASCADE,
+        FOREIGN KEY(tag_id) REFERENCES tags(id) ON DELETE CASCADE
+      )
+    `);
 
-      CREATE TRIGGER IF NOT EXISTS observations_ad AFTER DELETE ON observations BEGIN
-        INSERT INTO observations_fts(observations_fts, rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES('delete', old.id, old.title, old.subtitle, old.narrative, old.text, old.facts, old.concepts);
-      END;
+    const favoriteColumns = new Set((db.query('PRAGMA table_info(favorites)').all() as TableColumnInfo[]).map(col => col.name));
+    if (!favoriteColumns.has('pinned')) {
+      db.run('ALTER TABLE favorites ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0');
+    }
+    if (!favoriteColumns.has('created_at_epoch')) {
+      db.run('ALTER TABLE favorites ADD COLUMN created_at_epoch INTEGER NOT NULL DEFAULT 0');
+    }
+    for (const table of ['tags', 'observation_tags']) {
+      const columns = db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+      if (!columns.some(col => col.name === 'created_at_epoch')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN created_at_epoch INTEGER NOT NULL DEFAULT 0`);
+      }
+    }
 
-      CREATE TRIGGER IF NOT EXISTS observations_au AFTER UPDATE ON observations BEGIN
-        INSERT INTO observations_fts(observations_fts, rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES('delete', old.id, old.title, old.subtitle, old.narrative, old.text, old.facts, old.concepts);
-        INSERT INTO observations_fts(rowid, title, subtitle, narrative, text, facts, concepts)
-        VALUES (new.id, new.title, new.subtitle, new.narrative, new.text, new.facts, new.concepts);
-      END;
-    `);
+    db.run('CREATE INDEX IF NOT EXISTS idx_favorites_pinned ON favorites(pinned) WHERE pinned = 1');
+    db.run('CREATE INDEX IF NOT EXISTS idx_observation_tags_tag ON observation_tags(tag_id)');
+    logger.debug('DB', 'Created favorites and tags tables');
+  },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS observation_tags');
+    db.run('DROP TABLE IF EXISTS tags');
+    db.run('DROP TABLE IF EXISTS favorites');
+  }
+};
 
-    // FTS5 virtual table for session_summaries
+const PROJECTED_TABLES: FtsTable[] = ['observations', 'session_summaries', 'user_prompts'];
+
+/**
+ * Add search_projection to FTS-indexed tables and make the FTS triggers index it
+ * Rows written with encryption enabled store ciphertext in their sensitive
+ * columns; FTS indexes the projection instead (see FtsTriggers.ts).
+ */
+export const migration027: Migration = {
+  version: 27,
+  name: 'encrypted_search_projection',
+  checksum: '1b3a3d793bcafc52dd39deb266c64f7619030b445aa88f7a4b7147919cd56daa',
+  up: (db: Database) => {
+    for (const table of PROJECTED_TABLES) {
+      const tableInfo = db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
+      if (!tableInfo.some(col => col.name === 'search_projection')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN search_projection TEXT`);
+      }
+      if (hasFtsIndex(db, table)) {
+        createFtsTriggers(db, table);
+      }
+    }
+    logger.debug('DB', 'Added search_projection columns and projection-aware FTS triggers');
+  },
+  down: (db: Database) => {
+    for (const table of PROJECTED_TABLES) {
+      const projected = db.query(`SELECT COUNT(*) as count FROM ${table} WHERE search_projection IS NOT NULL`).get() as { count: number };
+      if (projected.count > 0) {
+        throw new Error(`${table} has encrypted rows; run scripts/rekey.ts --decrypt before reverting`);
+      }
+    }
+    for (const table of PROJECTED_TABLES) {
+      if (hasFtsIndex(db, table)) {
+        createFtsTriggers(db, table, false);
+      }
+      dropColumns(db, table, ['search_projection']);
+    }
+  }
+};
+
+/**
+ * Create session_redactions table
+ * Hooks redact secrets before anything reaches the worker and report how many
+ * matches of each kind they replaced, per session.
+ */
+export const migration028: Migration = {
+  version: 28,
+  name: 'session_redactions',
+  checksum: 'e4ec8208baf840241fc69400fa733f9af7414fe2453afb1e64d14a84e4ea0e17',
+  up: (db: Database) => {
     db.run(`
-      CREATE VIRTUAL TABLE IF NOT EXISTS session_summaries_fts USING fts5(
-        request,
-        investigated,
-        learned,
-        completed,
-        next_steps,
-        notes,
-        content='session_summaries',
-        content_rowid='id'
-      );
+      CREATE TABLE IF NOT EXISTS session_redactions (
+        content_session_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        updated_at_epoch INTEGER NOT NULL,
+        PRIMARY KEY(content_session_id, kind)
+      )
     `);
+    db.run('CREATE INDEX IF NOT EXISTS idx_session_redactions_updated ON session_redactions(updated_at_epoch DESC)');
+    logger.debug('DB', 'Created session_redactions table');
+  },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS session_redactions');
+  }
+};
 
-    // Populate FTS table with existing data
+/**
+ * Create policy_suppressions table
+ * Records tool uses a privacy policy kept out of (or truncated in) observations,
+ * with the rule and policy file responsible, for the viewer.
+ */
+export const migration029: Migration = {
+  version: 29,
+  name: 'policy_suppressions',
+  checksum: 'b3d55131e132d3f13e985f79d905c8763e98f841af4147f9d77a570eec7ca013',
+  up: (db: Database) => {
     db.run(`
-      INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-      SELECT id, request, investigated, learned, completed, next_steps, notes
-      FROM session_summaries;
+      CREATE TABLE IF NOT EXISTS policy_suppressions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        content_session_id TEXT NOT NULL,
+        project TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('ignore_tool', 'ignore_path', 'summaries_only', 'truncate')),
+        rule TEXT NOT NULL,
+        source TEXT NOT NULL,
+        target TEXT NOT NULL,
+        created_at_epoch INTEGER NOT NULL
+      )
     `);
+    db.run('CREATE INDEX IF NOT EXISTS idx_policy_suppressions_project ON policy_suppressions(project, created_at_epoch DESC)');
+    logger.debug('DB', 'Created policy_suppressions table');
+  },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS policy_suppressions');
+  }
+};
+
+/**
+ * Record the mode each session was observed in, so its observations are
+ * parsed and rendered with that mode even after the project switches modes
+ */
+export const migration030: Migration = {
+  version: 30,
+  name: 'sdk_sessions_mode_id',
+  checksum: '5ddffb7674323a120b55536b8334fa9d6c9884aaf71eab87c31d82c31cda925f',
+  up: (db: Database) => {
+    const tableInfo = db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
+    if (!tableInfo.some(col => col.name === 'mode_id')) {
+      db.run('ALTER TABLE sdk_sessions ADD COLUMN mode_id TEXT');
+      logger.debug('DB', 'Added mode_id column to sdk_sessions table');
+    }
+  },
+  down: (db: Database) => {
+    dropColumns(db, 'sdk_sessions', ['mode_id']);
+  }
+};
 
-    // Triggers to keep session_summaries_fts in sync
+/**
+ * Create reprocessing tables
+ * A reprocess run replays historical sessions through the current agent into a
+ * staging generation; applying it swaps the staged observations in and keeps
+ * the replaced rows (with their favorites, tags, links and commits) so the
+ * swap can be rolled back.
+ */
+export const migration031: Migration = {
+  version: 31,
+  name: 'reprocess_generations',
+  checksum: '481fd6bab6276dd92526cb54d897f72820818c313b21c6f2f075c97d52448b33',
+  up: (db: Database) => {
     db.run(`
-      CREATE TRIGGER IF NOT EXISTS session_summaries_ai AFTER INSERT ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps, new.notes);
-      END;
+      CREATE TABLE IF NOT EXISTS reprocess_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        project TEXT NOT NULL,
+        mode_id TEXT,
+        provider TEXT,
+        status TEXT NOT NULL DEFAULT 'replaying' CHECK(status IN ('replaying', 'staged', 'failed', 'applied', 'rolled_back', 'discarded')),
+        error TEXT,
+        created_at_epoch INTEGER NOT NULL,
+        completed_at_epoch INTEGER,
+        applied_at_epoch INTEGER,
+        rolled_back_at_epoch INTEGER
+      )
+    `);
 
-      CREATE TRIGGER IF NOT EXISTS session_summaries_ad AFTER DELETE ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(session_summaries_fts, rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps, old.notes);
-      END;
+    db.run(`
+      CREATE TABLE IF NOT EXISTS reprocess_sessions (
+        run_id INTEGER NOT NULL,
+        source_session_id INTEGER NOT NULL,
+        memory_session_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'replaying', 'staged', 'failed')),
+        events INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        PRIMARY KEY(run_id, source_session_id),
+        FOREIGN KEY(run_id) REFERENCES reprocess_runs(id) ON DELETE CASCADE,
+        FOREIGN KEY(source_session_id) REFERENCES sdk_sessions(id) ON DELETE CASCADE
+      )
+    `);
 
-      CREATE TRIGGER IF NOT EXISTS session_summaries_au AFTER UPDATE ON session_summaries BEGIN
-        INSERT INTO session_summaries_fts(session_summaries_fts, rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES('delete', old.id, old.request, old.investigated, old.learned, old.completed, old.next_steps, old.notes);
-        INSERT INTO session_summaries_fts(rowid, request, investigated, learned, completed, next_steps, notes)
-        VALUES (new.id, new.request, new.investigated, new.learned, new.completed, new.next_steps, new.notes);
-      END;
+    db.run(`
+      CREATE TABLE IF NOT EXISTS reprocess_observations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id INTEGER NOT NULL,
+        generation TEXT NOT NULL CHECK(generation IN ('staged', 'previous')),
+        memory_session_id TEXT NOT NULL,
+        observation_id INTEGER,
+        row_json TEXT NOT NULL,
+        dependents_json TEXT,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(run_id) REFERENCES reprocess_runs(id) ON DELETE CASCADE
+      )
     `);
 
-    console.log('✅ Created FTS5 virtual tables and triggers for full-text search');
+    db.run('CREATE INDEX IF NOT EXISTS idx_reprocess_runs_project ON reprocess_runs(project, created_at_epoch DESC)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_reprocess_observations_run ON reprocess_observations(run_id, generation)');
+    logger.debug('DB', 'Created reprocess_runs, reprocess_sessions and reprocess_observations tables');
   },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS reprocess_observations');
+    db.run('DROP TABLE IF EXISTS reprocess_sessions');
+    db.run('DROP TABLE IF EXISTS reprocess_runs');
+  }
+};
+
+/**
+ * Add chat namespace columns
+ * Sessions from chat integrations are bound to a channel and user; their
+ * observations copy that namespace plus the scope (user, channel or global)
+ * they are shared at. Claude Code sessions leave all of them NULL.
+ */
+export const migration032: Migration = {
+  version: 32,
+  name: 'memory_namespaces',
+  checksum: '14df3ff12be5c7288d27bf3d19de87400b0fc0eeb4c95a044aa4696aacef3a46',
+  up: (db: Database) => {
+    const sessionColumns = new Set((db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[]).map(col => col.name));
+    for (const column of ['namespace_channel', 'namespace_user', 'namespace_user_name']) {
+      if (!sessionColumns.has(column)) {
+        db.run(`ALTER TABLE sdk_sessions ADD COLUMN ${column} TEXT`);
+      }
+    }
 
+    const observationColumns = new Set((db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[]).map(col => col.name));
+    for (const column of ['namespace_channel', 'namespace_user']) {
+      if (!observationColumns.has(column)) {
+        db.run(`ALTER TABLE observations ADD COLUMN ${column} TEXT`);
+      }
+    }
+    if (!observationColumns.has('namespace_scope')) {
+      db.run("ALTER TABLE observations ADD COLUMN namespace_scope TEXT CHECK(namespace_scope IN ('user', 'channel', 'global'))");
+    }
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_observations_namespace ON observations(project, namespace_channel, namespace_user)');
+    logger.debug('DB', 'Added namespace columns to sdk_sessions and observations tables');
+  },
   down: (db: Database) => {
-    db.run(`
-      DROP TRIGGER IF EXISTS observations_au;
-      DROP TRIGGER IF EXISTS observations_ad;
-      DROP TRIGGER IF EXISTS observations_ai;
-      DROP TABLE IF EXISTS observations_fts;
-
-      DROP TRIGGER IF EXISTS session_summaries_au;
-      DROP TRIGGER IF EXISTS session_summaries_ad;
-      DROP TRIGGER IF EXISTS session_summaries_ai;
-      DROP TABLE IF EXISTS session_summaries_fts;
-    `);
+    db.run('DROP INDEX IF EXISTS idx_observations_namespace');
+    dropColumns(db, 'observations', ['namespace_channel', 'namespace_user', 'namespace_scope']);
+    dropColumns(db, 'sdk_sessions', ['namespace_channel', 'namespace_user', 'namespace_user_name']);
   }
 };
 
 /**
- * Migration 007 - Add discovery_tokens column for ROI metrics
- * Tracks token cost of discovering/creating each observation and summary
+ * Create MoltBook publishing tables
+ * Observations and summaries shared as MoltBook posts record the post ID;
+ * replies to a post are synced back once each, as observations of a
+ * per-post session.
  */
-export const migration007: Migration = {
-  version: 7,
+export const migration033: Migration = {
+  version: 33,
+  name: 'moltbook_publishing',
+  checksum: 'cfb8407dbbdc9ff03378abbc3416fc832a362f5f3c5e40d5a66e6871fbe94085',
   up: (db: Database) => {
-    // Add discovery_tokens to observations table
-    db.run(`ALTER TABLE observations ADD COLUMN discovery_tokens INTEGER DEFAULT 0`);
+    for (const table of ['observations', 'session_summaries']) {
+      const columns = new Set((db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[]).map(col => col.name));
+      if (!columns.has('moltbook_post_id')) {
+        db.run(`ALTER TABLE ${table} ADD COLUMN moltbook_post_id TEXT`);
+      }
+    }
 
-    // Add discovery_tokens to session_summaries table
-    db.run(`ALTER TABLE session_summaries ADD COLUMN discovery_tokens INTEGER DEFAULT 0`);
+    db.run(`
+      CREATE TABLE IF NOT EXISTS moltbook_posts (
+        post_id TEXT PRIMARY KEY,
+        project TEXT NOT NULL,
+        submolt TEXT NOT NULL,
+        title TEXT NOT NULL,
+        published_at_epoch INTEGER NOT NULL,
+        comments_synced_at_epoch INTEGER
+      )
+    `);
 
-    console.log('✅ Added discovery_tokens columns for ROI tracking');
+    db.run(`
+      CREATE TABLE IF NOT EXISTS moltbook_comments (
+        comment_id TEXT PRIMARY KEY,
+        post_id TEXT NOT NULL,
+        observation_id INTEGER,
+        author TEXT,
+        created_at_epoch INTEGER NOT NULL,
+        FOREIGN KEY(post_id) REFERENCES moltbook_posts(post_id) ON DELETE CASCADE,
+        FOREIGN KEY(observation_id) REFERENCES observations(id) ON DELETE SET NULL
+      )
+    `);
+
+    db.run('CREATE INDEX IF NOT EXISTS idx_observations_moltbook_post ON observations(moltbook_post_id)');
+    db.run('CREATE INDEX IF NOT EXISTS idx_moltbook_posts_project ON moltbook_posts(project, published_at_epoch DESC)');
+    logger.debug('DB', 'Created moltbook_posts and moltbook_comments tables');
   },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS moltbook_comments');
+    db.run('DROP TABLE IF EXISTS moltbook_posts');
+    db.run('DROP INDEX IF EXISTS idx_observations_moltbook_post');
+    dropColumns(db, 'session_summaries', ['moltbook_post_id']);
+    dropColumns(db, 'observations', ['moltbook_post_id']);
+  }
+};
 
+/**
+ * Count commit reconciliation attempts per observation
+ * Observations whose changes never reach a commit (or whose base commit was
+ * rebased away) stop being retried after a bounded number of passes.
+ */
+export const migration034: Migration = {
+  version: 34,
+  name: 'observation_commit_reconcile_attempts',
+  checksum: 'c922d4c49321744e0422ec2e53ad2c5e1e035ca296601dfbe9b34d0ceef54136',
+  up: (db: Database) => {
+    const tableInfo = db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
+    if (!tableInfo.some(col => col.name === 'commit_reconcile_attempts')) {
+      db.run('ALTER TABLE observations ADD COLUMN commit_reconcile_attempts INTEGER NOT NULL DEFAULT 0');
+      logger.debug('DB', 'Added commit_reconcile_attempts column to observations table');
+    }
+  },
   down: (db: Database) => {
-    // Note: SQLite doesn't support DROP COLUMN in all versions
-    // In production, would need to recreate tables without these columns
-    console.log('⚠️  Warning: SQLite ALTER TABLE DROP COLUMN not fully supported');
-    console.log('⚠️  To rollback, manually recreate the observations and session_summaries tables');
+    dropColumns(db, 'observations', ['commit_reconcile_attempts']);
   }
 };
 
+/**
+ * Observations shown in a session's SessionStart context
+ * Prompt context leaves them out so a session is not told the same thing
+ * twice. Sessions are keyed by content session ID because SessionStart runs
+ * before the session row exists.
+ */
+export const migration035: Migration = {
+  version: 35,
+  name: 'context_injections',
+  checksum: '59ed2304043552fd59c028f5c7c794e4dde577a428a943500f30aa93a2f606b0',
+  up: (db: Database) => {
+    db.run(`
+      CREATE TABLE IF NOT EXISTS context_injections (
+        content_session_id TEXT NOT NULL,
+        observation_id INTEGER NOT NULL,
+        injected_at_epoch INTEGER NOT NULL,
+        PRIMARY KEY (content_session_id, observation_id)
+      )
+    `);
+    db.run('CREATE INDEX IF NOT EXISTS idx_context_injections_injected ON context_injections(injected_at_epoch)');
+    logger.debug('DB', 'Created context_injections table');
+  },
+  down: (db: Database) => {
+    db.run('DROP TABLE IF EXISTS context_injections');
+  }
+};
 
 /**
  * All migrations in order
  */
 export const migrations: Migration[] = [
-  migration001,
-  migration002,
-  migration003,
   migration004,
   migration005,
   migration006,
-  migration007
-];
\ No newline at end of file
+  migration007,
+  migration008,
+  migration009,
+  migration010,
+  migration011,
+  migration016,
+  migration017,
+  migration019,
+  migration020,
+  migration021,
+  migration022,
+  migration023,
+  migration024,
+  migration025,
+  migration026,
+  migration027,
+  migration028,
+  migration029,
+  migration030,
+  migration031,
+  migration032,
+  migration033,
+  migration034,
+  migration035
+];
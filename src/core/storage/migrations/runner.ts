@@ -1,631 +1,242 @@
 import { Database } from 'bun:sqlite';
 import { logger } from '../../../utils/logger.js';
-import {
-  TableColumnInfo,
-  IndexInfo,
-  TableNameRow,
-  SchemaVersion
-} from '../../../types/database.js';
+import { TableColumnInfo } from '../../../types/database.js';
+import { migrations as tsMigrations } from '../migrations.js';
+import { checksumOf, getSqlMigrationsDir, loadSqlMigrations } from './sql-loader.js';
+import type { Migration } from './types.js';
+
+export interface MigrationRunnerOptions {
+  /** TypeScript migrations to run; defaults to storage/migrations.ts */
+  migrations?: Migration[];
+  /** Directory of NNN_name.sql migrations; null disables SQL migrations */
+  sqlDir?: string | null;
+}
 
 /**
- * MigrationRunner handles all database schema migrations
- * Extracted from SessionStore to separate concerns
+ * applied: recorded and matching; pending: not yet applied;
+ * drifted: recorded checksum differs from the code;
+ * unknown: recorded by a newer build (checksum present, no matching migration);
+ * legacy: recorded before checksums existed and since retired (ignored)
  */
-export class MigrationRunner {
-  constructor(private db: Database) {}
+export type MigrationState = 'applied' | 'pending' | 'drifted' | 'unknown' | 'legacy';
+
+export interface MigrationStatus {
+  version: number;
+  name: string | null;
+  state: MigrationState;
+  appliedAt: string | null;
+  reversible: boolean;
+}
 
-  /**
-   * Run all migrations in order
-   * This is the only public method - all migrations are internal
-   */
-  runAllMigrations(): void {
-    this.initializeSchema();
-    this.ensureWorkerPortColumn();
-    this.ensurePromptTrackingColumns();
-    this.removeSessionSummariesUniqueConstraint();
-    this.addObservationHierarchicalFields();
-    this.makeObservationsTextNullable();
-    this.createUserPromptsTable();
-    this.ensureDiscoveryTokensColumn();
-    this.createPendingMessagesTable();
-    this.renameSessionIdColumns();
-    this.repairSessionIdColumnRename();
-    this.addFailedAtEpochColumn();
+interface SchemaVersionRow {
+  version: number;
+  name: string | null;
+  checksum: string | null;
+  applied_at: string;
+}
+
+/**
+ * Thrown when schema_versions does not match the known migrations. The
+ * database is left untouched; run `migrate verify` to see the problems.
+ */
+export class MigrationDriftError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Database schema has drifted from known migrations:\n  ${problems.join('\n  ')}`);
+    this.name = 'MigrationDriftError';
   }
+}
 
-  /**
-   * Initialize database schema using migrations (migration004)
-   * This runs the core SDK tables migration if no tables exist
-   */
-  private initializeSchema(): void {
-    // Create schema_versions table if it doesn't exist
-    this.db.run(`
-      CREATE TABLE IF NOT EXISTS schema_versions (
-        id INTEGER PRIMARY KEY,
-        version INTEGER UNIQUE NOT NULL,
-        applied_at TEXT NOT NULL
-      )
-    `);
+/**
+ * MigrationRunner - the single entry point for schema changes
+ *
+ * Loads the ordered TypeScript and SQL migrations, applies each pending one in
+ * its own transaction and records its checksum in schema_versions. Refuses to
+ * run when a recorded migration no longer matches the code.
+ */
+export class MigrationRunner {
+  private migrations: Migration[];
 
-    // Get applied migrations
-    const appliedVersions = this.db.prepare('SELECT version FROM schema_versions ORDER BY version').all() as SchemaVersion[];
-    const maxApplied = appliedVersions.length > 0 ? Math.max(...appliedVersions.map(v => v.version)) : 0;
-
-    // Only run migration004 if no migrations have been applied
-    // This creates the sdk_sessions, observations, and session_summaries tables
-    if (maxApplied === 0) {
-      logger.info('DB', 'Initializing fresh database with migration004');
-
-      // Migration004: SDK agent architecture tables
-      this.db.run(`
-        CREATE TABLE IF NOT EXISTS sdk_sessions (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          content_session_id TEXT UNIQUE NOT NULL,
-          memory_session_id TEXT UNIQUE,
-          project TEXT NOT NULL,
-          user_prompt TEXT,
-          started_at TEXT NOT NULL,
-          started_at_epoch INTEGER NOT NULL,
-          completed_at TEXT,
-          completed_at_epoch INTEGER,
-          status TEXT CHECK(status IN ('active', 'completed', 'failed')) NOT NULL DEFAULT 'active'
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_claude_id ON sdk_sessions(content_session_id);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_sdk_id ON sdk_sessions(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_project ON sdk_sessions(project);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_status ON sdk_sessions(status);
-        CREATE INDEX IF NOT EXISTS idx_sdk_sessions_started ON sdk_sessions(started_at_epoch DESC);
-
-        CREATE TABLE IF NOT EXISTS observations (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          memory_session_id TEXT NOT NULL,
-          project TEXT NOT NULL,
-          text TEXT NOT NULL,
-          type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery')),
-          created_at TEXT NOT NULL,
-          created_at_epoch INTEGER NOT NULL,
-          FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_observations_sdk_session ON observations(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_observations_project ON observations(project);
-        CREATE INDEX IF NOT EXISTS idx_observations_type ON observations(type);
-        CREATE INDEX IF NOT EXISTS idx_observations_created ON observations(created_at_epoch DESC);
-
-        CREATE TABLE IF NOT EXISTS session_summaries (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          memory_session_id TEXT UNIQUE NOT NULL,
-          project TEXT NOT NULL,
-          request TEXT,
-          investigated TEXT,
-          learned TEXT,
-          completed TEXT,
-          next_steps TEXT,
-          files_read TEXT,
-          files_edited TEXT,
-          notes TEXT,
-          created_at TEXT NOT NULL,
-          created_at_epoch INTEGER NOT NULL,
-          FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-        );
-
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_project ON session_summaries(project);
-        CREATE INDEX IF NOT EXISTS idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
-      `);
-
-      // Record migration004 as applied
-      this.db.prepare('INSERT INTO schema_versions (version, applied_at) VALUES (?, ?)').run(4, new Date().toISOString());
-
-      logger.info('DB', 'Migration004 applied successfully');
+  constructor(private db: Database, options: MigrationRunnerOptions = {}) {
+    const sqlDir = options.sqlDir === undefined ? getSqlMigrationsDir() : options.sqlDir;
+    const all = [...(options.migrations ?? tsMigrations), ...(sqlDir ? loadSqlMigrations(sqlDir) : [])];
+
+    const seen = new Map<number, string>();
+    for (const migration of all) {
+      const existing = seen.get(migration.version);
+      if (existing) {
+        throw new Error(`Duplicate migration version ${migration.version}: ${existing} and ${migration.name}`);
+      }
+      seen.set(migration.version, migration.name);
     }
+
+    this.migrations = all.sort((a, b) => a.version - b.version);
   }
 
   /**
-   * Ensure worker_port column exists (migration 5)
+   * Run all pending migrations (kept for existing callers; same as up())
    */
-  private ensureWorkerPortColumn(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(5) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if column exists
-    const tableInfo = this.db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
-    const hasWorkerPort = tableInfo.some(col => col.name === 'worker_port');
-
-    if (!hasWorkerPort) {
-      this.db.run('ALTER TABLE sdk_sessions ADD COLUMN worker_port INTEGER');
-      logger.debug('DB', 'Added worker_port column to sdk_sessions table');
-    }
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(5, new Date().toISOString());
+  runAllMigrations(): void {
+    this.up();
   }
 
   /**
-   * Ensure prompt tracking columns exist (migration 6)
+   * Status of every known migration plus any recorded version the code does not know
    */
-  private ensurePromptTrackingColumns(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(6) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check sdk_sessions for prompt_counter
-    const sessionsInfo = this.db.query('PRAGMA table_info(sdk_sessions)').all() as TableColumnInfo[];
-    const hasPromptCounter = sessionsInfo.some(col => col.name === 'prompt_counter');
-
-    if (!hasPromptCounter) {
-      this.db.run('ALTER TABLE sdk_sessions ADD COLUMN prompt_counter INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added prompt_counter column to sdk_sessions table');
-    }
-
-    // Check observations for prompt_number
-    const observationsInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const obsHasPromptNumber = observationsInfo.some(col => col.name === 'prompt_number');
-
-    if (!obsHasPromptNumber) {
-      this.db.run('ALTER TABLE observations ADD COLUMN prompt_number INTEGER');
-      logger.debug('DB', 'Added prompt_number column to observations table');
+  status(): MigrationStatus[] {
+    this.ensureVersionTable();
+    const applied = this.getAppliedRows();
+    const result: MigrationStatus[] = [];
+
+    for (const migration of this.migrations) {
+      const row = applied.get(migration.version);
+      let state: MigrationState = 'pending';
+      if (row) {
+        state = row.checksum && !this.matchesChecksum(row.checksum, migration) ? 'drifted' : 'applied';
+        applied.delete(migration.version);
+      }
+      result.push({
+        version: migration.version,
+        name: migration.name,
+        state,
+        appliedAt: row?.applied_at ?? null,
+        reversible: !!migration.down
+      });
     }
 
-    // Check session_summaries for prompt_number
-    const summariesInfo = this.db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
-    const sumHasPromptNumber = summariesInfo.some(col => col.name === 'prompt_number');
-
-    if (!sumHasPromptNumber) {
-      this.db.run('ALTER TABLE session_summaries ADD COLUMN prompt_number INTEGER');
-      logger.debug('DB', 'Added prompt_number column to session_summaries table');
+    for (const row of applied.values()) {
+      result.push({
+        version: row.version,
+        name: row.name,
+        state: row.checksum ? 'unknown' : 'legacy',
+        appliedAt: row.applied_at,
+        reversible: false
+      });
     }
 
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(6, new Date().toISOString());
+    return result.sort((a, b) => a.version - b.version);
   }
 
   /**
-   * Remove UNIQUE constraint from session_summaries.memory_session_id (migration 7)
+   * Describe drift between schema_versions and the code (empty when consistent)
    */
-  private removeSessionSummariesUniqueConstraint(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(7) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if UNIQUE constraint exists
-    const summariesIndexes = this.db.query('PRAGMA index_list(session_summaries)').all() as IndexInfo[];
-    const hasUniqueConstraint = summariesIndexes.some(idx => idx.unique === 1);
-
-    if (!hasUniqueConstraint) {
-      // Already migrated (no constraint exists)
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(7, new Date().toISOString());
-      return;
-    }
-
-    logger.debug('DB', 'Removing UNIQUE constraint from session_summaries.memory_session_id');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create new table without UNIQUE constraint
-    this.db.run(`
-      CREATE TABLE session_summaries_new (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        project TEXT NOT NULL,
-        request TEXT,
-        investigated TEXT,
-        learned TEXT,
-        completed TEXT,
-        next_steps TEXT,
-        files_read TEXT,
-        files_edited TEXT,
-        notes TEXT,
-        prompt_number INTEGER,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      )
-    `);
-
-    // Copy data from old table
-    this.db.run(`
-      INSERT INTO session_summaries_new
-      SELECT id, memory_session_id, project, request, investigated, learned,
-             completed, next_steps, files_read, files_edited, notes,
-             prompt_number, created_at, created_at_epoch
-      FROM session_summaries
-    `);
-
-    // Drop old table
-    this.db.run('DROP TABLE session_summaries');
-
-    // Rename new table
-    this.db.run('ALTER TABLE session_summaries_new RENAME TO session_summaries');
-
-    // Recreate indexes
-    this.db.run(`
-      CREATE INDEX idx_session_summaries_sdk_session ON session_summaries(memory_session_id);
-      CREATE INDEX idx_session_summaries_project ON session_summaries(project);
-      CREATE INDEX idx_session_summaries_created ON session_summaries(created_at_epoch DESC);
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(7, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully removed UNIQUE constraint from session_summaries.memory_session_id');
+  verify(): string[] {
+    return this.status()
+      .filter(entry => entry.state === 'drifted' || entry.state === 'unknown')
+      .map(entry => entry.state === 'drifted'
+        ? `migration ${entry.version} (${entry.name}) was changed after it was applied`
+        : `migration ${entry.version}${entry.name ? ` (${entry.name})` : ''} is applied but not known to this build`);
   }
 
   /**
-   * Add hierarchical fields to observations table (migration 8)
+   * Apply pending migrations up to and including `target` (default: all)
+   * @returns versions applied
    */
-  private addObservationHierarchicalFields(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(8) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if new fields already exist
-    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const hasTitle = tableInfo.some(col => col.name === 'title');
-
-    if (hasTitle) {
-      // Already migrated
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(8, new Date().toISOString());
-      return;
+  up(target: number = Infinity): number[] {
+    this.assertNoDrift();
+    this.backfillChecksums();
+
+    const applied = this.getAppliedRows();
+    const pending = this.migrations.filter(m => m.version <= target && !applied.has(m.version));
+
+    for (const migration of pending) {
+      logger.info('DB', `Applying migration ${migration.version} (${migration.name})`);
+      this.db.transaction(() => {
+        migration.up(this.db);
+        this.db.prepare('INSERT INTO schema_versions (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)')
+          .run(migration.version, migration.name, this.checksum(migration), new Date().toISOString());
+      })();
     }
 
-    logger.debug('DB', 'Adding hierarchical fields to observations table');
-
-    // Add new columns
-    this.db.run(`
-      ALTER TABLE observations ADD COLUMN title TEXT;
-      ALTER TABLE observations ADD COLUMN subtitle TEXT;
-      ALTER TABLE observations ADD COLUMN facts TEXT;
-      ALTER TABLE observations ADD COLUMN narrative TEXT;
-      ALTER TABLE observations ADD COLUMN concepts TEXT;
-      ALTER TABLE observations ADD COLUMN files_read TEXT;
-      ALTER TABLE observations ADD COLUMN files_modified TEXT;
-    `);
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(8, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully added hierarchical fields to observations table');
+    return pending.map(m => m.version);
   }
 
   /**
-   * Make observations.text nullable (migration 9)
-   * The text field is deprecated in favor of structured fields (title, subtitle, narrative, etc.)
+   * Revert applied migrations newer than `target`, newest first. Nothing is
+   * reverted if any of them has no `down`.
+   * @returns versions reverted
    */
-  private makeObservationsTextNullable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(9) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if text column is already nullable
-    const tableInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const textColumn = tableInfo.find(col => col.name === 'text');
-
-    if (!textColumn || textColumn.notnull === 0) {
-      // Already migrated or text column doesn't exist
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(9, new Date().toISOString());
-      return;
-    }
+  down(target: number): number[] {
+    this.assertNoDrift();
 
-    logger.debug('DB', 'Making observations.text nullable');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create new table with text as nullable
-    this.db.run(`
-      CREATE TABLE observations_new (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        memory_session_id TEXT NOT NULL,
-        project TEXT NOT NULL,
-        text TEXT,
-        type TEXT NOT NULL CHECK(type IN ('decision', 'bugfix', 'feature', 'refactor', 'discovery', 'change')),
-        title TEXT,
-        subtitle TEXT,
-        facts TEXT,
-        narrative TEXT,
-        concepts TEXT,
-        files_read TEXT,
-        files_modified TEXT,
-        prompt_number INTEGER,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(memory_session_id) REFERENCES sdk_sessions(memory_session_id) ON DELETE CASCADE
-      )
-    `);
-
-    // Copy data from old table (all existing columns)
-    this.db.run(`
-      INSERT INTO observations_new
-      SELECT id, memory_session_id, project, text, type, title, subtitle, facts,
-             narrative, concepts, files_read, files_modified, prompt_number,
-             created_at, created_at_epoch
-      FROM observations
-    `);
+    const applied = this.getAppliedRows();
+    const reverting = [...applied.keys()].filter(version => version > target).sort((a, b) => b - a);
+    const byVersion = new Map(this.migrations.map(m => [m.version, m]));
 
-    // Drop old table
-    this.db.run('DROP TABLE observations');
-
-    // Rename new table
-    this.db.run('ALTER TABLE observations_new RENAME TO observations');
-
-    // Recreate indexes
-    this.db.run(`
-      CREATE INDEX idx_observations_sdk_session ON observations(memory_session_id);
-      CREATE INDEX idx_observations_project ON observations(project);
-      CREATE INDEX idx_observations_type ON observations(type);
-      CREATE INDEX idx_observations_created ON observations(created_at_epoch DESC);
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
+    const irreversible = reverting.filter(version => !byVersion.get(version)?.down);
+    if (irreversible.length > 0) {
+      throw new Error(`Cannot migrate down to ${target}: migration ${irreversible.join(', ')} cannot be reverted`);
+    }
 
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(9, new Date().toISOString());
+    for (const version of reverting) {
+      const migration = byVersion.get(version)!;
+      logger.info('DB', `Reverting migration ${version} (${migration.name})`);
+      this.db.transaction(() => {
+        migration.down!(this.db);
+        this.db.prepare('DELETE FROM schema_versions WHERE version = ?').run(version);
+      })();
+    }
 
-    logger.debug('DB', 'Successfully made observations.text nullable');
+    return reverting;
   }
 
-  /**
-   * Create user_prompts table with FTS5 support (migration 10)
-   */
-  private createUserPromptsTable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(10) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if table already exists
-    const tableInfo = this.db.query('PRAGMA table_info(user_prompts)').all() as TableColumnInfo[];
-    if (tableInfo.length > 0) {
-      // Already migrated
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(10, new Date().toISOString());
-      return;
+  private assertNoDrift(): void {
+    const problems = this.verify();
+    if (problems.length > 0) {
+      throw new MigrationDriftError(problems);
     }
-
-    logger.debug('DB', 'Creating user_prompts table with FTS5 support');
-
-    // Begin transaction
-    this.db.run('BEGIN TRANSACTION');
-
-    // Create main table (using content_session_id since memory_session_id is set asynchronously by worker)
-    this.db.run(`
-      CREATE TABLE user_prompts (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        content_session_id TEXT NOT NULL,
-        prompt_number INTEGER NOT NULL,
-        prompt_text TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        created_at_epoch INTEGER NOT NULL,
-        FOREIGN KEY(content_session_id) REFERENCES sdk_sessions(content_session_id) ON DELETE CASCADE
-      );
-
-      CREATE INDEX idx_user_prompts_claude_session ON user_prompts(content_session_id);
-      CREATE INDEX idx_user_prompts_created ON user_prompts(created_at_epoch DESC);
-      CREATE INDEX idx_user_prompts_prompt_number ON user_prompts(prompt_number);
-      CREATE INDEX idx_user_prompts_lookup ON user_prompts(content_session_id, prompt_number);
-    `);
-
-    // Create FTS5 virtual table
-    this.db.run(`
-      CREATE VIRTUAL TABLE user_prompts_fts USING fts5(
-        prompt_text,
-        content='user_prompts',
-        content_rowid='id'
-      );
-    `);
-
-    // Create triggers to sync FTS5
-    this.db.run(`
-      CREATE TRIGGER user_prompts_ai AFTER INSERT ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(rowid, prompt_text)
-        VALUES (new.id, new.prompt_text);
-      END;
-
-      CREATE TRIGGER user_prompts_ad AFTER DELETE ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
-        VALUES('delete', old.id, old.prompt_text);
-      END;
-
-      CREATE TRIGGER user_prompts_au AFTER UPDATE ON user_prompts BEGIN
-        INSERT INTO user_prompts_fts(user_prompts_fts, rowid, prompt_text)
-        VALUES('delete', old.id, old.prompt_text);
-        INSERT INTO user_prompts_fts(rowid, prompt_text)
-        VALUES (new.id, new.prompt_text);
-      END;
-    `);
-
-    // Commit transaction
-    this.db.run('COMMIT');
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(10, new Date().toISOString());
-
-    logger.debug('DB', 'Successfully created user_prompts table with FTS5 support');
   }
 
   /**
-   * Ensure discovery_tokens column exists (migration 11)
-   * CRITICAL: This migration was incorrectly using version 7 (which was already taken by removeSessionSummariesUniqueConstraint)
-   * The duplicate version number may have caused migration tracking issues in some databases
+   * Declared checksum of a migration, or a hash of its version and name
    */
-  private ensureDiscoveryTokensColumn(): void {
-    // Check if migration already applied to avoid unnecessary re-runs
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(11) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if discovery_tokens column exists in observations table
-    const observationsInfo = this.db.query('PRAGMA table_info(observations)').all() as TableColumnInfo[];
-    const obsHasDiscoveryTokens = observationsInfo.some(col => col.name === 'discovery_tokens');
-
-    if (!obsHasDiscoveryTokens) {
-      this.db.run('ALTER TABLE observations ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added discovery_tokens column to observations table');
-    }
-
-    // Check if discovery_tokens column exists in session_summaries table
-    const summariesInfo = this.db.query('PRAGMA table_info(session_summaries)').all() as TableColumnInfo[];
-    const sumHasDiscoveryTokens = summariesInfo.some(col => col.name === 'discovery_tokens');
-
-    if (!sumHasDiscoveryTokens) {
-      this.db.run('ALTER TABLE session_summaries ADD COLUMN discovery_tokens INTEGER DEFAULT 0');
-      logger.debug('DB', 'Added discovery_tokens column to session_summaries table');
-    }
-
-    // Record migration only after successful column verification/addition
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(11, new Date().toISOString());
+  private checksum(migration: Migration): string {
+    return migration.checksum ?? this.identityChecksum(migration);
   }
 
   /**
-   * Create pending_messages table for persistent work queue (migration 16)
-   * Messages are persisted before processing and deleted after success.
-   * Enables recovery from SDK hangs and worker crashes.
+   * What earlier builds recorded for TypeScript migrations, before they
+   * declared a hash of their source
    */
-  private createPendingMessagesTable(): void {
-    // Check if migration already applied
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(16) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Check if table already exists
-    const tables = this.db.query("SELECT name FROM sqlite_master WHERE type='table' AND name='pending_messages'").all() as TableNameRow[];
-    if (tables.length > 0) {
-      this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(16, new Date().toISOString());
-      return;
-    }
+  private identityChecksum(migration: Migration): string {
+    return checksumOf(`${migration.version}:${migration.name}`);
+  }
 
-    logger.debug('DB', 'Creating pending_messages table');
+  private matchesChecksum(recorded: string, migration: Migration): boolean {
+    return recorded === this.checksum(migration) || recorded === this.identityChecksum(migration);
+  }
 
+  private ensureVersionTable(): void {
     this.db.run(`
-      CREATE TABLE pending_messages (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        session_db_id INTEGER NOT NULL,
-        content_session_id TEXT NOT NULL,
-        message_type TEXT NOT NULL CHECK(message_type IN ('observation', 'summarize')),
-        tool_name TEXT,
-        tool_input TEXT,
-        tool_response TEXT,
-        cwd TEXT,
-        last_user_message TEXT,
-        last_assistant_message TEXT,
-        prompt_number INTEGER,
-        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'processing', 'processed', 'failed')),
-        retry_count INTEGER NOT NULL DEFAULT 0,
-        created_at_epoch INTEGER NOT NULL,
-        started_processing_at_epoch INTEGER,
-        completed_at_epoch INTEGER,
-        FOREIGN KEY (session_db_id) REFERENCES sdk_sessions(id) ON DELETE CASCADE
+      CREATE TABLE IF NOT EXISTS schema_versions (
+        id INTEGER PRIMARY KEY,
+        version INTEGER UNIQUE NOT NULL,
+        applied_at TEXT NOT NULL
       )
     `);
 
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_session ON pending_messages(session_db_id)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_status ON pending_messages(status)');
-    this.db.run('CREATE INDEX IF NOT EXISTS idx_pending_messages_claude_session ON pending_messages(content_session_id)');
-
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(16, new Date().toISOString());
-
-    logger.debug('DB', 'pending_messages table created successfully');
-  }
-
-  /**
-   * Rename session ID columns for semantic clarity (migration 17)
-   * - claude_session_id -> content_session_id (user's observed session)
-   * - sdk_session_id -> memory_session_id (memory agent's session for resume)
-   *
-   * IDEMPOTENT: Checks each table individually before renaming.
-   * This handles databases in any intermediate state (partial migration, fresh install, etc.)
-   */
-  private renameSessionIdColumns(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(17) as SchemaVersion | undefined;
-    if (applied) return;
-
-    logger.debug('DB', 'Checking session ID columns for semantic clarity rename');
-
-    let renamesPerformed = 0;
-
-    // Helper to safely rename a column if it exists
-    const safeRenameColumn = (table: string, oldCol: string, newCol: string): boolean => {
-      const tableInfo = this.db.query(`PRAGMA table_info(${table})`).all() as TableColumnInfo[];
-      const hasOldCol = tableInfo.some(col => col.name === oldCol);
-      const hasNewCol = tableInfo.some(col => col.name === newCol);
-
-      if (hasNewCol) {
-        // Already renamed, nothing to do
-        return false;
-      }
-
-      if (hasOldCol) {
-        // SQLite 3.25+ supports ALTER TABLE RENAME COLUMN
-        this.db.run(`ALTER TABLE ${table} RENAME COLUMN ${oldCol} TO ${newCol}`);
-        logger.debug('DB', `Renamed ${table}.${oldCol} to ${newCol}`);
-        return true;
-      }
-
-      // Neither column exists - table might not exist or has different schema
-      logger.warn('DB', `Column ${oldCol} not found in ${table}, skipping rename`);
-      return false;
-    };
-
-    // Rename in sdk_sessions table
-    if (safeRenameColumn('sdk_sessions', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-    if (safeRenameColumn('sdk_sessions', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in pending_messages table
-    if (safeRenameColumn('pending_messages', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-
-    // Rename in observations table
-    if (safeRenameColumn('observations', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in session_summaries table
-    if (safeRenameColumn('session_summaries', 'sdk_session_id', 'memory_session_id')) renamesPerformed++;
-
-    // Rename in user_prompts table
-    if (safeRenameColumn('user_prompts', 'claude_session_id', 'content_session_id')) renamesPerformed++;
-
-    // Record migration
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(17, new Date().toISOString());
-
-    if (renamesPerformed > 0) {
-      logger.debug('DB', `Successfully renamed ${renamesPerformed} session ID columns`);
-    } else {
-      logger.debug('DB', 'No session ID column renames needed (already up to date)');
+    const columns = new Set((this.db.query('PRAGMA table_info(schema_versions)').all() as TableColumnInfo[]).map(col => col.name));
+    if (!columns.has('name')) {
+      this.db.run('ALTER TABLE schema_versions ADD COLUMN name TEXT');
+    }
+    if (!columns.has('checksum')) {
+      this.db.run('ALTER TABLE schema_versions ADD COLUMN checksum TEXT');
     }
   }
 
   /**
-   * Repair session ID column renames (migration 19)
-   * DEPRECATED: Migration 17 is now fully idempotent and handles all cases.
-   * This migration is kept for backwards compatibility but does nothing.
-   */
-  private repairSessionIdColumnRename(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(19) as SchemaVersion | undefined;
-    if (applied) return;
-
-    // Migration 17 now handles all column rename cases idempotently.
-    // Just record this migration as applied.
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(19, new Date().toISOString());
-  }
-
-  /**
-   * Add failed_at_epoch column to pending_messages (migration 20)
-   * Used by markSessionMessagesFailed() for error recovery tracking
+   * Stamp rows recorded before checksums existed, or with the version and
+   * name hash of earlier builds, with the current migration's name and
+   * checksum, so later edits to them are detected
    */
-  private addFailedAtEpochColumn(): void {
-    const applied = this.db.prepare('SELECT version FROM schema_versions WHERE version = ?').get(20) as SchemaVersion | undefined;
-    if (applied) return;
-
-    const tableInfo = this.db.query('PRAGMA table_info(pending_messages)').all() as TableColumnInfo[];
-    const hasColumn = tableInfo.some(col => col.name === 'failed_at_epoch');
-
-    if (!hasColumn) {
-      this.db.run('ALTER TABLE pending_messages ADD COLUMN failed_at_epoch INTEGER');
-      logger.debug('DB', 'Added failed_at_epoch column to pending_messages table');
+  private backfillChecksums(): void {
+    const stamp = this.db.prepare('UPDATE schema_versions SET name = ?, checksum = ? WHERE version = ? AND (checksum IS NULL OR checksum = ?)');
+    for (const migration of this.migrations) {
+      stamp.run(migration.name, this.checksum(migration), migration.version, this.identityChecksum(migration));
     }
+  }
 
-    this.db.prepare('INSERT OR IGNORE INTO schema_versions (version, applied_at) VALUES (?, ?)').run(20, new Date().toISOString());
+  private getAppliedRows(): Map<number, SchemaVersionRow> {
+    const rows = this.db.prepare('SELECT version, name, checksum, applied_at FROM schema_versions ORDER BY version').all() as SchemaVersionRow[];
+    return new Map(rows.map(row => [row.version, row]));
   }
 }
@@ -0,0 +1,66 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { getPackageRoot } from '../../../common/paths.js';
+import type { Migration } from './types.js';
+
+const SQL_MIGRATION_FILE = /^(\d+)_([a-z0-9_]+)\.sql$/;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/m;
+
+/**
+ * Locate the SQL migrations directory shipped with the plugin
+ */
+export function getSqlMigrationsDir(): string {
+  const packageRoot = getPackageRoot();
+  const possiblePaths = [
+    join(packageRoot, 'migrations'),                 // Production (plugin/migrations)
+    join(packageRoot, '..', 'plugin', 'migrations'), // Development (src/../plugin/migrations)
+  ];
+  return possiblePaths.find(p => existsSync(p)) || possiblePaths[0];
+}
+
+/**
+ * Hash migration content for drift detection (line endings normalized so a
+ * checkout on Windows does not look like an edited migration)
+ */
+export function checksumOf(content: string): string {
+  return createHash('sha256').update(content.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Parse a SQL migration file. Statements after a `-- migrate:down` line
+ * reverse the migration; without one the migration is irreversible.
+ */
+export function parseSqlMigration(filename: string, content: string): Migration {
+  const match = filename.match(SQL_MIGRATION_FILE);
+  if (!match) {
+    throw new Error(`Invalid SQL migration filename "${filename}" (expected NNN_name.sql)`);
+  }
+
+  const [upSql, downSql] = content.split(DOWN_MARKER);
+  if (!upSql.trim()) {
+    throw new Error(`SQL migration ${filename} has no statements`);
+  }
+
+  return {
+    version: parseInt(match[1], 10),
+    name: match[2],
+    checksum: checksumOf(content),
+    up: db => db.run(upSql),
+    down: downSql?.trim() ? db => db.run(downSql) : undefined
+  };
+}
+
+/**
+ * Load all NNN_name.sql migrations from a directory (missing directory = none)
+ */
+export function loadSqlMigrations(dir: string): Migration[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(filename => filename.endsWith('.sql'))
+    .sort()
+    .map(filename => parseSqlMigration(filename, readFileSync(join(dir, filename), 'utf-8')));
+}
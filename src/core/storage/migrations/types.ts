@@ -0,0 +1,20 @@
+import type { Database } from 'bun:sqlite';
+
+/**
+ * A versioned schema change applied by MigrationRunner
+ *
+ * TypeScript migrations are listed in storage/migrations.ts; SQL migrations are
+ * loaded from NNN_name.sql files (see sql-loader.ts).
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => void;
+  down?: (db: Database) => void;
+  /**
+   * Recorded in schema_versions to detect edits: the file hash for SQL
+   * migrations, the source hash in migrations.ts for TypeScript ones.
+   * Defaults to a hash of version and name.
+   */
+  checksum?: string;
+}
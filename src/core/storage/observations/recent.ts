@@ -18,7 +18,7 @@ export function getRecentObservations(
   const stmt = db.prepare(`
     SELECT type, text, prompt_number, created_at
     FROM observations
-    WHERE project = ?
+    WHERE project = ? AND superseded_by IS NULL
     ORDER BY created_at_epoch DESC
     LIMIT ?
   `);
@@ -261,6 +261,21 @@ export interface SearchFilters {
   concepts?: string | string[];
   files?: string | string[];
   dateRange?: DateRange;
+  /** Observations only: every tag must be present */
+  tags?: string[];
+  /** Observations only: restrict to favorites */
+  favorite?: boolean;
+  /** Observations only: restrict to memories visible from a chat channel and user */
+  namespace?: NamespaceFilter;
+}
+
+/**
+ * A chat channel and user; sees its own user-scoped observations, the
+ * channel-scoped ones of its channel and global ones
+ */
+export interface NamespaceFilter {
+  channel: string;
+  userId?: string;
 }
 
 export interface SearchOptions extends SearchFilters {
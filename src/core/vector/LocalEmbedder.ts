@@ -0,0 +1,91 @@
+/**
+ * LocalEmbedder - Deterministic in-process text embeddings
+ *
+ * Uses feature hashing over word unigrams and character trigrams so that
+ * embeddings can be computed without a model download, network access or
+ * a Python runtime. The same text always maps to the same vector, which
+ * keeps stored vectors valid across worker restarts and versions.
+ *
+ * Quality is lexical rather than truly semantic, but trigram features give
+ * useful fuzzy matching (e.g. "migrate"/"migration") for memory recall.
+ */
+
+export const LOCAL_EMBEDDER_ID = 'hash-v1';
+export const LOCAL_EMBEDDING_DIMENSIONS = 384;
+
+const TOKEN_PATTERN = /[a-z0-9_]+/g;
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class LocalEmbedder {
+  readonly id = LOCAL_EMBEDDER_ID;
+
+  constructor(readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {}
+
+  /**
+   * Embed text into an L2-normalized vector (all zeros for empty text)
+   */
+  embed(text: string): Float32Array {
+    const vector = new Float32Array(this.dimensions);
+    const tokens = text.toLowerCase().match(TOKEN_PATTERN) || [];
+
+    for (const token of tokens) {
+      this.addFeature(vector, `w:${token}`, 1);
+
+      const padded = `#${token}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    // Sublinear term frequency dampens repeated tokens
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      const value = vector[i];
+      vector[i] = Math.sign(value) * Math.log1p(Math.abs(value));
+      norm += vector[i] * vector[i];
+    }
+
+    if (norm > 0) {
+      const scale = 1 / Math.sqrt(norm);
+      for (let i = 0; i < vector.length; i++) {
+        vector[i] *= scale;
+      }
+    }
+
+    return vector;
+  }
+
+  /**
+   * Cosine similarity of two L2-normalized vectors
+   */
+  static cosine(a: Float32Array, b: Float32Array): number {
+    const length = Math.min(a.length, b.length);
+    let dot = 0;
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+    }
+    return dot;
+  }
+
+  /**
+   * Hash a feature into a bucket with a hash-derived sign to reduce collision bias
+   */
+  private addFeature(vector: Float32Array, feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const bucket = hash % this.dimensions;
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[bucket] += sign * weight;
+  }
+}
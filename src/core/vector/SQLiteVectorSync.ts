@@ -0,0 +1,302 @@
+/**
+ * SQLiteVectorSync Service
+ *
+ * In-process alternative to ChromaSync. Embeds the same granular documents with
+ * LocalEmbedder and stores them in the observation_vectors table of the main
+ * database, so semantic search works without spawning the chroma-mcp subprocess.
+ *
+ * Queries are brute-force cosine scans over the collection, which is fast enough
+ * for the tens of thousands of documents a typical memory database holds.
+ */
+
+import type { Database } from 'bun:sqlite';
+import { ParsedObservation, ParsedSummary } from '../../parser/parser.js';
+import type { VectorBackend, VectorQueryResult } from './VectorBackend.js';
+import { LocalEmbedder } from './LocalEmbedder.js';
+import {
+  VectorDocument,
+  StoredObservation,
+  StoredSummary,
+  StoredUserPrompt,
+  toStoredObservation,
+  toStoredSummary,
+  formatObservationDocs,
+  formatSummaryDocs,
+  formatUserPromptDoc
+} from './documents.js';
+import { logger } from '../../utils/logger.js';
+import { decryptRows } from '../storage/FieldEncryption.js';
+
+interface VectorRow {
+  doc_id: string;
+  sqlite_id: number;
+  doc_type: string;
+  metadata: string;
+  embedding: Uint8Array;
+}
+
+export class SQLiteVectorSync implements VectorBackend {
+  readonly backendName = 'sqlite' as const;
+  private readonly embedder: LocalEmbedder;
+  private readonly BATCH_SIZE = 100;
+
+  constructor(
+    private collection: string,
+    private db: Database,
+    embedder: LocalEmbedder = new LocalEmbedder()
+  ) {
+    this.embedder = embedder;
+  }
+
+  /**
+   * The SQLite backend runs everywhere
+   */
+  isDisabled(): boolean {
+    return false;
+  }
+
+  /**
+   * Embed and upsert documents in a single transaction
+   */
+  private addDocuments(documents: VectorDocument[]): void {
+    if (documents.length === 0) {
+      return;
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO observation_vectors
+        (doc_id, collection, sqlite_id, doc_type, project, created_at_epoch, metadata, embedding, embedder, dimensions)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    const insertAll = this.db.transaction((docs: VectorDocument[]) => {
+      for (const doc of docs) {
+        const embedding = this.embedder.embed(doc.document);
+        stmt.run(
+          doc.id,
+          this.collection,
+          Number(doc.metadata.sqlite_id),
+          String(doc.metadata.doc_type),
+          String(doc.metadata.project ?? ''),
+          Number(doc.metadata.created_at_epoch ?? 0),
+          JSON.stringify(doc.metadata),
+          new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength),
+          this.embedder.id,
+          this.embedder.dimensions
+        );
+      }
+    });
+
+    insertAll(documents);
+
+    logger.debug('VECTOR', 'Documents embedded', {
+      collection: this.collection,
+      count: documents.length
+    });
+  }
+
+  async syncObservation(
+    observationId: number,
+    memorySessionId: string,
+    project: string,
+    obs: ParsedObservation,
+    promptNumber: number,
+    createdAtEpoch: number,
+    discoveryTokens: number = 0
+  ): Promise<void> {
+    const stored = toStoredObservation(
+      observationId, memorySessionId, project, obs, promptNumber, createdAtEpoch, discoveryTokens
+    );
+    this.addDocuments(formatObservationDocs(stored));
+  }
+
+  async syncSummary(
+    summaryId: number,
+    memorySessionId: string,
+    project: string,
+    summary: ParsedSummary,
+    promptNumber: number,
+    createdAtEpoch: number,
+    discoveryTokens: number = 0
+  ): Promise<void> {
+    const stored = toStoredSummary(
+      summaryId, memorySessionId, project, summary, promptNumber, createdAtEpoch, discoveryTokens
+    );
+    this.addDocuments(formatSummaryDocs(stored));
+  }
+
+  async syncUserPrompt(
+    promptId: number,
+    memorySessionId: string,
+    project: string,
+    promptText: string,
+    promptNumber: number,
+    createdAtEpoch: number
+  ): Promise<void> {
+    this.addDocuments([formatUserPromptDoc({
+      id: promptId,
+      content_session_id: '', // Not needed for vector sync
+      prompt_number: promptNumber,
+      prompt_text: promptText,
+      created_at: new Date(createdAtEpoch * 1000).toISOString(),
+      created_at_epoch: createdAtEpoch,
+      memory_session_id: memorySessionId,
+      project
+    })]);
+  }
+
+  async deleteObservations(observationIds: number[]): Promise<void> {
+    if (observationIds.length === 0) {
+      return;
+    }
+    const stmt = this.db.prepare(`
+      DELETE FROM observation_vectors WHERE collection = ? AND doc_type = 'observation' AND sqlite_id = ?
+    `);
+    this.db.transaction(() => {
+      for (const id of observationIds) {
+        stmt.run(this.collection, id);
+      }
+    })();
+  }
+
+  /**
+   * Backfill: embed every observation, summary and prompt without vectors.
+   * Also re-embeds documents written by a different embedder version.
+   */
+  async ensureBackfilled(): Promise<void> {
+    logger.info('VECTOR', 'Starting SQLite vector backfill', { collection: this.collection });
+
+    const stale = this.db.prepare(`
+      DELETE FROM observation_vectors WHERE collection = ? AND (embedder != ? OR dimensions != ?)
+    `).run(this.collection, this.embedder.id, this.embedder.dimensions);
+    if (stale.changes > 0) {
+      logger.info('VECTOR', 'Dropped vectors from previous embedder', { count: stale.changes });
+    }
+
+    const missing = (docType: string, alias: string) => `
+      NOT EXISTS (
+        SELECT 1 FROM observation_vectors v
+        WHERE v.collection = ? AND v.doc_type = '${docType}' AND v.sqlite_id = ${alias}.id
+      )
+    `;
+
+    const observations = decryptRows(this.db.prepare(`
+      SELECT o.* FROM observations o WHERE ${missing('observation', 'o')} ORDER BY o.id ASC
+    `).all(this.collection) as StoredObservation[]);
+
+    const summaries = decryptRows(this.db.prepare(`
+      SELECT s.* FROM session_summaries s WHERE ${missing('session_summary', 's')} ORDER BY s.id ASC
+    `).all(this.collection) as StoredSummary[]);
+
+    const prompts = decryptRows(this.db.prepare(`
+      SELECT up.*, s.project, s.memory_session_id
+      FROM user_prompts up
+      JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
+      WHERE ${missing('user_prompt', 'up')}
+      ORDER BY up.id ASC
+    `).all(this.collection) as StoredUserPrompt[]);
+
+    const docs: VectorDocument[] = [
+      ...observations.flatMap(obs => formatObservationDocs(obs)),
+      ...summaries.flatMap(summary => formatSummaryDocs(summary)),
+      ...prompts.map(prompt => formatUserPromptDoc(prompt))
+    ];
+
+    for (let i = 0; i < docs.length; i += this.BATCH_SIZE) {
+      this.addDocuments(docs.slice(i, i + this.BATCH_SIZE));
+    }
+
+    logger.info('VECTOR', 'SQLite vector backfill complete', {
+      collection: this.collection,
+      observations: observations.length,
+      summaries: summaries.length,
+      prompts: prompts.length,
+      documents: docs.length
+    });
+  }
+
+  /**
+   * Cosine search over the collection.
+   * Returns one hit per source row (its best-matching field), ranked by distance = 1 - cosine.
+   */
+  async queryChroma(
+    query: string,
+    limit: number,
+    whereFilter?: Record<string, any>
+  ): Promise<VectorQueryResult> {
+    const queryVector = this.embedder.embed(query);
+
+    const params: (string | number)[] = [this.collection];
+    let docTypeClause = '';
+    if (typeof whereFilter?.doc_type === 'string') {
+      docTypeClause = 'AND doc_type = ?';
+      params.push(whereFilter.doc_type);
+    }
+
+    const rows = this.db.prepare(`
+      SELECT doc_id, sqlite_id, doc_type, metadata, embedding
+      FROM observation_vectors
+      WHERE collection = ? ${docTypeClause}
+    `).all(...params) as VectorRow[];
+
+    // Keep the best-scoring document for each (doc_type, sqlite_id)
+    const best = new Map<string, { id: number; distance: number; metadata: any }>();
+    for (const row of rows) {
+      const metadata = JSON.parse(row.metadata);
+      if (!this.matchesWhere(metadata, whereFilter)) {
+        continue;
+      }
+
+      const distance = 1 - LocalEmbedder.cosine(queryVector, this.toVector(row.embedding));
+      const key = `${row.doc_type}:${row.sqlite_id}`;
+      const existing = best.get(key);
+      if (!existing || distance < existing.distance) {
+        best.set(key, { id: row.sqlite_id, distance, metadata });
+      }
+    }
+
+    const ranked = Array.from(best.values())
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit);
+
+    return {
+      ids: ranked.map(hit => hit.id),
+      distances: ranked.map(hit => hit.distance),
+      metadatas: ranked.map(hit => hit.metadata)
+    };
+  }
+
+  /**
+   * Nothing to release - the database handle is owned by the caller
+   */
+  async close(): Promise<void> {}
+
+  /**
+   * Evaluate a Chroma-style where filter (flat equality and $and/$or) against metadata
+   */
+  private matchesWhere(metadata: Record<string, any>, whereFilter?: Record<string, any>): boolean {
+    if (!whereFilter) {
+      return true;
+    }
+
+    return Object.entries(whereFilter).every(([key, expected]) => {
+      if (key === '$and' && Array.isArray(expected)) {
+        return expected.every(clause => this.matchesWhere(metadata, clause));
+      }
+      if (key === '$or' && Array.isArray(expected)) {
+        return expected.some(clause => this.matchesWhere(metadata, clause));
+      }
+      if (expected && typeof expected === 'object' && '$in' in expected) {
+        return (expected.$in as unknown[]).includes(metadata[key]);
+      }
+      return metadata[key] === expected;
+    });
+  }
+
+  /**
+   * Copy the BLOB into an aligned buffer before viewing it as floats
+   */
+  private toVector(blob: Uint8Array): Float32Array {
+    return new Float32Array(Uint8Array.from(blob).buffer);
+  }
+}
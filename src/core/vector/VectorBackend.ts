@@ -0,0 +1,133 @@
+/**
+ * VectorBackend - Storage-agnostic contract for semantic search
+ *
+ * Implementations:
+ * - ChromaSync: Chroma via the chroma-mcp subprocess (requires uvx/Python)
+ * - SQLiteVectorSync: In-process embeddings stored in the main SQLite database
+ *
+ * Selected via the MOLTBRAIN_VECTOR_BACKEND setting.
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { SettingsDefaults } from '../../common/SettingsDefaultsManager.js';
+import { ParsedObservation, ParsedSummary } from '../../parser/parser.js';
+import { ChromaSync } from './VectorSync.js';
+import { SQLiteVectorSync } from './SQLiteVectorSync.js';
+import { logger } from '../../utils/logger.js';
+
+export type VectorBackendName = 'chroma' | 'sqlite';
+
+export const VECTOR_BACKEND_NAMES: readonly VectorBackendName[] = ['chroma', 'sqlite'];
+
+/**
+ * Query result shape shared by all backends.
+ * ids, distances and metadatas are index-aligned (lower distance = more similar).
+ */
+export interface VectorQueryResult {
+  ids: number[];
+  distances: number[];
+  metadatas: any[];
+}
+
+export interface VectorBackend {
+  readonly backendName: VectorBackendName;
+
+  /**
+   * True when the backend cannot run on this platform (queries return empty results)
+   */
+  isDisabled(): boolean;
+
+  syncObservation(
+    observationId: number,
+    memorySessionId: string,
+    project: string,
+    obs: ParsedObservation,
+    promptNumber: number,
+    createdAtEpoch: number,
+    discoveryTokens?: number
+  ): Promise<void>;
+
+  syncSummary(
+    summaryId: number,
+    memorySessionId: string,
+    project: string,
+    summary: ParsedSummary,
+    promptNumber: number,
+    createdAtEpoch: number,
+    discoveryTokens?: number
+  ): Promise<void>;
+
+  syncUserPrompt(
+    promptId: number,
+    memorySessionId: string,
+    project: string,
+    promptText: string,
+    promptNumber: number,
+    createdAtEpoch: number
+  ): Promise<void>;
+
+  /**
+   * Remove every document indexed for these observations
+   */
+  deleteObservations(observationIds: number[]): Promise<void>;
+
+  /**
+   * Index every stored row that is missing from the backend
+   */
+  ensureBackfilled(): Promise<void>;
+
+  /**
+   * Semantic query. The name is kept from the Chroma-only era so existing
+   * search strategies work unchanged against any backend.
+   */
+  queryChroma(
+    query: string,
+    limit: number,
+    whereFilter?: Record<string, any>
+  ): Promise<VectorQueryResult>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Normalize a settings value into a known backend name (defaults to chroma)
+ */
+export function parseVectorBackendName(value: string | undefined): VectorBackendName {
+  const normalized = (value || '').trim().toLowerCase();
+  if ((VECTOR_BACKEND_NAMES as readonly string[]).includes(normalized)) {
+    return normalized as VectorBackendName;
+  }
+  if (normalized) {
+    logger.warn('VECTOR', 'Unknown vector backend, using chroma', { value });
+  }
+  return 'chroma';
+}
+
+/**
+ * Backend to use with these settings. Chroma keeps the decrypted narrative
+ * and facts as plaintext documents, so with encryption at rest enabled the
+ * sqlite backend (embeddings and titles only) is used instead.
+ */
+export function resolveVectorBackendName(settings: SettingsDefaults): VectorBackendName {
+  const name = parseVectorBackendName(settings.MOLTBRAIN_VECTOR_BACKEND);
+  if (name === 'chroma' && settings.MOLTBRAIN_ENCRYPTION_ENABLED === 'true') {
+    logger.warn('VECTOR', 'Chroma would store encrypted fields as plaintext, using the sqlite vector backend');
+    return 'sqlite';
+  }
+  return name;
+}
+
+/**
+ * Create the configured vector backend
+ * @param db - Open database handle, required by the sqlite backend
+ */
+export function createVectorBackend(
+  name: VectorBackendName,
+  collection: string,
+  db: Database
+): VectorBackend {
+  if (name === 'sqlite') {
+    return new SQLiteVectorSync(collection, db);
+  }
+  return new ChromaSync(collection);
+}
@@ -6,13 +6,29 @@
  * a vector database synchronized with SQLite.
  *
  * Design: Fail-fast with no fallbacks - if Chroma is unavailable, syncing fails.
+ * Installs without uvx/Python should set MOLTBRAIN_VECTOR_BACKEND=sqlite instead
+ * (see SQLiteVectorSync).
  */
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { ParsedObservation, ParsedSummary } from '../../parser/parser.js';
 import { SessionStore } from '../storage/DataStore.js';
+import type { VectorBackend, VectorQueryResult } from './VectorBackend.js';
+import {
+  VectorDocument,
+  StoredObservation,
+  StoredSummary,
+  StoredUserPrompt,
+  toStoredObservation,
+  toStoredSummary,
+  formatObservationDocs,
+  formatSummaryDocs,
+  formatUserPromptDoc,
+  parseSqliteId
+} from './documents.js';
 import { logger } from '../../utils/logger.js';
+import { decryptRows } from '../storage/FieldEncryption.js';
 import { SettingsDefaultsManager } from '../../common/SettingsDefaultsManager.js';
 import { USER_SETTINGS_PATH } from '../../common/paths.js';
 import path from 'path';
@@ -22,59 +38,8 @@ import os from 'os';
 declare const __DEFAULT_PACKAGE_VERSION__: string;
 const packageVersion = typeof __DEFAULT_PACKAGE_VERSION__ !== 'undefined' ? __DEFAULT_PACKAGE_VERSION__ : '0.0.0-dev';
 
-interface ChromaDocument {
-  id: string;
-  document: string;
-  metadata: Record<string, string | number>;
-}
-
-interface StoredObservation {
-  id: number;
-  memory_session_id: string;
-  project: string;
-  text: string | null;
-  type: string;
-  title: string | null;
-  subtitle: string | null;
-  facts: string | null; // JSON
-  narrative: string | null;
-  concepts: string | null; // JSON
-  files_read: string | null; // JSON
-  files_modified: string | null; // JSON
-  prompt_number: number;
-  discovery_tokens: number; // ROI metrics
-  created_at: string;
-  created_at_epoch: number;
-}
-
-interface StoredSummary {
-  id: number;
-  memory_session_id: string;
-  project: string;
-  request: string | null;
-  investigated: string | null;
-  learned: string | null;
-  completed: string | null;
-  next_steps: string | null;
-  notes: string | null;
-  prompt_number: number;
-  discovery_tokens: number; // ROI metrics
-  created_at: string;
-  created_at_epoch: number;
-}
-
-interface StoredUserPrompt {
-  id: number;
-  content_session_id: string;
-  prompt_number: number;
-  prompt_text: string;
-  created_at: string;
-  created_at_epoch: number;
-  memory_session_id: string;
-  project: string;
-}
-
-export class ChromaSync {
+export class ChromaSync implements VectorBackend {
+  readonly backendName = 'chroma' as const;
   private client: Client | null = null;
   private transport: StdioClientTransport | null = null;
   private connected: boolean = false;
@@ -229,146 +194,11 @@ export class ChromaSync {
     }
   }
 
-  /**
-   * Format observation into Chroma documents (granular approach)
-   * Each semantic field becomes a separate vector document
-   */
-  private formatObservationDocs(obs: StoredObservation): ChromaDocument[] {
-    const documents: ChromaDocument[] = [];
-
-    // Parse JSON fields
-    const facts = obs.facts ? JSON.parse(obs.facts) : [];
-    const concepts = obs.concepts ? JSON.parse(obs.concepts) : [];
-    const files_read = obs.files_read ? JSON.parse(obs.files_read) : [];
-    const files_modified = obs.files_modified ? JSON.parse(obs.files_modified) : [];
-
-    const baseMetadata: Record<string, string | number> = {
-      sqlite_id: obs.id,
-      doc_type: 'observation',
-      memory_session_id: obs.memory_session_id,
-      project: obs.project,
-      created_at_epoch: obs.created_at_epoch,
-      type: obs.type || 'discovery',
-      title: obs.title || 'Untitled'
-    };
-
-    // Add optional metadata fields
-    if (obs.subtitle) {
-      baseMetadata.subtitle = obs.subtitle;
-    }
-    if (concepts.length > 0) {
-      baseMetadata.concepts = concepts.join(',');
-    }
-    if (files_read.length > 0) {
-      baseMetadata.files_read = files_read.join(',');
-    }
-    if (files_modified.length > 0) {
-      baseMetadata.files_modified = files_modified.join(',');
-    }
-
-    // Narrative as separate document
-    if (obs.narrative) {
-      documents.push({
-        id: `obs_${obs.id}_narrative`,
-        document: obs.narrative,
-        metadata: { ...baseMetadata, field_type: 'narrative' }
-      });
-    }
-
-    // Text as separate document (legacy field)
-    if (obs.text) {
-      documents.push({
-        id: `obs_${obs.id}_text`,
-        document: obs.text,
-        metadata: { ...baseMetadata, field_type: 'text' }
-      });
-    }
-
-    // Each fact as separate document
-    facts.forEach((fact: string, index: number) => {
-      documents.push({
-        id: `obs_${obs.id}_fact_${index}`,
-        document: fact,
-        metadata: { ...baseMetadata, field_type: 'fact', fact_index: index }
-      });
-    });
-
-    return documents;
-  }
-
-  /**
-   * Format summary into Chroma documents (granular approach)
-   * Each summary field becomes a separate vector document
-   */
-  private formatSummaryDocs(summary: StoredSummary): ChromaDocument[] {
-    const documents: ChromaDocument[] = [];
-
-    const baseMetadata: Record<string, string | number> = {
-      sqlite_id: summary.id,
-      doc_type: 'session_summary',
-      memory_session_id: summary.memory_session_id,
-      project: summary.project,
-      created_at_epoch: summary.created_at_epoch,
-      prompt_number: summary.prompt_number || 0
-    };
-
-    // Each field becomes a separate document
-    if (summary.request) {
-      documents.push({
-        id: `summary_${summary.id}_request`,
-        document: summary.request,
-        metadata: { ...baseMetadata, field_type: 'request' }
-      });
-    }
-
-    if (summary.investigated) {
-      documents.push({
-        id: `summary_${summary.id}_investigated`,
-        document: summary.investigated,
-        metadata: { ...baseMetadata, field_type: 'investigated' }
-      });
-    }
-
-    if (summary.learned) {
-      documents.push({
-        id: `summary_${summary.id}_learned`,
-        document: summary.learned,
-        metadata: { ...baseMetadata, field_type: 'learned' }
-      });
-    }
-
-    if (summary.completed) {
-      documents.push({
-        id: `summary_${summary.id}_completed`,
-        document: summary.completed,
-        metadata: { ...baseMetadata, field_type: 'completed' }
-      });
-    }
-
-    if (summary.next_steps) {
-      documents.push({
-        id: `summary_${summary.id}_next_steps`,
-        document: summary.next_steps,
-        metadata: { ...baseMetadata, field_type: 'next_steps' }
-      });
-    }
-
-    if (summary.notes) {
-      documents.push({
-        id: `summary_${summary.id}_notes`,
-        document: summary.notes,
-        metadata: { ...baseMetadata, field_type: 'notes' }
-      });
-    }
-
-    return documents;
-  }
-
   /**
    * Add documents to Chroma in batch
    * Throws error if batch add fails
    */
-  private async addDocuments(documents: ChromaDocument[]): Promise<void> {
+  private async addDocuments(documents: VectorDocument[]): Promise<void> {
     if (documents.length === 0) {
       return;
     }
@@ -422,27 +252,11 @@ export class ChromaSync {
   ): Promise<void> {
     if (this.disabled) return;
 
-    // Convert ParsedObservation to StoredObservation format
-    const stored: StoredObservation = {
-      id: observationId,
-      memory_session_id: memorySessionId,
-      project: project,
-      text: null, // Legacy field, not used
-      type: obs.type,
-      title: obs.title,
-      subtitle: obs.subtitle,
-      facts: JSON.stringify(obs.facts),
-      narrative: obs.narrative,
-      concepts: JSON.stringify(obs.concepts),
-      files_read: JSON.stringify(obs.files_read),
-      files_modified: JSON.stringify(obs.files_modified),
-      prompt_number: promptNumber,
-      discovery_tokens: discoveryTokens,
-      created_at: new Date(createdAtEpoch * 1000).toISOString(),
-      created_at_epoch: createdAtEpoch
-    };
+    const stored = toStoredObservation(
+      observationId, memorySessionId, project, obs, promptNumber, createdAtEpoch, discoveryTokens
+    );
 
-    const documents = this.formatObservationDocs(stored);
+    const documents = formatObservationDocs(stored);
 
     logger.info('CHROMA_SYNC', 'Syncing observation', {
       observationId,
@@ -469,24 +283,11 @@ export class ChromaSync {
   ): Promise<void> {
     if (this.disabled) return;
 
-    // Convert ParsedSummary to StoredSummary format
-    const stored: StoredSummary = {
-      id: summaryId,
-      memory_session_id: memorySessionId,
-      project: project,
-      request: summary.request,
-      investigated: summary.investigated,
-      learned: summary.learned,
-      completed: summary.completed,
-      next_steps: summary.next_steps,
-      notes: summary.notes,
-      prompt_number: promptNumber,
-      discovery_tokens: discoveryTokens,
-      created_at: new Date(createdAtEpoch * 1000).toISOString(),
-      created_at_epoch: createdAtEpoch
-    };
+    const stored = toStoredSummary(
+      summaryId, memorySessionId, project, summary, promptNumber, createdAtEpoch, discoveryTokens
+    );
 
-    const documents = this.formatSummaryDocs(stored);
+    const documents = formatSummaryDocs(stored);
 
     logger.info('CHROMA_SYNC', 'Syncing summary', {
       summaryId,
@@ -497,25 +298,6 @@ export class ChromaSync {
     await this.addDocuments(documents);
   }
 
-  /**
-   * Format user prompt into Chroma document
-   * Each prompt becomes a single document (unlike observations/summaries which split by field)
-   */
-  private formatUserPromptDoc(prompt: StoredUserPrompt): ChromaDocument {
-    return {
-      id: `prompt_${prompt.id}`,
-      document: prompt.prompt_text,
-      metadata: {
-        sqlite_id: prompt.id,
-        doc_type: 'user_prompt',
-        memory_session_id: prompt.memory_session_id,
-        project: prompt.project,
-        created_at_epoch: prompt.created_at_epoch,
-        prompt_number: prompt.prompt_number
-      }
-    };
-  }
-
   /**
    * Sync a single user prompt to Chroma
    * Blocks until sync completes, throws on error
@@ -543,7 +325,7 @@ export class ChromaSync {
       project: project
     };
 
-    const document = this.formatUserPromptDoc(stored);
+    const document = formatUserPromptDoc(stored);
 
     logger.info('CHROMA_SYNC', 'Syncing user prompt', {
       promptId,
@@ -553,6 +335,64 @@ export class ChromaSync {
     await this.addDocuments([document]);
   }
 
+  /**
+   * Delete the documents of observations removed from SQLite
+   * Looks up their document IDs (one per narrative and fact), then deletes them
+   * No-op on Windows (Chroma disabled to prevent console popups)
+   */
+  async deleteObservations(observationIds: number[]): Promise<void> {
+    if (this.disabled || observationIds.length === 0) return;
+
+    await this.ensureCollection();
+
+    if (!this.client) {
+      throw new Error(
+        'Chroma client not initialized. Call ensureConnection() before using client methods.' +
+        ` Project: ${this.project}`
+      );
+    }
+
+    try {
+      const result = await this.client.callTool({
+        name: 'chroma_get_documents',
+        arguments: {
+          collection_name: this.collectionName,
+          where: { $and: [{ doc_type: 'observation' }, { sqlite_id: { $in: observationIds } }] },
+          include: []
+        }
+      });
+
+      const data = result.content[0];
+      if (data.type !== 'text') {
+        throw new Error('Unexpected response type from chroma_get_documents');
+      }
+      const ids: string[] = JSON.parse(data.text).ids || [];
+      if (ids.length === 0) {
+        return;
+      }
+
+      await this.client.callTool({
+        name: 'chroma_delete_documents',
+        arguments: {
+          collection_name: this.collectionName,
+          ids
+        }
+      });
+
+      logger.info('CHROMA_SYNC', 'Observation documents deleted', {
+        collection: this.collectionName,
+        observations: observationIds.length,
+        documents: ids.length
+      });
+    } catch (error) {
+      logger.error('CHROMA_SYNC', 'Failed to delete observation documents', {
+        collection: this.collectionName,
+        count: observationIds.length
+      }, error as Error);
+      throw new Error(`Document delete failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
   /**
    * Fetch all existing document IDs from Chroma collection
    * Returns Sets of SQLite IDs for observations, summaries, and prompts
@@ -667,11 +507,11 @@ export class ChromaSync {
         : '';
 
       // Get only observations missing from Chroma
-      const observations = db.db.prepare(`
+      const observations = decryptRows(db.db.prepare(`
         SELECT * FROM observations
         WHERE project = ? ${obsExclusionClause}
         ORDER BY id ASC
-      `).all(this.project) as StoredObservation[];
+      `).all(this.project) as StoredObservation[]);
 
       const totalObsCount = db.db.prepare(`
         SELECT COUNT(*) as count FROM observations WHERE project = ?
@@ -685,9 +525,9 @@ export class ChromaSync {
       });
 
       // Format all observation documents
-      const allDocs: ChromaDocument[] = [];
+      const allDocs: VectorDocument[] = [];
       for (const obs of observations) {
-        allDocs.push(...this.formatObservationDocs(obs));
+        allDocs.push(...formatObservationDocs(obs));
       }
 
       // Sync in batches
@@ -708,11 +548,11 @@ export class ChromaSync {
         : '';
 
       // Get only summaries missing from Chroma
-      const summaries = db.db.prepare(`
+      const summaries = decryptRows(db.db.prepare(`
         SELECT * FROM session_summaries
         WHERE project = ? ${summaryExclusionClause}
         ORDER BY id ASC
-      `).all(this.project) as StoredSummary[];
+      `).all(this.project) as StoredSummary[]);
 
       const totalSummaryCount = db.db.prepare(`
         SELECT COUNT(*) as count FROM session_summaries WHERE project = ?
@@ -726,9 +566,9 @@ export class ChromaSync {
       });
 
       // Format all summary documents
-      const summaryDocs: ChromaDocument[] = [];
+      const summaryDocs: VectorDocument[] = [];
       for (const summary of summaries) {
-        summaryDocs.push(...this.formatSummaryDocs(summary));
+        summaryDocs.push(...formatSummaryDocs(summary));
       }
 
       // Sync in batches
@@ -749,7 +589,7 @@ export class ChromaSync {
         : '';
 
       // Get only user prompts missing from Chroma
-      const prompts = db.db.prepare(`
+      const prompts = decryptRows(db.db.prepare(`
         SELECT
           up.*,
           s.project,
@@ -758,7 +598,7 @@ export class ChromaSync {
         JOIN sdk_sessions s ON up.content_session_id = s.content_session_id
         WHERE s.project = ? ${promptExclusionClause}
         ORDER BY up.id ASC
-      `).all(this.project) as StoredUserPrompt[];
+      `).all(this.project) as StoredUserPrompt[]);
 
       const totalPromptCount = db.db.prepare(`
         SELECT COUNT(*) as count
@@ -775,9 +615,9 @@ export class ChromaSync {
       });
 
       // Format all prompt documents
-      const promptDocs: ChromaDocument[] = [];
+      const promptDocs: VectorDocument[] = [];
       for (const prompt of prompts) {
-        promptDocs.push(this.formatUserPromptDoc(prompt));
+        promptDocs.push(formatUserPromptDoc(prompt));
       }
 
       // Sync in batches
@@ -822,7 +662,7 @@ export class ChromaSync {
     query: string,
     limit: number,
     whereFilter?: Record<string, any>
-  ): Promise<{ ids: number[]; distances: number[]; metadatas: any[] }> {
+  ): Promise<VectorQueryResult> {
     if (this.disabled) {
       return { ids: [], distances: [], metadatas: [] };
     }
@@ -891,23 +731,7 @@ export class ChromaSync {
     const ids: number[] = [];
     const docIds = parsed.ids?.[0] || [];
     for (const docId of docIds) {
-      // Extract sqlite_id from document ID (supports three formats):
-      // - obs_{id}_narrative, obs_{id}_fact_0, etc (observations)
-      // - summary_{id}_request, summary_{id}_learned, etc (session summaries)
-      // - prompt_{id} (user prompts)
-      const obsMatch = docId.match(/obs_(\d+)_/);
-      const summaryMatch = docId.match(/summary_(\d+)_/);
-      const promptMatch = docId.match(/prompt_(\d+)/);
-
-      let sqliteId: number | null = null;
-      if (obsMatch) {
-        sqliteId = parseInt(obsMatch[1], 10);
-      } else if (summaryMatch) {
-        sqliteId = parseInt(summaryMatch[1], 10);
-      } else if (promptMatch) {
-        sqliteId = parseInt(promptMatch[1], 10);
-      }
-
+      const sqliteId = parseSqliteId(docId);
       if (sqliteId !== null && !ids.includes(sqliteId)) {
         ids.push(sqliteId);
       }
@@ -0,0 +1,249 @@
+/**
+ * Vector document formatting
+ *
+ * Shared by every VectorBackend so that Chroma and the in-process SQLite
+ * backend index exactly the same granular documents (one per semantic field).
+ */
+
+import { ParsedObservation, ParsedSummary } from '../../parser/parser.js';
+
+export interface VectorDocument {
+  id: string;
+  document: string;
+  metadata: Record<string, string | number>;
+}
+
+export interface StoredObservation {
+  id: number;
+  memory_session_id: string;
+  project: string;
+  text: string | null;
+  type: string;
+  title: string | null;
+  subtitle: string | null;
+  facts: string | null; // JSON
+  narrative: string | null;
+  concepts: string | null; // JSON
+  files_read: string | null; // JSON
+  files_modified: string | null; // JSON
+  prompt_number: number;
+  discovery_tokens: number; // ROI metrics
+  created_at: string;
+  created_at_epoch: number;
+}
+
+export interface StoredSummary {
+  id: number;
+  memory_session_id: string;
+  project: string;
+  request: string | null;
+  investigated: string | null;
+  learned: string | null;
+  completed: string | null;
+  next_steps: string | null;
+  notes: string | null;
+  prompt_number: number;
+  discovery_tokens: number; // ROI metrics
+  created_at: string;
+  created_at_epoch: number;
+}
+
+export interface StoredUserPrompt {
+  id: number;
+  content_session_id: string;
+  prompt_number: number;
+  prompt_text: string;
+  created_at: string;
+  created_at_epoch: number;
+  memory_session_id: string;
+  project: string;
+}
+
+/**
+ * Convert a freshly parsed observation into the stored row shape
+ */
+export function toStoredObservation(
+  observationId: number,
+  memorySessionId: string,
+  project: string,
+  obs: ParsedObservation,
+  promptNumber: number,
+  createdAtEpoch: number,
+  discoveryTokens: number
+): StoredObservation {
+  return {
+    id: observationId,
+    memory_session_id: memorySessionId,
+    project: project,
+    text: null, // Legacy field, not used
+    type: obs.type,
+    title: obs.title,
+    subtitle: obs.subtitle,
+    facts: JSON.stringify(obs.facts),
+    narrative: obs.narrative,
+    concepts: JSON.stringify(obs.concepts),
+    files_read: JSON.stringify(obs.files_read),
+    files_modified: JSON.stringify(obs.files_modified),
+    prompt_number: promptNumber,
+    discovery_tokens: discoveryTokens,
+    created_at: new Date(createdAtEpoch * 1000).toISOString(),
+    created_at_epoch: createdAtEpoch
+  };
+}
+
+/**
+ * Convert a freshly parsed summary into the stored row shape
+ */
+export function toStoredSummary(
+  summaryId: number,
+  memorySessionId: string,
+  project: string,
+  summary: ParsedSummary,
+  promptNumber: number,
+  createdAtEpoch: number,
+  discoveryTokens: number
+): StoredSummary {
+  return {
+    id: summaryId,
+    memory_session_id: memorySessionId,
+    project: project,
+    request: summary.request,
+    investigated: summary.investigated,
+    learned: summary.learned,
+    completed: summary.completed,
+    next_steps: summary.next_steps,
+    notes: summary.notes,
+    prompt_number: promptNumber,
+    discovery_tokens: discoveryTokens,
+    created_at: new Date(createdAtEpoch * 1000).toISOString(),
+    created_at_epoch: createdAtEpoch
+  };
+}
+
+/**
+ * Format observation into vector documents (granular approach)
+ * Each semantic field becomes a separate vector document
+ */
+export function formatObservationDocs(obs: StoredObservation): VectorDocument[] {
+  const documents: VectorDocument[] = [];
+
+  // Parse JSON fields
+  const facts = obs.facts ? JSON.parse(obs.facts) : [];
+  const concepts = obs.concepts ? JSON.parse(obs.concepts) : [];
+  const files_read = obs.files_read ? JSON.parse(obs.files_read) : [];
+  const files_modified = obs.files_modified ? JSON.parse(obs.files_modified) : [];
+
+  const baseMetadata: Record<string, string | number> = {
+    sqlite_id: obs.id,
+    doc_type: 'observation',
+    memory_session_id: obs.memory_session_id,
+    project: obs.project,
+    created_at_epoch: obs.created_at_epoch,
+    type: obs.type || 'discovery',
+    title: obs.title || 'Untitled'
+  };
+
+  // Add optional metadata fields
+  if (obs.subtitle) {
+    baseMetadata.subtitle = obs.subtitle;
+  }
+  if (concepts.length > 0) {
+    baseMetadata.concepts = concepts.join(',');
+  }
+  if (files_read.length > 0) {
+    baseMetadata.files_read = files_read.join(',');
+  }
+  if (files_modified.length > 0) {
+    baseMetadata.files_modified = files_modified.join(',');
+  }
+
+  // Narrative as separate document
+  if (obs.narrative) {
+    documents.push({
+      id: `obs_${obs.id}_narrative`,
+      document: obs.narrative,
+      metadata: { ...baseMetadata, field_type: 'narrative' }
+    });
+  }
+
+  // Text as separate document (legacy field)
+  if (obs.text) {
+    documents.push({
+      id: `obs_${obs.id}_text`,
+      document: obs.text,
+      metadata: { ...baseMetadata, field_type: 'text' }
+    });
+  }
+
+  // Each fact as separate document
+  facts.forEach((fact: string, index: number) => {
+    documents.push({
+      id: `obs_${obs.id}_fact_${index}`,
+      document: fact,
+      metadata: { ...baseMetadata, field_type: 'fact', fact_index: index }
+    });
+  });
+
+  return documents;
+}
+
+/**
+ * Format summary into vector documents (granular approach)
+ * Each summary field becomes a separate vector document
+ */
+export function formatSummaryDocs(summary: StoredSummary): VectorDocument[] {
+  const documents: VectorDocument[] = [];
+
+  const baseMetadata: Record<string, string | number> = {
+    sqlite_id: summary.id,
+    doc_type: 'session_summary',
+    memory_session_id: summary.memory_session_id,
+    project: summary.project,
+    created_at_epoch: summary.created_at_epoch,
+    prompt_number: summary.prompt_number || 0
+  };
+
+  const fields = ['request', 'investigated', 'learned', 'completed', 'next_steps', 'notes'] as const;
+  for (const field of fields) {
+    const value = summary[field];
+    if (value) {
+      documents.push({
+        id: `summary_${summary.id}_${field}`,
+        document: value,
+        metadata: { ...baseMetadata, field_type: field }
+      });
+    }
+  }
+
+  return documents;
+}
+
+/**
+ * Format user prompt into a vector document
+ * Each prompt becomes a single document (unlike observations/summaries which split by field)
+ */
+export function formatUserPromptDoc(prompt: StoredUserPrompt): VectorDocument {
+  return {
+    id: `prompt_${prompt.id}`,
+    document: prompt.prompt_text,
+    metadata: {
+      sqlite_id: prompt.id,
+      doc_type: 'user_prompt',
+      memory_session_id: prompt.memory_session_id,
+      project: prompt.project,
+      created_at_epoch: prompt.created_at_epoch,
+      prompt_number: prompt.prompt_number
+    }
+  };
+}
+
+/**
+ * Extract the SQLite row ID from a vector document ID (supports three formats):
+ * - obs_{id}_narrative, obs_{id}_fact_0, etc (observations)
+ * - summary_{id}_request, summary_{id}_learned, etc (session summaries)
+ * - prompt_{id} (user prompts)
+ */
+export function parseSqliteId(docId: string): number | null {
+  const match = docId.match(/^(?:obs|summary)_(\d+)_/) || docId.match(/^prompt_(\d+)$/);
+  return match ? parseInt(match[1], 10) : null;
+}
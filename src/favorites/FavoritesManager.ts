@@ -55,6 +55,15 @@ export class FavoritesManager {
     return isFavorite;
   }
 
+  /**
+   * Pin or unpin a favorite; pinned favorites always get a slot in injected context
+   */
+  setPinned(observationId: number, pinned: boolean): FavoriteItem {
+    const item = this.store.setPinned(observationId, pinned);
+    this.emit({ type: 'update', observationId, item });
+    return item;
+  }
+
   /**
    * Check if favorited
    */
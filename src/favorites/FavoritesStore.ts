@@ -1,67 +1,60 @@
 /**
  * Favorites Store
- * 
- * Persistent storage for favorited observations.
+ *
+ * Persistent storage for favorited observations, backed by the favorites
+ * table in the main SQLite database.
  */
 
+import { SessionStore } from '../core/storage/DataStore.js';
+import type { FavoriteRecord } from '../types/database.js';
+
 export interface FavoriteItem {
   observationId: number;
   note?: string;
+  pinned: boolean;
   createdAt: number;
 }
 
 export interface FavoritesStoreOptions {
-  storageKey?: string;
-  maxItems?: number;
+  /** Session store to read and write; defaults to the user's database */
+  sessionStore?: SessionStore;
+}
+
+function toItem(record: FavoriteRecord): FavoriteItem {
+  return {
+    observationId: record.observation_id,
+    note: record.note ?? undefined,
+    pinned: record.pinned === 1,
+    createdAt: record.created_at_epoch,
+  };
 }
 
 export class FavoritesStore {
-  private favorites: Map<number, FavoriteItem> = new Map();
-  private options: FavoritesStoreOptions;
+  private sessionStore: SessionStore;
 
   constructor(options: FavoritesStoreOptions = {}) {
-    this.options = {
-      storageKey: 'claude-recall-favorites',
-      maxItems: 1000,
-      ...options,
-    };
-
-    this.load();
+    this.sessionStore = options.sessionStore ?? new SessionStore();
   }
 
   /**
-   * Add an observation to favorites
+   * Add an observation to favorites (updates the note if already favorited)
    */
   add(observationId: number, note?: string): FavoriteItem {
-    const item: FavoriteItem = {
-      observationId,
-      note,
-      createdAt: Date.now(),
-    };
-
-    this.favorites.set(observationId, item);
-    this.enforceLimit();
-    this.save();
-
-    return item;
+    return toItem(this.sessionStore.setFavorite(observationId, { note }));
   }
 
   /**
    * Remove an observation from favorites
    */
   remove(observationId: number): boolean {
-    const existed = this.favorites.delete(observationId);
-    if (existed) {
-      this.save();
-    }
-    return existed;
+    return this.sessionStore.removeFavorite(observationId);
   }
 
   /**
    * Check if an observation is favorited
    */
   isFavorite(observationId: number): boolean {
-    return this.favorites.has(observationId);
+    return this.sessionStore.getFavorite(observationId) !== null;
   }
 
   /**
@@ -77,52 +70,58 @@ export class FavoritesStore {
     }
   }
 
+  /**
+   * Pin or unpin a favorite (favorites the observation if needed)
+   */
+  setPinned(observationId: number, pinned: boolean): FavoriteItem {
+    return toItem(this.sessionStore.setFavorite(observationId, { pinned }));
+  }
+
   /**
    * Get a favorite item
    */
   get(observationId: number): FavoriteItem | undefined {
-    return this.favorites.get(observationId);
+    const record = this.sessionStore.getFavorite(observationId);
+    return record ? toItem(record) : undefined;
   }
 
   /**
-   * Get all favorites
+   * Get all favorites (newest first)
    */
   getAll(): FavoriteItem[] {
-    return Array.from(this.favorites.values());
+    return this.sessionStore.getFavorites().map(toItem);
   }
 
   /**
    * Get all favorite observation IDs
    */
   getAllIds(): number[] {
-    return Array.from(this.favorites.keys());
+    return this.getAll().map(item => item.observationId);
   }
 
   /**
    * Get favorites count
    */
   count(): number {
-    return this.favorites.size;
+    return this.getAll().length;
   }
 
   /**
    * Update note for a favorite
    */
   updateNote(observationId: number, note: string): boolean {
-    const item = this.favorites.get(observationId);
-    if (item) {
-      item.note = note;
-      this.save();
-      return true;
+    if (!this.isFavorite(observationId)) {
+      return false;
     }
-    return false;
+    this.sessionStore.setFavorite(observationId, { note });
+    return true;
   }
 
   /**
    * Get favorites sorted by date (newest first)
    */
   getSortedByDate(): FavoriteItem[] {
-    return this.getAll().sort((a, b) => b.createdAt - a.createdAt);
+    return this.getAll();
   }
 
   /**
@@ -130,7 +129,7 @@ export class FavoritesStore {
    */
   searchByNote(query: string): FavoriteItem[] {
     const lowerQuery = query.toLowerCase();
-    return this.getAll().filter(item => 
+    return this.getAll().filter(item =>
       item.note?.toLowerCase().includes(lowerQuery)
     );
   }
@@ -139,8 +138,7 @@ export class FavoritesStore {
    * Clear all favorites
    */
   clear(): void {
-    this.favorites.clear();
-    this.save();
+    this.sessionStore.clearFavorites();
   }
 
   /**
@@ -155,48 +153,7 @@ export class FavoritesStore {
    */
   import(items: FavoriteItem[]): void {
     for (const item of items) {
-      this.favorites.set(item.observationId, item);
-    }
-    this.enforceLimit();
-    this.save();
-  }
-
-  private load(): void {
-    if (typeof localStorage === 'undefined') return;
-
-    try {
-      const data = localStorage.getItem(this.options.storageKey!);
-      if (data) {
-        const items: FavoriteItem[] = JSON.parse(data);
-        for (const item of items) {
-          this.favorites.set(item.observationId, item);
-        }
-      }
-    } catch (error) {
-      console.error('Failed to load favorites:', error);
-    }
-  }
-
-  private save(): void {
-    if (typeof localStorage === 'undefined') return;
-
-    try {
-      const data = JSON.stringify(this.getAll());
-      localStorage.setItem(this.options.storageKey!, data);
-    } catch (error) {
-      console.error('Failed to save favorites:', error);
-    }
-  }
-
-  private enforceLimit(): void {
-    if (this.favorites.size <= this.options.maxItems!) return;
-
-    // Remove oldest items
-    const sorted = this.getSortedByDate();
-    const toRemove = sorted.slice(this.options.maxItems!);
-    
-    for (const item of toRemove) {
-      this.favorites.delete(item.observationId);
+      this.sessionStore.setFavorite(item.observationId, { note: item.note ?? null, pinned: item.pinned ?? false });
     }
   }
 }
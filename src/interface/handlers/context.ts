@@ -18,9 +18,10 @@ export const contextHandler: EventHandler = {
     const context = getProjectContext(cwd);
     const port = getWorkerPort();
 
-    // Pass all projects (parent + worktree if applicable) for unified timeline
+    // Pass all projects (parent + worktree if applicable) for unified timeline,
+    // and the session so its prompt context skips what is shown here
     const projectsParam = context.allProjects.join(',');
-    const url = `http://127.0.0.1:${port}/api/context/inject?projects=${encodeURIComponent(projectsParam)}`;
+    const url = `http://127.0.0.1:${port}/api/context/inject?projects=${encodeURIComponent(projectsParam)}&session_id=${encodeURIComponent(input.sessionId)}`;
 
     // Note: Removed AbortSignal.timeout due to Windows Bun cleanup issue (libuv assertion)
     // Worker service has its own timeouts, so client-side timeout is redundant
@@ -7,6 +7,11 @@
 import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js';
 import { ensureWorkerRunning, getWorkerPort } from '../../common/engine-utils.js';
 import { logger } from '../../utils/logger.js';
+import { loadRedactor } from '../../utils/redaction.js';
+import { getProjectName } from '../../utils/project-name.js';
+import { evaluateToolUse, limitToolResponse, loadPrivacyPolicy } from '../../common/privacy-policy.js';
+import { reportRedactions } from './redaction.js';
+import { reportPolicyDecision } from './policy.js';
 
 export const observationHandler: EventHandler = {
   async execute(input: NormalizedHookInput): Promise<HookResult> {
@@ -32,6 +37,20 @@ export const observationHandler: EventHandler = {
       throw new Error(`Missing cwd in PostToolUse hook input for session ${sessionId}, tool ${toolName}`);
     }
 
+    // Apply the privacy policy: suppressed tool uses never reach the worker
+    const policy = loadPrivacyPolicy(cwd);
+    const project = getProjectName(cwd);
+    const suppressed = evaluateToolUse(policy, toolName, toolInput);
+    if (suppressed) {
+      logger.debug('HOOK', `Privacy policy ${suppressed.action}: ${suppressed.target}`, { rule: suppressed.rule, source: suppressed.source });
+      await reportPolicyDecision(port, sessionId, project, toolName, suppressed);
+      return { continue: true, suppressOutput: true };
+    }
+    const limited = limitToolResponse(policy, toolName, toolResponse);
+
+    // Redact secrets before anything leaves the hook
+    const redactor = loadRedactor();
+
     // Send to worker - worker handles privacy check and database operations
     const response = await fetch(`http://127.0.0.1:${port}/api/sessions/observations`, {
       method: 'POST',
@@ -39,8 +58,8 @@ export const observationHandler: EventHandler = {
       body: JSON.stringify({
         contentSessionId: sessionId,
         tool_name: toolName,
-        tool_input: toolInput,
-        tool_response: toolResponse,
+        tool_input: redactor ? redactor.redactValue(toolInput) : toolInput,
+        tool_response: redactor ? redactor.redactValue(limited.response) : limited.response,
         cwd
       })
       // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
@@ -51,6 +70,10 @@ export const observationHandler: EventHandler = {
     }
 
     logger.debug('HOOK', 'Observation sent successfully', { toolName });
+    await reportRedactions(port, sessionId, redactor);
+    if (limited.decision) {
+      await reportPolicyDecision(port, sessionId, project, toolName, limited.decision);
+    }
 
     return { continue: true, suppressOutput: true };
   }
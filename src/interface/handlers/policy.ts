@@ -0,0 +1,41 @@
+/**
+ * Privacy policy reporting shared by the hook handlers
+ *
+ * Handlers enforce the policy themselves (see common/privacy-policy.ts) and
+ * report what was suppressed so the viewer can show which rule applied.
+ */
+
+import { SKIP_TOOLS_SOURCE, type PolicyDecision } from '../../common/privacy-policy.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Record a policy decision in the worker. Tools skipped through
+ * MOLTBRAIN_SKIP_TOOLS are routine and not reported; failures are logged
+ * and never block the hook.
+ */
+export async function reportPolicyDecision(
+  port: number,
+  contentSessionId: string,
+  project: string,
+  toolName: string,
+  decision: PolicyDecision
+): Promise<void> {
+  if (decision.source === SKIP_TOOLS_SOURCE) {
+    return;
+  }
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/api/policy/suppressions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, project, toolName, ...decision })
+      // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
+    });
+
+    if (!response.ok) {
+      logger.debug('HOOK', 'Policy suppression not recorded', { status: response.status });
+    }
+  } catch (error) {
+    logger.debug('HOOK', 'Policy suppression report failed', {}, error as Error);
+  }
+}
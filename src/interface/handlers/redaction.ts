@@ -0,0 +1,36 @@
+/**
+ * Redaction reporting shared by the hook handlers
+ *
+ * Handlers redact their payloads with a Redactor (see utils/redaction.ts)
+ * and report the per-kind counts here so the worker can show them in /api/stats/redactions.
+ */
+
+import type { Redactor } from '../../utils/redaction.js';
+import { logger } from '../../utils/logger.js';
+
+/**
+ * Send a session's redaction counts to the worker. Only called when something
+ * was redacted; failures are logged and never block the hook.
+ */
+export async function reportRedactions(port: number, contentSessionId: string, redactor: Redactor | null): Promise<void> {
+  if (!redactor || redactor.total === 0) {
+    return;
+  }
+
+  logger.debug('HOOK', 'Redacted sensitive content', { contentSessionId, counts: redactor.counts });
+
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/api/sessions/redactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, counts: redactor.counts })
+      // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
+    });
+
+    if (!response.ok) {
+      logger.debug('HOOK', 'Redaction counts not recorded', { status: response.status });
+    }
+  } catch (error) {
+    logger.debug('HOOK', 'Redaction report failed', {}, error as Error);
+  }
+}
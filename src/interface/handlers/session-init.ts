@@ -8,18 +8,24 @@ import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js'
 import { ensureWorkerRunning, getWorkerPort } from '../../common/engine-utils.js';
 import { getProjectName } from '../../utils/project-name.js';
 import { logger } from '../../utils/logger.js';
+import { loadRedactor } from '../../utils/redaction.js';
+import { reportRedactions } from './redaction.js';
 
 export const sessionInitHandler: EventHandler = {
   async execute(input: NormalizedHookInput): Promise<HookResult> {
     // Ensure worker is running before any other logic
     await ensureWorkerRunning();
 
-    const { sessionId, cwd, prompt } = input;
+    const { sessionId, cwd } = input;
 
-    if (!prompt) {
+    if (!input.prompt) {
       throw new Error('sessionInitHandler requires prompt');
     }
 
+    // Redact secrets before the prompt is stored or sent to the agent
+    const redactor = loadRedactor();
+    const prompt = redactor ? redactor.redactText(input.prompt) : input.prompt;
+
     const project = getProjectName(cwd);
     const port = getWorkerPort();
 
@@ -51,6 +57,7 @@ export const sessionInitHandler: EventHandler = {
     const promptNumber = initResult.promptNumber;
 
     logger.debug('HOOK', 'session-init: Received from /api/sessions/init', { sessionDbId, promptNumber, skipped: initResult.skipped });
+    await reportRedactions(port, sessionId, redactor);
 
     // Debug-level alignment log for detailed tracing
     logger.debug('HOOK', `[ALIGNMENT] Hook Entry | contentSessionId=${sessionId} | prompt#=${promptNumber} | sessionDbId=${sessionDbId}`);
@@ -63,6 +70,9 @@ export const sessionInitHandler: EventHandler = {
       return { continue: true, suppressOutput: true };
     }
 
+    // Bind the session to its project's mode before the agent builds its prompt
+    await bindSessionMode(port, sessionId, project, cwd);
+
     // Initialize SDK agent for Claude Code
     if (sessionDbId) {
       // Strip leading slash from commands for memory agent
@@ -88,6 +98,70 @@ export const sessionInitHandler: EventHandler = {
       sessionId: sessionDbId
     });
 
+    const additionalContext = await fetchPromptContext(port, sessionId, project, prompt);
+    if (additionalContext) {
+      return {
+        continue: true,
+        hookSpecificOutput: {
+          hookEventName: 'UserPromptSubmit',
+          additionalContext
+        }
+      };
+    }
+
     return { continue: true, suppressOutput: true };
   }
 };
+
+/**
+ * Ask the worker for observations matching the prompt.
+ * The worker returns an empty context when the feature is disabled, and a
+ * failure here must never block the prompt, so errors yield no context.
+ */
+async function fetchPromptContext(
+  port: number,
+  contentSessionId: string,
+  project: string,
+  prompt: string
+): Promise<string> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/api/context/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, project, prompt })
+      // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
+    });
+
+    if (!response.ok) {
+      logger.debug('HOOK', 'session-init: Prompt context unavailable', { status: response.status });
+      return '';
+    }
+
+    const result = await response.json() as { context?: string };
+    return result.context?.trim() ?? '';
+  } catch (error) {
+    logger.debug('HOOK', 'session-init: Prompt context request failed', {}, error as Error);
+    return '';
+  }
+}
+
+/**
+ * Have the worker pick the session's mode from the project and working
+ * directory. Only the first call per session binds; a failure leaves the
+ * worker to bind by project alone.
+ */
+async function bindSessionMode(port: number, contentSessionId: string, project: string, cwd: string): Promise<void> {
+  try {
+    const response = await fetch(`http://127.0.0.1:${port}/api/sessions/mode`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, project, cwd })
+      // Note: Removed signal to avoid Windows Bun cleanup issue (libuv assertion)
+    });
+    if (!response.ok) {
+      logger.debug('HOOK', 'session-init: Mode binding failed', { status: response.status });
+    }
+  } catch (error) {
+    logger.debug('HOOK', 'session-init: Mode binding request failed', {}, error as Error);
+  }
+}
@@ -10,6 +10,8 @@ import type { EventHandler, NormalizedHookInput, HookResult } from '../types.js'
 import { ensureWorkerRunning, getWorkerPort } from '../../common/engine-utils.js';
 import { logger } from '../../utils/logger.js';
 import { extractLastMessage } from '../../common/transcript-parser.js';
+import { loadRedactor } from '../../utils/redaction.js';
+import { reportRedactions } from './redaction.js';
 
 export const summarizeHandler: EventHandler = {
   async execute(input: NormalizedHookInput): Promise<HookResult> {
@@ -28,7 +30,9 @@ export const summarizeHandler: EventHandler = {
     // Extract last assistant message from transcript (the work Claude did)
     // Note: "user" messages in transcripts are mostly tool_results, not actual user input.
     // The user's original request is already stored in user_prompts table.
-    const lastAssistantMessage = extractLastMessage(transcriptPath, 'assistant', true);
+    const redactor = loadRedactor();
+    const lastMessage = extractLastMessage(transcriptPath, 'assistant', true);
+    const lastAssistantMessage = redactor && lastMessage ? redactor.redactText(lastMessage) : lastMessage;
 
     logger.dataIn('HOOK', 'Stop: Requesting summary', {
       workerPort: port,
@@ -52,6 +56,7 @@ export const summarizeHandler: EventHandler = {
     }
 
     logger.debug('HOOK', 'Summary request sent successfully');
+    await reportRedactions(port, sessionId, redactor);
 
     return { continue: true, suppressOutput: true };
   }
@@ -5,6 +5,19 @@
 
 import { logger } from '../utils/logger.js';
 import { ModeManager } from '../core/domain/ModeManager.js';
+import type { ObservationLinkKind } from '../types/database.js';
+
+export const OBSERVATION_LINK_KINDS: readonly ObservationLinkKind[] = [
+  'supersedes',
+  'contradicts',
+  'depends-on',
+  'follows-up'
+];
+
+export interface ParsedRelation {
+  id: number;
+  kind: ObservationLinkKind;
+}
 
 export interface ParsedObservation {
   type: string;
@@ -15,6 +28,7 @@ export interface ParsedObservation {
   concepts: string[];
   files_read: string[];
   files_modified: string[];
+  relates_to?: ParsedRelation[];
 }
 
 export interface ParsedSummary {
@@ -29,8 +43,11 @@ export interface ParsedSummary {
 /**
  * Parse observation XML blocks from SDK response
  * Returns all observations found in the response
+ *
+ * @param modeId - Mode the session is bound to; types are validated against
+ *   it (default: active mode)
  */
-export function parseObservations(text: string, correlationId?: string): ParsedObservation[] {
+export function parseObservations(text: string, correlationId?: string, modeId?: string | null): ParsedObservation[] {
   const observations: ParsedObservation[] = [];
 
   // Match <observation>...</observation> blocks (non-greedy)
@@ -49,13 +66,14 @@ export function parseObservations(text: string, correlationId?: string): ParsedO
     const concepts = extractArrayElements(obsContent, 'concepts', 'concept');
     const files_read = extractArrayElements(obsContent, 'files_read', 'file');
     const files_modified = extractArrayElements(obsContent, 'files_modified', 'file');
+    const relates_to = extractRelations(obsContent, correlationId);
 
     // NOTE FROM nhevers: ALWAYS save observations - never skip. 10/24/2025
     // All fields except type are nullable in schema
     // If type is missing or invalid, use first type from mode as fallback
 
-    // Determine final type using active mode's valid types
-    const mode = ModeManager.getInstance().getActiveMode();
+    // Determine final type using the session mode's valid types
+    const mode = modeId ? ModeManager.getInstance().getMode(modeId) : ModeManager.getInstance().getActiveMode();
     const validTypes = mode.observation_types.map(t => t.id);
     const fallbackType = validTypes[0]; // First type in mode's list is the fallback
     let finalType = fallbackType;
@@ -91,7 +109,8 @@ export function parseObservations(text: string, correlationId?: string): ParsedO
       narrative,
       concepts: cleanedConcepts,
       files_read,
-      files_modified
+      files_modified,
+      ...(relates_to.length > 0 && { relates_to })
     });
   }
 
@@ -197,3 +216,35 @@ function extractArrayElements(content: string, arrayName: string, elementName: s
 
   return elements;
 }
+
+/**
+ * Extract <relates_to id="123" kind="supersedes"/> elements
+ * Kinds accept underscores (depends_on) as well as hyphens; invalid entries are skipped
+ */
+function extractRelations(content: string, correlationId?: string): ParsedRelation[] {
+  const relations: ParsedRelation[] = [];
+  const seen = new Set<string>();
+  const relationRegex = /<relates_to\b([^>]*?)\/?>/g;
+
+  let match;
+  while ((match = relationRegex.exec(content)) !== null) {
+    const attributes = match[1];
+    const idMatch = /\bid\s*=\s*["']?#?(\d+)["']?/.exec(attributes);
+    const kindMatch = /\bkind\s*=\s*["']([^"']+)["']/.exec(attributes);
+
+    const id = idMatch ? parseInt(idMatch[1], 10) : NaN;
+    const kind = kindMatch?.[1].trim().toLowerCase().replace(/_/g, '-') as ObservationLinkKind | undefined;
+
+    if (!Number.isInteger(id) || id <= 0 || !kind || !OBSERVATION_LINK_KINDS.includes(kind)) {
+      logger.debug('PARSER', 'Skipping invalid relates_to element', { correlationId, element: match[0] });
+      continue;
+    }
+
+    const key = `${id}:${kind}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    relations.push({ id, kind });
+  }
+
+  return relations;
+}
@@ -5,6 +5,8 @@
 
 import { logger } from '../utils/logger.js';
 import type { ModeConfig } from '../core/domain/types.js';
+import { OBSERVATION_LINK_KINDS } from './parser.js';
+import type { ParsedObservation } from './parser.js';
 
 export interface Observation {
   id: number;
@@ -76,6 +78,11 @@ ${mode.prompts.output_format_header}
     <file>${mode.prompts.xml_file_placeholder}</file>
     <file>${mode.prompts.xml_file_placeholder}</file>
   </files_modified>
+  <!--
+    Optional: when this observation replaces, contradicts, depends on or follows up an
+    earlier observation whose ID you know (e.g. #123 in injected context), link it:
+    <relates_to id="[observation ID]" kind="[ ${OBSERVATION_LINK_KINDS.join(' | ')} ]"/>
+  -->
 </observation>
 \`\`\`
 ${mode.prompts.format_examples}
@@ -224,6 +231,11 @@ ${mode.prompts.output_format_header}
     <file>${mode.prompts.xml_file_placeholder}</file>
     <file>${mode.prompts.xml_file_placeholder}</file>
   </files_modified>
+  <!--
+    Optional: when this observation replaces, contradicts, depends on or follows up an
+    earlier observation whose ID you know (e.g. #123 in injected context), link it:
+    <relates_to id="[observation ID]" kind="[ ${OBSERVATION_LINK_KINDS.join(' | ')} ]"/>
+  -->
 </observation>
 \`\`\`
 ${mode.prompts.format_examples}
@@ -231,4 +243,119 @@ ${mode.prompts.format_examples}
 ${mode.prompts.footer}
 
 ${mode.prompts.header_memory_continued}`;
-} 
\ No newline at end of file
+} 
+/**
+ * Build prompt asking the agent to merge redundant observations into one
+ */
+export function buildConsolidationPrompt(
+  project: string,
+  observations: Array<ParsedObservation & { id: number; created_at: string }>,
+  mode: ModeConfig
+): string {
+  const originals = observations.map(obs => `<original id="${obs.id}" recorded_at="${obs.created_at}">
+  <type>${obs.type}</type>
+  <title>${obs.title ?? ''}</title>
+  <subtitle>${obs.subtitle ?? ''}</subtitle>
+  <facts>${obs.facts.map(fact => `\n    <fact>${fact}</fact>`).join('')}
+  </facts>
+  <narrative>${obs.narrative ?? ''}</narrative>
+  <concepts>${obs.concepts.join(', ')}</concepts>
+  <files_read>${obs.files_read.join(', ')}</files_read>
+  <files_modified>${obs.files_modified.join(', ')}</files_modified>
+</original>`).join('\n');
+
+  return `${mode.prompts.system_identity}
+
+You are consolidating memory for the project "${project}". The observations below were recorded
+at different times and describe overlapping work on the same files and concepts.
+
+Write ONE observation that replaces all of them:
+- Keep every distinct fact; drop repetition.
+- When observations disagree, prefer the most recent one.
+- Union the concepts and files that are still relevant.
+- Use the type that best describes the combined work.
+
+<originals>
+${originals}
+</originals>
+
+${mode.prompts.output_format_header}
+
+\`\`\`xml
+<observation>
+  <type>[ ${mode.observation_types.map(t => t.id).join(' | ')} ]</type>
+  <title>${mode.prompts.xml_title_placeholder}</title>
+  <subtitle>${mode.prompts.xml_subtitle_placeholder}</subtitle>
+  <facts>
+    <fact>${mode.prompts.xml_fact_placeholder}</fact>
+  </facts>
+  <narrative>${mode.prompts.xml_narrative_placeholder}</narrative>
+  <concepts>
+    <concept>${mode.prompts.xml_concept_placeholder}</concept>
+  </concepts>
+  <files_read>
+    <file>${mode.prompts.xml_file_placeholder}</file>
+  </files_read>
+  <files_modified>
+    <file>${mode.prompts.xml_file_placeholder}</file>
+  </files_modified>
+</observation>
+\`\`\`
+
+Respond with the single <observation> block only.`;
+}
+
+/**
+ * Sample session and tool event for previewing a mode's prompts
+ */
+export interface PromptPreviewSample {
+  project: string;
+  user_prompt: string;
+  tool_name: string;
+  tool_input: unknown;
+  tool_output: unknown;
+  cwd?: string;
+  last_assistant_message: string;
+}
+
+export const DEFAULT_PREVIEW_SAMPLE: PromptPreviewSample = {
+  project: 'my-app',
+  user_prompt: 'The login form accepts empty passwords, please fix it',
+  tool_name: 'Edit',
+  tool_input: {
+    file_path: 'src/auth/validate.ts',
+    old_string: 'return password !== undefined;',
+    new_string: 'return typeof password === \'string\' && password.length > 0;'
+  },
+  tool_output: { success: true },
+  cwd: '/home/user/my-app',
+  last_assistant_message: 'Fixed: validatePassword now rejects empty strings, and a test covers the empty-password case.'
+};
+
+/**
+ * Render the prompts a mode produces for one sample tool event, as the
+ * worker would send them (used by the mode editor's live preview)
+ */
+export function buildPromptPreview(
+  mode: ModeConfig,
+  sample: PromptPreviewSample = DEFAULT_PREVIEW_SAMPLE
+): { init: string; observation: string; summary: string } {
+  return {
+    init: buildInitPrompt(sample.project, 'preview-session', sample.user_prompt, mode),
+    observation: buildObservationPrompt({
+      id: 0,
+      tool_name: sample.tool_name,
+      tool_input: JSON.stringify(sample.tool_input),
+      tool_output: JSON.stringify(sample.tool_output),
+      created_at_epoch: Date.now(),
+      cwd: sample.cwd
+    }),
+    summary: buildSummaryPrompt({
+      id: 0,
+      memory_session_id: null,
+      project: sample.project,
+      user_prompt: sample.user_prompt,
+      last_assistant_message: sample.last_assistant_message
+    }, mode)
+  };
+}
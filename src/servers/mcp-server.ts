@@ -41,7 +41,9 @@ const WORKER_BASE_URL = `http://${WORKER_HOST}:${WORKER_PORT}`;
  */
 const TOOL_ENDPOINT_MAP: Record<string, string> = {
   'search': '/api/search',
-  'timeline': '/api/timeline'
+  'timeline': '/api/timeline',
+  'related': '/api/related',
+  'find_by_commit': '/api/observations/by-commit'
 };
 
 /**
@@ -233,6 +235,45 @@ NEVER fetch full details without filtering first. 10x token savings.`,
     handler: async (args: any) => {
       return await callWorkerAPIPost('/api/observations/batch', args);
     }
+  },
+  {
+    name: 'related',
+    description: 'Walk the observation relationship graph from an anchor. Params: anchor (observation ID, required), hops (default 2, max 5), kinds (comma-separated: supersedes,contradicts,depends-on,follows-up)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        anchor: {
+          type: 'number',
+          description: 'Observation ID to start from (required)'
+        }
+      },
+      required: ['anchor'],
+      additionalProperties: true
+    },
+    handler: async (args: any) => {
+      const endpoint = TOOL_ENDPOINT_MAP['related'];
+      return await callWorkerAPI(endpoint, args);
+    }
+  },
+  {
+    name: 'find_by_commit',
+    description: 'Find observations whose file changes landed in a git commit. Params: sha (full or abbreviated commit sha, required), project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sha: {
+          type: 'string',
+          description: 'Commit sha, at least 4 characters (required)'
+        }
+      },
+      required: ['sha'],
+      additionalProperties: true
+    },
+    handler: async (args: any) => {
+      const { sha, ...params } = args;
+      const endpoint = `${TOOL_ENDPOINT_MAP['find_by_commit']}/${encodeURIComponent(String(sha ?? ''))}`;
+      return await callWorkerAPI(endpoint, params);
+    }
   }
 ];
 
@@ -56,6 +56,10 @@ export interface SdkSessionRecord {
   status: 'active' | 'completed' | 'failed';
   worker_port?: number;
   prompt_counter?: number;
+  mode_id?: string | null;
+  namespace_channel?: string | null;  // Chat channel the session came from (null: Claude Code)
+  namespace_user?: string | null;  // Chat user the session belongs to (null: the whole channel)
+  namespace_user_name?: string | null;
 }
 
 /**
@@ -74,6 +78,193 @@ export interface ObservationRecord {
   source_files?: string;
   prompt_number?: number;
   discovery_tokens?: number;
+  subtitle?: string | null;
+  facts?: string | null;  // JSON array
+  narrative?: string | null;
+  concepts?: string | null;  // JSON array
+  files_read?: string | null;  // JSON array
+  files_modified?: string | null;  // JSON array
+  superseded_by?: number | null;  // Consolidated observation that replaced this one
+  git_head_sha?: string | null;  // HEAD when the tool use was captured
+  git_dirty?: number | null;  // 1 if the working tree had uncommitted changes
+  commit_reconcile_attempts?: number;  // Reconciler passes that found no commit for it
+  file_hashes?: string | null;  // JSON object: referenced file path -> content hash
+  staleness?: ObservationStaleness | null;  // Last staleness check result
+  namespace_channel?: string | null;  // Copied from the session
+  namespace_user?: string | null;  // Copied from the session
+  namespace_scope?: NamespaceScope | null;  // Who can recall it (null: project only)
+  moltbook_post_id?: string | null;  // MoltBook post it was published in
+}
+
+/**
+ * How widely a chat observation is shared: with its user in its channel,
+ * with everyone in its channel, or with every channel of its project
+ */
+export type NamespaceScope = 'user' | 'channel' | 'global';
+
+/**
+ * Observations or a summary shared as a MoltBook post
+ */
+export interface MoltBookPostRecord {
+  post_id: string;
+  project: string;
+  submolt: string;
+  title: string;
+  published_at_epoch: number;
+  comments_synced_at_epoch: number | null;
+  observation_ids: number[];  // Observations published in the post
+  summary_id: number | null;  // Summary published in the post
+  replies: number;  // Comments synced back as observations
+}
+
+/**
+ * A chat namespace with its memory counts, for the admin view
+ */
+export interface NamespaceRecord {
+  project: string;
+  channel: string;
+  user_id: string | null;
+  user_name: string | null;
+  sessions: number;
+  observations: number;
+  last_activity_epoch: number;
+}
+
+/**
+ * Whether an observation's referenced files still match what was recorded
+ */
+export type ObservationStaleness = 'fresh' | 'stale' | 'orphaned';
+
+/**
+ * Relationship kinds between observations (observation_links.kind)
+ */
+export type ObservationLinkKind = 'supersedes' | 'contradicts' | 'depends-on' | 'follows-up';
+
+/**
+ * Directed link between two observations: from_id <kind> to_id
+ * (e.g. 57 supersedes 42)
+ */
+export interface ObservationLinkRecord {
+  id: number;
+  from_id: number;
+  to_id: number;
+  kind: ObservationLinkKind;
+  created_at_epoch: number;
+}
+
+/**
+ * Git state captured alongside an observation
+ */
+export interface ObservationGitState {
+  headSha: string;
+  dirty: boolean;
+}
+
+/**
+ * Commit that eventually contained an observation's file changes
+ * (observation_commits table, filled by the commit reconciler)
+ */
+export interface ObservationCommitRecord {
+  id: number;
+  observation_id: number;
+  commit_sha: string;
+  created_at_epoch: number;
+}
+
+/**
+ * Favorited observation; pinned favorites always get a slot in injected context
+ */
+export interface FavoriteRecord {
+  observation_id: number;
+  note: string | null;
+  pinned: number;  // 0 or 1
+  created_at_epoch: number;
+}
+
+/**
+ * User-defined tag
+ */
+export interface TagRecord {
+  id: number;
+  name: string;
+  color: string;
+  description: string | null;
+  created_at_epoch: number;
+}
+
+/**
+ * Secrets redacted by the hooks for one session, by detector or rule name
+ */
+export interface SessionRedactionStats {
+  content_session_id: string;
+  total: number;
+  by_kind: Record<string, number>;
+  updated_at_epoch: number;
+}
+
+/**
+ * Tool use a privacy policy kept out of observations (or truncated)
+ */
+export interface PolicySuppressionRecord {
+  id: number;
+  content_session_id: string;
+  project: string;
+  tool_name: string;
+  action: 'ignore_tool' | 'ignore_path' | 'summaries_only' | 'truncate';
+  rule: string;
+  source: string;
+  target: string;
+  created_at_epoch: number;
+}
+
+/**
+ * Lifecycle of a reprocess run: replaying -> staged -> applied -> rolled_back
+ * (or failed / discarded before it is applied)
+ */
+export type ReprocessRunStatus = 'replaying' | 'staged' | 'failed' | 'applied' | 'rolled_back' | 'discarded';
+
+/**
+ * Replay of historical sessions through the current agent into a staging generation
+ */
+export interface ReprocessRunRecord {
+  id: number;
+  project: string;
+  mode_id: string | null;  // Mode override (null: each session's own mode)
+  provider: string | null;  // Provider override (null: provider chain)
+  status: ReprocessRunStatus;
+  error: string | null;
+  created_at_epoch: number;
+  completed_at_epoch: number | null;
+  applied_at_epoch: number | null;
+  rolled_back_at_epoch: number | null;
+}
+
+/**
+ * Source session replayed by a reprocess run
+ */
+export interface ReprocessSessionRecord {
+  run_id: number;
+  source_session_id: number;
+  memory_session_id: string;
+  status: 'pending' | 'replaying' | 'staged' | 'failed';
+  events: number;  // Tool events replayed
+  error: string | null;
+}
+
+/**
+ * Observation held outside the live table by a reprocess run.
+ * 'staged' rows are the new generation (observation_id is set once applied);
+ * 'previous' rows are the live observations an apply replaced.
+ */
+export interface ReprocessObservationRecord {
+  id: number;
+  run_id: number;
+  generation: 'staged' | 'previous';
+  memory_session_id: string;
+  observation_id: number | null;
+  row_json: string;  // Observation columns, sensitive fields sealed as stored
+  dependents_json: string | null;  // Rows referencing the observation, by table
+  created_at_epoch: number;
 }
 
 /**
@@ -92,6 +283,7 @@ export interface SessionSummaryRecord {
   created_at_epoch: number;
   prompt_number?: number;
   discovery_tokens?: number;
+  moltbook_post_id?: string | null;  // MoltBook post it was published in
 }
 
 /**
@@ -2,10 +2,15 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { Header } from './components/Header';
 import { Feed } from './components/Feed';
 import { ContextSettingsModal } from './components/ContextSettingsModal';
+import { ModeEditorModal } from './components/ModeEditorModal';
+import { ReprocessModal } from './components/ReprocessModal';
+import { NamespacesModal } from './components/NamespacesModal';
 import { LogsDrawer } from './components/LogsModal';
 import { useSSE } from './hooks/useSSE';
 import { useSettings } from './hooks/useSettings';
 import { useStats } from './hooks/useStats';
+import { useProviderHealth } from './hooks/useProviderHealth';
+import { usePolicySuppressions } from './hooks/usePolicySuppressions';
 import { usePagination } from './hooks/usePagination';
 import { useTheme } from './hooks/useTheme';
 import { Observation, Summary, UserPrompt } from './types';
@@ -15,6 +20,9 @@ export function App() {
   const [currentFilter, setCurrentFilter] = useState('');
   const [contextPreviewOpen, setContextPreviewOpen] = useState(false);
   const [logsModalOpen, setLogsModalOpen] = useState(false);
+  const [modeEditorOpen, setModeEditorOpen] = useState(false);
+  const [reprocessOpen, setReprocessOpen] = useState(false);
+  const [namespacesOpen, setNamespacesOpen] = useState(false);
   const [paginatedObservations, setPaginatedObservations] = useState<Observation[]>([]);
   const [paginatedSummaries, setPaginatedSummaries] = useState<Summary[]>([]);
   const [paginatedPrompts, setPaginatedPrompts] = useState<UserPrompt[]>([]);
@@ -22,6 +30,8 @@ export function App() {
   const { observations, summaries, prompts, projects, isProcessing, queueDepth, isConnected } = useSSE();
   const { settings, saveSettings, isSaving, saveStatus } = useSettings();
   const { stats, refreshStats } = useStats();
+  const providers = useProviderHealth();
+  const suppressions = usePolicySuppressions(currentFilter);
   const { resolvedTheme } = useTheme();
   const pagination = usePagination(currentFilter);
 
@@ -55,6 +65,21 @@ export function App() {
     setContextPreviewOpen(prev => !prev);
   }, []);
 
+  // Toggle mode editor modal
+  const toggleModeEditor = useCallback(() => {
+    setModeEditorOpen(prev => !prev);
+  }, []);
+
+  // Toggle reprocess modal
+  const toggleReprocess = useCallback(() => {
+    setReprocessOpen(prev => !prev);
+  }, []);
+
+  // Toggle namespaces modal
+  const toggleNamespaces = useCallback(() => {
+    setNamespacesOpen(prev => !prev);
+  }, []);
+
   // Toggle logs modal
   const toggleLogsModal = useCallback(() => {
     setLogsModalOpen(prev => !prev);
@@ -101,13 +126,18 @@ export function App() {
         onFilterChange={setCurrentFilter}
         isProcessing={isProcessing}
         queueDepth={queueDepth}
+        providers={providers}
         onContextPreviewToggle={toggleContextPreview}
+        onModeEditorToggle={toggleModeEditor}
+        onReprocessToggle={toggleReprocess}
+        onNamespacesToggle={toggleNamespaces}
       />
 
       <Feed
         observations={allObservations}
         summaries={allSummaries}
         prompts={allPrompts}
+        suppressions={suppressions}
         onLoadMore={handleLoadMore}
         isLoading={pagination.observations.isLoading || pagination.summaries.isLoading || pagination.prompts.isLoading}
         hasMore={pagination.observations.hasMore || pagination.summaries.hasMore || pagination.prompts.hasMore}
@@ -122,6 +152,25 @@ export function App() {
         saveStatus={saveStatus}
       />
 
+      <ModeEditorModal
+        isOpen={modeEditorOpen}
+        onClose={toggleModeEditor}
+      />
+
+      <ReprocessModal
+        isOpen={reprocessOpen}
+        onClose={toggleReprocess}
+        projects={projects}
+        currentFilter={currentFilter}
+      />
+
+      <NamespacesModal
+        isOpen={namespacesOpen}
+        onClose={toggleNamespaces}
+        projects={projects}
+        currentFilter={currentFilter}
+      />
+
       <button
         className="console-toggle-btn"
         onClick={toggleLogsModal}
@@ -13,7 +13,7 @@ interface ContextSettingsModalProps {
 }
 
 // Collapsible section component
-function CollapsibleSection({
+export function CollapsibleSection({
   title,
   description,
   children,
@@ -111,7 +111,7 @@ function ChipGroup({
 }
 
 // Form field with optional tooltip
-function FormField({
+export function FormField({
   label,
   tooltip,
   children
@@ -1,21 +1,23 @@
 import React, { useMemo, useRef, useEffect } from 'react';
-import { Observation, Summary, UserPrompt, FeedItem } from '../types';
+import { Observation, Summary, UserPrompt, FeedItem, PolicySuppression } from '../types';
 import { ObservationCard } from './ObservationCard';
 import { SummaryCard } from './SummaryCard';
 import { PromptCard } from './PromptCard';
 import { ScrollToTop } from './ScrollToTop';
+import { PolicySuppressions } from './PolicySuppressions';
 import { UI } from '../constants/ui';
 
 interface FeedProps {
   observations: Observation[];
   summaries: Summary[];
   prompts: UserPrompt[];
+  suppressions: PolicySuppression[];
   onLoadMore: () => void;
   isLoading: boolean;
   hasMore: boolean;
 }
 
-export function Feed({ observations, summaries, prompts, onLoadMore, isLoading, hasMore }: FeedProps) {
+export function Feed({ observations, summaries, prompts, suppressions, onLoadMore, isLoading, hasMore }: FeedProps) {
   const loadMoreRef = useRef<HTMLDivElement>(null);
   const feedRef = useRef<HTMLDivElement>(null);
   const onLoadMoreRef = useRef(onLoadMore);
@@ -64,6 +66,7 @@ export function Feed({ observations, summaries, prompts, onLoadMore, isLoading,
     <div className="feed" ref={feedRef}>
       <ScrollToTop targetRef={feedRef} />
       <div className="feed-content">
+        <PolicySuppressions suppressions={suppressions} />
         {items.map(item => {
           const key = `${item.itemType}-${item.id}`;
           if (item.itemType === 'observation') {
@@ -1,6 +1,7 @@
 import React from 'react';
 import { GitHubStarsButton } from './GitHubStarsButton';
 import { useSpinningFavicon } from '../hooks/useSpinningFavicon';
+import { ProviderHealth } from '../types';
 
 interface HeaderProps {
   isConnected: boolean;
@@ -9,7 +10,21 @@ interface HeaderProps {
   onFilterChange: (filter: string) => void;
   isProcessing: boolean;
   queueDepth: number;
+  providers: ProviderHealth[];
   onContextPreviewToggle: () => void;
+  onModeEditorToggle: () => void;
+  onReprocessToggle: () => void;
+  onNamespacesToggle: () => void;
+}
+
+function describeProvider(health: ProviderHealth): string {
+  if (!health.available) {
+    return `${health.provider}: not configured`;
+  }
+  const latency = health.avgLatencyMs !== null ? `${(health.avgLatencyMs / 1000).toFixed(1)}s avg` : 'no samples';
+  const errors = `${Math.round(health.errorRate * 100)}% errors`;
+  const lastError = health.lastError ? `\nLast error: ${health.lastError}` : '';
+  return `${health.provider}: circuit ${health.circuit}, ${errors}, ${latency}${lastError}`;
 }
 
 export function Header({
@@ -19,7 +34,11 @@ export function Header({
   onFilterChange,
   isProcessing,
   queueDepth,
-  onContextPreviewToggle
+  providers,
+  onContextPreviewToggle,
+  onModeEditorToggle,
+  onReprocessToggle,
+  onNamespacesToggle
 }: HeaderProps) {
   useSpinningFavicon(isProcessing);
 
@@ -42,6 +61,19 @@ export function Header({
         <span className="logo-text">claude-recall</span>
       </h1>
       <div className="status">
+        {providers.length > 0 && (
+          <div className="provider-health">
+            {providers.map(health => (
+              <span
+                key={health.provider}
+                className={`provider-pill provider-${health.available ? health.circuit : 'unavailable'}`}
+                title={describeProvider(health)}
+              >
+                {health.provider}
+              </span>
+            ))}
+          </div>
+        )}
         <GitHubStarsButton username="nhevers" repo="claude-recall" />
         <select
           value={currentFilter}
@@ -52,6 +84,40 @@ export function Header({
             <option key={project} value={project}>{project}</option>
           ))}
         </select>
+        <button
+          className="settings-btn"
+          onClick={onNamespacesToggle}
+          title="Memory Namespaces"
+        >
+          <svg className="settings-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M16 21v-2a4 4 0 0 0-4-4H6a4 4 0 0 0-4 4v2"></path>
+            <circle cx="9" cy="7" r="4"></circle>
+            <path d="M22 21v-2a4 4 0 0 0-3-3.87"></path>
+            <path d="M16 3.13a4 4 0 0 1 0 7.75"></path>
+          </svg>
+        </button>
+        <button
+          className="settings-btn"
+          onClick={onReprocessToggle}
+          title="Reprocess Sessions"
+        >
+          <svg className="settings-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M3 12a9 9 0 0 1 15-6.7L21 8"></path>
+            <path d="M21 3v5h-5"></path>
+            <path d="M21 12a9 9 0 0 1-15 6.7L3 16"></path>
+            <path d="M8 16H3v5"></path>
+          </svg>
+        </button>
+        <button
+          className="settings-btn"
+          onClick={onModeEditorToggle}
+          title="Modes"
+        >
+          <svg className="settings-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M12 20h9"></path>
+            <path d="M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4Z"></path>
+          </svg>
+        </button>
         <button
           className="settings-btn"
           onClick={onContextPreviewToggle}
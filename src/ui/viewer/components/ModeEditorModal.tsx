@@ -0,0 +1,432 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import type {
+  ModeConceptDefinition,
+  ModeDefinition,
+  ModeDetail,
+  ModeTypeDefinition,
+  ModeValidationIssue
+} from '../types';
+import { TerminalPreview } from './TerminalPreview';
+import { CollapsibleSection, FormField } from './ContextSettingsModal';
+import { useModes, useModePreview } from '../hooks/useModes';
+
+interface ModeEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type PreviewTab = 'init' | 'observation' | 'summary';
+
+const PREVIEW_TABS: Array<{ id: PreviewTab; label: string }> = [
+  { id: 'init', label: 'Init' },
+  { id: 'observation', label: 'Observation' },
+  { id: 'summary', label: 'Summary' }
+];
+
+interface Draft {
+  id: string;
+  definition: ModeDefinition;
+}
+
+type ListField<T> = { key: keyof T & string; placeholder: string; className: string };
+
+const TYPE_FIELDS: ListField<ModeTypeDefinition>[] = [
+  { key: 'id', placeholder: 'id', className: 'mode-item-id' },
+  { key: 'label', placeholder: 'Label', className: 'mode-item-label' },
+  { key: 'emoji', placeholder: '🔵', className: 'mode-item-emoji' },
+  { key: 'work_emoji', placeholder: '🛠️', className: 'mode-item-emoji' },
+  { key: 'description', placeholder: 'Description', className: 'mode-item-description' }
+];
+
+const CONCEPT_FIELDS: ListField<ModeConceptDefinition>[] = [
+  { key: 'id', placeholder: 'id', className: 'mode-item-id' },
+  { key: 'label', placeholder: 'Label', className: 'mode-item-label' },
+  { key: 'description', placeholder: 'Description', className: 'mode-item-description' }
+];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Legacy community modes are edited in their converted form and saved in the current format
+function toEditable(detail: ModeDetail): ModeDefinition {
+  if (detail.report.format === 'legacy' && detail.mode) {
+    return structuredClone(detail.mode);
+  }
+  return isPlainObject(detail.definition) ? structuredClone(detail.definition) as ModeDefinition : {};
+}
+
+function parentOf(modeId: string): string | null {
+  return modeId.includes('--') ? modeId.split('--')[0] : null;
+}
+
+// Editable rows for observation types or concepts
+function ItemListEditor<T extends object>({
+  items,
+  fields,
+  emptyItem,
+  addLabel,
+  onChange,
+  disabled
+}: {
+  items: T[];
+  fields: ListField<T>[];
+  emptyItem: T;
+  addLabel: string;
+  onChange: (items: T[]) => void;
+  disabled?: boolean;
+}) {
+  const updateItem = (index: number, key: keyof T, value: string) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, [key]: value } : item)));
+  };
+
+  return (
+    <div className="mode-item-list">
+      {items.map((item, index) => (
+        <div className="mode-item-row" key={index}>
+          {fields.map(field => (
+            <input
+              key={field.key}
+              type="text"
+              className={field.className}
+              placeholder={field.placeholder}
+              value={(item[field.key] as string | undefined) ?? ''}
+              onChange={(e) => updateItem(index, field.key, e.target.value)}
+              disabled={disabled}
+            />
+          ))}
+          <button
+            type="button"
+            className="mode-item-remove"
+            title="Remove"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            disabled={disabled}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {!disabled && (
+        <button type="button" className="chip-action" onClick={() => onChange([...items, { ...emptyItem }])}>
+          {addLabel}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function IssueList({ title, issues, className }: { title: string; issues: ModeValidationIssue[]; className: string }) {
+  if (issues.length === 0) return null;
+  return (
+    <div className={`mode-issues ${className}`}>
+      <span className="subsection-label">{title}</span>
+      <ul>
+        {issues.map((issue, index) => (
+          <li key={index}><code>{issue.path || '/'}</code> {issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function ModeEditorModal({ isOpen, onClose }: ModeEditorModalProps) {
+  const { modes, loadMode, saveMode, deleteMode, isSaving, saveStatus } = useModes(isOpen);
+  const [selectedId, setSelectedId] = useState('');
+  const [selected, setSelected] = useState<ModeDetail | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [parentMode, setParentMode] = useState<Required<ModeDefinition> | null>(null);
+  const [previewTab, setPreviewTab] = useState<PreviewTab>('init');
+
+  const { preview, isLoading } = useModePreview(draft?.id ?? '', draft?.definition ?? null);
+
+  const selectMode = useCallback(async (modeId: string) => {
+    setSelectedId(modeId);
+    const detail = await loadMode(modeId);
+    setSelected(detail);
+    setDraft(detail ? { id: modeId, definition: toEditable(detail) } : null);
+  }, [loadMode]);
+
+  // Open on the default mode
+  useEffect(() => {
+    if (isOpen && !selectedId && modes.length > 0) {
+      selectMode(modes.some(mode => mode.id === 'code') ? 'code' : modes[0].id);
+    }
+  }, [isOpen, selectedId, modes, selectMode]);
+
+  // Overlays show what they inherit from their parent
+  const parentId = draft ? parentOf(draft.id) : null;
+  useEffect(() => {
+    if (!parentId) {
+      setParentMode(null);
+      return;
+    }
+    loadMode(parentId).then(detail => setParentMode(detail?.mode ?? null));
+  }, [parentId, loadMode]);
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      window.addEventListener('keydown', handleEsc);
+      return () => window.removeEventListener('keydown', handleEsc);
+    }
+  }, [isOpen, onClose]);
+
+  const isOverlay = parentId !== null;
+  const existing = draft ? modes.find(mode => mode.id === draft.id) : undefined;
+  const isInstalled = existing?.source === 'builtin';
+
+  const setValue = useCallback(<K extends keyof ModeDefinition>(key: K, value: ModeDefinition[K] | undefined) => {
+    setDraft(current => {
+      if (!current) return current;
+      const definition = { ...current.definition };
+      if (value === undefined) {
+        delete definition[key];
+      } else {
+        definition[key] = value;
+      }
+      return { ...current, definition };
+    });
+  }, []);
+
+  // Overlays only store what they change: clearing a field inherits it again
+  const setText = (key: 'name' | 'description' | 'version', value: string) => {
+    setValue(key, isOverlay && value === '' ? undefined : value);
+  };
+
+  const setPrompt = (key: string, value: string) => {
+    const prompts = { ...(draft?.definition.prompts ?? {}) };
+    if (value === '' && (isOverlay || key === 'language_instruction')) {
+      delete prompts[key];
+    } else {
+      prompts[key] = value;
+    }
+    setValue('prompts', isOverlay && Object.keys(prompts).length === 0 ? undefined : prompts);
+  };
+
+  const promptKeys = useMemo(() => {
+    const reference = parentMode?.prompts ?? preview?.mode?.prompts ?? draft?.definition.prompts ?? {};
+    const keys = Object.keys(reference);
+    return keys.includes('language_instruction') ? keys : [...keys, 'language_instruction'];
+  }, [parentMode, preview, draft]);
+
+  const handleClone = () => {
+    const source = preview?.mode ?? selected?.mode;
+    if (!draft || !source) return;
+    setDraft({ id: `${draft.id.replace(/--/g, '-')}-copy`, definition: structuredClone(source) });
+  };
+
+  const handleInherit = () => {
+    if (!draft || isOverlay) return;
+    setDraft({ id: `${draft.id}--custom`, definition: {} });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.id || isInstalled) return;
+    const report = await saveMode(draft.id, draft.definition);
+    if (report?.valid) {
+      setSelectedId(draft.id);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!draft || existing?.source !== 'user') return;
+    if (!window.confirm(`Delete mode '${draft.id}'? Sessions bound to it fall back to the default mode.`)) return;
+    if (await deleteMode(draft.id)) {
+      setSelectedId('');
+      setDraft(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const definition = draft?.definition ?? {};
+  const inheritsTypes = isOverlay && definition.observation_types === undefined;
+  const inheritsConcepts = isOverlay && definition.observation_concepts === undefined;
+  const report = preview?.report;
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="context-settings-modal mode-editor-modal" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="modal-header">
+          <h2>Modes</h2>
+          <div className="header-controls">
+            <label className="preview-selector">
+              Mode:
+              <select value={selectedId} onChange={(e) => selectMode(e.target.value)}>
+                {(['builtin', 'user'] as const).map(source => (
+                  <optgroup key={source} label={source === 'builtin' ? 'Installed' : 'Your modes'}>
+                    {modes.filter(mode => mode.source === source).map(mode => (
+                      <option key={mode.id} value={mode.id}>
+                        {mode.id}{mode.valid ? '' : ' (invalid)'}
+                      </option>
+                    ))}
+                  </optgroup>
+                ))}
+              </select>
+            </label>
+            <button type="button" className="chip-action" onClick={handleClone} disabled={!draft} title="Copy the complete mode under a new ID">
+              Clone
+            </button>
+            <button type="button" className="chip-action" onClick={handleInherit} disabled={!draft || isOverlay} title="Create an overlay that only stores what it changes">
+              Inherit
+            </button>
+            <button
+              onClick={onClose}
+              className="modal-close-btn"
+              title="Close (Esc)"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18" />
+                <line x1="6" y1="6" x2="18" y2="18" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Body - 2 columns */}
+        <div className="modal-body">
+          {/* Left column - Prompt Preview */}
+          <div className="preview-column">
+            <div className="mode-preview-tabs">
+              {PREVIEW_TABS.map(tab => (
+                <button
+                  key={tab.id}
+                  type="button"
+                  className={`chip ${previewTab === tab.id ? 'selected' : ''}`}
+                  onClick={() => setPreviewTab(tab.id)}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+            <div className="preview-content">
+              {preview && !preview.prompts ? (
+                <div className="mode-preview-invalid">Fix the errors below to preview the prompts.</div>
+              ) : (
+                <TerminalPreview content={preview?.prompts?.[previewTab] ?? ''} isLoading={isLoading && !preview} />
+              )}
+            </div>
+            {report && (
+              <>
+                <IssueList title="Errors" issues={report.errors} className="error" />
+                <IssueList title="Warnings" issues={report.warnings} className="warning" />
+              </>
+            )}
+          </div>
+
+          {/* Right column - Mode Definition */}
+          <div className="settings-column">
+            {draft && (
+              <>
+                <CollapsibleSection
+                  title="Mode"
+                  description={isOverlay ? `Overlay on '${parentId}': empty fields are inherited` : 'Identity of the mode'}
+                >
+                  <FormField label="ID" tooltip="File name in the user modes directory. parent--name inherits from parent">
+                    <input
+                      type="text"
+                      value={draft.id}
+                      onChange={(e) => setDraft({ ...draft, id: e.target.value.trim() })}
+                    />
+                  </FormField>
+                  <FormField label="Name">
+                    <input type="text" value={definition.name ?? ''} placeholder={parentMode?.name} onChange={(e) => setText('name', e.target.value)} />
+                  </FormField>
+                  <FormField label="Description">
+                    <input type="text" value={definition.description ?? ''} placeholder={parentMode?.description} onChange={(e) => setText('description', e.target.value)} />
+                  </FormField>
+                  <FormField label="Version">
+                    <input type="text" value={definition.version ?? ''} placeholder={parentMode?.version} onChange={(e) => setText('version', e.target.value)} />
+                  </FormField>
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Observation Types" description="Categories the observer may record">
+                  {isOverlay && (
+                    <label className="mode-inherit-toggle">
+                      <input
+                        type="checkbox"
+                        checked={!inheritsTypes}
+                        onChange={() => setValue('observation_types', inheritsTypes ? structuredClone(parentMode?.observation_types ?? []) : undefined)}
+                      />
+                      Override the parent's types
+                    </label>
+                  )}
+                  <ItemListEditor
+                    items={(inheritsTypes ? parentMode?.observation_types : definition.observation_types) ?? []}
+                    fields={TYPE_FIELDS}
+                    emptyItem={{ id: '', label: '', description: '', emoji: '', work_emoji: '' }}
+                    addLabel="Add type"
+                    onChange={(items) => setValue('observation_types', items)}
+                    disabled={inheritsTypes}
+                  />
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Concepts" description="Knowledge categories for tagging">
+                  {isOverlay && (
+                    <label className="mode-inherit-toggle">
+                      <input
+                        type="checkbox"
+                        checked={!inheritsConcepts}
+                        onChange={() => setValue('observation_concepts', inheritsConcepts ? structuredClone(parentMode?.observation_concepts ?? []) : undefined)}
+                      />
+                      Override the parent's concepts
+                    </label>
+                  )}
+                  <ItemListEditor
+                    items={(inheritsConcepts ? parentMode?.observation_concepts : definition.observation_concepts) ?? []}
+                    fields={CONCEPT_FIELDS}
+                    emptyItem={{ id: '', label: '', description: '' }}
+                    addLabel="Add concept"
+                    onChange={(items) => setValue('observation_concepts', items)}
+                    disabled={inheritsConcepts}
+                  />
+                </CollapsibleSection>
+
+                <CollapsibleSection title="Prompts" description="Text the observer is given" defaultOpen={false}>
+                  {promptKeys.map(key => (
+                    <FormField key={key} label={key}>
+                      <textarea
+                        className="mode-prompt-input"
+                        rows={3}
+                        value={definition.prompts?.[key] ?? ''}
+                        placeholder={parentMode?.prompts[key] ?? (key === 'language_instruction' ? 'Optional' : '')}
+                        onChange={(e) => setPrompt(key, e.target.value)}
+                      />
+                    </FormField>
+                  ))}
+                </CollapsibleSection>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Footer with Save button */}
+        <div className="modal-footer">
+          <div className="save-status">
+            {saveStatus ? (
+              <span className={saveStatus.includes('✓') ? 'success' : saveStatus.includes('✗') ? 'error' : ''}>{saveStatus}</span>
+            ) : isInstalled ? (
+              <span>Installed modes are read-only. Clone or inherit to save your changes.</span>
+            ) : null}
+          </div>
+          {existing?.source === 'user' && (
+            <button className="chip-action" onClick={handleDelete} disabled={isSaving}>
+              Delete
+            </button>
+          )}
+          <button
+            className="save-btn"
+            onClick={handleSave}
+            disabled={isSaving || !draft?.id || isInstalled}
+          >
+            {isSaving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import type { MemoryNamespace } from '../types';
+import { useNamespaces } from '../hooks/useNamespaces';
+
+interface NamespacesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: string[];
+  currentFilter: string;
+}
+
+function describeUser(namespace: MemoryNamespace): string {
+  if (!namespace.user_id) return 'Whole channel';
+  return namespace.user_name && namespace.user_name !== namespace.user_id
+    ? `${namespace.user_name} (${namespace.user_id})`
+    : namespace.user_id;
+}
+
+export function NamespacesModal({ isOpen, onClose, projects, currentFilter }: NamespacesModalProps) {
+  const [project, setProject] = useState(currentFilter);
+  const { namespaces, purgeNamespace, isBusy, status } = useNamespaces(isOpen, project);
+
+  // Follow the feed's project filter when opened
+  useEffect(() => {
+    if (isOpen) {
+      setProject(currentFilter);
+    }
+  }, [isOpen, currentFilter]);
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      window.addEventListener('keydown', handleEsc);
+      return () => window.removeEventListener('keydown', handleEsc);
+    }
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const handlePurge = (namespace: MemoryNamespace) => {
+    const target = `${namespace.channel} / ${describeUser(namespace)} in ${namespace.project}`;
+    if (!window.confirm(`Delete ${namespace.sessions} session(s) and ${namespace.observations} observation(s) of ${target}? This cannot be undone.`)) return;
+    purgeNamespace(namespace);
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="context-settings-modal namespaces-modal" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="modal-header">
+          <h2>Memory Namespaces</h2>
+          <div className="header-controls">
+            <label className="preview-selector">
+              Project:
+              <select value={project} onChange={(e) => setProject(e.target.value)}>
+                <option value="">All Projects</option>
+                {projects.map(p => (
+                  <option key={p} value={p}>{p}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={onClose}
+              className="modal-close-btn"
+              title="Close (Esc)"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Body - namespace list */}
+        <div className="modal-body">
+          <div className="preview-column">
+            <div className="preview-content">
+              {namespaces.length === 0 ? (
+                <div className="namespaces-empty">No chat namespaces yet. Sessions from chat integrations appear here once they are bound to a channel.</div>
+              ) : (
+                <table className="namespaces-table">
+                  <thead>
+                    <tr>
+                      <th>Project</th>
+                      <th>Channel</th>
+                      <th>User</th>
+                      <th>Sessions</th>
+                      <th>Observations</th>
+                      <th>Last active</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {namespaces.map(namespace => (
+                      <tr key={`${namespace.project}|${namespace.channel}|${namespace.user_id ?? ''}`}>
+                        <td>{namespace.project}</td>
+                        <td><code>{namespace.channel}</code></td>
+                        <td>{describeUser(namespace)}</td>
+                        <td>{namespace.sessions}</td>
+                        <td>{namespace.observations}</td>
+                        <td>{new Date(namespace.last_activity_epoch).toLocaleString()}</td>
+                        <td>
+                          <button type="button" className="chip-action" onClick={() => handlePurge(namespace)} disabled={isBusy}>
+                            Purge
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer with purge status */}
+        <div className="modal-footer">
+          <div className="save-status">
+            {status && (
+              <span className={status.includes('✓') ? 'success' : status.includes('✗') ? 'error' : ''}>{status}</span>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Observation } from '../types';
 import { formatDate } from '../utils/formatters';
+import { API_ENDPOINTS } from '../constants/api';
 
 interface ObservationCardProps {
   observation: Observation;
@@ -33,7 +34,24 @@ function stripProjectRoot(filePath: string): string {
 export function ObservationCard({ observation }: ObservationCardProps) {
   const [showFacts, setShowFacts] = useState(false);
   const [showNarrative, setShowNarrative] = useState(false);
+  const [isFavorite, setIsFavorite] = useState(!!observation.favorite);
   const date = formatDate(observation.created_at_epoch);
+  const tags = observation.tags ?? [];
+
+  const toggleFavorite = async () => {
+    const next = !isFavorite;
+    setIsFavorite(next);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.FAVORITES}/${observation.id}`, {
+        method: next ? 'PUT' : 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: next ? JSON.stringify({}) : undefined
+      });
+      if (!response.ok) setIsFavorite(!next);
+    } catch {
+      setIsFavorite(!next);
+    }
+  };
 
   // Parse JSON fields
   const facts = observation.facts ? JSON.parse(observation.facts) : [];
@@ -53,8 +71,25 @@ export function ObservationCard({ observation }: ObservationCardProps) {
             {observation.type}
           </span>
           <span className="card-project">{observation.project}</span>
+          {(observation.staleness === 'stale' || observation.staleness === 'orphaned') && (
+            <span
+              className={`card-staleness staleness-${observation.staleness}`}
+              title={observation.staleness === 'stale'
+                ? 'Referenced files changed since this was recorded'
+                : 'Referenced files were deleted since this was recorded'}
+            >
+              {observation.staleness}
+            </span>
+          )}
         </div>
         <div className="view-mode-toggles">
+          <button
+            className={`favorite-toggle ${isFavorite ? 'active' : ''}`}
+            onClick={toggleFavorite}
+            title={observation.favorite?.pinned ? 'Pinned favorite (always in context)' : isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+          >
+            {isFavorite ? '\u2605' : '\u2606'}
+          </button>
           {hasFactsContent && (
             <button
               className={`view-mode-toggle ${showFacts ? 'active' : ''}`}
@@ -93,6 +128,14 @@ export function ObservationCard({ observation }: ObservationCardProps) {
       {/* Title */}
       <div className="card-title">{observation.title || 'Untitled'}</div>
 
+      {tags.length > 0 && (
+        <div className="card-tags">
+          {tags.map(tag => (
+            <span key={tag} className="tag-chip" title={`Search with tag:${tag}`}>{tag}</span>
+          ))}
+        </div>
+      )}
+
       {/* Content based on toggle state */}
       <div className="view-mode-content">
         {!showFacts && !showNarrative && observation.subtitle && (
@@ -0,0 +1,48 @@
+import React from 'react';
+import { PolicySuppression } from '../types';
+
+interface PolicySuppressionsProps {
+  suppressions: PolicySuppression[];
+}
+
+const ACTION_LABELS: Record<PolicySuppression['action'], string> = {
+  ignore_tool: 'tool ignored',
+  ignore_path: 'path ignored',
+  summaries_only: 'summaries only',
+  truncate: 'truncated'
+};
+
+/**
+ * Last path segments of a policy file, e.g. `.moltbrain/policy.json` of a project
+ */
+function shortSource(source: string): string {
+  return source.split(/[\\/]/).slice(-2).join('/');
+}
+
+export function PolicySuppressions({ suppressions }: PolicySuppressionsProps) {
+  if (suppressions.length === 0) {
+    return null;
+  }
+
+  const withheld = suppressions.filter(s => s.action !== 'truncate').length;
+  const truncated = suppressions.length - withheld;
+
+  return (
+    <details className="card policy-suppressions">
+      <summary>
+        Privacy policy: {withheld} withheld{truncated > 0 ? `, ${truncated} truncated` : ''}
+      </summary>
+      <ul>
+        {suppressions.map(s => (
+          <li key={s.id} title={`${s.source}\n${new Date(s.created_at_epoch).toLocaleString()}`}>
+            <span className={`policy-action policy-${s.action}`}>{ACTION_LABELS[s.action]}</span>
+            <code>{s.target}</code>
+            <span className="policy-rule">
+              {s.action === 'summaries_only' ? shortSource(s.source) : <>rule <code>{s.rule}</code> in {shortSource(s.source)}</>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
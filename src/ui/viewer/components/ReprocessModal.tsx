@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import type { Observation, ReprocessRun, ReprocessSessionDiff } from '../types';
+import { useReprocess } from '../hooks/useReprocess';
+import { useModes } from '../hooks/useModes';
+import { CollapsibleSection, FormField } from './ContextSettingsModal';
+
+interface ReprocessModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: string[];
+  currentFilter: string;
+}
+
+const PROVIDERS = ['claude', 'gemini', 'openrouter', 'openai-compatible'];
+
+const STATUS_LABELS: Record<ReprocessRun['status'], string> = {
+  replaying: 'Replaying',
+  staged: 'Ready to review',
+  failed: 'Failed',
+  applied: 'Applied',
+  rolled_back: 'Rolled back',
+  discarded: 'Discarded'
+};
+
+function describeRun(run: ReprocessRun): string {
+  const overrides = [run.mode_id && `mode ${run.mode_id}`, run.provider && `via ${run.provider}`].filter(Boolean).join(', ');
+  return `#${run.id} · ${new Date(run.created_at_epoch).toLocaleString()}${overrides ? ` · ${overrides}` : ''}`;
+}
+
+function ObservationColumn({ title, observations }: { title: string; observations: Array<Pick<Observation, 'type' | 'title' | 'subtitle'>> }) {
+  return (
+    <div className="reprocess-column">
+      <span className="subsection-label">{title} ({observations.length})</span>
+      {observations.length === 0 ? (
+        <div className="reprocess-empty">No observations</div>
+      ) : observations.map((obs, index) => (
+        <div className="reprocess-obs" key={index}>
+          <span className="reprocess-obs-type">{obs.type}</span>
+          <span className="reprocess-obs-title">{obs.title || '(untitled)'}</span>
+          {obs.subtitle && <span className="reprocess-obs-subtitle">{obs.subtitle}</span>}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SessionDiff({ diff, replaced }: { diff: ReprocessSessionDiff; replaced: boolean }) {
+  const { session } = diff;
+  return (
+    <div className={`reprocess-session ${session.status}`}>
+      <div className="reprocess-session-header">
+        <span>Session #{session.source_session_id}</span>
+        <span>{session.events} events · {session.status}</span>
+      </div>
+      {session.error && <div className="reprocess-session-error">{session.error}</div>}
+      <div className="reprocess-diff">
+        <ObservationColumn title={replaced ? 'Replaced' : 'Current'} observations={diff.before} />
+        <ObservationColumn title="Reprocessed" observations={diff.after} />
+      </div>
+    </div>
+  );
+}
+
+export function ReprocessModal({ isOpen, onClose, projects, currentFilter }: ReprocessModalProps) {
+  const [project, setProject] = useState(currentFilter);
+  const [modeId, setModeId] = useState('');
+  const [provider, setProvider] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [maxSessions, setMaxSessions] = useState(10);
+
+  const { modes } = useModes(isOpen);
+  const { runs, selectedRunId, setSelectedRunId, detail, startRun, runAction, isBusy, status } = useReprocess(isOpen, project);
+
+  // Follow the feed's project filter when opened
+  useEffect(() => {
+    if (isOpen) {
+      setProject(currentFilter || projects[0] || '');
+    }
+  }, [isOpen, currentFilter, projects]);
+
+  // Handle ESC key
+  useEffect(() => {
+    const handleEsc = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      window.addEventListener('keydown', handleEsc);
+      return () => window.removeEventListener('keydown', handleEsc);
+    }
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const run = detail?.run ?? null;
+  const replaced = run?.status === 'applied' || run?.status === 'rolled_back';
+
+  const handleStart = () => {
+    if (!project) return;
+    startRun({
+      project,
+      mode: modeId || undefined,
+      provider: provider || undefined,
+      from: from || undefined,
+      // Include the whole last day
+      to: to ? `${to}T23:59:59.999` : undefined,
+      maxSessions
+    });
+  };
+
+  const handleApply = () => {
+    if (!run) return;
+    if (!window.confirm(`Replace the observations of ${detail!.sessions.filter(s => s.session.status === 'staged').length} session(s) with the reprocessed ones? You can roll this back.`)) return;
+    runAction(run.id, 'apply');
+  };
+
+  const handleRollback = () => {
+    if (!run) return;
+    if (!window.confirm('Restore the observations this run replaced? Changes made to the reprocessed observations since are lost.')) return;
+    runAction(run.id, 'rollback');
+  };
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="context-settings-modal reprocess-modal" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="modal-header">
+          <h2>Reprocess Sessions</h2>
+          <div className="header-controls">
+            <button
+              onClick={onClose}
+              className="modal-close-btn"
+              title="Close (Esc)"
+            >
+              <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18"></line>
+                <line x1="6" y1="6" x2="18" y2="18"></line>
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        {/* Body - 2 columns */}
+        <div className="modal-body">
+          {/* Left column - New run and history */}
+          <div className="settings-column">
+            <CollapsibleSection title="New Run" description="Replay stored prompts and transcripts through the current agent">
+              <FormField label="Project">
+                <select value={project} onChange={(e) => setProject(e.target.value)}>
+                  {projects.map(p => (
+                    <option key={p} value={p}>{p}</option>
+                  ))}
+                </select>
+              </FormField>
+              <FormField label="Mode" tooltip="Replay every session in this mode instead of the mode it was recorded in">
+                <select value={modeId} onChange={(e) => setModeId(e.target.value)}>
+                  <option value="">Each session's own mode</option>
+                  {modes.filter(mode => mode.valid).map(mode => (
+                    <option key={mode.id} value={mode.id}>{mode.name} ({mode.id})</option>
+                  ))}
+                </select>
+              </FormField>
+              <FormField label="Provider" tooltip="Pin the replay to one provider instead of the provider chain">
+                <select value={provider} onChange={(e) => setProvider(e.target.value)}>
+                  <option value="">Provider chain</option>
+                  {PROVIDERS.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </FormField>
+              <FormField label="Sessions started between">
+                <div className="reprocess-range">
+                  <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                  <input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+                </div>
+              </FormField>
+              <FormField label="Max sessions">
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={maxSessions}
+                  onChange={(e) => setMaxSessions(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                />
+              </FormField>
+              <button type="button" className="chip-action" onClick={handleStart} disabled={isBusy || !project}>
+                Replay
+              </button>
+            </CollapsibleSection>
+
+            <CollapsibleSection title="Runs" description={project || 'All projects'}>
+              {runs.length === 0 ? (
+                <div className="reprocess-empty">No runs yet</div>
+              ) : (
+                <div className="reprocess-run-list">
+                  {runs.map(r => (
+                    <button
+                      type="button"
+                      key={r.id}
+                      className={`reprocess-run-item ${r.id === selectedRunId ? 'selected' : ''}`}
+                      onClick={() => setSelectedRunId(r.id)}
+                    >
+                      <span>{describeRun(r)}</span>
+                      <span className={`reprocess-status ${r.status}`}>{STATUS_LABELS[r.status]}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </CollapsibleSection>
+          </div>
+
+          {/* Right column - Side-by-side diff */}
+          <div className="preview-column">
+            <div className="preview-content">
+              {!run ? (
+                <div className="reprocess-empty">Select a run to compare its observations with the current ones.</div>
+              ) : (
+                <>
+                  <div className="reprocess-run-summary">
+                    <span>{describeRun(run)}</span>
+                    <span className={`reprocess-status ${run.status}`}>{STATUS_LABELS[run.status]}</span>
+                  </div>
+                  {run.error && <div className="reprocess-session-error">{run.error}</div>}
+                  {detail!.sessions.map(diff => (
+                    <SessionDiff key={diff.session.source_session_id} diff={diff} replaced={replaced} />
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer with run actions */}
+        <div className="modal-footer">
+          <div className="save-status">
+            {status && (
+              <span className={status.includes('✓') ? 'success' : status.includes('✗') ? 'error' : ''}>{status}</span>
+            )}
+          </div>
+          {run && (run.status === 'replaying' || run.status === 'staged' || run.status === 'failed') && (
+            <button className="chip-action" onClick={() => runAction(run.id, 'discard')} disabled={isBusy}>
+              {run.status === 'replaying' ? 'Stop' : 'Discard'}
+            </button>
+          )}
+          {run?.status === 'applied' && (
+            <button className="save-btn" onClick={handleRollback} disabled={isBusy}>
+              Roll Back
+            </button>
+          )}
+          {run?.status === 'staged' && (
+            <button className="save-btn" onClick={handleApply} disabled={isBusy}>
+              Apply
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,13 @@ export const API_ENDPOINTS = {
   PROMPTS: '/api/prompts',
   SETTINGS: '/api/settings',
   STATS: '/api/stats',
+  HEALTH: '/api/health',
+  FAVORITES: '/api/favorites',
+  TAGS: '/api/tags',
+  POLICY_SUPPRESSIONS: '/api/policy/suppressions',
+  MODES: '/api/modes',
+  REPROCESS: '/api/reprocess',
+  NAMESPACES: '/api/namespaces',
   PROCESSING_STATUS: '/api/processing-status',
   STREAM: '/stream',
 } as const;
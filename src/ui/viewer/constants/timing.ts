@@ -11,4 +11,7 @@ export const TIMING = {
 
   /** Duration to display save status message before clearing */
   SAVE_STATUS_DISPLAY_DURATION_MS: 3000,
+
+  /** Poll interval while a reprocess run is replaying */
+  REPROCESS_POLL_INTERVAL_MS: 3000,
 } as const;
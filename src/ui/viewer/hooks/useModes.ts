@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ModeDefinition, ModeDetail, ModePreview, ModeSummary, ModeValidationReport } from '../types';
+import { API_ENDPOINTS } from '../constants/api';
+import { TIMING } from '../constants/timing';
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+/**
+ * Installed and user modes, plus saving and deleting user modes
+ */
+export function useModes(isOpen: boolean) {
+  const [modes, setModes] = useState<ModeSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveStatus, setSaveStatus] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.MODES);
+      const data = await response.json() as { modes?: ModeSummary[] };
+      setModes(Array.isArray(data.modes) ? data.modes : []);
+    } catch (error) {
+      console.error('Failed to load modes:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  const loadMode = useCallback(async (modeId: string): Promise<ModeDetail | null> => {
+    try {
+      const response = await fetch(`${API_ENDPOINTS.MODES}/${encodeURIComponent(modeId)}`);
+      return response.ok ? await response.json() as ModeDetail : null;
+    } catch (error) {
+      console.error('Failed to load mode:', error);
+      return null;
+    }
+  }, []);
+
+  const saveMode = useCallback(async (modeId: string, definition: ModeDefinition): Promise<ModeValidationReport | null> => {
+    setIsSaving(true);
+    setSaveStatus('Saving...');
+
+    try {
+      const response = await fetch(`${API_ENDPOINTS.MODES}/${encodeURIComponent(modeId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ definition })
+      });
+      const result = await response.json() as { saved?: boolean; report?: ModeValidationReport; error?: string };
+
+      if (result.saved) {
+        setSaveStatus('✓ Saved');
+        setTimeout(() => setSaveStatus(''), TIMING.SAVE_STATUS_DISPLAY_DURATION_MS);
+        await refresh();
+      } else {
+        setSaveStatus(`✗ ${result.error ?? `${result.report?.errors.length ?? 0} error(s), not saved`}`);
+      }
+      return result.report ?? null;
+    } catch (error) {
+      setSaveStatus(`✗ Error: ${(error as Error).message}`);
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [refresh]);
+
+  const deleteMode = useCallback(async (modeId: string): Promise<boolean> => {
+    const response = await fetch(`${API_ENDPOINTS.MODES}/${encodeURIComponent(modeId)}`, { method: 'DELETE' });
+    if (!response.ok) {
+      const result = await response.json() as { error?: string };
+      setSaveStatus(`✗ ${result.error ?? 'Delete failed'}`);
+      return false;
+    }
+    setSaveStatus('');
+    await refresh();
+    return true;
+  }, [refresh]);
+
+  return { modes, refresh, loadMode, saveMode, deleteMode, isSaving, saveStatus };
+}
+
+/**
+ * Live prompt preview of a draft, re-rendered shortly after each change
+ */
+export function useModePreview(modeId: string, definition: ModeDefinition | null) {
+  const [preview, setPreview] = useState<ModePreview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!definition) {
+      setPreview(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`${API_ENDPOINTS.MODES}/preview`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: modeId || 'untitled', definition }),
+          signal: controller.signal
+        });
+        setPreview(await response.json() as ModePreview);
+      } catch (error) {
+        if ((error as Error).name !== 'AbortError') {
+          console.error('Failed to render mode preview:', error);
+        }
+      } finally {
+        setIsLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [modeId, definition]);
+
+  return { preview, isLoading };
+}
@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { MemoryNamespace } from '../types';
+import { API_ENDPOINTS } from '../constants/api';
+import { TIMING } from '../constants/timing';
+
+/**
+ * Chat memory namespaces of a project (all projects when empty), with purge
+ */
+export function useNamespaces(isOpen: boolean, project: string) {
+  const [namespaces, setNamespaces] = useState<MemoryNamespace[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const refreshNamespaces = useCallback(async () => {
+    try {
+      const query = project ? `?project=${encodeURIComponent(project)}` : '';
+      const response = await fetch(`${API_ENDPOINTS.NAMESPACES}${query}`);
+      const data = await response.json() as { namespaces?: MemoryNamespace[] };
+      setNamespaces(Array.isArray(data.namespaces) ? data.namespaces : []);
+    } catch (error) {
+      console.error('Failed to load namespaces:', error);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    if (isOpen) refreshNamespaces();
+  }, [isOpen, refreshNamespaces]);
+
+  const purgeNamespace = useCallback(async (namespace: MemoryNamespace) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.NAMESPACES}/purge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ project: namespace.project, channel: namespace.channel, userId: namespace.user_id })
+      });
+      const result = await response.json() as { error?: string; sessions?: number; observations?: number };
+      if (!response.ok) {
+        setStatus(`✗ ${result.error ?? 'Purge failed'}`);
+        return;
+      }
+      setStatus(`✓ Purged ${result.sessions} sessions and ${result.observations} observations`);
+      setTimeout(() => setStatus(''), TIMING.SAVE_STATUS_DISPLAY_DURATION_MS);
+      await refreshNamespaces();
+    } catch (error) {
+      setStatus(`✗ Error: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshNamespaces]);
+
+  return { namespaces, purgeNamespace, isBusy, status };
+}
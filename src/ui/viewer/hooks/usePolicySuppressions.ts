@@ -0,0 +1,28 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PolicySuppression } from '../types';
+import { API_ENDPOINTS } from '../constants/api';
+
+const POLL_INTERVAL_MS = 15000;
+
+export function usePolicySuppressions(project: string) {
+  const [suppressions, setSuppressions] = useState<PolicySuppression[]>([]);
+
+  const loadSuppressions = useCallback(async () => {
+    try {
+      const query = project ? `?project=${encodeURIComponent(project)}` : '';
+      const response = await fetch(`${API_ENDPOINTS.POLICY_SUPPRESSIONS}${query}`);
+      const data = await response.json() as { suppressions?: PolicySuppression[] };
+      setSuppressions(Array.isArray(data.suppressions) ? data.suppressions : []);
+    } catch (error) {
+      console.error('Failed to load policy suppressions:', error);
+    }
+  }, [project]);
+
+  useEffect(() => {
+    loadSuppressions();
+    const interval = setInterval(loadSuppressions, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadSuppressions]);
+
+  return suppressions;
+}
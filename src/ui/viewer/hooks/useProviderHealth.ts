@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ProviderHealth } from '../types';
+import { API_ENDPOINTS } from '../constants/api';
+
+const POLL_INTERVAL_MS = 15000;
+
+export function useProviderHealth() {
+  const [providers, setProviders] = useState<ProviderHealth[]>([]);
+
+  const loadHealth = useCallback(async () => {
+    try {
+      const response = await fetch(API_ENDPOINTS.HEALTH);
+      const data = await response.json() as { providers?: ProviderHealth[] };
+      setProviders(Array.isArray(data.providers) ? data.providers : []);
+    } catch (error) {
+      console.error('Failed to load provider health:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHealth();
+    const interval = setInterval(loadHealth, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadHealth]);
+
+  return providers;
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ReprocessRun, ReprocessRunDetail, ReprocessStartRequest } from '../types';
+import { API_ENDPOINTS } from '../constants/api';
+import { TIMING } from '../constants/timing';
+
+type RunAction = 'apply' | 'rollback' | 'discard';
+
+/**
+ * Reprocess runs of a project and the selected run's before/after diff,
+ * polled while it replays
+ */
+export function useReprocess(isOpen: boolean, project: string) {
+  const [runs, setRuns] = useState<ReprocessRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<ReprocessRunDetail | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState('');
+
+  const refreshRuns = useCallback(async () => {
+    try {
+      const query = project ? `?project=${encodeURIComponent(project)}` : '';
+      const response = await fetch(`${API_ENDPOINTS.REPROCESS}${query}`);
+      const data = await response.json() as { runs?: ReprocessRun[] };
+      setRuns(Array.isArray(data.runs) ? data.runs : []);
+    } catch (error) {
+      console.error('Failed to load reprocess runs:', error);
+    }
+  }, [project]);
+
+  const refreshDetail = useCallback(async (runId: number) => {
+    try {
+      const response = await fetch(`${API_ENDPOINTS.REPROCESS}/${runId}`);
+      setDetail(response.ok ? await response.json() as ReprocessRunDetail : null);
+    } catch (error) {
+      console.error('Failed to load reprocess run:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refreshRuns();
+  }, [isOpen, refreshRuns]);
+
+  useEffect(() => {
+    if (selectedRunId === null) {
+      setDetail(null);
+      return;
+    }
+    refreshDetail(selectedRunId);
+  }, [selectedRunId, refreshDetail]);
+
+  // Follow a replaying run until it is staged or fails
+  const isReplaying = detail?.run.status === 'replaying';
+  useEffect(() => {
+    if (!isOpen || !isReplaying || selectedRunId === null) return;
+    const interval = setInterval(() => {
+      refreshDetail(selectedRunId);
+      refreshRuns();
+    }, TIMING.REPROCESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isOpen, isReplaying, selectedRunId, refreshDetail, refreshRuns]);
+
+  const startRun = useCallback(async (request: ReprocessStartRequest) => {
+    setIsBusy(true);
+    setStatus('Starting...');
+    try {
+      const response = await fetch(API_ENDPOINTS.REPROCESS, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request)
+      });
+      const result = await response.json() as { run?: ReprocessRun; error?: string };
+      if (!result.run) {
+        setStatus(`✗ ${result.error ?? 'Could not start the run'}`);
+        return;
+      }
+      setStatus('');
+      setSelectedRunId(result.run.id);
+      await refreshRuns();
+    } catch (error) {
+      setStatus(`✗ Error: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshRuns]);
+
+  const runAction = useCallback(async (runId: number, action: RunAction) => {
+    setIsBusy(true);
+    try {
+      const response = await fetch(`${API_ENDPOINTS.REPROCESS}/${runId}/${action}`, { method: 'POST' });
+      const result = await response.json() as { error?: string; applied?: number; replaced?: number; restored?: number };
+      if (!response.ok) {
+        setStatus(`✗ ${result.error ?? `${action} failed`}`);
+        return;
+      }
+      setStatus(action === 'apply'
+        ? `✓ Applied ${result.applied} observations, replaced ${result.replaced}`
+        : action === 'rollback'
+          ? `✓ Restored ${result.restored} observations`
+          : '✓ Discarded');
+      setTimeout(() => setStatus(''), TIMING.SAVE_STATUS_DISPLAY_DURATION_MS);
+      await Promise.all([refreshRuns(), refreshDetail(runId)]);
+    } catch (error) {
+      setStatus(`✗ Error: ${(error as Error).message}`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [refreshRuns, refreshDetail]);
+
+  return { runs, selectedRunId, setSelectedRunId, detail, startRun, runAction, isBusy, status };
+}
@@ -3,6 +3,7 @@ import { Settings } from '../types';
 import { DEFAULT_SETTINGS } from '../constants/settings';
 import { API_ENDPOINTS } from '../constants/api';
 import { TIMING } from '../constants/timing';
+import { SettingsValidator } from '../../../validators/SettingsValidator';
 
 export function useSettings() {
   const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
@@ -58,6 +59,13 @@ export function useSettings() {
   }, []);
 
   const saveSettings = async (newSettings: Settings) => {
+    // A bad provider, base URL or model would only fail later, in the worker
+    const validation = new SettingsValidator().validateProviderSettings(newSettings);
+    if (!validation.valid) {
+      setSaveStatus(`✗ Error: ${validation.errors.map(error => `${error.field}: ${error.message}`).join('; ')}`);
+      return;
+    }
+
     setIsSaving(true);
     setSaveStatus('Saving...');
 
@@ -12,6 +12,9 @@ export interface Observation {
   files_read: string | null;
   files_modified: string | null;
   prompt_number: number | null;
+  staleness?: 'fresh' | 'stale' | 'orphaned' | null;
+  tags?: string[];
+  favorite?: { note: string | null; pinned: boolean } | null;
   created_at: string;
   created_at_epoch: number;
 }
@@ -104,7 +107,156 @@ export interface DatabaseStats {
   summaries?: number;
 }
 
+export interface PolicySuppression {
+  id: number;
+  content_session_id: string;
+  project: string;
+  tool_name: string;
+  action: 'ignore_tool' | 'ignore_path' | 'summaries_only' | 'truncate';
+  rule: string;
+  source: string;
+  target: string;
+  created_at_epoch: number;
+}
+
 export interface Stats {
   worker?: WorkerStats;
   database?: DatabaseStats;
 }
+
+export type ProviderName = 'claude' | 'gemini' | 'openrouter' | 'openai-compatible';
+
+export interface ProviderHealth {
+  provider: ProviderName;
+  available: boolean;
+  circuit: 'closed' | 'open' | 'half-open';
+  score: number;
+  requests: number;
+  failures: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  openedAt: number | null;
+}
+
+export interface ModeSummary {
+  id: string;
+  name: string;
+  description: string;
+  source: 'builtin' | 'user';
+  parent: string | null;
+  format: 'mode' | 'overlay' | 'legacy' | null;
+  valid: boolean;
+}
+
+export interface ModeTypeDefinition {
+  id: string;
+  label: string;
+  description: string;
+  emoji: string;
+  work_emoji: string;
+}
+
+export interface ModeConceptDefinition {
+  id: string;
+  label: string;
+  description: string;
+}
+
+/** A mode file: complete for modes, any subset of the fields for overlays (code--xx) */
+export interface ModeDefinition {
+  name?: string;
+  description?: string;
+  version?: string;
+  observation_types?: ModeTypeDefinition[];
+  observation_concepts?: ModeConceptDefinition[];
+  prompts?: Record<string, string>;
+}
+
+export interface ModeValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ModeValidationReport {
+  mode: string;
+  format: 'mode' | 'overlay' | 'legacy' | null;
+  valid: boolean;
+  errors: ModeValidationIssue[];
+  warnings: ModeValidationIssue[];
+}
+
+export interface ModeDetail {
+  id: string;
+  source: 'builtin' | 'user';
+  parent: string | null;
+  definition: unknown;
+  mode: Required<ModeDefinition> | null;
+  report: ModeValidationReport;
+}
+
+export interface ModePromptPreview {
+  init: string;
+  observation: string;
+  summary: string;
+}
+
+export interface ModePreview {
+  report: ModeValidationReport;
+  mode: Required<ModeDefinition> | null;
+  prompts: ModePromptPreview | null;
+}
+
+export type ReprocessRunStatus = 'replaying' | 'staged' | 'failed' | 'applied' | 'rolled_back' | 'discarded';
+
+export interface ReprocessRun {
+  id: number;
+  project: string;
+  mode_id: string | null;
+  provider: string | null;
+  status: ReprocessRunStatus;
+  error: string | null;
+  created_at_epoch: number;
+  completed_at_epoch: number | null;
+  applied_at_epoch: number | null;
+  rolled_back_at_epoch: number | null;
+}
+
+export interface ReprocessSessionDiff {
+  session: {
+    source_session_id: number;
+    memory_session_id: string;
+    status: 'pending' | 'replaying' | 'staged' | 'failed';
+    events: number;
+    error: string | null;
+  };
+  before: Observation[];
+  /** Staged observations have no live id until the run is applied */
+  after: Array<Omit<Observation, 'id'> & { id: number | null }>;
+}
+
+export interface ReprocessRunDetail {
+  run: ReprocessRun;
+  sessions: ReprocessSessionDiff[];
+}
+
+export interface ReprocessStartRequest {
+  project: string;
+  from?: string;
+  to?: string;
+  mode?: string;
+  provider?: string;
+  maxSessions?: number;
+}
+
+/** A chat channel (and user) whose memories are kept apart within a project */
+export interface MemoryNamespace {
+  project: string;
+  channel: string;
+  user_id: string | null;
+  user_name: string | null;
+  sessions: number;
+  observations: number;
+  last_activity_epoch: number;
+}
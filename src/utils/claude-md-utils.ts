@@ -4,17 +4,77 @@
  * Shared utilities for writing folder-level CLAUDE.md files with
  * auto-generated context sections. Preserves user content outside
  * <claude-recall-context> tags.
+ *
+ * The folder context generator picks the observations that read or modified
+ * a file directly in a folder, ranks them, and keeps the best ones that fit
+ * the folder's token cap. Output goes to the folder's CLAUDE.md, or to a
+ * mirror under `.moltbrain/context/` for teams that keep generated files out
+ * of the repo.
  */
 
 import { existsSync, readFileSync, writeFileSync, renameSync, mkdirSync } from 'fs';
 import path from 'path';
-import os from 'os';
 import { logger } from './logger.js';
-import { formatDate, groupByDate } from '../common/timeline-formatting.js';
-import { SettingsDefaultsManager } from '../common/SettingsDefaultsManager.js';
+import { estimateTokens, formatTime, groupByDate, parseJsonArray } from '../common/timeline-formatting.js';
+import { SettingsDefaultsManager, type SettingsDefaults } from '../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../common/paths.js';
+import { findProjectRoot, globToRegExp } from '../common/privacy-policy.js';
 import { getWorkerHost } from '../common/engine-utils.js';
+import { scoreObservation } from '../core/builder/ObservationCompiler.js';
+import type { Observation } from '../core/builder/types.js';
+
+/** Project-relative directory mirroring folders when output is 'context-dir' */
+export const FOLDER_CONTEXT_DIR = path.join('.moltbrain', 'context');
+
+// Observations that modified a file in the folder outrank ones that only read one
+const MODIFIED_FILE_WEIGHT = 2;
+
+/**
+ * Where folder context is written: each folder's own CLAUDE.md, or
+ * `.moltbrain/context/<folder>/CLAUDE.md` under the project root
+ */
+export type FolderContextOutput = 'claude-md' | 'context-dir';
+
+export interface FolderContextOptions {
+  /** Candidate observations fetched per folder */
+  limit: number;
+  /** Token cap for a folder's generated section */
+  maxTokens: number;
+  /** Folder globs to skip; a glob without a slash matches a folder name at any depth */
+  ignore: string[];
+  output: FolderContextOutput;
+}
+
+/**
+ * What generating one folder's context did, or would do in a dry run
+ */
+export interface FolderContextChange {
+  folderPath: string;
+  /** File the context is written to */
+  targetPath: string;
+  /** Observations included */
+  observationCount: number;
+  /** Observations left out by the token cap */
+  omittedCount: number;
+  /** Estimated tokens of the generated section */
+  tokens: number;
+  /** Whether the file content changes */
+  changed: boolean;
+  /** Line diff of the file on dry runs ('' when unchanged or written) */
+  diff: string;
+}
 
-const SETTINGS_PATH = path.join(os.homedir(), '.claude-recall', 'settings.json');
+// Type icon map (matches ModeManager's code mode)
+const TYPE_ICONS: Record<string, string> = {
+  'bugfix': '🔴',
+  'feature': '🟣',
+  'refactor': '🔄',
+  'change': '✅',
+  'discovery': '🔵',
+  'decision': '⚖️',
+  'session': '🎯',
+  'prompt': '💬'
+};
 
 /**
  * Validate that a file path is safe for CLAUDE.md generation.
@@ -84,154 +144,267 @@ export function replaceTaggedContent(existingContent: string, newContent: string
   return existingContent + `\n\n${startTag}\n${newContent}\n${endTag}`;
 }
 
+function readIfExists(filePath: string): string {
+  return existsSync(filePath) ? readFileSync(filePath, 'utf-8') : '';
+}
+
 /**
- * Write CLAUDE.md file to folder with atomic writes.
- * Creates directory structure if needed.
- *
- * @param folderPath - Absolute path to the folder
- * @param newContent - Content to write inside tags
+ * Write a file through a temp file + rename, creating its directory if needed
  */
-export function writeClaudeMdToFolder(folderPath: string, newContent: string): void {
-  const claudeMdPath = path.join(folderPath, 'CLAUDE.md');
-  const tempFile = `${claudeMdPath}.tmp`;
-
-  // Ensure directory exists
-  mkdirSync(folderPath, { recursive: true });
+function writeFileAtomic(filePath: string, content: string): void {
+  const tempFile = `${filePath}.tmp`;
+  mkdirSync(path.dirname(filePath), { recursive: true });
+  writeFileSync(tempFile, content);
+  renameSync(tempFile, filePath);
+}
 
-  // Read existing content if file exists
-  let existingContent = '';
-  if (existsSync(claudeMdPath)) {
-    existingContent = readFileSync(claudeMdPath, 'utf-8');
-  }
+/**
+ * Folder context options from settings
+ */
+export function getFolderContextOptions(
+  settings: SettingsDefaults = SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH)
+): FolderContextOptions {
+  const maxTokens = parseInt(settings.MOLTBRAIN_FOLDER_CONTEXT_MAX_TOKENS, 10);
+  return {
+    limit: parseInt(settings.MOLTBRAIN_CONTEXT_OBSERVATIONS, 10) || 50,
+    // 0 turns the cap off
+    maxTokens: maxTokens > 0 ? maxTokens : Infinity,
+    ignore: settings.MOLTBRAIN_FOLDER_CONTEXT_IGNORE.split(',').map(glob => glob.trim()).filter(Boolean),
+    output: settings.MOLTBRAIN_FOLDER_CONTEXT_OUTPUT === 'context-dir' ? 'context-dir' : 'claude-md',
+  };
+}
 
-  // Replace only tagged content, preserve user content
-  const finalContent = replaceTaggedContent(existingContent, newContent);
+/**
+ * Whether a folder, or a folder above it, matches an ignore glob. Globs
+ * without a slash match a folder name at any depth (like .gitignore), others
+ * match the project-relative path; a trailing `/**` also covers the folder
+ * itself. The context directory is always skipped.
+ */
+export function isIgnoredFolder(folderPath: string, projectRoot: string, ignore: string[]): boolean {
+  const relativePath = path.relative(projectRoot, folderPath).split(path.sep).join('/');
+  if (relativePath === '' || relativePath.startsWith('..')) return false;
+
+  const segments = relativePath.split('/');
+  const prefixes = segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+  if (prefixes.includes(FOLDER_CONTEXT_DIR.split(path.sep).join('/'))) return true;
+
+  return ignore.some(glob => {
+    const regex = globToRegExp(glob.replace(/\/(\*\*)?$/, ''));
+    return glob.includes('/')
+      ? prefixes.some(prefix => regex.test(prefix))
+      : segments.some(segment => regex.test(segment));
+  });
+}
 
-  // Atomic write: temp file + rename
-  writeFileSync(tempFile, finalContent);
-  renameSync(tempFile, claudeMdPath);
+export interface RankedFolderObservation {
+  observation: Observation;
+  /** File in the folder the observation is listed under */
+  file: string;
+  score: number;
 }
 
 /**
- * Parsed observation from API response text
+ * Observations that read or modified a file directly in the folder, best
+ * first. The score is the context ranking (relevance x recency), doubled when
+ * the observation modified a file in the folder rather than only reading one.
+ * Relative file paths are resolved against projectRoot.
  */
-interface ParsedObservation {
-  id: string;
-  time: string;
-  typeEmoji: string;
-  title: string;
-  tokens: string;
-  epoch: number; // For date grouping
+export function rankFolderObservations(
+  observations: Observation[],
+  folderPath: string,
+  projectRoot?: string,
+  now: number = Date.now()
+): RankedFolderObservation[] {
+  const folder = path.resolve(folderPath);
+  const inFolder = (file: string): boolean => {
+    const absolute = projectRoot && !path.isAbsolute(file) ? path.join(projectRoot, file) : file;
+    return path.dirname(absolute) === folder;
+  };
+
+  const ranked: RankedFolderObservation[] = [];
+  for (const observation of observations) {
+    const modified = parseJsonArray(observation.files_modified).filter(inFolder);
+    const read = parseJsonArray(observation.files_read).filter(inFolder);
+    if (modified.length === 0 && read.length === 0) continue;
+
+    ranked.push({
+      observation,
+      file: path.basename(modified[0] ?? read[0]),
+      score: scoreObservation(observation, now) * (modified.length > 0 ? MODIFIED_FILE_WEIGHT : 1),
+    });
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || b.observation.created_at_epoch - a.observation.created_at_epoch);
 }
 
 /**
- * Format timeline text from API response to timeline format.
- *
- * Uses the same format as search results:
- * - Grouped by date (### Jan 4, 2026)
- * - Grouped by file within each date (**filename**)
- * - Table with columns: ID, Time, T (type emoji), Title, Read (tokens)
- * - Ditto marks for repeated times
- *
- * @param timelineText - Raw API response text
- * @returns Formatted markdown with date/file grouping
+ * Render the best-ranked observations that fit within maxTokens as the
+ * "Recent Activity" section: grouped by day, then by file. Candidates are
+ * taken in rank order and skipped when they no longer fit.
  */
-export function formatTimelineForClaudeMd(timelineText: string): string {
+export function renderFolderContext(
+  ranked: RankedFolderObservation[],
+  maxTokens: number
+): { content: string; observationCount: number; omittedCount: number; tokens: number } {
+  const kept: RankedFolderObservation[] = [];
+  for (const candidate of ranked) {
+    // Measured with the largest possible omitted note, so the final section fits too
+    if (estimateTokens(formatFolderContext([...kept, candidate], ranked.length)) <= maxTokens) {
+      kept.push(candidate);
+    }
+  }
+
+  const omittedCount = ranked.length - kept.length;
+  const content = formatFolderContext(kept, omittedCount);
+  return { content, observationCount: kept.length, omittedCount, tokens: estimateTokens(content) };
+}
+
+function formatFolderContext(entries: RankedFolderObservation[], omittedCount: number): string {
   const lines: string[] = [];
   lines.push('# Recent Activity');
   lines.push('');
   lines.push('<!-- This section is auto-generated by claude-recall. Edit content outside the tags. -->');
   lines.push('');
 
-  // Parse the API response to extract observation rows
-  const apiLines = timelineText.split('\n');
-
-  // Note: We skip file grouping since we're querying by folder - all results are from the same folder
-
-  // Parse observations: | #123 | 4:30 PM | 🔧 | Title | ~250 | ... |
-  const observations: ParsedObservation[] = [];
-  let lastTimeStr = '';
-  let currentDate: Date | null = null;
-
-  for (const line of apiLines) {
-    // Check for date headers: ### Jan 4, 2026
-    const dateMatch = line.match(/^###\s+(.+)$/);
-    if (dateMatch) {
-      const dateStr = dateMatch[1].trim();
-      const parsedDate = new Date(dateStr);
-      // Validate the parsed date
-      if (!isNaN(parsedDate.getTime())) {
-        currentDate = parsedDate;
-      }
-      continue;
+  if (entries.length === 0) {
+    lines.push('*No recent activity*');
+  }
+
+  const chronological = [...entries].sort((a, b) => a.observation.created_at_epoch - b.observation.created_at_epoch);
+  for (const [day, dayEntries] of groupByDate(chronological, entry => new Date(entry.observation.created_at_epoch).toISOString())) {
+    lines.push(`### ${day}`);
+    lines.push('');
+
+    const byFile = new Map<string, RankedFolderObservation[]>();
+    for (const entry of dayEntries) {
+      byFile.set(entry.file, [...(byFile.get(entry.file) ?? []), entry]);
     }
 
-    // Match table rows: | #123 | 4:30 PM | 🔧 | Title | ~250 | ... |
-    // Also handles ditto marks and session IDs (#S123)
-    const match = line.match(/^\|\s*(#[S]?\d+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|\s*([^|]+)\s*\|/);
-    if (match) {
-      const [, id, timeStr, typeEmoji, title, tokens] = match;
-
-      // Handle ditto mark (″) - use last time
-      let time: string;
-      if (timeStr.trim() === '″' || timeStr.trim() === '"') {
-        time = lastTimeStr;
-      } else {
-        time = timeStr.trim();
-        lastTimeStr = time;
-      }
+    for (const [file, fileEntries] of byFile) {
+      lines.push(`**${file}**`);
+      lines.push('| ID | Time | T | Title | Read |');
+      lines.push('|----|------|---|-------|------|');
 
-      // Parse time and combine with current date header (or fallback to today)
-      const baseDate = currentDate ? new Date(currentDate) : new Date();
-      const timeParts = time.match(/(\d+):(\d+)\s*(AM|PM)/i);
-      let epoch = baseDate.getTime();
-      if (timeParts) {
-        let hours = parseInt(timeParts[1], 10);
-        const minutes = parseInt(timeParts[2], 10);
-        const isPM = timeParts[3].toUpperCase() === 'PM';
-        if (isPM && hours !== 12) hours += 12;
-        if (!isPM && hours === 12) hours = 0;
-        baseDate.setHours(hours, minutes, 0, 0);
-        epoch = baseDate.getTime();
+      let lastTime = '';
+      for (const { observation } of fileEntries) {
+        const time = formatTime(observation.created_at_epoch);
+        const timeDisplay = time === lastTime ? '"' : time;
+        lastTime = time;
+
+        const icon = TYPE_ICONS[observation.type] || '📝';
+        const tokens = estimateTokens([observation.title, observation.subtitle, observation.narrative, observation.facts].join(''));
+        lines.push(`| #${observation.id} | ${timeDisplay} | ${icon} | ${observation.title || 'Untitled'} | ~${tokens} |`);
       }
 
-      observations.push({
-        id: id.trim(),
-        time,
-        typeEmoji: typeEmoji.trim(),
-        title: title.trim(),
-        tokens: tokens.trim(),
-        epoch
-      });
+      lines.push('');
     }
   }
 
-  if (observations.length === 0) {
-    lines.push('*No recent activity*');
-    return lines.join('\n');
+  if (omittedCount > 0) {
+    lines.push('');
+    lines.push(`*${omittedCount} more observation(s) left out to stay within the token limit*`);
   }
 
-  // Group by date
-  const byDate = groupByDate(observations, obs => new Date(obs.epoch).toISOString());
+  return lines.join('\n').trim();
+}
 
-  // Render each date group
-  for (const [day, dayObs] of byDate) {
-    lines.push(`### ${day}`);
-    lines.push('');
-    lines.push('| ID | Time | T | Title | Read |');
-    lines.push('|----|------|---|-------|------|');
-
-    let lastTime = '';
-    for (const obs of dayObs) {
-      const timeDisplay = obs.time === lastTime ? '"' : obs.time;
-      lastTime = obs.time;
-      lines.push(`| ${obs.id} | ${timeDisplay} | ${obs.typeEmoji} | ${obs.title} | ${obs.tokens} |`);
+/**
+ * File a folder's context is written to
+ */
+export function getFolderContextPath(folderPath: string, projectRoot: string, output: FolderContextOutput): string {
+  return output === 'context-dir'
+    ? path.join(projectRoot, FOLDER_CONTEXT_DIR, path.relative(projectRoot, folderPath), 'CLAUDE.md')
+    : path.join(folderPath, 'CLAUDE.md');
+}
+
+/**
+ * Line diff of two texts: changed lines prefixed with '-' and '+', two lines
+ * of unchanged context around them, and '@@' between separate hunks
+ */
+export function diffLines(before: string, after: string): string {
+  const context = 2;
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  // Longest common subsequence lengths of every pair of suffixes
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
     }
+  }
 
-    lines.push('');
+  const ops: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push(` ${a[i++]}`);
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push(`-${a[i++]}`);
+    } else {
+      ops.push(`+${b[j++]}`);
+    }
   }
 
-  return lines.join('\n').trim();
+  const keep = ops.map(() => false);
+  ops.forEach((op, index) => {
+    if (op[0] === ' ') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const lines: string[] = [];
+  ops.forEach((op, index) => {
+    if (!keep[index]) return;
+    if (index > 0 && !keep[index - 1] && lines.length > 0) {
+      lines.push('@@');
+    }
+    lines.push(op);
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Generate one folder's context from candidate observations and write it,
+ * or only report the change and its diff when dryRun is set. A folder
+ * without matching observations gets no new file, but an existing one is
+ * updated.
+ *
+ * @returns The change, or null when the folder has nothing to write
+ */
+export function generateFolderContext(
+  folderPath: string,
+  observations: Observation[],
+  options: FolderContextOptions,
+  { projectRoot = findProjectRoot(folderPath), dryRun = false, now = Date.now() }: { projectRoot?: string; dryRun?: boolean; now?: number } = {}
+): FolderContextChange | null {
+  const targetPath = getFolderContextPath(folderPath, projectRoot, options.output);
+  const ranked = rankFolderObservations(observations, folderPath, projectRoot, now);
+  if (ranked.length === 0 && !existsSync(targetPath)) {
+    return null;
+  }
+
+  const { content, observationCount, omittedCount, tokens } = renderFolderContext(ranked, options.maxTokens);
+  const before = readIfExists(targetPath);
+  const after = replaceTaggedContent(before, content);
+  const changed = after !== before;
+
+  if (changed && !dryRun) {
+    writeFileAtomic(targetPath, after);
+  }
+
+  return {
+    folderPath,
+    targetPath,
+    observationCount,
+    omittedCount,
+    tokens,
+    changed,
+    diff: changed && dryRun ? diffLines(before, after) : '',
+  };
 }
 
 /**
@@ -245,7 +418,8 @@ function isProjectRoot(folderPath: string): boolean {
 
 /**
  * Update CLAUDE.md files for folders containing the given files.
- * Fetches timeline from worker API and writes formatted content.
+ * Fetches the folder's observations from the worker API and writes the
+ * generated context (see generateFolderContext).
  *
  * NOTE: Project root folders (containing .git) are excluded to preserve
  * user-managed root CLAUDE.md files. Only subfolder CLAUDE.md files are auto-updated.
@@ -253,17 +427,15 @@ function isProjectRoot(folderPath: string): boolean {
  * @param filePaths - Array of absolute file paths (modified or read)
  * @param project - Project identifier for API query
  * @param port - Worker API port
+ * @param options - Generator options (default: from settings)
  */
 export async function updateFolderClaudeMdFiles(
   filePaths: string[],
   project: string,
   port: number,
-  projectRoot?: string
+  projectRoot?: string,
+  options: FolderContextOptions = getFolderContextOptions()
 ): Promise<void> {
-  // Load settings to get configurable observation limit
-  const settings = SettingsDefaultsManager.loadFromFile(SETTINGS_PATH);
-  const limit = parseInt(settings.CLAUDE_RECALL_CONTEXT_OBSERVATIONS, 10) || 50;
-
   // Extract unique folder paths from file paths
   const folderPaths = new Set<string>();
   for (const filePath of filePaths) {
@@ -288,6 +460,10 @@ export async function updateFolderClaudeMdFiles(
         logger.debug('FOLDER_INDEX', 'Skipping project root CLAUDE.md', { folderPath });
         continue;
       }
+      if (isIgnoredFolder(folderPath, projectRoot ?? findProjectRoot(folderPath), options.ignore)) {
+        logger.debug('FOLDER_INDEX', 'Skipping ignored folder', { folderPath });
+        continue;
+      }
       folderPaths.add(folderPath);
     }
   }
@@ -302,10 +478,10 @@ export async function updateFolderClaudeMdFiles(
   // Process each folder
   for (const folderPath of folderPaths) {
     try {
-      // Fetch timeline via existing API
+      // Fetch the folder's observations via existing API
       const host = getWorkerHost();
       const response = await fetch(
-        `http://${host}:${port}/api/search/by-file?filePath=${encodeURIComponent(folderPath)}&limit=${limit}&project=${encodeURIComponent(project)}&isFolder=true`
+        `http://${host}:${port}/api/search/by-file?filePath=${encodeURIComponent(folderPath)}&limit=${options.limit}&project=${encodeURIComponent(project)}&isFolder=true&format=json`
       );
 
       if (!response.ok) {
@@ -313,28 +489,25 @@ export async function updateFolderClaudeMdFiles(
         continue;
       }
 
-      const result = await response.json();
-      if (!result.content?.[0]?.text) {
+      const result = await response.json() as { observations?: Observation[] };
+      if (!Array.isArray(result.observations)) {
         logger.debug('FOLDER_INDEX', 'No content for folder', { folderPath });
         continue;
       }
 
-      const formatted = formatTimelineForClaudeMd(result.content[0].text);
-
       // Fix for #758: Don't create new CLAUDE.md files if there's no activity
       // But update existing ones to show "No recent activity" if they already exist
-      const claudeMdPath = path.join(folderPath, 'CLAUDE.md');
-      const hasNoActivity = formatted.includes('*No recent activity*');
-      const fileExists = existsSync(claudeMdPath);
-
-      if (hasNoActivity && !fileExists) {
+      const change = generateFolderContext(folderPath, result.observations, options, { projectRoot });
+      if (!change) {
         logger.debug('FOLDER_INDEX', 'Skipping empty CLAUDE.md creation', { folderPath });
         continue;
       }
 
-      writeClaudeMdToFolder(folderPath, formatted);
-
-      logger.debug('FOLDER_INDEX', 'Updated CLAUDE.md', { folderPath });
+      logger.debug('FOLDER_INDEX', change.changed ? 'Updated CLAUDE.md' : 'CLAUDE.md unchanged', {
+        targetPath: change.targetPath,
+        observationCount: change.observationCount,
+        omittedCount: change.omittedCount
+      });
     } catch (error) {
       // Fire-and-forget: log warning but don't fail
       const err = error as Error;
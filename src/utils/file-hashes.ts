@@ -0,0 +1,71 @@
+/**
+ * File Content Hashing
+ *
+ * Records content hashes of the files an observation references so later
+ * context injection can tell whether those files were rewritten or removed.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, statSync } from 'fs';
+import path from 'path';
+
+// Large files are skipped: hashing them on every context injection is too slow
+const MAX_HASHED_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_HASHED_FILES = 50;
+
+/**
+ * Map of recorded file path to content hash.
+ * null means the file did not exist (or was not hashable) when recorded.
+ */
+export type FileHashes = Record<string, string | null>;
+
+/**
+ * Hash a single file's content
+ *
+ * @returns Hex sha256 prefix, or null if the file is missing, not a regular file, or too large
+ */
+export function hashFile(filePath: string): string | null {
+  try {
+    const stat = statSync(filePath);
+    if (!stat.isFile() || stat.size > MAX_HASHED_FILE_BYTES) {
+      return null;
+    }
+    return createHash('sha256').update(readFileSync(filePath)).digest('hex').slice(0, 16);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a file currently exists
+ */
+export function fileExists(filePath: string): boolean {
+  try {
+    statSync(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolve a recorded path (absolute or relative to the project) against cwd
+ */
+export function resolveReferencedPath(filePath: string, cwd: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.resolve(cwd, filePath);
+}
+
+/**
+ * Hash every referenced file, keyed by the path as recorded on the observation
+ *
+ * @param files - files_read and files_modified paths
+ * @param cwd - Project directory used to resolve relative paths
+ */
+export function hashReferencedFiles(files: string[], cwd: string): FileHashes {
+  const hashes: FileHashes = {};
+  for (const file of Array.from(new Set(files)).slice(0, MAX_HASHED_FILES)) {
+    if (!file) continue;
+    hashes[file] = hashFile(resolveReferencedPath(file, cwd));
+  }
+  return hashes;
+}
@@ -0,0 +1,229 @@
+/**
+ * Secret and PII Redaction
+ *
+ * Replaces credentials and personal data in prompts and tool payloads with
+ * typed placeholders (`[REDACTED:github_token]`) before they leave the hook.
+ * Built-in detectors are enabled by name via MOLTBRAIN_REDACTION_DETECTORS;
+ * MOLTBRAIN_REDACTION_RULES adds user regex rules as a JSON array of
+ * `{ "name": "...", "pattern": "...", "flags": "i" }`.
+ *
+ * EDGE PROCESSING PATTERN: like tag stripping, this runs in the hook so
+ * nothing sensitive reaches pending_messages or agent prompts.
+ */
+
+import { SettingsDefaultsManager, type SettingsDefaults } from '../common/SettingsDefaultsManager.js';
+import { USER_SETTINGS_PATH } from '../common/paths.js';
+import { logger } from './logger.js';
+
+export interface RedactionRule {
+  /** Placeholder type and counter key */
+  name: string;
+  /** Global regex; a named group `secret` limits the replacement to that part */
+  pattern: RegExp;
+  /** Extra check on the matched secret */
+  accept?: (secret: string) => boolean;
+}
+
+/** Redactions per rule name */
+export type RedactionCounts = Record<string, number>;
+
+const HIGH_ENTROPY_MIN_BITS = 4.3;
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const frequencies = new Map<string, number>();
+  for (const char of value) {
+    frequencies.set(char, (frequencies.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of frequencies.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Built-in detectors, applied in this order. Specific formats come before
+ * the generic high-entropy catch-all so they get the more useful type.
+ */
+export const BUILTIN_DETECTORS: Record<string, RedactionRule[]> = {
+  private_key: [{
+    name: 'private_key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+  }],
+  jwt: [{
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g
+  }],
+  github: [{
+    name: 'github_token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g
+  }],
+  aws: [
+    { name: 'aws_access_key', pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|ANPA|ANVA|AIPA)[A-Z0-9]{16}\b/g },
+    { name: 'aws_secret_key', pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})/gi }
+  ],
+  gcp: [
+    { name: 'gcp_api_key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+    { name: 'gcp_oauth_token', pattern: /\bya29\.[0-9A-Za-z_-]{20,}/g }
+  ],
+  bearer: [{
+    name: 'bearer_token',
+    pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/g
+  }],
+  env: [{
+    name: 'env_secret',
+    pattern: /^[ \t]*(?:export[ \t]+)?[A-Z][A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|API_KEY|APIKEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIALS?)[A-Z0-9_]*[ \t]*=[ \t]*["']?(?<secret>[^\s"'#]+)/gm
+  }],
+  email: [{
+    name: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g
+  }],
+  high_entropy: [{
+    name: 'high_entropy',
+    pattern: /[A-Za-z0-9+/_=-]{32,}/g,
+    // Needs letters and digits: keeps paths, identifiers and git SHAs (hex tops out at 4 bits/char)
+    accept: secret => /\d/.test(secret) && /[A-Za-z]/.test(secret) && shannonEntropy(secret) >= HIGH_ENTROPY_MIN_BITS
+  }]
+};
+
+export class Redactor {
+  readonly counts: RedactionCounts = {};
+
+  constructor(private rules: RedactionRule[]) {}
+
+  get total(): number {
+    return Object.values(this.counts).reduce((sum, count) => sum + count, 0);
+  }
+
+  /**
+   * Redact a string
+   */
+  redactText(text: string): string {
+    let result = text;
+    for (const rule of this.rules) {
+      rule.pattern.lastIndex = 0;
+      result = result.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+        const last = args[args.length - 1];
+        const groups = typeof last === 'object' && last !== null ? last as Record<string, string | undefined> : undefined;
+        const secret = groups?.secret ?? match;
+        if (rule.accept && !rule.accept(secret)) {
+          return match;
+        }
+        this.counts[rule.name] = (this.counts[rule.name] ?? 0) + 1;
+        const placeholder = `[REDACTED:${rule.name}]`;
+        return secret === match ? placeholder : match.replace(secret, placeholder);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Redact every string inside a JSON-like value (tool inputs and responses)
+   */
+  redactValue<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redactText(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redactValue(item)) as T;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        result[key] = this.redactValue(item);
+      }
+      return result as T;
+    }
+    return value;
+  }
+}
+
+/**
+ * Parse MOLTBRAIN_REDACTION_RULES; invalid rules are logged and skipped
+ */
+export function parseUserRules(json: string): RedactionRule[] {
+  if (!json.trim()) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(json);
+  } catch (error) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_REDACTION_RULES is not valid JSON, ignoring it', {}, error as Error);
+    return [];
+  }
+  if (!Array.isArray(entries)) {
+    logger.warn('SYSTEM', 'MOLTBRAIN_REDACTION_RULES must be a JSON array, ignoring it');
+    return [];
+  }
+
+  const rules: RedactionRule[] = [];
+  for (const entry of entries) {
+    const { name, pattern, flags = '' } = (entry ?? {}) as { name?: unknown; pattern?: unknown; flags?: unknown };
+    if (typeof name !== 'string' || !/^[a-z0-9_]+$/i.test(name) || typeof pattern !== 'string' || typeof flags !== 'string') {
+      logger.warn('SYSTEM', 'Skipping redaction rule without a valid name and pattern', { rule: entry });
+      continue;
+    }
+    try {
+      rules.push({ name, pattern: new RegExp(pattern, flags.includes('g') ? flags : flags + 'g') });
+    } catch (error) {
+      logger.warn('SYSTEM', 'Skipping redaction rule with an invalid pattern', { name }, error as Error);
+    }
+  }
+  return rules;
+}
+
+/**
+ * Build a redactor from settings; null when redaction is disabled.
+ * User rules run first so they can claim matches before the built-ins.
+ */
+export function createRedactor(settings: SettingsDefaults): Redactor | null {
+  if (settings.MOLTBRAIN_REDACTION_ENABLED !== 'true') {
+    return null;
+  }
+
+  const rules = parseUserRules(settings.MOLTBRAIN_REDACTION_RULES);
+  const enabled = new Set(settings.MOLTBRAIN_REDACTION_DETECTORS.split(',').map(name => name.trim()).filter(Boolean));
+  for (const [detector, detectorRules] of Object.entries(BUILTIN_DETECTORS)) {
+    if (enabled.has(detector)) {
+      rules.push(...detectorRules);
+    }
+  }
+  return new Redactor(rules);
+}
+
+/**
+ * Redactor for text leaving the machine (MoltBook posts): user rules and
+ * every built-in detector, whether or not capture redaction is enabled
+ */
+export function createPublishRedactor(settings: SettingsDefaults): Redactor {
+  return new Redactor([...parseUserRules(settings.MOLTBRAIN_REDACTION_RULES), ...Object.values(BUILTIN_DETECTORS).flat()]);
+}
+
+/**
+ * Redactor configured by user settings
+ */
+export function loadRedactor(): Redactor | null {
+  return createRedactor(SettingsDefaultsManager.loadFromFile(USER_SETTINGS_PATH));
+}
+
+/**
+ * Redact text (or every string in a JSON-like value) received by the worker
+ * with the user's redactor. Hooks redact before sending; this covers clients
+ * that post straight to the worker. `onRedacted` gets the per-kind counts when
+ * anything was redacted.
+ */
+export function redactIncoming<T>(value: T, onRedacted: (counts: RedactionCounts) => void): T {
+  const redactor = loadRedactor();
+  if (!redactor) {
+    return value;
+  }
+  const redacted = redactor.redactValue(value);
+  if (redactor.total > 0) {
+    onRedacted(redactor.counts);
+  }
+  return redacted;
+}
@@ -0,0 +1,98 @@
+/**
+ * Transcript Events - tool uses recorded in Claude Code transcripts
+ *
+ * Reprocessing replays a session's tool uses as if the PostToolUse hook had
+ * just fired. The hook payload is rebuilt from the transcript: each
+ * assistant tool_use is paired with the user tool_result that answers it.
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { ToolUseContent, TranscriptEntry } from '../types/transcript.js';
+
+export const CLAUDE_PROJECTS_DIR = join(homedir(), '.claude', 'projects');
+
+/**
+ * A completed tool use, shaped like the PostToolUse hook input
+ */
+export interface TranscriptToolEvent {
+  tool_name: string;
+  tool_input: unknown;
+  tool_response: unknown;
+  cwd?: string;
+  /** When the result was recorded (the hook fires after the tool returns) */
+  timestamp_epoch: number;
+}
+
+/**
+ * Find a session's transcript. Transcripts live under a directory named after
+ * the working directory, which the stored session does not record, so every
+ * project directory is checked.
+ */
+export function findTranscriptPath(contentSessionId: string, projectsDir: string = CLAUDE_PROJECTS_DIR): string | null {
+  if (!existsSync(projectsDir)) return null;
+
+  for (const entry of readdirSync(projectsDir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    const candidate = join(projectsDir, entry.name, `${contentSessionId}.jsonl`);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Completed tool uses in transcript order. Tool uses without a result
+ * (interrupted sessions) never reached the hook and are skipped.
+ */
+export function extractToolEvents(entries: TranscriptEntry[]): TranscriptToolEvent[] {
+  const uses = new Map<string, { use: ToolUseContent; cwd?: string }>();
+  const events: TranscriptToolEvent[] = [];
+
+  for (const entry of entries) {
+    if (entry.type === 'assistant') {
+      for (const item of entry.message?.content ?? []) {
+        if (item.type === 'tool_use') {
+          uses.set(item.id, { use: item, cwd: entry.cwd });
+        }
+      }
+      continue;
+    }
+
+    if (entry.type !== 'user' || !Array.isArray(entry.message?.content)) continue;
+
+    for (const item of entry.message.content) {
+      if (item.type !== 'tool_result') continue;
+      const pending = uses.get(item.tool_use_id);
+      if (!pending) continue;
+      uses.delete(item.tool_use_id);
+
+      const timestamp = Date.parse(entry.timestamp);
+      events.push({
+        tool_name: pending.use.name,
+        tool_input: pending.use.input,
+        // Structured results are what the hook receives; the message content is the fallback
+        tool_response: entry.toolUseResult ?? item.content,
+        cwd: entry.cwd ?? pending.cwd,
+        timestamp_epoch: Number.isNaN(timestamp) ? 0 : timestamp
+      });
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Prompt number an event belongs to: the last prompt stored before it
+ */
+export function promptNumberAt(
+  timestampEpoch: number,
+  prompts: Array<{ prompt_number: number; created_at_epoch: number }>
+): number {
+  let promptNumber = prompts[0]?.prompt_number ?? 1;
+  for (const prompt of prompts) {
+    if (prompt.created_at_epoch > timestampEpoch) break;
+    promptNumber = prompt.prompt_number;
+  }
+  return promptNumber;
+}
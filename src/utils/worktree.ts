@@ -6,11 +6,22 @@
  *
  * Git worktrees have a `.git` file (not directory) containing:
  *   gitdir: /path/to/parent/.git/worktrees/<name>
+ *
+ * Also captures HEAD/dirty state for observations and finds the commits
+ * that later contained an observation's file changes.
  */
 
 import { statSync, readFileSync } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import path from 'path';
 
+const execFileAsync = promisify(execFile);
+
+// Git state is captured on the hot observation path; never let it hang a hook
+const GIT_COMMAND_TIMEOUT_MS = 5_000;
+const GIT_MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
 export interface WorktreeInfo {
   isWorktree: boolean;
   worktreeName: string | null;     // e.g., "yokohama"
@@ -82,3 +93,100 @@ export function detectWorktree(cwd: string): WorktreeInfo {
     parentProjectName
   };
 }
+
+export interface GitHeadState {
+  repoRoot: string;   // e.g., "/Users/alex/main"
+  headSha: string;    // full 40-char sha of HEAD
+  dirty: boolean;     // uncommitted changes in the working tree or index
+}
+
+/**
+ * Run a git command in a directory, returning trimmed stdout or null on any failure.
+ * Uses an argument array (no shell) so paths can never be interpreted as commands,
+ * and runs asynchronously so the worker's event loop never waits on git.
+ */
+async function runGit(cwd: string, args: string[]): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      timeout: GIT_COMMAND_TIMEOUT_MS,
+      maxBuffer: GIT_MAX_OUTPUT_BYTES,
+      windowsHide: true
+    });
+    return stdout.trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Capture the HEAD commit and dirty state of the repository containing cwd.
+ *
+ * @param cwd - Directory inside a git repository or worktree
+ * @returns GitHeadState, or null if cwd is not in a repo or HEAD has no commits yet
+ */
+export async function getGitHeadState(cwd: string): Promise<GitHeadState | null> {
+  const revParse = await runGit(cwd, ['rev-parse', '--show-toplevel', 'HEAD']);
+  if (!revParse) {
+    return null;
+  }
+
+  const [repoRoot, headSha] = revParse.split('\n');
+  if (!repoRoot || !headSha || !/^[0-9a-f]{40}$/.test(headSha)) {
+    return null;
+  }
+
+  const status = await runGit(cwd, ['status', '--porcelain', '--untracked-files=no']);
+
+  return {
+    repoRoot,
+    headSha,
+    dirty: status === null ? true : status.length > 0
+  };
+}
+
+/**
+ * Find the first commit after baseSha (up to HEAD) that touched each file.
+ *
+ * @param repoRoot - Repository root
+ * @param baseSha - Commit that HEAD pointed at when the files were changed
+ * @param files - Paths relative to repoRoot
+ * @returns Map of file path to the sha of the earliest commit containing it.
+ *          Files not committed since baseSha are absent. Returns null if baseSha
+ *          is no longer an ancestor of HEAD (e.g. rebased away).
+ */
+export async function findFirstCommitsTouchingFiles(
+  repoRoot: string,
+  baseSha: string,
+  files: string[]
+): Promise<Map<string, string> | null> {
+  if (files.length === 0) {
+    return new Map();
+  }
+
+  if (await runGit(repoRoot, ['merge-base', '--is-ancestor', baseSha, 'HEAD']) === null) {
+    return null;
+  }
+
+  const log = await runGit(repoRoot, [
+    'log', '--reverse', '--format=%H', '--name-only', `${baseSha}..HEAD`, '--', ...files
+  ]);
+  if (log === null) {
+    return null;
+  }
+
+  const wanted = new Set(files);
+  const firstCommits = new Map<string, string>();
+  let currentSha: string | null = null;
+
+  for (const line of log.split('\n')) {
+    if (/^[0-9a-f]{40}$/.test(line)) {
+      currentSha = line;
+    } else if (line && currentSha && wanted.has(line) && !firstCommits.has(line)) {
+      firstCommits.set(line, currentSha);
+    }
+  }
+
+  return firstCommits;
+}
@@ -15,8 +15,13 @@ export interface ValidationResult {
   errors: ValidationError[];
 }
 
+const VALID_PROVIDERS = ['claude', 'gemini', 'openrouter', 'openai-compatible'];
+
 export interface SettingsSchema {
   CLAUDE_RECALL_PROVIDER?: string;
+  MOLTBRAIN_PROVIDER?: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL?: string;
+  MOLTBRAIN_OPENAI_COMPATIBLE_MODEL?: string;
   CLAUDE_RECALL_MODE?: string;
   CLAUDE_RECALL_WORKER_PORT?: number;
   CLAUDE_RECALL_WORKER_HOST?: string;
@@ -39,7 +44,10 @@ export class SettingsValidator {
   validate(settings: Record<string, any>): ValidationResult {
     this.errors = [];
 
-    this.validateProvider(settings.CLAUDE_RECALL_PROVIDER);
+    this.validateProvider('CLAUDE_RECALL_PROVIDER', settings.CLAUDE_RECALL_PROVIDER);
+    this.validateProvider('MOLTBRAIN_PROVIDER', settings.MOLTBRAIN_PROVIDER);
+    this.validateBaseUrl('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', settings.MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL);
+    this.validateOpenAICompatibleSelection(settings);
     this.validateMode(settings.CLAUDE_RECALL_MODE);
     this.validatePort(settings.CLAUDE_RECALL_WORKER_PORT);
     this.validateHost(settings.CLAUDE_RECALL_WORKER_HOST);
@@ -58,6 +66,25 @@ export class SettingsValidator {
     };
   }
 
+  /**
+   * Validate only the provider selection, base URL and model: what must be
+   * checked before settings are saved, since a bad value there breaks
+   * observation generation
+   */
+  validateProviderSettings(settings: Record<string, any>): ValidationResult {
+    this.errors = [];
+
+    this.validateProvider('CLAUDE_RECALL_PROVIDER', settings.CLAUDE_RECALL_PROVIDER);
+    this.validateProvider('MOLTBRAIN_PROVIDER', settings.MOLTBRAIN_PROVIDER);
+    this.validateBaseUrl('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', settings.MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL);
+    this.validateOpenAICompatibleSelection(settings);
+
+    return {
+      valid: this.errors.length === 0,
+      errors: this.errors,
+    };
+  }
+
   /**
    * Validate a single field
    */
@@ -67,7 +94,14 @@ export class SettingsValidator {
 
     switch (field) {
       case 'CLAUDE_RECALL_PROVIDER':
-        this.validateProvider(value);
+      case 'MOLTBRAIN_PROVIDER':
+        this.validateProvider(field, value);
+        break;
+      case 'MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL':
+        this.validateBaseUrl(field, value);
+        break;
+      case 'MOLTBRAIN_OPENAI_COMPATIBLE_MODEL':
+        this.validateModelName(field, value);
         break;
       case 'CLAUDE_RECALL_MODE':
         this.validateMode(value);
@@ -105,12 +139,52 @@ export class SettingsValidator {
     return error;
   }
 
-  private validateProvider(value: any): void {
+  private validateProvider(field: string, value: any): void {
     if (value === undefined) return;
     
-    const validProviders = ['claude', 'gemini', 'openrouter'];
-    if (!validProviders.includes(value)) {
-      this.addError('CLAUDE_RECALL_PROVIDER', `Must be one of: ${validProviders.join(', ')}`, value);
+    if (!VALID_PROVIDERS.includes(value)) {
+      this.addError(field, `Must be one of: ${VALID_PROVIDERS.join(', ')}`, value);
+    }
+  }
+
+  private validateBaseUrl(field: string, value: any): void {
+    if (value === undefined || value === '') return;
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      this.addError(field, 'Must be a valid URL', value);
+      return;
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      this.addError(field, 'Must use http or https', value);
+    }
+  }
+
+  private validateModelName(field: string, value: any): void {
+    if (value === undefined) return;
+
+    if (typeof value !== 'string' || /\s/.test(value)) {
+      this.addError(field, 'Must be a model name without whitespace', value);
+    }
+  }
+
+  /**
+   * The OpenAI-compatible provider has no usable default model, so selecting
+   * it requires both a base URL and a model
+   */
+  private validateOpenAICompatibleSelection(settings: Record<string, any>): void {
+    this.validateModelName('MOLTBRAIN_OPENAI_COMPATIBLE_MODEL', settings.MOLTBRAIN_OPENAI_COMPATIBLE_MODEL);
+
+    if (settings.MOLTBRAIN_PROVIDER !== 'openai-compatible') return;
+
+    if (!settings.MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL) {
+      this.addError('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', 'Required when MOLTBRAIN_PROVIDER is openai-compatible');
+    }
+    if (!settings.MOLTBRAIN_OPENAI_COMPATIBLE_MODEL) {
+      this.addError('MOLTBRAIN_OPENAI_COMPATIBLE_MODEL', 'Required when MOLTBRAIN_PROVIDER is openai-compatible');
     }
   }
 
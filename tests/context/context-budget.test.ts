@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import { packContextByTokenBudget, scoreObservation } from '../../src/core/builder/ObservationCompiler.js';
+import { calculateIndexLineTokens, calculateSummaryTokens } from '../../src/core/builder/TokenCalculator.js';
+import type { ContextConfig, Observation, SessionSummary } from '../../src/core/builder/types.js';
+
+const NOW = 1_800_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+function createTestConfig(overrides: Partial<ContextConfig> = {}): ContextConfig {
+  return {
+    totalObservationCount: 50,
+    fullObservationCount: 5,
+    sessionCount: 10,
+    showReadTokens: true,
+    showWorkTokens: true,
+    showSavingsAmount: true,
+    showSavingsPercent: true,
+    observationTypes: new Set(['discovery']),
+    observationConcepts: new Set(['how-it-works']),
+    fullObservationField: 'narrative',
+    showLastSummary: true,
+    showLastMessage: false,
+    tokenBudget: 1000,
+    ...overrides,
+  };
+}
+
+function createTestObservation(id: number, ageDays: number, overrides: Partial<Observation> = {}): Observation {
+  return {
+    id,
+    memory_session_id: 'session-123',
+    type: 'discovery',
+    title: `Observation ${id}`,
+    subtitle: null,
+    narrative: 'x'.repeat(400),
+    facts: null,
+    concepts: null,
+    files_read: null,
+    files_modified: null,
+    discovery_tokens: 0,
+    created_at: new Date(NOW - ageDays * DAY).toISOString(),
+    created_at_epoch: NOW - ageDays * DAY,
+    ...overrides,
+  };
+}
+
+function createTestSummary(id: number, ageDays: number): SessionSummary {
+  return {
+    id,
+    memory_session_id: 'session-123',
+    request: `Request ${id}`,
+    investigated: null,
+    learned: null,
+    completed: null,
+    next_steps: null,
+    created_at: new Date(NOW - ageDays * DAY).toISOString(),
+    created_at_epoch: NOW - ageDays * DAY,
+  };
+}
+
+describe('scoreObservation', () => {
+  it('should prefer recent, fresh observations', () => {
+    const recent = createTestObservation(1, 0);
+    const old = createTestObservation(2, 14);
+    const stale = createTestObservation(3, 0, { staleness: 'stale' });
+
+    expect(scoreObservation(recent, NOW)).toBeGreaterThan(scoreObservation(old, NOW));
+    expect(scoreObservation(recent, NOW)).toBeGreaterThan(scoreObservation(stale, NOW));
+  });
+});
+
+describe('packContextByTokenBudget', () => {
+  it('should keep everything when the budget is large', () => {
+    const observations = [createTestObservation(1, 0), createTestObservation(2, 1)];
+    const summaries = [createTestSummary(1, 0)];
+
+    const packed = packContextByTokenBudget(observations, summaries, createTestConfig({ tokenBudget: 10_000 }), NOW);
+
+    expect(packed.observations).toHaveLength(2);
+    expect(packed.fullObservationIds).toEqual(new Set([1, 2]));
+    expect(packed.report.droppedObservations).toBe(0);
+    expect(packed.report.usedTokens).toBeLessThanOrEqual(10_000);
+  });
+
+  it('should favour index rows over full details and drop the oldest when tight', () => {
+    const observations = [0, 1, 2, 30].map((age, i) => createTestObservation(i + 1, age));
+    const indexCost = calculateIndexLineTokens(observations[0]);
+    const budget = indexCost * 3;
+
+    const packed = packContextByTokenBudget(observations, [], createTestConfig({ tokenBudget: budget }), NOW);
+
+    expect(packed.observations.map(obs => obs.id)).toEqual([1, 2, 3]);
+    expect(packed.fullObservationIds.size).toBe(0);
+    expect(packed.report).toMatchObject({
+      budget,
+      droppedObservations: 1,
+      droppedSummaries: 0,
+      droppedTokens: indexCost
+    });
+  });
+
+  it('should keep summaries as a most-recent-first prefix', () => {
+    const summaries = [createTestSummary(3, 0), createTestSummary(2, 1), createTestSummary(1, 2)];
+    const budget = calculateSummaryTokens(summaries[0]) * 2;
+
+    const packed = packContextByTokenBudget([], summaries, createTestConfig({ tokenBudget: budget }), NOW);
+
+    expect(packed.summaries.map(summary => summary.id)).toEqual([3, 2]);
+    expect(packed.report.droppedSummaries).toBe(1);
+  });
+});
@@ -93,6 +93,7 @@ function createTestConfig(overrides: Partial<ContextConfig> = {}): ContextConfig
     fullObservationField: 'narrative',
     showLastSummary: true,
     showLastMessage: true,
+    tokenBudget: 0,
     ...overrides,
   };
 }
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { checkStaleness } from '../../src/core/builder/StalenessChecker.js';
+import { applyStaleness, demoteStaleObservations, getFullObservationIds } from '../../src/core/builder/ObservationCompiler.js';
+import { hashReferencedFiles } from '../../src/utils/file-hashes.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import type { Observation } from '../../src/core/builder/types.js';
+
+function createTestObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    id: 1,
+    memory_session_id: 'session-123',
+    type: 'discovery',
+    title: 'Test Observation',
+    subtitle: null,
+    narrative: null,
+    facts: null,
+    concepts: null,
+    files_read: null,
+    files_modified: null,
+    discovery_tokens: 0,
+    created_at: '2025-01-01T12:00:00.000Z',
+    created_at_epoch: 1735732800000,
+    ...overrides,
+  };
+}
+
+describe('checkStaleness', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = join(tmpdir(), `staleness-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(tempDir, { recursive: true });
+    writeFileSync(join(tempDir, 'a.ts'), 'a\n');
+    writeFileSync(join(tempDir, 'b.ts'), 'b\n');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report fresh when recorded files are unchanged', () => {
+    const hashes = JSON.stringify(hashReferencedFiles(['a.ts', join(tempDir, 'b.ts')], tempDir));
+    expect(checkStaleness(hashes, tempDir)).toBe('fresh');
+  });
+
+  it('should report stale when a file is rewritten or one of several is removed', () => {
+    const hashes = JSON.stringify(hashReferencedFiles(['a.ts', 'b.ts'], tempDir));
+
+    writeFileSync(join(tempDir, 'a.ts'), 'rewritten\n');
+    expect(checkStaleness(hashes, tempDir)).toBe('stale');
+
+    writeFileSync(join(tempDir, 'a.ts'), 'a\n');
+    rmSync(join(tempDir, 'b.ts'));
+    expect(checkStaleness(hashes, tempDir)).toBe('stale');
+  });
+
+  it('should report orphaned when every recorded file is removed', () => {
+    const hashes = JSON.stringify(hashReferencedFiles(['a.ts', 'b.ts'], tempDir));
+    rmSync(join(tempDir, 'a.ts'));
+    rmSync(join(tempDir, 'b.ts'));
+
+    expect(checkStaleness(hashes, tempDir)).toBe('orphaned');
+  });
+
+  it('should return null when nothing was recorded', () => {
+    expect(checkStaleness(null, tempDir)).toBeNull();
+    expect(checkStaleness(JSON.stringify(hashReferencedFiles(['missing.ts'], tempDir)), tempDir)).toBeNull();
+  });
+
+  it('should persist staleness through applyStaleness', () => {
+    const store = new SessionStore(':memory:');
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    const { id } = store.storeObservation('mem-1', 'proj', {
+      type: 'discovery', title: 'A', subtitle: null, facts: [], narrative: null,
+      concepts: [], files_read: ['a.ts'], files_modified: []
+    });
+    store.setObservationFileHashes(id, hashReferencedFiles(['a.ts'], tempDir));
+    writeFileSync(join(tempDir, 'a.ts'), 'rewritten\n');
+
+    const [obs] = applyStaleness(store, [createTestObservation({ id, file_hashes: store.getObservationById(id)!.file_hashes })], tempDir);
+
+    expect(obs.staleness).toBe('stale');
+    expect(store.getObservationById(id)!.staleness).toBe('stale');
+    store.close();
+  });
+});
+
+describe('demoteStaleObservations', () => {
+  it('should move stale and orphaned observations after fresh ones, keeping order', () => {
+    const observations = [
+      createTestObservation({ id: 1, staleness: 'orphaned' }),
+      createTestObservation({ id: 2, staleness: 'stale' }),
+      createTestObservation({ id: 3 }),
+      createTestObservation({ id: 4, staleness: 'fresh' }),
+    ];
+
+    expect(demoteStaleObservations(observations).map(obs => obs.id)).toEqual([3, 4, 2, 1]);
+    expect(getFullObservationIds(observations, 2)).toEqual(new Set([3, 4]));
+  });
+});
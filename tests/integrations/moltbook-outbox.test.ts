@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+import { MoltBookApiError, MoltBookClient, parseRetryAfter } from '../../integrations/moltbook/moltbook-client.js';
+import { MoltBookOutbox } from '../../integrations/moltbook/outbox.js';
+import { MoltBookHandlers } from '../../integrations/moltbook/handlers.js';
+
+interface RecordedRequest {
+  path: string;
+  idempotencyKey: string | null;
+}
+
+/**
+ * Local MoltBook whose next answers can be scripted: each queued failure is
+ * answered once, then requests succeed
+ */
+function startMoltBook() {
+  const requests: RecordedRequest[] = [];
+  const failures: Array<{ status: number; retryAfter?: string; message?: string }> = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      requests.push({ path: pathname, idempotencyKey: request.headers.get('Idempotency-Key') });
+
+      const failure = failures.shift();
+      if (failure) {
+        return Response.json(
+          { message: failure.message ?? 'Try again later' },
+          { status: failure.status, headers: failure.retryAfter ? { 'Retry-After': failure.retryAfter } : {} }
+        );
+      }
+      const body = await request.json().catch(() => ({})) as Record<string, unknown>;
+      if (pathname === '/api/agents/register') {
+        return Response.json({ id: 'agent-1', ...body, apiKey: 'mb_live_secret' });
+      }
+      return Response.json({ id: `post-${requests.length}`, ...body });
+    }
+  });
+  return { server, requests, failures };
+}
+
+describe('MoltBook resiliency', () => {
+  let moltbook: ReturnType<typeof startMoltBook>;
+  let client: MoltBookClient;
+
+  beforeEach(() => {
+    moltbook = startMoltBook();
+    client = new MoltBookClient({ apiUrl: `http://127.0.0.1:${moltbook.server.port}`, retry: { baseDelayMs: 1, maxDelayMs: 50 } });
+  });
+
+  afterEach(() => {
+    moltbook.server.stop(true);
+  });
+
+  it('should retry rate limits and server errors with the same idempotency key', async () => {
+    moltbook.failures.push({ status: 429, retryAfter: '0' }, { status: 503 });
+
+    const post = await client.createPost({ title: 'T', content: 'C', submolt: 'm/test' }, { idempotencyKey: 'key-1' });
+
+    expect(post.id).toBe('post-3');
+    expect(moltbook.requests.map(request => request.idempotencyKey)).toEqual(['key-1', 'key-1', 'key-1']);
+  });
+
+  it('should give up on rejected requests and on waits longer than allowed', async () => {
+    moltbook.failures.push({ status: 400, message: 'Unknown submolt' });
+    await expect(client.createPost({ title: 'T', content: 'C', submolt: 'm/none' })).rejects.toThrow('MoltBook API error: Unknown submolt');
+    expect(moltbook.requests).toHaveLength(1);
+
+    moltbook.failures.push({ status: 429, retryAfter: '120' });
+    const error = await client.getPosts().catch(caught => caught) as MoltBookApiError;
+    expect(error).toBeInstanceOf(MoltBookApiError);
+    expect([error.status, error.retryAfterMs, error.retryable]).toEqual([429, 120000, true]);
+    // Reads carry no idempotency key
+    expect(moltbook.requests[1].idempotencyKey).toBeNull();
+
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(30000);
+  });
+
+  it('should keep writes queued while MoltBook is down and send them once it is back', async () => {
+    let now = 1_000_000;
+    const outbox = new MoltBookOutbox(client, { path: ':memory:', retryDelayMs: 1000, now: () => now });
+    moltbook.failures.push(...Array(4).fill({ status: 503, retryAfter: '0' }));
+
+    const queued = await outbox.submit('add_comment', { postId: 'post-9', content: 'Thanks!' }, 'comment-1');
+    expect(queued).toMatchObject({ status: 'pending', attempts: 1, lastError: 'MoltBook API error: Try again later', nextAttemptAt: now + 1000 });
+
+    // Not due yet
+    expect(await outbox.flush()).toBe(0);
+    now += 1000;
+    expect(await outbox.flush()).toBe(1);
+
+    const sent = outbox.get('comment-1')!;
+    expect(sent).toMatchObject({ status: 'sent', attempts: 2, result: { content: 'Thanks!' } });
+    expect(new Set(moltbook.requests.map(request => request.idempotencyKey))).toEqual(new Set(['comment-1']));
+
+    // Submitting the key again returns the sent operation without posting twice
+    expect(await outbox.submit('add_comment', { postId: 'post-9', content: 'Thanks!' }, 'comment-1')).toEqual(sent);
+    expect(outbox.getSummary()).toMatchObject({ pending: 0, sent: 1, failed: 0, nextAttemptAt: null, entries: [] });
+    outbox.close();
+  });
+
+  it('should not send a write again while its first delivery is in flight', async () => {
+    const outbox = new MoltBookOutbox(client, { path: ':memory:', now: () => 1_000_000 });
+
+    const [entry, flushed] = await Promise.all([
+      outbox.submit('add_comment', { postId: 'post-9', content: 'Thanks!' }, 'comment-1'),
+      outbox.flush()
+    ]);
+
+    expect([entry.status, flushed]).toEqual(['sent', 0]);
+    expect(moltbook.requests).toHaveLength(1);
+    outbox.close();
+  });
+
+  it('should log listener failures without failing the delivery', async () => {
+    let now = 1_000_000;
+    const outbox = new MoltBookOutbox(client, { path: ':memory:', retryDelayMs: 1000, now: () => now });
+    const errorSpy = spyOn(logger, 'error').mockImplementation(() => {});
+    outbox.onSent(() => {
+      throw new Error('worker unreachable');
+    });
+    moltbook.failures.push(...Array(4).fill({ status: 503, retryAfter: '0' }));
+
+    await outbox.submit('add_comment', { postId: 'post-9', content: 'Thanks!' }, 'comment-1');
+    now += 1000;
+    expect(await outbox.flush()).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith('MOLTBOOK', 'Outbox listener failed', { idempotencyKey: 'comment-1' }, expect.any(Error));
+    errorSpy.mockRestore();
+    outbox.close();
+  });
+
+  it('should send a write MoltBook rejected again when it is resubmitted', async () => {
+    const outbox = new MoltBookOutbox(client, { path: ':memory:' });
+    moltbook.failures.push({ status: 400, message: 'Unknown post' });
+
+    const rejected = await outbox.submit('add_comment', { postId: 'post-0', content: 'Thanks!' }, 'comment-1');
+    expect(rejected).toMatchObject({ status: 'failed', attempts: 1, lastError: 'MoltBook API error: Unknown post' });
+
+    const sent = await outbox.submit('add_comment', { postId: 'post-9', content: 'Thanks!' }, 'comment-1');
+    expect(sent).toMatchObject({ status: 'sent', attempts: 1, lastError: null, params: { postId: 'post-9' } });
+    expect(moltbook.requests).toHaveLength(2);
+    outbox.close();
+  });
+
+  it('should return the API key of a registered agent without storing it', async () => {
+    const outbox = new MoltBookOutbox(client, { path: ':memory:' });
+
+    const registered = await outbox.submit('register_agent', { name: 'A', description: 'D', capabilities: [] }, 'agent-key');
+
+    expect(registered.result).toMatchObject({ id: 'agent-1', apiKey: 'mb_live_secret' });
+    expect(outbox.get('agent-key')!.result).toEqual({ id: 'agent-1', name: 'A', description: 'D', capabilities: [] });
+    outbox.close();
+  });
+
+  it('should report queued writes through outbox_status', async () => {
+    const outbox = new MoltBookOutbox(client, { path: ':memory:' });
+    const handlers = new MoltBookHandlers(client, outbox);
+    await handlers.handleRequest({ id: 1, method: 'initialize' });
+
+    moltbook.failures.push(...Array(4).fill({ status: 502, retryAfter: '0' }));
+    const queued = await handlers.handleRequest({
+      id: 2,
+      method: 'moltbook/create_post',
+      params: { title: 'T', content: 'C', submolt: 'm/test', idempotencyKey: 'post-key' }
+    });
+    expect(queued.result).toMatchObject({ queued: true, idempotencyKey: 'post-key', attempts: 1 });
+
+    moltbook.failures.push({ status: 403, message: 'Agent not registered' });
+    const rejected = await handlers.handleRequest({ id: 3, method: 'moltbook/register_agent', params: { name: 'A', description: 'D', capabilities: [] } });
+    expect(rejected.error).toEqual({ code: -32603, message: 'MoltBook API error: Agent not registered' });
+
+    const status = await handlers.handleRequest({ id: 4, method: 'moltbook/outbox_status' });
+    expect(status.result).toMatchObject({ pending: 1, sent: 0, failed: 1 });
+    expect((status.result as { entries: Array<{ operation: string; status: string }> }).entries.map(entry => [entry.operation, entry.status]))
+      .toEqual([['create_post', 'pending'], ['register_agent', 'failed']]);
+    outbox.close();
+  });
+});
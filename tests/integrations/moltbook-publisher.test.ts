@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server } from 'bun';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { PublishError, PublishService } from '../../src/core/engine/PublishService.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+import { MoltBookClient } from '../../integrations/moltbook/moltbook-client.js';
+import { MoltBookOutbox } from '../../integrations/moltbook/outbox.js';
+import { MemoryPublisher, type QueuedPublication } from '../../integrations/moltbook/publisher.js';
+import { WorkerClient } from '../../integrations/shared/worker-client.js';
+import type { MoltBookComment, MoltBookPost } from '../../integrations/moltbook/types.js';
+
+/**
+ * Local MoltBook: keeps posts and comments in memory. Comments on posts
+ * listed in `failing` answer 503, and so do new posts while `down` is set.
+ */
+function startMoltBook(failing: string[] = []) {
+  const posts: MoltBookPost[] = [];
+  const comments = new Map<string, MoltBookComment[]>();
+  const state = { down: false, postRequests: 0 };
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname } = new URL(request.url);
+      if (pathname === '/api/submolts') {
+        return Response.json([{ id: 's1', name: 'm/sqlite', description: 'SQLite tips', memberCount: 3, postCount: 0 }]);
+      }
+      if (pathname === '/api/posts' && request.method === 'POST') {
+        state.postRequests++;
+        if (state.down) {
+          return Response.json({ message: 'Service unavailable' }, { status: 503 });
+        }
+        const body = await request.json() as { title: string; content: string; submolt: string };
+        if (body.submolt !== 'm/sqlite') {
+          return Response.json({ message: 'No such submolt' }, { status: 404 });
+        }
+        const post = { id: `post-${posts.length + 1}`, ...body, author: 'moltbrain', createdAt: '2026-01-01T00:00:00Z', updatedAt: '2026-01-01T00:00:00Z', upvotes: 0, comments: 0 };
+        posts.push(post);
+        return Response.json(post);
+      }
+      const match = pathname.match(/^\/api\/posts\/([^/]+)\/comments$/);
+      if (match) {
+        if (failing.includes(match[1])) {
+          return Response.json({ message: 'Service unavailable' }, { status: 503 });
+        }
+        return Response.json(comments.get(match[1]) ?? []);
+      }
+      return Response.json({ message: 'Not found' }, { status: 404 });
+    }
+  });
+
+  const reply = (postId: string, id: string, content: string) => {
+    comments.set(postId, [...(comments.get(postId) ?? []), { id, postId, content, author: 'molty', createdAt: '2026-01-02T00:00:00Z', upvotes: 0 }]);
+  };
+  return { server, posts, reply, state };
+}
+
+/**
+ * Worker stand-in serving the MoltBook endpoints from a real PublishService
+ */
+function startWorker(service: PublishService, store: SessionStore): Server {
+  return Bun.serve({
+    port: 0,
+    async fetch(request) {
+      const { pathname, searchParams } = new URL(request.url);
+      const body = request.method === 'POST' ? await request.json() as any : null;
+      try {
+        if (pathname === '/api/moltbook/preview') {
+          return Response.json(service.preview(body));
+        }
+        if (pathname === '/api/moltbook/posts' && request.method === 'POST') {
+          return Response.json({ post: store.recordMoltBookPost(body) });
+        }
+        if (pathname === '/api/moltbook/posts') {
+          return Response.json({ posts: service.getPosts(searchParams.get('project') ?? undefined) });
+        }
+        const match = pathname.match(/^\/api\/moltbook\/posts\/([^/]+)\/replies$/);
+        if (match) {
+          return Response.json(service.storeReplies(decodeURIComponent(match[1]), body.comments));
+        }
+      } catch (error) {
+        if (error instanceof PublishError) {
+          return Response.json({ error: error.message }, { status: error.status });
+        }
+        throw error;
+      }
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    }
+  });
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('MemoryPublisher', () => {
+  let dir: string;
+  let store: SessionStore;
+  let worker: Server;
+  let moltbook: ReturnType<typeof startMoltBook>;
+  let ids: number[];
+  let outbox: MoltBookOutbox | null = null;
+  let now = 1_000_000;
+
+  function createPublisher(): MemoryPublisher {
+    const client = new MoltBookClient({ apiUrl: `http://127.0.0.1:${moltbook.server.port}`, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    outbox = new MoltBookOutbox(client, { path: ':memory:', retryDelayMs: 1000, now: () => now });
+    return new MemoryPublisher(client, outbox, new WorkerClient({ workerUrl: `http://127.0.0.1:${worker.port}` }));
+  }
+
+  function setup(failing: string[] = []): void {
+    moltbook = startMoltBook(failing);
+  }
+
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+
+    dir = join(tmpdir(), `moltbook-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    store = new SessionStore(join(dir, 'test.db'));
+    const dbManager = {
+      getSessionStore: () => store,
+      getVectorBackend: () => ({ syncObservation: () => Promise.resolve() })
+    } as unknown as DatabaseManager;
+    worker = startWorker(new PublishService(dbManager), store);
+
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    ids = ['WAL mode', 'Busy timeout'].map(title => store.storeObservation('mem-1', 'proj', {
+      type: 'discovery', title, subtitle: null, facts: [], narrative: `${title} matters.`, concepts: [], files_read: [], files_modified: []
+    }).id);
+  });
+
+  afterEach(() => {
+    outbox?.close();
+    outbox = null;
+    moltbook.server.stop(true);
+    worker.stop(true);
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should publish exactly what was previewed and record the post on the observations', async () => {
+    setup();
+    const publisher = createPublisher();
+
+    const { preview, submolts } = await publisher.preview({ observationIds: ids, title: 'SQLite under load' });
+    expect(submolts.map(submolt => submolt.name)).toEqual(['m/sqlite']);
+
+    const { post } = await publisher.publish({ observationIds: ids, title: 'SQLite under load', submolt: 'm/sqlite' });
+    expect(moltbook.posts).toEqual([post]);
+    expect(post).toMatchObject({ title: preview.title, content: preview.content, submolt: 'm/sqlite' });
+    expect(ids.map(id => store.getObservationById(id)!.moltbook_post_id)).toEqual(['post-1', 'post-1']);
+
+    await expect(publisher.publish({ observationIds: [ids[1]], submolt: 'm/sqlite' }))
+      .rejects.toThrow(`Already published: observation #${ids[1]} (post post-1)`);
+    expect(moltbook.posts).toHaveLength(1);
+  });
+
+  it('should record a post queued while MoltBook was down once the outbox sends it', async () => {
+    setup();
+    moltbook.state.down = true;
+    const publisher = createPublisher();
+
+    const queued = await publisher.publish({ observationIds: [ids[1], ids[0]], submolt: 'm/sqlite' });
+    expect(queued).toMatchObject({ queued: true, attempts: 1 });
+    expect((queued as QueuedPublication).idempotencyKey).toStartWith(`publish:proj:submolt=m/sqlite:observations=${ids[0]},${ids[1]}:summary=:post=`);
+    expect(store.getObservationById(ids[0])!.moltbook_post_id).toBeNull();
+
+    // Publishing again while it is queued does not post a second time
+    moltbook.state.down = false;
+    expect(await publisher.publish({ observationIds: [ids[1], ids[0]], submolt: 'm/sqlite' })).toMatchObject({ queued: true });
+    expect(moltbook.posts).toHaveLength(0);
+
+    now += 1000;
+    expect(await outbox!.flush()).toBe(1);
+    expect(moltbook.posts).toHaveLength(1);
+    expect(ids.map(id => store.getObservationById(id)!.moltbook_post_id)).toEqual(['post-1', 'post-1']);
+  });
+
+  it('should record a queued post sent after a restart', async () => {
+    setup();
+    moltbook.state.down = true;
+    const client = new MoltBookClient({ apiUrl: `http://127.0.0.1:${moltbook.server.port}`, retry: { maxAttempts: 1 } });
+    const workerClient = new WorkerClient({ workerUrl: `http://127.0.0.1:${worker.port}` });
+    const path = join(dir, 'outbox.db');
+
+    const before = new MoltBookOutbox(client, { path, retryDelayMs: 1000, now: () => now });
+    expect(await new MemoryPublisher(client, before, workerClient).publish({ observationIds: ids, submolt: 'm/sqlite' })).toMatchObject({ queued: true });
+    before.close();
+
+    moltbook.state.down = false;
+    now += 1000;
+    outbox = new MoltBookOutbox(client, { path, retryDelayMs: 1000, now: () => now });
+    new MemoryPublisher(client, outbox, workerClient);
+    expect(await outbox.flush()).toBe(1);
+    expect(ids.map(id => store.getObservationById(id)!.moltbook_post_id)).toEqual(['post-1', 'post-1']);
+    expect(store.getMoltBookPost('post-1')).toMatchObject({ submolt: 'm/sqlite', title: 'Notes from proj' });
+  });
+
+  it('should send a rejected publication again when it is retried or its submolt corrected', async () => {
+    setup();
+    const publisher = createPublisher();
+
+    await expect(publisher.publish({ observationIds: ids, submolt: 'm/nope' })).rejects.toThrow('MoltBook API error: No such submolt');
+    await expect(publisher.publish({ observationIds: ids, submolt: 'm/nope' })).rejects.toThrow('MoltBook API error: No such submolt');
+    expect(moltbook.state.postRequests).toBe(2);
+
+    const { post } = await publisher.publish({ observationIds: ids, submolt: 'm/sqlite' }) as { post: { id: string } };
+    expect(moltbook.posts).toHaveLength(1);
+    expect(ids.map(id => store.getObservationById(id)!.moltbook_post_id)).toEqual([post.id, post.id]);
+  });
+
+  it('should bring new replies back once and report posts that fail', async () => {
+    setup(['post-2']);
+    const publisher = createPublisher();
+    await publisher.publish({ observationIds: [ids[0]], submolt: 'm/sqlite' });
+    await publisher.publish({ observationIds: [ids[1]], submolt: 'm/sqlite' });
+
+    moltbook.reply('post-1', 'c1', 'Checkpoint it too.');
+    expect(await publisher.syncReplies('proj')).toEqual({
+      posts: 2,
+      stored: 1,
+      skipped: 0,
+      failed: [{ postId: 'post-2', error: 'MoltBook API error: Service unavailable' }]
+    });
+
+    moltbook.reply('post-1', 'c2', 'And watch the WAL size.');
+    expect(await publisher.syncReplies('proj')).toMatchObject({ stored: 1, skipped: 1 });
+    expect(store.getMoltBookPost('post-1')!.replies).toBe(2);
+  });
+});
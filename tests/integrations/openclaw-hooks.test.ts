@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach, mock } from 'bun:test';
+import { OpenClawHooks } from '../../integrations/openclaw/hooks.js';
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body: any;
+}
+
+/**
+ * Fake worker: records every request and answers like the real endpoints
+ */
+function mockWorker(observations: unknown[] = [], failing: string[] = []): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  global.fetch = mock((url: string, init: RequestInit = {}) => {
+    const path = url.replace('http://127.0.0.1:37777', '');
+    requests.push({ url: path, method: init.method ?? 'GET', body: init.body ? JSON.parse(String(init.body)) : null });
+
+    if (failing.some(prefix => path.startsWith(prefix))) {
+      return Promise.resolve(new Response('boom', { status: 500 }));
+    }
+    const payload = path.startsWith('/api/sessions/init')
+      ? { sessionDbId: 7, promptNumber: 1 }
+      : path.startsWith('/api/search')
+        ? { observations }
+        : { status: 'ok' };
+    return Promise.resolve(Response.json(payload));
+  }) as unknown as typeof fetch;
+  return requests;
+}
+
+function createLogger() {
+  return { info: mock(() => {}), warn: mock(() => {}), error: mock(() => {}) };
+}
+
+const session = { id: 'abc', channel: 'discord', startTime: '2026-01-01T00:00:00Z', userId: 'U-42' };
+const message = { id: 'm1', content: 'I prefer tabs over spaces', channel: 'discord', timestamp: '2026-01-01T00:00:01Z', userId: 'U-42', userName: 'Sam' };
+const response = { id: 'r1', content: 'Noted, tabs it is.', timestamp: '2026-01-01T00:00:02Z' };
+
+describe('OpenClawHooks', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should drive a namespaced worker session through init, observation and summary', async () => {
+    const requests = mockWorker([{ id: 1, type: 'decision', title: 'Use tabs', narrative: null }]);
+    const hooks = new OpenClawHooks({ logger: createLogger() });
+
+    await hooks.onSessionStart(session);
+    const result = await hooks.onMessage(message);
+    await hooks.onResponse(message, response);
+    await hooks.onSessionEnd(session);
+
+    expect(requests.map(r => `${r.method} ${r.url.split('?')[0]}`)).toEqual([
+      'GET /api/readiness',
+      'POST /api/sessions/init',
+      'POST /api/sessions/namespace',
+      'POST /sessions/7/init',
+      'GET /api/search',
+      'POST /api/sessions/observations',
+      'POST /api/sessions/summarize'
+    ]);
+    expect(requests[1].body).toEqual({ contentSessionId: 'openclaw-abc', project: 'openclaw', prompt: message.content });
+    expect(requests[2].body).toEqual({ contentSessionId: 'openclaw-abc', project: 'openclaw', channel: 'discord', userId: 'U-42', userName: 'Sam' });
+    expect(requests[4].url).toContain('project=openclaw');
+    expect(requests[4].url).toContain('channel=discord&userId=U-42');
+    expect(requests[5].body).toEqual({
+      contentSessionId: 'openclaw-abc',
+      tool_name: 'ChatMessage',
+      tool_input: { channel: 'discord', user: 'Sam', message: message.content },
+      tool_response: response.content
+    });
+    expect(requests[6].body).toEqual({ contentSessionId: 'openclaw-abc', last_assistant_message: response.content });
+    expect(result.context).toBe('<recalled_context>\n- [decision] Use tabs\n</recalled_context>');
+  });
+
+  it('should keep the conversation going when the worker fails', async () => {
+    const requests = mockWorker([], ['/api/sessions/observations', '/api/search']);
+    const logger = createLogger();
+    const hooks = new OpenClawHooks({ logger }, { autoCapture: true });
+
+    await hooks.onSessionStart(session);
+    expect(await hooks.onMessage(message)).toEqual({});
+    await hooks.onResponse(message, response);
+    await hooks.onSessionEnd(session);
+
+    // The exchange never reached the worker, so there is nothing to summarize
+    expect(requests.some(r => r.url === '/api/sessions/summarize')).toBe(false);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only search when capture is disabled', async () => {
+    const requests = mockWorker();
+    const hooks = new OpenClawHooks({ logger: createLogger() }, { autoCapture: false });
+
+    await hooks.onSessionStart(session);
+    await hooks.onMessage(message);
+    await hooks.onResponse(message, response);
+    await hooks.onSessionEnd(session);
+
+    expect(requests.map(r => r.url.split('?')[0])).toEqual(['/api/readiness', '/api/search']);
+  });
+});
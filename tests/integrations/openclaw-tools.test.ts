@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach, mock } from 'bun:test';
+import { MemorySkill } from '../../integrations/openclaw/tools.js';
+import { OpenClawHooks } from '../../integrations/openclaw/hooks.js';
+import type { ChatNamespace } from '../../integrations/shared/worker-client.js';
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  body: any;
+}
+
+/**
+ * Fake worker answering the memory endpoints like the chat mode does
+ */
+function mockWorker(): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+  global.fetch = mock((url: string, init: RequestInit = {}) => {
+    const path = url.replace('http://127.0.0.1:37777', '');
+    const body = init.body ? JSON.parse(String(init.body)) : null;
+    requests.push({ url: path, method: init.method ?? 'GET', body });
+
+    if (path.startsWith('/api/memories/types')) {
+      return Promise.resolve(Response.json({ mode: 'chat', types: [], concepts: [], resolved: { preference: 'preference', learning: 'preference' } }));
+    }
+    if (path === '/api/memories' && body.type === 'gossip') {
+      return Promise.resolve(Response.json(
+        { error: "Unknown memory type 'gossip' for mode 'chat'. Accepted: preference, decision, learning, context", accepted: [] },
+        { status: 400 }
+      ));
+    }
+    if (path === '/api/memories') {
+      return Promise.resolve(Response.json({ id: 12, type: body.type, concepts: body.concepts, scope: 'user', createdAtEpoch: 1767225600000 }));
+    }
+    return Promise.resolve(Response.json({ observations: [] }));
+  }) as unknown as typeof fetch;
+  return requests;
+}
+
+function createLogger() {
+  return { info: mock(() => {}), warn: mock(() => {}), error: mock(() => {}) };
+}
+
+function createSkill(namespace: ChatNamespace | null = { channel: 'discord', userId: 'U-42' }): MemorySkill {
+  return new MemorySkill({ logger: createLogger() }, () => namespace);
+}
+
+describe('MemorySkill', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should save memories to the namespace of the conversation', async () => {
+    const requests = mockWorker();
+
+    const result = await createSkill().execute('save_memory', {
+      content: 'Prefers tabs', type: 'preference', concepts: ['work']
+    });
+
+    expect(requests[0].body).toEqual({
+      project: 'openclaw', channel: 'discord', userId: 'U-42', userName: null,
+      type: 'preference', content: 'Prefers tabs', title: null, concepts: ['work']
+    });
+    expect(result).toEqual({
+      success: true,
+      data: { id: 12, type: 'preference', concepts: ['work'], scope: 'user', timestamp: '2026-01-01T00:00:00.000Z', message: 'Memory saved successfully' }
+    });
+  });
+
+  it('should report the types the worker accepts for an unknown type', async () => {
+    mockWorker();
+
+    const result = await createSkill().execute('save_memory', { content: 'Rumor', type: 'gossip' });
+
+    expect(result).toEqual({
+      success: false,
+      error: "Worker API error (400) on /api/memories: Unknown memory type 'gossip' for mode 'chat'. Accepted: preference, decision, learning, context"
+    });
+  });
+
+  it('should search the observation types memory types are stored as', async () => {
+    const requests = mockWorker();
+
+    await createSkill().execute('search_memories', { query: 'tabs', types: ['preference', 'learning'] });
+
+    expect(requests[0].url).toBe('/api/memories/types?project=openclaw&types=preference%2Clearning');
+    expect(requests[1].url).toContain('obs_type=preference&');
+  });
+
+  it('should scope tools to the message being answered, not to tool parameters', async () => {
+    const requests = mockWorker();
+    const logger = createLogger();
+    const hooks = new OpenClawHooks({ logger }, { autoCapture: false });
+    const skill = new MemorySkill({ logger }, () => hooks.currentNamespace());
+
+    const parameters = skill.getDefinition().tools.flatMap(tool => Object.keys(tool.parameters.properties));
+    expect(parameters).not.toContain('channel');
+    expect(parameters).not.toContain('userId');
+
+    // Outside a conversation there is no namespace to use
+    expect(await skill.execute('save_memory', { content: 'Prefers tabs', type: 'preference' }))
+      .toEqual({ success: false, error: 'Memory tools are only available while answering a message' });
+
+    await hooks.onSessionStart({ id: 'abc', channel: 'discord', startTime: '2026-01-01T00:00:00Z' });
+    await hooks.onMessage({ id: 'm1', content: 'tabs?', channel: 'discord', timestamp: '2026-01-01T00:00:01Z', userId: 'U-42' });
+    await skill.execute('search_memories', { query: 'tabs', channel: 'slack', userId: 'U-7' });
+
+    expect(requests.filter(r => r.url.startsWith('/api/search')).map(r => new URL(r.url, 'http://worker').searchParams.get('userId')))
+      .toEqual(['U-42', 'U-42']);
+    expect(requests.every(r => !r.url.includes('slack'))).toBe(true);
+  });
+});
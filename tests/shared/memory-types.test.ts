@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { ModeConfig } from '../../src/core/domain/types.js';
+import {
+  MemoryTypeError,
+  acceptedMemoryTypes,
+  resolveMemoryConcepts,
+  resolveMemoryType
+} from '../../src/core/domain/MemoryTypes.js';
+
+const MODES_DIR = join(import.meta.dir, '..', '..', 'plugin', 'modes');
+
+function readMode(modeId: string): ModeConfig {
+  return JSON.parse(readFileSync(join(MODES_DIR, `${modeId}.json`), 'utf-8'));
+}
+
+const chat = readMode('chat');
+const code = readMode('code');
+
+function rejection(fn: () => unknown): MemoryTypeError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof MemoryTypeError) return error;
+    throw error;
+  }
+  throw new Error('expected a MemoryTypeError');
+}
+
+describe('Memory types', () => {
+  it('should store chat memory types as themselves in the chat mode', () => {
+    for (const type of ['preference', 'decision', 'learning', 'context']) {
+      expect(resolveMemoryType(type, chat.observation_types, 'chat')).toBe(type);
+    }
+    expect(resolveMemoryType(' Preference ', chat.observation_types, 'chat')).toBe('preference');
+  });
+
+  it('should map chat memory types onto the fallbacks of other modes', () => {
+    expect(resolveMemoryType('preference', code.observation_types, 'code')).toBe('decision');
+    expect(resolveMemoryType('learning', code.observation_types, 'code')).toBe('discovery');
+    expect(resolveMemoryType('context', code.observation_types, 'code')).toBe('discovery');
+    // A mode's own types are accepted as they are
+    expect(resolveMemoryType('bugfix', code.observation_types, 'code')).toBe('bugfix');
+  });
+
+  it('should reject unknown types with the types the mode accepts', () => {
+    const error = rejection(() => resolveMemoryType('gossip', chat.observation_types, 'chat'));
+    expect(error.message).toBe("Unknown memory type 'gossip' for mode 'chat'. Accepted: preference, decision, learning, context");
+    expect(error.accepted).toEqual(['preference', 'decision', 'learning', 'context']);
+
+    const onlyFeatures = [{ id: 'feature', label: 'Feature', description: '', emoji: '', work_emoji: '' }];
+    expect(acceptedMemoryTypes(onlyFeatures)).toEqual(['feature']);
+    expect(rejection(() => resolveMemoryType('preference', onlyFeatures, 'custom')).accepted).toEqual(['feature']);
+  });
+
+  it('should normalize concepts and reject ones the mode does not define', () => {
+    expect(resolveMemoryConcepts(['Work', 'people', 'work', ' '], chat.observation_concepts, 'chat')).toEqual(['work', 'people']);
+
+    const error = rejection(() => resolveMemoryConcepts(['work', 'gossip', 'drama'], chat.observation_concepts, 'chat'));
+    expect(error.message).toStartWith("Unknown concepts 'gossip', 'drama' for mode 'chat'. Accepted: personal");
+  });
+});
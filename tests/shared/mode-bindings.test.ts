@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { homedir } from 'os';
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { parseModeBindings, resolveModeBinding } from '../../src/core/domain/ModeBindings.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+
+function settingsWith(bindings: unknown[]) {
+  return { ...SettingsDefaultsManager.getAllDefaults(), MOLTBRAIN_MODE: 'code', MOLTBRAIN_MODE_BINDINGS: JSON.stringify(bindings) };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Mode bindings', () => {
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'warn').mockImplementation(() => {})];
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should skip malformed bindings', () => {
+    expect(parseModeBindings('')).toEqual([]);
+    expect(parseModeBindings('{not json')).toEqual([]);
+    expect(parseModeBindings('{"project": "x", "mode": "y"}')).toEqual([]);
+    expect(parseModeBindings(JSON.stringify([
+      { project: 'foia', mode: 'email-investigation' },
+      { mode: 'no-target' },
+      { project: 'x' },
+      { cwd: ' ', mode: 'blank' },
+      { cwd: '~/legal/**', mode: ' email-investigation ' }
+    ]))).toEqual([
+      { project: 'foia', mode: 'email-investigation' },
+      { cwd: '~/legal/**', mode: 'email-investigation' }
+    ]);
+  });
+
+  it('should use the first matching binding', () => {
+    const settings = settingsWith([
+      { project: 'docs-*', mode: 'code--chill' },
+      { project: 'docs-api', mode: 'code--es' }
+    ]);
+
+    expect(resolveModeBinding({ project: 'docs-api' }, settings)).toEqual({
+      modeId: 'code--chill',
+      binding: { project: 'docs-*', mode: 'code--chill' }
+    });
+  });
+
+  it('should match working directories and their subdirectories', () => {
+    const settings = settingsWith([
+      { cwd: '~/work/legal', mode: 'email-investigation' },
+      { project: 'api', cwd: '/srv/**', mode: 'code--es' }
+    ]);
+
+    expect(resolveModeBinding({ project: 'foia', cwd: `${homedir()}/work/legal` }, settings).modeId).toBe('email-investigation');
+    expect(resolveModeBinding({ project: 'foia', cwd: `${homedir()}/work/legal/` }, settings).modeId).toBe('email-investigation');
+    expect(resolveModeBinding({ project: 'api', cwd: '/srv/api/v2' }, settings).modeId).toBe('code--es');
+    // Both patterns of a binding must match, and a missing cwd matches no cwd pattern
+    expect(resolveModeBinding({ project: 'web', cwd: '/srv/web' }, settings).modeId).toBe('code');
+    expect(resolveModeBinding({ project: 'api' }, settings).modeId).toBe('code');
+  });
+
+  it('should fall back to MOLTBRAIN_MODE', () => {
+    const settings = { ...settingsWith([{ project: 'other', mode: 'code--es' }]), MOLTBRAIN_MODE: 'code--chill' };
+
+    expect(resolveModeBinding({ project: 'moltbrain' }, settings)).toEqual({ modeId: 'code--chill', binding: null });
+  });
+});
+
+describe('Session modes', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should keep the first mode a session is bound to', () => {
+    const id = store.createSDKSession('content-1', 'foia', 'first prompt');
+
+    expect(store.getSessionById(id)?.mode_id).toBeNull();
+    expect(store.setSessionMode('content-1', 'email-investigation')).toBe('email-investigation');
+    expect(store.setSessionMode('content-1', 'code')).toBe('email-investigation');
+    expect(store.getSessionById(id)?.mode_id).toBe('email-investigation');
+  });
+
+  it('should return null for unknown sessions', () => {
+    expect(store.setSessionMode('missing', 'code')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import { readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { ModeConfig } from '../../src/core/domain/types.js';
+import { inspectModeDefinition, isValidModeId, validateModeDefinition } from '../../src/core/domain/ModeValidator.js';
+
+const MODES_DIR = join(import.meta.dir, '..', '..', 'plugin', 'modes');
+const CONTRIB_MODES_DIR = join(import.meta.dir, '..', '..', 'contrib', 'modes');
+
+function readMode(dir: string, modeId: string): any {
+  return JSON.parse(readFileSync(join(dir, `${modeId}.json`), 'utf-8'));
+}
+
+const code = readMode(MODES_DIR, 'code') as ModeConfig;
+const resolveBase = (baseId: string): ModeConfig => {
+  if (baseId !== 'code') throw new Error(`Mode file not found: ${baseId}.json`);
+  return code;
+};
+
+describe('Mode validation', () => {
+  it('should accept every shipped mode and overlay', () => {
+    const modeIds = readdirSync(MODES_DIR).filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, ''));
+    expect(modeIds.length).toBeGreaterThan(2);
+
+    for (const modeId of modeIds) {
+      const parentId = modeId.includes('--') ? modeId.split('--')[0] : null;
+      const { report, mode } = inspectModeDefinition(modeId, readMode(MODES_DIR, modeId), { parentId, resolveBase });
+      expect({ modeId, errors: report.errors }).toEqual({ modeId, errors: [] });
+      expect(mode!.observation_types.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should merge overlays onto their parent', () => {
+    const { report, mode } = inspectModeDefinition('code--es', readMode(MODES_DIR, 'code--es'), { parentId: 'code', resolveBase });
+
+    expect(report.format).toBe('overlay');
+    expect(mode!.observation_types).toEqual(code.observation_types);
+    expect(mode!.prompts.footer).toContain('español');
+    expect(mode!.prompts.system_identity).toBe(code.prompts.system_identity);
+  });
+
+  it('should point at the exact property that is wrong', () => {
+    const overlay = {
+      prompts: { footr: 'typo', footer: 3 },
+      observation_types: [{ id: 'bugfix', label: 'Bug Fix', description: 'Fixed', emoji: '🔴' }]
+    };
+    const { report, mode } = inspectModeDefinition('code--bad', overlay, { parentId: 'code', resolveBase });
+
+    expect(mode).toBeNull();
+    expect(report.errors).toEqual([
+      { path: '/prompts/footr', message: 'is not a known property' },
+      { path: '/prompts/footer', message: 'expected string, got number' },
+      { path: '/observation_types/0/work_emoji', message: 'is required' }
+    ]);
+  });
+
+  it('should require a complete definition unless the mode inherits', () => {
+    const { prompts, ...withoutPrompts } = code;
+    const partialPrompts = { ...code, prompts: { ...prompts, footer: undefined } };
+    delete partialPrompts.prompts.footer;
+
+    expect(validateModeDefinition(withoutPrompts).errors).toEqual([{ path: '/prompts', message: 'is required' }]);
+    expect(validateModeDefinition(partialPrompts).errors).toEqual([{ path: '/prompts/footer', message: 'is required' }]);
+    expect(validateModeDefinition({ prompts: { footer: 'x' } }, { overlay: true }).errors).toEqual([]);
+  });
+
+  it('should report duplicate type and concept ids', () => {
+    const duplicated = {
+      ...code,
+      observation_types: [code.observation_types[0], code.observation_types[0]],
+      observation_concepts: [code.observation_concepts[1], code.observation_concepts[1]]
+    };
+
+    expect(validateModeDefinition(duplicated).errors).toEqual([
+      { path: '/observation_types/1/id', message: "duplicates 'bugfix' at /observation_types/0" },
+      { path: '/observation_concepts/1/id', message: "duplicates 'why-it-exists' at /observation_concepts/0" }
+    ]);
+  });
+
+  it('should convert legacy community modes onto their base mode', () => {
+    const research = readMode(CONTRIB_MODES_DIR, 'research');
+    const { report, mode } = inspectModeDefinition('research', research, { parentId: null, resolveBase });
+
+    expect(report).toMatchObject({ format: 'legacy', valid: true, errors: [] });
+    expect(report.warnings.map(warning => warning.path)).toEqual(['', '/observation_types', '/settings']);
+
+    expect(mode!.name).toBe('Research Mode');
+    expect(mode!.observation_types[0]).toEqual({
+      id: 'finding',
+      label: 'Finding',
+      description: 'A research finding, insight, or key result',
+      emoji: '🔍',
+      work_emoji: '🔍'
+    });
+    expect(mode!.observation_concepts.map(concept => concept.id)).toContain('peer-reviewed');
+    expect(mode!.prompts.type_guidance).toContain('- hypothesis: A hypothesis, theory, or assumption to test');
+    expect(mode!.prompts.type_guidance).not.toContain('bugfix');
+    expect(mode!.prompts.recording_focus).toBe(research.prompts.observation);
+    expect(mode!.prompts.system_identity).toBe(code.prompts.system_identity);
+  });
+
+  it('should report a legacy mode whose base cannot be loaded', () => {
+    const legacy = { id: 'notes', name: 'Notes', observation_types: [{ type: 'note', description: 'A note' }], extends: 'missing' };
+    const { report } = inspectModeDefinition('notes', legacy, { parentId: null, resolveBase });
+
+    expect(report.valid).toBe(false);
+    expect(report.errors).toEqual([{ path: '/extends', message: "base mode 'missing' could not be loaded: Mode file not found: missing.json" }]);
+  });
+
+  it('should only accept mode ids that stay inside the modes directory', () => {
+    expect(['code', 'code--pt-br', 'email-investigation', 'law-study--chill'].every(isValidModeId)).toBe(true);
+
+    // Express hands routes decoded params: PUT /api/modes/..%2F..%2Fsettings arrives as ../../settings
+    const rejected = ['../../settings', '..', 'code/../../x', '..\\x', '/etc/passwd', 'Code', 'code.json', 'code---x', '', 'code-'];
+    expect(rejected.filter(isValidModeId)).toEqual([]);
+  });
+});
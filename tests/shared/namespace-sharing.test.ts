@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { parseNamespaceSharing, resolveObservationScope } from '../../src/core/domain/NamespaceSharing.js';
+
+function settingsWith(rules: unknown[]) {
+  return { ...SettingsDefaultsManager.getAllDefaults(), MOLTBRAIN_NAMESPACE_SHARING: JSON.stringify(rules) };
+}
+
+const decision = { project: 'openclaw', channel: 'discord', type: 'decision', concepts: ['team-norm'] };
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Namespace sharing rules', () => {
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'warn').mockImplementation(() => {})];
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should skip malformed rules', () => {
+    expect(parseNamespaceSharing('')).toEqual([]);
+    expect(parseNamespaceSharing('{not json')).toEqual([]);
+    expect(parseNamespaceSharing(JSON.stringify([
+      { type: 'decision', scope: 'channel' },
+      { type: 'decision', scope: 'everyone' },
+      { channel: ' ', scope: 'global' },
+      { team: 'ops', scope: 'global' },
+      { channel: ' announcements ', scope: 'global' }
+    ]))).toEqual([
+      { type: 'decision', scope: 'channel' },
+      { channel: 'announcements', scope: 'global' }
+    ]);
+  });
+
+  it('should keep observations user-scoped unless a rule shares them', () => {
+    expect(resolveObservationScope(decision, settingsWith([]))).toBe('user');
+    expect(resolveObservationScope(decision, settingsWith([{ type: 'preference', scope: 'global' }]))).toBe('user');
+  });
+
+  it('should use the first matching rule', () => {
+    const settings = settingsWith([
+      { channel: 'announce*', scope: 'global' },
+      { project: 'openclaw', concept: 'team-norm', scope: 'channel' },
+      { type: 'decision', scope: 'global' }
+    ]);
+
+    expect(resolveObservationScope(decision, settings)).toBe('channel');
+    expect(resolveObservationScope({ ...decision, concepts: [] }, settings)).toBe('global');
+    expect(resolveObservationScope({ ...decision, type: 'preference', channel: 'announcements' }, settings)).toBe('global');
+    expect(resolveObservationScope({ ...decision, type: 'preference', concepts: [] }, settings)).toBe('user');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import {
+  evaluateToolUse,
+  globToRegExp,
+  limitToolResponse,
+  loadPrivacyPolicy,
+  SKIP_TOOLS_SOURCE
+} from '../../src/common/privacy-policy.js';
+import { PrivacyCheckValidator } from '../../src/core/engine/validation/PrivacyCheckValidator.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+
+const settings = { ...SettingsDefaultsManager.getAllDefaults(), MOLTBRAIN_SKIP_TOOLS: 'TodoWrite' };
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Privacy policy', () => {
+  let dir: string;
+  let project: string;
+  let userPolicy: string;
+
+  function writePolicy(path: string, policy: object): void {
+    mkdirSync(join(path, '..'), { recursive: true });
+    writeFileSync(path, JSON.stringify(policy));
+  }
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {})
+    ];
+    dir = join(tmpdir(), `privacy-policy-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    project = join(dir, 'project');
+    userPolicy = join(dir, 'user', 'policy.json');
+    mkdirSync(join(project, 'src', 'deep'), { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should translate globs with directory-spanning and single-segment wildcards', () => {
+    expect(globToRegExp('secrets/**').test('secrets/prod/db.env')).toBe(true);
+    expect(globToRegExp('**/*.pem').test('certs/server.pem')).toBe(true);
+    expect(globToRegExp('**/*.pem').test('server.pem')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/deep/a.ts')).toBe(false);
+  });
+
+  it('should combine user and project policies and attribute each rule to its file', () => {
+    writePolicy(userPolicy, { ignoreTools: ['WebFetch'], maxToolResponseChars: 500 });
+    const projectPolicy = join(project, '.moltbrain', 'policy.json');
+    writePolicy(projectPolicy, { ignorePaths: ['secrets/**', '*.pem'], maxToolResponseChars: 1000 });
+
+    // Found from a subdirectory of the project
+    const policy = loadPrivacyPolicy(join(project, 'src', 'deep'), settings, userPolicy);
+
+    expect(evaluateToolUse(policy, 'TodoWrite', {})).toMatchObject({ action: 'ignore_tool', source: SKIP_TOOLS_SOURCE });
+    expect(evaluateToolUse(policy, 'WebFetch', {})).toMatchObject({ action: 'ignore_tool', source: userPolicy });
+    expect(evaluateToolUse(policy, 'Read', { file_path: join(project, 'secrets', 'api.json') }))
+      .toEqual({ action: 'ignore_path', rule: 'secrets/**', source: projectPolicy, target: join(project, 'secrets', 'api.json') });
+    expect(evaluateToolUse(policy, 'Edit', { file_path: 'src/deep/server.pem' })).toMatchObject({ rule: '*.pem' });
+    expect(evaluateToolUse(policy, 'Read', { file_path: join(project, 'src', 'secrets.ts') })).toBeNull();
+    expect(policy.maxToolResponseChars).toEqual({ value: 500, source: userPolicy });
+  });
+
+  it('should suppress every tool use in a summaries-only project', () => {
+    writePolicy(join(project, '.moltbrain', 'policy.json'), { summariesOnly: true });
+    const policy = loadPrivacyPolicy(project, settings, userPolicy);
+
+    expect(evaluateToolUse(policy, 'Read', { file_path: 'README.md' })).toMatchObject({ action: 'summaries_only', target: 'Read' });
+  });
+
+  it('should truncate large responses once', () => {
+    writePolicy(userPolicy, { maxToolResponseChars: 10 });
+    const policy = loadPrivacyPolicy(project, settings, userPolicy);
+
+    const limited = limitToolResponse(policy, 'Bash', { stdout: 'x'.repeat(50) });
+    expect(limited.response).toBe(`{"stdout":\n[truncated 53 chars by privacy policy]`);
+    expect(limited.decision).toMatchObject({ action: 'truncate', rule: 'maxToolResponseChars=10' });
+
+    expect(limitToolResponse(policy, 'Bash', limited.response).decision).toBeNull();
+    expect(limitToolResponse(policy, 'Bash', 'short').response).toBe('short');
+  });
+
+  it('should ignore an invalid policy file', () => {
+    mkdirSync(join(project, '.moltbrain'), { recursive: true });
+    writeFileSync(join(project, '.moltbrain', 'policy.json'), '{ not json');
+
+    const policy = loadPrivacyPolicy(project, settings, userPolicy);
+    expect(evaluateToolUse(policy, 'Read', { file_path: 'a.pem' })).toBeNull();
+  });
+
+  it('should record suppressions from the worker-side check except routine skipped tools', () => {
+    writePolicy(join(project, '.moltbrain', 'policy.json'), { ignorePaths: ['*.pem'] });
+    const store = new SessionStore(':memory:');
+    try {
+      const base = { contentSessionId: 'content-1', project: 'project', cwd: project, toolResponse: 'ok' };
+
+      expect(PrivacyCheckValidator.checkToolPolicy(store, { ...base, toolName: 'Read', toolInput: { file_path: 'key.pem' } }, 1)).toBeNull();
+      expect(PrivacyCheckValidator.checkToolPolicy(store, { ...base, toolName: 'Read', toolInput: { file_path: 'a.ts' } }, 1))
+        .toEqual({ toolResponse: 'ok' });
+      expect(PrivacyCheckValidator.checkToolPolicy(store, { ...base, toolName: 'TodoWrite', toolInput: {} }, 1)).toBeNull();
+
+      const suppressions = store.getPolicySuppressions({ project: 'project' });
+      expect(suppressions).toHaveLength(1);
+      expect(suppressions[0]).toMatchObject({ action: 'ignore_path', rule: '*.pem', target: 'key.pem', tool_name: 'Read' });
+    } finally {
+      store.close();
+    }
+  });
+});
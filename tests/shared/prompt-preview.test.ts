@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { ModeConfig } from '../../src/core/domain/types.js';
+import { buildPromptPreview, DEFAULT_PREVIEW_SAMPLE } from '../../src/parser/prompts.js';
+
+const code = JSON.parse(readFileSync(join(import.meta.dir, '..', '..', 'plugin', 'modes', 'code.json'), 'utf-8')) as ModeConfig;
+
+describe('Prompt preview', () => {
+  it('should render all three prompts for the sample tool event', () => {
+    const { init, observation, summary } = buildPromptPreview(code);
+
+    expect(init.startsWith(code.prompts.system_identity)).toBe(true);
+    expect(init).toContain(`<user_request>${DEFAULT_PREVIEW_SAMPLE.user_prompt}</user_request>`);
+    expect(init).toContain(`<type>[ ${code.observation_types.map(t => t.id).join(' | ')} ]</type>`);
+    expect(observation).toContain('<what_happened>Edit</what_happened>');
+    expect(observation).toContain('"file_path": "src/auth/validate.ts"');
+    expect(observation).toContain('<working_directory>/home/user/my-app</working_directory>');
+    expect(summary).toContain(DEFAULT_PREVIEW_SAMPLE.last_assistant_message);
+    expect(summary).toContain(code.prompts.summary_instruction);
+  });
+
+  it('should reflect edits to the mode and a custom sample', () => {
+    const edited: ModeConfig = {
+      ...code,
+      observation_types: [{ id: 'finding', label: 'Finding', description: 'A result', emoji: '🔍', work_emoji: '🔬' }],
+      prompts: { ...code.prompts, footer: 'Record findings only.' }
+    };
+    const { init, observation } = buildPromptPreview(edited, {
+      ...DEFAULT_PREVIEW_SAMPLE,
+      tool_name: 'WebFetch',
+      tool_input: { url: 'https://example.com/paper' },
+      cwd: undefined
+    });
+
+    expect(init).toContain('<type>[ finding ]</type>');
+    expect(init).toContain('Record findings only.');
+    expect(observation).toContain('<what_happened>WebFetch</what_happened>');
+    expect(observation).not.toContain('<working_directory>');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SessionSearch } from '../../src/core/storage/SessionSearch.js';
+import { parseSearchQualifiers, normalizeTagName } from '../../src/core/storage/SearchQualifiers.js';
+import { includePinnedObservations } from '../../src/core/builder/ObservationCompiler.js';
+import type { ContextConfig, Observation } from '../../src/core/builder/types.js';
+
+function observation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative: `${title} narrative`,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Favorites and tags', () => {
+  let dir: string;
+  let store: SessionStore;
+  let search: SessionSearch;
+  let ids: number[];
+
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+
+    dir = join(tmpdir(), `favorites-tags-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    const dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    search = new SessionSearch(dbPath);
+
+    ids = ['Auth token refresh', 'Auth cookies', 'Viewer theme'].map(
+      title => store.storeObservation('mem-1', 'proj', observation(title)).id
+    );
+  });
+
+  afterEach(() => {
+    search.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should keep existing favorite fields when only one is updated', () => {
+    store.setFavorite(ids[0], { note: 'keep this' });
+    const pinned = store.setFavorite(ids[0], { pinned: true });
+
+    expect(pinned).toMatchObject({ observation_id: ids[0], note: 'keep this', pinned: 1 });
+    expect(store.getFavorites({ pinnedOnly: true }).map(f => f.observation_id)).toEqual([ids[0]]);
+
+    expect(store.removeFavorite(ids[0])).toBe(true);
+    expect(store.getFavorite(ids[0])).toBeNull();
+  });
+
+  it('should tag observations and report usage counts', () => {
+    expect(store.tagObservation(ids[0], ['todo', 'auth'])).toEqual(['auth', 'todo']);
+    store.tagObservation(ids[1], ['auth']);
+
+    expect(store.getTags().map(t => [t.name, t.observation_count])).toEqual([['auth', 2], ['todo', 1]]);
+    expect(store.untagObservation(ids[0], 'todo')).toBe(true);
+    expect(store.getTagsForObservations(ids).get(ids[0])).toEqual(['auth']);
+
+    store.deleteTag('auth');
+    expect(store.getTagsForObservations(ids).size).toBe(0);
+  });
+
+  it('should apply tag: and is:favorite qualifiers in observation search', () => {
+    store.tagObservation(ids[0], ['auth']);
+    store.tagObservation(ids[2], ['auth']);
+    store.setFavorite(ids[1]);
+
+    expect(search.searchObservations('tag:auth', { project: 'proj' }).map(o => o.id).sort()).toEqual([ids[0], ids[2]]);
+    expect(search.searchObservations('Auth tag:auth').map(o => o.id)).toEqual([ids[0]]);
+    expect(search.searchObservations('auth is:favorite').map(o => o.id)).toEqual([ids[1]]);
+    expect(search.searchObservations(undefined, { favorite: true, tags: ['auth'] })).toEqual([]);
+  });
+
+  it('should filter hydrated observations by tag and favorite', () => {
+    store.tagObservation(ids[0], ['auth']);
+    store.setFavorite(ids[0]);
+    store.setFavorite(ids[2]);
+
+    expect(store.getObservationsByIds(ids, { tags: ['auth'] }).map(o => o.id)).toEqual([ids[0]]);
+    expect(store.getObservationsByIds(ids, { favorite: true, orderBy: 'date_asc' }).map(o => o.id)).toEqual([ids[0], ids[2]]);
+  });
+});
+
+describe('parseSearchQualifiers', () => {
+  it('should split qualifiers out of the query text', () => {
+    expect(parseSearchQualifiers('token refresh tag:Auth is:favorite tag:"todo"')).toEqual({
+      text: 'token refresh',
+      tags: ['auth', 'todo'],
+      favorite: true
+    });
+  });
+
+  it('should leave unknown and invalid qualifiers in the text', () => {
+    expect(parseSearchQualifiers('is:open tag:!!')).toEqual({ text: 'is:open tag:!!', tags: [], favorite: false });
+  });
+
+  it('should normalize tag names', () => {
+    expect(normalizeTagName('  Follow-Up ')).toBe('follow-up');
+    expect(normalizeTagName('has space')).toBeNull();
+  });
+});
+
+describe('includePinnedObservations', () => {
+  const config = { totalObservationCount: 3, tokenBudget: 0 } as ContextConfig;
+  const obs = (id: number, pinned?: boolean) => ({ id, created_at_epoch: id, pinned } as Observation);
+
+  it('should give pinned favorites a slot by dropping the oldest unpinned observations', () => {
+    const merged = includePinnedObservations([obs(9), obs(8), obs(7)], [obs(1, true), obs(8, true)], config);
+
+    expect(merged.map(o => o.id)).toEqual([9, 8, 1]);
+    expect(merged.filter(o => o.pinned).map(o => o.id)).toEqual([8, 1]);
+  });
+});
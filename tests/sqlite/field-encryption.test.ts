@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SessionSearch } from '../../src/core/storage/SessionSearch.js';
+import { FieldCipher, isEncrypted, projectTerms, setFieldCipher } from '../../src/core/storage/FieldEncryption.js';
+import { rekeyDatabase } from '../../src/core/storage/Rekey.js';
+import { MigrationRunner } from '../../src/core/storage/migrations/runner.js';
+
+const SECRET = 'sk1234567890abcdefghijklmnop';
+
+function observation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: ['Tokens rotate hourly'],
+    narrative: `The refresh handler retries once using ${SECRET}`,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Field encryption', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: SessionStore;
+  let search: SessionSearch;
+  let cipher: FieldCipher;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {})
+    ];
+
+    cipher = new FieldCipher(FieldCipher.generateKey());
+    setFieldCipher(cipher);
+
+    dir = join(tmpdir(), `field-encryption-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    search = new SessionSearch(dbPath);
+  });
+
+  afterEach(() => {
+    search.close();
+    store.close();
+    setFieldCipher(null);
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  function raw<T>(sql: string): T {
+    return store.db.prepare(sql).get() as T;
+  }
+
+  it('should store ciphertext and decrypt transparently in getters', () => {
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+    store.saveUserPrompt('content-1', 1, 'Fix the login redirect');
+
+    const stored = raw<{ narrative: string; facts: string; title: string }>(`SELECT narrative, facts, title FROM observations WHERE id = ${id}`);
+    expect(isEncrypted(stored.narrative)).toBe(true);
+    expect(isEncrypted(stored.facts)).toBe(true);
+    expect(stored.title).toBe('Auth refresh');
+    expect(isEncrypted(raw<{ prompt_text: string }>('SELECT prompt_text FROM user_prompts').prompt_text)).toBe(true);
+
+    const loaded = store.getObservationById(id)!;
+    expect(loaded.narrative).toContain(SECRET);
+    expect(loaded).not.toHaveProperty('search_projection');
+    expect(store.getUserPrompt('content-1', 1)).toBe('Fix the login redirect');
+  });
+
+  it('should keep encrypted rows searchable through the projection without indexing secrets', () => {
+    store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+    store.saveUserPrompt('content-1', 1, 'Fix the login redirect');
+
+    const results = search.searchObservations('handler');
+    expect(results).toHaveLength(1);
+    expect(results[0].narrative).toContain(SECRET);
+    expect(search.searchObservations(SECRET.toLowerCase())).toHaveLength(0);
+    expect(search.searchUserPrompts('redirect')).toHaveLength(1);
+  });
+
+  it('should index nothing for encrypted fields when the projection is disabled', () => {
+    setFieldCipher(new FieldCipher(FieldCipher.generateKey(), { projection: 'none' }));
+    store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+
+    expect(search.searchObservations('handler')).toHaveLength(0);
+    expect(search.searchObservations('auth')).toHaveLength(1);
+  });
+
+  it('should read plaintext rows written before encryption was enabled', () => {
+    setFieldCipher(null);
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Legacy'));
+    setFieldCipher(cipher);
+
+    expect(store.getObservationById(id)!.narrative).toContain('refresh handler');
+    expect(search.searchObservations('handler')).toHaveLength(1);
+  });
+
+  it('should rotate to a new key and decrypt back to plaintext', () => {
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+    store.storeSummary('mem-1', 'proj', {
+      request: 'Fix auth', investigated: 'Refresh flow', learned: 'Tokens expire',
+      completed: 'Retry added', next_steps: 'None', notes: null
+    });
+
+    const next = new FieldCipher(FieldCipher.generateKey());
+    const counts = rekeyDatabase(store.db, cipher, next);
+    expect(counts).toMatchObject({ observations: 1, session_summaries: 1, user_prompts: 0 });
+
+    setFieldCipher(next);
+    expect(store.getObservationById(id)!.narrative).toContain(SECRET);
+    expect(search.searchObservations('handler')).toHaveLength(1);
+
+    rekeyDatabase(store.db, next, null);
+    const stored = raw<{ narrative: string; search_projection: string | null }>(`SELECT narrative, search_projection FROM observations WHERE id = ${id}`);
+    expect(stored.narrative).toContain(SECRET);
+    expect(stored.search_projection).toBeNull();
+    expect(search.searchObservations('handler')).toHaveLength(1);
+  });
+
+  it('should re-seal reprocess snapshots so a rollback after rekey stays readable', () => {
+    setFieldCipher(null);
+    const { id: legacyId } = store.storeObservation('mem-1', 'proj', observation('Legacy'));
+    setFieldCipher(cipher);
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+
+    const [source] = store.getReprocessableSessions('proj');
+    const runId = store.createReprocessRun('proj', [source], { modeId: 'code--chill' });
+    store.stageObservations({ runId, memorySessionId: 'mem-1' }, 'proj', [observation('Reprocessed')], 1, 0, 1000);
+    store.setReprocessSessionStatus(runId, 1, 'staged', { events: 1 });
+    store.setReprocessRunStatus(runId, 'staged');
+    store.applyReprocessRun(runId);
+
+    const next = new FieldCipher(FieldCipher.generateKey());
+    expect(rekeyDatabase(store.db, cipher, next).reprocess_observations).toBe(3);
+    setFieldCipher(next);
+    const snapshots = store.db.prepare('SELECT row_json FROM reprocess_observations').all() as Array<{ row_json: string }>;
+    expect(snapshots.every(({ row_json }) => isEncrypted(JSON.parse(row_json).narrative))).toBe(true);
+
+    store.rollbackReprocessRun(runId);
+    expect(store.getObservationById(id)!.narrative).toContain(SECRET);
+    expect(store.getObservationById(legacyId)!.narrative).toContain(SECRET);
+    expect(search.searchObservations('handler')).toHaveLength(2);
+  });
+
+  it('should refuse to rekey data encrypted with an unknown key', () => {
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+    const before = raw<{ narrative: string }>(`SELECT narrative FROM observations WHERE id = ${id}`).narrative;
+
+    const stranger = new FieldCipher(FieldCipher.generateKey());
+    expect(() => rekeyDatabase(store.db, stranger, null)).toThrow('encrypted with a key other than the current one');
+    expect(raw<{ narrative: string }>(`SELECT narrative FROM observations WHERE id = ${id}`).narrative).toBe(before);
+  });
+
+  it('should refuse to revert the projection migration while rows are encrypted', () => {
+    store.storeObservation('mem-1', 'proj', observation('Auth refresh'));
+    const db = new Database(dbPath);
+    try {
+      expect(() => new MigrationRunner(db, { sqlDir: null }).down(26)).toThrow('rekey');
+    } finally {
+      db.close();
+    }
+  });
+});
+
+describe('projectTerms', () => {
+  it('should keep sorted unique words and drop secret-looking tokens', () => {
+    expect(projectTerms('Retry the retry, key deadbeefdeadbeef12 and AKIA1234567890ABCDEFGH')).toBe('and key retry the');
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../src/utils/logger.js';
+import { MigrationRunner, MigrationDriftError } from '../../src/core/storage/migrations/runner.js';
+import { checksumOf, parseSqlMigration } from '../../src/core/storage/migrations/sql-loader.js';
+import { migrations as tsMigrations } from '../../src/core/storage/migrations.js';
+import type { Migration } from '../../src/core/storage/migrations/types.js';
+
+function tableNames(db: Database): string[] {
+  return (db.query("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]).map(t => t.name);
+}
+
+function columnNames(db: Database, table: string): string[] {
+  return (db.query(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('MigrationRunner', () => {
+  let db: Database;
+  let dir: string;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'info').mockImplementation(() => {})
+    ];
+    db = new Database(':memory:');
+    dir = join(tmpdir(), `migration-runner-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should apply every migration on a fresh database and record checksums', () => {
+    const runner = new MigrationRunner(db, { sqlDir: null });
+    const applied = runner.up();
+
+    expect(applied[0]).toBe(4);
+    expect(runner.status().every(entry => entry.state === 'applied')).toBe(true);
+    expect(runner.up()).toEqual([]);
+
+    const unstamped = db.query('SELECT COUNT(*) as count FROM schema_versions WHERE checksum IS NULL OR name IS NULL').get() as { count: number };
+    expect(unstamped.count).toBe(0);
+    expect(tableNames(db)).toContain('favorites');
+  });
+
+  it('should refuse to run when a recorded migration has drifted', () => {
+    new MigrationRunner(db, { sqlDir: null }).up();
+    db.run("UPDATE schema_versions SET checksum = 'edited' WHERE version = 10");
+
+    const runner = new MigrationRunner(db, { sqlDir: null });
+    expect(runner.verify()).toEqual(['migration 10 (user_prompts) was changed after it was applied']);
+    expect(() => runner.up()).toThrow(MigrationDriftError);
+  });
+
+  it('should declare the source checksum of every TypeScript migration', () => {
+    const source = readFileSync(join(import.meta.dir, '../../src/core/storage/migrations.ts'), 'utf-8');
+    const blocks = source.match(/^export const migration\d+: Migration = \{\n[\s\S]*?^\};$/gm) ?? [];
+    const sourceChecksums = new Map(blocks.map(block => [
+      Number(block.match(/^ {2}version: (\d+),$/m)![1]),
+      checksumOf(block.replace(/^ {2}checksum: '[0-9a-f]*',\n/m, ''))
+    ]));
+
+    expect(Object.fromEntries(tsMigrations.map(m => [m.version, m.checksum])))
+      .toEqual(Object.fromEntries(tsMigrations.map(m => [m.version, sourceChecksums.get(m.version)])));
+  });
+
+  it('should detect a TypeScript migration edited after it was applied', () => {
+    new MigrationRunner(db, { sqlDir: null }).up();
+    const edited = tsMigrations.map(m => (m.version === 10 ? { ...m, checksum: checksumOf('edited source') } : m));
+
+    const runner = new MigrationRunner(db, { migrations: edited, sqlDir: null });
+    expect(runner.verify()).toEqual(['migration 10 (user_prompts) was changed after it was applied']);
+    expect(() => runner.up()).toThrow(MigrationDriftError);
+  });
+
+  it('should restamp TypeScript migrations recorded with the version and name hash', () => {
+    new MigrationRunner(db, { sqlDir: null }).up();
+    db.run("UPDATE schema_versions SET checksum = ? WHERE version = 10", [checksumOf('10:user_prompts')]);
+
+    const runner = new MigrationRunner(db, { sqlDir: null });
+    expect(runner.verify()).toEqual([]);
+    runner.up();
+    expect(db.query('SELECT checksum FROM schema_versions WHERE version = 10').get()).toEqual({ checksum: tsMigrations.find(m => m.version === 10)!.checksum });
+  });
+
+  it('should treat versions from a newer build as drift but ignore retired legacy rows', () => {
+    new MigrationRunner(db, { sqlDir: null }).up();
+    db.run("INSERT INTO schema_versions (version, applied_at) VALUES (12, 'then')");
+    expect(new MigrationRunner(db, { sqlDir: null }).verify()).toEqual([]);
+
+    db.run("INSERT INTO schema_versions (version, name, checksum, applied_at) VALUES (99, 'future', 'abc', 'now')");
+    expect(() => new MigrationRunner(db, { sqlDir: null }).up()).toThrow(MigrationDriftError);
+  });
+
+  it('should backfill checksums for rows recorded by the old runner', () => {
+    db.run('CREATE TABLE schema_versions (id INTEGER PRIMARY KEY, version INTEGER UNIQUE NOT NULL, applied_at TEXT NOT NULL)');
+    const migrations: Migration[] = [{ version: 1, name: 'noop', up: () => {} }];
+    db.run("INSERT INTO schema_versions (version, applied_at) VALUES (1, 'then')");
+
+    expect(new MigrationRunner(db, { migrations, sqlDir: null }).up()).toEqual([]);
+    expect(db.query('SELECT name, checksum FROM schema_versions WHERE version = 1').get()).toMatchObject({ name: 'noop' });
+    expect((db.query('SELECT checksum FROM schema_versions WHERE version = 1').get() as { checksum: string }).checksum).toHaveLength(64);
+  });
+
+  it('should revert reversible migrations and reapply them', () => {
+    const runner = new MigrationRunner(db, { sqlDir: null });
+    runner.up();
+
+    expect(runner.down(19)).toEqual([35, 34, 33, 32, 31, 30, 29, 28, 27, 26, 25, 24, 23, 22, 21, 20]);
+    expect(tableNames(db)).not.toContain('observation_links');
+    expect(columnNames(db, 'observations')).not.toContain('git_head_sha');
+    expect(columnNames(db, 'pending_messages')).not.toContain('failed_at_epoch');
+
+    expect(runner.up()).toEqual([20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35]);
+    expect(columnNames(db, 'observations')).toContain('staleness');
+  });
+
+  it('should not revert anything when an irreversible migration is in range', () => {
+    const runner = new MigrationRunner(db, { sqlDir: null });
+    runner.up();
+
+    expect(() => runner.down(10)).toThrow('migration 19, 17, 16, 11 cannot be reverted');
+    expect(tableNames(db)).toContain('favorites');
+  });
+
+  it('should load SQL migrations with down sections and detect edited files', () => {
+    const sql = 'CREATE TABLE notes (id INTEGER PRIMARY KEY);\n\n-- migrate:down\nDROP TABLE notes;\n';
+    writeFileSync(join(dir, '100_notes.sql'), sql);
+
+    const runner = new MigrationRunner(db, { sqlDir: dir });
+    expect(runner.up()).toContain(100);
+    expect(tableNames(db)).toContain('notes');
+
+    expect(runner.down(35)).toEqual([100]);
+    expect(tableNames(db)).not.toContain('notes');
+    runner.up();
+
+    writeFileSync(join(dir, '100_notes.sql'), sql.replace('id INTEGER', 'id INTEGER, body TEXT'));
+    expect(() => new MigrationRunner(db, { sqlDir: dir }).up()).toThrow(MigrationDriftError);
+  });
+
+  it('should reject duplicate versions across TypeScript and SQL migrations', () => {
+    writeFileSync(join(dir, '026_clash.sql'), 'SELECT 1;');
+    expect(() => new MigrationRunner(db, { sqlDir: dir })).toThrow('Duplicate migration version 26');
+  });
+});
+
+describe('parseSqlMigration', () => {
+  it('should treat files without a down section as irreversible', () => {
+    const migration = parseSqlMigration('007_index.sql', 'CREATE INDEX a ON b(c);');
+    expect(migration).toMatchObject({ version: 7, name: 'index', down: undefined });
+  });
+
+  it('should reject badly named files', () => {
+    expect(() => parseSqlMigration('index.sql', 'SELECT 1;')).toThrow('expected NNN_name.sql');
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SessionSearch } from '../../src/core/storage/SessionSearch.js';
+import type { NamespaceScope } from '../../src/types/database.js';
+
+function observation(title: string, scope?: NamespaceScope) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative: `${title} narrative`,
+    concepts: [],
+    files_read: [],
+    files_modified: [],
+    ...(scope && { scope })
+  };
+}
+
+function titles(rows: Array<{ title?: string | null }>): Array<string | null | undefined> {
+  return rows.map(row => row.title).sort();
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Memory namespaces', () => {
+  let dir: string;
+  let store: SessionStore;
+  let search: SessionSearch;
+
+  /** Create a chat session bound to a channel and user */
+  function chatSession(contentSessionId: string, channel: string, userId: string | null, userName: string | null = null): string {
+    const sessionDbId = store.createSDKSession(contentSessionId, 'openclaw', 'hello');
+    const memorySessionId = `mem-${contentSessionId}`;
+    store.updateMemorySessionId(sessionDbId, memorySessionId);
+    store.setSessionNamespace(contentSessionId, channel, userId, userName);
+    return memorySessionId;
+  }
+
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+
+    dir = join(tmpdir(), `namespaces-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    const dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    search = new SessionSearch(dbPath);
+
+    const alice = chatSession('alice-1', 'discord', 'alice', 'Alice');
+    const bob = chatSession('bob-1', 'discord', 'bob');
+    const lobby = chatSession('lobby-1', 'slack', null);
+    store.storeObservation(alice, 'openclaw', observation('Alice prefers tabs'));
+    store.storeObservation(alice, 'openclaw', observation('Discord release day', 'channel'));
+    store.storeObservations(bob, 'openclaw', [observation('Bob prefers spaces'), observation('Company holiday', 'global')], null);
+    store.storeObservation(lobby, 'openclaw', observation('Slack standup time', 'user'));
+
+    // A Claude Code session in the same project has no namespace
+    const codeSession = store.createSDKSession('code-1', 'openclaw', 'fix the bug');
+    store.updateMemorySessionId(codeSession, 'mem-code-1');
+    store.storeObservation('mem-code-1', 'openclaw', observation('Code finding'));
+  });
+
+  afterEach(() => {
+    search.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should keep the first namespace a session is bound to', () => {
+    expect(store.setSessionNamespace('alice-1', 'telegram', 'mallory')).toEqual({ channel: 'discord', userId: 'alice' });
+    expect(store.setSessionNamespace('missing', 'discord', 'alice')).toBeNull();
+    expect(store.getSessionNamespace('mem-code-1')).toBeNull();
+  });
+
+  it('should show a user their own, their channel and global memories only', () => {
+    const visible = (channel: string, userId?: string) =>
+      titles(search.searchObservations(undefined, { project: 'openclaw', namespace: { channel, ...(userId && { userId }) } }));
+
+    expect(visible('discord', 'alice')).toEqual(['Alice prefers tabs', 'Company holiday', 'Discord release day']);
+    expect(visible('discord', 'bob')).toEqual(['Bob prefers spaces', 'Company holiday', 'Discord release day']);
+    expect(visible('discord')).toEqual(['Company holiday', 'Discord release day']);
+    // User-scoped in a session without a user falls back to the channel
+    expect(visible('slack', 'carol')).toEqual(['Company holiday', 'Slack standup time']);
+
+    // Project-only search is unchanged
+    expect(titles(search.searchObservations(undefined, { project: 'openclaw' }))).toHaveLength(6);
+  });
+
+  it('should apply the namespace when hydrating observations by id', () => {
+    const ids = search.searchObservations(undefined, { project: 'openclaw' }).map(row => row.id);
+    expect(titles(store.getObservationsByIds(ids, { namespace: { channel: 'discord', userId: 'bob' } }))).toEqual([
+      'Bob prefers spaces', 'Company holiday', 'Discord release day'
+    ]);
+  });
+
+  it('should list namespaces and purge one with its memories', () => {
+    expect(store.getNamespaces('openclaw').map(({ channel, user_id, user_name, sessions, observations }) => ({ channel, user_id, user_name, sessions, observations }))).toEqual(
+      expect.arrayContaining([
+        { channel: 'discord', user_id: 'alice', user_name: 'Alice', sessions: 1, observations: 2 },
+        { channel: 'discord', user_id: 'bob', user_name: null, sessions: 1, observations: 2 },
+        { channel: 'slack', user_id: null, user_name: null, sessions: 1, observations: 1 }
+      ])
+    );
+    expect(store.getNamespaces('elsewhere')).toEqual([]);
+
+    expect(store.purgeNamespace('openclaw', 'discord', 'alice')).toEqual({ sessions: 1, observations: 2 });
+    expect(store.getNamespaces('openclaw')).toHaveLength(2);
+    expect(titles(search.searchObservations(undefined, { project: 'openclaw' }))).toEqual([
+      'Bob prefers spaces', 'Code finding', 'Company holiday', 'Slack standup time'
+    ]);
+
+    expect(store.purgeNamespace('openclaw', 'slack', null)).toEqual({ sessions: 1, observations: 1 });
+    expect(store.getNamespaces()).toHaveLength(1);
+  });
+
+  it('should keep memories saved through tools in one session per namespace', () => {
+    const saved = store.getToolMemorySession('openclaw', 'discord', 'alice', 'Alice', 'chat');
+    expect(saved).toEqual({ memorySessionId: 'saved-openclaw:discord:alice', modeId: 'chat' });
+    // The first mode sticks, like any session's
+    expect(store.getToolMemorySession('openclaw', 'discord', 'alice', 'Alice', 'code')).toEqual(saved);
+    expect(store.getSessionNamespace(saved.memorySessionId)).toEqual({ channel: 'discord', userId: 'alice' });
+
+    store.storeObservation(saved.memorySessionId, 'openclaw', observation('Alice saved a note'));
+    expect(titles(search.searchObservations(undefined, { project: 'openclaw', namespace: { channel: 'discord', userId: 'alice' } })))
+      .toContain('Alice saved a note');
+    expect(store.getReprocessableSessions('openclaw').map(session => session.memory_session_id)).not.toContain(saved.memorySessionId);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+
+function observation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [`${title} fact`],
+    narrative: `${title} narrative`,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+function titles(rows: Array<{ title?: string | null }>): Array<string | null | undefined> {
+  return rows.map(row => row.title);
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('Reprocess generations', () => {
+  let store: SessionStore;
+  let sessionId: number;
+  let oldIds: number[];
+
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+
+    store = new SessionStore(':memory:');
+    sessionId = store.createSDKSession('content-1', 'proj', 'fix the login bug');
+    store.updateMemorySessionId(sessionId, 'mem-1');
+    oldIds = ['Old login finding', 'Old cookie finding'].map(title => store.storeObservation('mem-1', 'proj', observation(title)).id);
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  function stagedRun(stagedTitles: string[]): number {
+    const [source] = store.getReprocessableSessions('proj');
+    const runId = store.createReprocessRun('proj', [source], { modeId: 'code--chill' });
+    store.stageObservations({ runId, memorySessionId: 'mem-1' }, 'proj', stagedTitles.map(observation), 1, 0, 1000);
+    store.setReprocessSessionStatus(runId, sessionId, 'staged', { events: stagedTitles.length });
+    store.setReprocessRunStatus(runId, 'staged');
+    return runId;
+  }
+
+  it('should stage observations outside the live table and show them side by side', () => {
+    const runId = stagedRun(['New login decision']);
+
+    expect(titles(store.getObservationsForSession('mem-1'))).toEqual(['Old login finding', 'Old cookie finding']);
+    const [diff] = store.getReprocessDiff(runId);
+    expect(diff.session).toMatchObject({ source_session_id: sessionId, status: 'staged', events: 1 });
+    expect(titles(diff.before)).toEqual(['Old login finding', 'Old cookie finding']);
+    expect(diff.after).toMatchObject([{ id: null, title: 'New login decision', narrative: 'New login decision narrative', created_at_epoch: 1000 }]);
+  });
+
+  it('should swap generations on apply and restore them with favorites and tags on rollback', () => {
+    store.setFavorite(oldIds[0], { note: 'keep', pinned: true });
+    store.tagObservation(oldIds[1], ['auth']);
+    store.addObservationLink(oldIds[1], oldIds[0], 'follows-up');
+    const runId = stagedRun(['New login decision', 'New cookie change']);
+
+    expect(store.applyReprocessRun(runId)).toEqual({ applied: 2, replaced: 2 });
+    expect(store.getReprocessRun(runId)?.status).toBe('applied');
+    expect(titles(store.getObservationsForSession('mem-1'))).toEqual(['New login decision', 'New cookie change']);
+    expect(store.getObservationById(oldIds[0])).toBeNull();
+    expect(store.getFavorite(oldIds[0])).toBeNull();
+    const [diff] = store.getReprocessDiff(runId);
+    expect(titles(diff.before)).toEqual(['Old login finding', 'Old cookie finding']);
+    expect(diff.after.every(row => row.id !== null)).toBe(true);
+
+    expect(store.rollbackReprocessRun(runId)).toEqual({ removed: 2, restored: 2 });
+    expect(store.getReprocessRun(runId)?.status).toBe('rolled_back');
+    expect(titles(store.getObservationsForSession('mem-1'))).toEqual(['Old login finding', 'Old cookie finding']);
+    expect(store.getObservationById(oldIds[0])?.narrative).toBe('Old login finding narrative');
+    expect(store.getFavorite(oldIds[0])).toMatchObject({ note: 'keep', pinned: 1 });
+    expect(store.getTagsForObservations(oldIds).get(oldIds[1])).toEqual(['auth']);
+    expect(store.getObservationLinks(oldIds[1]).map(link => link.to_id)).toContain(oldIds[0]);
+  });
+
+  it('should only apply staged runs and only roll back the latest run over a session', () => {
+    const first = stagedRun(['First generation']);
+    expect(() => store.rollbackReprocessRun(first)).toThrow('is not applied');
+    store.applyReprocessRun(first);
+    expect(() => store.applyReprocessRun(first)).toThrow('is not staged');
+
+    const second = stagedRun(['Second generation']);
+    store.applyReprocessRun(second);
+    expect(() => store.rollbackReprocessRun(first)).toThrow(`run ${second} replaced the same sessions`);
+
+    store.rollbackReprocessRun(second);
+    store.rollbackReprocessRun(first);
+    expect(titles(store.getObservationsForSession('mem-1'))).toEqual(['Old login finding', 'Old cookie finding']);
+  });
+
+  it('should leave failed sessions untouched on apply', () => {
+    const runId = stagedRun(['Partial replay']);
+    store.setReprocessSessionStatus(runId, sessionId, 'failed', { error: 'Transcript not found' });
+
+    expect(store.applyReprocessRun(runId)).toEqual({ applied: 0, replaced: 0 });
+    expect(titles(store.getObservationsForSession('mem-1'))).toEqual(['Old login finding', 'Old cookie finding']);
+  });
+
+  it('should discard staged observations and exclude replay sessions from candidates', () => {
+    const runId = stagedRun(['Unwanted']);
+    const replayId = store.createReplaySession(runId, { content_session_id: 'content-1', project: 'proj' }, 'fix the login bug', 'code--chill');
+    store.updateMemorySessionId(replayId, 'mem-replay');
+
+    expect(store.getSessionById(replayId)?.mode_id).toBe('code--chill');
+    expect(store.getReprocessableSessions('proj').map(session => session.id)).toEqual([sessionId]);
+    expect(store.getReplaySessionIds()).toEqual([replayId]);
+
+    store.discardReprocessRun(runId);
+    store.deleteReplaySession(replayId);
+    expect(store.getReprocessRun(runId)?.status).toBe('discarded');
+    expect(store.getReprocessObservations(runId, 'staged')).toEqual([]);
+    expect(store.getReplaySessionIds()).toEqual([]);
+    expect(store.getSessionById(sessionId)).not.toBeNull();
+  });
+});
@@ -16,13 +16,45 @@ mock.module('../../src/utils/logger.js', () => ({
 // Import after mocks
 import {
   replaceTaggedContent,
-  formatTimelineForClaudeMd,
-  writeClaudeMdToFolder,
-  updateFolderClaudeMdFiles
+  updateFolderClaudeMdFiles,
+  rankFolderObservations,
+  renderFolderContext,
+  isIgnoredFolder,
+  diffLines,
+  generateFolderContext,
+  getFolderContextOptions,
+  type FolderContextOptions
 } from '../../src/utils/claude-md-utils.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import type { Observation } from '../../src/core/builder/types.js';
 
 let tempDir: string;
 const originalFetch = global.fetch;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function observationRow(
+  id: number,
+  title: string,
+  filesModified: string[] = [],
+  filesRead: string[] = [],
+  createdAtEpoch: number = Date.now()
+): Observation {
+  return {
+    id,
+    memory_session_id: 'mem-1',
+    type: 'discovery',
+    title,
+    subtitle: null,
+    narrative: `${title} narrative.`,
+    facts: null,
+    concepts: null,
+    files_read: JSON.stringify(filesRead),
+    files_modified: JSON.stringify(filesModified),
+    discovery_tokens: 0,
+    created_at: new Date(createdAtEpoch).toISOString(),
+    created_at_epoch: createdAtEpoch
+  };
+}
 
 beforeEach(() => {
   tempDir = join(tmpdir(), `test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
@@ -92,117 +124,132 @@ describe('replaceTaggedContent', () => {
   });
 });
 
-describe('formatTimelineForClaudeMd', () => {
-  it('should return "No recent activity" for empty input', () => {
-    const result = formatTimelineForClaudeMd('');
-
-    expect(result).toContain('# Recent Activity');
-    expect(result).toContain('*No recent activity*');
-  });
-
-  it('should return "No recent activity" when no table rows exist', () => {
-    const input = 'Just some plain text without table rows';
-
-    const result = formatTimelineForClaudeMd(input);
-
-    expect(result).toContain('*No recent activity*');
-  });
-
-  it('should parse single observation row correctly', () => {
-    const input = '| #123 | 4:30 PM | 🔵 | User logged in | ~100 |';
-
-    const result = formatTimelineForClaudeMd(input);
-
-    expect(result).toContain('#123');
-    expect(result).toContain('4:30 PM');
-    expect(result).toContain('🔵');
-    expect(result).toContain('User logged in');
-    expect(result).toContain('~100');
-  });
-
-  it('should parse ditto mark for repeated time correctly', () => {
-    const input = `| #123 | 4:30 PM | 🔵 | First action | ~100 |
-| #124 | ″ | 🔵 | Second action | ~150 |`;
-
-    const result = formatTimelineForClaudeMd(input);
-
-    expect(result).toContain('#123');
-    expect(result).toContain('#124');
-    // First occurrence should show time
-    expect(result).toContain('4:30 PM');
-    // Second occurrence should show ditto mark
-    expect(result).toContain('"');
+describe('folder context generator', () => {
+  const now = Date.parse('2026-03-10T12:00:00Z');
+  const options: FolderContextOptions = { limit: 50, maxTokens: Infinity, ignore: [], output: 'claude-md' };
+
+  it('should rank observations in the folder by recency, with modified files first', () => {
+    const ranked = rankFolderObservations([
+      observationRow(1, 'Read yesterday', [], ['src/api/routes.ts'], now - DAY_MS),
+      observationRow(2, 'Modified yesterday', ['src/api/routes.ts'], [], now - DAY_MS),
+      observationRow(3, 'Read today', [], ['/repo/src/api/index.ts'], now),
+      observationRow(4, 'Subfolder only', ['src/api/v2/routes.ts'], [], now),
+      observationRow(5, 'Other folder', ['src/db/store.ts'], [], now)
+    ], '/repo/src/api', '/repo', now);
+
+    expect(ranked.map(entry => [entry.observation.id, entry.file])).toEqual([
+      [2, 'routes.ts'],
+      [3, 'index.ts'],
+      [1, 'routes.ts']
+    ]);
+  });
+
+  it('should keep the best-ranked observations within the token cap', () => {
+    const ranked = rankFolderObservations(
+      [1, 2, 3, 4, 5].map(id => observationRow(id, `Observation number ${id}`, ['src/a.ts'], [], now - id * DAY_MS)),
+      '/repo/src', '/repo', now
+    );
+    const all = renderFolderContext(ranked, Infinity);
+    const capped = renderFolderContext(ranked, all.tokens - 20);
+
+    expect(all).toMatchObject({ observationCount: 5, omittedCount: 0 });
+    expect(capped.tokens).toBeLessThanOrEqual(all.tokens - 20);
+    expect(capped.omittedCount).toBeGreaterThan(0);
+    expect(capped.content).toContain('#1 ');
+    expect(capped.content).not.toContain('#5 ');
+    expect(capped.content).toContain(`*${capped.omittedCount} more observation(s) left out to stay within the token limit*`);
+  });
+
+  it('should skip folders matching ignore globs and the context directory', () => {
+    const ignore = ['node_modules', 'generated/**', 'packages/*/dist'];
+
+    expect(isIgnoredFolder('/repo/web/node_modules/react', '/repo', ignore)).toBe(true);
+    expect(isIgnoredFolder('/repo/generated', '/repo', ignore)).toBe(true);
+    expect(isIgnoredFolder('/repo/generated/api', '/repo', ignore)).toBe(true);
+    expect(isIgnoredFolder('/repo/src/generated', '/repo', ignore)).toBe(false);
+    expect(isIgnoredFolder('/repo/packages/core/dist/esm', '/repo', ignore)).toBe(true);
+    expect(isIgnoredFolder('/repo/.moltbrain/context/src', '/repo', [])).toBe(true);
+    expect(isIgnoredFolder('/repo/src', '/repo', ignore)).toBe(false);
+  });
+
+  it('should read the generator options from settings', () => {
+    const settings = SettingsDefaultsManager.getAllDefaults();
+    expect(getFolderContextOptions(settings)).toEqual({
+      limit: 50,
+      maxTokens: 1000,
+      ignore: ['node_modules', 'dist', 'build', 'coverage'],
+      output: 'claude-md'
+    });
+    expect(getFolderContextOptions({
+      ...settings,
+      MOLTBRAIN_FOLDER_CONTEXT_MAX_TOKENS: '0',
+      MOLTBRAIN_FOLDER_CONTEXT_IGNORE: ' vendor , ',
+      MOLTBRAIN_FOLDER_CONTEXT_OUTPUT: 'context-dir'
+    })).toMatchObject({ maxTokens: Infinity, ignore: ['vendor'], output: 'context-dir' });
+  });
+
+  it('should diff changed lines with context', () => {
+    expect(diffLines('a\nb\nc\nd\ne\nf\ng\nh', 'a\nB\nc\nd\ne\nf\ng\nh\ni')).toBe(
+      [' a', '-b', '+B', ' c', ' d', '@@', ' g', ' h', '+i'].join('\n')
+    );
+    expect(diffLines('', 'new')).toBe('+new');
   });
 
-  it('should parse session ID format (#S123) correctly', () => {
-    const input = '| #S123 | 4:30 PM | 🟣 | Session started | ~200 |';
+  it('should report a dry run as a diff without writing', () => {
+    const folderPath = join(tempDir, 'src');
+    const claudeMdPath = join(folderPath, 'CLAUDE.md');
+    mkdirSync(folderPath, { recursive: true });
+    writeFileSync(claudeMdPath, 'Team notes');
 
-    const result = formatTimelineForClaudeMd(input);
+    const change = generateFolderContext(folderPath, [observationRow(7, 'Cache layer', ['src/cache.ts'], [], now)], options, {
+      projectRoot: tempDir,
+      dryRun: true,
+      now
+    })!;
 
-    expect(result).toContain('#S123');
-    expect(result).toContain('4:30 PM');
-    expect(result).toContain('🟣');
-    expect(result).toContain('Session started');
+    expect(change).toMatchObject({ targetPath: claudeMdPath, observationCount: 1, changed: true });
+    expect(change.diff.split('\n').slice(0, 3)).toEqual([' Team notes', '+', '+<claude-recall-context>']);
+    expect(change.diff).toContain('+| #7 |');
+    expect(readFileSync(claudeMdPath, 'utf-8')).toBe('Team notes');
   });
-});
-
-describe('writeClaudeMdToFolder', () => {
-  it('should create CLAUDE.md in new folder', () => {
-    const folderPath = join(tempDir, 'new-folder');
-    const content = '# Recent Activity\n\nTest content';
-
-    writeClaudeMdToFolder(folderPath, content);
 
+  it('should replace only the tagged section and leave no temp file', () => {
+    const folderPath = join(tempDir, 'src');
     const claudeMdPath = join(folderPath, 'CLAUDE.md');
-    expect(existsSync(claudeMdPath)).toBe(true);
-
-    const fileContent = readFileSync(claudeMdPath, 'utf-8');
-    expect(fileContent).toContain('<claude-recall-context>');
-    expect(fileContent).toContain('Test content');
-    expect(fileContent).toContain('</claude-recall-context>');
-  });
-
-  it('should preserve user content outside tags', () => {
-    const folderPath = join(tempDir, 'preserve-test');
     mkdirSync(folderPath, { recursive: true });
+    writeFileSync(claudeMdPath, 'User-written docs\n<claude-recall-context>\nOld content\n</claude-recall-context>\nMore user docs');
 
-    const claudeMdPath = join(folderPath, 'CLAUDE.md');
-    const userContent = 'User-written docs\n<claude-recall-context>\nOld content\n</claude-recall-context>\nMore user docs';
-    writeFileSync(claudeMdPath, userContent);
-
-    const newContent = 'New generated content';
-    writeClaudeMdToFolder(folderPath, newContent);
+    generateFolderContext(folderPath, [observationRow(9, 'Cache layer', ['src/cache.ts'], [], now)], options, { projectRoot: tempDir, now });
 
     const fileContent = readFileSync(claudeMdPath, 'utf-8');
-    expect(fileContent).toContain('User-written docs');
-    expect(fileContent).toContain('New generated content');
-    expect(fileContent).toContain('More user docs');
+    expect(fileContent.startsWith('User-written docs\n<claude-recall-context>')).toBe(true);
+    expect(fileContent.endsWith('</claude-recall-context>\nMore user docs')).toBe(true);
+    expect(fileContent).toContain('| #9 |');
     expect(fileContent).not.toContain('Old content');
+    expect(existsSync(`${claudeMdPath}.tmp`)).toBe(false);
   });
 
-  it('should create nested directories', () => {
-    const folderPath = join(tempDir, 'deep', 'nested', 'folder');
-    const content = 'Nested content';
+  it('should write to .moltbrain/context when configured and skip folders without activity', () => {
+    const folderPath = join(tempDir, 'src', 'api');
+    const contextOptions: FolderContextOptions = { ...options, output: 'context-dir' };
 
-    writeClaudeMdToFolder(folderPath, content);
+    const change = generateFolderContext(folderPath, [observationRow(8, 'Routes', ['src/api/routes.ts'], [], now)], contextOptions, {
+      projectRoot: tempDir,
+      now
+    })!;
 
-    const claudeMdPath = join(folderPath, 'CLAUDE.md');
-    expect(existsSync(claudeMdPath)).toBe(true);
-    expect(existsSync(join(tempDir, 'deep'))).toBe(true);
-    expect(existsSync(join(tempDir, 'deep', 'nested'))).toBe(true);
-  });
-
-  it('should not leave .tmp file after write (atomic write)', () => {
-    const folderPath = join(tempDir, 'atomic-test');
-    const content = 'Atomic write test';
+    const contextPath = join(tempDir, '.moltbrain', 'context', 'src', 'api', 'CLAUDE.md');
+    expect(change).toMatchObject({ targetPath: contextPath, changed: true, diff: '' });
+    expect(readFileSync(contextPath, 'utf-8')).toContain('| #8 |');
+    expect(existsSync(join(folderPath, 'CLAUDE.md'))).toBe(false);
 
-    writeClaudeMdToFolder(folderPath, content);
+    // Unchanged on a second run
+    expect(generateFolderContext(folderPath, [observationRow(8, 'Routes', ['src/api/routes.ts'], [], now)], contextOptions, {
+      projectRoot: tempDir,
+      now
+    })).toMatchObject({ changed: false, diff: '' });
 
-    const claudeMdPath = join(folderPath, 'CLAUDE.md');
-    const tempFilePath = `${claudeMdPath}.tmp`;
-
-    expect(existsSync(claudeMdPath)).toBe(true);
-    expect(existsSync(tempFilePath)).toBe(false);
+    expect(generateFolderContext(join(tempDir, 'docs'), [], contextOptions, { projectRoot: tempDir, now })).toBeNull();
   });
 });
 
@@ -221,18 +268,20 @@ describe('updateFolderClaudeMdFiles', () => {
     const filePath = join(folderPath, 'test.ts');
 
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test observation | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test observation', [filePath])]
     };
 
-    global.fetch = mock(() => Promise.resolve({
+    const fetchMock = mock(() => Promise.resolve({
       ok: true,
       json: () => Promise.resolve(apiResponse)
     } as Response));
+    global.fetch = fetchMock;
 
     await updateFolderClaudeMdFiles([filePath], 'test-project', 37777);
 
+    const callUrl = (fetchMock.mock.calls[0] as unknown[])[0] as string;
+    expect(callUrl).toContain('format=json');
+
     const claudeMdPath = join(folderPath, 'CLAUDE.md');
     expect(existsSync(claudeMdPath)).toBe(true);
 
@@ -248,9 +297,7 @@ describe('updateFolderClaudeMdFiles', () => {
     const file2 = join(folderPath, 'file2.ts');
 
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -298,9 +345,7 @@ describe('updateFolderClaudeMdFiles', () => {
 
   it('should resolve relative paths using projectRoot', async () => {
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test observation | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test observation')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -327,9 +372,7 @@ describe('updateFolderClaudeMdFiles', () => {
     const filePath = join(folderPath, 'file.ts');
 
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test observation | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test observation')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -356,9 +399,7 @@ describe('updateFolderClaudeMdFiles', () => {
     const filePath = join(folderPath, 'file.ts');
 
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test observation | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test observation')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -382,9 +423,7 @@ describe('updateFolderClaudeMdFiles', () => {
 
   it('should handle projectRoot with trailing slash correctly', async () => {
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test observation | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test observation')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -414,9 +453,7 @@ describe('updateFolderClaudeMdFiles', () => {
     const subfolderPath = join(tempDir, 'project-root-write-test', 'src', 'utils');
 
     const apiResponse = {
-      content: [{
-        text: '| #456 | 5:00 PM | 🔵 | Written to correct path | ~200 |'
-      }]
+      observations: [observationRow(456, 'Written to correct path', ['src/utils/file.ts'])]
     };
 
     global.fetch = mock(() => Promise.resolve({
@@ -443,9 +480,7 @@ describe('updateFolderClaudeMdFiles', () => {
 
   it('should deduplicate relative paths from same folder with projectRoot', async () => {
     const apiResponse = {
-      content: [{
-        text: '| #123 | 4:30 PM | 🔵 | Test | ~100 |'
-      }]
+      observations: [observationRow(123, 'Test')]
     };
 
     const fetchMock = mock(() => Promise.resolve({
@@ -468,6 +503,21 @@ describe('updateFolderClaudeMdFiles', () => {
     expect(callUrl).toContain(encodeURIComponent('/home/user/project/src/utils'));
   });
 
+  it('should skip folders matching ignore globs', async () => {
+    const fetchMock = mock(() => Promise.resolve({ ok: true } as Response));
+    global.fetch = fetchMock;
+
+    await updateFolderClaudeMdFiles(
+      ['node_modules/pkg/index.js', 'build/out.js'],
+      'test-project',
+      37777,
+      tempDir,
+      { limit: 50, maxTokens: 1000, ignore: ['node_modules', 'build'], output: 'claude-md' }
+    );
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
   it('should handle empty string paths gracefully with projectRoot', async () => {
     const fetchMock = mock(() => Promise.resolve({ ok: true } as Response));
     global.fetch = fetchMock;
@@ -573,7 +623,7 @@ describe('path validation in updateFolderClaudeMdFiles', () => {
 
   it('should accept absolute paths within project root', async () => {
     const apiResponse = {
-      content: [{ text: '| #123 | 4:30 PM | 🔵 | Test | ~100 |' }]
+      observations: [observationRow(123, 'Test')]
     };
     const fetchMock = mock(() => Promise.resolve({
       ok: true,
@@ -596,7 +646,7 @@ describe('path validation in updateFolderClaudeMdFiles', () => {
 
   it('should accept absolute paths when no projectRoot is provided', async () => {
     const apiResponse = {
-      content: [{ text: '| #123 | 4:30 PM | 🔵 | Test | ~100 |' }]
+      observations: [observationRow(123, 'Test')]
     };
     const fetchMock = mock(() => Promise.resolve({
       ok: true,
@@ -616,7 +666,7 @@ describe('path validation in updateFolderClaudeMdFiles', () => {
 
   it('should accept valid relative paths', async () => {
     const apiResponse = {
-      content: [{ text: '| #123 | 4:30 PM | 🔵 | Test | ~100 |' }]
+      observations: [observationRow(123, 'Test')]
     };
     const fetchMock = mock(() => Promise.resolve({
       ok: true,
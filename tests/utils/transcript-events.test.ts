@@ -0,0 +1,99 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { extractToolEvents, findTranscriptPath, promptNumberAt } from '../../src/utils/transcript-events.js';
+import type { TranscriptEntry } from '../../src/types/transcript.js';
+
+const base = { isSidechain: false, userType: 'external', cwd: '/home/user/my-app', sessionId: 'content-1', version: '1.0.0' };
+
+const entries = [
+  { ...base, type: 'user', uuid: 'u1', timestamp: '2026-01-01T10:00:00.000Z', message: { role: 'user', content: 'fix the login bug' } },
+  {
+    ...base,
+    type: 'assistant',
+    uuid: 'a1',
+    timestamp: '2026-01-01T10:00:05.000Z',
+    message: {
+      id: 'm1', type: 'message', role: 'assistant', model: 'claude',
+      content: [
+        { type: 'text', text: 'Reading the auth module.' },
+        { type: 'tool_use', id: 'tool-1', name: 'Read', input: { file_path: 'src/auth.ts' } },
+        { type: 'tool_use', id: 'tool-2', name: 'Bash', input: { command: 'npm test' } }
+      ]
+    }
+  },
+  {
+    ...base,
+    type: 'user',
+    uuid: 'u2',
+    timestamp: '2026-01-01T10:00:06.000Z',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'export function login() {}' }] },
+    toolUseResult: { type: 'text', file: { filePath: 'src/auth.ts', content: 'export function login() {}' } }
+  },
+  {
+    ...base,
+    type: 'user',
+    uuid: 'u3',
+    timestamp: '2026-01-01T10:00:09.000Z',
+    message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tool-2', content: '1 failing' }] }
+  },
+  {
+    ...base,
+    type: 'assistant',
+    uuid: 'a2',
+    timestamp: '2026-01-01T10:00:10.000Z',
+    message: { id: 'm2', type: 'message', role: 'assistant', model: 'claude', content: [{ type: 'tool_use', id: 'tool-3', name: 'Edit', input: {} }] }
+  }
+] as unknown as TranscriptEntry[];
+
+describe('Transcript events', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  it('should pair tool uses with their results and skip unanswered ones', () => {
+    expect(extractToolEvents(entries)).toEqual([
+      {
+        tool_name: 'Read',
+        tool_input: { file_path: 'src/auth.ts' },
+        tool_response: { type: 'text', file: { filePath: 'src/auth.ts', content: 'export function login() {}' } },
+        cwd: '/home/user/my-app',
+        timestamp_epoch: Date.parse('2026-01-01T10:00:06.000Z')
+      },
+      {
+        tool_name: 'Bash',
+        tool_input: { command: 'npm test' },
+        tool_response: '1 failing',
+        cwd: '/home/user/my-app',
+        timestamp_epoch: Date.parse('2026-01-01T10:00:09.000Z')
+      }
+    ]);
+  });
+
+  it('should assign events to the last prompt stored before them', () => {
+    const prompts = [
+      { prompt_number: 1, created_at_epoch: 1000 },
+      { prompt_number: 2, created_at_epoch: 5000 }
+    ];
+
+    expect(promptNumberAt(500, prompts)).toBe(1);
+    expect(promptNumberAt(4999, prompts)).toBe(1);
+    expect(promptNumberAt(5000, prompts)).toBe(2);
+    expect(promptNumberAt(9000, [])).toBe(1);
+  });
+
+  it('should find a transcript in any project directory', () => {
+    dir = join(tmpdir(), `transcripts-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(join(dir, '-home-user-other'), { recursive: true });
+    mkdirSync(join(dir, '-home-user-my-app'), { recursive: true });
+    writeFileSync(join(dir, '-home-user-my-app', 'content-1.jsonl'), '');
+
+    expect(findTranscriptPath('content-1', dir)).toBe(join(dir, '-home-user-my-app', 'content-1.jsonl'));
+    expect(findTranscriptPath('content-2', dir)).toBeNull();
+    expect(findTranscriptPath('content-1', join(dir, 'missing'))).toBeNull();
+  });
+});
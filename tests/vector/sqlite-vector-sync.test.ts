@@ -0,0 +1,138 @@
+/**
+ * Tests for the in-process SQLite vector backend
+ *
+ * Mock Justification: NONE (0% mock code)
+ * - Uses real SQLite with ':memory:' so the observation_vectors migration is exercised
+ * - LocalEmbedder is deterministic, so ranking assertions are stable
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SQLiteVectorSync } from '../../src/core/vector/SQLiteVectorSync.js';
+import { LocalEmbedder } from '../../src/core/vector/LocalEmbedder.js';
+import { parseVectorBackendName, resolveVectorBackendName } from '../../src/core/vector/VectorBackend.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+
+describe('LocalEmbedder', () => {
+  const embedder = new LocalEmbedder();
+
+  it('should be deterministic', () => {
+    const a = embedder.embed('database migration runner');
+    const b = embedder.embed('database migration runner');
+    expect(Array.from(a)).toEqual(Array.from(b));
+  });
+
+  it('should produce unit-length vectors', () => {
+    const vector = embedder.embed('worker port configuration');
+    expect(LocalEmbedder.cosine(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it('should score related text above unrelated text', () => {
+    const query = embedder.embed('sqlite migrations');
+    const related = embedder.embed('Added a migration to the SQLite schema');
+    const unrelated = embedder.embed('Viewer theme toggle colors');
+    expect(LocalEmbedder.cosine(query, related)).toBeGreaterThan(LocalEmbedder.cosine(query, unrelated));
+  });
+});
+
+describe('SQLiteVectorSync', () => {
+  let store: SessionStore;
+  let backend: SQLiteVectorSync;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+    backend = new SQLiteVectorSync('test-collection', store.db);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function observation(title: string, narrative: string, facts: string[] = []) {
+    return {
+      type: 'discovery',
+      title,
+      subtitle: null,
+      facts,
+      narrative,
+      concepts: [],
+      files_read: [],
+      files_modified: []
+    };
+  }
+
+  it('should return synced observations ranked by similarity', async () => {
+    await backend.syncObservation(1, 'mem-1', 'proj', observation('Auth', 'JWT token refresh logic in the auth middleware'), 1, Date.now());
+    await backend.syncObservation(2, 'mem-1', 'proj', observation('Theme', 'Dark mode palette for the viewer'), 1, Date.now());
+
+    const result = await backend.queryChroma('auth token refresh', 10);
+
+    expect(result.ids[0]).toBe(1);
+    expect(result.ids).toHaveLength(2);
+    expect(result.metadatas[0].doc_type).toBe('observation');
+    expect(result.distances[0]).toBeLessThan(result.distances[1]);
+  });
+
+  it('should return one hit per observation even with multiple fields', async () => {
+    await backend.syncObservation(1, 'mem-1', 'proj', observation('Auth', 'JWT refresh', ['fact one', 'fact two']), 1, Date.now());
+
+    const result = await backend.queryChroma('refresh', 10);
+
+    expect(result.ids).toEqual([1]);
+  });
+
+  it('should apply doc_type where filters', async () => {
+    await backend.syncObservation(1, 'mem-1', 'proj', observation('Auth', 'token refresh'), 1, Date.now());
+    await backend.syncUserPrompt(7, 'mem-1', 'proj', 'how does token refresh work?', 1, Date.now());
+
+    const result = await backend.queryChroma('token refresh', 10, { doc_type: 'user_prompt' });
+
+    expect(result.ids).toEqual([7]);
+    expect(result.metadatas[0].doc_type).toBe('user_prompt');
+  });
+
+  it('should backfill stored observations that have no vectors', async () => {
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    const { id } = store.storeObservation('mem-1', 'proj', observation('Cache', 'LRU cache eviction policy'));
+
+    await backend.ensureBackfilled();
+    const result = await backend.queryChroma('cache eviction', 5);
+
+    expect(result.ids).toContain(id);
+  });
+
+  it('should delete every document of deleted observations', async () => {
+    await backend.syncObservation(1, 'mem-1', 'proj', observation('Auth', 'JWT refresh', ['fact one', 'fact two']), 1, Date.now());
+    await backend.syncObservation(2, 'mem-1', 'proj', observation('Refresh', 'Token refresh retries'), 1, Date.now());
+    await backend.syncUserPrompt(1, 'mem-1', 'proj', 'how does refresh work?', 1, Date.now());
+
+    await backend.deleteObservations([1]);
+    const result = await backend.queryChroma('refresh', 10);
+
+    expect(result.metadatas.map(meta => [meta.doc_type, meta.sqlite_id])).toEqual(
+      expect.arrayContaining([['observation', 2], ['user_prompt', 1]])
+    );
+    expect(result.ids).toHaveLength(2);
+  });
+});
+
+describe('parseVectorBackendName', () => {
+  it('should default to chroma for empty or unknown values', () => {
+    expect(parseVectorBackendName('')).toBe('chroma');
+    expect(parseVectorBackendName('pinecone')).toBe('chroma');
+  });
+
+  it('should accept sqlite case-insensitively', () => {
+    expect(parseVectorBackendName(' SQLite ')).toBe('sqlite');
+  });
+});
+
+describe('resolveVectorBackendName', () => {
+  const defaults = SettingsDefaultsManager.getAllDefaults();
+
+  it('should not use chroma when encryption at rest is enabled', () => {
+    expect(resolveVectorBackendName({ ...defaults, MOLTBRAIN_VECTOR_BACKEND: 'chroma' })).toBe('chroma');
+    expect(resolveVectorBackendName({ ...defaults, MOLTBRAIN_VECTOR_BACKEND: 'chroma', MOLTBRAIN_ENCRYPTION_ENABLED: 'true' })).toBe('sqlite');
+    expect(resolveVectorBackendName({ ...defaults, MOLTBRAIN_VECTOR_BACKEND: 'sqlite', MOLTBRAIN_ENCRYPTION_ENABLED: 'true' })).toBe('sqlite');
+  });
+});
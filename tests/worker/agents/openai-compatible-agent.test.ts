@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { logger } from '../../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../../src/common/SettingsDefaultsManager.js';
+import {
+  OpenAICompatibleAgent,
+  buildChatCompletionsUrl
+} from '../../../src/core/engine/OpenAICompatibleAgent.js';
+import { truncateHistory } from '../../../src/core/engine/agents/HistoryWindow.js';
+import { SettingsValidator } from '../../../src/validators/SettingsValidator.js';
+import type { DatabaseManager } from '../../../src/core/engine/DatabaseManager.js';
+import type { SessionManager } from '../../../src/core/engine/SessionManager.js';
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('OpenAICompatibleAgent', () => {
+  let originalFetch: typeof global.fetch;
+  let loadFromFileSpy: ReturnType<typeof spyOn>;
+  let fetchMock: ReturnType<typeof mock>;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+      spyOn(logger, 'error').mockImplementation(() => {}),
+    ];
+
+    loadFromFileSpy = spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => ({
+      ...SettingsDefaultsManager.getAllDefaults(),
+      MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: 'http://127.0.0.1:8080',
+      MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: 'qwen2.5:7b-instruct',
+      MOLTBRAIN_OPENAI_COMPATIBLE_API_KEY: 'local-key',
+    }));
+
+    originalFetch = global.fetch;
+    fetchMock = mock(() => Promise.resolve(new Response(JSON.stringify({
+      choices: [{ message: { role: 'assistant', content: '<observation></observation>' } }],
+      usage: { total_tokens: 42 }
+    }))));
+    global.fetch = fetchMock as unknown as typeof global.fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    loadFromFileSpy.mockRestore();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  function createAgent(): OpenAICompatibleAgent {
+    return new OpenAICompatibleAgent({} as DatabaseManager, {} as SessionManager);
+  }
+
+  it('should post the prompt to the chat completions endpoint', async () => {
+    const content = await createAgent().complete('Summarize this');
+
+    expect(content).toBe('<observation></observation>');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(url).toBe('http://127.0.0.1:8080/v1/chat/completions');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe('Bearer local-key');
+
+    const body = JSON.parse(init.body as string);
+    expect(body.model).toBe('qwen2.5:7b-instruct');
+    expect(body.messages).toEqual([{ role: 'user', content: 'Summarize this' }]);
+  });
+
+  it('should surface HTTP errors with the status code for failover', async () => {
+    fetchMock.mockImplementation(() => Promise.resolve(new Response('model not loaded', { status: 503 })));
+
+    await expect(createAgent().complete('hi')).rejects.toThrow('OpenAI-compatible API error: 503 - model not loaded');
+  });
+
+  it('should give up on a server that does not answer in time', async () => {
+    loadFromFileSpy.mockImplementation(() => ({
+      ...SettingsDefaultsManager.getAllDefaults(),
+      MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: 'http://127.0.0.1:8080',
+      MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: 'qwen2.5:7b-instruct',
+      MOLTBRAIN_OPENAI_COMPATIBLE_TIMEOUT_MS: '20',
+    }));
+    fetchMock.mockImplementation((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+    }));
+
+    await expect(createAgent().complete('hi')).rejects.toThrow('OpenAI-compatible endpoint did not answer within 20ms');
+  });
+});
+
+describe('buildChatCompletionsUrl', () => {
+  it('should accept base URLs with or without /v1', () => {
+    expect(buildChatCompletionsUrl('http://127.0.0.1:11434/v1/')).toBe('http://127.0.0.1:11434/v1/chat/completions');
+    expect(buildChatCompletionsUrl('http://localhost:8080')).toBe('http://localhost:8080/v1/chat/completions');
+    expect(buildChatCompletionsUrl('http://localhost:1234/v1/chat/completions')).toBe('http://localhost:1234/v1/chat/completions');
+  });
+});
+
+describe('truncateHistory', () => {
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'warn').mockImplementation(() => {})];
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should keep the most recent messages within the message and token limits', () => {
+    const history = ['a', 'b', 'c', 'd'].map(content => ({ role: 'user' as const, content: content.repeat(40) }));
+
+    expect(truncateHistory(history, { maxMessages: 2, maxTokens: 1000 }).map(m => m.content[0])).toEqual(['c', 'd']);
+    expect(truncateHistory(history, { maxMessages: 10, maxTokens: 15 }).map(m => m.content[0])).toEqual(['d']);
+    expect(truncateHistory(history, { maxMessages: 10, maxTokens: 1000 })).toBe(history);
+  });
+});
+
+describe('SettingsValidator (openai-compatible)', () => {
+  it('should require a base URL and model when the provider is selected', () => {
+    const result = new SettingsValidator().validate({
+      MOLTBRAIN_PROVIDER: 'openai-compatible',
+      MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: '',
+      MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: ''
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.field).sort()).toEqual([
+      'MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL',
+      'MOLTBRAIN_OPENAI_COMPATIBLE_MODEL'
+    ]);
+  });
+
+  it('should reject non-http base URLs', () => {
+    const validator = new SettingsValidator();
+
+    expect(validator.validateField('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', 'ftp://127.0.0.1/v1')?.message).toBe('Must use http or https');
+    expect(validator.validateField('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', 'not a url')?.message).toBe('Must be a valid URL');
+    expect(validator.validateField('MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', 'http://127.0.0.1:11434/v1')).toBeNull();
+  });
+
+  it('should accept a configured local provider', () => {
+    const result = new SettingsValidator().validate({
+      MOLTBRAIN_PROVIDER: 'openai-compatible',
+      MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: 'http://127.0.0.1:11434/v1',
+      MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: 'llama3.1:8b'
+    });
+
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('should check only the provider fields before settings are saved', () => {
+    const validator = new SettingsValidator();
+
+    expect(validator.validateProviderSettings({ CLAUDE_RECALL_PROVIDER: 'claude', CLAUDE_RECALL_CHROMA_ENABLED: 'true' }))
+      .toEqual({ valid: true, errors: [] });
+    expect(validator.validateProviderSettings({
+      MOLTBRAIN_PROVIDER: 'openai-compatible',
+      MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL: 'file:///tmp/socket',
+      MOLTBRAIN_OPENAI_COMPATIBLE_MODEL: 'llama 3'
+    }).errors.map(e => [e.field, e.message])).toEqual([
+      ['MOLTBRAIN_OPENAI_COMPATIBLE_BASE_URL', 'Must use http or https'],
+      ['MOLTBRAIN_OPENAI_COMPATIBLE_MODEL', 'Must be a model name without whitespace']
+    ]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, writeFileSync, rmSync } from 'fs';
+import { spawnSync } from 'child_process';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { MAX_RECONCILE_ATTEMPTS, reconcileObservationCommits } from '../../src/core/engine/CommitReconciler.js';
+import { getGitHeadState } from '../../src/utils/worktree.js';
+
+function git(cwd: string, ...args: string[]): string {
+  const result = spawnSync('git', args, { cwd, encoding: 'utf-8' });
+  if (result.status !== 0) throw new Error(result.stderr);
+  return result.stdout.trim();
+}
+
+function observation(title: string, filesModified: string[]) {
+  return {
+    type: 'change',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative: null,
+    concepts: [],
+    files_read: [],
+    files_modified: filesModified
+  };
+}
+
+describe('reconcileObservationCommits', () => {
+  let repo: string;
+  let store: SessionStore;
+  let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+    ];
+
+    repo = join(tmpdir(), `commit-reconciler-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(repo, { recursive: true });
+    git(repo, 'init', '-q');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    git(repo, 'config', 'user.name', 'Test');
+    writeFileSync(join(repo, 'a.ts'), 'a\n');
+    writeFileSync(join(repo, 'b.ts'), 'b\n');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-qm', 'initial');
+
+    store = new SessionStore(':memory:');
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+    rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should capture HEAD sha and dirty state', async () => {
+    expect(await getGitHeadState(repo)).toMatchObject({ headSha: git(repo, 'rev-parse', 'HEAD'), dirty: false });
+
+    writeFileSync(join(repo, 'a.ts'), 'changed\n');
+    expect((await getGitHeadState(repo))?.dirty).toBe(true);
+    expect(await getGitHeadState(tmpdir())).toBeNull();
+  });
+
+  it('should link observations to the first commit containing their changes', async () => {
+    const base = (await getGitHeadState(repo))!;
+    writeFileSync(join(repo, 'a.ts'), 'changed\n');
+    writeFileSync(join(repo, 'b.ts'), 'changed\n');
+
+    const { observationIds } = store.storeObservations('mem-1', 'proj', [
+      observation('Edit a', [join(repo, 'a.ts')]),
+      observation('Edit b', ['b.ts'])
+    ], null, 1, 0, undefined, { headSha: base.headSha, dirty: true });
+
+    // Nothing committed yet: observations stay unreconciled
+    expect((await reconcileObservationCommits(store, 'proj', repo)).links).toBe(0);
+
+    git(repo, 'commit', '-qam', 'change a and b');
+    const commitSha = git(repo, 'rev-parse', 'HEAD');
+    writeFileSync(join(repo, 'a.ts'), 'changed again\n');
+    git(repo, 'commit', '-qam', 'change a again');
+
+    const result = await reconcileObservationCommits(store, 'proj', repo);
+
+    expect(result.links).toBe(2);
+    expect(store.getCommitsForObservation(observationIds[0]).map(row => row.commit_sha)).toEqual([commitSha]);
+    expect(store.getObservationsByCommit(commitSha.slice(0, 7)).map(row => row.id)).toEqual(observationIds);
+    expect(store.getUnreconciledObservations('proj')).toHaveLength(0);
+  });
+
+  it('should stop retrying observations whose changes are never committed', async () => {
+    const base = (await getGitHeadState(repo))!;
+    writeFileSync(join(repo, 'a.ts'), 'changed\n');
+    store.storeObservations('mem-1', 'proj', [observation('Edit a', ['a.ts'])], null, 1, 0, undefined, { headSha: base.headSha, dirty: true });
+
+    for (let pass = 0; pass < MAX_RECONCILE_ATTEMPTS; pass++) {
+      expect((await reconcileObservationCommits(store, 'proj', repo)).checked).toBe(1);
+    }
+
+    // Given up: later passes run no git commands for it, even once it is committed
+    git(repo, 'commit', '-qam', 'change a');
+    expect(await reconcileObservationCommits(store, 'proj', repo)).toEqual({ checked: 0, reconciled: 0, links: 0 });
+    expect(store.getUnreconciledObservations('proj', 200, MAX_RECONCILE_ATTEMPTS)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, mock, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+
+// Mock the ModeManager - MUST be before imports
+mock.module('../../src/core/domain/ModeManager.js', () => ({
+  ModeManager: {
+    getInstance: () => ({
+      getActiveMode: () => ({
+        name: 'code',
+        prompts: {},
+        observation_types: [{ id: 'discovery' }, { id: 'bugfix' }, { id: 'change' }],
+        observation_concepts: [],
+      }),
+    }),
+  },
+}));
+
+// Import after mocks
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { ConsolidationService, clusterObservations } from '../../src/core/engine/ConsolidationService.js';
+import type { CompletionAgent } from '../../src/core/engine/agents/index.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+import type { VectorBackend } from '../../src/core/vector/VectorBackend.js';
+
+const MERGED_RESPONSE = `<observation>
+  <type>discovery</type>
+  <title>Auth middleware refreshes JWT tokens</title>
+  <subtitle>Merged</subtitle>
+  <facts><fact>Refresh happens in auth.ts</fact></facts>
+  <narrative>The auth middleware refreshes expiring JWT tokens.</narrative>
+  <concepts><concept>how-it-works</concept></concepts>
+  <files_read><file>src/auth.ts</file></files_read>
+  <files_modified></files_modified>
+</observation>`;
+
+function authObservation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: ['JWT refresh token logic lives in the auth middleware'],
+    narrative: 'The auth middleware refreshes expiring JWT tokens before each request.',
+    concepts: ['how-it-works'],
+    files_read: ['src/auth.ts'],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('ConsolidationService', () => {
+  let store: SessionStore;
+  let agent: CompletionAgent & { complete: ReturnType<typeof mock> };
+  let service: ConsolidationService;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+      spyOn(logger, 'error').mockImplementation(() => {}),
+    ];
+
+    store = new SessionStore(':memory:');
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+
+    const vectorBackend = { syncObservation: mock(() => Promise.resolve()) } as unknown as VectorBackend;
+    const dbManager = {
+      getSessionStore: () => store,
+      getVectorBackend: () => vectorBackend
+    } as unknown as DatabaseManager;
+
+    agent = { complete: mock(() => Promise.resolve(MERGED_RESPONSE)) };
+    service = new ConsolidationService(dbManager, { sdk: agent, gemini: agent, openRouter: agent, openAICompatible: agent });
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  function seedRedundantObservations(): number[] {
+    return ['Auth refresh', 'JWT refresh in auth', 'Token refresh middleware'].map(
+      title => store.storeObservation('mem-1', 'proj', authObservation(title)).id
+    );
+  }
+
+  it('should report clusters without writing in dry-run mode', async () => {
+    const ids = seedRedundantObservations();
+
+    const report = await service.run({ project: 'proj', dryRun: true });
+
+    expect(report.clusters).toHaveLength(1);
+    expect(report.clusters[0].observationIds.sort()).toEqual(ids.sort());
+    expect(report.consolidated).toBe(0);
+    expect(agent.complete).not.toHaveBeenCalled();
+    expect(store.getActiveObservations('proj')).toHaveLength(3);
+  });
+
+  it('should store a consolidated observation and supersede the originals', async () => {
+    const ids = seedRedundantObservations();
+
+    const report = await service.run({ project: 'proj' });
+
+    expect(report.consolidated).toBe(1);
+    expect(report.superseded).toBe(3);
+
+    const consolidatedId = report.clusters[0].consolidatedId!;
+    const active = store.getActiveObservations('proj');
+    expect(active.map(row => row.id)).toEqual([consolidatedId]);
+    expect(active[0].title).toBe('Auth middleware refreshes JWT tokens');
+    expect(store.getSupersededObservations(consolidatedId).map(row => row.id).sort()).toEqual(ids.sort());
+  });
+
+  it('should leave originals untouched when the agent returns no observation', async () => {
+    seedRedundantObservations();
+    agent.complete.mockImplementation(() => Promise.resolve('nothing to merge'));
+
+    const report = await service.run({ project: 'proj' });
+
+    expect(report.consolidated).toBe(0);
+    expect(report.clusters[0].error).toContain('did not contain an observation');
+    expect(store.getActiveObservations('proj')).toHaveLength(3);
+  });
+});
+
+describe('clusterObservations', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    store = new SessionStore(':memory:');
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('should not cluster similar text without shared files or concepts', () => {
+    for (const file of ['a.ts', 'b.ts', 'c.ts']) {
+      store.storeObservation('mem-1', 'proj', { ...authObservation('Auth'), concepts: [file], files_read: [file] });
+    }
+
+    const clusters = clusterObservations(store.getActiveObservations('proj'), {
+      minClusterSize: 2,
+      similarityThreshold: 0.6
+    });
+
+    expect(clusters).toHaveLength(0);
+  });
+
+  it('should not cluster unrelated observations about the same file', () => {
+    store.storeObservation('mem-1', 'proj', authObservation('Auth refresh'));
+    store.storeObservation('mem-1', 'proj', {
+      ...authObservation('Theme'),
+      facts: ['Viewer palette colors'],
+      narrative: 'Dark mode palette changes for the viewer UI.'
+    });
+
+    const clusters = clusterObservations(store.getActiveObservations('proj'), {
+      minClusterSize: 2,
+      similarityThreshold: 0.6
+    });
+
+    expect(clusters).toHaveLength(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type { Server } from 'http';
+import express from 'express';
+
+const chatMode = JSON.parse(readFileSync(join(import.meta.dir, '..', '..', 'plugin', 'modes', 'chat.json'), 'utf-8'));
+
+// Mock the ModeManager - MUST be before imports
+mock.module('../../src/core/domain/ModeManager.js', () => ({
+  ModeManager: {
+    getInstance: () => ({
+      getMode: () => chatMode,
+      getActiveMode: () => chatMode,
+    }),
+  },
+}));
+
+// Import after mocks
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { MemoryRoutes } from '../../src/core/engine/http/routes/MemoryRoutes.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+
+const GITHUB_TOKEN = `ghp_${'a1B2'.repeat(9)}`;
+
+describe('POST /api/memories', () => {
+  let store: SessionStore;
+  let server: Server;
+  let baseUrl: string;
+  let spies: ReturnType<typeof spyOn>[] = [];
+
+  beforeEach(async () => {
+    spies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => SettingsDefaultsManager.getAllDefaults())
+    ];
+
+    store = new SessionStore(':memory:');
+    const dbManager = {
+      getSessionStore: () => store,
+      getVectorBackend: () => ({ syncObservation: () => Promise.resolve() })
+    } as unknown as DatabaseManager;
+
+    const app = express();
+    app.use(express.json());
+    new MemoryRoutes(dbManager).setupRoutes(app);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const address = server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    store.close();
+    spies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should redact secrets in saved memories and count them', async () => {
+    const response = await fetch(`${baseUrl}/api/memories`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        project: 'openclaw',
+        channel: 'discord',
+        userId: 'U-42',
+        type: 'decision',
+        title: `Deploy token ${GITHUB_TOKEN}`,
+        content: `Use ${GITHUB_TOKEN} to deploy`
+      })
+    });
+    expect(response.status).toBe(200);
+    const { id } = await response.json() as { id: number };
+
+    const [saved] = store.getObservationsByIds([id]);
+    expect(saved.title).toBe('Deploy token [REDACTED:github_token]');
+    expect(saved.narrative).toBe('Use [REDACTED:github_token] to deploy');
+    expect(store.getRedactionStats().sessions).toMatchObject([
+      { content_session_id: 'saved-openclaw:discord:U-42', total: 2, by_kind: { github_token: 2 } }
+    ]);
+  });
+});
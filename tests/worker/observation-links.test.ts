@@ -0,0 +1,122 @@
+import { describe, it, expect, mock, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+
+// Mock the ModeManager - MUST be before imports
+mock.module('../../src/core/domain/ModeManager.js', () => ({
+  ModeManager: {
+    getInstance: () => ({
+      getActiveMode: () => ({
+        name: 'code',
+        prompts: {},
+        observation_types: [{ id: 'discovery' }, { id: 'bugfix' }, { id: 'change' }],
+        observation_concepts: [],
+      }),
+    }),
+  },
+}));
+
+// Import after mocks
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { parseObservations } from '../../src/parser/parser.js';
+
+function observation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative: null,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('parseObservations relates_to', () => {
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should parse, normalize and dedupe relations', () => {
+    const [parsed] = parseObservations(`<observation>
+      <type>bugfix</type>
+      <title>Fix token refresh</title>
+      <relates_to id="12" kind="supersedes"/>
+      <relates_to kind="follows_up" id="7" />
+      <relates_to id="12" kind="supersedes"/>
+    </observation>`);
+
+    expect(parsed.relates_to).toEqual([
+      { id: 12, kind: 'supersedes' },
+      { id: 7, kind: 'follows-up' }
+    ]);
+  });
+
+  it('should skip relations with unknown kinds or invalid ids', () => {
+    const [parsed] = parseObservations(`<observation>
+      <type>bugfix</type>
+      <relates_to id="abc" kind="supersedes"/>
+      <relates_to id="3" kind="replaces"/>
+    </observation>`);
+
+    expect(parsed.relates_to).toBeUndefined();
+  });
+});
+
+describe('SessionStore observation links', () => {
+  let store: SessionStore;
+
+  beforeEach(() => {
+    loggerSpies = [spyOn(logger, 'debug').mockImplementation(() => {})];
+    store = new SessionStore(':memory:');
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should only link existing, distinct observations', () => {
+    const a = store.storeObservation('mem-1', 'proj', observation('A')).id;
+    const b = store.storeObservation('mem-1', 'proj', observation('B')).id;
+
+    expect(store.addObservationLink(a, b, 'depends-on')).toBe(true);
+    expect(store.addObservationLink(a, b, 'depends-on')).toBe(false);
+    expect(store.addObservationLink(a, 999, 'depends-on')).toBe(false);
+    expect(store.addObservationLink(a, a, 'contradicts')).toBe(false);
+    expect(store.getObservationLinks(b).map(link => [link.from_id, link.to_id])).toEqual([[a, b]]);
+  });
+
+  it('should store relates_to links along with new observations', () => {
+    const a = store.storeObservation('mem-1', 'proj', observation('A')).id;
+    const { observationIds } = store.storeObservations('mem-1', 'proj', [
+      { ...observation('B'), relates_to: [{ id: a, kind: 'contradicts' }, { id: 999, kind: 'follows-up' }] }
+    ], null);
+
+    const links = store.getObservationLinks(a);
+    expect(links).toHaveLength(1);
+    expect(links[0]).toMatchObject({ from_id: observationIds[0], to_id: a, kind: 'contradicts' });
+  });
+
+  it('should walk the graph up to the hop limit and filter by kind', () => {
+    const [a, b, c, d] = ['A', 'B', 'C', 'D'].map(title => store.storeObservation('mem-1', 'proj', observation(title)).id);
+    store.addObservationLink(b, a, 'follows-up');
+    store.addObservationLink(c, b, 'follows-up');
+    store.addObservationLink(d, a, 'contradicts');
+
+    const oneHop = store.getRelatedObservations(a, 1);
+    expect(oneHop.observations.map(obs => [obs.id, obs.hops])).toEqual([[a, 0], [b, 1], [d, 1]]);
+
+    const twoHops = store.getRelatedObservations(a, 2, ['follows-up']);
+    expect(twoHops.observations.map(obs => [obs.id, obs.hops])).toEqual([[a, 0], [b, 1], [c, 2]]);
+    expect(twoHops.links.every(link => link.kind === 'follows-up')).toBe(true);
+  });
+});
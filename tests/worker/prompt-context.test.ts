@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Server } from 'http';
+import express from 'express';
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SessionSearch } from '../../src/core/storage/SessionSearch.js';
+import { PromptContextService } from '../../src/core/engine/PromptContextService.js';
+import { PromptContextRoutes } from '../../src/core/engine/http/routes/PromptContextRoutes.js';
+import type { PromptContextOptions } from '../../src/core/engine/PromptContextService.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+
+const OPTIONS: PromptContextOptions = { enabled: true, topK: 2, sessionTokenCap: 2000 };
+
+function observation(title: string, narrative: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: `${title} details`,
+    facts: [],
+    narrative,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('PromptContextService', () => {
+  let dir: string;
+  let store: SessionStore;
+  let search: SessionSearch;
+  let service: PromptContextService;
+  let authIds: number[];
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+    ];
+
+    dir = join(tmpdir(), `prompt-context-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    const dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    search = new SessionSearch(dbPath);
+
+    const dbManager = { getSessionSearch: () => search, getSessionStore: () => store } as unknown as DatabaseManager;
+    service = new PromptContextService(dbManager);
+
+    authIds = ['Auth token refresh', 'Auth session cookies', 'Auth login redirect']
+      .map(title => store.storeObservation('mem-1', 'proj', observation(title, 'The auth middleware handles this.')).id);
+    store.storeObservation('mem-1', 'proj', observation('Viewer theme', 'Dark mode palette.'));
+  });
+
+  afterEach(() => {
+    search.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should return the top-K matching observations', () => {
+    const result = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'fix the auth bug' }, OPTIONS);
+
+    expect(result.observationIds).toHaveLength(2);
+    expect(result.context).toContain('## Relevant observations');
+    expect(result.context).toContain('Auth');
+    expect(result.context).not.toContain('Viewer theme');
+    expect(result.sessionTokensUsed).toBe(result.tokens);
+  });
+
+  it('should skip observations shown in the session\'s SessionStart context', () => {
+    store.recordContextInjections('s1', authIds.slice(0, 2));
+
+    expect(service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, OPTIONS).observationIds).toEqual([authIds[2]]);
+    expect(service.buildContext({ contentSessionId: 's2', project: 'proj', prompt: 'auth' }, OPTIONS).observationIds).toHaveLength(2);
+  });
+
+  it('should not inject the same observation twice in one session', () => {
+    const first = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, OPTIONS);
+    const second = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, OPTIONS);
+    const third = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, OPTIONS);
+
+    expect(second.observationIds).toHaveLength(1);
+    expect(second.observationIds).not.toContain(first.observationIds[0]);
+    expect(second.observationIds).not.toContain(first.observationIds[1]);
+    expect(third.context).toBe('');
+
+    const otherSession = service.buildContext({ contentSessionId: 's2', project: 'proj', prompt: 'auth' }, OPTIONS);
+    expect(otherSession.observationIds).toHaveLength(2);
+  });
+
+  it('should stop injecting once the session token cap is used up', () => {
+    const capped = { ...OPTIONS, topK: 10, sessionTokenCap: 50 };
+
+    const first = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, capped);
+    const second = service.buildContext({ contentSessionId: 's1', project: 'proj', prompt: 'auth' }, capped);
+
+    expect(first.observationIds.length).toBeGreaterThan(0);
+    expect(first.observationIds.length).toBeLessThan(3);
+    expect(first.tokens).toBeLessThanOrEqual(50);
+    expect(second.sessionTokensUsed).toBeLessThanOrEqual(50);
+  });
+
+  it('should return an empty context when disabled', () => {
+    const result = service.buildContext(
+      { contentSessionId: 's1', project: 'proj', prompt: 'auth' },
+      { ...OPTIONS, enabled: false }
+    );
+
+    expect(result).toEqual({ context: '', observationIds: [], tokens: 0, sessionTokensUsed: 0 });
+  });
+});
+
+describe('POST /api/context/prompt', () => {
+  let store: SessionStore;
+  let search: SessionSearch;
+  let server: Server;
+  let baseUrl: string;
+  let dir: string;
+  let authIds: number[];
+
+  beforeEach(async () => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => ({
+        ...SettingsDefaultsManager.getAllDefaults(),
+        MOLTBRAIN_PROMPT_CONTEXT_ENABLED: 'true',
+        MOLTBRAIN_PROMPT_CONTEXT_TOP_K: '2'
+      }))
+    ];
+
+    dir = join(tmpdir(), `prompt-context-routes-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    const dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(1, 'mem-1');
+    search = new SessionSearch(dbPath);
+    authIds = ['Auth token refresh', 'Auth session cookies', 'Auth login redirect']
+      .map(title => store.storeObservation('mem-1', 'proj', observation(title, 'The auth middleware handles this.')).id);
+
+    const dbManager = { getSessionSearch: () => search, getSessionStore: () => store } as unknown as DatabaseManager;
+    const app = express();
+    app.use(express.json());
+    new PromptContextRoutes(new PromptContextService(dbManager)).setupRoutes(app);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    search.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  async function promptContext(contentSessionId: string): Promise<{ observationIds: number[] }> {
+    const response = await fetch(`${baseUrl}/api/context/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contentSessionId, project: 'proj', prompt: 'fix the auth bug' })
+    });
+    expect(response.status).toBe(200);
+    return await response.json() as { observationIds: number[] };
+  }
+
+  it('should leave out what the session\'s SessionStart context showed', async () => {
+    // What generateContext records for the session_id the SessionStart hook sends
+    store.recordContextInjections('content-1', [authIds[0], authIds[2]]);
+
+    expect((await promptContext('content-1')).observationIds).toEqual([authIds[1]]);
+    expect((await promptContext('content-2')).observationIds).toHaveLength(2);
+  });
+
+  it('should reject a request without a session', async () => {
+    const response = await fetch(`${baseUrl}/api/context/prompt`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ project: 'proj', prompt: 'auth' })
+    });
+    expect(response.status).toBe(400);
+  });
+});
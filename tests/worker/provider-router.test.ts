@@ -0,0 +1,224 @@
+import { describe, it, expect, mock, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import {
+  ProviderRouter,
+  ProviderHealthTracker,
+  parseProviderChain
+} from '../../src/core/engine/ProviderRouter.js';
+import type { FallbackAgent, ProviderName } from '../../src/core/engine/agents/index.js';
+import type { ActiveSession } from '../../src/core/engine-types.js';
+
+function createSession(): ActiveSession {
+  return {
+    sessionDbId: 1,
+    abortController: new AbortController(),
+    currentProvider: null
+  } as unknown as ActiveSession;
+}
+
+function agent(impl: () => Promise<void> = () => Promise.resolve()) {
+  return { startSession: mock(impl) } as FallbackAgent & { startSession: ReturnType<typeof mock> };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+describe('ProviderHealthTracker', () => {
+  let now: number;
+  let tracker: ProviderHealthTracker;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+    ];
+    now = 1_000_000;
+    tracker = new ProviderHealthTracker({ failureThreshold: 2, cooldownMs: 10_000 }, () => now);
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should open the circuit after consecutive failures and probe after the cooldown', () => {
+    tracker.recordFailure('gemini', new Error('Gemini API error: 503'));
+    expect(tracker.getCircuitState('gemini')).toBe('closed');
+
+    tracker.recordFailure('gemini', new Error('Gemini API error: 503'));
+    expect(tracker.getCircuitState('gemini')).toBe('open');
+    expect(tracker.canRoute('gemini')).toBe(false);
+
+    now += 10_000;
+    expect(tracker.getCircuitState('gemini')).toBe('half-open');
+    expect(tracker.canRoute('gemini')).toBe(true);
+
+    tracker.beginProbe('gemini');
+    expect(tracker.canRoute('gemini')).toBe(false);
+
+    tracker.recordSuccess('gemini', 500);
+    expect(tracker.getCircuitState('gemini')).toBe('closed');
+    expect(tracker.snapshot('gemini', true).errorRate).toBe(0);
+  });
+
+  it('should re-open a half-open circuit on a single failure', () => {
+    tracker.recordFailure('gemini', 'ECONNREFUSED');
+    tracker.recordFailure('gemini', 'ECONNREFUSED');
+    now += 10_000;
+
+    tracker.recordFailure('gemini', 'ECONNREFUSED');
+
+    expect(tracker.getCircuitState('gemini')).toBe('open');
+    expect(tracker.snapshot('gemini', true).lastError).toBe('ECONNREFUSED');
+  });
+
+  it('should score slow and failing providers lower', () => {
+    tracker.recordSuccess('claude', 1_000);
+    tracker.recordSuccess('openrouter', 30_000);
+    tracker.recordSuccess('gemini', 1_000);
+    tracker.recordFailure('gemini', '500');
+
+    expect(tracker.score('claude')).toBeGreaterThan(tracker.score('openrouter'));
+    expect(tracker.score('claude')).toBeGreaterThan(tracker.score('gemini'));
+    expect(tracker.score('openrouter')).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('ProviderRouter', () => {
+  let chain: ProviderName[];
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+    ];
+    chain = ['openrouter', 'gemini', 'claude'];
+  });
+
+  afterEach(() => {
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  function createRouter(agents: Record<ProviderName, FallbackAgent>, available: ProviderName[] = chain) {
+    return new ProviderRouter(agents, {
+      getChain: () => chain,
+      isAvailable: provider => available.includes(provider),
+      tracker: new ProviderHealthTracker({ failureThreshold: 1, cooldownMs: 60_000 })
+    });
+  }
+
+  it('should start on the first available provider in the chain', async () => {
+    const agents = { openrouter: agent(), gemini: agent(), claude: agent() };
+    const session = createSession();
+
+    await createRouter(agents, ['gemini', 'claude']).startSession(session);
+
+    expect(agents.openrouter.startSession).not.toHaveBeenCalled();
+    expect(agents.gemini.startSession).toHaveBeenCalledTimes(1);
+    expect(session.currentProvider).toBe('gemini');
+  });
+
+  it('should fail over down the chain on retryable errors', async () => {
+    const agents = {
+      openrouter: agent(() => Promise.reject(new Error('OpenRouter API error: 429 - rate limited'))),
+      gemini: agent(() => Promise.reject(new Error('fetch failed'))),
+      claude: agent()
+    };
+    const router = createRouter(agents);
+
+    await router.startSession(createSession());
+
+    expect(agents.claude.startSession).toHaveBeenCalledTimes(1);
+    const health = router.getHealth();
+    expect(health.map(h => h.circuit)).toEqual(['open', 'open', 'closed']);
+  });
+
+  it('should rethrow errors that are not retryable', async () => {
+    const agents = {
+      openrouter: agent(() => Promise.reject(new Error('Invalid prompt'))),
+      gemini: agent(),
+      claude: agent()
+    };
+
+    await expect(createRouter(agents).startSession(createSession())).rejects.toThrow('Invalid prompt');
+    expect(agents.gemini.startSession).not.toHaveBeenCalled();
+  });
+
+  it('should throw when every provider has failed', async () => {
+    const failing = () => agent(() => Promise.reject(new Error('503')));
+    const agents = { openrouter: failing(), gemini: failing(), claude: failing() };
+
+    await expect(createRouter(agents).startSession(createSession())).rejects.toThrow('No healthy provider available');
+  });
+
+  it('should hand a session back once a failed provider cools down', async () => {
+    chain = ['gemini', 'claude'];
+    let now = 0;
+    const session = createSession();
+    let router!: ProviderRouter;
+
+    let geminiCalls = 0;
+    const agents = {
+      openrouter: agent(),
+      gemini: agent(() => (++geminiCalls === 1 ? Promise.reject(new Error('503')) : Promise.resolve())),
+      claude: agent(async () => {
+        expect(router.shouldHandOff(session, 'claude')).toBe(false);
+        now += 60_000;
+        expect(router.shouldHandOff(session, 'claude')).toBe(true);
+      })
+    };
+    router = new ProviderRouter(agents, {
+      getChain: () => chain,
+      isAvailable: () => true,
+      tracker: new ProviderHealthTracker({ failureThreshold: 1, cooldownMs: 60_000 }, () => now)
+    });
+
+    await router.startSession(session);
+
+    expect(agents.gemini.startSession).toHaveBeenCalledTimes(2);
+    expect(agents.claude.startSession).toHaveBeenCalledTimes(1);
+    expect(session.currentProvider).toBe('gemini');
+  });
+});
+
+describe('Configured provider chain', () => {
+  let settingsSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'warn').mockImplementation(() => {}),
+    ];
+    settingsSpy = spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => ({
+      ...SettingsDefaultsManager.getAllDefaults(),
+      MOLTBRAIN_PROVIDER: 'gemini',
+      MOLTBRAIN_PROVIDER_CHAIN: ''
+    }));
+  });
+
+  afterEach(() => {
+    settingsSpy.mockRestore();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should not fall back to Claude unless it is listed in the chain', async () => {
+    const agents = {
+      claude: agent(),
+      gemini: agent(() => Promise.reject(new Error('Gemini API error: 503'))),
+      openrouter: agent(),
+      'openai-compatible': agent()
+    };
+    const router = new ProviderRouter(agents, {
+      isAvailable: () => true,
+      tracker: new ProviderHealthTracker({ failureThreshold: 1, cooldownMs: 60_000 })
+    });
+
+    await expect(router.startSession(createSession())).rejects.toThrow('chain: gemini)');
+    expect(agents.claude.startSession).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseProviderChain', () => {
+  it('should keep known providers in order without duplicates', () => {
+    expect(parseProviderChain(' OpenRouter, gemini ,bogus,claude,gemini')).toEqual(['openrouter', 'gemini', 'claude']);
+  });
+});
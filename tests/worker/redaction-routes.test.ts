@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import type { Server } from 'http';
+import express from 'express';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { RedactionRoutes } from '../../src/core/engine/http/routes/RedactionRoutes.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+
+describe('Redaction routes', () => {
+  let store: SessionStore;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    store = new SessionStore(':memory:');
+    const dbManager = { getSessionStore: () => store } as unknown as DatabaseManager;
+
+    const app = express();
+    app.use(express.json());
+    new RedactionRoutes(dbManager).setupRoutes(app);
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const address = server.address() as { port: number };
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    store.close();
+  });
+
+  it('should record session counts and serve them on /api/stats/redactions', async () => {
+    const post = (body: unknown) => fetch(`${baseUrl}/api/sessions/redactions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    expect((await post({ contentSessionId: 'session-1', counts: { github_token: 2, email: 1 } })).status).toBe(200);
+    expect((await post({ contentSessionId: 'session-1', counts: { email: -1 } })).status).toBe(400);
+
+    const response = await fetch(`${baseUrl}/api/stats/redactions?limit=5`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      total: 3,
+      sessions: [{ content_session_id: 'session-1', total: 3, by_kind: { github_token: 2, email: 1 } }]
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { logger } from '../../src/utils/logger.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { SQLiteVectorSync } from '../../src/core/vector/SQLiteVectorSync.js';
+import { ReprocessService } from '../../src/core/engine/ReprocessService.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+import type { SessionManager } from '../../src/core/engine/SessionManager.js';
+import type { FallbackAgent } from '../../src/core/engine/agents/index.js';
+
+function observation(title: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [`${title} fact`],
+    narrative: `${title} narrative`,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+describe('ReprocessService vector sync', () => {
+  let store: SessionStore;
+  let vectors: SQLiteVectorSync;
+  let service: ReprocessService;
+  let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+  beforeEach(() => {
+    loggerSpies = [
+      spyOn(logger, 'info').mockImplementation(() => {}),
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+    ];
+
+    store = new SessionStore(':memory:');
+    vectors = new SQLiteVectorSync('test-collection', store.db);
+    const dbManager = {
+      getSessionStore: () => store,
+      getVectorBackend: () => vectors
+    } as unknown as DatabaseManager;
+    service = new ReprocessService(dbManager, {} as SessionManager, {} as FallbackAgent);
+  });
+
+  afterEach(() => {
+    store.close();
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  /**
+   * Observation IDs with vectors, once the fire-and-forget sync has settled
+   */
+  async function indexedIds(expected: number[]): Promise<number[]> {
+    const read = () => (store.db.prepare(`
+      SELECT DISTINCT sqlite_id FROM observation_vectors WHERE doc_type = 'observation' ORDER BY sqlite_id
+    `).all() as Array<{ sqlite_id: number }>).map(row => row.sqlite_id);
+    for (let attempt = 0; attempt < 50 && JSON.stringify(read()) !== JSON.stringify(expected); attempt++) {
+      await Bun.sleep(10);
+    }
+    return read();
+  }
+
+  it('should replace the vectors of swapped observations on apply and rollback', async () => {
+    const sessionId = store.createSDKSession('content-1', 'proj', 'fix the login bug');
+    store.updateMemorySessionId(sessionId, 'mem-1');
+    const oldIds = ['Old login finding', 'Old cookie finding'].map(title => store.storeObservation('mem-1', 'proj', observation(title)).id);
+    await vectors.ensureBackfilled();
+
+    const [source] = store.getReprocessableSessions('proj');
+    const runId = store.createReprocessRun('proj', [source], { modeId: 'code--chill' });
+    store.stageObservations({ runId, memorySessionId: 'mem-1' }, 'proj', [observation('New login decision')], 1, 0, 1000);
+    store.setReprocessSessionStatus(runId, sessionId, 'staged', { events: 1 });
+    store.setReprocessRunStatus(runId, 'staged');
+
+    service.apply(runId);
+    const newIds = store.getReprocessObservations(runId, 'staged').map(obs => obs.id);
+    expect(await indexedIds(newIds)).toEqual(newIds);
+
+    service.rollback(runId);
+    expect(await indexedIds(oldIds)).toEqual(oldIds);
+  });
+});
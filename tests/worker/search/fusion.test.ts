@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  reciprocalRankFusion,
+  parseFusionConfig,
+  DEFAULT_FUSION_CONFIG
+} from '../../../src/core/engine/search/fusion.js';
+
+describe('reciprocalRankFusion', () => {
+  it('should rank hits found by both sources above single-source hits', () => {
+    const fused = reciprocalRankFusion({
+      fts: [{ docType: 'observation', id: 1 }, { docType: 'observation', id: 2 }],
+      vector: [{ docType: 'observation', id: 3 }, { docType: 'observation', id: 2 }]
+    });
+
+    expect(fused[0].id).toBe(2);
+    expect(fused[0].breakdown.fts?.rank).toBe(2);
+    expect(fused[0].breakdown.vector?.rank).toBe(2);
+    expect(fused).toHaveLength(3);
+  });
+
+  it('should score each hit as weight / (k + rank)', () => {
+    const fused = reciprocalRankFusion(
+      { fts: [{ docType: 'session', id: 9 }] },
+      { k: 10, weights: { fts: 2, vector: 1 } }
+    );
+
+    expect(fused[0].score).toBeCloseTo(2 / 11, 10);
+  });
+
+  it('should keep doc types with the same id separate', () => {
+    const fused = reciprocalRankFusion({
+      fts: [{ docType: 'observation', id: 1 }, { docType: 'prompt', id: 1 }]
+    });
+
+    expect(fused.map(hit => hit.docType)).toEqual(['observation', 'prompt']);
+  });
+
+  it('should ignore duplicate hits within one source', () => {
+    const fused = reciprocalRankFusion({
+      vector: [{ docType: 'observation', id: 1 }, { docType: 'observation', id: 1 }, { docType: 'observation', id: 2 }]
+    });
+
+    expect(fused).toHaveLength(2);
+    expect(fused[1].breakdown.vector?.rank).toBe(2);
+  });
+});
+
+describe('parseFusionConfig', () => {
+  it('should parse valid setting strings', () => {
+    expect(parseFusionConfig({ k: '20', ftsWeight: '0.5', vectorWeight: '2' })).toEqual({
+      k: 20,
+      weights: { fts: 0.5, vector: 2 }
+    });
+  });
+
+  it('should fall back to defaults for invalid or negative values', () => {
+    expect(parseFusionConfig({ k: 'abc', ftsWeight: '-1' })).toEqual(DEFAULT_FUSION_CONFIG);
+  });
+});
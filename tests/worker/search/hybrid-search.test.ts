@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { logger } from '../../../src/utils/logger.js';
+import { SessionStore } from '../../../src/core/storage/DataStore.js';
+import { SessionSearch } from '../../../src/core/storage/SessionSearch.js';
+import { SQLiteVectorSync } from '../../../src/core/vector/SQLiteVectorSync.js';
+import { HybridSearchStrategy } from '../../../src/core/engine/search/strategies/HybridSearchStrategy.js';
+
+function observation(title: string, narrative: string) {
+  return {
+    type: 'discovery',
+    title,
+    subtitle: null,
+    facts: [],
+    narrative,
+    concepts: [],
+    files_read: [],
+    files_modified: []
+  };
+}
+
+let loggerSpies: ReturnType<typeof spyOn>[] = [];
+
+/**
+ * Hybrid search over a real FTS5 index and the SQLite vector backend
+ */
+describe('Hybrid keyword + vector search', () => {
+  let dir: string;
+  let store: SessionStore;
+  let search: SessionSearch;
+  let strategy: HybridSearchStrategy;
+  let ids: Record<'refresh' | 'theme' | 'migration', number>;
+
+  beforeEach(async () => {
+    loggerSpies = [
+      spyOn(logger, 'debug').mockImplementation(() => {}),
+      spyOn(logger, 'info').mockImplementation(() => {}),
+    ];
+
+    dir = join(tmpdir(), `hybrid-search-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(dir, { recursive: true });
+    const dbPath = join(dir, 'test.db');
+
+    store = new SessionStore(dbPath);
+    search = new SessionSearch(dbPath);
+    const sessionId = store.createSDKSession('content-1', 'proj', 'prompt');
+    store.updateMemorySessionId(sessionId, 'mem-1');
+    ids = {
+      refresh: store.storeObservation('mem-1', 'proj', observation('Token refresh', 'JWT token refresh happens in the auth middleware')).id,
+      theme: store.storeObservation('mem-1', 'proj', observation('Dark theme', 'The viewer palette has a dark token set')).id,
+      migration: store.storeObservation('mem-1', 'proj', observation('Schema migration', 'Database migration runner checks checksums')).id
+    };
+
+    const vectors = new SQLiteVectorSync('test-collection', store.db);
+    await vectors.ensureBackfilled();
+    strategy = new HybridSearchStrategy(vectors, store, search);
+  });
+
+  afterEach(() => {
+    search.close();
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+    loggerSpies.forEach(spy => spy.mockRestore());
+  });
+
+  it('should rank FTS5 matches by bm25 and ignore FTS syntax in the query', () => {
+    const rows = search.searchObservations('token refresh', { orderBy: 'relevance' });
+    expect(rows.map(row => row.id)).toEqual([ids.refresh, ids.theme]);
+
+    // Quotes, operators and column filters are matched as plain words
+    expect(search.searchObservations('title:"refresh" OR', { orderBy: 'relevance' }).map(row => row.id)).toEqual([ids.refresh]);
+    expect(search.searchObservations('***', { orderBy: 'relevance' })).toEqual([]);
+  });
+
+  it('should fall back to the vector ranking when FTS5 finds nothing', async () => {
+    // No stemming in FTS5, but the embedder's trigrams match "migration"
+    expect(search.searchObservations('migrations', { orderBy: 'relevance' })).toEqual([]);
+
+    const result = await strategy.search({ query: 'migrations', searchType: 'observations' });
+
+    expect(result.results.observations[0].id).toBe(ids.migration);
+    expect(result.ranked!.every(hit => hit.breakdown.fts === undefined && hit.breakdown.vector)).toBe(true);
+    expect(result.fellBack).toBe(false);
+  });
+
+  it('should apply the date range to vector-only hits', async () => {
+    store.db.prepare('UPDATE observations SET created_at_epoch = ? WHERE id = ?').run(1000, ids.theme);
+
+    const result = await strategy.search({ query: 'token refresh', searchType: 'observations', dateRange: { start: 2000 } });
+
+    expect(result.results.observations.map(obs => obs.id)).toContain(ids.refresh);
+    expect(result.results.observations.map(obs => obs.id)).not.toContain(ids.theme);
+    expect(result.ranked!.some(hit => hit.id === ids.theme)).toBe(false);
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, mock, beforeEach } from 'bun:test';
-import { HybridSearchStrategy } from '../../../../src/core/worker/search/strategies/HybridSearchStrategy.js';
-import type { StrategySearchOptions, ObservationSearchResult, SessionSummarySearchResult } from '../../../../src/core/worker/search/types.js';
+import { HybridSearchStrategy } from '../../../../src/core/engine/search/strategies/HybridSearchStrategy.js';
+import type { StrategySearchOptions, ObservationSearchResult, SessionSummarySearchResult } from '../../../../src/core/engine/search/types.js';
 
 // Mock observation data
 const mockObservation1: ObservationSearchResult = {
@@ -109,7 +109,10 @@ describe('HybridSearchStrategy', () => {
       findByFile: mock(() => ({
         observations: [mockObservation1, mockObservation2],
         sessions: [mockSession]
-      }))
+      })),
+      searchObservations: mock(() => []),
+      searchSessions: mock(() => []),
+      searchUserPrompts: mock(() => [])
     };
 
     strategy = new HybridSearchStrategy(mockChromaSync, mockSessionStore, mockSessionSearch);
@@ -175,15 +178,68 @@ describe('HybridSearchStrategy', () => {
       expect(result.strategy).toBe('hybrid');
     });
 
-    it('should return empty result for generic hybrid search (use specific methods)', async () => {
-      const options: StrategySearchOptions = {
-        query: 'test query'
-      };
+    it('should fuse FTS and vector rankings with per-source scores', async () => {
+      mockSessionSearch.searchObservations = mock(() => [mockObservation1, mockObservation2]);
+      mockChromaSync.queryChroma = mock(() => Promise.resolve({
+        ids: [2, 3],
+        distances: [0.1, 0.2],
+        metadatas: [{ doc_type: 'observation' }, { doc_type: 'observation' }]
+      }));
 
-      const result = await strategy.search(options);
+      const result = await strategy.search({ query: 'test query' });
 
-      // Generic search returns empty - use findByConcept/findByType/findByFile instead
-      expect(result.results.observations).toHaveLength(0);
+      // #2 is ranked by both sources, #1 only by FTS (rank 1), #3 only by vector (rank 2)
+      expect(result.results.observations.map(obs => obs.id)).toEqual([2, 1, 3]);
+      expect(result.ranked).toEqual([
+        { docType: 'observation', id: 2, score: 1 / 62 + 1 / 61, breakdown: { fts: { rank: 2, score: 1 / 62 }, vector: { rank: 1, score: 1 / 61 } } },
+        { docType: 'observation', id: 1, score: 1 / 61, breakdown: { fts: { rank: 1, score: 1 / 61 } } },
+        { docType: 'observation', id: 3, score: 1 / 62, breakdown: { vector: { rank: 2, score: 1 / 62 } } }
+      ]);
+      expect(result.usedChroma).toBe(true);
+      expect(result.fellBack).toBe(false);
+      expect(mockSessionSearch.searchObservations).toHaveBeenCalledWith('test query', expect.objectContaining({ orderBy: 'relevance' }));
+    });
+
+    it('should apply the configured k and source weights', async () => {
+      const weighted = new HybridSearchStrategy(mockChromaSync, mockSessionStore, mockSessionSearch, { k: 0, weights: { fts: 3, vector: 1 } });
+      mockSessionSearch.searchObservations = mock(() => [mockObservation1]);
+      mockChromaSync.queryChroma = mock(() => Promise.resolve({
+        ids: [2],
+        distances: [0.1],
+        metadatas: [{ doc_type: 'observation' }]
+      }));
+
+      const result = await weighted.search({ query: 'test query' });
+
+      expect(result.ranked?.map(hit => [hit.id, hit.score])).toEqual([[1, 3], [2, 1]]);
+    });
+
+    it('should fall back to the FTS ranking when vector search fails', async () => {
+      mockSessionSearch.searchObservations = mock(() => [mockObservation3, mockObservation1]);
+      mockChromaSync.queryChroma = mock(() => Promise.reject(new Error('Chroma connection failed')));
+
+      const result = await strategy.search({ query: 'test query' });
+
+      expect(result.results.observations.map(obs => obs.id)).toEqual([3, 1]);
+      expect(result.usedChroma).toBe(false);
+      expect(result.fellBack).toBe(true);
+    });
+
+    it('should drop vector-only hits that fail the metadata filters', async () => {
+      mockChromaSync.queryChroma = mock(() => Promise.resolve({
+        ids: [1, 2],
+        distances: [0.1, 0.2],
+        metadatas: [{ doc_type: 'observation' }, { doc_type: 'observation' }]
+      }));
+      mockSessionStore.getObservationsByIds = mock(() => [mockObservation2]);
+
+      const result = await strategy.search({ query: 'test query', obsType: 'bugfix', searchType: 'observations' });
+
+      expect(result.results.observations.map(obs => obs.id)).toEqual([2]);
+      expect(result.ranked).toHaveLength(1);
+      expect(mockSessionStore.getObservationsByIds).toHaveBeenCalledWith([1, 2], expect.objectContaining({ type: 'bugfix' }));
+      expect(mockChromaSync.queryChroma).toHaveBeenCalledWith('test query', expect.any(Number), { doc_type: 'observation' });
+      expect(mockSessionSearch.searchSessions).not.toHaveBeenCalled();
     });
   });
 
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach, spyOn, mock } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+mock.module('../../src/utils/logger.js', () => ({
+  logger: {
+    info: () => {},
+    debug: () => {},
+    warn: () => {},
+    error: () => {},
+    formatTool: (toolName: string) => toolName,
+  },
+}));
+
+// Import after mocks
+import { SettingsDefaultsManager } from '../../src/common/SettingsDefaultsManager.js';
+import { SessionStore } from '../../src/core/storage/DataStore.js';
+import { PendingMessageStore } from '../../src/core/storage/PendingMessageStore.js';
+import { SessionManager } from '../../src/core/engine/SessionManager.js';
+import type { DatabaseManager } from '../../src/core/engine/DatabaseManager.js';
+
+const GITHUB_TOKEN = `ghp_${'a1B2'.repeat(9)}`;
+
+/**
+ * What the session routes do with a request that skipped the hooks (chat
+ * integrations, scripts): store the prompt, then queue the tool use
+ */
+describe('Worker-side session intake', () => {
+  let dir: string;
+  let store: SessionStore;
+  let sessionManager: SessionManager;
+  let sessionDbId: number;
+  let spies: ReturnType<typeof spyOn>[] = [];
+
+  beforeEach(() => {
+    spies = [
+      spyOn(SettingsDefaultsManager, 'loadFromFile').mockImplementation(() => SettingsDefaultsManager.getAllDefaults())
+    ];
+
+    dir = join(tmpdir(), `session-intake-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(join(dir, '.moltbrain'), { recursive: true });
+    writeFileSync(join(dir, '.moltbrain', 'policy.json'), JSON.stringify({ ignoreTools: ['Bash'] }));
+
+    store = new SessionStore(':memory:');
+    sessionDbId = store.createSDKSession('chat-1', 'proj', `deploy with ${GITHUB_TOKEN}`);
+    store.setSessionMode('chat-1', 'code');
+    const dbManager = {
+      getSessionStore: () => store,
+      getSessionById: (id: number) => store.getSessionById(id)
+    } as unknown as DatabaseManager;
+    sessionManager = new SessionManager(dbManager);
+  });
+
+  afterEach(() => {
+    store.close();
+    spies.forEach(spy => spy.mockRestore());
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should not queue tool uses the privacy policy denies', async () => {
+    const queued = await sessionManager.queueObservation(sessionDbId, {
+      tool_name: 'Bash', tool_input: { command: 'cat .env' }, tool_response: 'SECRET=1', prompt_number: 1, cwd: dir
+    });
+
+    expect(queued).toBe(false);
+    expect(new PendingMessageStore(store.db).getPendingCount(sessionDbId)).toBe(0);
+    expect(store.getPolicySuppressions({ project: 'proj' })).toMatchObject([{ tool_name: 'Bash', action: 'ignore_tool', rule: 'Bash' }]);
+  });
+
+  it('should redact prompts and tool uses and count the redactions', async () => {
+    store.saveUserPrompt('chat-1', 1, `deploy with ${GITHUB_TOKEN}`);
+    const queued = await sessionManager.queueObservation(sessionDbId, {
+      tool_name: 'ChatMessage', tool_input: { channel: 'discord', message: `token is ${GITHUB_TOKEN}` }, tool_response: 'ok', prompt_number: 1
+    });
+
+    expect(queued).toBe(true);
+    const [message] = new PendingMessageStore(store.db).getAllPending(sessionDbId);
+    expect(message.tool_input).not.toContain(GITHUB_TOKEN);
+    expect(message.tool_input).toContain('[REDACTED:github_token]');
+    expect(store.getUserPrompt('chat-1', 1)).toBe('deploy with [REDACTED:github_token]');
+    expect(store.getSessionById(sessionDbId)!.user_prompt).toBe('deploy with [REDACTED:github_token]');
+
+    // The first prompt is counted once, not again for the session row
+    expect(store.getRedactionStats().sessions).toMatchObject([{ content_session_id: 'chat-1', total: 2, by_kind: { github_token: 2 } }]);
+  });
+});